@@ -21,6 +21,8 @@ import * as db from "./db/connection.js";
 import { LocalLogBackend } from "./logging/local-backend.js";
 import { CloudLogBackend } from "./logging/cloud-backend.js";
 import { ContainerLogMonitor } from "./logging/docker-monitor.js";
+import { ServiceMetricsCollector } from "./compose/service-metrics.js";
+import { VolumeBackupManager } from "./compose/volume-backup.js";
 import { AgentLogger } from "./logging/agent-logger.js";
 import type { LogBackend } from "./logging/types.js";
 import { LogComponents } from "./logging/types.js";
@@ -72,6 +74,8 @@ export default class DeviceAgent {
   private logBackend!: LocalLogBackend;
   private logBackends: LogBackend[] = [];
   private logMonitor?: ContainerLogMonitor;
+  private serviceMetrics?: ServiceMetricsCollector; // Per-container resource usage and OOM/restart events
+  private volumeBackups?: VolumeBackupManager; // Volume snapshots (volume-backup/volume-restore job handlers)
   private agentLogger!: AgentLogger; // Structured logging for agent-level events
   private firewall?: AgentFirewall; // Network firewall protection
   private updater?: AgentUpdater; // Agent self-update handler
@@ -92,6 +96,9 @@ export default class DeviceAgent {
   // Scheduled restart timer (controlled from cloud config)
   private scheduledRestartTimer?: NodeJS.Timeout;
 
+  // Daily client certificate renewal check
+  private certificateRenewalTimer?: NodeJS.Timeout;
+
   private readonly DEVICE_API_PORT = parseInt(
     process.env.DEVICE_API_PORT || "48484",
     10
@@ -389,6 +396,17 @@ export default class DeviceAgent {
       await this.deviceManager.updateAgentVersion(currentVersion);
       this.deviceInfo = this.deviceManager.getDeviceInfo();
     }
+
+    // Request a client certificate if missing or expiring, then check daily
+    if (this.deviceInfo.provisioned && this.CLOUD_API_ENDPOINT) {
+      await this.renewClientCertificate();
+      this.certificateRenewalTimer = setInterval(async () => {
+        if (await this.renewClientCertificate()) {
+          this.applyClientCertificate();
+        }
+      }, 24 * 60 * 60 * 1000);
+      this.certificateRenewalTimer.unref();
+    }
     
     // Now set the device ID on the logger
     this.agentLogger.setDeviceId(this.deviceInfo.uuid);
@@ -399,11 +417,51 @@ export default class DeviceAgent {
       name: this.deviceInfo.deviceName || "Not set",
       provisioned: this.deviceInfo.provisioned,
       hasApiKey: !!this.deviceInfo.deviceApiKey,
+      hasClientCertificate: !!this.deviceInfo.clientCertificate,
       agentVersion: this.deviceInfo.agentVersion,
       mqtt: this.deviceInfo.mqttBrokerConfig
     });
   }
 
+  /**
+   * Renew the client certificate when it is missing or expires soon.
+   * Failures are logged; the device keeps using its API key.
+   */
+  private async renewClientCertificate(): Promise<boolean> {
+    try {
+      const renewed = await this.deviceManager.renewClientCertificate();
+      if (renewed) {
+        this.deviceInfo = this.deviceManager.getDeviceInfo();
+      }
+      return renewed;
+    } catch (error: any) {
+      this.agentLogger.warnSync("Client certificate renewal failed", {
+        component: LogComponents.agent,
+        error: error.message,
+        note: "Device API key is used until the next attempt",
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Use a renewed client certificate for the next API requests and MQTT reconnect
+   */
+  private applyClientCertificate(): void {
+    const clientCertificate = this.deviceInfo.clientCertificate;
+    if (!clientCertificate) {
+      return;
+    }
+
+    this.cloudSync?.updateHttpClient();
+    if (this.deviceInfo.mqttBrokerConfig?.useTls) {
+      MqttManager.getInstance().updateConnectOptions({
+        cert: clientCertificate.certificate,
+        key: clientCertificate.privateKey,
+      });
+    }
+  }
+
   private async initializeMqttManager(): Promise<void> {
     this.agentLogger.infoSync("Initializing MQTT Manager", {
       component: LogComponents.agent,
@@ -452,12 +510,19 @@ export default class DeviceAgent {
         // MQTT library expects CA cert as string (not Buffer)
         mqttOptions.ca = caCert;
         mqttOptions.rejectUnauthorized = this.deviceInfo.mqttBrokerConfig.verifyCertificate;
+
+        // Client certificate for brokers that require mutual TLS
+        if (this.deviceInfo.clientCertificate) {
+          mqttOptions.cert = this.deviceInfo.clientCertificate.certificate;
+          mqttOptions.key = this.deviceInfo.clientCertificate.privateKey;
+        }
         
         this.agentLogger.infoSync("MQTT TLS enabled", {
           component: LogComponents.agent,
           protocol: this.deviceInfo.mqttBrokerConfig.protocol,
           verifyCertificate: this.deviceInfo.mqttBrokerConfig.verifyCertificate,
           hasCaCert: !!this.deviceInfo.mqttBrokerConfig.caCert,
+          hasClientCert: !!this.deviceInfo.clientCertificate,
         });
       }
 
@@ -568,6 +633,28 @@ export default class DeviceAgent {
         component: LogComponents.agent,
         backendCount: this.logBackends.length,
       });
+
+      // Sample per-service resource usage (reported with device metrics)
+      this.serviceMetrics?.stop();
+      this.serviceMetrics = new ServiceMetricsCollector(docker, this.agentLogger, {
+        sampleIntervalMs: parseInt(process.env.SERVICE_METRICS_INTERVAL_MS || "60000", 10),
+      });
+      await this.serviceMetrics.start();
+
+      // Volume backup/restore, run from jobs
+      this.volumeBackups = new VolumeBackupManager(
+        docker,
+        {
+          cloudApiEndpoint: this.CLOUD_API_ENDPOINT,
+          getDeviceInfo: () => {
+            const info = this.deviceManager.getDeviceInfo();
+            return { uuid: info.uuid, deviceApiKey: info.deviceApiKey || info.apiKey };
+          },
+          helperImage: process.env.VOLUME_BACKUP_HELPER_IMAGE,
+          runExclusive: (operation) => this.containerManager.runExclusive(operation),
+        },
+        this.agentLogger
+      );
     }
 
     // Watch for target state changes to update cache
@@ -826,6 +913,9 @@ export default class DeviceAgent {
       this.sensors, // Pass protocol-adapters for health reporting
       MqttManager.getInstance() // Pass MQTT manager singleton for state reporting (optional)
     );
+    if (this.serviceMetrics) {
+      this.cloudSync.setServiceMetricsCollector(this.serviceMetrics);
+    }
 
     // Reinitialize device actions with cloudSync for connection health endpoint
     deviceActions.initialize(
@@ -876,6 +966,10 @@ export default class DeviceAgent {
         this.deviceInfo.uuid
       );
 
+      if (this.volumeBackups) {
+        this.registerVolumeBackupHandlers(this.volumeBackups);
+      }
+
       await this.jobs.start();
 
       this.agentLogger?.infoSync("Jobs Feature initialized", {
@@ -897,6 +991,33 @@ export default class DeviceAgent {
     }
   }
 
+  /**
+   * Built-in job handlers for volume snapshots:
+   *   volume-backup <appId> <volumeName> [pauseService]
+   *   volume-restore <backupId>
+   */
+  private registerVolumeBackupHandlers(volumeBackups: VolumeBackupManager): void {
+    const engine = this.jobs!.getJobEngine();
+
+    engine.registerHandler("volume-backup", async ([appId, volumeName, pauseService]) => {
+      if (!appId || isNaN(parseInt(appId, 10)) || !volumeName) {
+        throw new Error("volume-backup requires <appId> <volumeName> [pauseService]");
+      }
+      const record = await volumeBackups.backup(parseInt(appId, 10), volumeName, {
+        pauseService: pauseService === "true",
+      });
+      return JSON.stringify(record);
+    });
+
+    engine.registerHandler("volume-restore", async ([backupId]) => {
+      if (!backupId || isNaN(parseInt(backupId, 10))) {
+        throw new Error("volume-restore requires <backupId>");
+      }
+      const result = await volumeBackups.restore(parseInt(backupId, 10));
+      return JSON.stringify({ backupId: parseInt(backupId, 10), ...result });
+    });
+  }
+
   private async initializeSensorPublish(): Promise<void> {
     this.agentLogger?.infoSync("Initializing Sensor Publish Feature", {
       component: LogComponents.agent,
@@ -1057,6 +1178,7 @@ export default class DeviceAgent {
         this.deviceInfo.uuid
       );
       await this.sensors.start();
+      deviceActions.setSensorsFeature(this.sensors);
     } catch (error) {
       this.agentLogger?.errorSync(
         "Failed to initialize Protocol Adapters",
@@ -1067,6 +1189,7 @@ export default class DeviceAgent {
         }
       );
       this.sensors = undefined;
+      deviceActions.setSensorsFeature(undefined);
     }
   }
 
@@ -1436,6 +1559,14 @@ export default class DeviceAgent {
         });
       }
 
+      // Stop service metrics sampling
+      if (this.serviceMetrics) {
+        this.serviceMetrics.stop();
+        this.agentLogger?.infoSync("Service metrics collector stopped", {
+          component: LogComponents.agent,
+        });
+      }
+
       // Stop firewall
       if (this.firewall) {
         await this.firewall.stop();
@@ -1531,6 +1662,12 @@ export default class DeviceAgent {
         });
       }
 
+      // Clear certificate renewal timer
+      if (this.certificateRenewalTimer) {
+        clearInterval(this.certificateRenewalTimer);
+        this.certificateRenewalTimer = undefined;
+      }
+
       // Remove all StateReconciler event listeners
       if (this.stateReconciler) {
         this.stateReconciler.removeListener("target-state-changed", this.targetStateChangeHandler);
@@ -112,10 +112,11 @@ export class AlertManager implements IAlertManager {
 	
 	/**
 	 * Calculate fingerprint for deduplication
-	 * Hash of: metric + method + severity
+	 * Hash of: metric + method + severity (+ partner metric for correlation alerts)
 	 */
 	private calculateFingerprint(alert: AnomalyAlert): string {
-		const data = `${alert.metric}:${alert.detectionMethod}:${alert.severity}`;
+		const partner = alert.context.correlation?.partnerMetric;
+		const data = `${alert.metric}:${alert.detectionMethod}:${alert.severity}${partner ? `:${partner}` : ''}`;
 		return crypto.createHash('sha256').update(data).digest('hex').slice(0, 16);
 	}
 	
@@ -168,6 +168,53 @@ export function getRecentValues(buffer: StatisticalBuffer, count: number): numbe
 	return result;
 }
 
+/**
+ * Get recent samples (last n, oldest first) with timestamps
+ */
+export function getRecentSamples(buffer: StatisticalBuffer, count: number): Array<{ value: number; timestamp: number }> {
+	const result: Array<{ value: number; timestamp: number }> = [];
+	const actualCount = Math.min(count, buffer.size);
+	
+	for (let i = actualCount - 1; i >= 0; i--) {
+		const index = (buffer.head - 1 - i + buffer.maxSize) % buffer.maxSize;
+		result.push({ value: buffer.values[index], timestamp: buffer.timestamps[index] });
+	}
+	
+	return result;
+}
+
+/**
+ * Pearson correlation coefficient of two equal-length series
+ * Returns NaN if either series is constant (correlation undefined)
+ */
+export function getCorrelation(xs: number[], ys: number[]): number {
+	const n = Math.min(xs.length, ys.length);
+	if (n < 2) return NaN;
+	
+	let meanX = 0;
+	let meanY = 0;
+	for (let i = 0; i < n; i++) {
+		meanX += xs[i];
+		meanY += ys[i];
+	}
+	meanX /= n;
+	meanY /= n;
+	
+	let cov = 0;
+	let varX = 0;
+	let varY = 0;
+	for (let i = 0; i < n; i++) {
+		const dx = xs[i] - meanX;
+		const dy = ys[i] - meanY;
+		cov += dx * dy;
+		varX += dx * dx;
+		varY += dy * dy;
+	}
+	
+	if (varX === 0 || varY === 0) return NaN;
+	return Math.max(-1, Math.min(1, cov / Math.sqrt(varX * varY)));
+}
+
 /**
  * Get trend direction based on linear regression
  */
@@ -5,8 +5,15 @@
  * Implements multiple detection algorithms optimized for edge devices
  */
 
-import type { AnomalyDetector, DetectionResult, MetricConfig, StatisticalBuffer } from './types';
-import { getMAD, getIQR, getPercentile, getRateOfChange } from './buffer';
+import type {
+	AnomalyDetector,
+	CorrelationPairConfig,
+	DetectionContext,
+	DetectionResult,
+	MetricConfig,
+	StatisticalBuffer,
+} from './types';
+import { getMAD, getIQR, getPercentile, getRateOfChange, getRecentSamples, getCorrelation } from './buffer';
 
 /**
  * Z-Score Detector
@@ -296,6 +303,190 @@ export class EWMADetector implements AnomalyDetector {
 	}
 }
 
+/**
+ * Correlation Detector
+ * Detects broken relationships between metric pairs (e.g., pump current vs. flow)
+ * even when each metric stays within its own range.
+ * 
+ * Samples of both metrics are paired by timestamp. The correlation learned over
+ * the rolling baseline window is compared with the correlation over the most
+ * recent samples; a large drop means the metrics no longer move together.
+ */
+export class CorrelationDetector implements AnomalyDetector {
+	readonly method = 'correlation' as const;
+	
+	detect(value: number, buffer: StatisticalBuffer, config: MetricConfig, context?: DetectionContext): DetectionResult {
+		const pairs = config.correlations || [];
+		let result: DetectionResult | undefined;
+		
+		for (const pair of pairs) {
+			const partner = context?.getBuffer(pair.metric);
+			if (!partner || pair.metric === config.name) {
+				continue;
+			}
+			
+			// Report the most significant pair
+			const pairResult = this.detectPair(buffer, partner, pair, config);
+			if (
+				!result ||
+				(pairResult.isAnomaly && !result.isAnomaly) ||
+				(pairResult.isAnomaly === result.isAnomaly && pairResult.deviation > result.deviation)
+			) {
+				result = pairResult;
+			}
+		}
+		
+		return result ?? {
+			method: this.method,
+			isAnomaly: false,
+			confidence: 0,
+			deviation: 0,
+			expectedRange: [value, value],
+			message: pairs.length === 0
+				? 'No correlated metrics configured'
+				: 'No data for correlated metrics',
+		};
+	}
+	
+	private detectPair(
+		buffer: StatisticalBuffer,
+		partner: StatisticalBuffer,
+		pair: CorrelationPairConfig,
+		config: MetricConfig
+	): DetectionResult {
+		const recentWindow = pair.recentWindow ?? 20;
+		const minCorrelation = pair.minCorrelation ?? 0.7;
+		const maxDeviation = pair.maxDeviation ?? 0.5;
+		const minSamples = recentWindow + Math.max(10, recentWindow);
+		
+		const paired = alignSamples(
+			getRecentSamples(buffer, buffer.size),
+			getRecentSamples(partner, partner.size),
+			pair.maxSkewMs ?? 5000
+		);
+		const latest = paired[paired.length - 1];
+		
+		if (paired.length < minSamples) {
+			return {
+				method: this.method,
+				isAnomaly: false,
+				confidence: 0,
+				deviation: 0,
+				expectedRange: latest ? [latest.x, latest.x] : [0, 0],
+				message: `Insufficient paired samples with ${pair.metric} for correlation detection (need at least ${minSamples})`,
+			};
+		}
+		
+		const baseline = paired.slice(0, -recentWindow);
+		const recent = paired.slice(-recentWindow);
+		const baseX = baseline.map(p => p.x);
+		const baseY = baseline.map(p => p.y);
+		const recentX = recent.map(p => p.x);
+		const recentY = recent.map(p => p.y);
+		
+		const expected = getCorrelation(baseX, baseY);
+		const correlation = {
+			partnerMetric: pair.metric,
+			expectedCorrelation: expected,
+			observedCorrelation: NaN,
+			samples: paired.length,
+		};
+		
+		if (Number.isNaN(expected) || Math.abs(expected) < minCorrelation) {
+			return {
+				method: this.method,
+				isAnomaly: false,
+				confidence: 0,
+				deviation: 0,
+				expectedRange: [latest.x, latest.x],
+				message: `No significant correlation with ${pair.metric} (r=${Number.isNaN(expected) ? 'n/a' : expected.toFixed(2)})`,
+			};
+		}
+		
+		// A relationship can only be judged while the metrics move
+		const variationRatio = Math.max(
+			stdDev(recentX) / stdDev(baseX),
+			stdDev(recentY) / stdDev(baseY)
+		);
+		if (variationRatio < 0.25) {
+			return {
+				method: this.method,
+				isAnomaly: false,
+				confidence: 0,
+				deviation: 0,
+				expectedRange: [latest.x, latest.x],
+				message: `Insufficient variation to judge correlation with ${pair.metric}`,
+			};
+		}
+		
+		// One metric flat while the other moves = no relationship
+		const observedRaw = getCorrelation(recentX, recentY);
+		const observed = Number.isNaN(observedRaw) ? 0 : observedRaw;
+		correlation.observedCorrelation = observed;
+		
+		const deviation = Math.abs(expected - observed);
+		const isAnomaly = deviation > maxDeviation;
+		
+		// Confidence based on how much threshold is exceeded
+		const confidence = Math.min(1.0, deviation / (maxDeviation * 2));
+		
+		// Expected value given the partner (linear regression over baseline)
+		const meanX = mean(baseX);
+		const meanY = mean(baseY);
+		const slope = expected * (stdDev(baseX) / stdDev(baseY));
+		const predicted = meanX + slope * (latest.y - meanY);
+		const band = (config.threshold || 3.0) * stdDev(baseX) * Math.sqrt(1 - expected * expected);
+		
+		return {
+			method: this.method,
+			isAnomaly,
+			confidence,
+			deviation,
+			expectedRange: [predicted - band, predicted + band],
+			message: isAnomaly
+				? `Correlation with ${pair.metric} broke: expected r=${expected.toFixed(2)}, observed r=${observed.toFixed(2)}`
+				: `Correlation with ${pair.metric} within expected range`,
+			correlation,
+		};
+	}
+}
+
+/**
+ * Pair samples of two metrics by nearest timestamp (both oldest first)
+ */
+function alignSamples(
+	samples: Array<{ value: number; timestamp: number }>,
+	partner: Array<{ value: number; timestamp: number }>,
+	maxSkewMs: number
+): Array<{ x: number; y: number }> {
+	const pairs: Array<{ x: number; y: number }> = [];
+	if (partner.length === 0) return pairs;
+	
+	let j = 0;
+	for (const sample of samples) {
+		while (
+			j + 1 < partner.length &&
+			Math.abs(partner[j + 1].timestamp - sample.timestamp) <= Math.abs(partner[j].timestamp - sample.timestamp)
+		) {
+			j++;
+		}
+		if (Math.abs(partner[j].timestamp - sample.timestamp) <= maxSkewMs) {
+			pairs.push({ x: sample.value, y: partner[j].value });
+		}
+	}
+	
+	return pairs;
+}
+
+function mean(values: number[]): number {
+	return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+	const m = mean(values);
+	return Math.sqrt(values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / values.length);
+}
+
 /**
  * Get all available detectors
  */
@@ -306,6 +497,7 @@ export function getAllDetectors(): AnomalyDetector[] {
 		new IQRDetector(),
 		new RateChangeDetector(),
 		new EWMADetector(),
+		new CorrelationDetector(),
 	];
 }
 
@@ -15,6 +15,8 @@ import type {
 	MetricConfig,
 	StatisticalBuffer,
 	DetectionMethod,
+	DetectionResult,
+	DetectionContext,
 	AnomalySeverity,
 } from './types';
 import { createBuffer, addValue, getRecentValues, getTrend } from './buffer';
@@ -30,6 +32,9 @@ export class AnomalyDetectionService {
 	private logger?: AgentLogger;
 	private enabled: boolean = false;
 	private predictor: LinearPredictor;
+	private detectionContext: DetectionContext = {
+		getBuffer: (metric: string) => this.buffers.get(metric),
+	};
 	
 	constructor(config: AnomalyConfig, logger?: AgentLogger) {
 		this.config = config;
@@ -70,14 +75,20 @@ export class AnomalyDetectionService {
 		}
 		
 		const metricConfig = this.getMetricConfig(dataPoint.metric);
-		if (!metricConfig || !metricConfig.enabled) {
+		const isMonitored = !!metricConfig && metricConfig.enabled;
+		
+		// Partner metrics of a correlation pair are buffered even if not monitored themselves
+		const windowSize = isMonitored
+			? metricConfig.windowSize
+			: this.getCorrelationPartnerWindowSize(dataPoint.metric);
+		if (windowSize === undefined) {
 			return; // Metric not configured for anomaly detection
 		}
 		
 		// Get or create buffer
 		let buffer = this.buffers.get(dataPoint.metric);
 		if (!buffer) {
-			buffer = createBuffer(metricConfig.windowSize);
+			buffer = createBuffer(windowSize);
 			this.buffers.set(dataPoint.metric, buffer);
 		}
 		
@@ -85,7 +96,7 @@ export class AnomalyDetectionService {
 		addValue(buffer, dataPoint.value, dataPoint.timestamp);
 		
 		// Run detection if buffer has enough samples
-		if (buffer.size >= 10) {
+		if (isMonitored && buffer.size >= 10) {
 			this.runDetection(dataPoint, buffer, metricConfig);
 		}
 	}
@@ -110,7 +121,7 @@ export class AnomalyDetectionService {
 				continue;
 			}
 			
-			const result = detector.detect(dataPoint.value, buffer, metricConfig);
+			const result = detector.detect(dataPoint.value, buffer, metricConfig, this.detectionContext);
 			
 			// Filter by confidence threshold
 			const minConfidence = metricConfig.minConfidence || this.config.alerts.minConfidence;
@@ -143,7 +154,7 @@ export class AnomalyDetectionService {
 		dataPoint: DataPoint,
 		buffer: StatisticalBuffer,
 		metricConfig: MetricConfig,
-		result: any
+		result: DetectionResult
 	): AnomalyAlert {
 		const severity = this.calculateSeverity(result.confidence, result.deviation);
 		
@@ -162,6 +173,7 @@ export class AnomalyDetectionService {
 				baseline: buffer.mean,
 				trend: getTrend(buffer),
 				windowSize: buffer.size,
+				...(result.correlation && { correlation: result.correlation }),
 			},
 			message: result.message,
 			fingerprint: '', // Set by AlertManager
@@ -189,6 +201,20 @@ export class AnomalyDetectionService {
 		return this.config.metrics.find(m => m.name === metricName);
 	}
 	
+	/**
+	 * Get buffer size for a metric used as correlation partner by an enabled metric
+	 */
+	private getCorrelationPartnerWindowSize(metricName: string): number | undefined {
+		let windowSize: number | undefined;
+		for (const metric of this.config.metrics) {
+			if (!metric.enabled || !metric.methods.includes('correlation')) continue;
+			if (metric.correlations?.some(pair => pair.metric === metricName)) {
+				windowSize = Math.max(windowSize ?? 0, metric.windowSize);
+			}
+		}
+		return windowSize;
+	}
+	
 	/**
 	 * Get all unique detection methods across metrics
 	 */
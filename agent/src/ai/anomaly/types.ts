@@ -58,6 +58,7 @@ export interface AnomalyAlert {
 		baseline: number;            // Mean or median
 		trend: Trend;
 		windowSize: number;
+		correlation?: CorrelationContext; // Set by the correlation detector
 	};
 	message: string;                 // Human-readable description
 	fingerprint: string;             // For deduplication: hash(metric, method, severity)
@@ -76,6 +77,29 @@ export interface MetricConfig {
 	expectedRange?: [number, number]; // Optional expected range [min, max]
 	minConfidence?: number;          // Minimum confidence to alert (default: 0.7)
 	cooldownMs?: number;             // Min time between alerts (default: 5 min)
+	correlations?: CorrelationPairConfig[]; // Partner metrics for 'correlation' method
+}
+
+/**
+ * Correlated metric pair (e.g., pump_current vs. flow, cpu_usage vs. cpu_temp)
+ * Configured on one metric, naming its partner
+ */
+export interface CorrelationPairConfig {
+	metric: string;                  // Partner metric name
+	minCorrelation?: number;         // Min |baseline correlation| to treat pair as related (default: 0.7)
+	maxDeviation?: number;           // Max |expected - observed| before alerting (default: 0.5)
+	recentWindow?: number;           // Samples in observed window (default: 20)
+	maxSkewMs?: number;              // Max timestamp gap when pairing samples (default: 5000)
+}
+
+/**
+ * Correlation details attached to correlation alerts
+ */
+export interface CorrelationContext {
+	partnerMetric: string;
+	expectedCorrelation: number;     // Learned over the rolling baseline window
+	observedCorrelation: number;     // Over the recent window
+	samples: number;                 // Paired samples used
 }
 
 /**
@@ -135,6 +159,14 @@ export interface DetectionResult {
 	deviation: number;               // Distance from normal
 	expectedRange: [number, number];
 	message: string;
+	correlation?: CorrelationContext;
+}
+
+/**
+ * Access to other metrics' buffers (for multi-metric detectors)
+ */
+export interface DetectionContext {
+	getBuffer(metric: string): StatisticalBuffer | undefined;
 }
 
 /**
@@ -142,7 +174,7 @@ export interface DetectionResult {
  */
 export interface AnomalyDetector {
 	readonly method: DetectionMethod;
-	detect(value: number, buffer: StatisticalBuffer, config: MetricConfig): DetectionResult;
+	detect(value: number, buffer: StatisticalBuffer, config: MetricConfig, context?: DetectionContext): DetectionResult;
 }
 
 /**
@@ -5,7 +5,7 @@
  * Helper functions for configuration loading and data point creation
  */
 
-import type { AnomalyConfig, MetricConfig, DataPoint, DetectionMethod } from './types';
+import type { AnomalyConfig, MetricConfig, DataPoint, DetectionMethod, CorrelationPairConfig } from './types';
 
 /**
  * Load configuration from environment variables
@@ -93,6 +93,9 @@ export function loadConfigFromEnv(): AnomalyConfig {
 		},
 	];
 	
+	// Correlated metric pairs (e.g., 'pump_current:flow,cpu_usage:cpu_temp')
+	applyCorrelationPairs(metrics, process.env.ANOMALY_CORRELATIONS || '', windowSize);
+	
 	return {
 		enabled,
 		sensitivity,
@@ -116,6 +119,39 @@ export function loadConfigFromEnv(): AnomalyConfig {
 	};
 }
 
+/**
+ * Add correlation pairs ('metric:partner' entries) to metric configs
+ * Metrics not yet configured are added with correlation detection only
+ */
+function applyCorrelationPairs(metrics: MetricConfig[], pairsStr: string, windowSize: number): void {
+	const minCorrelation = parseFloat(process.env.ANOMALY_CORRELATION_MIN || '0.7');
+	const maxDeviation = parseFloat(process.env.ANOMALY_CORRELATION_MAX_DEVIATION || '0.5');
+	
+	for (const entry of pairsStr.split(',').map(p => p.trim()).filter(Boolean)) {
+		const [name, partner] = entry.split(':').map(p => p.trim());
+		if (!name || !partner) continue;
+		
+		let metric = metrics.find(m => m.name === name);
+		if (!metric) {
+			metric = {
+				name,
+				enabled: true,
+				methods: [],
+				threshold: 3.0,
+				windowSize,
+			};
+			metrics.push(metric);
+		}
+		
+		if (!metric.methods.includes('correlation')) {
+			metric.methods.push('correlation');
+		}
+		
+		const pair: CorrelationPairConfig = { metric: partner, minCorrelation, maxDeviation };
+		metric.correlations = [...(metric.correlations || []), pair];
+	}
+}
+
 /**
  * Create a data point from sensor data
  */
@@ -197,6 +233,23 @@ export function validateConfig(config: AnomalyConfig): string[] {
 		if (metric.methods.length === 0) {
 			errors.push(`${metric.name}: at least one detection method required`);
 		}
+		
+		if (metric.methods.includes('correlation')) {
+			if (!metric.correlations || metric.correlations.length === 0) {
+				errors.push(`${metric.name}: correlation method requires at least one correlated metric`);
+			}
+			for (const pair of metric.correlations || []) {
+				if (pair.metric === metric.name) {
+					errors.push(`${metric.name}: cannot correlate metric with itself`);
+				}
+				if (pair.minCorrelation !== undefined && (pair.minCorrelation <= 0 || pair.minCorrelation > 1)) {
+					errors.push(`${metric.name}: minCorrelation for ${pair.metric} must be between 0 and 1`);
+				}
+				if ((pair.recentWindow ?? 20) * 2 > metric.windowSize) {
+					errors.push(`${metric.name}: recentWindow for ${pair.metric} must be at most half of windowSize`);
+				}
+			}
+		}
 	}
 	
 	if (config.alerts.minConfidence < 0 || config.alerts.minConfidence > 1) {
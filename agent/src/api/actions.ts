@@ -4,11 +4,15 @@
  */
 
 import ContainerManager from '../compose/container-manager';
+import { UpdateLockedError } from '../compose/errors';
+import type { UpdateLock } from '../compose/update-lock';
 import type { DeviceManager } from '../device-manager';
 import type { CloudSync } from '../device-manager/sync';
 import type { AgentLogger } from '../logging/agent-logger';
 import type { AnomalyDetectionService } from '../ai/anomaly';
 import type { SimulationOrchestrator } from '../simulation';
+import type { SensorsFeature } from '../features/endpoints';
+import type { EndpointWriteRequest, EndpointWriteResult } from '../features/endpoints/types';
 import { LogComponents } from '../logging/types';
 
 let containerManager: ContainerManager;
@@ -17,6 +21,7 @@ let cloudSync: CloudSync | undefined;
 let logger: AgentLogger | undefined;
 let anomalyService: AnomalyDetectionService | undefined;
 let simulationOrchestrator: SimulationOrchestrator | undefined;
+let sensors: SensorsFeature | undefined;
 
 export function initialize(
 	cm: ContainerManager, 
@@ -34,6 +39,13 @@ export function initialize(
 	simulationOrchestrator = simulation;
 }
 
+/**
+ * Set protocol adapters feature (started after the device API)
+ */
+export function setSensorsFeature(feature: SensorsFeature | undefined) {
+	sensors = feature;
+}
+
 /**
  * Get anomaly detection service (for testing endpoints)
  */
@@ -48,6 +60,17 @@ export function getSimulationOrchestrator(): SimulationOrchestrator | undefined
 	return simulationOrchestrator;
 }
 
+/**
+ * Write a value to a field device (Modbus register / OPC-UA node)
+ * Used by: POST /v1/endpoints/write
+ */
+export const writeEndpointValue = async (request: EndpointWriteRequest): Promise<EndpointWriteResult> => {
+	if (!sensors) {
+		throw new Error('Protocol adapters are not running');
+	}
+	return sensors.writeValue(request);
+};
+
 /**
  * Run an array of healthchecks, outputting whether all passed or not
  * Used by: GET /v1/healthy
@@ -115,6 +138,8 @@ export const stopService = async (appId: number, serviceName?: string, force: bo
 		throw new Error(`Service not found`);
 	}
 
+	assertNotLocked(appId, force);
+
 	// Stop the container
 	if (service.containerId) {
 		const docker = containerManager.getDocker();
@@ -215,6 +240,8 @@ export const purgeApp = async (appId: number, force: boolean = false) => {
 		throw new Error(`Application with ID ${appId} not found`);
 	}
 
+	assertNotLocked(appId, force);
+
 	logger?.infoSync('Purging data for app', {
 		component: LogComponents.agent,
 		appId
@@ -347,3 +374,52 @@ export const factoryResetDevice = async () => {
 		operation: 'factoryReset'
 	});
 };
+
+/**
+ * Refuse disruptive actions on an update-locked app unless forced
+ */
+function assertNotLocked(appId: number, force: boolean) {
+	const lock = containerManager.getUpdateLocks().get(appId);
+	if (lock && !force) {
+		throw new UpdateLockedError(appId, lock.owner);
+	}
+}
+
+/**
+ * Get the update lock of an application
+ * Used by: GET /v1/apps/:appId/update-lock
+ */
+export const getUpdateLock = (appId: number): UpdateLock | undefined => {
+	return containerManager.getUpdateLocks().get(appId);
+};
+
+/**
+ * Take (or refresh) the update lock of an application
+ * Used by: POST /v1/apps/:appId/update-lock
+ */
+export const acquireUpdateLock = async (appId: number, owner?: string, ttlSeconds?: number): Promise<UpdateLock> => {
+	const lock = await containerManager.getUpdateLocks().acquire(appId, owner, ttlSeconds);
+	logger?.infoSync('Update lock taken', {
+		component: LogComponents.agent,
+		appId,
+		owner,
+		expiresAt: lock.expiresAt
+	});
+	return lock;
+};
+
+/**
+ * Release the update lock of an application and apply deferred changes
+ * Used by: DELETE /v1/apps/:appId/update-lock
+ */
+export const releaseUpdateLock = async (appId: number): Promise<boolean> => {
+	const released = await containerManager.getUpdateLocks().release(appId);
+	if (released) {
+		logger?.infoSync('Update lock released', {
+			component: LogComponents.agent,
+			appId
+		});
+		await containerManager.applyTargetState();
+	}
+	return released;
+};
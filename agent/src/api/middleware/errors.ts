@@ -5,6 +5,7 @@
 import type { Request, Response, NextFunction } from 'express';
 import type { AgentLogger } from '../../logging/agent-logger';
 import { LogComponents } from '../../logging/types';
+import { UpdateLockedError } from '../../compose/errors';
 
 let logger: AgentLogger | undefined;
 
@@ -34,6 +35,13 @@ export default function errors(
 	}
 
 	// Handle known error types
+	if (err instanceof UpdateLockedError) {
+		return res.status(423).json({
+			error: 'Locked',
+			message: err.message,
+		});
+	}
+
 	if (err.message.includes('not found') || err.message.includes('Not found')) {
 		return res.status(404).json({
 			error: 'Not found',
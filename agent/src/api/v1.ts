@@ -94,6 +94,72 @@ router.get('/v1/apps/:appId', async (req: Request, res: Response, next: NextFunc
 	}
 });
 
+/**
+ * GET /v1/apps/:appId/update-lock
+ * Get the update lock of an application
+ */
+router.get('/v1/apps/:appId/update-lock', async (req: Request, res: Response, next: NextFunction) => {
+	try {
+		const appId = parseInt(req.params.appId);
+
+		if (isNaN(appId)) {
+			return res.status(400).json({ error: 'Invalid app id' });
+		}
+
+		const lock = actions.getUpdateLock(appId);
+		return res.status(200).json({ locked: !!lock, ...lock });
+	} catch (error) {
+		next(error);
+	}
+});
+
+/**
+ * POST /v1/apps/:appId/update-lock
+ * Defer disruptive updates of an application until the lock is released
+ * Body: { owner?: string, ttlSeconds?: number }
+ */
+router.post('/v1/apps/:appId/update-lock', async (req: Request, res: Response, next: NextFunction) => {
+	try {
+		const appId = parseInt(req.params.appId);
+		const owner = req.body.owner;
+		const ttlSeconds = req.body.ttlSeconds === undefined ? undefined : Number(req.body.ttlSeconds);
+
+		if (isNaN(appId)) {
+			return res.status(400).json({ error: 'Invalid app id' });
+		}
+		if (owner !== undefined && typeof owner !== 'string') {
+			return res.status(400).json({ error: 'owner must be a string' });
+		}
+		if (ttlSeconds !== undefined && (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0)) {
+			return res.status(400).json({ error: 'ttlSeconds must be a positive integer' });
+		}
+
+		const lock = await actions.acquireUpdateLock(appId, owner, ttlSeconds);
+		return res.status(200).json({ locked: true, ...lock });
+	} catch (error) {
+		next(error);
+	}
+});
+
+/**
+ * DELETE /v1/apps/:appId/update-lock
+ * Release the update lock of an application
+ */
+router.delete('/v1/apps/:appId/update-lock', async (req: Request, res: Response, next: NextFunction) => {
+	try {
+		const appId = parseInt(req.params.appId);
+
+		if (isNaN(appId)) {
+			return res.status(400).json({ error: 'Invalid app id' });
+		}
+
+		const released = await actions.releaseUpdateLock(appId);
+		return res.status(200).json({ locked: false, released });
+	} catch (error) {
+		next(error);
+	}
+});
+
 /**
  * GET /v1/device
  * Get device state information
@@ -314,6 +380,32 @@ router.post('/v1/simulation/stop-all', async (req: Request, res: Response, next:
 	}
 });
 
+/**
+ * POST /v1/endpoints/write
+ * Write a value to a field device (setpoint / write-back)
+ * Body: { deviceName, register?, nodeId?, value, verify?, commandId? }
+ */
+router.post('/v1/endpoints/write', async (req: Request, res: Response, next: NextFunction) => {
+	try {
+		const { deviceName, register, nodeId, value } = req.body;
+
+		if (!deviceName || (!register && !nodeId) || value === undefined) {
+			return res.status(400).json({ error: 'deviceName, register (or nodeId) and value are required' });
+		}
+
+		const result = await actions.writeEndpointValue(req.body);
+		if (result.quality === 'BAD') {
+			const status = result.qualityCode === 'DEVICE_NOT_FOUND' || result.qualityCode === 'REGISTER_NOT_FOUND' ? 404
+				: result.qualityCode === 'NOT_WRITABLE' || result.qualityCode === 'OUT_OF_RANGE' || result.qualityCode === 'INVALID_VALUE' ? 422
+				: 502;
+			return res.status(status).json(result);
+		}
+		return res.status(200).json(result);
+	} catch (error) {
+		next(error);
+	}
+});
+
 /**
  * POST /v1/provision
  * Provision device with a provisioning key
@@ -0,0 +1,254 @@
+/**
+ * CONTAINER CONFIG MAPPING
+ * ========================
+ *
+ * Maps the docker-compose style service fields beyond image/env/ports/volumes
+ * (command, entrypoint, devices, privileged, capabilities, user, working dir,
+ * tmpfs, extra hosts, logging, depends_on) between ContainerService.config and
+ * Docker's create options / inspect output, and detects changes that require
+ * the container to be recreated.
+ */
+
+import type Docker from 'dockerode';
+import type { ContainerService } from './container-manager';
+import { DependencyCycleError } from './errors';
+
+type ServiceConfig = ContainerService['config'];
+
+/** The compose runtime fields handled here (shared with the driver ServiceConfig) */
+export type RuntimeOptions = Pick<ServiceConfig,
+	'command' | 'entrypoint' | 'workingDir' | 'user' | 'devices' | 'privileged' |
+	'capAdd' | 'capDrop' | 'tmpfs' | 'extraHosts' | 'logging' | 'dependsOn'>;
+
+export const RUNTIME_OPTION_FIELDS: Array<keyof RuntimeOptions> = [
+	'command', 'entrypoint', 'workingDir', 'user', 'devices', 'privileged',
+	'capAdd', 'capDrop', 'tmpfs', 'extraHosts', 'logging', 'dependsOn',
+];
+
+/** Label holding depends_on (Docker has no native field for it) */
+export const DEPENDS_ON_LABEL = 'iotistic.depends-on';
+
+/**
+ * When a dependency counts as up:
+ * started = its container is running, healthy = its readinessProbe passes
+ */
+export type DependencyCondition = 'started' | 'healthy';
+
+/** dependsOn entry: a service name (condition "started") or a name with a condition */
+export type ServiceDependency = string | { service: string; condition?: DependencyCondition };
+
+/**
+ * Normalize dependsOn entries to { service, condition }
+ */
+export function normalizeDependsOn(dependsOn?: ServiceDependency[]): Array<{ service: string; condition: DependencyCondition }> {
+	return (dependsOn || []).map(entry => typeof entry === 'string'
+		? { service: entry, condition: 'started' as const }
+		: { service: entry.service, condition: entry.condition || 'started' });
+}
+
+/**
+ * Normalize a device mapping to "hostPath:containerPath:permissions"
+ * e.g. "/dev/ttyUSB0" -> "/dev/ttyUSB0:/dev/ttyUSB0:rwm"
+ */
+export function normalizeDevice(device: string): string {
+	const [hostPath, containerPath = hostPath, permissions = 'rwm'] = device.split(':');
+	return `${hostPath}:${containerPath}:${permissions}`;
+}
+
+/**
+ * Normalize a tmpfs mount to "path" or "path:options"
+ * e.g. "/run:size=64m,mode=1777"
+ */
+export function normalizeTmpfs(entry: string): string {
+	const index = entry.indexOf(':');
+	if (index === -1) {
+		return entry;
+	}
+	const options = entry.slice(index + 1);
+	return options ? `${entry.slice(0, index)}:${options}` : entry.slice(0, index);
+}
+
+/**
+ * Docker create options for the extended service fields
+ * (merged into the base options built by DockerManager.startContainer)
+ */
+export function buildRuntimeOptions(config: RuntimeOptions): {
+	container: Partial<Docker.ContainerCreateOptions>;
+	hostConfig: Partial<Docker.HostConfig>;
+	labels: Record<string, string>;
+} {
+	const container: Partial<Docker.ContainerCreateOptions> = {};
+	const hostConfig: Partial<Docker.HostConfig> = {};
+	const labels: Record<string, string> = {};
+
+	if (config.command) container.Cmd = config.command;
+	if (config.entrypoint) container.Entrypoint = config.entrypoint;
+	if (config.workingDir) container.WorkingDir = config.workingDir;
+	if (config.user) container.User = config.user;
+
+	if (config.devices && config.devices.length > 0) {
+		hostConfig.Devices = config.devices.map(device => {
+			const [PathOnHost, PathInContainer, CgroupPermissions] = normalizeDevice(device).split(':');
+			return { PathOnHost, PathInContainer, CgroupPermissions };
+		});
+	}
+	if (config.privileged) hostConfig.Privileged = true;
+	if (config.capAdd && config.capAdd.length > 0) hostConfig.CapAdd = config.capAdd;
+	if (config.capDrop && config.capDrop.length > 0) hostConfig.CapDrop = config.capDrop;
+
+	if (config.tmpfs && config.tmpfs.length > 0) {
+		hostConfig.Tmpfs = {};
+		for (const entry of config.tmpfs) {
+			const [path, ...options] = normalizeTmpfs(entry).split(':');
+			hostConfig.Tmpfs[path] = options.join(':');
+		}
+	}
+	if (config.extraHosts && config.extraHosts.length > 0) hostConfig.ExtraHosts = config.extraHosts;
+
+	if (config.logging) {
+		hostConfig.LogConfig = {
+			Type: config.logging.driver,
+			Config: config.logging.options || {},
+		};
+	}
+
+	if (config.dependsOn && config.dependsOn.length > 0) {
+		labels[DEPENDS_ON_LABEL] = normalizeDependsOn(config.dependsOn)
+			.map(({ service, condition }) => condition === 'started' ? service : `${service}:${condition}`)
+			.join(',');
+	}
+
+	return { container, hostConfig, labels };
+}
+
+/**
+ * Read the extended service fields back from docker inspect output
+ */
+export function parseRuntimeOptions(info: Docker.ContainerInspectInfo): RuntimeOptions {
+	const config: RuntimeOptions = {};
+	const hostConfig: any = info.HostConfig || {};
+	const containerConfig: any = info.Config || {};
+
+	if (containerConfig.Cmd) config.command = containerConfig.Cmd;
+	if (containerConfig.Entrypoint) {
+		config.entrypoint = Array.isArray(containerConfig.Entrypoint)
+			? containerConfig.Entrypoint
+			: [containerConfig.Entrypoint];
+	}
+	if (containerConfig.WorkingDir) config.workingDir = containerConfig.WorkingDir;
+	if (containerConfig.User) config.user = containerConfig.User;
+
+	if (hostConfig.Devices?.length) {
+		config.devices = hostConfig.Devices.map((d: any) =>
+			`${d.PathOnHost}:${d.PathInContainer}:${d.CgroupPermissions || 'rwm'}`,
+		);
+	}
+	if (hostConfig.Privileged) config.privileged = true;
+	if (hostConfig.CapAdd?.length) config.capAdd = hostConfig.CapAdd;
+	if (hostConfig.CapDrop?.length) config.capDrop = hostConfig.CapDrop;
+
+	if (hostConfig.Tmpfs && Object.keys(hostConfig.Tmpfs).length > 0) {
+		config.tmpfs = Object.entries(hostConfig.Tmpfs).map(([path, options]) =>
+			options ? `${path}:${options}` : path,
+		);
+	}
+	if (hostConfig.ExtraHosts?.length) config.extraHosts = hostConfig.ExtraHosts;
+
+	if (hostConfig.LogConfig?.Type) {
+		const options = hostConfig.LogConfig.Config || {};
+		config.logging = {
+			driver: hostConfig.LogConfig.Type,
+			...(Object.keys(options).length > 0 && { options }),
+		};
+	}
+
+	const dependsOn = containerConfig.Labels?.[DEPENDS_ON_LABEL];
+	if (dependsOn) {
+		config.dependsOn = dependsOn.split(',').map((entry: string): ServiceDependency => {
+			const [service, condition] = entry.split(':');
+			return condition ? { service, condition: condition as DependencyCondition } : service;
+		});
+	}
+
+	return config;
+}
+
+/**
+ * Extended fields that differ between current and target (names of changed fields)
+ *
+ * command, entrypoint, workingDir and user default to the image's values and
+ * logging to the daemon's, so they are only compared when the target sets them.
+ * dependsOn only affects start order and never requires recreation.
+ */
+export function runtimeOptionChanges(current: RuntimeOptions, target: RuntimeOptions): Array<keyof RuntimeOptions> {
+	const changes: Array<keyof RuntimeOptions> = [];
+	const differs = (a: unknown, b: unknown) => JSON.stringify(a) !== JSON.stringify(b);
+	const sorted = (list?: string[]) => [...(list || [])].sort();
+
+	for (const field of ['command', 'entrypoint', 'workingDir', 'user'] as const) {
+		if (target[field] !== undefined && differs(current[field], target[field])) {
+			changes.push(field);
+		}
+	}
+
+	if (differs(sorted(current.devices?.map(normalizeDevice)), sorted(target.devices?.map(normalizeDevice)))) {
+		changes.push('devices');
+	}
+	if (Boolean(current.privileged) !== Boolean(target.privileged)) {
+		changes.push('privileged');
+	}
+	if (differs(sorted(current.capAdd), sorted(target.capAdd))) {
+		changes.push('capAdd');
+	}
+	if (differs(sorted(current.capDrop), sorted(target.capDrop))) {
+		changes.push('capDrop');
+	}
+	if (differs(sorted(current.tmpfs?.map(normalizeTmpfs)), sorted(target.tmpfs?.map(normalizeTmpfs)))) {
+		changes.push('tmpfs');
+	}
+	if (differs(sorted(current.extraHosts), sorted(target.extraHosts))) {
+		changes.push('extraHosts');
+	}
+	if (target.logging !== undefined && (
+		current.logging?.driver !== target.logging.driver ||
+		differs(current.logging?.options || {}, target.logging.options || {})
+	)) {
+		changes.push('logging');
+	}
+
+	return changes;
+}
+
+/**
+ * Order services so each one comes after the services it depends on.
+ * Unknown dependencies are ignored; a cycle throws DependencyCycleError.
+ */
+export function orderByDependencies<T extends { serviceName: string; config: RuntimeOptions }>(services: T[]): T[] {
+	const byName = new Map(services.map(service => [service.serviceName, service]));
+	const ordered: T[] = [];
+	const visited = new Set<string>();
+	const path: string[] = [];
+
+	const visit = (service: T) => {
+		if (visited.has(service.serviceName)) {
+			return;
+		}
+		const index = path.indexOf(service.serviceName);
+		if (index !== -1) {
+			throw new DependencyCycleError([...path.slice(index), service.serviceName]);
+		}
+		path.push(service.serviceName);
+		for (const { service: dependency } of normalizeDependsOn(service.config.dependsOn)) {
+			const dependencyService = byName.get(dependency);
+			if (dependencyService) {
+				visit(dependencyService);
+			}
+		}
+		path.pop();
+		visited.add(service.serviceName);
+		ordered.push(service);
+	};
+
+	services.forEach(visit);
+	return ordered;
+}
@@ -24,8 +24,24 @@ import { EventEmitter } from 'events';
 import _ from 'lodash';
 import crypto from 'crypto';
 import type Docker from 'dockerode';
-import { DockerManager } from './docker-manager';
+import { DockerManager, PullProgress } from './docker-manager';
+import type { RegistryCredential } from './registry-auth';
+import { ImagePolicy, verifyImageSignature } from './image-verification';
+import { DependencyCycleError, DependencyNotReadyError, ImageVerificationError } from './errors';
+import {
+	DEPENDS_ON_LABEL,
+	RUNTIME_OPTION_FIELDS,
+	RuntimeOptions,
+	ServiceDependency,
+	normalizeDependsOn,
+	parseRuntimeOptions,
+	runtimeOptionChanges,
+	orderByDependencies,
+} from './container-config';
 import { RetryManager } from './retry-manager';
+import { RolloutTracker, ServiceRollback } from './rollout-tracker';
+import { MaintenanceSchedule, MaintenanceWindow } from './maintenance-window';
+import { UpdateLockManager } from './update-lock';
 import { HealthCheckManager } from './health-check-manager';
 import { HealthProbe } from './types/health-check';
 import * as db from '../db/connection';
@@ -35,6 +51,27 @@ import { LogComponents } from '../logging/types';
 import * as networkManager from './network-manager';
 import { Network } from './network';
 
+// How long a start waits for a "healthy" dependency's readinessProbe
+const DEPENDENCY_READY_TIMEOUT_MS = 120_000;
+
+// start-first: how long the new container gets to pass its readinessProbe
+const START_FIRST_READY_TIMEOUT_MS = 120_000;
+
+// start-first: name suffix of the new container until the old one is removed
+const START_FIRST_SUFFIX = '_next';
+
+// Steps that interrupt a running app, gated by maintenance windows and update locks
+const DISRUPTIVE_ACTIONS = new Set<AppStep['action']>([
+	'stopContainer',
+	'removeContainer',
+	'replaceContainer',
+	'pauseContainer',
+	'removeVolume',
+]);
+
+// Steps that still run for a deferred app, so the update is ready when it is allowed
+const PREPARE_ACTIONS = new Set<AppStep['action']>(['downloadImage', 'createVolume', 'createNetwork']);
+
 // ============================================================================
 // TYPES (Simplified)
 // ============================================================================
@@ -63,6 +100,29 @@ export interface ContainerService {
 		networkMode?: string;
 		restart?: string;
 		labels?: Record<string, string>;
+
+		// docker-compose runtime options
+		command?: string[]; // Overrides the image CMD
+		entrypoint?: string[]; // Overrides the image ENTRYPOINT
+		workingDir?: string;
+		user?: string; // e.g., "1000:1000" or "node"
+		devices?: string[]; // e.g., ["/dev/ttyUSB0:/dev/ttyUSB0:rwm"]
+		privileged?: boolean;
+		capAdd?: string[]; // e.g., ["NET_ADMIN", "SYS_RAWIO"]
+		capDrop?: string[];
+		tmpfs?: string[]; // e.g., ["/run:size=64m"]
+		extraHosts?: string[]; // e.g., ["broker.local:10.0.0.5"]
+		logging?: {
+			driver: string; // e.g., "json-file", "local", "none"
+			options?: Record<string, string>; // e.g., { "max-size": "10m" }
+		};
+		dependsOn?: ServiceDependency[]; // e.g., ["broker", { service: "db", condition: "healthy" }]
+
+		// How image/config changes are rolled out
+		updateStrategy?: {
+			type?: 'recreate' | 'start-first'; // Default "recreate": stop old, then start new
+			rollbackAfterFailures?: number; // Startup/liveness probe failures before rolling back (default 3, 0 = never)
+		};
 		
 		// K8s-style resource limits
 		resources?: {
@@ -140,12 +200,14 @@ export interface ContainerService {
 
 	// Runtime state (for current state)
 	containerId?: string;
-	status?: string; // "Running", "Exited", etc.
+	status?: string; // "Running", "Exited", "downloading", etc.
+	pullProgress?: PullProgress; // Set while the target image is being pulled
+	rollback?: ServiceRollback; // Set when the target was rolled back to the previous version
 	
 	// Error tracking (K8s-style)
 	serviceStatus?: 'pending' | 'running' | 'stopped' | 'error';
 	error?: {
-		type: 'ImagePullBackOff' | 'ErrImagePull' | 'StartFailure' | 'CrashLoopBackOff';
+		type: 'ImagePullBackOff' | 'ErrImagePull' | 'StartFailure' | 'CrashLoopBackOff' | 'ImageVerificationFailed';
 		message: string;
 		timestamp: string;
 		retryCount: number;
@@ -153,11 +215,20 @@ export interface ContainerService {
 	};
 }
 
+export interface UpdatePending {
+	reason: 'maintenance-window' | 'update-lock';
+	message: string;
+	since: string; // ISO timestamp
+	nextWindowAt?: string; // ISO timestamp, for reason "maintenance-window"
+	lockedBy?: string; // Lock owner, for reason "update-lock"
+}
+
 export interface DeviceApp {
 	appId: number;
 	appName: string;
 	appUuid?: string; // Optional UUID for network naming
 	services: ContainerService[];
+	updatePending?: UpdatePending; // Set in current state while target changes are deferred
 }
 
 export interface DeviceState {
@@ -199,7 +270,19 @@ export type AppStep =
 			serviceId: number;
 			containerId: string;
 	  }
-	| { action: 'startContainer'; appId: number; service: ContainerService }
+	| {
+			action: 'startContainer';
+			appId: number;
+			service: ContainerService;
+			previous?: ContainerService; // Set when this start updates a service (rollback target)
+	  }
+	| {
+			action: 'replaceContainer'; // start-first update
+			appId: number;
+			containerId: string;
+			service: ContainerService;
+			previous: ContainerService;
+	  }
 	| { action: 'removeNetwork'; appId: number; networkName: string }
 	| { action: 'removeVolume'; appId: number; volumeName: string }
 	| { action: 'noop' };
@@ -212,6 +295,7 @@ export interface ContainerManagerEvents {
 	'target-state-changed': (state: DeviceState) => void;
 	'current-state-changed': (state: DeviceState) => void;
 	'state-applied': () => void;
+	'service-rolled-back': (event: { appId: number; serviceName: string } & ServiceRollback) => void;
 }
 
 export class ContainerManager extends EventEmitter {
@@ -228,6 +312,13 @@ export class ContainerManager extends EventEmitter {
 	private lastSavedCurrentStateHash: string = '';
 	private lastSavedTargetStateHash: string = '';
 	private logger?: AgentLogger;
+	private pullProgress = new Map<string, PullProgress>(); // Keyed by image name
+	private imagePolicy: ImagePolicy = { mode: 'off' };
+	private rolloutTracker = new RolloutTracker();
+	private previousTargetState: DeviceState = { apps: {} }; // Rollback definitions
+	private maintenanceSchedule = new MaintenanceSchedule();
+	private updateLocks = new UpdateLockManager();
+	private pendingUpdates = new Map<number, UpdatePending>(); // Keyed by appId
 
 	constructor(logger?: AgentLogger) {
 		super();
@@ -250,7 +341,18 @@ export class ContainerManager extends EventEmitter {
 				containerId: containerId.substring(0, 12),
 				message
 			});
-			await this.restartUnhealthyContainer(containerId, serviceName, message);
+			await this.handleProbeFailure(containerId, serviceName, `liveness probe failed: ${message || 'unknown'}`);
+		});
+
+		this.healthCheckManager.on('startup-failed', async ({ containerId, serviceName, message }) => {
+			this.logger?.warnSync('Startup probe failed, restarting container', {
+				component: LogComponents.containerManager,
+				operation: 'health-check',
+				serviceName,
+				containerId: containerId.substring(0, 12),
+				message
+			});
+			await this.handleProbeFailure(containerId, serviceName, `startup probe failed: ${message || 'unknown'}`);
 		});
 		
 		this.healthCheckManager.on('readiness-changed', ({ containerId, serviceName, isReady }) => {
@@ -285,6 +387,12 @@ export class ContainerManager extends EventEmitter {
 		
 		// Load target state from database
 		await this.loadTargetStateFromDB();
+		await this.updateLocks.load();
+
+		// Registry credentials from the last target state (private pulls while offline)
+		if (this.useRealDocker) {
+			await this.dockerManager.loadRegistryCredentials();
+		}
 		
 		// Sync current state from Docker
 		await this.syncCurrentStateFromDocker();
@@ -475,6 +583,10 @@ export class ContainerManager extends EventEmitter {
 			appsCount: Object.keys(target.apps).length
 		});
 		
+		// Keep the outgoing target: it is what an update rolls back to
+		if (this.getStateHash(target) !== this.getStateHash(this.targetState)) {
+			this.previousTargetState = this.targetState;
+		}
 		this.targetState = _.cloneDeep(target);
 		
 		// Sanitize the target state to ensure correct data types
@@ -519,10 +631,113 @@ export class ContainerManager extends EventEmitter {
 		// NOTE: ContainerManager only returns apps (Docker runtime state)
 		// Config is handled separately by ConfigManager in StateReconciler
 		const state = _.cloneDeep(this.currentState);
+		this.addPullProgress(state);
+		this.addRollbacks(state);
+		this.addPendingUpdates(state);
 		
 		return state;
 	}
 
+	/**
+	 * Replace registry pull credentials (from target state config.registries)
+	 */
+	public async setRegistryCredentials(credentials: RegistryCredential[]): Promise<void> {
+		if (this.useRealDocker) {
+			await this.dockerManager.setRegistryCredentials(credentials);
+		}
+	}
+
+	/**
+	 * Set the signed-image policy (from target state config.imagePolicy)
+	 */
+	public setImagePolicy(policy?: ImagePolicy): void {
+		this.imagePolicy = policy?.mode ? policy : { mode: 'off' };
+	}
+
+	/**
+	 * Set the maintenance windows (from target state config.maintenanceWindows)
+	 * Invalid windows never open, so updates stay deferred rather than applied at any time.
+	 */
+	public setMaintenanceWindows(windows?: MaintenanceWindow[]): void {
+		this.maintenanceSchedule = new MaintenanceSchedule(Array.isArray(windows) ? windows : []);
+		for (const error of this.maintenanceSchedule.errors) {
+			this.logger?.warnSync('Ignoring invalid maintenance window', {
+				component: LogComponents.containerManager,
+				operation: 'setMaintenanceWindows',
+				error
+			});
+		}
+	}
+
+	/**
+	 * App update locks (device API)
+	 */
+	public getUpdateLocks(): UpdateLockManager {
+		return this.updateLocks;
+	}
+
+	/**
+	 * Report in-flight image pulls on the services waiting for them
+	 * Services without a container yet are reported with status 'downloading'
+	 */
+	private addPullProgress(state: DeviceState): void {
+		for (const [imageName, progress] of this.pullProgress) {
+			for (const targetApp of Object.values(this.targetState.apps)) {
+				for (const targetSvc of targetApp.services) {
+					if (targetSvc.imageName !== imageName) {
+						continue;
+					}
+					if (!state.apps[targetApp.appId]) {
+						state.apps[targetApp.appId] = {
+							appId: targetApp.appId,
+							appName: targetApp.appName,
+							services: [],
+						};
+					}
+					const services = state.apps[targetApp.appId].services;
+					const current = services.find((svc) => svc.serviceId === targetSvc.serviceId);
+					if (current) {
+						current.pullProgress = { ...progress };
+					} else {
+						services.push({
+							..._.cloneDeep(targetSvc),
+							status: 'downloading',
+							serviceStatus: 'pending',
+							pullProgress: { ...progress },
+						});
+					}
+				}
+			}
+		}
+	}
+
+	/**
+	 * Report rolled-back updates on the services they apply to
+	 */
+	private addRollbacks(state: DeviceState): void {
+		for (const app of Object.values(state.apps)) {
+			for (const service of app.services) {
+				const rollback = this.rolloutTracker.getRollback(RolloutTracker.key(app.appId, service.serviceId));
+				if (rollback) {
+					service.rollback = { ...rollback };
+				}
+			}
+		}
+	}
+
+	/**
+	 * Report deferred target changes on the apps they apply to
+	 */
+	private addPendingUpdates(state: DeviceState): void {
+		for (const [appId, pending] of this.pendingUpdates) {
+			const app = state.apps[appId] ?? this.currentState.apps[appId];
+			if (!app) {
+				continue;
+			}
+			state.apps[appId] = { ...app, updatePending: { ...pending } };
+		}
+	}
+
 	/**
 	 * Sync current state from real Docker containers
 	 */
@@ -556,6 +771,7 @@ export class ContainerManager extends EventEmitter {
 				let restart: string = 'no';
 				let labels: Record<string, string> = {};
 				let networkMode: string = 'bridge';
+				let runtimeOptions: RuntimeOptions = {};
 				
 				try {
 					const containerInfo = await this.dockerManager.inspectContainer(container.id);
@@ -607,7 +823,7 @@ export class ContainerManager extends EventEmitter {
 					// Extract labels (only iotistic labels, not all Docker labels)
 					if (containerInfo.Config?.Labels) {
 						Object.entries(containerInfo.Config.Labels).forEach(([key, value]) => {
-							if (key.startsWith('iotistic.') && typeof value === 'string') {
+							if (key.startsWith('iotistic.') && key !== DEPENDS_ON_LABEL && typeof value === 'string') {
 								labels[key] = value;
 							}
 						});
@@ -617,6 +833,9 @@ export class ContainerManager extends EventEmitter {
 					if (containerInfo.HostConfig?.NetworkMode) {
 						networkMode = containerInfo.HostConfig.NetworkMode;
 					}
+
+					// Extract compose runtime options (command, devices, capabilities, ...)
+					runtimeOptions = parseRuntimeOptions(containerInfo);
 				} catch (error) {
 					this.logger?.warnSync('Failed to inspect container', {
 						component: LogComponents.containerManager,
@@ -663,6 +882,7 @@ export class ContainerManager extends EventEmitter {
 					restart,  // Include restart policy
 					labels: Object.keys(labels).length > 0 ? labels : undefined,  // Include labels if any
 					networkMode,  // Include network mode
+					...runtimeOptions,  // Include compose runtime options
 				},
 			};				this.currentState.apps[appId].services.push(service);
 			}
@@ -707,7 +927,7 @@ export class ContainerManager extends EventEmitter {
 
 		try {
 			// Step 1: Calculate what needs to change
-			const steps = this.calculateSteps();
+			const steps = this.deferDisruptiveSteps(this.calculateSteps());
 
 			if (steps.length === 0) {
 				this.logger?.debugSync('No changes needed - system is in desired state', {
@@ -815,6 +1035,69 @@ export class ContainerManager extends EventEmitter {
 		}
 	}
 
+	/**
+	 * Hold back disruptive steps of apps that are update-locked, or of all apps
+	 * outside the maintenance windows. Image pulls and network/volume creation
+	 * still run. Deferred apps are reported with updatePending.
+	 */
+	private deferDisruptiveSteps(steps: AppStep[]): AppStep[] {
+		const disruptiveApps = new Set<number>();
+		for (const step of steps) {
+			if (step.action !== 'noop' && DISRUPTIVE_ACTIONS.has(step.action)) {
+				disruptiveApps.add(step.appId);
+			}
+		}
+
+		const pending = new Map<number, UpdatePending>();
+		const now = new Date();
+		const windowOpen = disruptiveApps.size === 0 || this.maintenanceSchedule.isOpen(now);
+		let nextWindowAt: string | undefined;
+		if (!windowOpen) {
+			nextWindowAt = this.maintenanceSchedule.nextOpening(now)?.toISOString();
+		}
+
+		for (const appId of disruptiveApps) {
+			const lock = this.updateLocks.get(appId);
+			const previous = this.pendingUpdates.get(appId);
+			let update: Omit<UpdatePending, 'since'> | undefined;
+			if (lock) {
+				update = {
+					reason: 'update-lock',
+					message: `Waiting for update lock${lock.owner ? ` held by ${lock.owner}` : ''} to be released`,
+					lockedBy: lock.owner,
+				};
+			} else if (!windowOpen) {
+				update = {
+					reason: 'maintenance-window',
+					message: 'Waiting for maintenance window',
+					nextWindowAt,
+				};
+			}
+			if (!update) {
+				continue;
+			}
+
+			if (previous?.reason !== update.reason) {
+				this.logger?.infoSync('Deferring app update', {
+					component: LogComponents.containerManager,
+					operation: 'deferDisruptiveSteps',
+					appId,
+					reason: update.reason,
+					nextWindowAt
+				});
+			}
+			pending.set(appId, {
+				...update,
+				since: previous?.reason === update.reason ? previous.since : now.toISOString(),
+			});
+		}
+		this.pendingUpdates = pending;
+
+		return steps.filter((step) =>
+			step.action === 'noop' || !pending.has(step.appId) || PREPARE_ACTIONS.has(step.action),
+		);
+	}
+
 	/**
 	 * Simulate updating current state (in real app: query Docker)
 	 */
@@ -995,17 +1278,33 @@ export class ContainerManager extends EventEmitter {
 			steps.push(...networkCreateSteps);
 
 			// === CONTAINER STEPS ===
-			// Case 1: App should be removed (exists in current, not in target)
-			if (currentApp && !targetApp) {
-				steps.push(...this.stepsToRemoveApp(currentApp));
-			}
-			// Case 2: App should be added (exists in target, not in current)
-			else if (!currentApp && targetApp) {
-				steps.push(...this.stepsToAddApp(targetApp));
-			}
-			// Case 3: App exists in both - check for updates
-			else if (currentApp && targetApp) {
-				steps.push(...this.stepsToUpdateApp(currentApp, targetApp));
+			try {
+				// Case 1: App should be removed (exists in current, not in target)
+				if (currentApp && !targetApp) {
+					steps.push(...this.stepsToRemoveApp(currentApp));
+				}
+				// Case 2: App should be added (exists in target, not in current)
+				else if (!currentApp && targetApp) {
+					steps.push(...this.stepsToAddApp(targetApp));
+				}
+				// Case 3: App exists in both - check for updates
+				else if (currentApp && targetApp) {
+					steps.push(...this.stepsToUpdateApp(currentApp, targetApp));
+				}
+			} catch (error) {
+				if (!(error instanceof DependencyCycleError)) {
+					throw error;
+				}
+				// Declared cycle: nothing in the app can be ordered, so leave its containers alone
+				this.logger?.errorSync('Invalid dependsOn in app, skipping container steps', error, {
+					component: LogComponents.containerManager,
+					operation: 'calculateSteps',
+					appId,
+					cycle: error.cycle.join(' -> ')
+				});
+				for (const service of targetApp?.services ?? []) {
+					this.markServiceAsError(appId, service.serviceId, 'StartFailure', error.message);
+				}
 			}
 
 			// === NETWORK CLEANUP (AFTER CONTAINER STEPS) ===
@@ -1033,8 +1332,8 @@ export class ContainerManager extends EventEmitter {
 	private stepsToRemoveApp(app: DeviceApp): AppStep[] {
 		const steps: AppStep[] = [];
 
-		// Stop and remove all services
-		for (const service of app.services) {
+		// Stop and remove all services (dependents first)
+		for (const service of this.stopOrder(app.services)) {
 			if (service.containerId) {
 				steps.push({
 					action: 'stopContainer',
@@ -1054,11 +1353,26 @@ export class ContainerManager extends EventEmitter {
 		return steps;
 	}
 
+	/**
+	 * Order in which to stop services: reverse dependency order
+	 * Falls back to reverse declared order if current state has a cycle.
+	 */
+	private stopOrder(services: ContainerService[]): ContainerService[] {
+		try {
+			return orderByDependencies(services).reverse();
+		} catch (error) {
+			if (!(error instanceof DependencyCycleError)) {
+				throw error;
+			}
+			return [...services].reverse();
+		}
+	}
+
 	private stepsToAddApp(app: DeviceApp): AppStep[] {
 		const steps: AppStep[] = [];
 
-		// Download images and start all services
-		for (const service of app.services) {
+		// Download images and start all services (dependencies first)
+		for (const service of orderByDependencies(app.services)) {
 			// Check desired state (defaults to "running")
 			const desiredState = service.state || 'running';
 			
@@ -1105,10 +1419,11 @@ export class ContainerManager extends EventEmitter {
 			target.services.map((s) => [s.serviceId, s]),
 		);
 
-		// Get all service IDs
+		// Get all service IDs (removed services first in reverse dependency order,
+		// then target services in dependency order)
 		const allServiceIds = _.uniq([
-			...currentServices.keys(),
-			...targetServices.keys(),
+			...this.stopOrder(current.services.filter((s) => !targetServices.has(s.serviceId))).map((s) => s.serviceId),
+			...orderByDependencies(target.services).map((s) => s.serviceId),
 		]);
 
 		for (const serviceId of allServiceIds) {
@@ -1356,7 +1671,11 @@ export class ContainerManager extends EventEmitter {
 				const targetNetworkMode = targetSvc.config.networkMode || 'bridge';
 				const networkModeChanged = targetSvc.config.networkMode !== undefined && currentNetworkMode !== targetNetworkMode;
 				
-				const configChanged = portsChanged || envChanged || volumesChanged || networksChanged || restartChanged || networkModeChanged;
+				// Compare compose runtime options (command, devices, privileged, tmpfs, logging, ...)
+				const runtimeChanges = runtimeOptionChanges(currentSvc.config, targetSvc.config);
+				const runtimeChanged = runtimeChanges.length > 0;
+				
+				const configChanged = portsChanged || envChanged || volumesChanged || networksChanged || restartChanged || networkModeChanged || runtimeChanged;
 				
 				// Only check if container is stopped/exited (not just "not running")
 				// Don't restart containers that are already running
@@ -1374,6 +1693,11 @@ export class ContainerManager extends EventEmitter {
 					if (envChanged) changes.push(`environment: ${currentEnv} → ${targetEnv}`);
 					if (volumesChanged) changes.push(`volumes: ${currentVolumes} → ${targetVolumes}`);
 					if (networksChanged) changes.push(`networks: ${currentNetworks} → ${targetNetworks}`);
+					for (const field of runtimeChanges) {
+						const from = JSON.stringify(currentSvc.config[field]);
+						const to = JSON.stringify(targetSvc.config[field]);
+						changes.push(`${field}: ${from} → ${to}`);
+					}
 					if (containerStopped) changes.push(`container stopped: ${currentSvc.status}`);
 					
 					this.logger?.infoSync('Service needs update', {
@@ -1384,6 +1708,18 @@ export class ContainerManager extends EventEmitter {
 					});
 				}
 
+				// An update that was rolled back is not retried until the target changes
+				if (needsUpdate && (imageChanged || configChanged) &&
+					this.rolloutTracker.isRolledBack(RolloutTracker.key(target.appId, serviceId), targetSvc)) {
+					this.logger?.debugSync('Skipping rolled back update', {
+						component: LogComponents.containerManager,
+						operation: 'calculateSteps',
+						serviceName: targetSvc.serviceName,
+						imageName: targetSvc.imageName
+					});
+					continue;
+				}
+
 				if (needsUpdate && currentSvc.containerId) {
 					// Download new image
 					if (currentSvc.imageName !== targetSvc.imageName) {
@@ -1394,6 +1730,23 @@ export class ContainerManager extends EventEmitter {
 						});
 					}
 
+					// Only a real update can be rolled back (not a restart of a stopped container)
+					const previous = imageChanged || configChanged
+						? this.previousDefinition(current.appId, currentSvc)
+						: undefined;
+
+					if (previous && this.useStartFirst(currentSvc, targetSvc)) {
+						// Start new container next to the old one, swap once it is ready
+						steps.push({
+							action: 'replaceContainer',
+							appId: target.appId,
+							containerId: currentSvc.containerId,
+							service: targetSvc,
+							previous,
+						});
+						continue;
+					}
+
 					// Stop old container
 					steps.push({
 						action: 'stopContainer',
@@ -1415,6 +1768,7 @@ export class ContainerManager extends EventEmitter {
 						action: 'startContainer',
 						appId: target.appId,
 						service: targetSvc,
+						previous,
 					});
 				}
 			}
@@ -1423,6 +1777,52 @@ export class ContainerManager extends EventEmitter {
 		return steps;
 	}
 
+	/**
+	 * Definition a service update rolls back to
+	 * The previous target keeps agent-only settings (probes, resources); the
+	 * running container's config is used if it no longer matches.
+	 */
+	private previousDefinition(appId: number, currentSvc: ContainerService): ContainerService {
+		const previousTarget = this.previousTargetState.apps[appId]?.services
+			.find((s) => s.serviceId === currentSvc.serviceId);
+		const previous = previousTarget && previousTarget.imageName === currentSvc.imageName
+			? previousTarget
+			: currentSvc;
+
+		return {
+			..._.cloneDeep(previous),
+			containerId: undefined,
+			status: undefined,
+			serviceStatus: undefined,
+			error: undefined,
+			rollback: undefined,
+		};
+	}
+
+	/**
+	 * Whether a service update can run start-first
+	 * Falls back to recreate when old and new container would bind the same host port.
+	 */
+	private useStartFirst(currentSvc: ContainerService, targetSvc: ContainerService): boolean {
+		if (targetSvc.config.updateStrategy?.type !== 'start-first') {
+			return false;
+		}
+
+		const hostPort = (mapping: string) => String(mapping).split(':')[0];
+		const currentPorts = new Set((currentSvc.config.ports || []).map(hostPort));
+		const conflict = (targetSvc.config.ports || []).map(hostPort).find((port) => currentPorts.has(port));
+		if (conflict || targetSvc.config.networkMode === 'host') {
+			this.logger?.warnSync('start-first update not possible, using recreate', {
+				component: LogComponents.containerManager,
+				operation: 'calculateSteps',
+				serviceName: targetSvc.serviceName,
+				reason: conflict ? `host port ${conflict} is used by the running container` : 'host network mode'
+			});
+			return false;
+		}
+		return true;
+	}
+
 	// ========================================================================
 	// STEP EXECUTION (with K8s-style error handling)
 	// ========================================================================
@@ -1587,7 +1987,10 @@ export class ContainerManager extends EventEmitter {
 			this.healthCheckManager.stopMonitoring(step.containerId);
 			break;
 			case 'startContainer': {
+				this.checkImagePolicy(step.appId, step.service);
 				try {
+					// Block until the services this one depends on are up
+					await this.waitForDependencies(step.appId, step.service);
 					const containerId = await this.startContainer(step.service);
 					// Update current state
 					this.addServiceToCurrentState(step.appId, step.service, containerId);
@@ -1597,6 +2000,14 @@ export class ContainerManager extends EventEmitter {
 					await this.attachLogsToContainer(containerId, step.service);
 					// Start health check monitoring if probes are configured
 					this.startHealthMonitoring(containerId, step.service);
+					// Watch updates so a failing version can be rolled back
+					if (step.previous) {
+						this.rolloutTracker.begin(
+							RolloutTracker.key(step.appId, step.service.serviceId),
+							step.previous,
+							step.service,
+						);
+					}
 				} catch (error: any) {
 					this.logger?.errorSync(
 						'Failed to start container',
@@ -1618,6 +2029,32 @@ export class ContainerManager extends EventEmitter {
 				break;
 			}
 
+			case 'replaceContainer': {
+				this.checkImagePolicy(step.appId, step.service);
+				try {
+					await this.waitForDependencies(step.appId, step.service);
+					await this.replaceContainer(step.appId, step.containerId, step.service, step.previous);
+				} catch (error: any) {
+					this.logger?.errorSync(
+						'Failed to replace container',
+						error instanceof Error ? error : new Error(String(error)),
+						{
+							component: LogComponents.containerManager,
+							operation: 'executeStep',
+							serviceName: step.service.serviceName
+						}
+					);
+					this.markServiceAsError(
+						step.appId,
+						step.service.serviceId,
+						'StartFailure',
+						error.message
+					);
+					throw error; // Re-throw to mark step as failed
+				}
+				break;
+			}
+
 			case 'removeNetwork':
 				await this.removeNetwork(step.appId, step.networkName);
 				break;
@@ -1642,8 +2079,15 @@ export class ContainerManager extends EventEmitter {
 
 	private async downloadImage(imageName: string): Promise<void> {
 		if (this.useRealDocker) {
-			// Real Docker pull
-			await this.dockerManager.pullImage(imageName);
+			// Real Docker pull (progress is reported in current state while it runs)
+			this.pullProgress.set(imageName, { percent: 0, bytesDownloaded: 0, bytesTotal: 0 });
+			try {
+				await this.dockerManager.pullImage(imageName, (progress) => {
+					this.pullProgress.set(imageName, progress);
+				});
+			} finally {
+				this.pullProgress.delete(imageName);
+			}
 		} else {
 			// Simulated for testing
 			console.log(`    [SIMULATED] Downloading image: ${imageName}`);
@@ -1695,10 +2139,10 @@ export class ContainerManager extends EventEmitter {
 		}
 	}
 
-	private async startContainer(service: ContainerService): Promise<string> {
+	private async startContainer(service: ContainerService, nameSuffix?: string): Promise<string> {
 		if (this.useRealDocker) {
 			// Real Docker start (now supports networks)
-			return await this.dockerManager.startContainer(service);
+			return await this.dockerManager.startContainer(service, nameSuffix);
 		} else {
 			// Simulated for testing
 			const containerId = `container_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -1709,6 +2153,14 @@ export class ContainerManager extends EventEmitter {
 		}
 	}
 
+	private async renameContainer(containerId: string, service: ContainerService): Promise<void> {
+		if (this.useRealDocker) {
+			await this.dockerManager.renameContainer(containerId, service);
+		} else {
+			console.log(`    [SIMULATED] Renaming container: ${containerId}`);
+		}
+	}
+
 	private async createNetwork(appId: number, networkName: string): Promise<void> {
 		if (this.useRealDocker) {
 			// Get app info for UUID
@@ -1827,6 +2279,136 @@ export class ContainerManager extends EventEmitter {
 		}
 	}
 
+	// ========================================================================
+	// UPDATE STRATEGIES & ROLLBACK
+	// ========================================================================
+
+	/**
+	 * start-first update: start the new container next to the old one, wait for
+	 * its readinessProbe, then remove the old one. If the new container does not
+	 * become ready, it is removed and the old one keeps running (rolled back).
+	 */
+	private async replaceContainer(
+		appId: number,
+		oldContainerId: string,
+		service: ContainerService,
+		previous: ContainerService,
+	): Promise<void> {
+		const key = RolloutTracker.key(appId, service.serviceId);
+		const containerId = await this.startContainer(service, START_FIRST_SUFFIX);
+		this.startHealthMonitoring(containerId, service);
+
+		if (service.config.readinessProbe) {
+			const ready = await this.healthCheckManager.waitForReady(containerId, START_FIRST_READY_TIMEOUT_MS);
+			if (!ready) {
+				this.healthCheckManager.stopMonitoring(containerId);
+				await this.stopContainer(containerId);
+				await this.removeContainer(containerId);
+
+				const reason = `new container did not become ready within ${START_FIRST_READY_TIMEOUT_MS / 1000}s`;
+				const rollback = this.rolloutTracker.markRolledBack(key, service, previous.imageName, reason);
+				this.reportRollback(appId, service.serviceName, rollback);
+				return;
+			}
+		}
+
+		// Swap: old container out, new container takes over the service name
+		this.healthCheckManager.stopMonitoring(oldContainerId);
+		await this.stopContainer(oldContainerId);
+		await this.removeContainer(oldContainerId);
+		await this.renameContainer(containerId, service);
+
+		this.removeServiceFromCurrentState(appId, service.serviceId);
+		this.addServiceToCurrentState(appId, service, containerId);
+		this.markServiceAsRunning(appId, service.serviceId);
+		await this.attachLogsToContainer(containerId, service);
+		this.rolloutTracker.begin(key, previous, service);
+
+		this.logger?.infoSync('Service updated (start-first)', {
+			component: LogComponents.containerManager,
+			operation: 'replaceContainer',
+			serviceName: service.serviceName,
+			oldContainerId: oldContainerId.substring(0, 12),
+			newContainerId: containerId.substring(0, 12)
+		});
+	}
+
+	/**
+	 * Startup/liveness probe failed: roll back a recently updated service once
+	 * its failure threshold is reached, otherwise restart the container
+	 */
+	private async handleProbeFailure(containerId: string, serviceName: string, reason: string): Promise<void> {
+		for (const app of Object.values(this.currentState.apps)) {
+			const service = app.services.find((s) => s.containerId === containerId);
+			if (!service) {
+				continue;
+			}
+			const rollout = this.rolloutTracker.recordFailure(RolloutTracker.key(app.appId, service.serviceId));
+			if (rollout) {
+				await this.rollbackService(app.appId, containerId, rollout.target, rollout.previous, reason);
+				return;
+			}
+			break;
+		}
+
+		await this.restartUnhealthyContainer(containerId, serviceName, reason);
+	}
+
+	/**
+	 * Replace a failing updated container with the previous definition
+	 */
+	private async rollbackService(
+		appId: number,
+		containerId: string,
+		target: ContainerService,
+		previous: ContainerService,
+		reason: string,
+	): Promise<void> {
+		const rollback = this.rolloutTracker.markRolledBack(
+			RolloutTracker.key(appId, target.serviceId),
+			target,
+			previous.imageName,
+			reason,
+		);
+		this.reportRollback(appId, target.serviceName, rollback);
+
+		try {
+			this.healthCheckManager.stopMonitoring(containerId);
+			await this.stopContainer(containerId);
+			await this.removeContainer(containerId);
+
+			const newContainerId = await this.startContainer(previous);
+			this.removeServiceFromCurrentState(appId, target.serviceId);
+			this.addServiceToCurrentState(appId, previous, newContainerId);
+			this.markServiceAsRunning(appId, target.serviceId);
+			this.startHealthMonitoring(newContainerId, previous);
+			await this.attachLogsToContainer(newContainerId, previous);
+		} catch (error) {
+			this.logger?.errorSync(
+				'Failed to roll back service',
+				error instanceof Error ? error : new Error(String(error)),
+				{
+					component: LogComponents.containerManager,
+					operation: 'rollbackService',
+					serviceName: target.serviceName
+				}
+			);
+		}
+	}
+
+	private reportRollback(appId: number, serviceName: string, rollback: ServiceRollback): void {
+		this.logger?.warnSync('Rolled back service update', {
+			component: LogComponents.containerManager,
+			operation: 'rollbackService',
+			appId,
+			serviceName,
+			fromImage: rollback.fromImage,
+			toImage: rollback.toImage,
+			reason: rollback.reason
+		});
+		this.emit('service-rolled-back', { appId, serviceName, ...rollback });
+	}
+
 	// ========================================================================
 	// STATE MANAGEMENT HELPERS
 	// ========================================================================
@@ -1839,6 +2421,7 @@ export class ContainerManager extends EventEmitter {
 			case 'downloadImage':
 				return `image:${step.imageName}`;
 			case 'startContainer':
+			case 'replaceContainer':
 				return `service:${step.appId}:${step.service.serviceId}`;
 			case 'stopContainer':
 			case 'pauseContainer':
@@ -1868,7 +2451,7 @@ export class ContainerManager extends EventEmitter {
 	private markServiceAsError(
 		appId: number,
 		serviceIdOrImage: number | string,
-		errorType: 'ImagePullBackOff' | 'ErrImagePull' | 'StartFailure' | 'CrashLoopBackOff',
+		errorType: 'ImagePullBackOff' | 'ErrImagePull' | 'StartFailure' | 'CrashLoopBackOff' | 'ImageVerificationFailed',
 		message: string
 	): void {
 		const app = this.currentState.apps[appId] || this.targetState.apps[appId];
@@ -1921,6 +2504,108 @@ export class ContainerManager extends EventEmitter {
 		});
 	}
 
+	/**
+	 * Verify the service image against the signed-image policy
+	 * enforce: refuse to start (ImageVerificationFailed), warn: log and start
+	 */
+	private checkImagePolicy(appId: number, service: ContainerService): void {
+		if (this.imagePolicy.mode === 'off') {
+			return;
+		}
+
+		const result = verifyImageSignature(service.imageName, this.imagePolicy);
+		if (result.verified) {
+			return;
+		}
+
+		if (this.imagePolicy.mode === 'warn') {
+			this.logger?.warnSync('Starting unverified image (image policy: warn)', {
+				component: LogComponents.containerManager,
+				operation: 'checkImagePolicy',
+				serviceName: service.serviceName,
+				imageName: service.imageName,
+				reason: result.reason
+			});
+			return;
+		}
+
+		const error = new ImageVerificationError(service.imageName, result.reason || 'unknown reason');
+		this.logger?.errorSync('Refusing to start unverified image', error, {
+			component: LogComponents.containerManager,
+			operation: 'checkImagePolicy',
+			serviceName: service.serviceName
+		});
+		this.markServiceAsError(appId, service.serviceId, 'ImageVerificationFailed', error.message);
+		throw error;
+	}
+
+	/**
+	 * Wait for a service's dependsOn entries before starting it
+	 * started: dependency container is running
+	 * healthy: dependency readinessProbe passes (treated as started if it has none)
+	 */
+	private async waitForDependencies(appId: number, service: ContainerService): Promise<void> {
+		const dependencies = normalizeDependsOn(service.config.dependsOn);
+		if (dependencies.length === 0) {
+			return;
+		}
+
+		const currentApp = this.currentState.apps[appId];
+		const targetApp = this.targetState.apps[appId];
+
+		for (const { service: name, condition } of dependencies) {
+			// Dependencies that are not part of the app are ignored (as in ordering)
+			const targetDependency = targetApp?.services.find((s) => s.serviceName === name);
+			if (!targetDependency) {
+				continue;
+			}
+
+			const running = currentApp?.services.find(
+				(s) => s.serviceName === name && s.containerId && s.status?.toLowerCase() === 'running',
+			);
+			if (!running?.containerId) {
+				throw new DependencyNotReadyError(service.serviceName, name, 'is not running');
+			}
+
+			if (condition !== 'healthy') {
+				continue;
+			}
+
+			if (!targetDependency.config.readinessProbe) {
+				this.logger?.warnSync('Dependency has no readinessProbe, treating as started', {
+					component: LogComponents.containerManager,
+					operation: 'waitForDependencies',
+					serviceName: service.serviceName,
+					dependency: name
+				});
+				continue;
+			}
+
+			// Containers that were already running when the agent started are not monitored yet
+			if (!this.healthCheckManager.getHealth(running.containerId)) {
+				this.startHealthMonitoring(running.containerId, targetDependency);
+			}
+
+			this.logger?.infoSync('Waiting for dependency to become ready', {
+				component: LogComponents.containerManager,
+				operation: 'waitForDependencies',
+				serviceName: service.serviceName,
+				dependency: name
+			});
+			const ready = await this.healthCheckManager.waitForReady(
+				running.containerId,
+				DEPENDENCY_READY_TIMEOUT_MS,
+			);
+			if (!ready) {
+				throw new DependencyNotReadyError(
+					service.serviceName,
+					name,
+					`did not become ready within ${DEPENDENCY_READY_TIMEOUT_MS / 1000}s`,
+				);
+			}
+		}
+	}
+
 	/**
 	 * Mark service as running successfully
 	 */
@@ -2058,6 +2743,14 @@ export class ContainerManager extends EventEmitter {
 				if (flatService.labels && !service.config.labels) {
 					service.config.labels = flatService.labels;
 				}
+				if (flatService.updateStrategy && !service.config.updateStrategy) {
+					service.config.updateStrategy = flatService.updateStrategy;
+				}
+				for (const key of RUNTIME_OPTION_FIELDS) {
+					if (flatService[key] !== undefined && service.config[key] === undefined) {
+						(service.config as any)[key] = flatService[key];
+					}
+				}
 				
 				// Set appId and appName if missing
 				if (!service.appId) {
@@ -2348,6 +3041,23 @@ export class ContainerManager extends EventEmitter {
 		return this.isReconciliationEnabled;
 	}
 
+	/**
+	 * Run an operation that stops or pauses containers behind the reconciler's
+	 * back (e.g. a volume restore). Waits for a running reconciliation to finish
+	 * and holds off new ones until the operation is done.
+	 */
+	public async runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+		while (this.isApplyingState) {
+			await this.sleep(500);
+		}
+		this.isApplyingState = true;
+		try {
+			return await operation();
+		} finally {
+			this.isApplyingState = false;
+		}
+	}
+
 	/**
 	 * Get the Docker instance (for logging and advanced operations)
 	 */
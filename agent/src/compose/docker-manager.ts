@@ -8,6 +8,9 @@
 
 import Docker from 'dockerode';
 import { ContainerService } from './container-manager';
+import { buildRuntimeOptions } from './container-config';
+import { RegistryCredentialStore, RegistryCredential, parseImageReference } from './registry-auth';
+import { ImageDigestMismatchError } from './errors';
 import { AgentLogger } from '../logging/agent-logger';
 import { LogComponents } from '../logging/types';
 
@@ -21,12 +24,29 @@ export interface DockerContainerInfo {
 	ports?: Docker.Port[];
 }
 
+/**
+ * Aggregate image pull progress across all layers
+ */
+export interface PullProgress {
+	percent: number;
+	bytesDownloaded: number;
+	bytesTotal: number;
+}
+
+const PULL_PROGRESS_INTERVAL_MS = 1000;
+
 export class DockerManager {
 	private docker: Docker;
 	private logger?: AgentLogger;
+	private registryCredentials: RegistryCredentialStore;
 
-	constructor(dockerOptions?: Docker.DockerOptions, logger?: AgentLogger) {
+	constructor(
+		dockerOptions?: Docker.DockerOptions,
+		logger?: AgentLogger,
+		registryCredentials?: RegistryCredentialStore,
+	) {
 		this.logger = logger;
+		this.registryCredentials = registryCredentials ?? new RegistryCredentialStore(logger);
 		// Default: connect to local Docker daemon
 		// Detect platform and use appropriate socket
 		this.logger?.infoSync('Initializing Docker Manager', {
@@ -66,18 +86,68 @@ export class DockerManager {
 	// IMAGE OPERATIONS
 	// ========================================================================
 
+	/**
+	 * Load persisted registry credentials (so private pulls work before the first poll)
+	 */
+	async loadRegistryCredentials(): Promise<void> {
+		try {
+			await this.registryCredentials.load();
+		} catch (error) {
+			this.logger?.warnSync('Failed to load registry credentials', {
+				component: LogComponents.dockerManager,
+				operation: 'loadRegistryCredentials',
+				error: error instanceof Error ? error.message : String(error)
+			});
+		}
+	}
+
+	/**
+	 * Replace registry credentials with the set from target state
+	 */
+	async setRegistryCredentials(credentials: RegistryCredential[]): Promise<void> {
+		await this.registryCredentials.update(credentials);
+	}
+
 	/**
 	 * Pull an image from registry
+	 * Uses stored credentials for the image's registry. Images pinned by digest
+	 * (repo:tag@sha256:...) are verified against the digest after the pull.
 	 */
-	async pullImage(imageName: string): Promise<void> {
+	async pullImage(imageName: string, onProgress?: (progress: PullProgress) => void): Promise<void> {
 		this.logger?.infoSync('Pulling Docker image', {
 			component: LogComponents.dockerManager,
 			operation: 'pullImage',
 			imageName
 		});
 
-		return new Promise((resolve, reject) => {
-			this.docker.pull(imageName, (err: any, stream: NodeJS.ReadableStream) => {
+		const authconfig = this.registryCredentials.getAuthConfig(imageName);
+		const layers = new Map<string, { current: number; total: number }>();
+		let lastReport = 0;
+
+		const report = (force: boolean) => {
+			if (!onProgress) {
+				return;
+			}
+			const now = Date.now();
+			if (!force && now - lastReport < PULL_PROGRESS_INTERVAL_MS) {
+				return;
+			}
+			lastReport = now;
+			let bytesDownloaded = 0;
+			let bytesTotal = 0;
+			for (const layer of layers.values()) {
+				bytesDownloaded += layer.current;
+				bytesTotal += layer.total;
+			}
+			onProgress({
+				percent: bytesTotal > 0 ? Math.min(100, Math.round((bytesDownloaded / bytesTotal) * 100)) : 0,
+				bytesDownloaded,
+				bytesTotal,
+			});
+		};
+
+		await new Promise<void>((resolve, reject) => {
+			this.docker.pull(imageName, authconfig ? { authconfig } : {}, (err: any, stream: NodeJS.ReadableStream) => {
 				if (err) {
 					this.logger?.errorSync('Failed to pull image', err, {
 						component: LogComponents.dockerManager,
@@ -99,22 +169,47 @@ export class DockerManager {
 							});
 							return reject(err);
 						}
-						this.logger?.infoSync('Successfully pulled image', {
-							component: LogComponents.dockerManager,
-							operation: 'pullImage',
-							imageName
-						});
 						resolve();
 					},
 					(event: any) => {
-						// Progress events - can show download progress
-						if (event.status === 'Downloading') {
-							// Optional: show progress bar
+						if (!event.id) {
+							return;
+						}
+						const layer = layers.get(event.id) ?? { current: 0, total: 0 };
+						if (event.status === 'Downloading' && event.progressDetail?.total) {
+							layer.current = event.progressDetail.current ?? 0;
+							layer.total = event.progressDetail.total;
+						} else if (event.status === 'Download complete' || event.status === 'Pull complete') {
+							layer.current = layer.total;
 						}
+						layers.set(event.id, layer);
+						report(false);
 					},
 				);
 			});
 		});
+
+		const { digest } = parseImageReference(imageName);
+		if (digest) {
+			const info = await this.docker.getImage(imageName).inspect();
+			const repoDigests: string[] = info.RepoDigests || [];
+			if (!repoDigests.some((repoDigest) => repoDigest.endsWith(`@${digest}`))) {
+				const error = new ImageDigestMismatchError(imageName, digest, repoDigests);
+				this.logger?.errorSync('Pulled image does not match pinned digest', error, {
+					component: LogComponents.dockerManager,
+					operation: 'pullImage',
+					imageName
+				});
+				throw error;
+			}
+		}
+
+		report(true);
+		this.logger?.infoSync('Successfully pulled image', {
+			component: LogComponents.dockerManager,
+			operation: 'pullImage',
+			imageName
+		});
 	}
 
 	/**
@@ -143,8 +238,9 @@ export class DockerManager {
 
 	/**
 	 * Create and start a container from a service definition
+	 * @param nameSuffix - Appended to the container name (start-first updates)
 	 */
-	async startContainer(service: ContainerService): Promise<string> {
+	async startContainer(service: ContainerService, nameSuffix: string = ''): Promise<string> {
 		this.logger?.infoSync('Starting container', {
 			component: LogComponents.dockerManager,
 			operation: 'startContainer',
@@ -211,14 +307,18 @@ export class DockerManager {
 			}
 
 			// 4. Build container configuration
-			const containerName = `${service.appName}_${service.serviceName}_${service.serviceId}`;
+			const containerName = `${this.containerName(service)}${nameSuffix}`;
 
 			// 5. Parse resource limits (K8s-style)
 			const resourceLimits = this.parseResourceLimits(service);
 
+			// 6. Compose runtime options (command, devices, capabilities, tmpfs, logging, ...)
+			const runtimeOptions = buildRuntimeOptions(service.config);
+
 			const createOptions: Docker.ContainerCreateOptions = {
 				name: containerName,
 				Image: service.imageName,
+				...runtimeOptions.container,
 				Env: service.config.environment
 					? Object.entries(service.config.environment).map(
 							([key, value]) => `${key}=${value}`,
@@ -235,6 +335,7 @@ export class DockerManager {
 					},
 					// Apply resource limits
 					...resourceLimits,
+					...runtimeOptions.hostConfig,
 				},
 				Labels: {
 					'iotistic.app-id': service.appId.toString(),
@@ -242,6 +343,7 @@ export class DockerManager {
 					'iotistic.service-id': service.serviceId.toString(),
 					'iotistic.service-name': service.serviceName,
 					...(service.config.labels || {}),
+					...runtimeOptions.labels,
 				},
 			};
 
@@ -301,6 +403,17 @@ export class DockerManager {
 		}
 	}
 
+	/**
+	 * Give a container the service's canonical name (after a start-first swap)
+	 */
+	async renameContainer(containerId: string, service: ContainerService): Promise<void> {
+		await this.docker.getContainer(containerId).rename({ name: this.containerName(service) });
+	}
+
+	private containerName(service: ContainerService): string {
+		return `${service.appName}_${service.serviceName}_${service.serviceId}`;
+	}
+
 	/**
 	 * Stop a running container
 	 */
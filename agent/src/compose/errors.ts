@@ -18,3 +18,48 @@ export class ResourceRecreationAttemptError extends Error {
 		this.name = 'ResourceRecreationAttemptError';
 	}
 }
+
+export class ImageDigestMismatchError extends Error {
+	constructor(imageName: string, expectedDigest: string, repoDigests: string[]) {
+		super(
+			`Image ${imageName} does not match pinned digest ${expectedDigest} ` +
+			`(got ${repoDigests.length > 0 ? repoDigests.join(', ') : 'no repo digests'})`
+		);
+		this.name = 'ImageDigestMismatchError';
+	}
+}
+
+export class ImageVerificationError extends Error {
+	constructor(imageName: string, reason: string) {
+		super(`Image ${imageName} failed signature verification: ${reason}`);
+		this.name = 'ImageVerificationError';
+	}
+}
+
+export class DependencyCycleError extends Error {
+	constructor(public readonly cycle: string[]) {
+		super(`Service dependency cycle: ${cycle.join(' -> ')}`);
+		this.name = 'DependencyCycleError';
+	}
+}
+
+export class DependencyNotReadyError extends Error {
+	constructor(serviceName: string, dependency: string, reason: string) {
+		super(`Cannot start ${serviceName}: dependency ${dependency} ${reason}`);
+		this.name = 'DependencyNotReadyError';
+	}
+}
+
+export class UpdateLockedError extends Error {
+	constructor(appId: number, owner?: string) {
+		super(`App ${appId} is update-locked${owner ? ` by ${owner}` : ''}`);
+		this.name = 'UpdateLockedError';
+	}
+}
+
+export class VolumeBackupError extends Error {
+	constructor(volumeName: string, reason: string) {
+		super(`Volume ${volumeName} backup/restore failed: ${reason}`);
+		this.name = 'VolumeBackupError';
+	}
+}
@@ -33,6 +33,7 @@ export interface HealthCheckConfig {
  * - 'liveness-failed': Container is unhealthy, needs restart
  * - 'readiness-changed': Container readiness status changed
  * - 'startup-completed': Container finished starting up
+ * - 'startup-failed': Startup probe failed, needs restart
  */
 export class HealthCheckManager extends EventEmitter {
   private executor: HealthCheckExecutor;
@@ -107,6 +108,31 @@ export class HealthCheckManager extends EventEmitter {
     return this.containerHealth.get(containerId);
   }
 
+  /**
+   * Wait until a monitored container's readiness probe passes
+   * Resolves false on timeout or if monitoring stops meanwhile.
+   */
+  waitForReady(containerId: string, timeoutMs: number): Promise<boolean> {
+    const health = this.containerHealth.get(containerId);
+    if (!health) return Promise.resolve(false);
+    if (health.isReady) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      const onChange = (event: { containerId: string; isReady: boolean }) => {
+        if (event.containerId === containerId && event.isReady) {
+          finish(true);
+        }
+      };
+      const timer = setTimeout(() => finish(false), timeoutMs);
+      const finish = (ready: boolean) => {
+        clearTimeout(timer);
+        this.off('readiness-changed', onChange);
+        resolve(ready);
+      };
+      this.on('readiness-changed', onChange);
+    });
+  }
+
   /**
    * Get all monitored containers
    */
@@ -266,6 +292,15 @@ export class HealthCheckManager extends EventEmitter {
           health.isStarted = true;
           this.emit('startup-completed', { containerId, serviceName });
           console.log(`[HealthCheck] ${serviceName} startup completed`);
+        } else if (newStatus === 'unhealthy') {
+          this.emit('startup-failed', {
+            containerId,
+            serviceName,
+            message: state.lastCheck?.message,
+          });
+          console.log(
+            `[HealthCheck] ${serviceName} startup failed: ${state.lastCheck?.message || 'unknown'}`
+          );
         }
         break;
 
@@ -0,0 +1,79 @@
+/**
+ * IMAGE VERIFICATION
+ * ==================
+ *
+ * Signed-image policy delivered in target state (config.imagePolicy).
+ * The API signs each approved image digest with the platform Ed25519 key;
+ * the agent checks the signature before starting a container.
+ *
+ * Signed payload: "iotistic-image-v1\n<registry>/<repository>@<digest>"
+ *
+ * Signatures are only verified against IMAGE_SIGNING_PUBLIC_KEY set on the
+ * device. A key delivered with the signatures would prove nothing, so without
+ * the pinned key no image is verified.
+ */
+
+import * as crypto from 'crypto';
+import { parseImageReference } from './registry-auth';
+
+export type ImagePolicyMode = 'enforce' | 'warn' | 'off';
+
+export interface ImageSignature {
+	image: string; // <registry>/<repository>
+	digest: string; // sha256:...
+	signature: string; // base64 Ed25519 signature
+}
+
+export interface ImagePolicy {
+	mode: ImagePolicyMode;
+	signatures?: ImageSignature[];
+}
+
+export interface ImageVerificationResult {
+	verified: boolean;
+	reason?: string;
+}
+
+const SIGNATURE_VERSION = 'iotistic-image-v1';
+
+/**
+ * Check an image reference against the policy's signatures
+ */
+export function verifyImageSignature(
+	imageName: string,
+	policy: ImagePolicy,
+	trustedPublicKey: string | undefined = process.env.IMAGE_SIGNING_PUBLIC_KEY,
+): ImageVerificationResult {
+	const ref = parseImageReference(imageName);
+	if (!ref.digest) {
+		return { verified: false, reason: `${imageName} is not pinned to a digest` };
+	}
+
+	const publicKey = (trustedPublicKey || '').replace(/\\n/g, '\n');
+	if (!publicKey) {
+		return { verified: false, reason: 'IMAGE_SIGNING_PUBLIC_KEY is not set on this device' };
+	}
+
+	const image = `${ref.registry}/${ref.repository}`;
+	const entry = (policy.signatures || []).find((sig) => sig.image === image && sig.digest === ref.digest);
+	if (!entry) {
+		return { verified: false, reason: `${image}@${ref.digest} is not signed (image not approved)` };
+	}
+
+	try {
+		const valid = crypto.verify(
+			null,
+			Buffer.from(`${SIGNATURE_VERSION}\n${image}@${ref.digest}`),
+			crypto.createPublicKey(publicKey),
+			Buffer.from(entry.signature, 'base64'),
+		);
+		return valid
+			? { verified: true }
+			: { verified: false, reason: `Signature for ${image}@${ref.digest} does not match the platform key` };
+	} catch (error) {
+		return {
+			verified: false,
+			reason: `Could not verify signature: ${error instanceof Error ? error.message : String(error)}`,
+		};
+	}
+}
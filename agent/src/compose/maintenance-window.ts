@@ -0,0 +1,217 @@
+/**
+ * MAINTENANCE WINDOWS
+ * ===================
+ *
+ * Maintenance windows delivered in target state (config.maintenanceWindows).
+ * Each window opens when its cron schedule matches (evaluated in the window's
+ * timezone) and stays open for durationMinutes. Disruptive reconciliation
+ * steps only run while a window is open.
+ *
+ * Schedule: 5-field cron "minute hour day-of-month month day-of-week"
+ * with *, lists (1,3), ranges (1-5) and steps (*\/15, 8-18/2).
+ * Day-of-week 0 and 7 are Sunday.
+ *
+ * No windows configured means updates are always allowed.
+ */
+
+export interface MaintenanceWindow {
+	schedule: string; // e.g. "0 2 * * 6" = Saturdays 02:00
+	durationMinutes: number;
+	timezone?: string; // IANA name, default UTC
+}
+
+interface CronField {
+	values: Set<number>;
+	wildcard: boolean;
+}
+
+interface ParsedWindow {
+	minute: CronField;
+	hour: CronField;
+	dayOfMonth: CronField;
+	month: CronField;
+	dayOfWeek: CronField;
+	durationMinutes: number;
+	formatter: Intl.DateTimeFormat;
+}
+
+interface LocalTime {
+	minute: number;
+	hour: number;
+	dayOfMonth: number;
+	month: number;
+	dayOfWeek: number;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+	[0, 59], // minute
+	[0, 23], // hour
+	[1, 31], // day of month
+	[1, 12], // month
+	[0, 7], // day of week
+];
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const MINUTE_MS = 60_000;
+
+// How far ahead the next window start is searched for
+const NEXT_WINDOW_SEARCH_MINUTES = 8 * 24 * 60;
+
+/**
+ * Parse a window, throwing on an invalid schedule, duration or timezone
+ */
+function parseWindow(window: MaintenanceWindow): ParsedWindow {
+	const fields = (window.schedule || '').trim().split(/\s+/);
+	if (fields.length !== 5) {
+		throw new Error(`Invalid maintenance window schedule "${window.schedule}": expected 5 fields`);
+	}
+	if (!Number.isInteger(window.durationMinutes) || window.durationMinutes <= 0) {
+		throw new Error(`Invalid maintenance window duration: ${window.durationMinutes}`);
+	}
+
+	const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, i) =>
+		parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1], window.schedule),
+	);
+	if (dayOfWeek.values.delete(7)) {
+		dayOfWeek.values.add(0);
+	}
+
+	return {
+		minute,
+		hour,
+		dayOfMonth,
+		month,
+		dayOfWeek,
+		durationMinutes: window.durationMinutes,
+		// Throws RangeError for unknown timezones
+		formatter: new Intl.DateTimeFormat('en-US', {
+			timeZone: window.timezone || 'UTC',
+			hourCycle: 'h23',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			weekday: 'short',
+		}),
+	};
+}
+
+function parseField(field: string, min: number, max: number, schedule: string): CronField {
+	const values = new Set<number>();
+	for (const part of field.split(',')) {
+		const [range, stepText] = part.split('/');
+		const step = stepText === undefined ? 1 : Number(stepText);
+		let start: number;
+		let end: number;
+		if (range === '*') {
+			start = min;
+			end = max;
+		} else if (range.includes('-')) {
+			[start, end] = range.split('-').map(Number);
+		} else {
+			start = Number(range);
+			end = stepText === undefined ? start : max;
+		}
+
+		if (![start, end, step].every(Number.isInteger) || step <= 0 || start < min || end > max || start > end) {
+			throw new Error(`Invalid maintenance window schedule "${schedule}": bad field "${field}"`);
+		}
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+	return { values, wildcard: field.startsWith('*') };
+}
+
+function localTime(formatter: Intl.DateTimeFormat, date: Date): LocalTime {
+	const parts: Record<string, string> = {};
+	for (const part of formatter.formatToParts(date)) {
+		parts[part.type] = part.value;
+	}
+	return {
+		minute: Number(parts.minute),
+		hour: Number(parts.hour),
+		dayOfMonth: Number(parts.day),
+		month: Number(parts.month),
+		dayOfWeek: WEEKDAYS[parts.weekday],
+	};
+}
+
+function matches(window: ParsedWindow, date: Date): boolean {
+	const time = localTime(window.formatter, date);
+	if (!window.minute.values.has(time.minute) || !window.hour.values.has(time.hour) || !window.month.values.has(time.month)) {
+		return false;
+	}
+
+	// Standard cron: when both day fields are restricted, either one may match
+	const dayOfMonth = window.dayOfMonth.values.has(time.dayOfMonth);
+	const dayOfWeek = window.dayOfWeek.values.has(time.dayOfWeek);
+	if (!window.dayOfMonth.wildcard && !window.dayOfWeek.wildcard) {
+		return dayOfMonth || dayOfWeek;
+	}
+	return dayOfMonth && dayOfWeek;
+}
+
+function startOfMinute(date: Date): number {
+	return Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * Parsed set of maintenance windows
+ * Invalid windows are reported through `errors` and never open.
+ */
+export class MaintenanceSchedule {
+	public readonly errors: string[] = [];
+	private windows: ParsedWindow[] = [];
+	private configured: boolean;
+	private next?: { from: number; at: Date };
+
+	constructor(windows: MaintenanceWindow[] = []) {
+		this.configured = windows.length > 0;
+		for (const window of windows) {
+			try {
+				this.windows.push(parseWindow(window));
+			} catch (error: any) {
+				this.errors.push(error.message);
+			}
+		}
+	}
+
+	/**
+	 * Whether disruptive changes may be applied at the given time
+	 */
+	public isOpen(now: Date = new Date()): boolean {
+		if (!this.configured) {
+			return true;
+		}
+		const minute = startOfMinute(now);
+		return this.windows.some((window) => {
+			for (let offset = 0; offset < window.durationMinutes; offset++) {
+				if (matches(window, new Date(minute - offset * MINUTE_MS))) {
+					return true;
+				}
+			}
+			return false;
+		});
+	}
+
+	/**
+	 * Start of the next window after the given time (searched up to 8 days ahead)
+	 */
+	public nextOpening(now: Date = new Date()): Date | undefined {
+		const minute = startOfMinute(now);
+		// Reconciliation asks every cycle while updates wait, reuse the last search
+		if (this.next && this.next.from <= minute && this.next.at.getTime() > minute) {
+			return this.next.at;
+		}
+		for (let offset = 1; offset <= NEXT_WINDOW_SEARCH_MINUTES; offset++) {
+			const date = new Date(minute + offset * MINUTE_MS);
+			if (this.windows.some((window) => matches(window, date))) {
+				this.next = { from: minute, at: date };
+				return date;
+			}
+		}
+		return undefined;
+	}
+}
@@ -0,0 +1,199 @@
+/**
+ * REGISTRY AUTH
+ * =============
+ *
+ * Container registry pull credentials delivered in target state (config.registries).
+ * Kept in memory for pulls and persisted encrypted (AES-256-GCM) with a device-local
+ * key, so private images can still be pulled after a restart while offline.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import path from 'path';
+import type { AuthConfig } from 'dockerode';
+import { getDataDir } from '../db/connection';
+import { RegistryCredentialModel } from '../db/models/registry-credentials.model';
+import type { RegistryCredentialRow } from '../db/models/registry-credentials.model';
+import { encryptSecret, decryptSecret } from '../utils/crypto';
+import { AgentLogger } from '../logging/agent-logger';
+import { LogComponents } from '../logging/types';
+
+export interface RegistryCredential {
+	registry: string;
+	username: string;
+	password: string;
+}
+
+/**
+ * Storage for encrypted credentials (RegistryCredentialModel in production)
+ */
+export interface RegistryCredentialPersistence {
+	getAll(): Promise<RegistryCredentialRow[]>;
+	replaceAll(rows: RegistryCredentialRow[]): Promise<void>;
+}
+
+const DOCKER_HUB_ALIASES = ['index.docker.io', 'registry-1.docker.io', 'registry.hub.docker.com'];
+const KEY_FILE = 'registry-credentials.key';
+
+/**
+ * Normalize a registry host (Docker Hub aliases collapse to docker.io)
+ */
+export function normalizeRegistry(registry: string): string {
+	const host = registry.replace(/^https?:\/\//, '').replace(/\/+$/, '').toLowerCase();
+	return DOCKER_HUB_ALIASES.includes(host) ? 'docker.io' : host;
+}
+
+/**
+ * Split an image reference into registry, repository, tag and digest
+ * Examples:
+ *   nginx:1.25 -> { registry: 'docker.io', repository: 'library/nginx', tag: '1.25' }
+ *   reg.example.com:5000/app:dev@sha256:abc -> { registry: 'reg.example.com:5000', repository: 'app', tag: 'dev', digest: 'sha256:abc' }
+ */
+export function parseImageReference(imageName: string): {
+	registry: string;
+	repository: string;
+	tag?: string;
+	digest?: string;
+} {
+	const [name, digest] = imageName.split('@');
+	const parts = name.split('/');
+	let registry = 'docker.io';
+	let remainder = name;
+
+	if (parts.length > 1 && (parts[0].includes('.') || parts[0].includes(':') || parts[0] === 'localhost')) {
+		registry = normalizeRegistry(parts[0]);
+		remainder = parts.slice(1).join('/');
+	}
+
+	const [repository, tag] = remainder.split(':');
+	return {
+		registry,
+		repository: registry === 'docker.io' && !repository.includes('/') ? `library/${repository}` : repository,
+		tag,
+		digest,
+	};
+}
+
+export class RegistryCredentialStore {
+	private credentials = new Map<string, RegistryCredential>();
+	private key?: Buffer;
+
+	constructor(
+		private logger?: AgentLogger,
+		private persistence: RegistryCredentialPersistence = RegistryCredentialModel,
+		private keyPath: string = path.join(getDataDir(), KEY_FILE),
+	) {}
+
+	/**
+	 * Load persisted credentials (entries that no longer decrypt are dropped)
+	 */
+	async load(): Promise<void> {
+		const rows = await this.persistence.getAll();
+		const key = this.getKey();
+		this.credentials.clear();
+
+		for (const row of rows) {
+			try {
+				this.credentials.set(row.registry, {
+					registry: row.registry,
+					username: row.username,
+					password: decryptSecret(row.passwordEncrypted, key),
+				});
+			} catch (error) {
+				this.logger?.warnSync('Could not decrypt stored registry credentials', {
+					component: LogComponents.dockerManager,
+					operation: 'loadRegistryCredentials',
+					registry: row.registry,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Replace credentials with the set from target state
+	 * @returns true if anything changed (and was persisted)
+	 */
+	async update(list: RegistryCredential[]): Promise<boolean> {
+		const next = new Map<string, RegistryCredential>();
+		for (const entry of list) {
+			if (!entry?.registry || !entry.username || typeof entry.password !== 'string') {
+				continue;
+			}
+			const registry = normalizeRegistry(entry.registry);
+			next.set(registry, { registry, username: entry.username, password: entry.password });
+		}
+
+		if (this.isSame(next)) {
+			return false;
+		}
+
+		const key = this.getKey();
+		await this.persistence.replaceAll(
+			[...next.values()].map((entry) => ({
+				registry: entry.registry,
+				username: entry.username,
+				passwordEncrypted: encryptSecret(entry.password, key),
+			})),
+		);
+		this.credentials = next;
+
+		this.logger?.infoSync('Registry credentials updated', {
+			component: LogComponents.dockerManager,
+			operation: 'updateRegistryCredentials',
+			registries: [...next.keys()],
+		});
+		return true;
+	}
+
+	/**
+	 * Docker auth config for pulling an image, if credentials exist for its registry
+	 */
+	getAuthConfig(imageName: string): AuthConfig | undefined {
+		const { registry } = parseImageReference(imageName);
+		const entry = this.credentials.get(registry);
+		if (!entry) {
+			return undefined;
+		}
+		return {
+			username: entry.username,
+			password: entry.password,
+			serveraddress: registry === 'docker.io' ? 'https://index.docker.io/v1/' : registry,
+		};
+	}
+
+	/**
+	 * Registries with stored credentials
+	 */
+	getRegistries(): string[] {
+		return [...this.credentials.keys()];
+	}
+
+	private isSame(next: Map<string, RegistryCredential>): boolean {
+		if (next.size !== this.credentials.size) {
+			return false;
+		}
+		for (const [registry, entry] of next) {
+			const current = this.credentials.get(registry);
+			if (!current || current.username !== entry.username || current.password !== entry.password) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	/**
+	 * Device-local encryption key, created on first use (readable by the agent only)
+	 */
+	private getKey(): Buffer {
+		if (!this.key) {
+			if (fs.existsSync(this.keyPath)) {
+				this.key = fs.readFileSync(this.keyPath);
+			} else {
+				this.key = crypto.randomBytes(32);
+				fs.mkdirSync(path.dirname(this.keyPath), { recursive: true });
+				fs.writeFileSync(this.keyPath, this.key, { mode: 0o600 });
+			}
+		}
+		return this.key;
+	}
+}
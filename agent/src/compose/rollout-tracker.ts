@@ -0,0 +1,115 @@
+/**
+ * ROLLOUT TRACKER
+ * ===============
+ *
+ * Watches services right after an image or config update. If the new version
+ * keeps failing its startup or liveness probe, the container manager rolls it
+ * back to the previous definition.
+ *
+ * A rolled-back target is not applied again until the target changes
+ * (kept in memory, so an agent restart retries the update once more).
+ */
+
+import type { ContainerService } from './container-manager';
+
+export interface ServiceRollback {
+	fromImage: string; // Image of the update that was rolled back
+	toImage: string; // Image running again
+	reason: string;
+	timestamp: string; // ISO timestamp
+}
+
+interface Rollout {
+	previous: ContainerService;
+	target: ContainerService;
+	failures: number;
+	threshold: number;
+	startedAt: number;
+}
+
+export const DEFAULT_ROLLBACK_AFTER_FAILURES = 3;
+
+// Probe failures only count towards a rollback this long after the update
+const ROLLOUT_WATCH_MS = 10 * 60 * 1000;
+
+export class RolloutTracker {
+	private rollouts = new Map<string, Rollout>();
+	private rollbacks = new Map<string, { target: string; rollback: ServiceRollback }>();
+
+	public static key(appId: number, serviceId: number): string {
+		return `${appId}:${serviceId}`;
+	}
+
+	/**
+	 * Start watching an updated service
+	 * Services without startup/liveness probes, or with rollback disabled, are not watched.
+	 */
+	public begin(key: string, previous: ContainerService, target: ContainerService): void {
+		const threshold = target.config.updateStrategy?.rollbackAfterFailures ?? DEFAULT_ROLLBACK_AFTER_FAILURES;
+		if (threshold <= 0 || (!target.config.startupProbe && !target.config.livenessProbe)) {
+			this.rollouts.delete(key);
+			return;
+		}
+		this.rollouts.set(key, { previous, target, failures: 0, threshold, startedAt: Date.now() });
+	}
+
+	/**
+	 * Count a probe failure for a watched service
+	 * @returns the rollout once its failure threshold is reached (and stops watching it)
+	 */
+	public recordFailure(key: string): Rollout | undefined {
+		const rollout = this.rollouts.get(key);
+		if (!rollout) {
+			return undefined;
+		}
+		if (Date.now() - rollout.startedAt > ROLLOUT_WATCH_MS) {
+			this.rollouts.delete(key);
+			return undefined;
+		}
+
+		rollout.failures++;
+		if (rollout.failures < rollout.threshold) {
+			return undefined;
+		}
+		this.rollouts.delete(key);
+		return rollout;
+	}
+
+	/**
+	 * Remember that a target was rolled back
+	 */
+	public markRolledBack(key: string, target: ContainerService, toImage: string, reason: string): ServiceRollback {
+		const rollback: ServiceRollback = {
+			fromImage: target.imageName,
+			toImage,
+			reason,
+			timestamp: new Date().toISOString(),
+		};
+		this.rollouts.delete(key);
+		this.rollbacks.set(key, { target: this.fingerprint(target), rollback });
+		return rollback;
+	}
+
+	/**
+	 * Whether this exact target was rolled back (a changed target clears the rollback)
+	 */
+	public isRolledBack(key: string, target: ContainerService): boolean {
+		const entry = this.rollbacks.get(key);
+		if (!entry) {
+			return false;
+		}
+		if (entry.target !== this.fingerprint(target)) {
+			this.rollbacks.delete(key);
+			return false;
+		}
+		return true;
+	}
+
+	public getRollback(key: string): ServiceRollback | undefined {
+		return this.rollbacks.get(key)?.rollback;
+	}
+
+	private fingerprint(service: ContainerService): string {
+		return JSON.stringify({ imageName: service.imageName, config: service.config });
+	}
+}
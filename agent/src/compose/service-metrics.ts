@@ -0,0 +1,361 @@
+/**
+ * SERVICE METRICS
+ * ===============
+ *
+ * Samples per-container resource usage (CPU, memory, network, block IO)
+ * of managed containers and records OOM kills and restarts.
+ * Samples and events are buffered until CloudSync drains them into the
+ * next state report (service_metrics / service_events).
+ *
+ * Network and block IO are reported as bytes since the previous sample,
+ * so a container restart (counter reset) never produces negative values.
+ */
+
+import type Docker from 'dockerode';
+import type { AgentLogger } from '../logging/agent-logger';
+import { LogComponents } from '../logging/types';
+
+export interface ServiceMetricsSample {
+	appId: number;
+	serviceName: string;
+	containerId: string;
+	timestamp: string; // ISO timestamp
+	cpuPercent: number; // Of one CPU (200 = two full cores)
+	memoryBytes: number; // Excluding page cache, like `docker stats`
+	memoryLimitBytes?: number;
+	networkRxBytes: number; // Since previous sample
+	networkTxBytes: number;
+	blockReadBytes: number; // Since previous sample
+	blockWriteBytes: number;
+}
+
+export interface ServiceLifecycleEvent {
+	type: 'oom_killed' | 'restarted';
+	appId: number;
+	serviceName: string;
+	containerId: string;
+	timestamp: string; // ISO timestamp
+	restartCount?: number; // Docker restart count, for "restarted"
+	exitCode?: number; // Exit code before the restart, if seen
+}
+
+export interface ServiceMetricsOptions {
+	sampleIntervalMs?: number; // Default 60s
+	maxSamples?: number; // Buffer size while reports are not sent (oldest dropped)
+}
+
+interface Counters {
+	rx: number;
+	tx: number;
+	read: number;
+	write: number;
+}
+
+const MAX_EVENTS = 200;
+
+// Delay before re-subscribing to Docker events after the stream ends
+const EVENTS_RECONNECT_MS = 5000;
+
+export class ServiceMetricsCollector {
+	private docker: Docker;
+	private logger?: AgentLogger;
+	private sampleIntervalMs: number;
+	private maxSamples: number;
+	private samples: ServiceMetricsSample[] = [];
+	private events: ServiceLifecycleEvent[] = [];
+	private counters = new Map<string, Counters>(); // Keyed by container ID
+	private restartCounts = new Map<string, number>(); // Keyed by container ID
+	private exitCodes = new Map<string, number>(); // Last "die" exit code, keyed by container ID
+	private sampleTimer?: NodeJS.Timeout;
+	private eventStream?: NodeJS.ReadableStream;
+	private running = false;
+	private sampling = false;
+
+	constructor(docker: Docker, logger?: AgentLogger, options: ServiceMetricsOptions = {}) {
+		this.docker = docker;
+		this.logger = logger;
+		this.sampleIntervalMs = options.sampleIntervalMs ?? 60_000;
+		this.maxSamples = options.maxSamples ?? 1000;
+	}
+
+	public async start(): Promise<void> {
+		if (this.running) {
+			return;
+		}
+		this.running = true;
+		await this.subscribeEvents();
+		this.sampleTimer = setInterval(() => {
+			this.sample().catch((error) => {
+				this.logger?.warnSync('Failed to sample service metrics', {
+					component: LogComponents.metrics,
+					operation: 'sample',
+					error: error instanceof Error ? error.message : String(error)
+				});
+			});
+		}, this.sampleIntervalMs);
+	}
+
+	public stop(): void {
+		this.running = false;
+		if (this.sampleTimer) {
+			clearInterval(this.sampleTimer);
+			this.sampleTimer = undefined;
+		}
+		(this.eventStream as any)?.destroy?.();
+		this.eventStream = undefined;
+	}
+
+	/**
+	 * Take and clear the buffered samples
+	 */
+	public drainSamples(): ServiceMetricsSample[] {
+		const samples = this.samples;
+		this.samples = [];
+		return samples;
+	}
+
+	/**
+	 * Take and clear the buffered OOM/restart events
+	 */
+	public drainEvents(): ServiceLifecycleEvent[] {
+		const events = this.events;
+		this.events = [];
+		return events;
+	}
+
+	public hasEvents(): boolean {
+		return this.events.length > 0;
+	}
+
+	/**
+	 * Sample all running managed containers once
+	 */
+	public async sample(): Promise<void> {
+		if (this.sampling) {
+			return;
+		}
+		this.sampling = true;
+		try {
+			const containers = await this.docker.listContainers({
+				all: true,
+				filters: { label: ['iotistic.app-id'] },
+			});
+			const seen = new Set<string>();
+
+			for (const info of containers) {
+				seen.add(info.Id);
+				const appId = parseInt(info.Labels['iotistic.app-id']);
+				const serviceName = info.Labels['iotistic.service-name'];
+				try {
+					await this.checkRestarts(info.Id, appId, serviceName);
+					if (info.State === 'running') {
+						await this.sampleContainer(info.Id, appId, serviceName);
+					}
+				} catch (error) {
+					this.logger?.debugSync('Failed to sample container', {
+						component: LogComponents.metrics,
+						operation: 'sample',
+						serviceName,
+						containerId: info.Id.substring(0, 12),
+						error: error instanceof Error ? error.message : String(error)
+					});
+				}
+			}
+
+			// Forget removed containers
+			for (const map of [this.counters, this.restartCounts, this.exitCodes]) {
+				for (const containerId of map.keys()) {
+					if (!seen.has(containerId)) {
+						map.delete(containerId);
+					}
+				}
+			}
+		} finally {
+			this.sampling = false;
+		}
+	}
+
+	private async sampleContainer(containerId: string, appId: number, serviceName: string): Promise<void> {
+		const stats: any = await this.docker.getContainer(containerId).stats({ stream: false });
+
+		const counters: Counters = {
+			rx: 0,
+			tx: 0,
+			read: 0,
+			write: 0,
+		};
+		for (const network of Object.values<any>(stats.networks || {})) {
+			counters.rx += network.rx_bytes || 0;
+			counters.tx += network.tx_bytes || 0;
+		}
+		for (const entry of stats.blkio_stats?.io_service_bytes_recursive || []) {
+			const op = String(entry.op).toLowerCase();
+			if (op === 'read') {
+				counters.read += entry.value || 0;
+			} else if (op === 'write') {
+				counters.write += entry.value || 0;
+			}
+		}
+		const previous = this.counters.get(containerId);
+		this.counters.set(containerId, counters);
+
+		const memoryStats = stats.memory_stats || {};
+		// cgroup v2 reports inactive_file, v1 total_inactive_file
+		const cache = memoryStats.stats?.inactive_file ?? memoryStats.stats?.total_inactive_file ?? 0;
+		const memoryBytes = Math.max(0, (memoryStats.usage || 0) - cache);
+
+		this.addSample({
+			appId,
+			serviceName,
+			containerId,
+			timestamp: new Date().toISOString(),
+			cpuPercent: cpuPercent(stats),
+			memoryBytes,
+			memoryLimitBytes: memoryStats.limit || undefined,
+			networkRxBytes: delta(counters.rx, previous?.rx),
+			networkTxBytes: delta(counters.tx, previous?.tx),
+			blockReadBytes: delta(counters.read, previous?.read),
+			blockWriteBytes: delta(counters.write, previous?.write),
+		});
+	}
+
+	/**
+	 * Record a restart when Docker's restart count went up since the last sample
+	 */
+	private async checkRestarts(containerId: string, appId: number, serviceName: string): Promise<void> {
+		const inspect = await this.docker.getContainer(containerId).inspect();
+		const restartCount = inspect.RestartCount ?? 0;
+		const known = this.restartCounts.get(containerId);
+		this.restartCounts.set(containerId, restartCount);
+
+		if (known !== undefined && restartCount > known) {
+			this.addEvent({
+				type: 'restarted',
+				appId,
+				serviceName,
+				containerId,
+				timestamp: new Date().toISOString(),
+				restartCount,
+				exitCode: this.exitCodes.get(containerId),
+			});
+		}
+	}
+
+	/**
+	 * Handle a Docker container event ("oom" and "die")
+	 */
+	public handleDockerEvent(event: any): void {
+		const containerId: string | undefined = event?.Actor?.ID ?? event?.id;
+		const attributes = event?.Actor?.Attributes ?? {};
+		if (!containerId || !attributes['iotistic.app-id']) {
+			return;
+		}
+
+		if (event.Action === 'die' && attributes.exitCode !== undefined) {
+			this.exitCodes.set(containerId, parseInt(attributes.exitCode));
+			return;
+		}
+
+		if (event.Action === 'oom') {
+			const serviceName = attributes['iotistic.service-name'];
+			this.logger?.warnSync('Container killed by OOM killer', {
+				component: LogComponents.metrics,
+				operation: 'oom',
+				serviceName,
+				containerId: containerId.substring(0, 12)
+			});
+			this.addEvent({
+				type: 'oom_killed',
+				appId: parseInt(attributes['iotistic.app-id']),
+				serviceName,
+				containerId,
+				timestamp: event.time ? new Date(event.time * 1000).toISOString() : new Date().toISOString(),
+			});
+		}
+	}
+
+	private async subscribeEvents(): Promise<void> {
+		try {
+			const stream = await this.docker.getEvents({
+				filters: {
+					type: ['container'],
+					event: ['oom', 'die'],
+					label: ['iotistic.app-id'],
+				},
+			});
+			this.eventStream = stream;
+
+			let buffer = '';
+			stream.on('data', (chunk: Buffer) => {
+				buffer += chunk.toString('utf8');
+				const lines = buffer.split('\n');
+				buffer = lines.pop() ?? '';
+				for (const line of lines) {
+					if (!line.trim()) {
+						continue;
+					}
+					try {
+						this.handleDockerEvent(JSON.parse(line));
+					} catch {
+						// Ignore partial or malformed event lines
+					}
+				}
+			});
+			stream.on('end', () => this.resubscribeEvents());
+			stream.on('error', () => this.resubscribeEvents());
+		} catch (error) {
+			this.logger?.warnSync('Failed to subscribe to Docker events', {
+				component: LogComponents.metrics,
+				operation: 'subscribe-events',
+				error: error instanceof Error ? error.message : String(error)
+			});
+			this.resubscribeEvents();
+		}
+	}
+
+	private resubscribeEvents(): void {
+		this.eventStream = undefined;
+		if (!this.running) {
+			return;
+		}
+		setTimeout(() => {
+			if (this.running && !this.eventStream) {
+				this.subscribeEvents();
+			}
+		}, EVENTS_RECONNECT_MS);
+	}
+
+	private addSample(sample: ServiceMetricsSample): void {
+		this.samples.push(sample);
+		if (this.samples.length > this.maxSamples) {
+			this.samples.splice(0, this.samples.length - this.maxSamples);
+		}
+	}
+
+	private addEvent(event: ServiceLifecycleEvent): void {
+		this.events.push(event);
+		if (this.events.length > MAX_EVENTS) {
+			this.events.splice(0, this.events.length - MAX_EVENTS);
+		}
+	}
+}
+
+/**
+ * CPU usage between the two readings of a stats call, in percent of one CPU
+ */
+function cpuPercent(stats: any): number {
+	const cpuDelta = (stats.cpu_stats?.cpu_usage?.total_usage ?? 0) - (stats.precpu_stats?.cpu_usage?.total_usage ?? 0);
+	const systemDelta = (stats.cpu_stats?.system_cpu_usage ?? 0) - (stats.precpu_stats?.system_cpu_usage ?? 0);
+	if (cpuDelta <= 0 || systemDelta <= 0) {
+		return 0;
+	}
+	const cpus = stats.cpu_stats.online_cpus || stats.cpu_stats.cpu_usage?.percpu_usage?.length || 1;
+	return Math.round((cpuDelta / systemDelta) * cpus * 100 * 100) / 100;
+}
+
+function delta(current: number, previous?: number): number {
+	if (previous === undefined) {
+		return 0;
+	}
+	return current >= previous ? current - previous : current;
+}
@@ -0,0 +1,84 @@
+/**
+ * UPDATE LOCKS
+ * ============
+ *
+ * App-level update locks, taken by a running container through the device API
+ * (POST /v1/apps/:appId/update-lock), similar to balena's lock file.
+ * While an app is locked, the container manager defers disruptive steps
+ * for it. Locks are persisted so they survive an agent restart, and may
+ * carry an expiry so a crashed owner cannot block updates forever.
+ */
+
+import { UpdateLockModel } from '../db/models/update-locks.model';
+
+export interface UpdateLock {
+	appId: number;
+	owner?: string; // Free-form, e.g. the service name that took the lock
+	expiresAt?: string; // ISO timestamp, no expiry when unset
+	createdAt: string;
+}
+
+export class UpdateLockManager {
+	private locks = new Map<number, UpdateLock>();
+
+	/**
+	 * Load persisted locks
+	 */
+	public async load(): Promise<void> {
+		const rows = await UpdateLockModel.getAll();
+		this.locks.clear();
+		for (const row of rows) {
+			this.locks.set(row.appId, {
+				appId: row.appId,
+				owner: row.owner ?? undefined,
+				expiresAt: row.expiresAt ? new Date(row.expiresAt).toISOString() : undefined,
+				createdAt: row.createdAt ? new Date(row.createdAt).toISOString() : new Date().toISOString(),
+			});
+		}
+	}
+
+	/**
+	 * Take (or refresh) the lock of an app
+	 * @param ttlSeconds - Lock expiry, none when omitted
+	 */
+	public async acquire(appId: number, owner?: string, ttlSeconds?: number): Promise<UpdateLock> {
+		const lock: UpdateLock = {
+			appId,
+			owner,
+			expiresAt: ttlSeconds ? new Date(Date.now() + ttlSeconds * 1000).toISOString() : undefined,
+			createdAt: this.get(appId)?.createdAt ?? new Date().toISOString(),
+		};
+		await UpdateLockModel.upsert({
+			appId,
+			owner: owner ?? null,
+			expiresAt: lock.expiresAt ?? null,
+			createdAt: lock.createdAt,
+		});
+		this.locks.set(appId, lock);
+		return lock;
+	}
+
+	/**
+	 * Release the lock of an app
+	 * @returns whether the app was locked
+	 */
+	public async release(appId: number): Promise<boolean> {
+		const locked = this.get(appId) !== undefined;
+		this.locks.delete(appId);
+		await UpdateLockModel.delete(appId);
+		return locked;
+	}
+
+	/**
+	 * Current lock of an app (expired locks are dropped)
+	 */
+	public get(appId: number): UpdateLock | undefined {
+		const lock = this.locks.get(appId);
+		if (lock?.expiresAt && Date.parse(lock.expiresAt) <= Date.now()) {
+			this.locks.delete(appId);
+			UpdateLockModel.delete(appId).catch(() => {});
+			return undefined;
+		}
+		return lock;
+	}
+}
@@ -0,0 +1,321 @@
+/**
+ * VOLUME BACKUP
+ * =============
+ *
+ * Snapshots app volumes into gzip-compressed tarballs in the cloud backup
+ * store, and recreates volumes from them (on the same or another device).
+ *
+ * Volumes are read and written through a helper container that mounts the
+ * volume at /volume, so the agent needs no access to Docker's data directory.
+ * Run from jobs as the built-in handlers volume-backup and volume-restore.
+ */
+
+import type Docker from 'dockerode';
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+
+import type { AgentLogger } from '../logging/agent-logger';
+import { LogComponents } from '../logging/types';
+import { buildApiEndpoint } from '../utils/api-utils';
+import { VolumeBackupError } from './errors';
+import { Volume } from './volume';
+
+export interface VolumeBackupOptions {
+	cloudApiEndpoint: string;
+	getDeviceInfo: () => { uuid: string; deviceApiKey?: string };
+	helperImage?: string; // Image of the helper container (needs sh and find), default busybox:stable
+	tempDirectory?: string; // Where restores are downloaded to before they are verified
+	runExclusive?: <T>(operation: () => Promise<T>) => Promise<T>; // Hold off reconciliation while services are paused/stopped
+}
+
+/**
+ * Backup as stored by the cloud
+ */
+export interface VolumeBackupRecord {
+	id: number;
+	device_uuid: string;
+	app_id: number;
+	volume_name: string;
+	size_bytes: number;
+	sha256: string;
+	created_at: string;
+}
+
+const HELPER_MOUNT = '/volume';
+
+export class VolumeBackupManager {
+	private docker: Docker;
+	private options: VolumeBackupOptions;
+	private logger?: AgentLogger;
+	private helperImage: string;
+
+	constructor(docker: Docker, options: VolumeBackupOptions, logger?: AgentLogger) {
+		this.docker = docker;
+		this.options = options;
+		this.logger = logger;
+		this.helperImage = options.helperImage ?? 'busybox:stable';
+	}
+
+	/**
+	 * Archive a volume and upload it to the backup store
+	 * @param options.pauseService - Pause the containers using the volume while it is read
+	 */
+	public async backup(
+		appId: number,
+		volumeName: string,
+		options: { pauseService?: boolean } = {},
+	): Promise<VolumeBackupRecord> {
+		const dockerName = Volume.generateDockerName(appId, volumeName);
+		try {
+			await this.docker.getVolume(dockerName).inspect();
+		} catch {
+			throw new VolumeBackupError(volumeName, `volume ${dockerName} does not exist`);
+		}
+
+		this.logger?.infoSync('Backing up volume', {
+			component: LogComponents.containerManager,
+			operation: 'volume-backup',
+			appId,
+			volumeName,
+			pauseService: !!options.pauseService
+		});
+
+		const run = async () => {
+			const paused = options.pauseService ? await this.pauseUsers(dockerName) : [];
+			try {
+				return await this.upload(dockerName, appId, volumeName);
+			} finally {
+				for (const id of paused) {
+					await this.docker.getContainer(id).unpause().catch((error) => {
+						this.logger?.warnSync('Failed to unpause container after backup', {
+							component: LogComponents.containerManager,
+							operation: 'volume-backup',
+							containerId: id.substring(0, 12),
+							error: error instanceof Error ? error.message : String(error)
+						});
+					});
+				}
+			}
+		};
+
+		const record = options.pauseService && this.options.runExclusive
+			? await this.options.runExclusive(run)
+			: await run();
+
+		this.logger?.infoSync('Volume backed up', {
+			component: LogComponents.containerManager,
+			operation: 'volume-backup',
+			appId,
+			volumeName,
+			backupId: record.id,
+			sizeBytes: record.size_bytes
+		});
+		return record;
+	}
+
+	/**
+	 * Download a backup and replace the contents of its volume with it. The
+	 * volume is created if it does not exist; containers using it are stopped
+	 * during the restore and started again afterwards.
+	 */
+	public async restore(backupId: number): Promise<{ appId: number; volumeName: string }> {
+		const { uuid, deviceApiKey } = this.options.getDeviceInfo();
+		const response = await fetch(
+			buildApiEndpoint(this.options.cloudApiEndpoint, `/device/${uuid}/volume-backups/${backupId}/download`),
+			{ headers: { 'X-Device-API-Key': deviceApiKey || '' } },
+		);
+		if (!response.ok || !response.body) {
+			throw new VolumeBackupError(`backup ${backupId}`, `download failed: HTTP ${response.status} ${response.statusText}`);
+		}
+
+		const appId = parseInt(response.headers.get('x-backup-app-id') || '', 10);
+		const volumeName = response.headers.get('x-backup-volume-name') || '';
+		const expectedSha256 = response.headers.get('x-backup-sha256');
+		if (isNaN(appId) || !volumeName || !expectedSha256) {
+			throw new VolumeBackupError(`backup ${backupId}`, 'download is missing the backup app id, volume name or checksum');
+		}
+
+		// Download and verify before touching the volume
+		const tempFile = path.join(this.options.tempDirectory ?? os.tmpdir(), `volume-backup-${backupId}-${Date.now()}.tar.gz`);
+		try {
+			const hash = createHash('sha256');
+			await pipeline(
+				Readable.fromWeb(response.body as any),
+				new Transform({
+					transform(chunk, _encoding, callback) {
+						hash.update(chunk);
+						callback(null, chunk);
+					},
+				}),
+				createWriteStream(tempFile),
+			);
+			if (hash.digest('hex') !== expectedSha256) {
+				throw new VolumeBackupError(volumeName, `checksum of backup ${backupId} does not match`);
+			}
+
+			this.logger?.infoSync('Restoring volume', {
+				component: LogComponents.containerManager,
+				operation: 'volume-restore',
+				appId,
+				volumeName,
+				backupId
+			});
+
+			const dockerName = Volume.generateDockerName(appId, volumeName);
+			await this.ensureVolume(dockerName, appId);
+
+			const run = async () => {
+				const stopped = await this.stopUsers(dockerName);
+				try {
+					await this.runHelper(dockerName, ['sh', '-c', `find ${HELPER_MOUNT} -mindepth 1 -delete`]);
+					const helper = await this.createHelper(dockerName);
+					try {
+						await helper.putArchive(createReadStream(tempFile).pipe(createGunzip()), { path: '/' });
+					} finally {
+						await helper.remove({ force: true }).catch(() => undefined);
+					}
+				} finally {
+					for (const id of stopped) {
+						await this.docker.getContainer(id).start().catch((error) => {
+							this.logger?.warnSync('Failed to start container after restore', {
+								component: LogComponents.containerManager,
+								operation: 'volume-restore',
+								containerId: id.substring(0, 12),
+								error: error instanceof Error ? error.message : String(error)
+							});
+						});
+					}
+				}
+			};
+
+			if (this.options.runExclusive) {
+				await this.options.runExclusive(run);
+			} else {
+				await run();
+			}
+		} finally {
+			await fs.rm(tempFile, { force: true });
+		}
+
+		this.logger?.infoSync('Volume restored', {
+			component: LogComponents.containerManager,
+			operation: 'volume-restore',
+			appId,
+			volumeName,
+			backupId
+		});
+		return { appId, volumeName };
+	}
+
+	private async upload(dockerName: string, appId: number, volumeName: string): Promise<VolumeBackupRecord> {
+		const { uuid, deviceApiKey } = this.options.getDeviceInfo();
+		const helper = await this.createHelper(dockerName);
+		try {
+			const archive = await helper.getArchive({ path: HELPER_MOUNT });
+			const params = new URLSearchParams({ app_id: String(appId), volume_name: volumeName });
+			const response = await fetch(
+				buildApiEndpoint(this.options.cloudApiEndpoint, `/device/${uuid}/volume-backups?${params}`),
+				{
+					method: 'POST',
+					headers: {
+						'Content-Type': 'application/gzip',
+						'X-Device-API-Key': deviceApiKey || '',
+					},
+					body: (archive as Readable).pipe(createGzip()) as any,
+					duplex: 'half',
+				} as RequestInit,
+			);
+			if (!response.ok) {
+				throw new VolumeBackupError(volumeName, `upload failed: HTTP ${response.status} ${await response.text()}`);
+			}
+			return await response.json() as VolumeBackupRecord;
+		} finally {
+			await helper.remove({ force: true }).catch(() => undefined);
+		}
+	}
+
+	/**
+	 * Create the volume (with the labels the container manager gives app volumes)
+	 * when restoring onto a device that does not have it yet
+	 */
+	private async ensureVolume(dockerName: string, appId: number): Promise<void> {
+		try {
+			await this.docker.getVolume(dockerName).inspect();
+		} catch {
+			await this.docker.createVolume({
+				Name: dockerName,
+				Labels: {
+					'iotistic.managed': 'true',
+					'iotistic.app-id': String(appId),
+					'iotistic.app-uuid': String(appId),
+				},
+			});
+		}
+	}
+
+	private async pauseUsers(dockerName: string): Promise<string[]> {
+		const containers = await this.docker.listContainers({ filters: { volume: [dockerName], status: ['running'] } });
+		for (const container of containers) {
+			await this.docker.getContainer(container.Id).pause();
+		}
+		return containers.map((container) => container.Id);
+	}
+
+	private async stopUsers(dockerName: string): Promise<string[]> {
+		const containers = await this.docker.listContainers({ filters: { volume: [dockerName], status: ['running', 'paused'] } });
+		for (const container of containers) {
+			await this.docker.getContainer(container.Id).stop();
+		}
+		return containers.map((container) => container.Id);
+	}
+
+	private async runHelper(dockerName: string, cmd: string[]): Promise<void> {
+		const helper = await this.createHelper(dockerName, cmd);
+		try {
+			await helper.start();
+			const result = await helper.wait();
+			if (result.StatusCode !== 0) {
+				throw new VolumeBackupError(dockerName, `helper container exited with code ${result.StatusCode}`);
+			}
+		} finally {
+			await helper.remove({ force: true }).catch(() => undefined);
+		}
+	}
+
+	private async createHelper(dockerName: string, cmd: string[] = ['true']): Promise<Docker.Container> {
+		await this.ensureHelperImage();
+		return this.docker.createContainer({
+			Image: this.helperImage,
+			Cmd: cmd,
+			Labels: { 'iotistic.volume-backup-helper': 'true' },
+			NetworkDisabled: true,
+			HostConfig: {
+				Binds: [`${dockerName}:${HELPER_MOUNT}`],
+			},
+		});
+	}
+
+	private async ensureHelperImage(): Promise<void> {
+		try {
+			await this.docker.getImage(this.helperImage).inspect();
+			return;
+		} catch {
+			// Not present yet
+		}
+
+		await new Promise<void>((resolve, reject) => {
+			this.docker.pull(this.helperImage, (err: any, stream: NodeJS.ReadableStream) => {
+				if (err) {
+					reject(err);
+					return;
+				}
+				this.docker.modem.followProgress(stream, (error: any) => (error ? reject(error) : resolve()));
+			});
+		});
+	}
+}
@@ -99,6 +99,13 @@ export function transaction(
 	return db.transaction(cb);
 }
 
+/**
+ * Directory holding the database (and other agent state files)
+ */
+export function getDataDir(): string {
+	return dataDir;
+}
+
 /**
  * Direct access to the knex instance for advanced queries
  */
@@ -0,0 +1,20 @@
+/**
+ * Migration: Add registry_credentials table
+ * Purpose: Container registry pull credentials delivered in target state
+ * (config.registries). Passwords are encrypted with the device-local key.
+ */
+
+exports.up = async function(knex) {
+  await knex.schema.createTable('registry_credentials', (table) => {
+    table.string('registry', 255).primary();
+    table.string('username', 255).notNullable();
+    table.text('passwordEncrypted').notNullable();
+    table.timestamp('updatedAt').defaultTo(knex.fn.now());
+  });
+
+  console.log('✓ Created registry_credentials table');
+};
+
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('registry_credentials');
+};
@@ -0,0 +1,20 @@
+/**
+ * Migration: Add update_locks table
+ * Purpose: App-level update locks taken by containers through the device API.
+ * While an app is locked, disruptive reconciliation steps are deferred.
+ */
+
+exports.up = async function(knex) {
+  await knex.schema.createTable('update_locks', (table) => {
+    table.integer('appId').primary();
+    table.string('owner', 255);
+    table.timestamp('expiresAt').nullable();
+    table.timestamp('createdAt').defaultTo(knex.fn.now());
+  });
+
+  console.log('✓ Created update_locks table');
+};
+
+exports.down = async function(knex) {
+  await knex.schema.dropTableIfExists('update_locks');
+};
@@ -0,0 +1,16 @@
+/**
+ * Add clientCertificate column to device table
+ * Stores the mTLS client certificate, its private key and the fleet CA
+ */
+
+exports.up = function(knex) {
+  return knex.schema.table('device', (table) => {
+    table.text('clientCertificate').nullable().comment('JSON client certificate (PEM cert/key, fleet CA, expiry)');
+  });
+};
+
+exports.down = function(knex) {
+  return knex.schema.table('device', (table) => {
+    table.dropColumn('clientCertificate');
+  });
+};
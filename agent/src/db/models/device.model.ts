@@ -26,6 +26,7 @@ export interface Device {
   mqttBrokerUrl?: string | null;
   mqttBrokerConfig?: string | null; // JSON string of MqttBrokerConfig
   apiTlsConfig?: string | null;     // JSON string of ApiTlsConfig
+  clientCertificate?: string | null; // JSON string of ClientCertificate
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -19,3 +19,11 @@ export type { DeviceSensorOutput } from './sensor-outputs.model';
 
 // Agent metadata (discovery, etc.)
 export { MetadataModel } from './metadata.model';
+
+// Container registry pull credentials
+export { RegistryCredentialModel } from './registry-credentials.model';
+export type { RegistryCredentialRow } from './registry-credentials.model';
+
+// App-level update locks
+export { UpdateLockModel } from './update-locks.model';
+export type { UpdateLockRow } from './update-locks.model';
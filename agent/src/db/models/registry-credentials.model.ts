@@ -0,0 +1,37 @@
+/**
+ * Registry Credentials Model
+ * Stores container registry pull credentials (passwords encrypted by the caller)
+ */
+
+import { models, transaction } from '../connection';
+
+export interface RegistryCredentialRow {
+  registry: string;
+  username: string;
+  passwordEncrypted: string;
+  updatedAt?: string;
+}
+
+export class RegistryCredentialModel {
+  private static table = 'registry_credentials';
+
+  /**
+   * Get all stored credentials
+   */
+  static async getAll(): Promise<RegistryCredentialRow[]> {
+    return models(this.table).select('registry', 'username', 'passwordEncrypted', 'updatedAt');
+  }
+
+  /**
+   * Replace all stored credentials with the given set
+   */
+  static async replaceAll(rows: RegistryCredentialRow[]): Promise<void> {
+    await transaction(async (trx) => {
+      await trx(this.table).delete();
+      if (rows.length > 0) {
+        const now = new Date().toISOString();
+        await trx(this.table).insert(rows.map((row) => ({ ...row, updatedAt: now })));
+      }
+    });
+  }
+}
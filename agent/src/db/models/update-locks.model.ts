@@ -0,0 +1,38 @@
+/**
+ * Update Locks Model
+ * Stores app-level update locks taken through the device API
+ */
+
+import { models, upsertModel } from '../connection';
+
+export interface UpdateLockRow {
+  appId: number;
+  owner?: string | null;
+  expiresAt?: string | null;
+  createdAt?: string;
+}
+
+export class UpdateLockModel {
+  private static table = 'update_locks';
+
+  /**
+   * Get all stored locks
+   */
+  static async getAll(): Promise<UpdateLockRow[]> {
+    return models(this.table).select('appId', 'owner', 'expiresAt', 'createdAt');
+  }
+
+  /**
+   * Insert or replace the lock of an app
+   */
+  static async upsert(row: UpdateLockRow): Promise<void> {
+    await upsertModel(this.table, row, { appId: row.appId });
+  }
+
+  /**
+   * Remove the lock of an app
+   */
+  static async delete(appId: number): Promise<void> {
+    await models(this.table).where({ appId }).delete();
+  }
+}
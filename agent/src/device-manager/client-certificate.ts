@@ -0,0 +1,63 @@
+/**
+ * Client certificate helpers
+ * ==========================
+ *
+ * The device identity can be an X.509 client certificate signed by the fleet
+ * CA instead of the device API key. The private key never leaves the device:
+ * a CSR is sent at provisioning (and again before expiry), and the API returns
+ * the signed certificate. It is used for mutual TLS to the API and to the
+ * MQTT broker.
+ */
+
+import * as crypto from 'crypto';
+import * as forge from 'node-forge';
+import type { ClientCertificate } from './types';
+
+const KEY_BITS = 2048;
+
+/** Renew when the certificate expires within this many days */
+export const CERTIFICATE_RENEW_BEFORE_DAYS = parseInt(process.env.CLIENT_CERT_RENEW_BEFORE_DAYS || '30', 10);
+
+export interface CertificateRequest {
+	privateKey: string; // PEM (PKCS#8)
+	csr: string;        // PEM
+}
+
+/**
+ * Generate a new RSA key pair and a CSR for it. The API sets the subject
+ * itself; the CN here only helps when inspecting the CSR.
+ */
+export function generateCertificateRequest(deviceUuid: string): CertificateRequest {
+	// Node's native key generation is much faster than forge's on small devices
+	const { privateKey } = crypto.generateKeyPairSync('rsa', {
+		modulusLength: KEY_BITS,
+		privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+		publicKeyEncoding: { type: 'spki', format: 'pem' },
+	});
+
+	const key = forge.pki.privateKeyFromPem(privateKey) as forge.pki.rsa.PrivateKey;
+	const csr = forge.pki.createCertificationRequest();
+	csr.publicKey = forge.pki.setRsaPublicKey(key.n, key.e);
+	csr.setSubject([{ name: 'commonName', value: `device_${deviceUuid}` }]);
+	csr.sign(key, forge.md.sha256.create());
+
+	return {
+		privateKey,
+		csr: forge.pki.certificationRequestToPem(csr),
+	};
+}
+
+/**
+ * Whether the certificate is missing, expired or expires soon
+ */
+export function needsRenewal(
+	certificate: ClientCertificate | undefined,
+	now: Date = new Date(),
+	renewBeforeDays: number = CERTIFICATE_RENEW_BEFORE_DAYS
+): boolean {
+	if (!certificate) {
+		return true;
+	}
+	const renewAt = new Date(certificate.notAfter).getTime() - renewBeforeDays * 24 * 60 * 60 * 1000;
+	return isNaN(renewAt) || now.getTime() >= renewAt;
+}
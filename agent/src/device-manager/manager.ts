@@ -16,6 +16,7 @@
 
 import type { 
 	DeviceInfo, 
+	IssuedCertificate,
 	ProvisioningConfig, 
 	ProvisionRequest, 
 	ProvisionResponse 
@@ -27,6 +28,7 @@ import { LogComponents } from '../logging/types';
 import { HttpClient, FetchHttpClient } from '../lib/http-client';
 import { DatabaseClient, KnexDatabaseClient } from '../db/client';
 import { WireGuardManager } from '../network/vpn/wireguard-manager';
+import { generateCertificateRequest, needsRenewal, type CertificateRequest } from './client-certificate';
 
 export class DeviceManager {
 	private deviceInfo: DeviceInfo | null = null;
@@ -135,6 +137,7 @@ export class DeviceManager {
 			mqttBrokerUrl: record.mqttBrokerUrl || undefined,
 			mqttBrokerConfig: record.mqttBrokerConfig ? JSON.parse(record.mqttBrokerConfig) : undefined,
 			apiTlsConfig: record.apiTlsConfig ? JSON.parse(record.apiTlsConfig) : undefined,
+			clientCertificate: record.clientCertificate ? JSON.parse(record.clientCertificate) : undefined,
 		};
 		
 		// Debug: log parsed deviceInfo
@@ -179,6 +182,7 @@ export class DeviceManager {
 		mqttBrokerUrl: this.deviceInfo.mqttBrokerUrl || null,
 		mqttBrokerConfig: this.deviceInfo.mqttBrokerConfig ? JSON.stringify(this.deviceInfo.mqttBrokerConfig) : null,
 		apiTlsConfig: this.deviceInfo.apiTlsConfig ? JSON.stringify(this.deviceInfo.apiTlsConfig) : null,
+		clientCertificate: this.deviceInfo.clientCertificate ? JSON.stringify(this.deviceInfo.clientCertificate) : null,
 			updatedAt: new Date().toISOString(),
 		};
 		
@@ -274,6 +278,18 @@ export class DeviceManager {
 				this.deviceInfo.uuid = config.uuid;
 			}
 
+		// Key pair for a client certificate; the CSR is signed if the fleet CA is configured
+		let certificateRequest: CertificateRequest | undefined;
+		try {
+			certificateRequest = generateCertificateRequest(this.deviceInfo.uuid);
+		} catch (error: any) {
+			this.logger?.warnSync('Could not create certificate request, using API key only', {
+				component: LogComponents.deviceManager,
+				operation: 'provision',
+				error: error.message,
+			});
+		}
+
 		try {
 			// Phase 1: Register device with cloud API
 			this.logger?.infoSync('Phase 1: Registering device with provisioning key', {
@@ -296,6 +312,7 @@ export class DeviceManager {
 				macAddress: this.deviceInfo.macAddress,
 				osVersion: this.deviceInfo.osVersion,
 				agentVersion: this.deviceInfo.agentVersion,
+				csr: certificateRequest?.csr,
 			},
 				this.deviceInfo.provisioningApiKey!
 		);
@@ -307,6 +324,9 @@ export class DeviceManager {
 		this.deviceInfo.mqttBrokerUrl = response.mqtt.broker;
 		this.deviceInfo.mqttBrokerConfig = response.mqtt.brokerConfig; // Save TLS config if provided
 		this.deviceInfo.apiTlsConfig = response.api?.tlsConfig; // Save API HTTPS TLS config if provided
+		if (response.certificate && certificateRequest) {
+			this.setClientCertificate(response.certificate, certificateRequest.privateKey);
+		}
 
 		// Phase 2: Exchange keys - verify device can authenticate with deviceApiKey
 			this.logger?.debugSync('Phase 2: Exchanging keys', {
@@ -521,6 +541,68 @@ export class DeviceManager {
 		}
 	}
 
+	private setClientCertificate(issued: IssuedCertificate, privateKey: string): void {
+		this.deviceInfo!.clientCertificate = {
+			certificate: issued.certificate,
+			privateKey,
+			caCertificate: issued.caCertificate,
+			serialNumber: issued.serialNumber,
+			fingerprint: issued.fingerprint,
+			notAfter: issued.notAfter,
+		};
+	}
+
+	/**
+	 * Request a new client certificate when there is none or it expires soon
+	 * POST /api/${API_VERSION}/device/:uuid/certificate
+	 *
+	 * The previous certificate is superseded by the API once the new one is
+	 * issued. Authenticates with the device API key, which stays valid.
+	 *
+	 * @returns true when a new certificate was stored
+	 */
+	async renewClientCertificate(): Promise<boolean> {
+		if (!this.deviceInfo?.provisioned || !this.deviceInfo.apiEndpoint || !this.deviceInfo.deviceApiKey) {
+			return false;
+		}
+		if (!needsRenewal(this.deviceInfo.clientCertificate)) {
+			return false;
+		}
+
+		const url = buildApiEndpoint(this.deviceInfo.apiEndpoint, `/device/${this.deviceInfo.uuid}/certificate`);
+		const certificateRequest = generateCertificateRequest(this.deviceInfo.uuid);
+
+		const response = await this.httpClient.post<IssuedCertificate>(url, { csr: certificateRequest.csr }, {
+			headers: this.createAuthHeaders(this.deviceInfo.deviceApiKey),
+		});
+
+		// Fleet CA not configured: keep using the API key
+		if (response.status === 404) {
+			this.logger?.debugSync('Client certificates not enabled by the API', {
+				component: LogComponents.deviceManager,
+				operation: 'renewClientCertificate',
+			});
+			return false;
+		}
+		if (!response.ok) {
+			const errorText = await response.json().catch(() => ({ message: response.statusText }));
+			throw new Error(`Certificate request failed ${response.status}: ${JSON.stringify(errorText)}`);
+		}
+
+		const previousSerial = this.deviceInfo.clientCertificate?.serialNumber;
+		this.setClientCertificate(await response.json(), certificateRequest.privateKey);
+		await this.saveDeviceInfo();
+
+		this.logger?.infoSync('Client certificate renewed', {
+			component: LogComponents.deviceManager,
+			operation: 'renewClientCertificate',
+			previousSerial,
+			serialNumber: this.deviceInfo.clientCertificate!.serialNumber,
+			notAfter: this.deviceInfo.clientCertificate!.notAfter,
+		});
+		return true;
+	}
+
 	/**
 	 * Update device name
 	 */
@@ -581,6 +663,7 @@ export class DeviceManager {
 		this.deviceInfo.mqttUsername = undefined;
 		this.deviceInfo.mqttPassword = undefined;
 		this.deviceInfo.mqttBrokerUrl = undefined;
+		this.deviceInfo.clientCertificate = undefined;
 
 		await this.saveDeviceInfo();
 
@@ -692,6 +775,7 @@ export class DeviceManager {
 		this.deviceInfo.mqttUsername = undefined;
 		this.deviceInfo.mqttPassword = undefined;
 		this.deviceInfo.mqttBrokerUrl = undefined;
+		this.deviceInfo.clientCertificate = undefined;
 		this.deviceInfo.uuid = preservedUuid; // Restore UUID
 
 		await this.saveDeviceInfo();
@@ -78,6 +78,8 @@ export class StateReconciler extends EventEmitter {
 
 		// Load target state from database
 		await this.loadTargetStateFromDB();
+		this.containerManager.setImagePolicy(this.targetState.config?.imagePolicy);
+		this.containerManager.setMaintenanceWindows(this.targetState.config?.maintenanceWindows);
 
 		// Initialize both managers
 		await this.containerManager.init();
@@ -109,6 +111,16 @@ export class StateReconciler extends EventEmitter {
 			this.targetState.config = {};
 		}
 
+		// Registry credentials are stored encrypted by the container manager,
+		// keep them out of the plaintext state snapshot
+		const { registries, ...config } = this.targetState.config;
+		this.targetState.config = config;
+		if (Array.isArray(registries)) {
+			await this.containerManager.setRegistryCredentials(registries);
+		}
+		this.containerManager.setImagePolicy(config.imagePolicy);
+		this.containerManager.setMaintenanceWindows(config.maintenanceWindows);
+
 		// Persist complete target state to database
 		await this.saveTargetStateToDB();
 
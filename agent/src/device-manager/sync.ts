@@ -24,6 +24,7 @@ import { ConnectionMonitor } from '../network/connection-monitor';
 import { OfflineQueue } from '../logging/offline-queue';
 import type { AgentLogger } from '../logging/agent-logger';
 import { LogComponents } from '../logging/types';
+import type { ServiceMetricsCollector, ServiceMetricsSample, ServiceLifecycleEvent } from '../compose/service-metrics';
 import { buildDeviceEndpoint, buildApiEndpoint } from '../utils/api-utils';
 import { HttpClient, FetchHttpClient } from '../lib/http-client';
 import { RetryPolicy, CircuitBreaker, AsyncLock, isAuthError } from '../utils/retry-policy';
@@ -64,6 +65,8 @@ interface DeviceStateReport {
 			ssid?: string;
 			signalLevel?: number;
 		}>;
+		service_metrics?: ServiceMetricsSample[]; // Per-container samples since the last metrics cycle
+		service_events?: ServiceLifecycleEvent[]; // OOM kills and restarts since the last report
 	};
 }
 
@@ -134,6 +137,7 @@ export class CloudSync extends EventEmitter {
 	private sensorPublish?: any; // Optional sensor-publish feature for health reporting
 	private endpoints?: any; // Optional endpoints feature for health reporting
 	private mqttManager?: any; // Optional MQTT manager for state reporting
+	private serviceMetrics?: ServiceMetricsCollector; // Optional per-service resource usage
 	
 	// Event handlers (stored for proper cleanup)
 	private onlineHandler = () => {
@@ -253,12 +257,16 @@ export class CloudSync extends EventEmitter {
 			'Content-Type': 'application/json',
 		};
 		
+		// Client certificate (mutual TLS) is presented on HTTPS connections if issued
+		const clientCertificate = deviceInfo?.clientCertificate;
+		
 		this.logger?.infoSync('Creating HTTP client', {
 			component: LogComponents.cloudSync,
 			endpoint: endpoint,
 			isLocalhostHttps: isLocalhostHttps,
 			hasApiTlsConfig: !!deviceInfo?.apiTlsConfig,
 			hasCaCert: !!deviceInfo?.apiTlsConfig?.caCert,
+			hasClientCert: !!clientCertificate,
 			note: 'API key added per-request for fresh credentials'
 		});
 		
@@ -272,6 +280,8 @@ export class CloudSync extends EventEmitter {
 			
 			return new FetchHttpClient({
 				rejectUnauthorized: false, // Allow self-signed certs for localhost
+				clientCert: clientCertificate?.certificate,
+				clientKey: clientCertificate?.privateKey,
 				defaultHeaders,
 				defaultTimeout: this.config.apiTimeout,
 			});
@@ -290,6 +300,8 @@ export class CloudSync extends EventEmitter {
 			return new FetchHttpClient({
 				caCert: apiTlsConfig.caCert.replace(/\\n/g, '\n'), // Fix escaped newlines
 				rejectUnauthorized: apiTlsConfig.verifyCertificate !== false,
+				clientCert: clientCertificate?.certificate,
+				clientKey: clientCertificate?.privateKey,
 				defaultHeaders,
 				defaultTimeout: this.config.apiTimeout,
 			});
@@ -452,6 +464,13 @@ export class CloudSync extends EventEmitter {
 		return this.targetState;
 	}
 	
+	/**
+	 * Report per-service resource usage and OOM/restart events from this collector
+	 */
+	public setServiceMetricsCollector(collector: ServiceMetricsCollector): void {
+		this.serviceMetrics = collector;
+	}
+	
 	/**
 	 * Get connection health
 	 */
@@ -900,6 +919,14 @@ export class CloudSync extends EventEmitter {
 				stripped[uuid].uptime = deviceState.uptime;
 			}
 			
+			// Keep per-service samples and events, they are history the API stores
+			if (deviceState.service_metrics?.length) {
+				stripped[uuid].service_metrics = deviceState.service_metrics;
+			}
+			if (deviceState.service_events?.length) {
+				stripped[uuid].service_events = deviceState.service_events;
+			}
+			
 			// Strip top_processes (most verbose: 10 processes × 4 fields = 40 fields per report)
 			// When queue has multiple reports, this becomes huge waste
 			// The API doesn't need historical top_processes - only latest matters
@@ -1081,7 +1108,9 @@ export class CloudSync extends EventEmitter {
 	
 	// Determine if we should report
 	// Report if: there are changes in state OR we need to send metrics OR it's first report
-	const shouldReport = Object.keys(diff).length > 0 || includeMetrics || configChanged || healthChanged;
+	// OR a service was OOM-killed or restarted
+	const hasServiceEvents = this.serviceMetrics?.hasEvents() ?? false;
+	const shouldReport = Object.keys(diff).length > 0 || includeMetrics || configChanged || healthChanged || hasServiceEvents;
 	
 	if (!shouldReport) {
 		// No changes to report
@@ -1130,6 +1159,18 @@ export class CloudSync extends EventEmitter {
 		reportToSend[deviceInfo.uuid].local_ip = stateReport[deviceInfo.uuid].local_ip;
 	}
 	
+	// Add per-service samples on the metrics cycle, events as soon as they happen
+	// (both are drained, a failed send keeps them in the queued report)
+	if (includeMetrics && this.serviceMetrics) {
+		const samples = this.serviceMetrics.drainSamples();
+		if (samples.length > 0) {
+			reportToSend[deviceInfo.uuid].service_metrics = samples;
+		}
+	}
+	if (hasServiceEvents) {
+		reportToSend[deviceInfo.uuid].service_events = this.serviceMetrics!.drainEvents();
+	}
+	
 	// Add sensor health if available and metrics cycle
 	if (includeMetrics && (stateReport[deviceInfo.uuid] as any).sensor_health) {
 		(reportToSend[deviceInfo.uuid] as any).sensor_health = (stateReport[deviceInfo.uuid] as any).sensor_health;
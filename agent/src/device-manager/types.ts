@@ -30,6 +30,30 @@ export interface DeviceInfo {
 	mqttBrokerUrl?: string;
 	mqttBrokerConfig?: MqttBrokerConfig; // TLS configuration from provisioning
 	apiTlsConfig?: ApiTlsConfig;         // API HTTPS TLS configuration
+	clientCertificate?: ClientCertificate; // mTLS identity signed by the fleet CA
+}
+
+/**
+ * Client certificate of the device (mTLS to API and MQTT broker)
+ */
+export interface ClientCertificate {
+	certificate: string;    // PEM, signed by the fleet CA
+	privateKey: string;     // PEM, generated on the device
+	caCertificate: string;  // Fleet CA (PEM)
+	serialNumber: string;
+	fingerprint: string;    // SHA-256, lowercase hex
+	notAfter: string;       // ISO timestamp
+}
+
+/**
+ * Certificate issued by the API for a CSR
+ */
+export interface IssuedCertificate {
+	certificate: string;
+	caCertificate: string;
+	serialNumber: string;
+	fingerprint: string;
+	notAfter: string;
 }
 
 export interface MqttBrokerConfig {
@@ -81,6 +105,7 @@ export interface ProvisionRequest {
 	macAddress?: string;
 	osVersion?: string;
 	agentVersion?: string;
+	csr?: string;                  // PEM CSR for a client certificate
 }
 
 export interface ProvisionResponse {
@@ -107,6 +132,7 @@ export interface ProvisionResponse {
 		ipAddress: string;
 		wgConfig: string;  // Complete WireGuard config file content
 	}
+	certificate?: IssuedCertificate;  // Present when the CSR was signed (fleet CA configured)
 	createdAt: string;
 }
 
@@ -1,11 +1,20 @@
 /**
  * K3S ORCHESTRATOR DRIVER
  * ========================
- * 
+ *
  * K3s (Lightweight Kubernetes) implementation of the orchestrator driver interface.
  * Provides container orchestration using Kubernetes APIs.
- * 
- * NOTE: This is a skeleton implementation. Full K3s support requires:
+ *
+ * Mapping from our ServiceConfig model:
+ * - Service  -> Deployment (1 replica, 0 when state is 'stopped')
+ * - Volume   -> PersistentVolumeClaim (bind mounts become hostPath volumes)
+ * - Network  -> NetworkPolicy (pods on the same network may talk to each other)
+ * - Probes   -> Pod liveness/readiness/startup probes
+ * - Compose runtime options -> securityContext (privileged, cap_add/cap_drop, numeric user),
+ *   hostPath devices, memory emptyDir tmpfs, hostAliases (extra_hosts)
+ * - Metrics  -> metrics.k8s.io API (metrics-server, bundled with K3s)
+ *
+ * Requirements:
  * 1. npm install @kubernetes/client-node
  * 2. K3s installed on the device
  * 3. Valid kubeconfig access
@@ -16,8 +25,11 @@ import { BaseOrchestratorDriver } from './types';
 import type {
 	TargetState,
 	CurrentState,
+	AppConfig,
 	ServiceConfig,
 	ServiceStatus,
+	ServiceError,
+	HealthProbe,
 	LogStreamOptions,
 	ContainerMetrics,
 	ReconciliationResult,
@@ -25,17 +37,49 @@ import type {
 	VolumeConfig
 } from './types';
 import type { AgentLogger } from '../logging/agent-logger';
+import { runtimeOptionChanges, RuntimeOptions } from '../compose/container-config';
 
 // K8s types - imported dynamically to handle CommonJS/ESM compatibility
 type KubeConfig = any;
 type CoreV1Api = any;
 type AppsV1Api = any;
+type NetworkingV1Api = any;
+type CustomObjectsApi = any;
+
+/**
+ * Kubernetes API clients used by the driver
+ * Can be passed in config to skip kubeconfig loading (e.g., tests)
+ */
+export interface K3sApiClients {
+	coreV1Api: CoreV1Api;
+	appsV1Api: AppsV1Api;
+	networkingV1Api: NetworkingV1Api;
+	customObjectsApi: CustomObjectsApi;
+}
+
+const MANAGED_BY_LABEL = 'managed-by';
+const MANAGED_BY_VALUE = 'iotistic-agent';
+const NETWORK_NAME_LABEL = 'iotistic.io/network-name';
+const VOLUME_NAME_LABEL = 'iotistic.io/volume-name';
+const NETWORK_MEMBER_LABEL_PREFIX = 'network.iotistic.io/';
+const VOLUMES_ANNOTATION = 'iotistic.io/volumes';
+const NETWORKS_ANNOTATION = 'iotistic.io/networks';
+const RUNTIME_OPTIONS_ANNOTATION = 'iotistic.io/runtime-options';
+
+const DEFAULT_VOLUME_SIZE = '1Gi';
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 10000;
+
+// Container waiting reasons reported as service errors (same as Docker driver)
+const SERVICE_ERROR_REASONS: ReadonlySet<string> = new Set(['ImagePullBackOff', 'ErrImagePull', 'CrashLoopBackOff']);
 
 /**
  * K3s driver implementation
- * 
+ *
  * This driver translates our ServiceConfig format into Kubernetes manifests
  * and manages workloads using the Kubernetes API.
+ *
+ * Events emitted (in addition to base driver events):
+ * - 'health-changed': { serviceName, health } while health monitoring is active
  */
 export class K3sDriver extends BaseOrchestratorDriver {
 	readonly name = 'k3s';
@@ -44,24 +88,39 @@ export class K3sDriver extends BaseOrchestratorDriver {
 	private kubeconfigPath: string;
 	private namespace: string;
 	private inCluster: boolean;
-	
+	private healthCheckIntervalMs: number;
+
 	// K8s client instances (will be initialized in init())
 	private k8sApi: KubeConfig;
 	private coreV1Api: CoreV1Api;
 	private appsV1Api: AppsV1Api;
-	
+	private networkingV1Api: NetworkingV1Api;
+	private customObjectsApi: CustomObjectsApi;
+	private injectedClients?: K3sApiClients;
+
+	// Health monitoring state
+	private healthMonitors = new Map<string, NodeJS.Timeout>();
+	private lastHealth = new Map<string, 'healthy' | 'unhealthy'>();
+
+	// Node capacity cache (for metrics percentages)
+	private nodeCapacity = new Map<string, { cpu?: number; memory?: number }>();
+
 	// Target state for reconciliation (inherited from base class)
 
 	constructor(logger?: AgentLogger, config?: {
 		kubeconfigPath?: string;
 		namespace?: string;
 		inCluster?: boolean;
+		healthCheckIntervalMs?: number;
+		clients?: K3sApiClients;
 	}) {
 		super(logger);
-		
+
 		this.kubeconfigPath = config?.kubeconfigPath || '/etc/rancher/k3s/k3s.yaml';
 		this.namespace = config?.namespace || 'iotistic';
 		this.inCluster = config?.inCluster || false;
+		this.healthCheckIntervalMs = config?.healthCheckIntervalMs || DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+		this.injectedClients = config?.clients;
 	}
 
 	async init(): Promise<void> {
@@ -72,22 +131,31 @@ export class K3sDriver extends BaseOrchestratorDriver {
 		});
 
 		try {
-			// Dynamic import to handle optional @kubernetes/client-node dependency
-			// @ts-ignore - Package may not be installed
-			const k8s = await import('@kubernetes/client-node');
-			
-			// Initialize kubeconfig
-			this.k8sApi = new k8s.KubeConfig();
-			
-			if (this.inCluster) {
-				this.k8sApi.loadFromCluster();
+			if (this.injectedClients) {
+				this.coreV1Api = this.injectedClients.coreV1Api;
+				this.appsV1Api = this.injectedClients.appsV1Api;
+				this.networkingV1Api = this.injectedClients.networkingV1Api;
+				this.customObjectsApi = this.injectedClients.customObjectsApi;
 			} else {
-				this.k8sApi.loadFromFile(this.kubeconfigPath);
-			}
+				// Dynamic import to handle optional @kubernetes/client-node dependency
+				// @ts-ignore - Package may not be installed
+				const k8s = await import('@kubernetes/client-node');
+
+				// Initialize kubeconfig
+				this.k8sApi = new k8s.KubeConfig();
+
+				if (this.inCluster) {
+					this.k8sApi.loadFromCluster();
+				} else {
+					this.k8sApi.loadFromFile(this.kubeconfigPath);
+				}
 
-			// Create API clients
-			this.coreV1Api = this.k8sApi.makeApiClient(k8s.CoreV1Api);
-			this.appsV1Api = this.k8sApi.makeApiClient(k8s.AppsV1Api);
+				// Create API clients
+				this.coreV1Api = this.k8sApi.makeApiClient(k8s.CoreV1Api);
+				this.appsV1Api = this.k8sApi.makeApiClient(k8s.AppsV1Api);
+				this.networkingV1Api = this.k8sApi.makeApiClient(k8s.NetworkingV1Api);
+				this.customObjectsApi = this.k8sApi.makeApiClient(k8s.CustomObjectsApi);
+			}
 
 			// Verify connection
 			await this.verifyConnection();
@@ -105,7 +173,7 @@ export class K3sDriver extends BaseOrchestratorDriver {
 
 	private async verifyConnection(): Promise<void> {
 		this.log('debug', 'Verifying K3s connection');
-		
+
 		try {
 			// Try to list namespaces to verify connection
 			await this.coreV1Api.listNamespace();
@@ -117,15 +185,15 @@ export class K3sDriver extends BaseOrchestratorDriver {
 
 	private async ensureNamespace(): Promise<void> {
 		this.log('debug', 'Ensuring namespace exists', { namespace: this.namespace });
-		
+
 		try {
 			await this.coreV1Api.readNamespace(this.namespace);
 			this.log('debug', 'Namespace exists');
 		} catch (error: any) {
-			if (error.statusCode === 404) {
+			if (isNotFound(error)) {
 				// Namespace doesn't exist, create it
 				this.log('info', 'Creating namespace', { namespace: this.namespace });
-				
+
 				await this.coreV1Api.createNamespace({
 					metadata: {
 						name: this.namespace,
@@ -143,39 +211,52 @@ export class K3sDriver extends BaseOrchestratorDriver {
 
 	async shutdown(): Promise<void> {
 		this.log('info', 'Shutting down K3s driver');
-		
-		// No persistent connections to close
-		
+
+		// Stop health monitors (no persistent API connections to close)
+		for (const timer of this.healthMonitors.values()) {
+			clearInterval(timer);
+		}
+		this.healthMonitors.clear();
+		this.lastHealth.clear();
+
 		this.ready = false;
 		this.log('info', 'K3s driver shut down');
 	}
 
+	/**
+	 * Unwrap API response (@kubernetes/client-node < 1.0 returns { response, body })
+	 */
+	private body<T = any>(response: any): T {
+		return response?.body ?? response;
+	}
+
 	async getCurrentState(): Promise<CurrentState> {
 		this.log('debug', 'Getting current state from K3s');
-		
+
 		try {
-			// List all deployments in namespace
+			// List all deployments and their pods in namespace
 			const deploymentsResponse = await this.appsV1Api.listNamespacedDeployment(
 				this.namespace
 			);
+			const pods = await this.listServicePods();
+
+			// Convert K8s deployments to our format (keyed by appId, like the Docker driver)
+			const apps: Record<string, AppConfig> = {};
 
-			// Convert K8s deployments to our format
-			const apps: Record<string, any> = {};
-			
-			for (const deployment of deploymentsResponse.body.items) {
-				const appName = deployment.metadata.labels?.['app'] || deployment.metadata.name;
-				
-				if (!apps[appName]) {
-					apps[appName] = {
-						appId: 0, // Would need to extract from labels
-						appName,
+			for (const deployment of this.body(deploymentsResponse).items) {
+				const servicePods = pods.filter(pod => pod.metadata?.labels?.['service'] === deployment.metadata.name);
+				const service = this.deploymentToService(deployment, servicePods);
+				const appKey = String(service.appId);
+
+				if (!apps[appKey]) {
+					apps[appKey] = {
+						appId: service.appId,
+						appName: service.appName,
 						services: []
 					};
 				}
 
-				// Convert deployment to service
-				const service = await this.deploymentToService(deployment);
-				apps[appName].services.push(service);
+				apps[appKey].services.push(service);
 			}
 
 			return {
@@ -188,28 +269,135 @@ export class K3sDriver extends BaseOrchestratorDriver {
 		}
 	}
 
-	private async deploymentToService(deployment: any): Promise<ServiceConfig> {
-		// Convert K8s Deployment to our ServiceConfig format
-		const container = deployment.spec.template.spec.containers[0];
-		return {
+	private deploymentToService(deployment: any, pods: any[]): ServiceConfig {
+		// Convert K8s Deployment (+ its pods) to our ServiceConfig format
+		const podSpec = deployment.spec.template.spec;
+		const container = podSpec.containers[0];
+		const annotations = deployment.metadata.annotations || {};
+		const replicas = deployment.spec.replicas ?? 1;
+		const status = this.podsToStatus(replicas, pods);
+		const error = this.podsToError(pods, status.restartCount || 0);
+
+		let serviceStatus: ServiceConfig['serviceStatus'];
+		if (error) {
+			serviceStatus = 'error';
+		} else if (replicas === 0) {
+			serviceStatus = 'stopped';
+		} else if (status.state === 'running') {
+			serviceStatus = 'running';
+		} else {
+			serviceStatus = 'pending';
+		}
+
+		const service: ServiceConfig = {
 			serviceId: parseInt(deployment.metadata.labels?.['service-id'] || '0'),
 			serviceName: deployment.metadata.name,
 			imageName: container.image,
 			appId: parseInt(deployment.metadata.labels?.['app-id'] || '0'),
 			appName: deployment.metadata.labels?.['app'] || deployment.metadata.name,
+			state: replicas === 0 ? 'stopped' : 'running',
 			config: {
 				image: container.image,
 				environment: this.envArrayToObject(container.env || []),
-				// ... other fields
-			},
-			status: {
-				state: deployment.status?.availableReplicas > 0 ? 'running' : 'stopped',
-				restartCount: deployment.status?.replicas || 0
+				ports: (container.ports || []).map((port: any) => `${port.hostPort ?? port.containerPort}:${port.containerPort}`),
+				volumes: parseJsonList(annotations[VOLUMES_ANNOTATION]),
+				networks: parseJsonList(annotations[NETWORKS_ANNOTATION]),
+				restart: 'always', // Deployment pods are always restarted
+				entrypoint: container.command,
+				command: container.args,
+				workingDir: container.workingDir,
+				hostname: podSpec.hostname,
+				...parseRuntimeOptionsAnnotation(annotations[RUNTIME_OPTIONS_ANNOTATION]),
+				resources: container.resources && (container.resources.limits || container.resources.requests)
+					? { limits: container.resources.limits, requests: container.resources.requests }
+					: undefined,
+				livenessProbe: this.probeFromK8s(container.livenessProbe),
+				readinessProbe: this.probeFromK8s(container.readinessProbe),
+				startupProbe: this.probeFromK8s(container.startupProbe)
 			},
-			containerId: deployment.metadata.uid
+			status,
+			serviceStatus,
+			containerId: this.containerIdOf(pods[0]) || deployment.metadata.uid
+		};
+
+		if (error) {
+			service.error = error;
+		}
+
+		return service;
+	}
+
+	/**
+	 * Derive service status from the deployment's pods
+	 */
+	private podsToStatus(replicas: number, pods: any[]): ServiceStatus {
+		const containerStatuses = pods.flatMap(pod => pod.status?.containerStatuses || []);
+		const restartCount = containerStatuses.reduce((sum: number, s: any) => sum + (s.restartCount || 0), 0);
+		const running = containerStatuses.find((s: any) => s.state?.running);
+		const waiting = containerStatuses.find((s: any) => s.state?.waiting)?.state.waiting;
+		const terminated = containerStatuses.find((s: any) => s.state?.terminated)?.state.terminated;
+
+		if (replicas === 0) {
+			return { state: 'stopped', restartCount, health: 'unknown' };
+		}
+
+		let state: ServiceStatus['state'];
+		if (running) {
+			state = 'running';
+		} else if (waiting && SERVICE_ERROR_REASONS.has(waiting.reason)) {
+			state = 'error';
+		} else if (terminated) {
+			state = 'stopped';
+		} else {
+			state = 'creating';
+		}
+
+		let health: ServiceStatus['health'] = 'unknown';
+		if (pods.some(isPodReady)) {
+			health = 'healthy';
+		} else if (running) {
+			health = containerStatuses.some((s: any) => s.started === false) ? 'starting' : 'unhealthy';
+		} else if (pods.length > 0) {
+			health = 'unhealthy';
+		}
+
+		return {
+			state,
+			startedAt: running?.state.running.startedAt ? new Date(running.state.running.startedAt) : undefined,
+			finishedAt: terminated?.finishedAt ? new Date(terminated.finishedAt) : undefined,
+			exitCode: terminated?.exitCode,
+			restartCount,
+			health,
+			message: waiting?.message || waiting?.reason
 		};
 	}
 
+	/**
+	 * Map container waiting reasons (image pull, crash loop) to a service error
+	 */
+	private podsToError(pods: any[], restartCount: number): ServiceError | undefined {
+		for (const pod of pods) {
+			for (const containerStatus of pod.status?.containerStatuses || []) {
+				const waiting = containerStatus.state?.waiting;
+				if (waiting && SERVICE_ERROR_REASONS.has(waiting.reason)) {
+					return {
+						type: waiting.reason,
+						message: waiting.message || waiting.reason,
+						timestamp: new Date().toISOString(),
+						retryCount: restartCount
+					};
+				}
+			}
+		}
+		return undefined;
+	}
+
+	private containerIdOf(pod: any): string | undefined {
+		const containerId: string | undefined = pod?.status?.containerStatuses?.[0]?.containerID;
+		// Strip runtime prefix (containerd://, docker://)
+		return containerId?.replace(/^[a-z]+:\/\//, '');
+	}
+
 	private envArrayToObject(envArray: Array<{ name: string; value?: string }>): Record<string, string> {
 		const env: Record<string, string> = {};
 		for (const item of envArray) {
@@ -222,7 +410,7 @@ export class K3sDriver extends BaseOrchestratorDriver {
 
 	async reconcile(): Promise<ReconciliationResult> {
 		this.log('info', 'Reconciling K3s state');
-		
+
 		const errors: Array<{ serviceName: string; error: string }> = [];
 		let servicesCreated = 0;
 		let servicesUpdated = 0;
@@ -244,18 +432,18 @@ export class K3sDriver extends BaseOrchestratorDriver {
 
 			// Get current state from K3s
 			const currentState = await this.getCurrentState();
-			
+
 			// Build maps for comparison
 			const currentServices = new Map<string, ServiceConfig>();
 			const targetServices = new Map<string, ServiceConfig>();
-			
+
 			// Index current services by serviceId
 			for (const app of Object.values(currentState.apps)) {
 				for (const service of app.services) {
 					currentServices.set(String(service.serviceId), service);
 				}
 			}
-			
+
 			// Index target services by serviceId
 			const targetApps = this.targetState.local?.apps || {};
 			for (const app of Object.values(targetApps)) {
@@ -263,12 +451,17 @@ export class K3sDriver extends BaseOrchestratorDriver {
 					targetServices.set(String(service.serviceId), service);
 				}
 			}
-			
+
+			// Networks and volumes must exist before pods reference them
+			const targetNetworks = this.collectTargetNetworks(targetApps);
+			const targetVolumes = this.collectTargetVolumes(targetApps);
+			await this.createMissingResources(targetNetworks, targetVolumes, errors);
+
 			// Find services to add or update
 			for (const [serviceId, targetService] of targetServices) {
 				try {
 					const currentService = currentServices.get(serviceId);
-					
+
 					if (!currentService) {
 						// Service doesn't exist - create it
 						this.log('debug', 'Adding new service', { serviceName: targetService.serviceName });
@@ -281,10 +474,10 @@ export class K3sDriver extends BaseOrchestratorDriver {
 						servicesUpdated++;
 					}
 				} catch (error) {
-					this.log('error', 'Failed to reconcile service', { 
-						serviceId, 
-						serviceName: targetService.serviceName, 
-						error 
+					this.log('error', 'Failed to reconcile service', {
+						serviceId,
+						serviceName: targetService.serviceName,
+						error
 					});
 					errors.push({
 						serviceName: targetService.serviceName,
@@ -292,7 +485,7 @@ export class K3sDriver extends BaseOrchestratorDriver {
 					});
 				}
 			}
-			
+
 			// Find services to remove
 			for (const [serviceId, currentService] of currentServices) {
 				if (!targetServices.has(serviceId)) {
@@ -301,10 +494,10 @@ export class K3sDriver extends BaseOrchestratorDriver {
 						await this.removeService(currentService.serviceName);
 						servicesRemoved++;
 					} catch (error) {
-						this.log('error', 'Failed to remove service', { 
-							serviceId, 
-							serviceName: currentService.serviceName, 
-							error 
+						this.log('error', 'Failed to remove service', {
+							serviceId,
+							serviceName: currentService.serviceName,
+							error
 						});
 						errors.push({
 							serviceName: currentService.serviceName,
@@ -313,7 +506,10 @@ export class K3sDriver extends BaseOrchestratorDriver {
 					}
 				}
 			}
-			
+
+			// Remove networks/volumes no longer referenced (after their pods are gone)
+			await this.removeOrphanedResources(targetNetworks, targetVolumes, errors);
+
 			const result: ReconciliationResult = {
 				success: errors.length === 0,
 				servicesCreated,
@@ -325,52 +521,189 @@ export class K3sDriver extends BaseOrchestratorDriver {
 
 			this.log('info', 'Reconciliation complete', result);
 			this.emit('reconciliation-complete', result);
-			
+
 			return result;
-			
+
 		} catch (error) {
 			this.log('error', 'Reconciliation failed', { error });
 			throw error;
 		}
 	}
 
+	/**
+	 * Networks of all target apps (declared + referenced by services), keyed by full name
+	 */
+	private collectTargetNetworks(apps: Record<string, AppConfig>): Map<string, NetworkConfig> {
+		const networks = new Map<string, NetworkConfig>();
+
+		for (const app of Object.values(apps)) {
+			const declared = Array.isArray(app.networks) ? app.networks : [];
+			for (const network of declared) {
+				const fullName = `${app.appId}_${network.name}`;
+				networks.set(fullName, { ...network, name: fullName });
+			}
+			for (const service of app.services) {
+				for (const networkName of service.config.networks || []) {
+					const fullName = `${app.appId}_${networkName}`;
+					if (!networks.has(fullName)) {
+						networks.set(fullName, { name: fullName });
+					}
+				}
+			}
+		}
+
+		return networks;
+	}
+
+	/**
+	 * Named volumes of all target apps (declared + referenced by services), keyed by full name
+	 * Bind mounts ("/host/path:/container/path") are not volumes
+	 */
+	private collectTargetVolumes(apps: Record<string, AppConfig>): Map<string, VolumeConfig> {
+		const volumes = new Map<string, VolumeConfig>();
+
+		for (const app of Object.values(apps)) {
+			const declared = Array.isArray(app.volumes) ? app.volumes : [];
+			for (const volume of declared) {
+				const fullName = `${app.appId}_${volume.name}`;
+				volumes.set(fullName, { ...volume, name: fullName });
+			}
+			for (const service of app.services) {
+				for (const volume of service.config.volumes || []) {
+					const source = volume.split(':')[0];
+					if (!source || source.startsWith('/')) {
+						continue;
+					}
+					const fullName = `${app.appId}_${source}`;
+					if (!volumes.has(fullName)) {
+						volumes.set(fullName, { name: fullName });
+					}
+				}
+			}
+		}
+
+		return volumes;
+	}
+
+	private async createMissingResources(
+		targetNetworks: Map<string, NetworkConfig>,
+		targetVolumes: Map<string, VolumeConfig>,
+		errors: Array<{ serviceName: string; error: string }>
+	): Promise<void> {
+		const currentNetworks = new Set((await this.listNetworks()).map(n => n.name));
+		const currentVolumes = new Set((await this.listVolumes()).map(v => v.name));
+
+		for (const [name, network] of targetNetworks) {
+			if (currentNetworks.has(name)) continue;
+			try {
+				await this.createNetwork(network);
+			} catch (error) {
+				errors.push({ serviceName: name, error: error instanceof Error ? error.message : String(error) });
+			}
+		}
+
+		for (const [name, volume] of targetVolumes) {
+			if (currentVolumes.has(name)) continue;
+			try {
+				await this.createVolume(volume);
+			} catch (error) {
+				errors.push({ serviceName: name, error: error instanceof Error ? error.message : String(error) });
+			}
+		}
+	}
+
+	private async removeOrphanedResources(
+		targetNetworks: Map<string, NetworkConfig>,
+		targetVolumes: Map<string, VolumeConfig>,
+		errors: Array<{ serviceName: string; error: string }>
+	): Promise<void> {
+		for (const network of await this.listNetworks()) {
+			if (targetNetworks.has(network.name)) continue;
+			try {
+				await this.removeNetwork(network.name);
+			} catch (error) {
+				errors.push({ serviceName: network.name, error: error instanceof Error ? error.message : String(error) });
+			}
+		}
+
+		for (const volume of await this.listVolumes()) {
+			if (targetVolumes.has(volume.name)) continue;
+			try {
+				await this.removeVolume(volume.name);
+			} catch (error) {
+				errors.push({ serviceName: volume.name, error: error instanceof Error ? error.message : String(error) });
+			}
+		}
+	}
+
 	private needsUpdate(current: ServiceConfig, target: ServiceConfig): boolean {
 		// Check if image changed
 		if (current.config.image !== target.config.image) {
 			return true;
 		}
-		
+
 		// Check if environment variables changed
 		const currentEnv = JSON.stringify(current.config.environment || {});
 		const targetEnv = JSON.stringify(target.config.environment || {});
 		if (currentEnv !== targetEnv) {
 			return true;
 		}
-		
+
 		// Check if ports changed
 		const currentPorts = JSON.stringify(current.config.ports || []);
 		const targetPorts = JSON.stringify(target.config.ports || []);
 		if (currentPorts !== targetPorts) {
 			return true;
 		}
-		
+
+		// Check if volumes or networks changed
+		if (JSON.stringify(current.config.volumes || []) !== JSON.stringify(target.config.volumes || [])) {
+			return true;
+		}
+		if (JSON.stringify(current.config.networks || []) !== JSON.stringify(target.config.networks || [])) {
+			return true;
+		}
+
+		// Check if desired state changed (stopped = 0 replicas)
+		if ((current.state === 'stopped') !== (target.state === 'stopped')) {
+			return true;
+		}
+
+		// Check if probes changed (compare K8s form, which fills in defaults)
+		for (const probe of ['livenessProbe', 'readinessProbe', 'startupProbe'] as const) {
+			if (JSON.stringify(this.probeToK8s(current.config[probe])) !== JSON.stringify(this.probeToK8s(target.config[probe]))) {
+				return true;
+			}
+		}
+
+		// Check if resource limits changed (API server normalizes quantities, compare values)
+		if (!resourcesEqual(current.config.resources, target.config.resources)) {
+			return true;
+		}
+
+		// Check if compose runtime options changed (command, devices, privileged, ...)
+		if (runtimeOptionChanges(current.config, target.config).length > 0) {
+			return true;
+		}
+
 		return false;
 	}
 
 	private async updateService(service: ServiceConfig): Promise<void> {
 		this.log('debug', 'Updating K3s deployment', { serviceName: service.serviceName });
-		
+
 		try {
 			// Convert to deployment manifest
 			const deployment = this.serviceToDeployment(service);
-			
+
 			// Update the deployment
 			await this.appsV1Api.replaceNamespacedDeployment(
 				service.serviceName,
 				this.namespace,
 				deployment
 			);
-			
+			await this.applyPublishedPortsPolicy(service);
+
 			this.log('info', 'Service updated successfully', { serviceName: service.serviceName });
 		} catch (error) {
 			this.log('error', 'Failed to update service', { serviceName: service.serviceName, error });
@@ -380,17 +713,18 @@ export class K3sDriver extends BaseOrchestratorDriver {
 
 	async createService(service: ServiceConfig): Promise<string> {
 		this.log('info', 'Creating K3s service', { serviceName: service.serviceName });
-		
+
 		// Convert ServiceConfig to K8s Deployment manifest
 		const deployment = this.serviceToDeployment(service);
-		
+
 		try {
 			const response = await this.appsV1Api.createNamespacedDeployment(
 				this.namespace,
 				deployment
 			);
-			
-			return response.body.metadata.uid;
+			await this.applyPublishedPortsPolicy(service);
+
+			return this.body(response).metadata.uid;
 		} catch (error) {
 			this.log('error', 'Failed to create service', { service: service.serviceName, error });
 			throw error;
@@ -398,6 +732,15 @@ export class K3sDriver extends BaseOrchestratorDriver {
 	}
 
 	private serviceToDeployment(service: ServiceConfig): any {
+		const { volumes, volumeMounts } = this.parseVolumesForK8s(service);
+		const runtime = this.parseRuntimeOptionsForK8s(service);
+		volumes.push(...runtime.volumes);
+		volumeMounts.push(...runtime.volumeMounts);
+		const networkLabels: Record<string, string> = {};
+		for (const networkName of service.config.networks || []) {
+			networkLabels[networkMemberLabel(`${service.appId}_${networkName}`)] = 'true';
+		}
+
 		// Convert our ServiceConfig to K8s Deployment manifest
 		return {
 			apiVersion: 'apps/v1',
@@ -411,10 +754,17 @@ export class K3sDriver extends BaseOrchestratorDriver {
 					'app-id': String(service.appId),
 					'service-id': String(service.serviceId),
 					'managed-by': 'iotistic-agent'
+				},
+				// Original volume/network names (K8s names are sanitized)
+				annotations: {
+					[VOLUMES_ANNOTATION]: JSON.stringify(service.config.volumes || []),
+					[NETWORKS_ANNOTATION]: JSON.stringify(service.config.networks || []),
+					// Compose options without a lossless K8s form (user names, logging, depends_on)
+					[RUNTIME_OPTIONS_ANNOTATION]: JSON.stringify(runtimeOptionsOf(service.config))
 				}
 			},
 			spec: {
-				replicas: 1,
+				replicas: service.state === 'stopped' ? 0 : 1,
 				selector: {
 					matchLabels: {
 						'service': service.serviceName
@@ -424,15 +774,26 @@ export class K3sDriver extends BaseOrchestratorDriver {
 					metadata: {
 						labels: {
 							'app': service.appName,
-							'service': service.serviceName
+							'service': service.serviceName,
+							'managed-by': 'iotistic-agent',
+							...networkLabels
 						}
 					},
 					spec: {
+						hostname: service.config.hostname,
+						hostAliases: runtime.hostAliases,
+						volumes: volumes.length > 0 ? volumes : undefined,
 						containers: [{
 							name: service.serviceName,
 							image: service.config.image,
+							// Docker entrypoint/command = K8s command/args
+							command: service.config.entrypoint,
+							args: service.config.command,
+							workingDir: service.config.workingDir,
+							securityContext: runtime.securityContext,
 							env: this.envObjectToArray(service.config.environment || {}),
 							ports: this.parsePortsForK8s(service.config.ports || []),
+							volumeMounts: volumeMounts.length > 0 ? volumeMounts : undefined,
 							resources: this.parseResourcesForK8s(service.config.resources),
 							// Health probes
 							livenessProbe: this.probeToK8s(service.config.livenessProbe),
@@ -449,17 +810,124 @@ export class K3sDriver extends BaseOrchestratorDriver {
 		return Object.entries(env).map(([name, value]) => ({ name, value }));
 	}
 
-	private parsePortsForK8s(ports: string[]): Array<{ containerPort: number; protocol?: string }> {
-		// Parse "80:80" format to K8s format
+	private parsePortsForK8s(ports: string[]): Array<{ containerPort: number; hostPort?: number; protocol?: string }> {
+		// Parse "8080:80" format to K8s format (host port published like Docker)
 		return ports.map(portStr => {
-			const [, containerPort] = portStr.split(':');
+			const [hostPort, containerPort = hostPort] = portStr.split(':');
 			return {
 				containerPort: parseInt(containerPort),
+				hostPort: parseInt(hostPort),
 				protocol: 'TCP'
 			};
 		});
 	}
 
+	/**
+	 * Parse "source:/path[:ro]" volumes into pod volumes and mounts
+	 * Named volumes use the app's PVC, absolute paths are hostPath bind mounts
+	 */
+	private parseVolumesForK8s(service: ServiceConfig): { volumes: any[]; volumeMounts: any[] } {
+		const volumes: any[] = [];
+		const volumeMounts: any[] = [];
+
+		(service.config.volumes || []).forEach((volumeStr, index) => {
+			const [source, mountPath, mode] = volumeStr.split(':');
+			if (!source || !mountPath) {
+				this.log('warn', 'Ignoring invalid volume', { serviceName: service.serviceName, volume: volumeStr });
+				return;
+			}
+
+			const name = `vol-${index}`;
+			volumeMounts.push({ name, mountPath, ...(mode === 'ro' && { readOnly: true }) });
+
+			if (source.startsWith('/')) {
+				volumes.push({ name, hostPath: { path: source } });
+			} else {
+				volumes.push({ name, persistentVolumeClaim: { claimName: toK8sName(`${service.appId}_${source}`) } });
+			}
+		});
+
+		return { volumes, volumeMounts };
+	}
+
+	/**
+	 * Map compose runtime options onto the pod spec
+	 * - devices: hostPath mounts (device access needs privileged on most clusters)
+	 * - tmpfs: memory-backed emptyDir volumes
+	 * - extra_hosts: hostAliases grouped by IP
+	 * - user: runAsUser/runAsGroup when numeric (named users need a numeric UID in K8s)
+	 * - logging is node-level in K8s and is only kept in the annotation
+	 */
+	private parseRuntimeOptionsForK8s(service: ServiceConfig): {
+		volumes: any[];
+		volumeMounts: any[];
+		securityContext?: any;
+		hostAliases?: Array<{ ip: string; hostnames: string[] }>;
+	} {
+		const config = service.config;
+		const volumes: any[] = [];
+		const volumeMounts: any[] = [];
+
+		(config.devices || []).forEach((device, index) => {
+			const [hostPath, containerPath = hostPath] = device.split(':');
+			const name = `dev-${index}`;
+			volumes.push({ name, hostPath: { path: hostPath } });
+			volumeMounts.push({ name, mountPath: containerPath });
+		});
+
+		(config.tmpfs || []).forEach((entry, index) => {
+			const [mountPath, options = ''] = entry.split(':');
+			const size = options.split(',').find(option => option.startsWith('size='))?.slice('size='.length);
+			const name = `tmpfs-${index}`;
+			volumes.push({ name, emptyDir: { medium: 'Memory', ...(size && { sizeLimit: tmpfsSizeToQuantity(size) }) } });
+			volumeMounts.push({ name, mountPath });
+		});
+
+		let hostAliases: Array<{ ip: string; hostnames: string[] }> | undefined;
+		if (config.extraHosts && config.extraHosts.length > 0) {
+			const byIp = new Map<string, string[]>();
+			for (const entry of config.extraHosts) {
+				const index = entry.indexOf(':');
+				const hostname = entry.slice(0, index);
+				const ip = entry.slice(index + 1);
+				byIp.set(ip, [...(byIp.get(ip) || []), hostname]);
+			}
+			hostAliases = Array.from(byIp, ([ip, hostnames]) => ({ ip, hostnames }));
+		}
+
+		const securityContext: any = {};
+		if (config.privileged) {
+			securityContext.privileged = true;
+		}
+		if (config.capAdd?.length || config.capDrop?.length) {
+			securityContext.capabilities = {
+				...(config.capAdd?.length && { add: config.capAdd }),
+				...(config.capDrop?.length && { drop: config.capDrop })
+			};
+		}
+		if (config.user) {
+			const [uid, gid] = config.user.split(':');
+			if (/^\d+$/.test(uid) && (gid === undefined || /^\d+$/.test(gid))) {
+				securityContext.runAsUser = parseInt(uid);
+				if (gid !== undefined) {
+					securityContext.runAsGroup = parseInt(gid);
+				}
+			} else {
+				this.log('warn', 'Ignoring non-numeric user (K8s needs a numeric UID)', {
+					serviceName: service.serviceName,
+					user: config.user
+				});
+			}
+		}
+
+		return {
+			volumes,
+			volumeMounts,
+			securityContext: Object.keys(securityContext).length > 0 ? securityContext : undefined,
+			hostAliases
+		};
+	}
+
 	private parseResourcesForK8s(resources: any): any {
 		if (!resources) return undefined;
 
@@ -487,11 +955,14 @@ export class K3sDriver extends BaseOrchestratorDriver {
 					port: probe.port || 80,
 					scheme: probe.scheme?.toUpperCase() || 'HTTP'
 				};
+				if (probe.headers) {
+					k8sProbe.httpGet.httpHeaders = Object.entries(probe.headers).map(([name, value]) => ({ name, value }));
+				}
 				break;
 
 			case 'tcp':
 				k8sProbe.tcpSocket = {
-					port: probe.tcpPort || 80
+					port: probe.tcpPort || probe.port || 80
 				};
 				break;
 
@@ -505,13 +976,101 @@ export class K3sDriver extends BaseOrchestratorDriver {
 		return k8sProbe;
 	}
 
-	// Stub implementations for remaining methods
-	
+	/**
+	 * Convert a K8s pod probe back to our HealthProbe format
+	 */
+	private probeFromK8s(k8sProbe: any): HealthProbe | undefined {
+		if (!k8sProbe) return undefined;
+
+		const probe: HealthProbe = {
+			type: 'exec',
+			initialDelaySeconds: k8sProbe.initialDelaySeconds,
+			periodSeconds: k8sProbe.periodSeconds,
+			timeoutSeconds: k8sProbe.timeoutSeconds,
+			successThreshold: k8sProbe.successThreshold,
+			failureThreshold: k8sProbe.failureThreshold
+		};
+
+		if (k8sProbe.httpGet) {
+			probe.type = 'http';
+			probe.path = k8sProbe.httpGet.path;
+			probe.port = k8sProbe.httpGet.port;
+			probe.scheme = k8sProbe.httpGet.scheme?.toLowerCase();
+			if (k8sProbe.httpGet.httpHeaders?.length) {
+				probe.headers = Object.fromEntries(
+					k8sProbe.httpGet.httpHeaders.map((h: { name: string; value: string }) => [h.name, h.value])
+				);
+			}
+		} else if (k8sProbe.tcpSocket) {
+			probe.type = 'tcp';
+			probe.tcpPort = k8sProbe.tcpSocket.port;
+		} else {
+			probe.command = k8sProbe.exec?.command || [];
+		}
+
+		return probe;
+	}
+
+	/**
+	 * Allow ingress on published ports from anywhere
+	 * Network policies would otherwise block them (Docker publishes to the host)
+	 */
+	private async applyPublishedPortsPolicy(service: ServiceConfig): Promise<void> {
+		const policyName = toK8sName(`${service.serviceName}-published-ports`);
+		const ports = this.parsePortsForK8s(service.config.ports || []);
+
+		if (ports.length === 0 || !service.config.networks?.length) {
+			await this.deleteNetworkPolicy(policyName);
+			return;
+		}
+
+		await this.applyNetworkPolicy({
+			apiVersion: 'networking.k8s.io/v1',
+			kind: 'NetworkPolicy',
+			metadata: {
+				name: policyName,
+				namespace: this.namespace,
+				labels: {
+					[MANAGED_BY_LABEL]: MANAGED_BY_VALUE,
+					'service': service.serviceName
+				}
+			},
+			spec: {
+				podSelector: { matchLabels: { 'service': service.serviceName } },
+				policyTypes: ['Ingress'],
+				ingress: [{
+					ports: ports.map(port => ({ protocol: port.protocol, port: port.containerPort }))
+				}]
+			}
+		});
+	}
+
+	private async applyNetworkPolicy(policy: any): Promise<void> {
+		try {
+			await this.networkingV1Api.createNamespacedNetworkPolicy(this.namespace, policy);
+		} catch (error: any) {
+			if (!isConflict(error)) {
+				throw error;
+			}
+			await this.networkingV1Api.replaceNamespacedNetworkPolicy(policy.metadata.name, this.namespace, policy);
+		}
+	}
+
+	private async deleteNetworkPolicy(policyName: string): Promise<void> {
+		try {
+			await this.networkingV1Api.deleteNamespacedNetworkPolicy(policyName, this.namespace);
+		} catch (error: any) {
+			if (!isNotFound(error)) {
+				throw error;
+			}
+		}
+	}
+
 	async stopService(serviceId: string, timeout?: number): Promise<void> {
 		this.log('info', 'Stopping service', { serviceId });
 		// Scale deployment to 0 replicas
 		try {
-			const deployment = await this.appsV1Api.readNamespacedDeployment(serviceId, this.namespace);
+			const deployment = this.body(await this.appsV1Api.readNamespacedDeployment(serviceId, this.namespace));
 			deployment.spec.replicas = 0;
 			await this.appsV1Api.replaceNamespacedDeployment(serviceId, this.namespace, deployment);
 			this.log('info', 'Service stopped', { serviceId });
@@ -523,14 +1082,17 @@ export class K3sDriver extends BaseOrchestratorDriver {
 
 	async removeService(serviceName: string, force?: boolean): Promise<void> {
 		this.log('info', 'Removing service', { serviceName });
-		
+
 		try {
+			await this.stopHealthMonitoring(serviceName);
+
 			// Delete the deployment
 			await this.appsV1Api.deleteNamespacedDeployment(
 				serviceName,
 				this.namespace
 			);
-			
+			await this.deleteNetworkPolicy(toK8sName(`${serviceName}-published-ports`));
+
 			this.log('info', 'Service removed successfully', { serviceName });
 		} catch (error) {
 			this.log('error', 'Failed to remove service', { serviceName, error });
@@ -542,11 +1104,11 @@ export class K3sDriver extends BaseOrchestratorDriver {
 
 	async restartService(serviceId: string, timeout?: number): Promise<void> {
 		this.log('info', 'Restarting service', { serviceId });
-		
+
 		try {
 			// Get deployment
-			const deployment = await this.appsV1Api.readNamespacedDeployment(serviceId, this.namespace);
-			
+			const deployment = this.body(await this.appsV1Api.readNamespacedDeployment(serviceId, this.namespace));
+
 			// Add restart annotation to trigger rolling update
 			if (!deployment.spec.template.metadata) {
 				deployment.spec.template.metadata = {};
@@ -555,10 +1117,10 @@ export class K3sDriver extends BaseOrchestratorDriver {
 				deployment.spec.template.metadata.annotations = {};
 			}
 			deployment.spec.template.metadata.annotations['iotistic.ca/restartedAt'] = new Date().toISOString();
-			
+
 			// Update deployment
 			await this.appsV1Api.replaceNamespacedDeployment(serviceId, this.namespace, deployment);
-			
+
 			this.log('info', 'Service restarted', { serviceId });
 		} catch (error) {
 			this.log('error', 'Failed to restart service', { serviceId, error });
@@ -568,30 +1130,12 @@ export class K3sDriver extends BaseOrchestratorDriver {
 
 	async getServiceStatus(serviceId: string): Promise<ServiceStatus> {
 		this.log('debug', 'Getting service status', { serviceId });
-		
+
 		try {
-			const deployment = await this.appsV1Api.readNamespacedDeployment(serviceId, this.namespace);
-			
-			const replicas = deployment.status?.replicas || 0;
-			const availableReplicas = deployment.status?.availableReplicas || 0;
-			const readyReplicas = deployment.status?.readyReplicas || 0;
-			
-			let state: 'running' | 'stopped' | 'creating' | 'error' | 'unknown' = 'unknown';
-			
-			if (availableReplicas === replicas && replicas > 0) {
-				state = 'running';
-			} else if (replicas === 0) {
-				state = 'stopped';
-			} else if (readyReplicas < replicas) {
-				state = 'creating';
-			} else if (deployment.status?.conditions?.some((c: any) => c.type === 'Progressing' && c.status === 'False')) {
-				state = 'error';
-			}
-			
-			return {
-				state,
-				health: availableReplicas === replicas ? 'healthy' : 'unhealthy'
-			};
+			const deployment = this.body(await this.appsV1Api.readNamespacedDeployment(serviceId, this.namespace));
+			const pods = await this.listServicePods(serviceId);
+
+			return this.podsToStatus(deployment.spec?.replicas ?? 1, pods);
 		} catch (error) {
 			this.log('error', 'Failed to get service status', { serviceId, error });
 			return {
@@ -603,43 +1147,44 @@ export class K3sDriver extends BaseOrchestratorDriver {
 
 	async listServices(): Promise<ServiceConfig[]> {
 		this.log('debug', 'Listing services');
-		
+
 		try {
-			const deploymentsResponse = await this.appsV1Api.listNamespacedDeployment(this.namespace);
-			
-			const services: ServiceConfig[] = [];
-			for (const deployment of deploymentsResponse.items) {
-				const service = await this.deploymentToService(deployment);
-				services.push(service);
-			}
-			
-			return services;
+			const currentState = await this.getCurrentState();
+			return Object.values(currentState.apps).flatMap(app => app.services);
 		} catch (error) {
 			this.log('error', 'Failed to list services', { error });
 			throw error;
 		}
 	}
 
+	/**
+	 * List pods of a service (or of all managed services)
+	 */
+	private async listServicePods(serviceName?: string): Promise<any[]> {
+		const podsResponse = await this.coreV1Api.listNamespacedPod(
+			this.namespace,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			serviceName ? `service=${serviceName}` : 'service'
+		);
+		return this.body(podsResponse).items || [];
+	}
+
 	async getServiceLogs(serviceId: string, options?: LogStreamOptions): Promise<Readable> {
 		this.log('debug', 'Getting service logs', { serviceId, options });
-		
+
 		try {
 			// Get pods for this deployment
-			const podsResponse = await this.coreV1Api.listNamespacedPod(
-				this.namespace,
-				undefined,
-				undefined,
-				undefined,
-				undefined,
-				`service=${serviceId}`
-			);
-			
-			if (podsResponse.items.length === 0) {
+			const pods = await this.listServicePods(serviceId);
+
+			if (pods.length === 0) {
 				throw new Error(`No pods found for service ${serviceId}`);
 			}
-			
+
 			// Get logs from first pod
-			const pod = podsResponse.items[0];
+			const pod = pods[0];
 			const logStream = await this.coreV1Api.readNamespacedPodLog(
 				pod.metadata!.name!,
 				this.namespace,
@@ -652,13 +1197,12 @@ export class K3sDriver extends BaseOrchestratorDriver {
 				options?.tail,
 				undefined
 			);
-			
+
 			// Convert response to Readable stream
-			const { Readable } = await import('stream');
 			const stream = new Readable();
-			stream.push(logStream as any);
+			stream.push(this.body(logStream) as any);
 			stream.push(null);
-			
+
 			return stream;
 		} catch (error) {
 			this.log('error', 'Failed to get service logs', { serviceId, error });
@@ -666,47 +1210,469 @@ export class K3sDriver extends BaseOrchestratorDriver {
 		}
 	}
 
+	/**
+	 * Health of a service as evaluated by its pod probes
+	 * (Kubernetes runs liveness/readiness/startup probes, we read the Ready condition)
+	 */
 	async executeHealthCheck(serviceId: string): Promise<{ healthy: boolean; message?: string }> {
-		throw new Error('K3s executeHealthCheck not yet implemented');
+		this.log('debug', 'Executing health check', { serviceId });
+
+		try {
+			const pods = await this.listServicePods(serviceId);
+			if (pods.length === 0) {
+				return { healthy: false, message: `No pods found for service ${serviceId}` };
+			}
+
+			const readyPods = pods.filter(isPodReady).length;
+			if (readyPods > 0) {
+				return { healthy: true, message: `${readyPods}/${pods.length} pods ready` };
+			}
+
+			const containerStatus = pods
+				.flatMap(pod => pod.status?.containerStatuses || [])
+				.find((s: any) => s.state?.waiting || !s.ready);
+			const reason = containerStatus?.state?.waiting?.reason
+				|| pods[0].status?.conditions?.find((c: any) => c.type === 'Ready')?.message;
+
+			return {
+				healthy: false,
+				message: `0/${pods.length} pods ready${reason ? `: ${reason}` : ''}`
+			};
+		} catch (error) {
+			return {
+				healthy: false,
+				message: error instanceof Error ? error.message : String(error)
+			};
+		}
 	}
 
 	async startHealthMonitoring(serviceId: string): Promise<void> {
-		throw new Error('K3s startHealthMonitoring not yet implemented');
+		if (this.healthMonitors.has(serviceId)) {
+			return;
+		}
+
+		this.log('info', 'Starting health monitoring', { serviceId });
+
+		const check = async () => {
+			const result = await this.executeHealthCheck(serviceId);
+			const health = result.healthy ? 'healthy' : 'unhealthy';
+
+			if (this.lastHealth.get(serviceId) !== health) {
+				this.lastHealth.set(serviceId, health);
+				this.emit('health-changed', { serviceName: serviceId, health, message: result.message });
+			}
+		};
+
+		this.healthMonitors.set(serviceId, setInterval(() => {
+			check().catch(error => this.log('warn', 'Health check failed', { serviceId, error }));
+		}, this.healthCheckIntervalMs));
+
+		await check();
 	}
 
 	async stopHealthMonitoring(serviceId: string): Promise<void> {
-		throw new Error('K3s stopHealthMonitoring not yet implemented');
+		const timer = this.healthMonitors.get(serviceId);
+		if (!timer) {
+			return;
+		}
+
+		this.log('info', 'Stopping health monitoring', { serviceId });
+		clearInterval(timer);
+		this.healthMonitors.delete(serviceId);
+		this.lastHealth.delete(serviceId);
 	}
 
 	async getServiceMetrics(serviceId: string): Promise<ContainerMetrics> {
-		throw new Error('K3s getServiceMetrics not yet implemented');
+		this.log('debug', 'Getting service metrics', { serviceId });
+
+		const pods = await this.listServicePods(serviceId);
+		const pod = pods.find(p => p.status?.phase === 'Running') ?? pods[0];
+		if (!pod) {
+			throw new Error(`No pods found for service ${serviceId}`);
+		}
+
+		const podMetrics = this.body(await this.customObjectsApi.getNamespacedCustomObject(
+			'metrics.k8s.io',
+			'v1beta1',
+			this.namespace,
+			'pods',
+			pod.metadata.name
+		));
+
+		return this.toContainerMetrics(serviceId, pod, podMetrics);
 	}
 
 	async getAllMetrics(): Promise<ContainerMetrics[]> {
-		throw new Error('K3s getAllMetrics not yet implemented');
+		this.log('debug', 'Getting all metrics');
+
+		const pods = await this.listServicePods();
+		const metricsResponse = this.body(await this.customObjectsApi.listNamespacedCustomObject(
+			'metrics.k8s.io',
+			'v1beta1',
+			this.namespace,
+			'pods'
+		));
+
+		const metricsByPod = new Map<string, any>();
+		for (const podMetrics of metricsResponse.items || []) {
+			metricsByPod.set(podMetrics.metadata.name, podMetrics);
+		}
+
+		// One entry per service (first pod with metrics, e.g. during rolling updates)
+		const metrics = new Map<string, ContainerMetrics>();
+		for (const pod of pods) {
+			const serviceName = pod.metadata?.labels?.['service'];
+			const podMetrics = metricsByPod.get(pod.metadata?.name);
+			if (!serviceName || !podMetrics || metrics.has(serviceName)) {
+				continue;
+			}
+
+			try {
+				metrics.set(serviceName, await this.toContainerMetrics(serviceName, pod, podMetrics));
+			} catch (error) {
+				this.log('warn', 'Failed to get metrics for service', { serviceName, error });
+			}
+		}
+
+		return Array.from(metrics.values());
+	}
+
+	/**
+	 * Convert metrics API pod metrics to our ContainerMetrics (same units as Docker driver)
+	 */
+	private async toContainerMetrics(serviceName: string, pod: any, podMetrics: any): Promise<ContainerMetrics> {
+		const containerMetrics = podMetrics.containers?.find((c: any) => c.name === serviceName) ?? podMetrics.containers?.[0];
+		const containerSpec = pod.spec?.containers?.find((c: any) => c.name === serviceName) ?? pod.spec?.containers?.[0];
+		const capacity = await this.getNodeCapacity(pod.spec?.nodeName);
+
+		// CPU: 100% = one full core (matches Docker stats)
+		const cpuCores = parseCpuQuantity(containerMetrics?.usage?.cpu);
+		const memoryUsage = parseMemoryQuantity(containerMetrics?.usage?.memory);
+
+		// Memory limit: container limit, or node memory when unlimited (like Docker)
+		const memoryLimit = containerSpec?.resources?.limits?.memory
+			? parseMemoryQuantity(containerSpec.resources.limits.memory)
+			: capacity.memory;
+
+		return {
+			containerId: this.containerIdOf(pod) || pod.metadata.uid,
+			serviceName,
+			cpu: {
+				usage: cpuCores * 100,
+				cores: capacity.cpu
+			},
+			memory: {
+				usage: memoryUsage,
+				limit: memoryLimit,
+				percentage: memoryLimit ? (memoryUsage / memoryLimit) * 100 : undefined
+			},
+			timestamp: podMetrics.timestamp ? new Date(podMetrics.timestamp) : new Date()
+		};
 	}
 
+	private async getNodeCapacity(nodeName?: string): Promise<{ cpu?: number; memory?: number }> {
+		if (!nodeName) {
+			return {};
+		}
+
+		const cached = this.nodeCapacity.get(nodeName);
+		if (cached) {
+			return cached;
+		}
+
+		try {
+			const node = this.body(await this.coreV1Api.readNode(nodeName));
+			const capacity = {
+				cpu: node.status?.capacity?.cpu ? parseCpuQuantity(node.status.capacity.cpu) : undefined,
+				memory: node.status?.capacity?.memory ? parseMemoryQuantity(node.status.capacity.memory) : undefined
+			};
+			this.nodeCapacity.set(nodeName, capacity);
+			return capacity;
+		} catch (error) {
+			this.log('debug', 'Failed to read node capacity', { nodeName, error });
+			return {};
+		}
+	}
+
+	/**
+	 * Networks are NetworkPolicies: pods labelled as members of a network accept
+	 * ingress from other members. Internal networks also restrict egress to members (+ DNS).
+	 */
 	async createNetwork(network: NetworkConfig): Promise<void> {
-		throw new Error('K3s createNetwork not yet implemented');
+		this.log('info', 'Creating network', { networkName: network.name });
+
+		const members = { matchLabels: { [networkMemberLabel(network.name)]: 'true' } };
+		const policy: any = {
+			apiVersion: 'networking.k8s.io/v1',
+			kind: 'NetworkPolicy',
+			metadata: {
+				name: toK8sName(network.name),
+				namespace: this.namespace,
+				labels: {
+					[MANAGED_BY_LABEL]: MANAGED_BY_VALUE,
+					[NETWORK_NAME_LABEL]: network.name
+				}
+			},
+			spec: {
+				podSelector: members,
+				policyTypes: network.internal ? ['Ingress', 'Egress'] : ['Ingress'],
+				ingress: [{ from: [{ podSelector: members }] }]
+			}
+		};
+
+		if (network.internal) {
+			policy.spec.egress = [
+				{ to: [{ podSelector: members }] },
+				{
+					to: [{ namespaceSelector: {}, podSelector: { matchLabels: { 'k8s-app': 'kube-dns' } } }],
+					ports: [{ protocol: 'UDP', port: 53 }, { protocol: 'TCP', port: 53 }]
+				}
+			];
+		}
+
+		try {
+			await this.applyNetworkPolicy(policy);
+			this.log('info', 'Network created', { networkName: network.name });
+		} catch (error) {
+			this.log('error', 'Failed to create network', { networkName: network.name, error });
+			throw error;
+		}
 	}
 
 	async removeNetwork(networkName: string): Promise<void> {
-		throw new Error('K3s removeNetwork not yet implemented');
+		this.log('info', 'Removing network', { networkName });
+
+		try {
+			await this.deleteNetworkPolicy(toK8sName(networkName));
+		} catch (error) {
+			this.log('error', 'Failed to remove network', { networkName, error });
+			throw error;
+		}
 	}
 
 	async listNetworks(): Promise<NetworkConfig[]> {
-		throw new Error('K3s listNetworks not yet implemented');
+		this.log('debug', 'Listing networks');
+
+		const response = await this.networkingV1Api.listNamespacedNetworkPolicy(
+			this.namespace,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			`${MANAGED_BY_LABEL}=${MANAGED_BY_VALUE},${NETWORK_NAME_LABEL}`
+		);
+
+		return (this.body(response).items || []).map((policy: any) => ({
+			name: policy.metadata.labels[NETWORK_NAME_LABEL],
+			driver: 'networkpolicy',
+			internal: (policy.spec?.policyTypes || []).includes('Egress')
+		}));
 	}
 
+	/**
+	 * Volumes are PersistentVolumeClaims (K3s local-path provisioner by default)
+	 * driverOpts.size and driverOpts.storageClass override the claim defaults
+	 */
 	async createVolume(volume: VolumeConfig): Promise<void> {
-		throw new Error('K3s createVolume not yet implemented');
+		this.log('info', 'Creating volume', { volumeName: volume.name });
+
+		const claim = {
+			apiVersion: 'v1',
+			kind: 'PersistentVolumeClaim',
+			metadata: {
+				name: toK8sName(volume.name),
+				namespace: this.namespace,
+				labels: {
+					...volume.labels,
+					[MANAGED_BY_LABEL]: MANAGED_BY_VALUE,
+					[VOLUME_NAME_LABEL]: volume.name
+				}
+			},
+			spec: {
+				accessModes: ['ReadWriteOnce'],
+				...(volume.driverOpts?.storageClass && { storageClassName: volume.driverOpts.storageClass }),
+				resources: {
+					requests: {
+						storage: volume.driverOpts?.size || DEFAULT_VOLUME_SIZE
+					}
+				}
+			}
+		};
+
+		try {
+			await this.coreV1Api.createNamespacedPersistentVolumeClaim(this.namespace, claim);
+			this.log('info', 'Volume created', { volumeName: volume.name });
+		} catch (error: any) {
+			if (isConflict(error)) {
+				// Claims are mostly immutable - keep the existing one (and its data)
+				this.log('debug', 'Volume already exists', { volumeName: volume.name });
+				return;
+			}
+			this.log('error', 'Failed to create volume', { volumeName: volume.name, error });
+			throw error;
+		}
 	}
 
 	async removeVolume(volumeName: string): Promise<void> {
-		throw new Error('K3s removeVolume not yet implemented');
+		this.log('info', 'Removing volume', { volumeName });
+
+		try {
+			await this.coreV1Api.deleteNamespacedPersistentVolumeClaim(toK8sName(volumeName), this.namespace);
+		} catch (error: any) {
+			if (isNotFound(error)) {
+				return;
+			}
+			this.log('error', 'Failed to remove volume', { volumeName, error });
+			throw error;
+		}
 	}
 
 	async listVolumes(): Promise<VolumeConfig[]> {
-		throw new Error('K3s listVolumes not yet implemented');
+		this.log('debug', 'Listing volumes');
+
+		const response = await this.coreV1Api.listNamespacedPersistentVolumeClaim(
+			this.namespace,
+			undefined,
+			undefined,
+			undefined,
+			undefined,
+			`${MANAGED_BY_LABEL}=${MANAGED_BY_VALUE},${VOLUME_NAME_LABEL}`
+		);
+
+		return (this.body(response).items || []).map((claim: any) => ({
+			name: claim.metadata.labels[VOLUME_NAME_LABEL],
+			driver: claim.spec?.storageClassName || 'default',
+			labels: claim.metadata.labels,
+			driverOpts: {
+				size: claim.spec?.resources?.requests?.storage
+			}
+		}));
+	}
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function statusCodeOf(error: any): number | undefined {
+	return error?.statusCode ?? error?.code ?? error?.response?.statusCode;
+}
+
+function isNotFound(error: any): boolean {
+	return statusCodeOf(error) === 404;
+}
+
+function isConflict(error: any): boolean {
+	return statusCodeOf(error) === 409;
+}
+
+function isPodReady(pod: any): boolean {
+	return pod.status?.conditions?.some((c: any) => c.type === 'Ready' && c.status === 'True') ?? false;
+}
+
+/**
+ * Convert a name to a valid K8s resource name (RFC 1123 label)
+ */
+function toK8sName(name: string): string {
+	return name
+		.toLowerCase()
+		.replace(/[^a-z0-9-]/g, '-')
+		.replace(/^-+|-+$/g, '')
+		.slice(0, 63)
+		.replace(/-+$/, '');
+}
+
+function networkMemberLabel(networkName: string): string {
+	return `${NETWORK_MEMBER_LABEL_PREFIX}${toK8sName(networkName)}`;
+}
+
+function parseJsonList(value?: string): string[] {
+	if (!value) return [];
+	try {
+		const parsed = JSON.parse(value);
+		return Array.isArray(parsed) ? parsed : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Compose runtime options stored in the deployment annotation
+ * (command, entrypoint and workingDir are native container fields)
+ */
+function runtimeOptionsOf(config: ServiceConfig['config']): RuntimeOptions {
+	return {
+		user: config.user,
+		devices: config.devices,
+		privileged: config.privileged,
+		capAdd: config.capAdd,
+		capDrop: config.capDrop,
+		tmpfs: config.tmpfs,
+		extraHosts: config.extraHosts,
+		logging: config.logging,
+		dependsOn: config.dependsOn
+	};
+}
+
+function parseRuntimeOptionsAnnotation(value?: string): RuntimeOptions {
+	if (!value) return {};
+	try {
+		const parsed = JSON.parse(value);
+		return parsed && typeof parsed === 'object' ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Convert a tmpfs size option ("64m", "1g", "65536") to a K8s quantity
+ */
+function tmpfsSizeToQuantity(size: string): string {
+	const match = size.match(/^(\d+)([kmg]?)$/i);
+	if (!match) return size;
+	const units: Record<string, string> = { '': '', k: 'Ki', m: 'Mi', g: 'Gi' };
+	return `${match[1]}${units[match[2].toLowerCase()]}`;
+}
+
+/**
+ * Parse K8s CPU quantity to cores ("250m" = 0.25, "12345678n" = 0.012345678)
+ */
+function parseCpuQuantity(quantity?: string | number): number {
+	if (quantity === undefined || quantity === null || quantity === '') return 0;
+	const str = String(quantity);
+	const units: Record<string, number> = { n: 1e-9, u: 1e-6, m: 1e-3 };
+	const unit = str.slice(-1);
+	if (units[unit]) {
+		return parseFloat(str.slice(0, -1)) * units[unit];
+	}
+	return parseFloat(str) || 0;
+}
+
+/**
+ * Parse K8s memory quantity to bytes ("128Mi", "1G", "1048576Ki", "1e3")
+ */
+function parseMemoryQuantity(quantity?: string | number): number {
+	if (quantity === undefined || quantity === null || quantity === '') return 0;
+	const match = String(quantity).match(/^([0-9.]+(?:e[0-9]+)?)([a-zA-Z]*)$/);
+	if (!match) return 0;
+
+	const units: Record<string, number> = {
+		'': 1,
+		k: 1e3, K: 1e3, M: 1e6, G: 1e9, T: 1e12,
+		Ki: 1024, Mi: 1024 ** 2, Gi: 1024 ** 3, Ti: 1024 ** 4
+	};
+	const multiplier = units[match[2]];
+	return multiplier === undefined ? 0 : parseFloat(match[1]) * multiplier;
+}
+
+function resourcesEqual(a?: ServiceConfig['config']['resources'], b?: ServiceConfig['config']['resources']): boolean {
+	for (const kind of ['limits', 'requests'] as const) {
+		if (parseCpuQuantity(a?.[kind]?.cpu) !== parseCpuQuantity(b?.[kind]?.cpu)) {
+			return false;
+		}
+		if (parseMemoryQuantity(a?.[kind]?.memory) !== parseMemoryQuantity(b?.[kind]?.memory)) {
+			return false;
+		}
 	}
+	return true;
 }
@@ -16,6 +16,10 @@ import { EventEmitter } from 'events';
 import type { Stream } from 'stream';
 import type { AgentLogger } from '../logging/agent-logger';
 import { LogComponents } from '../logging/types';
+import type { RegistryCredential } from '../compose/registry-auth';
+import type { ImagePolicy } from '../compose/image-verification';
+import type { MaintenanceWindow } from '../compose/maintenance-window';
+import type { ServiceDependency } from '../compose/container-config';
 
 // ============================================================================
 // COMMON TYPES (shared across all drivers)
@@ -54,6 +58,17 @@ export interface ServiceConfig {
 		user?: string;
 		hostname?: string;
 		domainname?: string;
+		devices?: string[]; // e.g., ["/dev/ttyUSB0:/dev/ttyUSB0:rwm"]
+		privileged?: boolean;
+		capAdd?: string[];
+		capDrop?: string[];
+		tmpfs?: string[]; // e.g., ["/run:size=64m"]
+		extraHosts?: string[]; // e.g., ["broker.local:10.0.0.5"]
+		logging?: {
+			driver: string;
+			options?: Record<string, string>;
+		};
+		dependsOn?: ServiceDependency[]; // Service names (or { service, condition }) started before this one
 		
 		// Resource limits (K8s-style)
 		resources?: {
@@ -126,7 +141,7 @@ export interface ServiceStatus {
  * Service error information
  */
 export interface ServiceError {
-	type: 'ImagePullBackOff' | 'ErrImagePull' | 'StartFailure' | 'CrashLoopBackOff' | 'Unknown';
+	type: 'ImagePullBackOff' | 'ErrImagePull' | 'StartFailure' | 'CrashLoopBackOff' | 'ImageVerificationFailed' | 'Unknown';
 	message: string;
 	timestamp: string;
 	retryCount: number;
@@ -291,6 +306,9 @@ export interface ProtocolAdapterDevice {
 export interface DeviceConfig {
 	sensors?: ProtocolAdapterDevice[];
 	features?: Record<string, any>;
+	registries?: RegistryCredential[]; // Pull credentials, stored encrypted, never in the state snapshot
+	imagePolicy?: ImagePolicy; // Signed-image policy checked before containers start
+	maintenanceWindows?: MaintenanceWindow[]; // When disruptive app updates may be applied (none = any time)
 	[key: string]: any;
 }
 
@@ -155,6 +155,13 @@ export abstract class BaseProtocolAdapter extends EventEmitter {
     return Array.from(this.deviceStatuses.values());
   }
 
+  /**
+   * Check if a device is configured on this adapter
+   */
+  hasDevice(deviceName: string): boolean {
+    return this.devices.has(deviceName);
+  }
+
   /**
    * Check if adapter is running
    */
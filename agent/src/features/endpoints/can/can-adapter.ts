@@ -0,0 +1,370 @@
+/**
+ * CAN Protocol Adapter
+ *
+ * Implements the BaseProtocolAdapter for CAN bus devices (SocketCAN).
+ * CAN is a broadcast bus: devices are not polled, frames arrive on their own.
+ * The adapter listens on each configured interface, decodes frames through a
+ * DBC-style signal map and caches the latest value of every signal. On each
+ * poll interval the cached values are emitted as SensorDataPoints, so CAN
+ * devices publish and report health exactly like Modbus and OPC-UA devices.
+ *
+ * Example CAN device configuration (stored in SQLite endpoints table):
+ * {
+ *   "name": "engine-ecu",
+ *   "protocol": "can",
+ *   "enabled": true,
+ *   "pollInterval": 1000,
+ *   "connection": {
+ *     "interface": "can0",
+ *     "filters": [{ "id": 0x0CF00400, "mask": 0x1FFFFFFF }]
+ *   },
+ *   "dataPoints": [
+ *     {
+ *       "id": 217056256,
+ *       "name": "EEC1",
+ *       "extended": true,
+ *       "signals": [
+ *         { "name": "engine_speed", "startBit": 24, "length": 16, "byteOrder": "little_endian", "scale": 0.125, "unit": "rpm" }
+ *       ]
+ *     }
+ *   ]
+ * }
+ *
+ * @module can-adapter
+ */
+
+import { BaseProtocolAdapter, GenericDeviceConfig } from '../base.js';
+import { SensorDataPoint, Logger } from '../types.js';
+import { CANDeviceConfig, CANFrame, CANMessage, CANSignal, CANSignalSchema } from './types.js';
+import { CANFrameSource, CANFrameSourceFactory, createSocketCANFrameSource } from './frame-source.js';
+import { decodeSignal, matchesFilters } from './decoder.js';
+
+/**
+ * Latest decoded value of a signal
+ */
+interface CachedSignalValue {
+  value: number | null;
+  timestamp: number;
+  quality: 'GOOD' | 'BAD';
+  qualityCode?: string;
+}
+
+/**
+ * CAN Protocol Adapter
+ *
+ * Extends BaseProtocolAdapter to provide CAN-specific functionality.
+ * One frame source is shared by all devices on the same interface.
+ */
+export class CANAdapter extends BaseProtocolAdapter {
+  private sources: Map<string, CANFrameSource> = new Map(); // interface -> source
+  private subscribers: Map<string, Set<string>> = new Map(); // interface -> device names
+  private signalCache: Map<string, Map<string, CachedSignalValue>> = new Map(); // device -> signal -> value
+  private updatedSinceLastPoll: Map<string, Set<string>> = new Map(); // device -> changed signals
+  private frameCounts: Map<string, number> = new Map(); // device -> frames decoded
+
+  /**
+   * Creates a new CAN adapter instance
+   *
+   * @param devices - Array of CAN device configurations
+   * @param logger - Logger instance
+   * @param sourceFactory - Creates frame sources per interface (SocketCAN by default)
+   */
+  constructor(
+    devices: CANDeviceConfig[],
+    logger: Logger,
+    private readonly sourceFactory: CANFrameSourceFactory = createSocketCANFrameSource
+  ) {
+    super(devices as GenericDeviceConfig[], logger);
+  }
+
+  /**
+   * Returns the protocol name
+   * Required by BaseProtocolAdapter
+   */
+  protected getProtocolName(): string {
+    return 'can';
+  }
+
+  /**
+   * Validates CAN device configuration
+   *
+   * @param device - Device configuration to validate
+   * @throws Error if configuration is invalid
+   */
+  protected validateDeviceConfig(device: CANDeviceConfig): void {
+    if (!device.connection?.interface) {
+      throw new Error(`Device ${device.name}: connection.interface is required`);
+    }
+
+    if (!device.dataPoints || device.dataPoints.length === 0) {
+      throw new Error(`Device ${device.name}: at least one CAN message is required`);
+    }
+
+    const signalNames = new Set<string>();
+    for (const message of device.dataPoints) {
+      if (typeof message.id !== 'number') {
+        throw new Error(`Device ${device.name}: CAN message id is required`);
+      }
+      for (const signal of message.signals || []) {
+        const parsed = CANSignalSchema.safeParse(signal);
+        if (!parsed.success) {
+          throw new Error(
+            `Device ${device.name}: invalid signal ${signal.name ?? '(unnamed)'} in message 0x${message.id.toString(16)}: ${parsed.error.issues[0]?.message}`
+          );
+        }
+        if (signalNames.has(signal.name)) {
+          throw new Error(`Device ${device.name}: duplicate signal name ${signal.name}`);
+        }
+        signalNames.add(signal.name);
+      }
+    }
+
+    if (signalNames.size === 0) {
+      this.logger.warn(`Device ${device.name}: no signals configured, frames will be ignored`);
+    }
+  }
+
+  /**
+   * Attaches a device to its interface, opening the frame source if needed
+   */
+  protected async connectDevice(device: CANDeviceConfig): Promise<CANFrameSource> {
+    const interfaceName = device.connection.interface;
+    let source = this.sources.get(interfaceName);
+
+    if (!source) {
+      source = this.sourceFactory(interfaceName);
+      source.on('frame', (frame: CANFrame) => this.handleFrame(interfaceName, frame));
+      source.on('error', (error: Error) => this.handleSourceError(interfaceName, error));
+      this.sources.set(interfaceName, source);
+    }
+
+    if (!source.isOpen()) {
+      try {
+        await source.open();
+        this.logger.info(`CAN interface opened: ${interfaceName}`);
+      } catch (error) {
+        this.sources.delete(interfaceName);
+        source.removeAllListeners();
+        throw error;
+      }
+    }
+
+    if (!this.subscribers.has(interfaceName)) {
+      this.subscribers.set(interfaceName, new Set());
+    }
+    this.subscribers.get(interfaceName)!.add(device.name);
+
+    if (!this.signalCache.has(device.name)) {
+      this.signalCache.set(device.name, new Map());
+      this.updatedSinceLastPoll.set(device.name, new Set());
+      this.frameCounts.set(device.name, 0);
+    }
+
+    return source;
+  }
+
+  /**
+   * Detaches a device from its interface, closing the source when unused
+   */
+  protected async disconnectDevice(deviceName: string): Promise<void> {
+    const device = this.devices.get(deviceName) as CANDeviceConfig | undefined;
+    if (!device) {
+      return;
+    }
+
+    const interfaceName = device.connection.interface;
+    const subscribers = this.subscribers.get(interfaceName);
+    subscribers?.delete(deviceName);
+
+    if (!subscribers || subscribers.size === 0) {
+      this.subscribers.delete(interfaceName);
+      const source = this.sources.get(interfaceName);
+      if (source) {
+        this.sources.delete(interfaceName);
+        source.removeAllListeners();
+        await source.close();
+        this.logger.info(`CAN interface closed: ${interfaceName}`);
+      }
+    }
+  }
+
+  /**
+   * Returns the latest decoded values of a device's signals
+   * Signals never received are UNCERTAIN/NO_DATA, old values UNCERTAIN/STALE
+   */
+  protected async readDeviceData(
+    deviceName: string,
+    device: CANDeviceConfig
+  ): Promise<SensorDataPoint[]> {
+    const cache = this.signalCache.get(deviceName) ?? new Map<string, CachedSignalValue>();
+    const updated = this.updatedSinceLastPoll.get(deviceName) ?? new Set<string>();
+    const staleTimeout = device.connection.staleTimeout ?? device.pollInterval * 3;
+    const now = Date.now();
+    const timestamp = new Date(now).toISOString();
+
+    const results: SensorDataPoint[] = [];
+    let freshCount = 0;
+
+    for (const message of device.dataPoints) {
+      for (const signal of message.signals) {
+        const cached = cache.get(signal.name);
+
+        if (!cached) {
+          results.push(this.createDataPoint(deviceName, signal, null, timestamp, 'UNCERTAIN', 'NO_DATA'));
+          continue;
+        }
+
+        const cachedTimestamp = new Date(cached.timestamp).toISOString();
+
+        if (cached.quality === 'BAD') {
+          results.push(this.createDataPoint(deviceName, signal, null, cachedTimestamp, 'BAD', cached.qualityCode));
+          continue;
+        }
+
+        if (now - cached.timestamp > staleTimeout) {
+          results.push(this.createDataPoint(deviceName, signal, cached.value, cachedTimestamp, 'UNCERTAIN', 'STALE'));
+          continue;
+        }
+
+        freshCount++;
+
+        if (
+          cached.value !== null &&
+          ((signal.min !== undefined && cached.value < signal.min) ||
+            (signal.max !== undefined && cached.value > signal.max))
+        ) {
+          results.push(this.createDataPoint(deviceName, signal, cached.value, cachedTimestamp, 'UNCERTAIN', 'OUT_OF_RANGE'));
+          continue;
+        }
+
+        results.push(this.createDataPoint(deviceName, signal, cached.value, cachedTimestamp, 'GOOD'));
+      }
+    }
+
+    // A CAN device is healthy when it is actually talking on the bus
+    this.recordPollResult(deviceName, freshCount > 0, undefined, updated.size);
+    updated.clear();
+
+    return results;
+  }
+
+  /**
+   * Create BAD quality data points (one per signal, not per message)
+   */
+  protected createBadQualityDataPoints(
+    device: GenericDeviceConfig,
+    qualityCode: string
+  ): SensorDataPoint[] {
+    const timestamp = new Date().toISOString();
+    const messages = device.dataPoints as CANMessage[];
+
+    return messages.flatMap(message =>
+      (message.signals || []).map(signal =>
+        this.createDataPoint(device.name, signal, null, timestamp, 'BAD', qualityCode)
+      )
+    );
+  }
+
+  /**
+   * Extract quality code from error message
+   */
+  protected extractQualityCode(errorMessage: string): string {
+    if (errorMessage.includes('socketcan')) return 'DRIVER_UNAVAILABLE';
+    if (errorMessage.includes('ENODEV') || errorMessage.includes('No such device')) return 'INTERFACE_NOT_FOUND';
+    if (errorMessage.includes('ENETDOWN')) return 'BUS_OFF';
+    return super.extractQualityCode(errorMessage);
+  }
+
+  /**
+   * Get number of frames decoded for a device (for testing/debugging)
+   */
+  getFrameCount(deviceName: string): number {
+    return this.frameCounts.get(deviceName) ?? 0;
+  }
+
+  /**
+   * Decode a frame for every device listening on the interface
+   */
+  private handleFrame(interfaceName: string, frame: CANFrame): void {
+    const subscribers = this.subscribers.get(interfaceName);
+    if (!subscribers) {
+      return;
+    }
+
+    const receivedAt = frame.timestamp ?? Date.now();
+
+    for (const deviceName of subscribers) {
+      const device = this.devices.get(deviceName) as CANDeviceConfig | undefined;
+      if (!device || !matchesFilters(frame.id, device.connection.filters)) {
+        continue;
+      }
+
+      const messages = device.dataPoints.filter(m =>
+        m.id === frame.id && (m.extended === undefined || frame.extended === undefined || m.extended === frame.extended)
+      );
+      if (messages.length === 0) {
+        continue;
+      }
+
+      const cache = this.signalCache.get(deviceName)!;
+      const updated = this.updatedSinceLastPoll.get(deviceName)!;
+
+      for (const message of messages) {
+        for (const signal of message.signals) {
+          const previous = cache.get(signal.name);
+          try {
+            const value = decodeSignal(frame.data, signal);
+            cache.set(signal.name, { value, timestamp: receivedAt, quality: 'GOOD' });
+            if (!previous || previous.value !== value) {
+              updated.add(signal.name);
+            }
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            this.logger.debug(`Failed to decode ${signal.name} on ${deviceName}: ${errorMessage}`);
+            cache.set(signal.name, { value: null, timestamp: receivedAt, quality: 'BAD', qualityCode: 'DECODE_ERROR' });
+          }
+        }
+      }
+
+      this.frameCounts.set(deviceName, (this.frameCounts.get(deviceName) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Mark all devices on a failed interface as errored
+   */
+  private handleSourceError(interfaceName: string, error: Error): void {
+    this.logger.error(`CAN interface error [${interfaceName}]: ${error.message}`);
+
+    for (const deviceName of this.subscribers.get(interfaceName) ?? []) {
+      const status = this.deviceStatuses.get(deviceName);
+      if (status) {
+        status.errorCount++;
+        status.lastError = error.message;
+      }
+      this.emit('device-error', deviceName, error);
+    }
+  }
+
+  private createDataPoint(
+    deviceName: string,
+    signal: CANSignal,
+    value: number | null,
+    timestamp: string,
+    quality: SensorDataPoint['quality'],
+    qualityCode?: string
+  ): SensorDataPoint {
+    const dataPoint: SensorDataPoint = {
+      deviceName,
+      registerName: signal.name,
+      value,
+      unit: signal.unit || '',
+      timestamp,
+      quality,
+    };
+    if (qualityCode) {
+      dataPoint.qualityCode = qualityCode;
+    }
+    return dataPoint;
+  }
+}
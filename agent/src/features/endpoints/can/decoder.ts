@@ -0,0 +1,64 @@
+import { CANSignal } from './types.js';
+
+/**
+ * Extract the raw (unscaled) value of a signal from a CAN payload
+ *
+ * Bit numbering follows DBC conventions: bit n lives in byte floor(n / 8)
+ * at position n % 8 (0 = LSB).
+ * - little_endian (Intel): startBit is the LSB, bits grow upwards through the payload
+ * - big_endian (Motorola): startBit is the MSB, bits run down within a byte
+ *   and continue at bit 7 of the next byte
+ *
+ * @throws Error if the signal does not fit in the payload
+ */
+export function extractRawValue(data: Buffer, signal: CANSignal): bigint {
+  const totalBits = data.length * 8;
+  let raw = 0n;
+
+  if (signal.byteOrder === 'big_endian') {
+    let pos = signal.startBit;
+    for (let i = 0; i < signal.length; i++) {
+      if (pos < 0 || pos >= totalBits) {
+        throw new Error(`Signal ${signal.name} exceeds payload length (${data.length} bytes)`);
+      }
+      const bit = (data[pos >> 3] >> (pos & 7)) & 1;
+      raw = (raw << 1n) | BigInt(bit);
+      pos = (pos & 7) === 0 ? pos + 15 : pos - 1;
+    }
+  } else {
+    if (signal.startBit + signal.length > totalBits) {
+      throw new Error(`Signal ${signal.name} exceeds payload length (${data.length} bytes)`);
+    }
+    for (let i = 0; i < signal.length; i++) {
+      const pos = signal.startBit + i;
+      const bit = (data[pos >> 3] >> (pos & 7)) & 1;
+      raw |= BigInt(bit) << BigInt(i);
+    }
+  }
+
+  // Two's complement for signed signals
+  if (signal.signed && signal.length > 1 && (raw >> BigInt(signal.length - 1)) & 1n) {
+    raw -= 1n << BigInt(signal.length);
+  }
+
+  return raw;
+}
+
+/**
+ * Decode a signal into its physical value (raw * scale + offset)
+ */
+export function decodeSignal(data: Buffer, signal: CANSignal): number {
+  const raw = extractRawValue(data, signal);
+  return Number(raw) * (signal.scale ?? 1) + (signal.offset ?? 0);
+}
+
+/**
+ * Check whether a frame ID passes a set of SocketCAN-style filters
+ * (no filters = accept everything)
+ */
+export function matchesFilters(id: number, filters?: { id: number; mask: number }[]): boolean {
+  if (!filters || filters.length === 0) {
+    return true;
+  }
+  return filters.some(f => (id & f.mask) === (f.id & f.mask));
+}
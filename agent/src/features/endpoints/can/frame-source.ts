@@ -0,0 +1,128 @@
+/**
+ * CAN Frame Sources
+ *
+ * A frame source delivers raw CAN frames for one interface. The CAN adapter
+ * only depends on this interface, so it can run against real SocketCAN
+ * (can0, vcan0) or an in-process source fed by tests and simulations.
+ *
+ * Events emitted:
+ * - 'frame': CANFrame - Frame received
+ * - 'error': Error - Source failed
+ * - 'closed': Source stopped
+ */
+
+import { EventEmitter } from 'events';
+import { CANFrame } from './types.js';
+
+export interface CANFrameSource extends EventEmitter {
+  readonly interfaceName: string;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  isOpen(): boolean;
+}
+
+/**
+ * Factory used by the adapter to create one source per interface
+ */
+export type CANFrameSourceFactory = (interfaceName: string) => CANFrameSource;
+
+/**
+ * SocketCAN frame source (Linux only)
+ * Uses the optional 'socketcan' module, loaded on demand
+ */
+export class SocketCANFrameSource extends EventEmitter implements CANFrameSource {
+  private channel: any = null;
+
+  constructor(readonly interfaceName: string) {
+    super();
+  }
+
+  async open(): Promise<void> {
+    if (this.channel) {
+      return;
+    }
+
+    let socketcan: any;
+    try {
+      // @ts-ignore - socketcan is an optional Linux-only dependency
+      socketcan = await import('socketcan');
+    } catch {
+      throw new Error('socketcan module not available (CAN requires Linux with socketcan installed)');
+    }
+
+    const channel = socketcan.createRawChannel(this.interfaceName, true);
+
+    channel.addListener('onMessage', (msg: any) => {
+      const timestamp = msg.ts_sec !== undefined
+        ? msg.ts_sec * 1000 + Math.floor((msg.ts_usec || 0) / 1000)
+        : Date.now();
+      this.emit('frame', {
+        id: msg.id,
+        data: Buffer.from(msg.data),
+        extended: Boolean(msg.ext),
+        timestamp,
+      } as CANFrame);
+    });
+
+    channel.addListener('onStopped', () => {
+      this.channel = null;
+      this.emit('closed');
+    });
+
+    channel.start();
+    this.channel = channel;
+  }
+
+  async close(): Promise<void> {
+    if (!this.channel) {
+      return;
+    }
+    const channel = this.channel;
+    this.channel = null;
+    channel.stop();
+  }
+
+  isOpen(): boolean {
+    return this.channel !== null;
+  }
+}
+
+/**
+ * In-process frame source
+ * Frames are pushed with inject() - used for tests and simulation
+ */
+export class InProcessFrameSource extends EventEmitter implements CANFrameSource {
+  private opened = false;
+
+  constructor(readonly interfaceName: string = 'vcan0') {
+    super();
+  }
+
+  async open(): Promise<void> {
+    this.opened = true;
+  }
+
+  async close(): Promise<void> {
+    if (this.opened) {
+      this.opened = false;
+      this.emit('closed');
+    }
+  }
+
+  isOpen(): boolean {
+    return this.opened;
+  }
+
+  /**
+   * Deliver a frame to listeners (ignored while closed, like a real bus)
+   */
+  inject(frame: CANFrame): void {
+    if (!this.opened) {
+      return;
+    }
+    this.emit('frame', { ...frame, timestamp: frame.timestamp ?? Date.now() });
+  }
+}
+
+export const createSocketCANFrameSource: CANFrameSourceFactory = (interfaceName) =>
+  new SocketCANFrameSource(interfaceName);
@@ -0,0 +1,146 @@
+/**
+ * CAN Adapter Type Definitions
+ *
+ * This module defines TypeScript types and Zod schemas for CAN bus device configuration.
+ * Signals are described DBC-style (start bit, length, byte order, scale/offset, unit)
+ * so that raw frames can be decoded into engineering values.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Signal byte order (DBC notation)
+ * - little_endian: Intel byte order (DBC "@1"), start bit is the LSB
+ * - big_endian: Motorola byte order (DBC "@0"), start bit is the MSB
+ */
+export const CANByteOrderSchema = z.enum(['little_endian', 'big_endian']);
+export type CANByteOrder = z.infer<typeof CANByteOrderSchema>;
+
+/**
+ * CAN Signal Definition
+ * One engineering value packed inside a CAN frame payload
+ */
+export const CANSignalSchema = z.object({
+  /** Signal name (becomes the registerName of the SensorDataPoint) */
+  name: z.string().min(1),
+
+  /** Start bit (DBC numbering: byte * 8 + bit, bit 0 = LSB of byte) */
+  startBit: z.number().int().min(0).max(511),
+
+  /** Signal length in bits */
+  length: z.number().int().min(1).max(64),
+
+  /** Byte order */
+  byteOrder: CANByteOrderSchema.default('little_endian'),
+
+  /** Whether the raw value is two's complement signed */
+  signed: z.boolean().default(false),
+
+  /** Scale factor (physical = raw * scale + offset) */
+  scale: z.number().default(1),
+
+  /** Offset (physical = raw * scale + offset) */
+  offset: z.number().default(0),
+
+  /** Unit of measurement */
+  unit: z.string().default(''),
+
+  /** Minimum physical value (values outside range are reported UNCERTAIN) */
+  min: z.number().optional(),
+
+  /** Maximum physical value (values outside range are reported UNCERTAIN) */
+  max: z.number().optional(),
+});
+export type CANSignal = z.infer<typeof CANSignalSchema>;
+
+/**
+ * CAN Message Definition
+ * Stored in the 'data_points' field in the endpoints table (one entry per CAN ID)
+ */
+export const CANMessageSchema = z.object({
+  /** CAN arbitration ID */
+  id: z.number().int().min(0).max(0x1FFFFFFF),
+
+  /** Message name (e.g., EEC1) */
+  name: z.string().optional(),
+
+  /** Extended (29-bit) frame format */
+  extended: z.boolean().optional(),
+
+  /** Signals packed in this message */
+  signals: z.array(CANSignalSchema),
+});
+export type CANMessage = z.infer<typeof CANMessageSchema>;
+
+/**
+ * CAN Receive Filter (SocketCAN semantics: frame matches when (id & mask) === (filter.id & mask))
+ */
+export const CANFilterSchema = z.object({
+  id: z.number().int().min(0),
+  mask: z.number().int().min(0),
+});
+export type CANFilter = z.infer<typeof CANFilterSchema>;
+
+/**
+ * CAN Connection Configuration
+ * Stored in the 'connection' field in the endpoints table
+ */
+export const CANConnectionSchema = z.object({
+  /** SocketCAN interface (e.g., can0, vcan0) */
+  interface: z.string().min(1).default('can0'),
+
+  /** Optional receive filters */
+  filters: z.array(CANFilterSchema).optional(),
+
+  /** Values older than this are reported UNCERTAIN/STALE (ms, default 3x pollInterval) */
+  staleTimeout: z.number().int().positive().optional(),
+});
+export type CANConnection = z.infer<typeof CANConnectionSchema>;
+
+/**
+ * Complete CAN Device Configuration
+ * Maps to a row in the endpoints table with protocol='can'
+ */
+export const CANDeviceConfigSchema = z.object({
+  /** Device name (unique identifier) */
+  name: z.string(),
+
+  /** Protocol (must be 'can') */
+  protocol: z.literal('can'),
+
+  /** Whether device is enabled */
+  enabled: z.boolean().default(true),
+
+  /** Interval at which the latest decoded values are published (ms) */
+  pollInterval: z.number().int().positive().default(1000),
+
+  /** Connection configuration */
+  connection: CANConnectionSchema,
+
+  /** Messages (with signals) to decode */
+  dataPoints: z.array(CANMessageSchema),
+
+  /** Device metadata */
+  metadata: z.record(z.any()).optional(),
+});
+export type CANDeviceConfig = z.infer<typeof CANDeviceConfigSchema>;
+
+/**
+ * CAN Adapter Configuration
+ * Contains all CAN devices managed by this adapter
+ */
+export const CANAdapterConfigSchema = z.object({
+  /** Array of CAN devices */
+  devices: z.array(CANDeviceConfigSchema),
+});
+export type CANAdapterConfig = z.infer<typeof CANAdapterConfigSchema>;
+
+/**
+ * Raw CAN frame as delivered by a frame source
+ */
+export interface CANFrame {
+  id: number;
+  data: Buffer;
+  extended?: boolean;
+  timestamp?: number; // ms since epoch (defaults to receive time)
+}
@@ -0,0 +1,94 @@
+import { EndpointWriteRequest, EndpointWriteResult } from '../types.js';
+
+/**
+ * Write permissions of a register / data point (from device config)
+ */
+export interface WritablePoint {
+  name: string;
+  writable?: boolean;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Check that a value may be written to a point
+ * @returns Quality code describing why the write is rejected, or null if allowed
+ */
+export function checkWritePermission(
+  point: WritablePoint | undefined,
+  value: unknown
+): string | null {
+  if (!point) {
+    return 'REGISTER_NOT_FOUND';
+  }
+  if (!point.writable) {
+    return 'NOT_WRITABLE';
+  }
+  if (value === null || value === undefined) {
+    return 'INVALID_VALUE';
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      return 'INVALID_VALUE';
+    }
+    if ((point.min !== undefined && value < point.min) || (point.max !== undefined && value > point.max)) {
+      return 'OUT_OF_RANGE';
+    }
+  } else if (typeof value !== 'boolean' && typeof value !== 'string') {
+    return 'INVALID_VALUE';
+  }
+  return null;
+}
+
+/**
+ * Reverse the read-side scaling (value = raw * scale + offset)
+ */
+export function reverseScale(value: number, scale: number = 1, offset: number = 0): number {
+  if (scale === 0) {
+    throw new Error('Cannot reverse scale factor of 0');
+  }
+  return (value - offset) / scale;
+}
+
+/**
+ * Compare the value read back with the requested value
+ * Numbers are compared with a tolerance of half a scale step (and float32 precision)
+ */
+export function valuesMatch(
+  requested: number | boolean | string,
+  readBack: number | boolean | string | null,
+  scale: number = 1
+): boolean {
+  if (readBack === null) {
+    return false;
+  }
+  if (typeof requested === 'number' && typeof readBack === 'number') {
+    const tolerance = Math.max(Math.abs(scale) / 2, Math.abs(requested) * 1e-6, 1e-6);
+    return Math.abs(requested - readBack) <= tolerance;
+  }
+  if (typeof requested === 'boolean' || typeof readBack === 'boolean') {
+    return Boolean(requested) === Boolean(readBack);
+  }
+  return String(requested) === String(readBack);
+}
+
+/**
+ * Build a write acknowledgement
+ */
+export function createWriteResult(
+  request: EndpointWriteRequest,
+  registerName: string,
+  outcome: Pick<EndpointWriteResult, 'quality'> & Partial<EndpointWriteResult>
+): EndpointWriteResult {
+  const result: EndpointWriteResult = {
+    commandId: request.commandId,
+    deviceName: request.deviceName,
+    registerName,
+    requestedValue: request.value,
+    readBackValue: null,
+    success: outcome.quality !== 'BAD',
+    timestamp: new Date().toISOString(),
+    ...outcome,
+  };
+  return result;
+}
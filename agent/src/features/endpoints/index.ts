@@ -18,9 +18,13 @@ import { AgentLogger } from '../../logging/agent-logger.js';
 import { ModbusAdapter } from './modbus/adapter.js';
 import { ModbusAdapterConfig } from './modbus/types.js';
 import { SocketServer } from './common/socket-server.js';
-import { SensorDataPoint, SocketOutput } from './types.js';
+import { SensorDataPoint, SocketOutput, EndpointWriteRequest, EndpointWriteResult } from './types.js';
+import { CANAdapter } from './can/can-adapter.js';
+import { CANAdapterConfig, CANSignalSchema, CANDeviceConfig } from './can/types.js';
 import { SensorOutputModel } from '../../db/models/sensor-outputs.model.js';
 import { DeviceSensorModel } from '../../db/models/sensors.model.js';
+import { MqttManager } from '../../mqtt/manager.js';
+import { createWriteResult } from './common/write.js';
 
 // Type imports only (no runtime loading)
 import type { OPCUAAdapter } from './opcua/opcua-adapter.js';
@@ -33,6 +37,7 @@ export interface SensorConfig extends FeatureConfig {
   };
   can?: {
     enabled: boolean;
+    config?: CANAdapterConfig; // Optional: provide config directly, otherwise load from database
   };
   opcua?: {
     enabled: boolean;
@@ -43,6 +48,7 @@ export interface SensorConfig extends FeatureConfig {
 export class SensorsFeature extends BaseFeature {
   private adapters: Map<string, any> = new Map(); // Generic adapter storage
   private socketServers: Map<string, SocketServer> = new Map();
+  private writeCommandTopic?: string;
 
   constructor(
     config: SensorConfig,
@@ -73,11 +79,14 @@ export class SensorsFeature extends BaseFeature {
       await this.startOPCUAAdapter();
     }
 
-    // TODO: Start CAN adapter when implemented
+    // Start CAN adapter if enabled
     if ((this.config as SensorConfig).can?.enabled) {
-      this.logger.warn('CAN adapter not yet implemented');
+      await this.startCANAdapter();
     }
 
+    // Listen for write-back commands from the cloud
+    await this.subscribeToWriteCommands();
+
     this.emit('started');
   }
 
@@ -85,6 +94,12 @@ export class SensorsFeature extends BaseFeature {
    * Stop all running protocol adapters and socket servers
    */
   protected async onStop(): Promise<void> {
+    // Stop listening for write-back commands
+    if (this.writeCommandTopic) {
+      await MqttManager.getInstance().unsubscribe(this.writeCommandTopic).catch(() => {});
+      this.writeCommandTopic = undefined;
+    }
+
     // Stop all adapters
     for (const [protocol, adapter] of this.adapters) {
       this.logger.info(`Stopping ${protocol} adapter`);
@@ -305,6 +320,168 @@ export class SensorsFeature extends BaseFeature {
     }
   }
 
+  /**
+   * Start CAN adapter
+   */
+  private async startCANAdapter(): Promise<void> {
+    try {
+      let canDevices: CANDeviceConfig[];
+      let outputConfig: SocketOutput;
+
+      // Load config from provided config object or database
+      if (this.config.can!.config) {
+        // Use provided config
+        canDevices = this.config.can!.config.devices;
+      } else {
+        // Load devices from database
+        const dbDevices = await DeviceSensorModel.getEnabled('can');
+        
+        // Convert database format to CANDeviceConfig array
+        // Database stores CAN messages (with their signals) in the data_points field
+        canDevices = dbDevices.map(d => ({
+          name: d.name,
+          protocol: 'can' as const,
+          enabled: d.enabled,
+          connection: {
+            ...d.connection,
+            interface: d.connection.interface || 'can0'
+          },
+          pollInterval: d.poll_interval,
+          dataPoints: (d.data_points || []).map((message: any) => ({
+            ...message,
+            signals: (message.signals || []).map((signal: any) => CANSignalSchema.parse(signal))
+          })),
+          metadata: d.metadata || {}
+        }));
+      }
+
+      // Load output config from database
+      const dbOutput = await SensorOutputModel.getOutput('can');
+      if (!dbOutput) {
+        throw new Error('CAN output configuration not found in database');
+      }
+      outputConfig = {
+        socketPath: dbOutput.socket_path,
+        dataFormat: dbOutput.data_format as 'json' | 'csv',
+        delimiter: dbOutput.delimiter,
+        includeTimestamp: dbOutput.include_timestamp,
+        includeDeviceName: dbOutput.include_device_name
+      };
+
+      // Create socket server for CAN protocol
+      const canSocket = new SocketServer(outputConfig, this.logger);
+      await canSocket.start();
+      this.socketServers.set('can', canSocket);
+      this.logger.info(`CAN socket server started at: ${outputConfig.socketPath}`);
+
+      // Create CAN adapter (socket-agnostic, SocketCAN loaded on demand)
+      const canAdapter = new CANAdapter(canDevices, this.logger);
+      this.adapters.set('can', canAdapter);
+
+      // Wire up event handlers
+      canAdapter.on('started', () => {
+        this.logger.info('CAN adapter started');
+      });
+
+      canAdapter.on('data', (dataPoints: SensorDataPoint[]) => {
+        // Route data from adapter to socket server
+        canSocket.sendData(dataPoints);
+      });
+
+      canAdapter.on('device-connected', (deviceName: string) => {
+        this.logger.info(`CAN device connected: ${deviceName}`);
+      });
+
+      canAdapter.on('device-disconnected', (deviceName: string) => {
+        this.logger.warn(`CAN device disconnected: ${deviceName}`);
+      });
+
+      canAdapter.on('device-error', (deviceName: string, error: Error) => {
+        this.logger.error(`CAN device error [${deviceName}]: ${error.message}`);
+      });
+
+      // Start adapter
+      await canAdapter.start();
+      
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to start CAN adapter: ${errorMessage}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a value to a field device (setpoint / write-back)
+   * Routes the request to the adapter that owns the device.
+   * Adapters without write support (e.g., CAN) reject with NOT_SUPPORTED.
+   */
+  async writeValue(request: EndpointWriteRequest): Promise<EndpointWriteResult> {
+    const registerName = request.register ?? request.nodeId ?? '';
+
+    if (!request.deviceName || (!request.register && !request.nodeId) || request.value === undefined) {
+      return createWriteResult(request, registerName, {
+        quality: 'BAD',
+        qualityCode: 'INVALID_REQUEST',
+        error: 'deviceName, register (or nodeId) and value are required'
+      });
+    }
+
+    for (const [protocol, adapter] of this.adapters) {
+      if (!adapter || typeof adapter.hasDevice !== 'function' || !adapter.hasDevice(request.deviceName)) {
+        continue;
+      }
+      if (typeof adapter.writeValue !== 'function') {
+        return createWriteResult(request, registerName, {
+          quality: 'BAD',
+          qualityCode: 'NOT_SUPPORTED',
+          error: `Write-back is not supported for ${protocol} devices`
+        });
+      }
+      return adapter.writeValue(request);
+    }
+
+    return createWriteResult(request, registerName, { quality: 'BAD', qualityCode: 'DEVICE_NOT_FOUND' });
+  }
+
+  /**
+   * Subscribe to cloud write commands
+   * Command: iot/device/{uuid}/endpoints/write
+   * Ack:     iot/device/{uuid}/agent/write-ack
+   */
+  private async subscribeToWriteCommands(): Promise<void> {
+    const mqttManager = MqttManager.getInstance();
+    if (!mqttManager.isConnected()) {
+      this.logger.debug('MQTT not connected - write-back commands only available via device API');
+      return;
+    }
+
+    const commandTopic = `iot/device/${this.deviceUuid}/endpoints/write`;
+    const ackTopic = `iot/device/${this.deviceUuid}/agent/write-ack`;
+
+    try {
+      await mqttManager.subscribe(commandTopic, { qos: 1 }, async (_topic: string, payload: Buffer) => {
+        let request: EndpointWriteRequest;
+        try {
+          request = JSON.parse(payload.toString());
+        } catch {
+          this.logger.warn('Ignoring malformed write command (invalid JSON)');
+          return;
+        }
+
+        const result = await this.writeValue(request);
+        try {
+          await mqttManager.publish(ackTopic, JSON.stringify(result), { qos: 1 });
+        } catch (error) {
+          this.logger.error('Failed to publish write acknowledgement', error);
+        }
+      });
+      this.writeCommandTopic = commandTopic;
+      this.logger.info(`Listening for write commands on ${commandTopic}`);
+    } catch (error) {
+      this.logger.error('Failed to subscribe to write commands', error);
+    }
+  }
+
   /**
    * Get Modbus adapter instance (for testing/debugging)
    */
@@ -319,6 +496,13 @@ export class SensorsFeature extends BaseFeature {
     return this.adapters.get('opcua') as OPCUAAdapter | undefined;
   }
 
+  /**
+   * Get CAN adapter instance (for testing/debugging)
+   */
+  getCANAdapter(): CANAdapter | undefined {
+    return this.adapters.get('can') as CANAdapter | undefined;
+  }
+
   /**
    * Get endpoint health from all enabled protocol adapters
    * Returns health data for all configured endpoints (discovered + configured)
@@ -2,7 +2,8 @@ import { EventEmitter } from 'events';
 import { ModbusAdapterConfig } from './types';
 import { ModbusDevice } from './types';
 import { ModbusClient } from './client';
-import { SensorDataPoint, DeviceStatus, Logger } from '../types.js';
+import { SensorDataPoint, DeviceStatus, Logger, EndpointWriteRequest, EndpointWriteResult } from '../types.js';
+import { checkWritePermission, createWriteResult, valuesMatch } from '../common/write.js';
 
 /**
  * Main Modbus Adapter class that coordinates Modbus devices
@@ -168,6 +169,70 @@ export class ModbusAdapter extends EventEmitter {
     this.emit('device-disabled', deviceName);
   }
 
+  /**
+   * Check if a device is configured on this adapter
+   */
+  hasDevice(deviceName: string): boolean {
+    return this.config.devices.some(d => d.name === deviceName);
+  }
+
+  /**
+   * Write a value to a register (setpoint / write-back)
+   * Rejects writes the register config does not allow, writes the value,
+   * then reads it back to verify.
+   */
+  async writeValue(request: EndpointWriteRequest): Promise<EndpointWriteResult> {
+    const registerName = request.register ?? '';
+    const deviceConfig = this.config.devices.find(d => d.name === request.deviceName);
+    if (!deviceConfig) {
+      return createWriteResult(request, registerName, { quality: 'BAD', qualityCode: 'DEVICE_NOT_FOUND' });
+    }
+
+    const register = deviceConfig.registers.find(r => r.name === registerName);
+    const rejection = checkWritePermission(register, request.value);
+    if (rejection) {
+      this.logger.warn(`Rejected write to ${request.deviceName}/${registerName}: ${rejection}`);
+      return createWriteResult(request, registerName, { quality: 'BAD', qualityCode: rejection });
+    }
+
+    const client = this.clients.get(deviceConfig.name);
+    if (!client || !client.isConnected()) {
+      return createWriteResult(request, registerName, { quality: 'BAD', qualityCode: 'DEVICE_OFFLINE' });
+    }
+
+    try {
+      await client.writeRegister(register, request.value);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to write ${request.deviceName}/${registerName}: ${errorMessage}`);
+      const qualityCode = errorMessage.includes('read-only')
+        ? 'NOT_WRITABLE'
+        : errorMessage.includes('out of range') ? 'OUT_OF_RANGE' : 'WRITE_FAILED';
+      return createWriteResult(request, registerName, { quality: 'BAD', qualityCode, error: errorMessage });
+    }
+
+    this.logger.info(`Wrote ${request.deviceName}/${registerName} = ${request.value}`);
+    this.emit('value-written', request.deviceName, registerName, request.value);
+
+    if (request.verify === false) {
+      return createWriteResult(request, registerName, { quality: 'UNCERTAIN', qualityCode: 'NOT_VERIFIED' });
+    }
+
+    try {
+      const readBackValue = await client.readRegisterValue(register);
+      if (!valuesMatch(request.value, readBackValue, register!.scale)) {
+        this.logger.warn(
+          `Write verification mismatch on ${request.deviceName}/${registerName}: wrote ${request.value}, read ${readBackValue}`
+        );
+        return createWriteResult(request, registerName, { quality: 'UNCERTAIN', qualityCode: 'VERIFY_MISMATCH', readBackValue });
+      }
+      return createWriteResult(request, registerName, { quality: 'GOOD', readBackValue });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return createWriteResult(request, registerName, { quality: 'UNCERTAIN', qualityCode: 'VERIFY_FAILED', error: errorMessage });
+    }
+  }
+
   /**
    * Check if adapter is running
    */
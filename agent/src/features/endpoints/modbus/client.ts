@@ -584,6 +584,172 @@ export class ModbusClient {
     });
   }
 
+  /**
+   * Read a single register value (used to verify writes)
+   */
+  async readRegisterValue(register: any): Promise<number | boolean | string> {
+    if (!this.isConnected()) {
+      throw new Error('Port is not open');
+    }
+    return this.readRegisterWithRetry(register);
+  }
+
+  /**
+   * Write an engineering value to a register or coil
+   * Applies reverse scale/offset and byte order, then uses
+   * FC5 (coil), FC6 (single register) or FC16 (multiple registers)
+   * CRITICAL: Wrapped with mutex lock to prevent concurrent requests
+   */
+  async writeRegister(register: any, value: number | boolean | string): Promise<void> {
+    if (!this.isConnected()) {
+      throw new Error('Port is not open');
+    }
+
+    const timeout = this.device.connection.timeout || 5000;
+
+    switch (register.functionCode) {
+      case ModbusFunctionCode.READ_COILS:
+      case ModbusFunctionCode.WRITE_SINGLE_COIL:
+      case ModbusFunctionCode.WRITE_MULTIPLE_COILS: {
+        const coilValue = typeof value === 'string' ? value === 'true' || value === '1' : Boolean(value);
+        await this.withTimeout(
+          this.lock(() => this.client.writeCoil(register.address, coilValue)),
+          timeout,
+          `write coil ${register.name}`
+        );
+        break;
+      }
+
+      case ModbusFunctionCode.READ_HOLDING_REGISTERS:
+      case ModbusFunctionCode.WRITE_SINGLE_REGISTER:
+      case ModbusFunctionCode.WRITE_MULTIPLE_REGISTERS: {
+        const registers = this.encodeRegisterData(value, register);
+        if (registers.length === 1 && register.functionCode !== ModbusFunctionCode.WRITE_MULTIPLE_REGISTERS) {
+          await this.withTimeout(
+            this.lock(() => this.client.writeRegister(register.address, registers[0])),
+            timeout,
+            `write register ${register.name}`
+          );
+        } else {
+          await this.withTimeout(
+            this.lock(() => this.client.writeRegisters(register.address, registers)),
+            timeout,
+            `write registers ${register.name}`
+          );
+        }
+        break;
+      }
+
+      default:
+        // Input registers and discrete inputs are read-only by definition
+        throw new Error(`Register ${register.name} is read-only (function code ${register.functionCode})`);
+    }
+
+    this.logger.debug(`Wrote ${register.name} on device ${this.device.name}: ${value}`);
+  }
+
+  /**
+   * Encode an engineering value into raw 16-bit register words
+   * Inverse of parseRegisterData (reverse scale/offset, then byte order)
+   */
+  private encodeRegisterData(value: number | boolean | string, register: any): number[] {
+    const count = register.count || 1;
+    const buffer = Buffer.alloc(count * 2);
+
+    if (register.dataType === ModbusDataType.STRING) {
+      const encoding = (register.encoding || 'ascii') as BufferEncoding;
+      buffer.write(String(value), 0, count * 2, encoding);
+    } else {
+      const numeric = typeof value === 'boolean' ? (value ? 1 : 0) : Number(value);
+      if (!Number.isFinite(numeric)) {
+        throw new Error(`Invalid value for register ${register.name}: ${value}`);
+      }
+      const scale = register.scale ?? 1;
+      if (scale === 0) {
+        throw new Error(`Register ${register.name} has scale 0 and cannot be written`);
+      }
+      const raw = (numeric - (register.offset ?? 0)) / scale;
+
+      switch (register.dataType) {
+        case ModbusDataType.INT16:
+          buffer.writeInt16BE(this.toInteger(raw, -0x8000, 0x7FFF, register), 0);
+          break;
+        case ModbusDataType.UINT16:
+        case ModbusDataType.BOOLEAN:
+          buffer.writeUInt16BE(this.toInteger(raw, 0, 0xFFFF, register), 0);
+          break;
+        case ModbusDataType.INT32:
+          buffer.writeInt32BE(this.toInteger(raw, -0x80000000, 0x7FFFFFFF, register), 0);
+          break;
+        case ModbusDataType.UINT32:
+          buffer.writeUInt32BE(this.toInteger(raw, 0, 0xFFFFFFFF, register), 0);
+          break;
+        case ModbusDataType.FLOAT32:
+          buffer.writeFloatBE(raw, 0);
+          break;
+        default:
+          throw new Error(`Unsupported data type: ${register.dataType}`);
+      }
+    }
+
+    // For 16-bit values (1 register), byte order doesn't matter
+    if (count === 1) {
+      return [buffer.readUInt16BE(0)];
+    }
+
+    return this.splitByByteOrder(buffer, this.resolveByteOrder(register), count);
+  }
+
+  /**
+   * Round to integer and check it fits the register data type
+   */
+  private toInteger(raw: number, min: number, max: number, register: any): number {
+    const rounded = Math.round(raw);
+    if (rounded < min || rounded > max) {
+      throw new Error(`Value out of range for ${register.dataType} register ${register.name}: ${rounded}`);
+    }
+    return rounded;
+  }
+
+  /**
+   * Split a big-endian buffer into register words using ABCD notation
+   * Inverse of applyByteOrder
+   */
+  private splitByByteOrder(buffer: Buffer, byteOrder: ByteOrder, count: number): number[] {
+    const registers: number[] = new Array(count);
+
+    for (let i = 0; i < count; i++) {
+      switch (byteOrder) {
+        case ByteOrder.ABCD:
+          registers[i] = buffer.readUInt16BE(i * 2);
+          break;
+        case ByteOrder.CDAB:
+          registers[count - 1 - i] = buffer.readUInt16BE(i * 2);
+          break;
+        case ByteOrder.BADC:
+          registers[i] = buffer.readUInt16LE(i * 2);
+          break;
+        case ByteOrder.DCBA:
+          registers[count - 1 - i] = buffer.readUInt16LE(i * 2);
+          break;
+        default:
+          throw new Error(`Unsupported byte order: ${byteOrder}`);
+      }
+    }
+
+    return registers;
+  }
+
+  /**
+   * Determine byte order (support both new byteOrder and legacy endianness)
+   */
+  private resolveByteOrder(register: any): ByteOrder {
+    if (!register.byteOrder && register.endianness) {
+      return register.endianness === Endianness.BIG ? ByteOrder.ABCD : ByteOrder.CDAB;
+    }
+    return register.byteOrder || ByteOrder.ABCD;
+  }
+
   /**
    * Parse coil/discrete input data
    */
@@ -598,13 +764,7 @@ export class ModbusClient {
    * Parse register data based on data type
    */
   private parseRegisterData(data: any, register: any): number | string {
-    // Determine byte order (support both new byteOrder and legacy endianness)
-    let byteOrder = register.byteOrder || ByteOrder.ABCD;
-    
-    // Legacy compatibility: map endianness to byteOrder
-    if (!register.byteOrder && register.endianness) {
-      byteOrder = register.endianness === Endianness.BIG ? ByteOrder.ABCD : ByteOrder.CDAB;
-    }
+    const byteOrder = this.resolveByteOrder(register);
     
     const buffer = Buffer.alloc(register.count * 2);
     
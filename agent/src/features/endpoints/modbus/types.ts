@@ -84,7 +84,10 @@ export const ModbusRegisterSchema = z.object({
   offset: z.number().optional().default(0), // Offset value
   unit: z.string().optional().default(''), // Unit of measurement
   encoding: z.enum(['ascii', 'utf8', 'utf-8', 'latin1', 'binary']).optional().default('ascii'), // For STRING type
-  description: z.string().optional().default('')
+  description: z.string().optional().default(''),
+  writable: z.boolean().optional().default(false), // Allow write-back (holding registers and coils only)
+  min: z.number().optional(), // Minimum value accepted for writes (engineering units)
+  max: z.number().optional() // Maximum value accepted for writes (engineering units)
 });
 
 export type ModbusRegister = z.infer<typeof ModbusRegisterSchema>;
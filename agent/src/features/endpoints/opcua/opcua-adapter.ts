@@ -72,7 +72,8 @@ import {
   DataType,
 } from 'node-opcua-client';
 import { BaseProtocolAdapter, GenericDeviceConfig } from '../base.js';
-import { SensorDataPoint, Logger } from '../types.js';
+import { SensorDataPoint, Logger, EndpointWriteRequest, EndpointWriteResult } from '../types.js';
+import { checkWritePermission, createWriteResult, reverseScale, valuesMatch } from '../common/write.js';
 import { ConsoleLogger } from '../common/logger.js';
 import {
   OPCUADeviceConfig,
@@ -1157,6 +1158,119 @@ export class OPCUAAdapter extends BaseProtocolAdapter {
     return results;
   }
 
+  /**
+   * Writes a value to an OPC-UA node (setpoint / write-back)
+   * Data point is selected by name or nodeId. The variant type is taken from
+   * the node's current value, the reverse scale/offset is applied, and the
+   * value is read back to verify.
+   * 
+   * @param request - Write request
+   * @returns Write acknowledgement
+   */
+  public async writeValue(request: EndpointWriteRequest): Promise<EndpointWriteResult> {
+    const device = this.devices.get(request.deviceName) as OPCUADeviceConfig | undefined;
+    const fallbackName = request.register ?? request.nodeId ?? '';
+    if (!device) {
+      return createWriteResult(request, fallbackName, { quality: 'BAD', qualityCode: 'DEVICE_NOT_FOUND' });
+    }
+
+    const dp = device.dataPoints.find(p =>
+      (request.register !== undefined && p.name === request.register) ||
+      (request.nodeId !== undefined && p.nodeId === request.nodeId)
+    );
+    const registerName = dp?.name ?? fallbackName;
+
+    const rejection = checkWritePermission(dp, request.value);
+    if (rejection) {
+      this.logger.warn(`Rejected write to ${request.deviceName}/${registerName}: ${rejection}`);
+      return createWriteResult(request, registerName, { quality: 'BAD', qualityCode: rejection });
+    }
+
+    const sessionWrapper = this.sessions.get(request.deviceName);
+    if (!sessionWrapper?.session) {
+      return createWriteResult(request, registerName, { quality: 'BAD', qualityCode: 'DEVICE_OFFLINE' });
+    }
+    const session = sessionWrapper.session;
+    const scale = dp!.scalingFactor || 1;
+
+    try {
+      const statusCode = await this.lock(request.deviceName, async () => {
+        // Use the node's current variant type so the server accepts the value
+        const current = await session.readVariableValue(dp!.nodeId);
+        const dataType = current.value?.dataType;
+
+        let rawValue: any = request.value;
+        if (typeof rawValue === 'number') {
+          rawValue = reverseScale(rawValue, scale, dp!.offset || 0);
+          if (dataType !== undefined && dataType !== DataType.Float && dataType !== DataType.Double) {
+            rawValue = Math.round(rawValue);
+          }
+        } else if (dataType === DataType.Boolean) {
+          rawValue = rawValue === true || rawValue === 'true' || rawValue === '1';
+        }
+
+        return session.write({
+          nodeId: dp!.nodeId,
+          attributeId: AttributeIds.Value,
+          value: {
+            value: {
+              dataType: dataType ?? DataType.Double,
+              value: rawValue,
+            },
+          },
+        });
+      });
+
+      if (!statusCode.isGood()) {
+        const qualityCode = this.extractQualityCode(statusCode);
+        this.logger.error(`Failed to write ${request.deviceName}/${registerName}: ${statusCode.name}`);
+        return createWriteResult(request, registerName, {
+          quality: 'BAD',
+          qualityCode: qualityCode === 'ACCESS_DENIED' ? 'NOT_WRITABLE' : qualityCode,
+          error: statusCode.description,
+        });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to write ${request.deviceName}/${registerName}: ${errorMessage}`);
+      return createWriteResult(request, registerName, { quality: 'BAD', qualityCode: 'WRITE_FAILED', error: errorMessage });
+    }
+
+    this.logger.info(`Wrote ${request.deviceName}/${registerName} = ${request.value}`);
+    this.emit('value-written', request.deviceName, registerName, request.value);
+
+    if (request.verify === false) {
+      return createWriteResult(request, registerName, { quality: 'UNCERTAIN', qualityCode: 'NOT_VERIFIED' });
+    }
+
+    try {
+      const dataValue = await this.lock(request.deviceName, () => session.readVariableValue(dp!.nodeId));
+      if (!dataValue.statusCode.isGood()) {
+        return createWriteResult(request, registerName, {
+          quality: 'UNCERTAIN',
+          qualityCode: 'VERIFY_FAILED',
+          error: dataValue.statusCode.description,
+        });
+      }
+
+      let readBackValue = dataValue.value.value;
+      if (typeof readBackValue === 'number') {
+        readBackValue = readBackValue * scale + (dp!.offset || 0);
+      }
+
+      if (!valuesMatch(request.value, readBackValue, scale)) {
+        this.logger.warn(
+          `Write verification mismatch on ${request.deviceName}/${registerName}: wrote ${request.value}, read ${readBackValue}`
+        );
+        return createWriteResult(request, registerName, { quality: 'UNCERTAIN', qualityCode: 'VERIFY_MISMATCH', readBackValue });
+      }
+      return createWriteResult(request, registerName, { quality: 'GOOD', readBackValue });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return createWriteResult(request, registerName, { quality: 'UNCERTAIN', qualityCode: 'VERIFY_FAILED', error: errorMessage });
+    }
+  }
+
   /**
    * Converts security mode string to OPC-UA MessageSecurityMode enum
    */
@@ -93,6 +93,15 @@ export const OPCUADataPointSchema = z.object({
   
   /** Offset (optional) */
   offset: z.number().optional(),
+  
+  /** Allow write-back to this node (optional, default false) */
+  writable: z.boolean().optional(),
+  
+  /** Minimum value accepted for writes, in engineering units (optional) */
+  min: z.number().optional(),
+  
+  /** Maximum value accepted for writes, in engineering units (optional) */
+  max: z.number().optional(),
 });
 export type OPCUADataPoint = z.infer<typeof OPCUADataPointSchema>;
 
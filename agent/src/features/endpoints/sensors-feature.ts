@@ -19,6 +19,8 @@ import { ModbusAdapter } from './modbus/adapter.js';
 import { ModbusAdapterConfig } from './modbus/types.js';
 import { SocketServer } from './common/socket-server.js';
 import { SensorDataPoint, SocketOutput } from './types.js';
+import { CANAdapter } from './can/can-adapter.js';
+import { CANAdapterConfig, CANSignalSchema, CANDeviceConfig } from './can/types.js';
 import { SensorOutputModel } from '../../db/models/sensor-outputs.model.js';
 import { DeviceSensorModel } from '../../db/models/sensors.model.js';
 
@@ -33,6 +35,7 @@ export interface SensorConfig extends FeatureConfig {
   };
   can?: {
     enabled: boolean;
+    config?: CANAdapterConfig; // Optional: provide config directly, otherwise load from database
   };
   opcua?: {
     enabled: boolean;
@@ -43,6 +46,7 @@ export interface SensorConfig extends FeatureConfig {
 export class SensorsFeature extends BaseFeature {
   private modbusAdapter?: ModbusAdapter;
   private opcuaAdapter?: OPCUAAdapter;
+  private canAdapter?: CANAdapter;
   private socketServers: Map<string, SocketServer> = new Map();
 
   constructor(
@@ -74,9 +78,9 @@ export class SensorsFeature extends BaseFeature {
       await this.startOPCUAAdapter();
     }
 
-    // TODO: Start CAN adapter when implemented
+    // Start CAN adapter if enabled
     if ((this.config as SensorConfig).can?.enabled) {
-      this.logger.warn('CAN adapter not yet implemented');
+      await this.startCANAdapter();
     }
 
     this.emit('started');
@@ -98,6 +102,12 @@ export class SensorsFeature extends BaseFeature {
       this.opcuaAdapter = undefined;
     }
 
+    // Stop CAN adapter
+    if (this.canAdapter) {
+      await this.canAdapter.stop();
+      this.canAdapter = undefined;
+    }
+
     // Stop all socket servers
     for (const [protocol, server] of this.socketServers) {
       this.logger.info(`Stopping ${protocol} socket server`);
@@ -105,8 +115,6 @@ export class SensorsFeature extends BaseFeature {
     }
     this.socketServers.clear();
 
-    // TODO: Stop other adapters (CAN, etc.)
-
     this.emit('stopped');
   }
 
@@ -318,6 +326,96 @@ export class SensorsFeature extends BaseFeature {
     }
   }
 
+  /**
+   * Start CAN adapter
+   */
+  private async startCANAdapter(): Promise<void> {
+    try {
+      let canDevices: CANDeviceConfig[];
+      let outputConfig: SocketOutput;
+
+      // Load config from provided config object or database
+      if (this.config.can!.config) {
+        // Use provided config
+        canDevices = this.config.can!.config.devices;
+      } else {
+        // Load devices from database
+        const dbDevices = await DeviceSensorModel.getEnabled('can');
+        
+        // Convert database format to CANDeviceConfig array
+        // Database stores CAN messages (with their signals) in the data_points field
+        canDevices = dbDevices.map(d => ({
+          name: d.name,
+          protocol: 'can' as const,
+          enabled: d.enabled,
+          connection: {
+            ...d.connection,
+            interface: d.connection.interface || 'can0'
+          },
+          pollInterval: d.poll_interval,
+          dataPoints: (d.data_points || []).map((message: any) => ({
+            ...message,
+            signals: (message.signals || []).map((signal: any) => CANSignalSchema.parse(signal))
+          })),
+          metadata: d.metadata || {}
+        }));
+      }
+
+      // Load output config from database
+      const dbOutput = await SensorOutputModel.getOutput('can');
+      if (!dbOutput) {
+        throw new Error('CAN output configuration not found in database');
+      }
+      outputConfig = {
+        socketPath: dbOutput.socket_path,
+        dataFormat: dbOutput.data_format as 'json' | 'csv',
+        delimiter: dbOutput.delimiter,
+        includeTimestamp: dbOutput.include_timestamp,
+        includeDeviceName: dbOutput.include_device_name
+      };
+
+      // Create socket server for CAN protocol
+      const canSocket = new SocketServer(outputConfig, this.logger);
+      await canSocket.start();
+      this.socketServers.set('can', canSocket);
+      this.logger.info(`CAN socket server started at: ${outputConfig.socketPath}`);
+
+      // Create CAN adapter (socket-agnostic, SocketCAN loaded on demand)
+      const canAdapter = new CANAdapter(canDevices, this.logger);
+      this.canAdapter = canAdapter;
+
+      // Wire up event handlers
+      canAdapter.on('started', () => {
+        this.logger.info('CAN adapter started');
+      });
+
+      canAdapter.on('data', (dataPoints: SensorDataPoint[]) => {
+        // Route data from adapter to socket server
+        canSocket.sendData(dataPoints);
+      });
+
+      canAdapter.on('device-connected', (deviceName: string) => {
+        this.logger.info(`CAN device connected: ${deviceName}`);
+      });
+
+      canAdapter.on('device-disconnected', (deviceName: string) => {
+        this.logger.warn(`CAN device disconnected: ${deviceName}`);
+      });
+
+      canAdapter.on('device-error', (deviceName: string, error: Error) => {
+        this.logger.error(`CAN device error [${deviceName}]: ${error.message}`);
+      });
+
+      // Start adapter
+      await canAdapter.start();
+      
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to start CAN adapter: ${errorMessage}`);
+      throw error;
+    }
+  }
+
   /**
    * Get Modbus adapter instance (for testing/debugging)
    */
@@ -332,6 +430,13 @@ export class SensorsFeature extends BaseFeature {
     return this.opcuaAdapter;
   }
 
+  /**
+   * Get CAN adapter instance (for testing/debugging)
+   */
+  getCANAdapter(): CANAdapter | undefined {
+    return this.canAdapter;
+  }
+
   /**
    * Get device statuses from all enabled protocol adapters
    * Returns a map of protocol type to array of device statuses
@@ -355,7 +460,13 @@ export class SensorsFeature extends BaseFeature {
       }
     }
 
-    // TODO: Add CAN device statuses when implemented
+    // Collect CAN device statuses
+    if (this.canAdapter) {
+      const canStatuses = this.canAdapter.getDeviceStatuses();
+      if (canStatuses.length > 0) {
+        statuses.set('can', canStatuses);
+      }
+    }
 
     return statuses;
   }
@@ -64,3 +64,34 @@ export interface Logger {
   warn(message: string, ...args: any[]): void;
   error(message: string, ...args: any[]): void;
 }
+
+/**
+ * Write (setpoint) request for a field device
+ * Received from the cloud over MQTT or from the device API
+ */
+export interface EndpointWriteRequest {
+  commandId?: string;  // Correlates the acknowledgement with the cloud command
+  deviceName: string;
+  register?: string;  // Register / data point name
+  nodeId?: string;  // OPC-UA node ID (alternative to register)
+  value: number | boolean | string;  // Engineering value (before reverse scale/offset)
+  verify?: boolean;  // Read back after writing (default: true)
+}
+
+/**
+ * Write acknowledgement
+ * Quality follows the same OPC UA model as SensorDataPoint:
+ * GOOD = written and verified, UNCERTAIN = written but not verified, BAD = rejected or failed
+ */
+export interface EndpointWriteResult {
+  commandId?: string;
+  deviceName: string;
+  registerName: string;
+  requestedValue: number | boolean | string;
+  readBackValue: number | boolean | string | null;
+  success: boolean;
+  quality: 'GOOD' | 'BAD' | 'UNCERTAIN';
+  qualityCode?: string;  // Error code when quality is not GOOD (e.g., 'NOT_WRITABLE', 'OUT_OF_RANGE')
+  error?: string;
+  timestamp: string;
+}
@@ -14,6 +14,12 @@ import {
 import type { AgentLogger } from '../../../logging/agent-logger';
 import { LogComponents } from '../../../logging/types';
 
+/**
+ * Built-in handler implemented by the agent itself. Returns the action's
+ * stdout; a thrown error fails the action with its message as stderr.
+ */
+export type BuiltinHandler = (args: string[]) => Promise<string>;
+
 /**
  * JobEngine - Manages execution of job actions and commands
  * Ported from C++ JobEngine class
@@ -24,11 +30,20 @@ export class JobEngine {
   private static readonly DEFAULT_PATH_KEYWORD = 'default';
 
   private logger?: AgentLogger;
+  private builtinHandlers = new Map<string, BuiltinHandler>();
 
   constructor(logger?: AgentLogger) {
     this.logger = logger;
   }
 
+  /**
+   * Register a built-in handler. runHandler actions naming it call the function
+   * instead of looking up a handler script.
+   */
+  registerHandler(name: string, handler: BuiltinHandler): void {
+    this.builtinHandlers.set(name, handler);
+  }
+
   /**
    * Execute all steps in a job document
    * Ported from C++ exec_steps method
@@ -192,6 +207,23 @@ export class JobEngine {
     runAsUser?: string, 
     allowStdErr?: number
   ): Promise<ActionResult> {
+    const builtin = this.builtinHandlers.get(handlerInput.handler);
+    if (builtin) {
+      this.logger?.debugSync(`Executing built-in handler: ${handlerInput.handler}`, {
+        component: LogComponents.jobEngine,
+        handler: handlerInput.handler,
+        args: handlerInput.args || []
+      });
+      const stdout = await builtin(handlerInput.args || []);
+      return {
+        exitCode: 0,
+        stdout: this.truncateOutput(stdout),
+        stderr: '',
+        success: true,
+        reason: 'Handler executed successfully'
+      };
+    }
+
     const handlerPath = await this.buildHandlerCommand(handlerInput.path, handlerInput.handler);
     const args = handlerInput.args || [];
     
@@ -5,9 +5,12 @@
  * Abstraction layer over fetch() to make sync-state testable.
  * Allows easy mocking in tests without stubbing global fetch.
  * 
- * Supports HTTPS with custom CA certificates for self-signed certs.
+ * Supports HTTPS with custom CA certificates for self-signed certs and
+ * client certificates for mutual TLS.
  */
 
+import { Agent } from 'undici';
+
 export interface HttpResponse<T = any> {
 	ok: boolean;
 	status: number;
@@ -21,6 +24,10 @@ export interface HttpResponse<T = any> {
 export interface HttpClientOptions {
 	/** Custom CA certificate for HTTPS (PEM format) */
 	caCert?: string;
+	/** Client certificate for mutual TLS (PEM format) */
+	clientCert?: string;
+	/** Private key of the client certificate (PEM format) */
+	clientKey?: string;
 	/** Whether to reject unauthorized certificates (default: true) */
 	rejectUnauthorized?: boolean;
 	/** Default headers to include in all requests */
@@ -71,12 +78,17 @@ export interface HttpClient {
  */
 export class FetchHttpClient implements HttpClient {
 	private caCert?: string;
+	private clientCert?: string;
+	private clientKey?: string;
+	private mtlsDispatcher?: Agent;
 	private rejectUnauthorized: boolean;
 	private defaultHeaders: Record<string, string>;
 	private defaultTimeout?: number;
 
 	constructor(options?: HttpClientOptions) {
 		this.caCert = options?.caCert;
+		this.clientCert = options?.clientCert;
+		this.clientKey = options?.clientKey;
 		this.rejectUnauthorized = options?.rejectUnauthorized !== false;
 		this.defaultHeaders = options?.defaultHeaders || {};
 		this.defaultTimeout = options?.defaultTimeout;
@@ -99,7 +111,7 @@ export class FetchHttpClient implements HttpClient {
 		if (this.isHttps(url)) {
 			console.log('[HttpClient] Making HTTPS request:', {
 				url,
-				hasAgent: !!(httpsAgent as any).agent,
+				hasAgent: !!((httpsAgent as any).agent || (httpsAgent as any).dispatcher),
 				rejectUnauthorized: this.rejectUnauthorized
 			});
 		}
@@ -245,9 +257,25 @@ export class FetchHttpClient implements HttpClient {
 		// Debug logging
 		console.log('[HttpClient] Creating HTTPS agent:', {
 			hasCaCert: !!this.caCert,
+			hasClientCert: !!this.clientCert,
 			rejectUnauthorized: this.rejectUnauthorized
 		});
 		
+		// Client certificates need an undici dispatcher, fetch() ignores agent
+		if (this.clientCert && this.clientKey) {
+			if (!this.mtlsDispatcher) {
+				this.mtlsDispatcher = new Agent({
+					connect: {
+						ca: this.caCert,
+						cert: this.clientCert,
+						key: this.clientKey,
+						rejectUnauthorized: this.rejectUnauthorized,
+					},
+				});
+			}
+			return { dispatcher: this.mtlsDispatcher };
+		}
+		
 		// Node.js fetch uses undici internally but doesn't expose it
 		// The agent option doesn't work reliably with fetch()
 		// We've already set NODE_TLS_REJECT_UNAUTHORIZED in constructor if needed
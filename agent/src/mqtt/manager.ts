@@ -168,8 +168,8 @@ export class MqttManager extends EventEmitter {
           reconnectAttempts: this.reconnectAttempts
         });
         
-        // Schedule reconnect with exponential backoff
-        this.scheduleReconnect(brokerUrl, options);
+        // Schedule reconnect with exponential backoff (latest options, see updateConnectOptions)
+        this.scheduleReconnect(brokerUrl, this.lastOptions);
       });
 
       // Set up global message handler
@@ -352,6 +352,14 @@ export class MqttManager extends EventEmitter {
     return this.connected && this.client !== null;
   }
 
+  /**
+   * Update connection options used for the next (re)connect, e.g. a renewed
+   * client certificate. The current connection is kept.
+   */
+  public updateConnectOptions(options: Partial<IClientOptions>): void {
+    this.lastOptions = { ...this.lastOptions, ...options };
+  }
+
   /**
    * Disconnect from MQTT broker
    */
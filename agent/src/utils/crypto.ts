@@ -1,6 +1,6 @@
 /**
- * CRYPTO UTILITIES - UUID Generation and API Key Generation
- * ==========================================================
+ * CRYPTO UTILITIES - UUID Generation, API Keys and Secret Encryption
+ * ==================================================================
  * 
  * Provides cryptographic utilities for device provisioning and security.
  */
@@ -40,3 +40,30 @@ export class DefaultUuidGenerator implements UuidGenerator {
 export function generateAPIKey(): string {
 	return crypto.randomBytes(32).toString('hex');
 }
+
+/**
+ * Encrypt a secret for storage at rest (AES-256-GCM)
+ * @param key - 32-byte key
+ * @returns base64(iv):base64(authTag):base64(ciphertext)
+ */
+export function encryptSecret(plaintext: string, key: Buffer): string {
+	const iv = crypto.randomBytes(12);
+	const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+	const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+	const tag = cipher.getAuthTag();
+	return [iv, tag, ciphertext].map((part) => part.toString('base64')).join(':');
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ * Throws if the payload was tampered with or the key does not match
+ */
+export function decryptSecret(payload: string, key: Buffer): string {
+	const [iv, tag, ciphertext] = payload.split(':').map((part) => Buffer.from(part, 'base64'));
+	if (!iv || !tag || !ciphertext) {
+		throw new Error('Invalid encrypted secret format');
+	}
+	const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+	decipher.setAuthTag(tag);
+	return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
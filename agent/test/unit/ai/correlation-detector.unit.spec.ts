@@ -0,0 +1,126 @@
+import { AnomalyDetectionService } from '../../../src/ai/anomaly';
+import { createBuffer, addValue } from '../../../src/ai/anomaly/buffer';
+import { CorrelationDetector } from '../../../src/ai/anomaly/detectors';
+import type { AnomalyConfig, MetricConfig, StatisticalBuffer } from '../../../src/ai/anomaly/types';
+
+const metricConfig: MetricConfig = {
+	name: 'pump_current',
+	enabled: true,
+	methods: ['correlation'],
+	threshold: 3.0,
+	windowSize: 100,
+	correlations: [{ metric: 'flow' }],
+};
+
+// Pump current follows flow while the pump is healthy
+const flowAt = (i: number) => 50 + 20 * Math.sin(i / 5);
+const currentFor = (flow: number) => 2 + flow * 0.1;
+
+function fillBuffers(samples: number, broken: (i: number) => boolean) {
+	const current = createBuffer(100);
+	const flow = createBuffer(100);
+	for (let i = 0; i < samples; i++) {
+		const timestamp = 1_000_000 + i * 1000;
+		const f = flowAt(i);
+		addValue(flow, f, timestamp);
+		// Broken: current stays in its normal range but no longer follows flow
+		addValue(current, broken(i) ? currentFor(flowAt(i + 15)) : currentFor(f), timestamp);
+	}
+	return { current, flow };
+}
+
+function contextFor(buffers: Record<string, StatisticalBuffer>) {
+	return { getBuffer: (metric: string) => buffers[metric] };
+}
+
+describe('CorrelationDetector', () => {
+	const detector = new CorrelationDetector();
+
+	it('should not alert while the relationship holds', () => {
+		const { current, flow } = fillBuffers(80, () => false);
+		const result = detector.detect(current.values[79], current, metricConfig, contextFor({ flow }));
+
+		expect(result.isAnomaly).toBe(false);
+		expect(result.correlation?.expectedCorrelation).toBeCloseTo(1, 2);
+		expect(result.correlation?.observedCorrelation).toBeCloseTo(1, 2);
+	});
+
+	it('should alert when the relationship breaks within normal ranges', () => {
+		const { current, flow } = fillBuffers(80, i => i >= 60);
+		const result = detector.detect(current.values[79], current, metricConfig, contextFor({ flow }));
+
+		expect(result.isAnomaly).toBe(true);
+		expect(result.correlation).toMatchObject({ partnerMetric: 'flow' });
+		expect(result.correlation!.observedCorrelation).toBeLessThan(0.5);
+		expect(result.message).toContain('flow');
+	});
+
+	it('should wait for enough paired samples', () => {
+		const { current, flow } = fillBuffers(30, () => false);
+		const result = detector.detect(current.values[29], current, metricConfig, contextFor({ flow }));
+
+		expect(result.isAnomaly).toBe(false);
+		expect(result.message).toContain('Insufficient paired samples');
+	});
+
+	it('should ignore samples too far apart in time', () => {
+		const { current } = fillBuffers(80, () => false);
+		const flow = createBuffer(100);
+		for (let i = 0; i < 80; i++) {
+			addValue(flow, flowAt(i), 5_000_000 + i * 1000);
+		}
+		const result = detector.detect(current.values[79], current, metricConfig, contextFor({ flow }));
+
+		expect(result.isAnomaly).toBe(false);
+		expect(result.message).toContain('Insufficient paired samples');
+	});
+
+	it('should skip pairs without a learned correlation', () => {
+		const { current } = fillBuffers(80, () => false);
+		const flow = createBuffer(100);
+		for (let i = 0; i < 80; i++) {
+			addValue(flow, i % 2 === 0 ? 10 : 12, 1_000_000 + i * 1000);
+		}
+		const result = detector.detect(current.values[79], current, metricConfig, contextFor({ flow }));
+
+		expect(result.isAnomaly).toBe(false);
+		expect(result.message).toContain('No significant correlation');
+	});
+});
+
+describe('AnomalyDetectionService correlation alerts', () => {
+	it('should raise an alert naming the partner metric', () => {
+		const config: AnomalyConfig = {
+			enabled: true,
+			sensitivity: 5,
+			metrics: [metricConfig],
+			alerts: { mqtt: false, cloud: false, minConfidence: 0.5, cooldownMs: 60000, maxQueueSize: 100 },
+			storage: { historyDays: 1, dbPath: ':memory:' },
+		};
+		const service = new AnomalyDetectionService(config);
+
+		for (let i = 0; i < 80; i++) {
+			const timestamp = 1_000_000 + i * 1000;
+			const flow = flowAt(i);
+			// flow is not monitored itself, only buffered as correlation partner
+			service.processDataPoint({ source: 'sensor', metric: 'flow', value: flow, unit: 'l/min', timestamp });
+			service.processDataPoint({
+				source: 'sensor',
+				metric: 'pump_current',
+				value: i >= 60 ? currentFor(flowAt(i + 15)) : currentFor(flow),
+				unit: 'A',
+				timestamp,
+			});
+		}
+
+		const [alert] = service.getAlertsByMetric('pump_current');
+		expect(alert).toBeDefined();
+		expect(alert.detectionMethod).toBe('correlation');
+		expect(alert.context.correlation).toMatchObject({
+			partnerMetric: 'flow',
+			expectedCorrelation: expect.any(Number),
+			observedCorrelation: expect.any(Number),
+		});
+		expect(service.getAlertsByMetric('flow')).toHaveLength(0);
+	});
+});
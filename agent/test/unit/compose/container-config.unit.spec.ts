@@ -0,0 +1,175 @@
+import type Docker from 'dockerode';
+import {
+	buildRuntimeOptions,
+	parseRuntimeOptions,
+	runtimeOptionChanges,
+	orderByDependencies,
+	normalizeDependsOn,
+	normalizeDevice,
+	DEPENDS_ON_LABEL,
+	RuntimeOptions,
+} from '../../../src/compose/container-config';
+import { DependencyCycleError } from '../../../src/compose/errors';
+
+/**
+ * Simulate `docker inspect` for a container created with the given options
+ */
+function inspectFor(config: RuntimeOptions): Docker.ContainerInspectInfo {
+	const options = buildRuntimeOptions(config);
+	return {
+		Config: {
+			Cmd: options.container.Cmd,
+			Entrypoint: options.container.Entrypoint,
+			WorkingDir: options.container.WorkingDir || '',
+			User: options.container.User || '',
+			Labels: options.labels,
+		},
+		HostConfig: {
+			Devices: options.hostConfig.Devices || [],
+			Privileged: options.hostConfig.Privileged || false,
+			CapAdd: options.hostConfig.CapAdd || null,
+			CapDrop: options.hostConfig.CapDrop || null,
+			Tmpfs: options.hostConfig.Tmpfs,
+			ExtraHosts: options.hostConfig.ExtraHosts || null,
+			LogConfig: options.hostConfig.LogConfig || { Type: 'json-file', Config: {} },
+		},
+	} as any;
+}
+
+describe('container-config', () => {
+	const fields: Array<[keyof RuntimeOptions, RuntimeOptions, RuntimeOptions]> = [
+		['command', { command: ['python', 'main.py'] }, { command: ['python', 'main.py', '--debug'] }],
+		['entrypoint', { entrypoint: ['/entrypoint.sh'] }, { entrypoint: ['/bin/sh', '-c'] }],
+		['workingDir', { workingDir: '/app' }, { workingDir: '/srv' }],
+		['user', { user: '1000:1000' }, { user: 'node' }],
+		['devices', { devices: ['/dev/ttyUSB0:/dev/ttyUSB0:rwm'] }, { devices: ['/dev/ttyUSB1:/dev/ttyUSB0:rwm'] }],
+		['privileged', { privileged: true }, { privileged: false }],
+		['capAdd', { capAdd: ['NET_ADMIN', 'SYS_RAWIO'] }, { capAdd: ['NET_ADMIN'] }],
+		['capDrop', { capDrop: ['MKNOD'] }, { capDrop: ['MKNOD', 'NET_RAW'] }],
+		['tmpfs', { tmpfs: ['/run:size=64m', '/tmp'] }, { tmpfs: ['/run:size=128m', '/tmp'] }],
+		['extraHosts', { extraHosts: ['broker.local:10.0.0.5'] }, { extraHosts: ['broker.local:10.0.0.6'] }],
+		['logging', { logging: { driver: 'local', options: { 'max-size': '10m' } } }, { logging: { driver: 'local', options: { 'max-size': '20m' } } }],
+	];
+
+	describe.each(fields)('%s', (field, config, changed) => {
+		it('should round-trip through create options and inspect', () => {
+			const current = parseRuntimeOptions(inspectFor(config));
+
+			expect(current[field]).toEqual(config[field] === false ? undefined : config[field]);
+			expect(runtimeOptionChanges(current, config)).toEqual([]);
+		});
+
+		it('should require recreation when changed', () => {
+			const current = parseRuntimeOptions(inspectFor(config));
+
+			expect(runtimeOptionChanges(current, changed)).toEqual([field]);
+		});
+	});
+
+	it('should map options onto Docker create options', () => {
+		const options = buildRuntimeOptions({
+			command: ['--verbose'],
+			devices: ['/dev/ttyUSB0'],
+			tmpfs: ['/run:size=64m,mode=1777'],
+			logging: { driver: 'json-file', options: { 'max-file': '3' } },
+			dependsOn: ['broker', 'db'],
+		});
+
+		expect(options.container.Cmd).toEqual(['--verbose']);
+		expect(options.hostConfig.Devices).toEqual([
+			{ PathOnHost: '/dev/ttyUSB0', PathInContainer: '/dev/ttyUSB0', CgroupPermissions: 'rwm' },
+		]);
+		expect(options.hostConfig.Tmpfs).toEqual({ '/run': 'size=64m,mode=1777' });
+		expect(options.hostConfig.LogConfig).toEqual({ Type: 'json-file', Config: { 'max-file': '3' } });
+		expect(options.labels).toEqual({ [DEPENDS_ON_LABEL]: 'broker,db' });
+	});
+
+	it('should round-trip dependsOn through the label without requiring recreation', () => {
+		const current = parseRuntimeOptions(inspectFor({ dependsOn: ['broker', 'db'] }));
+
+		expect(current.dependsOn).toEqual(['broker', 'db']);
+		expect(runtimeOptionChanges(current, { dependsOn: ['broker'] })).toEqual([]);
+	});
+
+	it('should compare short and long device forms as equal', () => {
+		expect(normalizeDevice('/dev/ttyUSB0')).toBe('/dev/ttyUSB0:/dev/ttyUSB0:rwm');
+		expect(normalizeDevice('/dev/ttyUSB0:/dev/serial')).toBe('/dev/ttyUSB0:/dev/serial:rwm');
+
+		const current = parseRuntimeOptions(inspectFor({ devices: ['/dev/ttyUSB0'] }));
+		expect(runtimeOptionChanges(current, { devices: ['/dev/ttyUSB0'] })).toEqual([]);
+	});
+
+	it('should ignore image defaults when the target does not set them', () => {
+		const current = parseRuntimeOptions({
+			Config: { Cmd: ['nginx', '-g', 'daemon off;'], WorkingDir: '/usr/share/nginx', User: 'nginx', Labels: {} },
+			HostConfig: { LogConfig: { Type: 'json-file', Config: {} } },
+		} as any);
+
+		expect(runtimeOptionChanges(current, {})).toEqual([]);
+	});
+
+	it('should detect removed options', () => {
+		const current = parseRuntimeOptions(inspectFor({ privileged: true, devices: ['/dev/ttyUSB0'] }));
+
+		expect(runtimeOptionChanges(current, {})).toEqual(['devices', 'privileged']);
+	});
+
+	it('should order services after their dependencies', () => {
+		const service = (serviceName: string, dependsOn?: string[]) => ({ serviceName, config: { dependsOn } });
+		const ordered = orderByDependencies([
+			service('adapter', ['broker']),
+			service('dashboard', ['adapter', 'db']),
+			service('broker'),
+			service('db'),
+		]);
+
+		expect(ordered.map(s => s.serviceName)).toEqual(['broker', 'adapter', 'db', 'dashboard']);
+	});
+
+	it('should ignore unknown dependencies', () => {
+		const service = (serviceName: string, dependsOn?: string[]) => ({ serviceName, config: { dependsOn } });
+		const ordered = orderByDependencies([
+			service('c', ['missing']),
+			service('a', ['c']),
+		]);
+
+		expect(ordered.map(s => s.serviceName)).toEqual(['c', 'a']);
+	});
+
+	it('should throw on a dependency cycle with its path', () => {
+		const service = (serviceName: string, dependsOn?: string[]) => ({ serviceName, config: { dependsOn } });
+		const order = () => orderByDependencies([
+			service('a', ['b']),
+			service('b', ['c']),
+			service('c', ['a']),
+		]);
+
+		expect(order).toThrow(DependencyCycleError);
+		expect(order).toThrow('a -> b -> c -> a');
+	});
+
+	it('should order by dependencies declared with a condition', () => {
+		const ordered = orderByDependencies([
+			{ serviceName: 'adapter', config: { dependsOn: [{ service: 'db', condition: 'healthy' as const }] } },
+			{ serviceName: 'db', config: {} },
+		]);
+
+		expect(ordered.map(s => s.serviceName)).toEqual(['db', 'adapter']);
+	});
+
+	it('should round-trip dependency conditions through the label', () => {
+		const dependsOn = ['broker', { service: 'db', condition: 'healthy' as const }];
+		const options = buildRuntimeOptions({ dependsOn });
+
+		expect(options.labels).toEqual({ [DEPENDS_ON_LABEL]: 'broker,db:healthy' });
+		expect(parseRuntimeOptions(inspectFor({ dependsOn })).dependsOn).toEqual(dependsOn);
+	});
+
+	it('should normalize dependsOn entries', () => {
+		expect(normalizeDependsOn(['broker', { service: 'db' }, { service: 'cache', condition: 'healthy' }])).toEqual([
+			{ service: 'broker', condition: 'started' },
+			{ service: 'db', condition: 'started' },
+			{ service: 'cache', condition: 'healthy' },
+		]);
+	});
+});
@@ -0,0 +1,122 @@
+import * as crypto from 'crypto';
+import { verifyImageSignature, ImagePolicy } from '../../../src/compose/image-verification';
+import { ContainerManager, ContainerService } from '../../../src/compose/container-manager';
+import { ImageVerificationError } from '../../../src/compose/errors';
+
+const digest = 'sha256:' + 'c'.repeat(64);
+const imageName = `ghcr.io/acme/sensor:1.4@${digest}`;
+
+function keyPair() {
+	const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+	return {
+		publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+		sign: (image: string, imageDigest: string) =>
+			crypto.sign(null, Buffer.from(`iotistic-image-v1\n${image}@${imageDigest}`), privateKey).toString('base64'),
+	};
+}
+
+describe('image-verification', () => {
+	const platform = keyPair();
+	const policy: ImagePolicy = {
+		mode: 'enforce',
+		signatures: [{ image: 'ghcr.io/acme/sensor', digest, signature: platform.sign('ghcr.io/acme/sensor', digest) }],
+	};
+
+	describe('verifyImageSignature', () => {
+		it('should accept an image signed by the platform key', () => {
+			expect(verifyImageSignature(imageName, policy, platform.publicKey)).toEqual({ verified: true });
+		});
+
+		it('should match Docker Hub images by their canonical name', () => {
+			const hubPolicy: ImagePolicy = {
+				...policy,
+				signatures: [{ image: 'docker.io/library/nginx', digest, signature: platform.sign('docker.io/library/nginx', digest) }],
+			};
+			expect(verifyImageSignature(`nginx:1.25@${digest}`, hubPolicy, platform.publicKey).verified).toBe(true);
+		});
+
+		it('should reject images that are not pinned to a digest', () => {
+			const result = verifyImageSignature('ghcr.io/acme/sensor:1.4', policy, platform.publicKey);
+			expect(result.verified).toBe(false);
+			expect(result.reason).toContain('not pinned');
+		});
+
+		it('should reject images without a signature', () => {
+			const other = 'sha256:' + 'd'.repeat(64);
+			const result = verifyImageSignature(`ghcr.io/acme/sensor:1.4@${other}`, policy, platform.publicKey);
+			expect(result.verified).toBe(false);
+			expect(result.reason).toContain('not signed');
+		});
+
+		it('should reject signatures made with another key', () => {
+			const attacker = keyPair();
+			const forged: ImagePolicy = {
+				...policy,
+				signatures: [{ image: 'ghcr.io/acme/sensor', digest, signature: attacker.sign('ghcr.io/acme/sensor', digest) }],
+			};
+			expect(verifyImageSignature(imageName, forged, platform.publicKey).verified).toBe(false);
+		});
+
+		it('should not verify anything without a pinned device key', () => {
+			const withKey = { ...policy, publicKey: platform.publicKey } as ImagePolicy;
+			const result = verifyImageSignature(imageName, withKey, undefined);
+			expect(result.verified).toBe(false);
+			expect(result.reason).toContain('IMAGE_SIGNING_PUBLIC_KEY');
+		});
+	});
+
+	describe('ContainerManager image policy', () => {
+		const originalKey = process.env.IMAGE_SIGNING_PUBLIC_KEY;
+
+		beforeEach(() => {
+			process.env.IMAGE_SIGNING_PUBLIC_KEY = platform.publicKey;
+		});
+
+		afterEach(() => {
+			if (originalKey === undefined) {
+				delete process.env.IMAGE_SIGNING_PUBLIC_KEY;
+			} else {
+				process.env.IMAGE_SIGNING_PUBLIC_KEY = originalKey;
+			}
+		});
+
+		const service = {
+			serviceId: 1,
+			serviceName: 'sensor',
+			imageName: 'ghcr.io/acme/sensor:1.4',
+			appId: 1001,
+			appName: 'sensors',
+			config: { image: 'ghcr.io/acme/sensor:1.4' },
+		} as ContainerService;
+
+		function managerWith(mode: ImagePolicy['mode']): ContainerManager {
+			const manager = new ContainerManager();
+			manager.setImagePolicy({ ...policy, mode });
+			(manager as any).targetState = {
+				apps: { 1001: { appId: 1001, appName: 'sensors', services: [{ ...service }] } },
+			};
+			return manager;
+		}
+
+		it('should refuse unsigned images in enforce mode and mark the service', () => {
+			const manager = managerWith('enforce');
+
+			expect(() => (manager as any).checkImagePolicy(1001, service)).toThrow(ImageVerificationError);
+			const marked = (manager as any).targetState.apps[1001].services[0];
+			expect(marked.serviceStatus).toBe('error');
+			expect(marked.error.type).toBe('ImageVerificationFailed');
+		});
+
+		it('should only warn in warn mode', () => {
+			const manager = managerWith('warn');
+
+			expect(() => (manager as any).checkImagePolicy(1001, service)).not.toThrow();
+		});
+
+		it('should allow signed images in enforce mode', () => {
+			const manager = managerWith('enforce');
+
+			expect(() => (manager as any).checkImagePolicy(1001, { ...service, imageName })).not.toThrow();
+		});
+	});
+});
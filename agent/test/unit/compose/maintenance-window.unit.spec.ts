@@ -0,0 +1,163 @@
+import { MaintenanceSchedule } from '../../../src/compose/maintenance-window';
+import { UpdateLockManager } from '../../../src/compose/update-lock';
+import { ContainerManager, ContainerService } from '../../../src/compose/container-manager';
+import { UpdateLockModel } from '../../../src/db/models/update-locks.model';
+
+jest.mock('../../../src/db/models/update-locks.model', () => ({
+	UpdateLockModel: {
+		getAll: jest.fn().mockResolvedValue([]),
+		upsert: jest.fn().mockResolvedValue(undefined),
+		delete: jest.fn().mockResolvedValue(undefined),
+	},
+}));
+
+function service(imageName: string, extra: Partial<ContainerService> = {}): ContainerService {
+	return {
+		serviceId: 1,
+		serviceName: 'plc-bridge',
+		imageName,
+		appId: 1001,
+		appName: 'line-3',
+		config: { image: imageName },
+		...extra,
+	} as ContainerService;
+}
+
+describe('maintenance windows', () => {
+	describe('MaintenanceSchedule', () => {
+		// Saturdays 02:00-04:00 Berlin time
+		const saturdayNights = new MaintenanceSchedule([{ schedule: '0 2 * * 6', durationMinutes: 120, timezone: 'Europe/Berlin' }]);
+
+		it('should always be open without windows', () => {
+			expect(new MaintenanceSchedule().isOpen(new Date('2026-10-21T12:00:00Z'))).toBe(true);
+		});
+
+		it('should be open for the window duration in the window timezone', () => {
+			// 2026-10-24 is a Saturday, Berlin is UTC+2 (CEST)
+			expect(saturdayNights.isOpen(new Date('2026-10-23T23:59:00Z'))).toBe(false);
+			expect(saturdayNights.isOpen(new Date('2026-10-24T00:00:00Z'))).toBe(true);
+			expect(saturdayNights.isOpen(new Date('2026-10-24T01:59:30Z'))).toBe(true);
+			expect(saturdayNights.isOpen(new Date('2026-10-24T02:00:00Z'))).toBe(false);
+		});
+
+		it('should find the next opening', () => {
+			expect(saturdayNights.nextOpening(new Date('2026-10-21T12:00:00Z'))?.toISOString()).toBe('2026-10-24T00:00:00.000Z');
+			// After the switch to CET (UTC+1)
+			expect(saturdayNights.nextOpening(new Date('2026-10-26T12:00:00Z'))?.toISOString()).toBe('2026-10-31T01:00:00.000Z');
+		});
+
+		it('should support lists, ranges and steps', () => {
+			const schedule = new MaintenanceSchedule([{ schedule: '*/30 22-23,0 * * 1-5', durationMinutes: 5 }]);
+
+			expect(schedule.isOpen(new Date('2026-10-19T22:34:00Z'))).toBe(true); // Monday
+			expect(schedule.isOpen(new Date('2026-10-19T22:35:00Z'))).toBe(false);
+			expect(schedule.isOpen(new Date('2026-10-20T00:00:00Z'))).toBe(true);
+			expect(schedule.isOpen(new Date('2026-10-24T22:30:00Z'))).toBe(false); // Saturday
+		});
+
+		it('should match either day field when both are restricted', () => {
+			const schedule = new MaintenanceSchedule([{ schedule: '0 3 1 * 0', durationMinutes: 60 }]);
+
+			expect(schedule.isOpen(new Date('2026-10-01T03:10:00Z'))).toBe(true); // 1st, a Thursday
+			expect(schedule.isOpen(new Date('2026-10-25T03:10:00Z'))).toBe(true); // Sunday
+			expect(schedule.isOpen(new Date('2026-10-26T03:10:00Z'))).toBe(false);
+		});
+
+		it('should report invalid windows and keep them closed', () => {
+			const schedule = new MaintenanceSchedule([
+				{ schedule: '0 25 * * *', durationMinutes: 60 },
+				{ schedule: '0 2 * * *', durationMinutes: 60, timezone: 'Mars/Olympus' },
+			]);
+
+			expect(schedule.errors).toHaveLength(2);
+			expect(schedule.isOpen(new Date('2026-10-19T02:00:00Z'))).toBe(false);
+			expect(schedule.nextOpening(new Date('2026-10-19T02:00:00Z'))).toBeUndefined();
+		});
+	});
+
+	describe('UpdateLockManager', () => {
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it('should persist and release locks', async () => {
+			const locks = new UpdateLockManager();
+			const lock = await locks.acquire(1001, 'plc-bridge');
+
+			expect(locks.get(1001)).toEqual(lock);
+			expect(UpdateLockModel.upsert).toHaveBeenCalledWith(expect.objectContaining({ appId: 1001, owner: 'plc-bridge', expiresAt: null }));
+
+			await expect(locks.release(1001)).resolves.toBe(true);
+			expect(locks.get(1001)).toBeUndefined();
+			await expect(locks.release(1001)).resolves.toBe(false);
+		});
+
+		it('should drop expired locks', async () => {
+			jest.useFakeTimers();
+			const locks = new UpdateLockManager();
+			await locks.acquire(1001, 'plc-bridge', 60);
+
+			jest.advanceTimersByTime(61_000);
+
+			expect(locks.get(1001)).toBeUndefined();
+			expect(UpdateLockModel.delete).toHaveBeenCalledWith(1001);
+		});
+	});
+
+	describe('ContainerManager step deferral', () => {
+		function managerWith(current: ContainerService[], target: ContainerService[]): ContainerManager {
+			const manager = new ContainerManager();
+			(manager as any).currentState = { apps: current.length ? { 1001: { appId: 1001, appName: 'line-3', services: current } } : {} };
+			(manager as any).targetState = { apps: { 1001: { appId: 1001, appName: 'line-3', services: target } } };
+			return manager;
+		}
+
+		const running = service('bridge:1', { containerId: 'c1', status: 'running' });
+
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it('should only pull images outside the maintenance window', () => {
+			jest.useFakeTimers({ now: new Date('2026-10-21T12:00:00Z') });
+			const manager = managerWith([running], [service('bridge:2')]);
+			manager.setMaintenanceWindows([{ schedule: '0 2 * * 6', durationMinutes: 120 }]);
+
+			const steps = (manager as any).deferDisruptiveSteps((manager as any).calculateSteps());
+
+			expect(steps.map((step: any) => step.action)).toEqual(['downloadImage']);
+			const state = { apps: JSON.parse(JSON.stringify((manager as any).currentState.apps)) };
+			(manager as any).addPendingUpdates(state);
+			expect(state.apps[1001].updatePending).toMatchObject({
+				reason: 'maintenance-window',
+				nextWindowAt: '2026-10-24T02:00:00.000Z',
+			});
+		});
+
+		it('should apply new apps and open-window updates', () => {
+			jest.useFakeTimers({ now: new Date('2026-10-24T02:30:00Z') });
+			const manager = managerWith([running], [service('bridge:2')]);
+			manager.setMaintenanceWindows([{ schedule: '0 2 * * 6', durationMinutes: 120 }]);
+			expect((manager as any).deferDisruptiveSteps((manager as any).calculateSteps())).toHaveLength(4);
+
+			jest.setSystemTime(new Date('2026-10-21T12:00:00Z'));
+			const fresh = managerWith([], [service('bridge:2')]);
+			fresh.setMaintenanceWindows([{ schedule: '0 2 * * 6', durationMinutes: 120 }]);
+			const steps = (fresh as any).deferDisruptiveSteps((fresh as any).calculateSteps());
+			expect(steps.map((step: any) => step.action)).toEqual(['downloadImage', 'startContainer']);
+			expect((fresh as any).pendingUpdates.size).toBe(0);
+		});
+
+		it('should defer updates of a locked app until the lock is released', async () => {
+			const manager = managerWith([running], [service('bridge:2')]);
+			await manager.getUpdateLocks().acquire(1001, 'plc-bridge');
+
+			expect((manager as any).deferDisruptiveSteps((manager as any).calculateSteps())).toHaveLength(1);
+			expect((manager as any).pendingUpdates.get(1001)).toMatchObject({ reason: 'update-lock', lockedBy: 'plc-bridge' });
+
+			await manager.getUpdateLocks().release(1001);
+			expect((manager as any).deferDisruptiveSteps((manager as any).calculateSteps())).toHaveLength(4);
+			expect((manager as any).pendingUpdates.size).toBe(0);
+		});
+	});
+});
@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import {
+	RegistryCredentialStore,
+	RegistryCredentialPersistence,
+	parseImageReference,
+} from '../../../src/compose/registry-auth';
+import { DockerManager, PullProgress } from '../../../src/compose/docker-manager';
+import { ImageDigestMismatchError } from '../../../src/compose/errors';
+import type { RegistryCredentialRow } from '../../../src/db/models/registry-credentials.model';
+
+class MemoryPersistence implements RegistryCredentialPersistence {
+	rows: RegistryCredentialRow[] = [];
+	writes = 0;
+
+	async getAll(): Promise<RegistryCredentialRow[]> {
+		return this.rows.map((row) => ({ ...row }));
+	}
+
+	async replaceAll(rows: RegistryCredentialRow[]): Promise<void> {
+		this.rows = rows.map((row) => ({ ...row }));
+		this.writes++;
+	}
+}
+
+/**
+ * Minimal dockerode stand-in: pull() streams the given progress events,
+ * getImage().inspect() returns the given repo digests
+ */
+function mockDocker(events: any[], repoDigests: string[]) {
+	const pull = jest.fn((imageName: string, opts: any, callback: (err: any, stream: any) => void) => {
+		callback(null, new PassThrough());
+	});
+	return {
+		pull,
+		modem: {
+			followProgress: (_stream: any, onFinished: (err: any, output: any) => void, onProgress: (event: any) => void) => {
+				events.forEach(onProgress);
+				onFinished(null, events);
+			},
+		},
+		getImage: () => ({ inspect: async () => ({ RepoDigests: repoDigests }) }),
+	};
+}
+
+describe('registry-auth', () => {
+	let tmpDir: string;
+	let persistence: MemoryPersistence;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-auth-'));
+		persistence = new MemoryPersistence();
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	describe('parseImageReference', () => {
+		it('should split registry with port, tag and digest', () => {
+			expect(parseImageReference('reg.example.com:5000/team/app:1.2@sha256:abc')).toEqual({
+				registry: 'reg.example.com:5000',
+				repository: 'team/app',
+				tag: '1.2',
+				digest: 'sha256:abc',
+			});
+		});
+
+		it('should default to Docker Hub library images', () => {
+			expect(parseImageReference('nginx:1.25')).toEqual({
+				registry: 'docker.io',
+				repository: 'library/nginx',
+				tag: '1.25',
+				digest: undefined,
+			});
+			expect(parseImageReference('index.docker.io/acme/app').registry).toBe('docker.io');
+		});
+	});
+
+	describe('RegistryCredentialStore', () => {
+		it('should persist passwords encrypted and load them back', async () => {
+			const keyPath = path.join(tmpDir, 'registry-credentials.key');
+			const store = new RegistryCredentialStore(undefined, persistence, keyPath);
+
+			await store.update([{ registry: 'ghcr.io', username: 'bot', password: 's3cret' }]);
+
+			expect(persistence.rows).toHaveLength(1);
+			expect(persistence.rows[0].passwordEncrypted).not.toContain('s3cret');
+			expect(fs.statSync(keyPath).mode & 0o777).toBe(0o600);
+
+			const reloaded = new RegistryCredentialStore(undefined, persistence, keyPath);
+			await reloaded.load();
+			expect(reloaded.getAuthConfig('ghcr.io/acme/app:1.0')).toEqual({
+				username: 'bot',
+				password: 's3cret',
+				serveraddress: 'ghcr.io',
+			});
+		});
+
+		it('should only write when credentials change', async () => {
+			const store = new RegistryCredentialStore(undefined, persistence, path.join(tmpDir, 'key'));
+			const list = [{ registry: 'docker.io', username: 'bot', password: 'a' }];
+
+			expect(await store.update(list)).toBe(true);
+			expect(await store.update(list)).toBe(false);
+			expect(await store.update([])).toBe(true);
+			expect(persistence.writes).toBe(2);
+			expect(store.getRegistries()).toEqual([]);
+		});
+
+		it('should drop entries that no longer decrypt', async () => {
+			const store = new RegistryCredentialStore(undefined, persistence, path.join(tmpDir, 'key-a'));
+			await store.update([{ registry: 'ghcr.io', username: 'bot', password: 'x' }]);
+
+			const otherKey = new RegistryCredentialStore(undefined, persistence, path.join(tmpDir, 'key-b'));
+			await otherKey.load();
+			expect(otherKey.getRegistries()).toEqual([]);
+		});
+
+		it('should map Docker Hub images to the Docker Hub auth server', async () => {
+			const store = new RegistryCredentialStore(undefined, persistence, path.join(tmpDir, 'key'));
+			await store.update([{ registry: 'registry-1.docker.io', username: 'bot', password: 'x' }]);
+
+			expect(store.getAuthConfig('acme/private:latest')?.serveraddress).toBe('https://index.docker.io/v1/');
+			expect(store.getAuthConfig('quay.io/acme/app')).toBeUndefined();
+		});
+	});
+
+	describe('DockerManager.pullImage', () => {
+		const digest = 'sha256:' + 'a'.repeat(64);
+		const events = [
+			{ status: 'Pulling fs layer', id: 'l1' },
+			{ status: 'Pulling fs layer', id: 'l2' },
+			{ status: 'Downloading', id: 'l1', progressDetail: { current: 50, total: 100 } },
+			{ status: 'Downloading', id: 'l2', progressDetail: { current: 100, total: 300 } },
+			{ status: 'Download complete', id: 'l1' },
+			{ status: 'Download complete', id: 'l2' },
+			{ status: `Digest: ${digest}` },
+		];
+
+		async function managerWith(docker: any): Promise<DockerManager> {
+			const store = new RegistryCredentialStore(undefined, persistence, path.join(tmpDir, 'key'));
+			await store.update([{ registry: 'ghcr.io', username: 'bot', password: 'token' }]);
+			const manager = new DockerManager({ socketPath: '/dev/null' }, undefined, store);
+			(manager as any).docker = docker;
+			return manager;
+		}
+
+		it('should pass registry auth and report aggregate progress', async () => {
+			const docker = mockDocker(events, [`ghcr.io/acme/app@${digest}`]);
+			const manager = await managerWith(docker);
+			const progress: PullProgress[] = [];
+
+			await manager.pullImage(`ghcr.io/acme/app:1.0@${digest}`, (p) => progress.push(p));
+
+			expect(docker.pull.mock.calls[0][1]).toEqual({
+				authconfig: { username: 'bot', password: 'token', serveraddress: 'ghcr.io' },
+			});
+			expect(progress[progress.length - 1]).toEqual({ percent: 100, bytesDownloaded: 400, bytesTotal: 400 });
+		});
+
+		it('should reject an image that does not match the pinned digest', async () => {
+			const docker = mockDocker(events, ['ghcr.io/acme/app@sha256:' + 'b'.repeat(64)]);
+			const manager = await managerWith(docker);
+
+			await expect(manager.pullImage(`ghcr.io/acme/app:1.0@${digest}`)).rejects.toBeInstanceOf(
+				ImageDigestMismatchError,
+			);
+		});
+
+		it('should pull unpinned images from registries without credentials anonymously', async () => {
+			const docker = mockDocker(events, []);
+			const manager = await managerWith(docker);
+
+			await manager.pullImage('nginx:1.25');
+
+			expect(docker.pull.mock.calls[0][1]).toEqual({});
+		});
+	});
+});
@@ -0,0 +1,125 @@
+import { RolloutTracker } from '../../../src/compose/rollout-tracker';
+import { ContainerManager, ContainerService } from '../../../src/compose/container-manager';
+
+const livenessProbe = { type: 'tcp' as const, tcpPort: 1883 };
+
+function service(imageName: string, config: Partial<ContainerService['config']> = {}, extra: Partial<ContainerService> = {}): ContainerService {
+	return {
+		serviceId: 1,
+		serviceName: 'broker',
+		imageName,
+		appId: 1001,
+		appName: 'sensors',
+		config: { image: imageName, ...config },
+		...extra,
+	} as ContainerService;
+}
+
+describe('rollout', () => {
+	describe('RolloutTracker', () => {
+		const key = RolloutTracker.key(1001, 1);
+
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it('should return the rollout once the failure threshold is reached', () => {
+			const tracker = new RolloutTracker();
+			const target = service('broker:2', { livenessProbe, updateStrategy: { rollbackAfterFailures: 2 } });
+			tracker.begin(key, service('broker:1'), target);
+
+			expect(tracker.recordFailure(key)).toBeUndefined();
+			expect(tracker.recordFailure(key)?.previous.imageName).toBe('broker:1');
+			expect(tracker.recordFailure(key)).toBeUndefined();
+		});
+
+		it('should not watch services without probes or with rollback disabled', () => {
+			const tracker = new RolloutTracker();
+			tracker.begin(key, service('broker:1'), service('broker:2', { updateStrategy: { rollbackAfterFailures: 1 } }));
+			expect(tracker.recordFailure(key)).toBeUndefined();
+
+			tracker.begin(key, service('broker:1'), service('broker:2', { livenessProbe, updateStrategy: { rollbackAfterFailures: 0 } }));
+			expect(tracker.recordFailure(key)).toBeUndefined();
+		});
+
+		it('should stop counting failures after the watch window', () => {
+			jest.useFakeTimers();
+			const tracker = new RolloutTracker();
+			tracker.begin(key, service('broker:1'), service('broker:2', { livenessProbe, updateStrategy: { rollbackAfterFailures: 1 } }));
+
+			jest.advanceTimersByTime(11 * 60 * 1000);
+
+			expect(tracker.recordFailure(key)).toBeUndefined();
+		});
+
+		it('should remember a rolled back target until it changes', () => {
+			const tracker = new RolloutTracker();
+			const target = service('broker:2');
+			const rollback = tracker.markRolledBack(key, target, 'broker:1', 'liveness probe failed');
+
+			expect(rollback).toMatchObject({ fromImage: 'broker:2', toImage: 'broker:1', reason: 'liveness probe failed' });
+			expect(tracker.isRolledBack(key, service('broker:2'))).toBe(true);
+			expect(tracker.isRolledBack(key, service('broker:3'))).toBe(false);
+			expect(tracker.getRollback(key)).toBeUndefined();
+		});
+	});
+
+	describe('ContainerManager update strategies', () => {
+		function managerWith(current: ContainerService, target: ContainerService): ContainerManager {
+			const manager = new ContainerManager();
+			(manager as any).currentState = { apps: { 1001: { appId: 1001, appName: 'sensors', services: [current] } } };
+			(manager as any).targetState = { apps: { 1001: { appId: 1001, appName: 'sensors', services: [target] } } };
+			return manager;
+		}
+
+		const running = service('broker:1', { ports: ['1883:1883'] }, { containerId: 'old', status: 'running' });
+
+		it('should replace the container start-first', () => {
+			const target = service('broker:2', { updateStrategy: { type: 'start-first' } });
+			const steps = (managerWith(running, target) as any).calculateSteps();
+
+			expect(steps.map((step: any) => step.action)).toEqual(['downloadImage', 'replaceContainer']);
+			expect(steps[1].previous).toMatchObject({ imageName: 'broker:1', containerId: undefined });
+		});
+
+		it('should fall back to recreate when host ports overlap', () => {
+			const target = service('broker:2', { ports: ['1883:1883'], updateStrategy: { type: 'start-first' } });
+			const steps = (managerWith(running, target) as any).calculateSteps();
+
+			expect(steps.map((step: any) => step.action)).toEqual(['downloadImage', 'stopContainer', 'removeContainer', 'startContainer']);
+			expect(steps[3].previous.imageName).toBe('broker:1');
+		});
+
+		it('should not retry an update that was rolled back', () => {
+			const target = service('broker:2');
+			const manager = managerWith(running, target);
+			(manager as any).rolloutTracker.markRolledBack(RolloutTracker.key(1001, 1), target, 'broker:1', 'liveness probe failed');
+
+			expect((manager as any).calculateSteps()).toEqual([]);
+			const state = { apps: cloneApps(manager) };
+			(manager as any).addRollbacks(state);
+			expect(state.apps[1001].services[0].rollback.fromImage).toBe('broker:2');
+		});
+
+		it('should roll back instead of restarting once probes keep failing', async () => {
+			const target = service('broker:2', { livenessProbe, updateStrategy: { rollbackAfterFailures: 1 } });
+			const current = { ...target, containerId: 'new', status: 'running' };
+			const manager = managerWith(current, target);
+			(manager as any).rolloutTracker.begin(RolloutTracker.key(1001, 1), service('broker:1'), target);
+
+			const rollbackService = jest.spyOn(manager as any, 'rollbackService').mockResolvedValue(undefined);
+			const restart = jest.spyOn(manager as any, 'restartUnhealthyContainer').mockResolvedValue(undefined);
+
+			await (manager as any).handleProbeFailure('new', 'broker', 'liveness probe failed');
+			await (manager as any).handleProbeFailure('new', 'broker', 'liveness probe failed');
+
+			expect(rollbackService).toHaveBeenCalledTimes(1);
+			expect(rollbackService).toHaveBeenCalledWith(1001, 'new', target, expect.objectContaining({ imageName: 'broker:1' }), 'liveness probe failed');
+			expect(restart).toHaveBeenCalledTimes(1);
+		});
+	});
+});
+
+function cloneApps(manager: ContainerManager): Record<number, any> {
+	return JSON.parse(JSON.stringify((manager as any).currentState.apps));
+}
@@ -0,0 +1,113 @@
+import type Docker from 'dockerode';
+import { ContainerManager, ContainerService } from '../../../src/compose/container-manager';
+import { HealthCheckManager } from '../../../src/compose/health-check-manager';
+import { DependencyNotReadyError } from '../../../src/compose/errors';
+
+function service(serviceId: number, serviceName: string, config: Partial<ContainerService['config']> = {}, extra: Partial<ContainerService> = {}): ContainerService {
+	return {
+		serviceId,
+		serviceName,
+		imageName: `${serviceName}:latest`,
+		appId: 1001,
+		appName: 'sensors',
+		config: { image: `${serviceName}:latest`, ...config },
+		...extra,
+	} as ContainerService;
+}
+
+function app(services: ContainerService[]) {
+	return { 1001: { appId: 1001, appName: 'sensors', services } };
+}
+
+describe('service dependencies', () => {
+	describe('HealthCheckManager.waitForReady', () => {
+		const readiness = { type: 'exec', command: ['true'] } as any;
+
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		it('should resolve true when the container becomes ready', async () => {
+			const manager = new HealthCheckManager({} as Docker);
+			(manager as any).containerHealth.set('db1', { containerId: 'db1', serviceName: 'db', isReady: false, isLive: true, isStarted: true });
+
+			const wait = manager.waitForReady('db1', 5000);
+			manager.emit('readiness-changed', { containerId: 'db1', serviceName: 'db', isReady: true });
+
+			await expect(wait).resolves.toBe(true);
+			expect(manager.listenerCount('readiness-changed')).toBe(0);
+		});
+
+		it('should resolve false on timeout or for unmonitored containers', async () => {
+			jest.useFakeTimers();
+			const manager = new HealthCheckManager({} as Docker);
+			(manager as any).containerHealth.set('db1', { containerId: 'db1', serviceName: 'db', isReady: false, isLive: true, isStarted: true, readinessProbe: readiness });
+
+			const wait = manager.waitForReady('db1', 5000);
+			jest.advanceTimersByTime(5000);
+
+			await expect(wait).resolves.toBe(false);
+			await expect(manager.waitForReady('unknown', 5000)).resolves.toBe(false);
+		});
+	});
+
+	describe('ContainerManager', () => {
+		it('should skip container steps and mark services when dependsOn has a cycle', () => {
+			const manager = new ContainerManager();
+			(manager as any).currentState = { apps: {} };
+			(manager as any).targetState = {
+				apps: app([service(1, 'a', { dependsOn: ['b'] }), service(2, 'b', { dependsOn: ['a'] })]),
+			};
+
+			const steps = (manager as any).calculateSteps();
+
+			expect(steps.filter((step: any) => step.action === 'startContainer')).toEqual([]);
+			const marked = (manager as any).targetState.apps[1001].services;
+			expect(marked[0].serviceStatus).toBe('error');
+			expect(marked[0].error.message).toContain('a -> b -> a');
+		});
+
+		it('should stop services in reverse dependency order', () => {
+			const manager = new ContainerManager();
+			(manager as any).currentState = {
+				apps: app([
+					service(1, 'adapter', { dependsOn: ['broker'] }, { containerId: 'c1' }),
+					service(2, 'broker', {}, { containerId: 'c2' }),
+					service(3, 'dashboard', { dependsOn: ['adapter'] }, { containerId: 'c3' }),
+				]),
+			};
+			(manager as any).targetState = { apps: {} };
+
+			const stops = (manager as any).calculateSteps()
+				.filter((step: any) => step.action === 'stopContainer')
+				.map((step: any) => step.containerId);
+
+			expect(stops).toEqual(['c3', 'c1', 'c2']);
+		});
+
+		it('should refuse to start a service whose dependency is not running', async () => {
+			const manager = new ContainerManager();
+			const adapter = service(1, 'adapter', { dependsOn: ['broker'] });
+			(manager as any).currentState = { apps: {} };
+			(manager as any).targetState = { apps: app([adapter, service(2, 'broker')]) };
+
+			await expect((manager as any).waitForDependencies(1001, adapter)).rejects.toThrow(DependencyNotReadyError);
+		});
+
+		it('should wait for the readiness of healthy dependencies', async () => {
+			const manager = new ContainerManager();
+			const adapter = service(1, 'adapter', { dependsOn: [{ service: 'db', condition: 'healthy' }] });
+			const db = service(2, 'db', { readinessProbe: { type: 'exec', command: ['pg_isready'] } as any });
+			(manager as any).currentState = { apps: app([{ ...db, containerId: 'db1', status: 'running' }]) };
+			(manager as any).targetState = { apps: app([adapter, db]) };
+
+			const healthCheckManager = (manager as any).healthCheckManager;
+			jest.spyOn(healthCheckManager, 'getHealth').mockReturnValue({ containerId: 'db1', isReady: false });
+			const waitForReady = jest.spyOn(healthCheckManager, 'waitForReady').mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+			await expect((manager as any).waitForDependencies(1001, adapter)).resolves.toBeUndefined();
+			expect(waitForReady).toHaveBeenCalledWith('db1', expect.any(Number));
+			await expect((manager as any).waitForDependencies(1001, adapter)).rejects.toThrow('did not become ready');
+		});
+	});
+});
@@ -0,0 +1,105 @@
+import { ServiceMetricsCollector } from '../../../src/compose/service-metrics';
+
+const labels = {
+	'iotistic.app-id': '1001',
+	'iotistic.app-name': 'line-3',
+	'iotistic.service-name': 'plc-bridge',
+};
+
+function stats(rx: number, read: number) {
+	return {
+		cpu_stats: { cpu_usage: { total_usage: 3_000 }, system_cpu_usage: 20_000, online_cpus: 4 },
+		precpu_stats: { cpu_usage: { total_usage: 2_000 }, system_cpu_usage: 10_000 },
+		memory_stats: { usage: 150_000_000, limit: 1_000_000_000, stats: { inactive_file: 50_000_000 } },
+		networks: {
+			eth0: { rx_bytes: rx, tx_bytes: 100 },
+			eth1: { rx_bytes: 1_000, tx_bytes: 0 },
+		},
+		blkio_stats: {
+			io_service_bytes_recursive: [
+				{ major: 8, minor: 0, op: 'read', value: read },
+				{ major: 8, minor: 0, op: 'write', value: 0 },
+			],
+		},
+	};
+}
+
+function mockDocker() {
+	const container = {
+		stats: jest.fn().mockResolvedValue(stats(5_000, 4_096)),
+		inspect: jest.fn().mockResolvedValue({ RestartCount: 0 }),
+	};
+	const docker = {
+		listContainers: jest.fn().mockResolvedValue([{ Id: 'c1', State: 'running', Labels: labels }]),
+		getContainer: jest.fn().mockReturnValue(container),
+	};
+	return { docker, container };
+}
+
+describe('ServiceMetricsCollector', () => {
+	it('should sample usage and report IO since the previous sample', async () => {
+		const { docker, container } = mockDocker();
+		const collector = new ServiceMetricsCollector(docker as any);
+
+		await collector.sample();
+		container.stats.mockResolvedValue(stats(9_000, 12_288));
+		await collector.sample();
+
+		const samples = collector.drainSamples();
+		expect(samples).toHaveLength(2);
+		expect(samples[0]).toMatchObject({
+			appId: 1001,
+			serviceName: 'plc-bridge',
+			cpuPercent: 40,
+			memoryBytes: 100_000_000,
+			memoryLimitBytes: 1_000_000_000,
+			networkRxBytes: 0,
+		});
+		expect(samples[1]).toMatchObject({ networkRxBytes: 4_000, networkTxBytes: 0, blockReadBytes: 8_192 });
+		expect(collector.drainSamples()).toEqual([]);
+	});
+
+	it('should not report negative IO after a counter reset', async () => {
+		const { docker, container } = mockDocker();
+		const collector = new ServiceMetricsCollector(docker as any);
+
+		await collector.sample();
+		container.stats.mockResolvedValue(stats(500, 0));
+		await collector.sample();
+
+		expect(collector.drainSamples()[1]).toMatchObject({ networkRxBytes: 1_500, blockReadBytes: 0 });
+	});
+
+	it('should record restarts with the last exit code', async () => {
+		const { docker, container } = mockDocker();
+		const collector = new ServiceMetricsCollector(docker as any);
+
+		await collector.sample();
+		collector.handleDockerEvent({ Action: 'die', Actor: { ID: 'c1', Attributes: { ...labels, exitCode: '137' } } });
+		container.inspect.mockResolvedValue({ RestartCount: 2 });
+		await collector.sample();
+
+		expect(collector.drainEvents()).toEqual([
+			expect.objectContaining({ type: 'restarted', appId: 1001, serviceName: 'plc-bridge', restartCount: 2, exitCode: 137 }),
+		]);
+	});
+
+	it('should record OOM kills of managed containers only', () => {
+		const { docker } = mockDocker();
+		const collector = new ServiceMetricsCollector(docker as any);
+
+		collector.handleDockerEvent({ Action: 'oom', time: 1792400000, Actor: { ID: 'c1', Attributes: labels } });
+		collector.handleDockerEvent({ Action: 'oom', Actor: { ID: 'other', Attributes: {} } });
+
+		expect(collector.hasEvents()).toBe(true);
+		expect(collector.drainEvents()).toEqual([
+			expect.objectContaining({
+				type: 'oom_killed',
+				appId: 1001,
+				containerId: 'c1',
+				timestamp: new Date(1792400000 * 1000).toISOString(),
+			}),
+		]);
+		expect(collector.hasEvents()).toBe(false);
+	});
+});
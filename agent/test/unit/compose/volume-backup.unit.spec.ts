@@ -0,0 +1,113 @@
+import { Readable } from 'stream';
+import { VolumeBackupManager } from '../../../src/compose/volume-backup';
+import { VolumeBackupError } from '../../../src/compose/errors';
+
+function mockDocker() {
+	const helper = {
+		getArchive: jest.fn().mockResolvedValue(Readable.from([Buffer.from('tar-data')])),
+		putArchive: jest.fn().mockResolvedValue(undefined),
+		start: jest.fn().mockResolvedValue(undefined),
+		wait: jest.fn().mockResolvedValue({ StatusCode: 0 }),
+		remove: jest.fn().mockResolvedValue(undefined),
+	};
+	const service = {
+		pause: jest.fn().mockResolvedValue(undefined),
+		unpause: jest.fn().mockResolvedValue(undefined),
+		stop: jest.fn().mockResolvedValue(undefined),
+		start: jest.fn().mockResolvedValue(undefined),
+	};
+	const volume = { inspect: jest.fn().mockResolvedValue({ Name: '1001_historian' }) };
+	const docker = {
+		getVolume: jest.fn().mockReturnValue(volume),
+		createVolume: jest.fn().mockResolvedValue(undefined),
+		getImage: jest.fn().mockReturnValue({ inspect: jest.fn().mockResolvedValue({}) }),
+		createContainer: jest.fn().mockResolvedValue(helper),
+		listContainers: jest.fn().mockResolvedValue([{ Id: 'svc1' }]),
+		getContainer: jest.fn().mockReturnValue(service),
+	};
+	return { docker, helper, service, volume };
+}
+
+const options = {
+	cloudApiEndpoint: 'https://api.example.com',
+	getDeviceInfo: () => ({ uuid: 'device-1', deviceApiKey: 'key' }),
+};
+
+describe('VolumeBackupManager', () => {
+	const originalFetch = global.fetch;
+
+	afterEach(() => {
+		global.fetch = originalFetch;
+	});
+
+	it('should pause the services using the volume while uploading the archive', async () => {
+		const { docker, helper, service } = mockDocker();
+		const record = { id: 7, app_id: 1001, volume_name: 'historian', size_bytes: 42 };
+		global.fetch = jest.fn().mockImplementation(async (_url: string, init: any) => {
+			for await (const _chunk of init.body) {
+				// Drain the upload
+			}
+			return { ok: true, json: async () => record };
+		}) as any;
+		const runExclusive = jest.fn((operation: () => Promise<any>) => operation());
+		const manager = new VolumeBackupManager(docker as any, { ...options, runExclusive });
+
+		const result = await manager.backup(1001, 'historian', { pauseService: true });
+
+		expect(result).toEqual(record);
+		expect(runExclusive).toHaveBeenCalledTimes(1);
+		expect(docker.createContainer).toHaveBeenCalledWith(expect.objectContaining({
+			HostConfig: { Binds: ['1001_historian:/volume'] },
+		}));
+		expect(service.pause).toHaveBeenCalled();
+		expect(service.unpause).toHaveBeenCalled();
+		expect(helper.remove).toHaveBeenCalled();
+		const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+		expect(url).toContain('/device/device-1/volume-backups?app_id=1001&volume_name=historian');
+		expect(init.headers['X-Device-API-Key']).toBe('key');
+	});
+
+	it('should reject a backup of a volume that does not exist', async () => {
+		const { docker, volume } = mockDocker();
+		volume.inspect.mockRejectedValue(new Error('no such volume'));
+		const manager = new VolumeBackupManager(docker as any, options);
+
+		await expect(manager.backup(1001, 'historian')).rejects.toBeInstanceOf(VolumeBackupError);
+		expect(docker.createContainer).not.toHaveBeenCalled();
+	});
+
+	it('should not touch the volume when the download checksum does not match', async () => {
+		const { docker, service } = mockDocker();
+		global.fetch = jest.fn().mockResolvedValue({
+			ok: true,
+			body: Readable.toWeb(Readable.from([Buffer.from('corrupt')])),
+			headers: new Headers({
+				'x-backup-app-id': '1001',
+				'x-backup-volume-name': 'historian',
+				'x-backup-sha256': '0'.repeat(64),
+			}),
+		}) as any;
+		const manager = new VolumeBackupManager(docker as any, options);
+
+		await expect(manager.restore(7)).rejects.toThrow('checksum');
+		expect(service.stop).not.toHaveBeenCalled();
+		expect(docker.createContainer).not.toHaveBeenCalled();
+	});
+
+	it('should not restore a download without a checksum', async () => {
+		const { docker, service } = mockDocker();
+		global.fetch = jest.fn().mockResolvedValue({
+			ok: true,
+			body: Readable.toWeb(Readable.from([Buffer.from('tar-data')])),
+			headers: new Headers({
+				'x-backup-app-id': '1001',
+				'x-backup-volume-name': 'historian',
+			}),
+		}) as any;
+		const manager = new VolumeBackupManager(docker as any, options);
+
+		await expect(manager.restore(7)).rejects.toThrow('checksum');
+		expect(service.stop).not.toHaveBeenCalled();
+		expect(docker.createContainer).not.toHaveBeenCalled();
+	});
+});
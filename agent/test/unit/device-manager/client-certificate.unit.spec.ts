@@ -0,0 +1,50 @@
+import * as forge from 'node-forge';
+import { generateCertificateRequest, needsRenewal } from '../../../src/device-manager/client-certificate';
+import type { ClientCertificate } from '../../../src/device-manager/types';
+
+function certificateExpiring(notAfter: string): ClientCertificate {
+	return {
+		certificate: '',
+		privateKey: '',
+		caCertificate: '',
+		serialNumber: '01',
+		fingerprint: 'ab',
+		notAfter,
+	};
+}
+
+describe('generateCertificateRequest', () => {
+	it('creates a signed CSR for the generated key', () => {
+		const { privateKey, csr } = generateCertificateRequest('1234-abcd');
+
+		const request = forge.pki.certificationRequestFromPem(csr);
+		expect(request.verify()).toBe(true);
+		expect(request.subject.getField('CN').value).toBe('device_1234-abcd');
+
+		const key = forge.pki.privateKeyFromPem(privateKey) as forge.pki.rsa.PrivateKey;
+		const publicKey = request.publicKey as forge.pki.rsa.PublicKey;
+		expect(publicKey.n.equals(key.n)).toBe(true);
+		expect(publicKey.n.bitLength()).toBe(2048);
+	});
+});
+
+describe('needsRenewal', () => {
+	const now = new Date('2025-06-01T00:00:00Z');
+
+	it('renews when there is no certificate', () => {
+		expect(needsRenewal(undefined, now)).toBe(true);
+	});
+
+	it('keeps a certificate that is valid beyond the renewal window', () => {
+		expect(needsRenewal(certificateExpiring('2025-08-01T00:00:00Z'), now, 30)).toBe(false);
+	});
+
+	it('renews inside the renewal window and after expiry', () => {
+		expect(needsRenewal(certificateExpiring('2025-06-20T00:00:00Z'), now, 30)).toBe(true);
+		expect(needsRenewal(certificateExpiring('2025-05-01T00:00:00Z'), now, 30)).toBe(true);
+	});
+
+	it('renews when the expiry date cannot be parsed', () => {
+		expect(needsRenewal(certificateExpiring('not a date'), now)).toBe(true);
+	});
+});
@@ -0,0 +1,320 @@
+import { K3sDriver, K3sApiClients } from '../../../src/drivers/k3s';
+import type { ServiceConfig } from '../../../src/drivers/types';
+
+const notFound = Object.assign(new Error('Not Found'), { statusCode: 404 });
+const conflict = Object.assign(new Error('Conflict'), { statusCode: 409 });
+
+function createClients(): K3sApiClients & Record<string, any> {
+	return {
+		coreV1Api: {
+			listNamespace: jest.fn().mockResolvedValue({ body: { items: [] } }),
+			readNamespace: jest.fn().mockResolvedValue({ body: {} }),
+			createNamespace: jest.fn(),
+			listNamespacedPod: jest.fn().mockResolvedValue({ body: { items: [] } }),
+			readNode: jest.fn().mockResolvedValue({ body: { status: { capacity: { cpu: '4', memory: '4Gi' } } } }),
+			createNamespacedPersistentVolumeClaim: jest.fn().mockResolvedValue({ body: {} }),
+			deleteNamespacedPersistentVolumeClaim: jest.fn().mockResolvedValue({ body: {} }),
+			listNamespacedPersistentVolumeClaim: jest.fn().mockResolvedValue({ body: { items: [] } }),
+		},
+		appsV1Api: {
+			listNamespacedDeployment: jest.fn().mockResolvedValue({ body: { items: [] } }),
+			createNamespacedDeployment: jest.fn().mockResolvedValue({ body: { metadata: { uid: 'uid-1' } } }),
+			replaceNamespacedDeployment: jest.fn().mockResolvedValue({ body: {} }),
+			deleteNamespacedDeployment: jest.fn().mockResolvedValue({ body: {} }),
+		},
+		networkingV1Api: {
+			createNamespacedNetworkPolicy: jest.fn().mockResolvedValue({ body: {} }),
+			replaceNamespacedNetworkPolicy: jest.fn().mockResolvedValue({ body: {} }),
+			deleteNamespacedNetworkPolicy: jest.fn().mockResolvedValue({ body: {} }),
+			listNamespacedNetworkPolicy: jest.fn().mockResolvedValue({ body: { items: [] } }),
+		},
+		customObjectsApi: {
+			getNamespacedCustomObject: jest.fn(),
+			listNamespacedCustomObject: jest.fn(),
+		},
+	};
+}
+
+const service: ServiceConfig = {
+	serviceId: 2,
+	serviceName: 'web',
+	imageName: 'nginx:alpine',
+	appId: 1001,
+	appName: 'frontend',
+	config: {
+		image: 'nginx:alpine',
+		ports: ['8080:80'],
+		volumes: ['data:/var/lib/data', '/etc/config:/config:ro'],
+		networks: ['backend'],
+		environment: { MODE: 'prod' },
+		livenessProbe: { type: 'http', path: '/health', port: 80, headers: { 'X-Probe': '1' } },
+		readinessProbe: { type: 'tcp', tcpPort: 80 },
+	},
+};
+
+function runningPod(overrides: Record<string, any> = {}) {
+	return {
+		metadata: { name: 'web-abc', uid: 'pod-uid', labels: { service: 'web' } },
+		spec: { nodeName: 'node-1', containers: [{ name: 'web', resources: { limits: { memory: '256Mi' } } }] },
+		status: {
+			phase: 'Running',
+			conditions: [{ type: 'Ready', status: 'True' }],
+			containerStatuses: [{
+				name: 'web',
+				ready: true,
+				restartCount: 1,
+				containerID: 'containerd://abc123',
+				state: { running: { startedAt: '2024-01-01T00:00:00Z' } },
+			}],
+		},
+		...overrides,
+	};
+}
+
+describe('K3sDriver', () => {
+	let clients: ReturnType<typeof createClients>;
+	let driver: K3sDriver;
+
+	beforeEach(async () => {
+		clients = createClients();
+		driver = new K3sDriver(undefined, { namespace: 'test', clients, healthCheckIntervalMs: 60000 });
+		await driver.init();
+	});
+
+	afterEach(async () => {
+		await driver.shutdown();
+	});
+
+	it('should map volumes, networks and probes into the deployment', async () => {
+		await driver.createService(service);
+
+		const [, deployment] = clients.appsV1Api.createNamespacedDeployment.mock.calls[0];
+		const podSpec = deployment.spec.template.spec;
+		const container = podSpec.containers[0];
+
+		expect(podSpec.volumes).toEqual([
+			{ name: 'vol-0', persistentVolumeClaim: { claimName: '1001-data' } },
+			{ name: 'vol-1', hostPath: { path: '/etc/config' } },
+		]);
+		expect(container.volumeMounts).toEqual([
+			{ name: 'vol-0', mountPath: '/var/lib/data' },
+			{ name: 'vol-1', mountPath: '/config', readOnly: true },
+		]);
+		expect(deployment.spec.template.metadata.labels['network.iotistic.io/1001-backend']).toBe('true');
+		expect(container.livenessProbe.httpGet).toEqual({
+			path: '/health',
+			port: 80,
+			scheme: 'HTTP',
+			httpHeaders: [{ name: 'X-Probe', value: '1' }],
+		});
+		expect(container.readinessProbe.tcpSocket).toEqual({ port: 80 });
+		expect(container.ports).toEqual([{ containerPort: 80, hostPort: 8080, protocol: 'TCP' }]);
+
+		// Published ports stay reachable despite the network policy
+		const [, policy] = clients.networkingV1Api.createNamespacedNetworkPolicy.mock.calls[0];
+		expect(policy.spec.ingress).toEqual([{ ports: [{ protocol: 'TCP', port: 80 }] }]);
+	});
+
+	it('should report current state in the same shape as the Docker driver', async () => {
+		await driver.createService(service);
+		const [, deployment] = clients.appsV1Api.createNamespacedDeployment.mock.calls[0];
+		clients.appsV1Api.listNamespacedDeployment.mockResolvedValue({
+			body: { items: [{ ...deployment, metadata: { ...deployment.metadata, uid: 'uid-1' } }] },
+		});
+		clients.coreV1Api.listNamespacedPod.mockResolvedValue({ body: { items: [runningPod()] } });
+
+		const state = await driver.getCurrentState();
+		const web = state.apps['1001'].services[0];
+
+		expect(state.apps['1001']).toMatchObject({ appId: 1001, appName: 'frontend' });
+		expect(web).toMatchObject({
+			serviceId: 2,
+			serviceName: 'web',
+			state: 'running',
+			serviceStatus: 'running',
+			containerId: 'abc123',
+			status: { state: 'running', health: 'healthy', restartCount: 1 },
+		});
+		expect(web.config).toMatchObject({
+			image: 'nginx:alpine',
+			ports: ['8080:80'],
+			volumes: service.config.volumes,
+			networks: ['backend'],
+			environment: { MODE: 'prod' },
+		});
+		expect(web.config.livenessProbe).toMatchObject({ type: 'http', path: '/health', headers: { 'X-Probe': '1' } });
+		expect(web.config.readinessProbe).toMatchObject({ type: 'tcp', tcpPort: 80 });
+
+		// Round-tripped state must not trigger an update
+		expect((driver as any).needsUpdate(web, service)).toBe(false);
+		expect((driver as any).needsUpdate(web, { ...service, state: 'stopped' })).toBe(true);
+	});
+
+	it('should map compose runtime options into the pod spec and round-trip them', async () => {
+		const gateway: ServiceConfig = {
+			...service,
+			config: {
+				...service.config,
+				command: ['--port', '/dev/ttyUSB0'],
+				entrypoint: ['/usr/bin/adapter'],
+				workingDir: '/app',
+				user: '1000:1000',
+				devices: ['/dev/ttyUSB0'],
+				privileged: true,
+				capAdd: ['SYS_RAWIO'],
+				capDrop: ['MKNOD'],
+				tmpfs: ['/run:size=64m'],
+				extraHosts: ['broker.local:10.0.0.5', 'mqtt.local:10.0.0.5'],
+				logging: { driver: 'local', options: { 'max-size': '10m' } },
+				dependsOn: ['broker'],
+			},
+		};
+
+		await driver.createService(gateway);
+		const [, deployment] = clients.appsV1Api.createNamespacedDeployment.mock.calls[0];
+		const podSpec = deployment.spec.template.spec;
+		const container = podSpec.containers[0];
+
+		expect(container.command).toEqual(['/usr/bin/adapter']);
+		expect(container.args).toEqual(['--port', '/dev/ttyUSB0']);
+		expect(container.workingDir).toBe('/app');
+		expect(container.securityContext).toEqual({
+			privileged: true,
+			capabilities: { add: ['SYS_RAWIO'], drop: ['MKNOD'] },
+			runAsUser: 1000,
+			runAsGroup: 1000,
+		});
+		expect(podSpec.volumes).toEqual(expect.arrayContaining([
+			{ name: 'dev-0', hostPath: { path: '/dev/ttyUSB0' } },
+			{ name: 'tmpfs-0', emptyDir: { medium: 'Memory', sizeLimit: '64Mi' } },
+		]));
+		expect(container.volumeMounts).toEqual(expect.arrayContaining([
+			{ name: 'dev-0', mountPath: '/dev/ttyUSB0' },
+			{ name: 'tmpfs-0', mountPath: '/run' },
+		]));
+		expect(podSpec.hostAliases).toEqual([{ ip: '10.0.0.5', hostnames: ['broker.local', 'mqtt.local'] }]);
+
+		clients.appsV1Api.listNamespacedDeployment.mockResolvedValue({ body: { items: [deployment] } });
+		const state = await driver.getCurrentState();
+		const current = state.apps['1001'].services[0];
+
+		expect(current.config).toMatchObject({
+			command: gateway.config.command,
+			entrypoint: gateway.config.entrypoint,
+			workingDir: '/app',
+			user: '1000:1000',
+			devices: ['/dev/ttyUSB0'],
+			privileged: true,
+			capAdd: ['SYS_RAWIO'],
+			capDrop: ['MKNOD'],
+			tmpfs: ['/run:size=64m'],
+			extraHosts: gateway.config.extraHosts,
+			logging: gateway.config.logging,
+			dependsOn: ['broker'],
+		});
+		expect((driver as any).needsUpdate(current, gateway)).toBe(false);
+		expect((driver as any).needsUpdate(current, { ...gateway, config: { ...gateway.config, privileged: false } })).toBe(true);
+		expect((driver as any).needsUpdate(current, { ...gateway, config: { ...gateway.config, command: ['--port', '/dev/ttyACM0'] } })).toBe(true);
+	});
+
+	it('should surface image pull failures as service errors', async () => {
+		await driver.createService(service);
+		const [, deployment] = clients.appsV1Api.createNamespacedDeployment.mock.calls[0];
+		clients.appsV1Api.listNamespacedDeployment.mockResolvedValue({ body: { items: [deployment] } });
+		clients.coreV1Api.listNamespacedPod.mockResolvedValue({
+			body: {
+				items: [runningPod({
+					status: {
+						phase: 'Pending',
+						containerStatuses: [{ name: 'web', restartCount: 0, state: { waiting: { reason: 'ImagePullBackOff', message: 'pull access denied' } } }],
+					},
+				})],
+			},
+		});
+
+		const [web] = await driver.listServices();
+
+		expect(web.serviceStatus).toBe('error');
+		expect(web.error).toMatchObject({ type: 'ImagePullBackOff', message: 'pull access denied' });
+		expect(web.status).toMatchObject({ state: 'error', health: 'unhealthy' });
+	});
+
+	it('should read metrics from the metrics API', async () => {
+		clients.coreV1Api.listNamespacedPod.mockResolvedValue({ body: { items: [runningPod()] } });
+		clients.customObjectsApi.getNamespacedCustomObject.mockResolvedValue({
+			body: {
+				timestamp: '2024-01-01T00:01:00Z',
+				containers: [{ name: 'web', usage: { cpu: '250m', memory: '64Mi' } }],
+			},
+		});
+
+		const metrics = await driver.getServiceMetrics('web');
+
+		expect(clients.customObjectsApi.getNamespacedCustomObject).toHaveBeenCalledWith('metrics.k8s.io', 'v1beta1', 'test', 'pods', 'web-abc');
+		expect(metrics).toMatchObject({
+			containerId: 'abc123',
+			serviceName: 'web',
+			cpu: { usage: 25, cores: 4 },
+			memory: { usage: 64 * 1024 * 1024, limit: 256 * 1024 * 1024, percentage: 25 },
+		});
+	});
+
+	it('should emit health changes from pod readiness', async () => {
+		const events: any[] = [];
+		driver.on('health-changed', event => events.push(event));
+		clients.coreV1Api.listNamespacedPod.mockResolvedValue({
+			body: {
+				items: [runningPod({
+					status: {
+						phase: 'Running',
+						conditions: [{ type: 'Ready', status: 'False' }],
+						containerStatuses: [{ name: 'web', ready: false, state: { running: {} } }],
+					},
+				})],
+			},
+		});
+
+		await driver.startHealthMonitoring('web');
+		expect(events).toEqual([expect.objectContaining({ serviceName: 'web', health: 'unhealthy' })]);
+
+		clients.coreV1Api.listNamespacedPod.mockResolvedValue({ body: { items: [runningPod()] } });
+		await expect(driver.executeHealthCheck('web')).resolves.toMatchObject({ healthy: true });
+
+		await driver.stopHealthMonitoring('web');
+	});
+
+	it('should manage networks as network policies', async () => {
+		clients.networkingV1Api.createNamespacedNetworkPolicy.mockRejectedValueOnce(conflict);
+
+		await driver.createNetwork({ name: '1001_backend', internal: true });
+
+		const [name, , policy] = clients.networkingV1Api.replaceNamespacedNetworkPolicy.mock.calls[0];
+		expect(name).toBe('1001-backend');
+		expect(policy.spec.podSelector).toEqual({ matchLabels: { 'network.iotistic.io/1001-backend': 'true' } });
+		expect(policy.spec.policyTypes).toEqual(['Ingress', 'Egress']);
+
+		clients.networkingV1Api.deleteNamespacedNetworkPolicy.mockRejectedValueOnce(notFound);
+		await expect(driver.removeNetwork('1001_backend')).resolves.toBeUndefined();
+	});
+
+	it('should manage volumes as persistent volume claims', async () => {
+		await driver.createVolume({ name: '1001_data', driverOpts: { size: '5Gi', storageClass: 'local-path' } });
+
+		const [, claim] = clients.coreV1Api.createNamespacedPersistentVolumeClaim.mock.calls[0];
+		expect(claim.metadata).toMatchObject({ name: '1001-data', labels: { 'iotistic.io/volume-name': '1001_data' } });
+		expect(claim.spec).toMatchObject({ storageClassName: 'local-path', resources: { requests: { storage: '5Gi' } } });
+
+		clients.coreV1Api.createNamespacedPersistentVolumeClaim.mockRejectedValueOnce(conflict);
+		await expect(driver.createVolume({ name: '1001_data' })).resolves.toBeUndefined();
+	});
+
+	it('should create app networks and volumes before services during reconcile', async () => {
+		await driver.setTargetState({ local: { apps: { 1001: { appId: 1001, appName: 'frontend', services: [service] } } } } as any);
+
+		const result = await driver.reconcile();
+
+		expect(result).toMatchObject({ success: true, servicesCreated: 1 });
+		expect(clients.networkingV1Api.createNamespacedNetworkPolicy.mock.calls[0][1].metadata.name).toBe('1001-backend');
+		expect(clients.coreV1Api.createNamespacedPersistentVolumeClaim.mock.calls[0][1].metadata.name).toBe('1001-data');
+	});
+});
@@ -0,0 +1,144 @@
+import { CANAdapter } from '../../../src/features/endpoints/can/can-adapter';
+import { InProcessFrameSource } from '../../../src/features/endpoints/can/frame-source';
+import { decodeSignal, extractRawValue } from '../../../src/features/endpoints/can/decoder';
+import { CANDeviceConfig, CANSignal, CANSignalSchema } from '../../../src/features/endpoints/can/types';
+import { SensorDataPoint } from '../../../src/features/endpoints/types';
+
+const signal = (overrides: Partial<CANSignal>): CANSignal =>
+  CANSignalSchema.parse({ name: 'sig', startBit: 0, length: 8, ...overrides });
+
+describe('CAN decoder', () => {
+  it('should decode little-endian (Intel) signals', () => {
+    const data = Buffer.from([0x34, 0x12, 0, 0, 0, 0, 0, 0]);
+    expect(extractRawValue(data, signal({ startBit: 0, length: 16 }))).toBe(0x1234n);
+  });
+
+  it('should decode big-endian (Motorola) signals', () => {
+    const data = Buffer.from([0x12, 0x34, 0, 0, 0, 0, 0, 0]);
+    expect(extractRawValue(data, signal({ startBit: 7, length: 16, byteOrder: 'big_endian' }))).toBe(0x1234n);
+  });
+
+  it('should decode signals that do not start on a byte boundary', () => {
+    // bits 4..7 of byte 0 = 0xA
+    const data = Buffer.from([0xA5]);
+    expect(extractRawValue(data, signal({ startBit: 4, length: 4 }))).toBe(0xAn);
+  });
+
+  it('should apply two\'s complement, scale and offset', () => {
+    const data = Buffer.from([0xFE]);
+    expect(decodeSignal(data, signal({ signed: true, scale: 0.5, offset: 10 }))).toBe(9);
+  });
+
+  it('should reject signals that exceed the payload', () => {
+    expect(() => extractRawValue(Buffer.from([0x01]), signal({ startBit: 4, length: 8 }))).toThrow(
+      'exceeds payload length'
+    );
+  });
+});
+
+describe('CANAdapter', () => {
+  let mockLogger: any;
+  let source: InProcessFrameSource;
+  let adapter: CANAdapter;
+
+  const device: CANDeviceConfig = {
+    name: 'engine-ecu',
+    protocol: 'can',
+    enabled: true,
+    pollInterval: 20,
+    connection: { interface: 'vcan0' },
+    dataPoints: [
+      {
+        id: 0x100,
+        signals: [
+          signal({ name: 'rpm', startBit: 0, length: 16, scale: 0.25, unit: 'rpm' }),
+          signal({ name: 'coolant_temp', startBit: 16, length: 8, offset: -40, unit: '°C', max: 120 }),
+        ],
+      },
+    ],
+  };
+
+  const nextData = (predicate: (points: SensorDataPoint[]) => boolean) =>
+    new Promise<SensorDataPoint[]>(resolve => {
+      const listener = (points: SensorDataPoint[]) => {
+        if (predicate(points)) {
+          adapter.off('data', listener);
+          resolve(points);
+        }
+      };
+      adapter.on('data', listener);
+    });
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+    source = new InProcessFrameSource('vcan0');
+    adapter = new CANAdapter([device], mockLogger, () => source);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+  });
+
+  it('should report NO_DATA before any frame is received', async () => {
+    const pending = nextData(() => true);
+    await adapter.start();
+
+    const points = await pending;
+    expect(points.map(p => p.qualityCode)).toEqual(['NO_DATA', 'NO_DATA']);
+    expect(points.every(p => p.quality === 'UNCERTAIN')).toBe(true);
+  });
+
+  it('should decode frames into sensor data points', async () => {
+    await adapter.start();
+    const pending = nextData(points => points.some(p => p.quality === 'GOOD'));
+
+    // rpm raw 0x1F40 = 8000 -> 2000 rpm, coolant raw 130 -> 90 °C
+    source.inject({ id: 0x100, data: Buffer.from([0x40, 0x1F, 130, 0, 0, 0, 0, 0]) });
+
+    const points = await pending;
+    expect(points).toEqual([
+      expect.objectContaining({ deviceName: 'engine-ecu', registerName: 'rpm', value: 2000, unit: 'rpm', quality: 'GOOD' }),
+      expect.objectContaining({ registerName: 'coolant_temp', value: 90, unit: '°C', quality: 'GOOD' }),
+    ]);
+    expect(adapter.getFrameCount('engine-ecu')).toBe(1);
+  });
+
+  it('should mark out-of-range values as UNCERTAIN', async () => {
+    await adapter.start();
+    const pending = nextData(points => points.some(p => p.qualityCode === 'OUT_OF_RANGE'));
+
+    source.inject({ id: 0x100, data: Buffer.from([0, 0, 200, 0, 0, 0, 0, 0]) });
+
+    const points = await pending;
+    expect(points.find(p => p.registerName === 'coolant_temp')).toMatchObject({ value: 160, quality: 'UNCERTAIN' });
+  });
+
+  it('should ignore frames with unconfigured IDs', async () => {
+    await adapter.start();
+    source.inject({ id: 0x200, data: Buffer.from([1, 2, 3]) });
+    expect(adapter.getFrameCount('engine-ecu')).toBe(0);
+  });
+
+  it('should report device status for endpoint health', async () => {
+    await adapter.start();
+    const pending = nextData(points => points.some(p => p.quality === 'GOOD'));
+    source.inject({ id: 0x100, data: Buffer.from([0x40, 0x1F, 130, 0, 0, 0, 0, 0]) });
+    await pending;
+
+    const [status] = adapter.getDeviceStatuses();
+    expect(status).toMatchObject({ deviceName: 'engine-ecu', connected: true, communicationQuality: expect.any(String) });
+    expect(status.lastSeen).not.toBeNull();
+  });
+
+  it('should close the frame source on stop', async () => {
+    await adapter.start();
+    expect(source.isOpen()).toBe(true);
+    await adapter.stop();
+    expect(source.isOpen()).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { ModbusAdapter } from '../../../src/features/endpoints/modbus/adapter';
+import { ModbusAdapterConfig, ModbusDeviceSchema } from '../../../src/features/endpoints/modbus/types';
+import { checkWritePermission, reverseScale, valuesMatch } from '../../../src/features/endpoints/common/write';
+
+describe('Endpoint write helpers', () => {
+  it('should reject writes to read-only and unknown points', () => {
+    expect(checkWritePermission(undefined, 1)).toBe('REGISTER_NOT_FOUND');
+    expect(checkWritePermission({ name: 'temp' }, 1)).toBe('NOT_WRITABLE');
+  });
+
+  it('should enforce configured limits', () => {
+    const point = { name: 'setpoint', writable: true, min: 0, max: 100 };
+    expect(checkWritePermission(point, 50)).toBeNull();
+    expect(checkWritePermission(point, 150)).toBe('OUT_OF_RANGE');
+    expect(checkWritePermission(point, NaN)).toBe('INVALID_VALUE');
+  });
+
+  it('should reverse scale and offset', () => {
+    expect(reverseScale(25, 0.1, 5)).toBeCloseTo(200);
+    expect(() => reverseScale(1, 0)).toThrow('scale factor of 0');
+  });
+
+  it('should compare read-back values within half a scale step', () => {
+    expect(valuesMatch(21.5, 21.5, 0.1)).toBe(true);
+    expect(valuesMatch(21.5, 21.54, 0.1)).toBe(true);
+    expect(valuesMatch(21.5, 22, 0.1)).toBe(false);
+    expect(valuesMatch(true, 1)).toBe(true);
+    expect(valuesMatch(5, null)).toBe(false);
+  });
+});
+
+describe('ModbusAdapter.writeValue', () => {
+  let mockLogger: any;
+  let mockClient: any;
+  let adapter: ModbusAdapter;
+
+  const device = ModbusDeviceSchema.parse({
+    name: 'boiler',
+    slaveId: 1,
+    connection: { type: 'tcp', host: '127.0.0.1', port: 502 },
+    registers: [
+      { name: 'temperature', address: 0, functionCode: 4, dataType: 'int16', scale: 0.1 },
+      { name: 'setpoint', address: 10, functionCode: 3, dataType: 'int16', scale: 0.1, writable: true, min: 0, max: 90 },
+    ],
+  });
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+    mockClient = {
+      isConnected: jest.fn().mockReturnValue(true),
+      writeRegister: jest.fn().mockResolvedValue(undefined),
+      readRegisterValue: jest.fn().mockResolvedValue(60),
+    };
+    const config: ModbusAdapterConfig = { devices: [device] } as ModbusAdapterConfig;
+    adapter = new ModbusAdapter(config, mockLogger);
+    (adapter as any).clients.set('boiler', mockClient);
+  });
+
+  it('should write and verify a writable register', async () => {
+    const result = await adapter.writeValue({ commandId: 'c1', deviceName: 'boiler', register: 'setpoint', value: 60 });
+
+    expect(mockClient.writeRegister).toHaveBeenCalledWith(expect.objectContaining({ name: 'setpoint' }), 60);
+    expect(result).toMatchObject({ commandId: 'c1', success: true, quality: 'GOOD', readBackValue: 60 });
+  });
+
+  it('should reject read-only registers without touching the device', async () => {
+    const result = await adapter.writeValue({ deviceName: 'boiler', register: 'temperature', value: 20 });
+
+    expect(mockClient.writeRegister).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ success: false, quality: 'BAD', qualityCode: 'NOT_WRITABLE' });
+  });
+
+  it('should reject values outside the configured range', async () => {
+    const result = await adapter.writeValue({ deviceName: 'boiler', register: 'setpoint', value: 120 });
+
+    expect(mockClient.writeRegister).not.toHaveBeenCalled();
+    expect(result.qualityCode).toBe('OUT_OF_RANGE');
+  });
+
+  it('should report a read-back mismatch as UNCERTAIN', async () => {
+    mockClient.readRegisterValue.mockResolvedValue(45);
+
+    const result = await adapter.writeValue({ deviceName: 'boiler', register: 'setpoint', value: 60 });
+
+    expect(result).toMatchObject({ success: true, quality: 'UNCERTAIN', qualityCode: 'VERIFY_MISMATCH', readBackValue: 45 });
+  });
+
+  it('should report device write failures', async () => {
+    mockClient.writeRegister.mockRejectedValue(new Error('Timed out'));
+
+    const result = await adapter.writeValue({ deviceName: 'boiler', register: 'setpoint', value: 60 });
+
+    expect(result).toMatchObject({ success: false, quality: 'BAD', qualityCode: 'WRITE_FAILED', error: 'Timed out' });
+  });
+});
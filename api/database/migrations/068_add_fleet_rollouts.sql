@@ -0,0 +1,108 @@
+-- Migration 068: Add Fleet Rollouts
+-- Staged deployment of target-state changes across devices selected by tags.
+-- Devices are deployed in waves (e.g. 1%, 10%, 100%); the rollout pauses or
+-- rolls back when the failure rate of a wave crosses the configured threshold.
+
+BEGIN;
+
+-- Rollouts - One staged deployment across a device set
+CREATE TABLE IF NOT EXISTS fleet_rollouts (
+    id SERIAL PRIMARY KEY,
+    rollout_id VARCHAR(255) NOT NULL UNIQUE,  -- Unique rollout identifier (UUID)
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+
+    -- Device selection and payload
+    tag_selectors JSONB NOT NULL,              -- Same selectors as POST /devices/query
+    target_apps JSONB NOT NULL,                -- Apps merged into each device's target state (keyed by appId)
+
+    -- Wave configuration
+    waves JSONB NOT NULL,                      -- Cumulative percentages, e.g. [1, 10, 100]
+    current_wave INTEGER DEFAULT 0,            -- Index into waves
+    failure_threshold NUMERIC(5,2) DEFAULT 10, -- Percentage of failed devices that triggers on_failure
+    on_failure VARCHAR(20) DEFAULT 'pause',    -- 'pause' or 'rollback'
+    wave_timeout_seconds INTEGER DEFAULT 900,  -- Max time for a device to report the new version healthy
+    wave_delay_seconds INTEGER DEFAULT 300,    -- Soak time after a wave succeeds before the next one starts
+
+    -- Status
+    status VARCHAR(50) DEFAULT 'IN_PROGRESS',  -- IN_PROGRESS, PAUSED, SUCCEEDED, ROLLED_BACK, CANCELED
+    status_reason TEXT,
+    wave_completed_at TIMESTAMP,               -- When the current wave finished (for wave_delay_seconds)
+    started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP,
+
+    -- Statistics
+    total_devices INTEGER DEFAULT 0,
+    succeeded_devices INTEGER DEFAULT 0,
+    failed_devices INTEGER DEFAULT 0,
+    in_progress_devices INTEGER DEFAULT 0,
+
+    -- Metadata
+    created_by VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT fleet_rollouts_on_failure_check CHECK (on_failure IN ('pause', 'rollback'))
+);
+
+-- Rollout Devices - Per-device deployment tracking
+CREATE TABLE IF NOT EXISTS fleet_rollout_devices (
+    id SERIAL PRIMARY KEY,
+    rollout_id VARCHAR(255) NOT NULL REFERENCES fleet_rollouts(rollout_id) ON DELETE CASCADE,
+    device_uuid UUID NOT NULL REFERENCES devices(uuid) ON DELETE CASCADE,
+    wave INTEGER NOT NULL,
+
+    -- Status
+    status VARCHAR(50) DEFAULT 'QUEUED',  -- QUEUED, IN_PROGRESS, SUCCEEDED, FAILED, SKIPPED, ROLLED_BACK
+    reason TEXT,
+
+    -- Versions (device_target_state.version)
+    previous_version INTEGER,             -- Version to roll back to
+    deployed_version INTEGER,             -- Version deployed by this rollout
+    previous_apps JSONB,                  -- Snapshot used when no history entry exists for previous_version
+    previous_config JSONB,
+
+    -- Timing
+    deployed_at TIMESTAMP,
+    completed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(rollout_id, device_uuid)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_fleet_rollouts_status ON fleet_rollouts(status);
+CREATE INDEX IF NOT EXISTS idx_fleet_rollouts_created_at ON fleet_rollouts(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_fleet_rollout_devices_rollout_wave ON fleet_rollout_devices(rollout_id, wave);
+CREATE INDEX IF NOT EXISTS idx_fleet_rollout_devices_device ON fleet_rollout_devices(device_uuid);
+CREATE INDEX IF NOT EXISTS idx_fleet_rollout_devices_status ON fleet_rollout_devices(status);
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON fleet_rollouts, fleet_rollout_devices TO iotistic_app;
+        GRANT USAGE, SELECT ON SEQUENCE fleet_rollouts_id_seq, fleet_rollout_devices_id_seq TO iotistic_app;
+    END IF;
+END $$;
+
+-- Event types
+INSERT INTO event_types (event_type, aggregate_type, description, retention_tier, retention_days) VALUES
+('rollout.started', 'rollout', 'Fleet rollout created and first wave started', 'important', 365),
+('rollout.wave_started', 'rollout', 'Fleet rollout advanced to the next wave', 'standard', 90),
+('rollout.paused', 'rollout', 'Fleet rollout paused (manually or failure threshold crossed)', 'important', 365),
+('rollout.resumed', 'rollout', 'Fleet rollout resumed after pause', 'important', 365),
+('rollout.succeeded', 'rollout', 'All waves of a fleet rollout deployed successfully', 'important', 365),
+('rollout.rolled_back', 'rollout', 'Fleet rollout rolled back to previous target state versions', 'critical', 2555),
+('rollout.canceled', 'rollout', 'Fleet rollout canceled', 'important', 365)
+ON CONFLICT (event_type) DO NOTHING;
+
+-- Comments
+COMMENT ON TABLE fleet_rollouts IS 'Staged target-state deployments across devices selected by tags';
+COMMENT ON COLUMN fleet_rollouts.waves IS 'Cumulative percentages of the device set deployed per wave, last is always 100';
+COMMENT ON COLUMN fleet_rollouts.failure_threshold IS 'Failed devices (percent of deployed devices) that pauses or rolls back the rollout';
+COMMENT ON TABLE fleet_rollout_devices IS 'Per-device state of a fleet rollout';
+COMMENT ON COLUMN fleet_rollout_devices.previous_version IS 'Target state version before the rollout deployed, restored on rollback';
+
+COMMIT;
@@ -0,0 +1,42 @@
+-- Migration 069: Add Job Rollout Controls
+-- AWS-IoT-Jobs-style rollout configuration for job executions: devices are
+-- notified gradually (max in-flight devices, optional exponential ramp-up),
+-- the job is canceled when abort criteria match, and device executions that
+-- stay IN_PROGRESS longer than timeout_minutes are moved to TIMED_OUT.
+
+BEGIN;
+
+-- Rollout and abort configuration
+ALTER TABLE job_executions
+    ADD COLUMN IF NOT EXISTS rollout_config JSONB,  -- { max_concurrency, maximum_per_minute, exponential_rate }
+    ADD COLUMN IF NOT EXISTS abort_config JSONB,    -- { criteria: [{ failure_type, action, threshold_percentage, min_executed_devices }] }
+    ADD COLUMN IF NOT EXISTS status_reason TEXT,    -- Why the job was canceled (e.g. abort criteria matched)
+    ADD COLUMN IF NOT EXISTS timed_out_devices INTEGER DEFAULT 0;
+
+-- Dispatch tracking: a QUEUED execution is only offered to the device once notified
+ALTER TABLE device_job_status
+    ADD COLUMN IF NOT EXISTS notified_at TIMESTAMP;
+
+-- Existing executions were notified when queued
+UPDATE device_job_status SET notified_at = queued_at WHERE notified_at IS NULL;
+
+-- Jobs without rollout_config are dispatched on insert
+ALTER TABLE device_job_status
+    ALTER COLUMN notified_at SET DEFAULT CURRENT_TIMESTAMP;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_device_job_status_job_status ON device_job_status(job_id, status);
+CREATE INDEX IF NOT EXISTS idx_device_job_status_in_progress ON device_job_status(started_at) WHERE status = 'IN_PROGRESS';
+
+-- Event types
+INSERT INTO event_types (event_type, aggregate_type, description, retention_tier, retention_days) VALUES
+('job.aborted', 'job', 'Job execution canceled because abort criteria matched', 'important', 365)
+ON CONFLICT (event_type) DO NOTHING;
+
+-- Comments
+COMMENT ON COLUMN job_executions.rollout_config IS 'Limits how many device executions are notified at once and per minute';
+COMMENT ON COLUMN job_executions.abort_config IS 'Failure-rate criteria that cancel the remaining device executions';
+COMMENT ON COLUMN job_executions.timeout_minutes IS 'In-progress timeout per device execution, after which it becomes TIMED_OUT';
+COMMENT ON COLUMN device_job_status.notified_at IS 'When the execution was made available to the device (NULL = held back by rollout_config)';
+
+COMMIT;
@@ -0,0 +1,76 @@
+-- Migration 070: Add Metric-Threshold Alert Rules
+-- Second rule type next to log-pattern rules: thresholds evaluated over device
+-- metrics, sensor readings and heartbeat status ("CPU over 90% for 10 minutes",
+-- "device offline over 15 minutes", "temperature above 80"). Metric rules share
+-- log_alerts and its lifecycle (active -> acknowledged -> resolved).
+
+BEGIN;
+
+-- Rule type and metric condition
+ALTER TABLE log_alert_rules
+    ADD COLUMN IF NOT EXISTS rule_type VARCHAR(20) NOT NULL DEFAULT 'log',  -- 'log' or 'metric'
+    ADD COLUMN IF NOT EXISTS source VARCHAR(20),              -- 'device_metric', 'sensor', 'heartbeat'
+    ADD COLUMN IF NOT EXISTS metric VARCHAR(255),             -- cpu_usage, memory_percent, ... or sensor field path (e.g. 'temperature')
+    ADD COLUMN IF NOT EXISTS sensor_name VARCHAR(255),        -- sensor_data.sensor_name (source = 'sensor')
+    ADD COLUMN IF NOT EXISTS condition VARCHAR(20),           -- 'above', 'below', 'outside_range', 'no_data'
+    ADD COLUMN IF NOT EXISTS threshold_value NUMERIC,         -- For above / below
+    ADD COLUMN IF NOT EXISTS range_min NUMERIC,               -- For outside_range
+    ADD COLUMN IF NOT EXISTS range_max NUMERIC,
+    ADD COLUMN IF NOT EXISTS for_duration INTEGER DEFAULT 0,  -- Seconds the condition must hold before firing (no_data: silence period)
+    ADD COLUMN IF NOT EXISTS hysteresis NUMERIC DEFAULT 0,    -- Margin past the threshold required to clear
+    ADD COLUMN IF NOT EXISTS auto_resolve BOOLEAN DEFAULT true;
+
+-- Metric rules have no log pattern
+ALTER TABLE log_alert_rules ALTER COLUMN pattern DROP NOT NULL;
+
+ALTER TABLE log_alert_rules
+    DROP CONSTRAINT IF EXISTS log_alert_rules_rule_type_check,
+    ADD CONSTRAINT log_alert_rules_rule_type_check CHECK (
+        (rule_type = 'log' AND pattern IS NOT NULL) OR
+        (rule_type = 'metric' AND source IN ('device_metric', 'sensor', 'heartbeat')
+            AND condition IN ('above', 'below', 'outside_range', 'no_data'))
+    );
+
+-- Observed value on metric alerts
+ALTER TABLE log_alerts
+    ADD COLUMN IF NOT EXISTS value NUMERIC,                   -- Last observed value
+    ADD COLUMN IF NOT EXISTS auto_resolved BOOLEAN DEFAULT false;
+
+-- Pending state: condition breaching but for_duration not reached yet
+CREATE TABLE IF NOT EXISTS metric_alert_state (
+    rule_id INTEGER NOT NULL REFERENCES log_alert_rules(id) ON DELETE CASCADE,
+    device_uuid UUID NOT NULL REFERENCES devices(uuid) ON DELETE CASCADE,
+    pending_since TIMESTAMP NOT NULL,
+    last_value NUMERIC,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (rule_id, device_uuid)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_alert_rules_rule_type ON log_alert_rules(rule_type);
+CREATE INDEX IF NOT EXISTS idx_alerts_rule_device_status ON log_alerts(rule_id, device_uuid, status);
+
+-- Default metric rule templates (disabled)
+INSERT INTO log_alert_rules (name, description, rule_type, source, metric, condition, threshold_value, for_duration, hysteresis, time_window, severity, is_enabled)
+VALUES
+    ('High CPU', 'CPU usage over 90% for 10 minutes', 'metric', 'device_metric', 'cpu_usage', 'above', 90, 600, 5, 300, 'warning', false),
+    ('Device Offline', 'Device offline for more than 15 minutes', 'metric', 'heartbeat', 'offline_minutes', 'above', 15, 0, 0, 300, 'critical', false),
+    ('Metrics Missing', 'No metrics reported for 30 minutes', 'metric', 'device_metric', 'cpu_usage', 'no_data', NULL, 1800, 0, 300, 'warning', false)
+ON CONFLICT DO NOTHING;
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON metric_alert_state TO iotistic_app;
+    END IF;
+END $$;
+
+-- Comments
+COMMENT ON COLUMN log_alert_rules.rule_type IS 'log: pattern match over device_logs, metric: threshold over metrics/sensors/heartbeat';
+COMMENT ON COLUMN log_alert_rules.for_duration IS 'Seconds the condition must hold before the alert fires (no_data: seconds without samples)';
+COMMENT ON COLUMN log_alert_rules.hysteresis IS 'Value must return this far past the threshold before the alert clears';
+COMMENT ON COLUMN log_alert_rules.time_window IS 'Log rules: window for count/rate triggers. Metric rules: max sample age in seconds';
+COMMENT ON TABLE metric_alert_state IS 'Metric rule conditions that are breaching but have not held for for_duration yet';
+
+COMMIT;
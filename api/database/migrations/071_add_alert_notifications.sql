@@ -0,0 +1,89 @@
+-- Migration 071: Add Alert Notifications
+-- Delivers alerts by email (postoffice AlertNotification template) and signed
+-- webhooks (generic JSON, Slack or Teams payloads) as promised by the rule's
+-- notify_email / notify_webhook flags. Every delivery attempt is recorded.
+
+BEGIN;
+
+-- Per-rule recipients
+ALTER TABLE log_alert_rules
+    ADD COLUMN IF NOT EXISTS notify_emails TEXT[] DEFAULT '{}',  -- Email recipients (notify_email)
+    ADD COLUMN IF NOT EXISTS webhook_ids INTEGER[];              -- Webhooks to call (notify_webhook), NULL = all enabled
+
+-- Webhook endpoints
+CREATE TABLE IF NOT EXISTS alert_webhooks (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    url TEXT NOT NULL,
+    secret VARCHAR(255) NOT NULL,              -- HMAC-SHA256 signing secret
+    format VARCHAR(20) NOT NULL DEFAULT 'json', -- 'json', 'slack', 'teams'
+    headers JSONB DEFAULT '{}',                -- Extra request headers
+    is_enabled BOOLEAN DEFAULT true,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT alert_webhooks_format_check CHECK (format IN ('json', 'slack', 'teams'))
+);
+
+-- Delivery history (one row per alert and recipient, retried with backoff)
+CREATE TABLE IF NOT EXISTS alert_notification_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    alert_id BIGINT REFERENCES log_alerts(id) ON DELETE CASCADE,  -- NULL for test sends
+    rule_id INTEGER REFERENCES log_alert_rules(id) ON DELETE SET NULL,
+    channel VARCHAR(20) NOT NULL,              -- 'email' or 'webhook'
+    webhook_id INTEGER REFERENCES alert_webhooks(id) ON DELETE SET NULL,
+    recipient TEXT NOT NULL,                   -- Email address or webhook URL
+    payload JSONB NOT NULL,                    -- Notification context
+
+    -- Status
+    status VARCHAR(20) DEFAULT 'pending',      -- 'pending', 'delivered', 'failed'
+    attempts INTEGER DEFAULT 0,
+    max_attempts INTEGER DEFAULT 5,
+    next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_error TEXT,
+    response_status INTEGER,
+    is_test BOOLEAN DEFAULT false,
+
+    delivered_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT alert_deliveries_channel_check CHECK (channel IN ('email', 'webhook'))
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_alert ON alert_notification_deliveries(alert_id);
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_pending ON alert_notification_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_created_at ON alert_notification_deliveries(created_at DESC);
+
+-- Triggers for updated_at
+DROP TRIGGER IF EXISTS update_alert_webhooks_updated_at ON alert_webhooks;
+CREATE TRIGGER update_alert_webhooks_updated_at
+    BEFORE UPDATE ON alert_webhooks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_alert_deliveries_updated_at ON alert_notification_deliveries;
+CREATE TRIGGER update_alert_deliveries_updated_at
+    BEFORE UPDATE ON alert_notification_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON alert_webhooks, alert_notification_deliveries TO iotistic_app;
+        GRANT USAGE, SELECT ON SEQUENCE alert_webhooks_id_seq, alert_notification_deliveries_id_seq TO iotistic_app;
+    END IF;
+END $$;
+
+-- Comments
+COMMENT ON COLUMN log_alert_rules.notify_emails IS 'Email recipients when notify_email is set';
+COMMENT ON COLUMN log_alert_rules.webhook_ids IS 'alert_webhooks called when notify_webhook is set (NULL = all enabled webhooks)';
+COMMENT ON TABLE alert_webhooks IS 'User-configured webhook endpoints for alert notifications';
+COMMENT ON COLUMN alert_webhooks.secret IS 'Signs X-Iotistic-Signature: sha256=HMAC(secret, timestamp + "." + body)';
+COMMENT ON TABLE alert_notification_deliveries IS 'Email and webhook delivery attempts for alerts';
+
+COMMIT;
@@ -0,0 +1,220 @@
+-- Migration 072: Add Partitioning to sensor_data
+-- Converts sensor_data to daily range partitions on timestamp so the batch
+-- ingestion worker writes into small, recent partitions and retention is a
+-- partition drop instead of a DELETE. Partitions are created and dropped by the
+-- housekeeper task sensor-data-partition-maintenance.
+
+BEGIN;
+
+-- Step 1: Convert table (skipped if already partitioned)
+DO $$
+DECLARE
+    is_partitioned BOOLEAN;
+BEGIN
+    SELECT EXISTS (
+        SELECT 1 FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        WHERE c.relname = 'sensor_data'
+        AND c.relkind = 'p'  -- 'p' = partitioned table
+    ) INTO is_partitioned;
+
+    IF is_partitioned THEN
+        RAISE NOTICE 'sensor_data is already partitioned, skipping table conversion';
+    ELSE
+        RAISE NOTICE 'Converting sensor_data to partitioned table...';
+
+        -- Keep the old table aside, freeing its index and sequence names
+        ALTER TABLE sensor_data RENAME TO sensor_data_old;
+        ALTER INDEX IF EXISTS sensor_data_pkey RENAME TO sensor_data_old_pkey;
+        ALTER SEQUENCE IF EXISTS sensor_data_id_seq RENAME TO sensor_data_old_id_seq;
+        DROP INDEX IF EXISTS idx_sensor_data_device_uuid;
+        DROP INDEX IF EXISTS idx_sensor_data_sensor_name;
+        DROP INDEX IF EXISTS idx_sensor_data_timestamp;
+        DROP INDEX IF EXISTS idx_sensor_data_device_sensor;
+        DROP INDEX IF EXISTS idx_sensor_data_unique;
+
+        CREATE TABLE sensor_data (
+            id BIGSERIAL,
+            device_uuid UUID NOT NULL REFERENCES devices(uuid) ON DELETE CASCADE,
+            sensor_name VARCHAR(255) NOT NULL,
+            data JSONB NOT NULL,
+            metadata JSONB DEFAULT '{}',
+            timestamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+            PRIMARY KEY (id, timestamp)
+        ) PARTITION BY RANGE (timestamp);
+    END IF;
+END $$;
+
+-- Step 2: Indexes on partitioned table (inherited by partitions)
+CREATE INDEX IF NOT EXISTS idx_sensor_data_device_sensor ON sensor_data(device_uuid, sensor_name, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_sensor_data_sensor_name ON sensor_data(sensor_name, timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_sensor_data_timestamp ON sensor_data(timestamp DESC);
+
+-- Duplicate readings are skipped by ON CONFLICT DO NOTHING (includes the partition key)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sensor_data_unique ON sensor_data(device_uuid, sensor_name, timestamp);
+
+-- Step 3: Partition management functions
+
+-- Function to create a partition for a specific date
+CREATE OR REPLACE FUNCTION create_sensor_data_partition(
+    partition_date DATE
+) RETURNS TEXT AS $$
+DECLARE
+    partition_name TEXT;
+BEGIN
+    partition_name := 'sensor_data_' || TO_CHAR(partition_date, 'YYYY_MM_DD');
+
+    IF EXISTS (
+        SELECT 1 FROM pg_tables
+        WHERE schemaname = 'public'
+        AND tablename = partition_name
+    ) THEN
+        RETURN 'EXISTS: ' || partition_name;
+    END IF;
+
+    EXECUTE format(
+        'CREATE TABLE %I PARTITION OF sensor_data
+         FOR VALUES FROM (%L) TO (%L)',
+        partition_name,
+        partition_date,
+        partition_date + INTERVAL '1 day'
+    );
+
+    RETURN 'CREATED: ' || partition_name;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to create partitions for a date range (relative to today)
+CREATE OR REPLACE FUNCTION create_sensor_data_partitions_range(
+    start_days_ago INTEGER,
+    end_days_ahead INTEGER
+) RETURNS TABLE(result TEXT) AS $$
+DECLARE
+    i INTEGER;
+BEGIN
+    FOR i IN start_days_ago..end_days_ahead LOOP
+        RETURN QUERY SELECT create_sensor_data_partition((CURRENT_DATE + i)::DATE);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to drop partitions older than the retention period
+CREATE OR REPLACE FUNCTION drop_old_sensor_data_partitions(
+    retention_days INTEGER DEFAULT 30
+) RETURNS TABLE(result TEXT) AS $$
+DECLARE
+    partition_record RECORD;
+    cutoff_date DATE;
+    partition_date DATE;
+BEGIN
+    cutoff_date := CURRENT_DATE - retention_days;
+
+    FOR partition_record IN
+        SELECT tablename
+        FROM pg_tables
+        WHERE schemaname = 'public'
+        AND tablename ~ '^sensor_data_[0-9]{4}_[0-9]{2}_[0-9]{2}$'
+    LOOP
+        BEGIN
+            partition_date := TO_DATE(SUBSTRING(partition_record.tablename FROM 'sensor_data_(.*)'), 'YYYY_MM_DD');
+
+            IF partition_date < cutoff_date THEN
+                EXECUTE format('DROP TABLE IF EXISTS %I', partition_record.tablename);
+                RETURN QUERY SELECT 'DROPPED: ' || partition_record.tablename;
+            END IF;
+        EXCEPTION WHEN OTHERS THEN
+            RETURN QUERY SELECT 'ERROR: ' || partition_record.tablename || ' - ' || SQLERRM;
+        END;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to get partition statistics
+CREATE OR REPLACE FUNCTION get_sensor_data_partition_stats()
+RETURNS TABLE(
+    partition_name TEXT,
+    partition_date DATE,
+    row_count BIGINT,
+    size TEXT,
+    age_days INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        pt.tablename::TEXT AS partition_name,
+        TO_DATE(SUBSTRING(pt.tablename FROM 'sensor_data_(.*)'), 'YYYY_MM_DD') AS partition_date,
+        COALESCE((
+            SELECT n_live_tup
+            FROM pg_stat_user_tables
+            WHERE schemaname = 'public'
+            AND relname = pt.tablename
+        ), 0) AS row_count,
+        pg_size_pretty(pg_total_relation_size('public.' || pt.tablename)) AS size,
+        (CURRENT_DATE - TO_DATE(SUBSTRING(pt.tablename FROM 'sensor_data_(.*)'), 'YYYY_MM_DD'))::INTEGER AS age_days
+    FROM pg_tables pt
+    WHERE pt.schemaname = 'public'
+    AND pt.tablename ~ '^sensor_data_[0-9]{4}_[0-9]{2}_[0-9]{2}$'
+    ORDER BY partition_date DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 4: Initial partitions (7 days back + 30 days forward)
+SELECT create_sensor_data_partitions_range(-7, 30);
+
+-- Step 5: Migrate existing readings
+DO $$
+DECLARE
+    oldest DATE;
+    day DATE;
+    max_id BIGINT;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_tables WHERE schemaname = 'public' AND tablename = 'sensor_data_old') THEN
+        RETURN;
+    END IF;
+
+    -- Partitions for every day that has readings
+    SELECT MIN(timestamp)::DATE INTO oldest FROM sensor_data_old;
+    IF oldest IS NOT NULL THEN
+        day := oldest;
+        WHILE day < CURRENT_DATE - 7 LOOP
+            PERFORM create_sensor_data_partition(day);
+            day := day + 1;
+        END LOOP;
+
+        -- Readings ahead of the pre-created range (device clocks in the future)
+        FOR day IN SELECT DISTINCT timestamp::DATE FROM sensor_data_old WHERE timestamp >= CURRENT_DATE + 31 LOOP
+            PERFORM create_sensor_data_partition(day);
+        END LOOP;
+
+        RAISE NOTICE 'Migrating sensor_data_old into partitions...';
+        INSERT INTO sensor_data (id, device_uuid, sensor_name, data, metadata, timestamp, created_at)
+        SELECT id, device_uuid, sensor_name, data, metadata, timestamp, created_at
+        FROM sensor_data_old
+        ON CONFLICT DO NOTHING;
+
+        SELECT COALESCE(MAX(id), 0) INTO max_id FROM sensor_data;
+        IF max_id > 0 THEN
+            PERFORM setval(pg_get_serial_sequence('sensor_data', 'id'), max_id, true);
+        END IF;
+    END IF;
+
+    DROP TABLE sensor_data_old;
+END $$;
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON sensor_data TO iotistic_app;
+        GRANT USAGE, SELECT ON SEQUENCE sensor_data_id_seq TO iotistic_app;
+    END IF;
+END $$;
+
+-- Comments
+COMMENT ON TABLE sensor_data IS 'Time-series sensor data from devices (partitioned by day)';
+COMMENT ON COLUMN sensor_data.data IS 'Sensor reading data (flexible JSONB format)';
+COMMENT ON COLUMN sensor_data.metadata IS 'Additional metadata about the sensor reading';
+COMMENT ON FUNCTION drop_old_sensor_data_partitions IS 'Drops sensor_data partitions older than retention_days (SENSOR_DATA_RETENTION_DAYS in housekeeper)';
+
+COMMIT;
@@ -0,0 +1,33 @@
+-- Migration 073: Add Registry Credentials
+-- Per-registry pull credentials. Passwords are encrypted with SECRETS_ENCRYPTION_KEY
+-- (AES-256-GCM) and only decrypted to resolve image digests at deploy time and
+-- to deliver them to devices in their target state (config.registries).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS registry_credentials (
+    id SERIAL PRIMARY KEY,
+    registry VARCHAR(255) NOT NULL UNIQUE,  -- e.g. docker.io, ghcr.io, registry.example.com:5000
+    username VARCHAR(255) NOT NULL,
+    password_encrypted TEXT NOT NULL,
+    description TEXT,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON registry_credentials TO iotistic_app;
+        GRANT USAGE, SELECT ON SEQUENCE registry_credentials_id_seq TO iotistic_app;
+    END IF;
+END $$;
+
+-- Comments
+COMMENT ON TABLE registry_credentials IS 'Container registry pull credentials delivered to devices';
+COMMENT ON COLUMN registry_credentials.registry IS 'Registry host as it appears in image references (docker.io for Docker Hub)';
+COMMENT ON COLUMN registry_credentials.password_encrypted IS 'Password or token encrypted with SECRETS_ENCRYPTION_KEY (iv:tag:ciphertext, base64)';
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Migration 074: Add Service Rollback Event Type
+-- Devices roll a service update back to the previous version when the new one
+-- keeps failing its startup/liveness probe, and report it in current state.
+
+BEGIN;
+
+INSERT INTO event_types (event_type, aggregate_type, description, retention_tier, retention_days) VALUES
+('container.rolled_back', 'device', 'Service update rolled back to the previous version on the device', 'important', 365)
+ON CONFLICT (event_type) DO NOTHING;
+
+COMMIT;
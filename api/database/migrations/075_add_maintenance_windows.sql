@@ -0,0 +1,42 @@
+-- Migration 075: Add Maintenance Windows
+-- Cron-style windows during which devices may apply disruptive app updates.
+-- A window targets one device (device_uuid) or every device matching a tag
+-- selector (tag_selector, AND logic like find_devices_by_tags). Devices get
+-- their effective windows in the target state poll (config.maintenanceWindows).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS maintenance_windows (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    device_uuid UUID REFERENCES devices(uuid) ON DELETE CASCADE,
+    tag_selector JSONB,
+    schedule VARCHAR(100) NOT NULL,          -- 5-field cron, e.g. '0 2 * * 6'
+    duration_minutes INTEGER NOT NULL,
+    timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT maintenance_windows_target CHECK ((device_uuid IS NULL) <> (tag_selector IS NULL)),
+    CONSTRAINT maintenance_windows_duration CHECK (duration_minutes > 0 AND duration_minutes <= 10080)
+);
+
+CREATE INDEX IF NOT EXISTS idx_maintenance_windows_device ON maintenance_windows(device_uuid) WHERE device_uuid IS NOT NULL;
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON maintenance_windows TO iotistic_app;
+        GRANT USAGE, SELECT ON SEQUENCE maintenance_windows_id_seq TO iotistic_app;
+    END IF;
+END $$;
+
+-- Comments
+COMMENT ON TABLE maintenance_windows IS 'Windows during which devices may apply disruptive app updates';
+COMMENT ON COLUMN maintenance_windows.tag_selector IS 'Device tags that must all match, e.g. {"line": "3"}';
+COMMENT ON COLUMN maintenance_windows.timezone IS 'IANA timezone the schedule is evaluated in';
+
+COMMIT;
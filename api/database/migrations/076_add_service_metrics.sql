@@ -0,0 +1,155 @@
+-- Migration 076: Add Per-Service Metrics
+-- Devices sample CPU, memory, network and block IO of each managed container and
+-- batch the samples into the state report (service_metrics). Stored in daily
+-- range partitions on recorded_at, created and dropped by the housekeeper task
+-- service-metrics-partition-maintenance. OOM kills and restarts reported by
+-- devices (service_events) are published as events.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS service_metrics (
+    id BIGSERIAL,
+    device_uuid UUID NOT NULL REFERENCES devices(uuid) ON DELETE CASCADE,
+    app_id INTEGER NOT NULL,
+    service_name VARCHAR(255) NOT NULL,
+    container_id VARCHAR(64),
+    recorded_at TIMESTAMP NOT NULL,
+    cpu_percent REAL,                -- Percent of one CPU (200 = two full cores)
+    memory_bytes BIGINT,             -- Excluding page cache
+    memory_limit_bytes BIGINT,
+    network_rx_bytes BIGINT,         -- Since the previous sample
+    network_tx_bytes BIGINT,
+    block_read_bytes BIGINT,         -- Since the previous sample
+    block_write_bytes BIGINT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (id, recorded_at)
+) PARTITION BY RANGE (recorded_at);
+
+CREATE INDEX IF NOT EXISTS idx_service_metrics_service ON service_metrics(device_uuid, app_id, service_name, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_service_metrics_recorded_at ON service_metrics(recorded_at DESC);
+
+-- Re-sent reports (offline queue flush) are skipped by ON CONFLICT DO NOTHING
+CREATE UNIQUE INDEX IF NOT EXISTS idx_service_metrics_unique ON service_metrics(device_uuid, app_id, service_name, recorded_at);
+
+-- Partition management functions
+
+CREATE OR REPLACE FUNCTION create_service_metrics_partition(
+    partition_date DATE
+) RETURNS TEXT AS $$
+DECLARE
+    partition_name TEXT;
+BEGIN
+    partition_name := 'service_metrics_' || TO_CHAR(partition_date, 'YYYY_MM_DD');
+
+    IF EXISTS (
+        SELECT 1 FROM pg_tables
+        WHERE schemaname = 'public'
+        AND tablename = partition_name
+    ) THEN
+        RETURN 'EXISTS: ' || partition_name;
+    END IF;
+
+    EXECUTE format(
+        'CREATE TABLE %I PARTITION OF service_metrics
+         FOR VALUES FROM (%L) TO (%L)',
+        partition_name,
+        partition_date,
+        partition_date + INTERVAL '1 day'
+    );
+
+    RETURN 'CREATED: ' || partition_name;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION create_service_metrics_partitions_range(
+    start_days_ago INTEGER,
+    end_days_ahead INTEGER
+) RETURNS TABLE(result TEXT) AS $$
+DECLARE
+    i INTEGER;
+BEGIN
+    FOR i IN start_days_ago..end_days_ahead LOOP
+        RETURN QUERY SELECT create_service_metrics_partition((CURRENT_DATE + i)::DATE);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION drop_old_service_metrics_partitions(
+    retention_days INTEGER DEFAULT 30
+) RETURNS TABLE(result TEXT) AS $$
+DECLARE
+    partition_record RECORD;
+    cutoff_date DATE;
+    partition_date DATE;
+BEGIN
+    cutoff_date := CURRENT_DATE - retention_days;
+
+    FOR partition_record IN
+        SELECT tablename
+        FROM pg_tables
+        WHERE schemaname = 'public'
+        AND tablename ~ '^service_metrics_[0-9]{4}_[0-9]{2}_[0-9]{2}$'
+    LOOP
+        BEGIN
+            partition_date := TO_DATE(SUBSTRING(partition_record.tablename FROM 'service_metrics_(.*)'), 'YYYY_MM_DD');
+
+            IF partition_date < cutoff_date THEN
+                EXECUTE format('DROP TABLE IF EXISTS %I', partition_record.tablename);
+                RETURN QUERY SELECT 'DROPPED: ' || partition_record.tablename;
+            END IF;
+        EXCEPTION WHEN OTHERS THEN
+            RETURN QUERY SELECT 'ERROR: ' || partition_record.tablename || ' - ' || SQLERRM;
+        END;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_service_metrics_partition_stats()
+RETURNS TABLE(
+    partition_name TEXT,
+    partition_date DATE,
+    row_count BIGINT,
+    size TEXT,
+    age_days INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        pt.tablename::TEXT AS partition_name,
+        TO_DATE(SUBSTRING(pt.tablename FROM 'service_metrics_(.*)'), 'YYYY_MM_DD') AS partition_date,
+        COALESCE((
+            SELECT n_live_tup
+            FROM pg_stat_user_tables
+            WHERE schemaname = 'public'
+            AND relname = pt.tablename
+        ), 0) AS row_count,
+        pg_size_pretty(pg_total_relation_size('public.' || pt.tablename)) AS size,
+        (CURRENT_DATE - TO_DATE(SUBSTRING(pt.tablename FROM 'service_metrics_(.*)'), 'YYYY_MM_DD'))::INTEGER AS age_days
+    FROM pg_tables pt
+    WHERE pt.schemaname = 'public'
+    AND pt.tablename ~ '^service_metrics_[0-9]{4}_[0-9]{2}_[0-9]{2}$'
+    ORDER BY partition_date DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Initial partitions (7 days back + 30 days forward)
+SELECT create_service_metrics_partitions_range(-7, 30);
+
+-- OOM kill event type (container.restarted already exists)
+INSERT INTO event_types (event_type, aggregate_type, description, retention_tier, retention_days) VALUES
+('container.oom_killed', 'device', 'Service container killed by the kernel OOM killer on the device', 'important', 365)
+ON CONFLICT (event_type) DO NOTHING;
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON service_metrics TO iotistic_app;
+        GRANT USAGE, SELECT ON SEQUENCE service_metrics_id_seq TO iotistic_app;
+    END IF;
+END $$;
+
+COMMENT ON TABLE service_metrics IS 'Per-service (container) resource usage samples from devices (partitioned by day)';
+COMMENT ON FUNCTION drop_old_service_metrics_partitions IS 'Drops service_metrics partitions older than retention_days (SERVICE_METRICS_RETENTION_DAYS in housekeeper)';
+
+COMMIT;
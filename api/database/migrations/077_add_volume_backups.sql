@@ -0,0 +1,86 @@
+-- Migration 077: Add Volume Backups
+-- Devices archive app volumes (historian data, Node-RED state, ...) and upload
+-- them as gzip tarballs; the files live under VOLUME_BACKUP_DIR and the newest
+-- VOLUME_BACKUP_RETENTION backups per device volume are kept. Backups and
+-- restores run as jobs with the built-in agent handlers volume-backup and
+-- volume-restore. A restore grants the target device access to the backup,
+-- which may come from another device.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS volume_backups (
+    id SERIAL PRIMARY KEY,
+    device_uuid UUID REFERENCES devices(uuid) ON DELETE SET NULL,  -- Kept for restoring onto a replacement device
+    source_device_name VARCHAR(255),
+    app_id INTEGER NOT NULL,
+    volume_name VARCHAR(255) NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    sha256 CHAR(64) NOT NULL,
+    storage_path TEXT NOT NULL,          -- Relative to VOLUME_BACKUP_DIR
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_volume_backups_volume ON volume_backups(device_uuid, app_id, volume_name, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS volume_backup_restores (
+    id SERIAL PRIMARY KEY,
+    backup_id INTEGER NOT NULL REFERENCES volume_backups(id) ON DELETE CASCADE,
+    device_uuid UUID NOT NULL REFERENCES devices(uuid) ON DELETE CASCADE,
+    job_id VARCHAR(255),
+    requested_by VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_volume_backup_restores_device ON volume_backup_restores(device_uuid, backup_id);
+
+-- Job templates (built-in agent handlers)
+INSERT INTO job_templates (name, description, category, job_document) VALUES
+('volume-backup', 'Back up an app volume to the cloud backup store', 'maintenance', '{
+  "version": "1.0",
+  "includeStdOut": true,
+  "steps": [
+    {
+      "name": "Back Up Volume",
+      "type": "runHandler",
+      "input": {
+        "handler": "volume-backup",
+        "args": ["{{APP_ID}}", "{{VOLUME_NAME}}", "{{PAUSE_SERVICE}}"]
+      }
+    }
+  ]
+}'),
+('volume-restore', 'Restore an app volume from a backup', 'maintenance', '{
+  "version": "1.0",
+  "includeStdOut": true,
+  "steps": [
+    {
+      "name": "Restore Volume",
+      "type": "runHandler",
+      "input": {
+        "handler": "volume-restore",
+        "args": ["{{BACKUP_ID}}"]
+      }
+    }
+  ]
+}')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO event_types (event_type, aggregate_type, description, retention_tier, retention_days) VALUES
+('volume.backup_created', 'device', 'App volume backup uploaded by the device', 'important', 365),
+('volume.restore_requested', 'device', 'App volume restore queued for the device', 'important', 365)
+ON CONFLICT (event_type) DO NOTHING;
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON volume_backups, volume_backup_restores TO iotistic_app;
+        GRANT USAGE, SELECT ON SEQUENCE volume_backups_id_seq, volume_backup_restores_id_seq TO iotistic_app;
+    END IF;
+END $$;
+
+-- Comments
+COMMENT ON TABLE volume_backups IS 'App volume snapshots uploaded by devices (gzip tarballs under VOLUME_BACKUP_DIR)';
+COMMENT ON TABLE volume_backup_restores IS 'Restores of a backup onto a device; allows that device to download the backup';
+
+COMMIT;
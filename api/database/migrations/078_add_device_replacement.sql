@@ -0,0 +1,23 @@
+-- Migration 078: Add Device Replacement
+-- POST /devices/:uuid/replace moves a dead device's configuration (target
+-- state, sensors, tags, dashboard layouts, alert rules, broker assignment,
+-- Digital Twin space mapping) onto a freshly provisioned device and revokes
+-- the old device's keys. The link is kept on the old device and in the event
+-- log (device.replaced / device.replacement, sharing one correlation id).
+
+BEGIN;
+
+ALTER TABLE devices
+    ADD COLUMN IF NOT EXISTS replaced_by_uuid UUID REFERENCES devices(uuid) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS replaced_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_devices_replaced_by ON devices(replaced_by_uuid) WHERE replaced_by_uuid IS NOT NULL;
+
+INSERT INTO event_types (event_type, aggregate_type, description, retention_tier, retention_days) VALUES
+('device.replaced', 'device', 'Device was replaced by another device (configuration moved, keys revoked)', 'critical', 2555),
+('device.replacement', 'device', 'Device took over the configuration of a replaced device', 'critical', 2555)
+ON CONFLICT (event_type) DO NOTHING;
+
+COMMENT ON COLUMN devices.replaced_by_uuid IS 'Device that replaced this one (POST /devices/:uuid/replace)';
+
+COMMIT;
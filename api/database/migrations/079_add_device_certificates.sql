@@ -0,0 +1,48 @@
+-- Migration 079: Add Device Certificates
+-- X.509 client certificates as an alternative to device API keys. Devices send
+-- a CSR at registration (and again before expiry); the API signs it with the
+-- fleet CA. The certificate authenticates the device on the HTTPS server and on
+-- the Mosquitto mTLS listener. Revoked certificates are published in the CRL.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS device_certificates (
+    id SERIAL PRIMARY KEY,
+    device_uuid UUID NOT NULL REFERENCES devices(uuid) ON DELETE CASCADE,
+    serial_number VARCHAR(40) NOT NULL UNIQUE,
+    fingerprint_sha256 VARCHAR(64) NOT NULL UNIQUE,
+    subject VARCHAR(255) NOT NULL,
+    certificate_pem TEXT NOT NULL,
+    not_before TIMESTAMP NOT NULL,
+    not_after TIMESTAMP NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'superseded', 'revoked')),
+    revoked_at TIMESTAMP,
+    revocation_reason TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_certificates_device ON device_certificates(device_uuid, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_device_certificates_revoked ON device_certificates(revoked_at) WHERE status = 'revoked';
+
+ALTER TABLE devices
+    ADD COLUMN IF NOT EXISTS certificate_fingerprint VARCHAR(64);
+
+INSERT INTO event_types (event_type, aggregate_type, description, retention_tier, retention_days) VALUES
+('device.certificate_issued', 'device', 'Client certificate issued to device from its CSR', 'critical', 2555),
+('device.certificate_revoked', 'device', 'Device client certificate revoked and added to the CRL', 'critical', 2555)
+ON CONFLICT (event_type) DO NOTHING;
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON device_certificates TO iotistic_app;
+        GRANT USAGE, SELECT ON SEQUENCE device_certificates_id_seq TO iotistic_app;
+    END IF;
+END $$;
+
+-- Comments
+COMMENT ON TABLE device_certificates IS 'Client certificates signed by the fleet CA; superseded on renewal, revoked entries form the CRL';
+COMMENT ON COLUMN devices.certificate_fingerprint IS 'SHA-256 fingerprint of the active client certificate';
+
+COMMIT;
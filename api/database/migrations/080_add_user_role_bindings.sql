@@ -0,0 +1,40 @@
+-- Migration 080: Add User Role Bindings
+-- Scoped RBAC: a binding grants a role's device permissions for one fleet
+-- (devices.fleet_id), the devices matching a tag selector (AND logic like
+-- find_devices_by_tags) or a single device. A user with bindings only gets
+-- device and data permissions through them; users.role still applies to the
+-- other permissions (users, settings, ...). Users without bindings keep their
+-- global role.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS user_role_bindings (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(50) NOT NULL CHECK (role IN ('manager', 'operator', 'viewer')),
+    fleet_id VARCHAR(100),
+    tag_selector JSONB,
+    device_uuid UUID REFERENCES devices(uuid) ON DELETE CASCADE,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT user_role_bindings_scope CHECK (num_nonnulls(fleet_id, tag_selector, device_uuid) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_role_bindings_user ON user_role_bindings(user_id);
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON user_role_bindings TO iotistic_app;
+        GRANT USAGE, SELECT ON SEQUENCE user_role_bindings_id_seq TO iotistic_app;
+    END IF;
+END $$;
+
+-- Comments
+COMMENT ON TABLE user_role_bindings IS 'Role grants limited to a fleet, a device tag selector or a single device';
+COMMENT ON COLUMN user_role_bindings.fleet_id IS 'Fleet the role applies to (devices.fleet_id)';
+COMMENT ON COLUMN user_role_bindings.tag_selector IS 'Device tags that must all match, e.g. {"site": "plant-a"}';
+
+COMMIT;
@@ -0,0 +1,41 @@
+-- Migration 081: Add User MFA
+-- Optional TOTP multi-factor authentication for dashboard users. The TOTP
+-- secret is encrypted with SECRETS_ENCRYPTION_KEY (it has to be read back to
+-- verify codes). Recovery codes are one-time and stored as SHA-256 hashes.
+-- Roles that must use MFA are configured in system_config (auth.mfa.requiredRoles).
+
+BEGIN;
+
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS mfa_enabled BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS mfa_secret TEXT,
+    ADD COLUMN IF NOT EXISTS mfa_pending_secret TEXT,
+    ADD COLUMN IF NOT EXISTS mfa_enabled_at TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS mfa_last_used_step BIGINT;
+
+CREATE TABLE IF NOT EXISTS user_mfa_recovery_codes (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_mfa_recovery_codes_user ON user_mfa_recovery_codes(user_id) WHERE used_at IS NULL;
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON user_mfa_recovery_codes TO iotistic_app;
+        GRANT USAGE, SELECT ON SEQUENCE user_mfa_recovery_codes_id_seq TO iotistic_app;
+    END IF;
+END $$;
+
+-- Comments
+COMMENT ON COLUMN users.mfa_secret IS 'TOTP secret (base32), encrypted with SECRETS_ENCRYPTION_KEY';
+COMMENT ON COLUMN users.mfa_pending_secret IS 'TOTP secret being enrolled, until confirmed with a code';
+COMMENT ON COLUMN users.mfa_last_used_step IS 'Last accepted TOTP time step (a code cannot be used twice)';
+COMMENT ON TABLE user_mfa_recovery_codes IS 'One-time MFA recovery codes (SHA-256 hashes)';
+
+COMMIT;
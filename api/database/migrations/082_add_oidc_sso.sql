@@ -0,0 +1,50 @@
+-- Migration 082: Add OIDC Single Sign-On
+-- Users can sign in through an OpenID Connect provider (authorization code
+-- flow with PKCE). They are created on first login and identified by the
+-- issuer and subject of their ID token. SSO users have no local password.
+-- oidc_auth_requests holds the state of logins in progress: the PKCE
+-- verifier and nonce until the callback, then the one-time code the
+-- dashboard exchanges for the JWT pair.
+
+BEGIN;
+
+ALTER TABLE users ALTER COLUMN password_hash DROP NOT NULL;
+
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS auth_provider VARCHAR(20) NOT NULL DEFAULT 'local'
+        CHECK (auth_provider IN ('local', 'oidc')),
+    ADD COLUMN IF NOT EXISTS oidc_issuer VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS oidc_subject VARCHAR(255);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_oidc_identity
+    ON users(oidc_issuer, oidc_subject) WHERE oidc_subject IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS oidc_auth_requests (
+    state VARCHAR(64) PRIMARY KEY,
+    code_verifier VARCHAR(128) NOT NULL,
+    nonce VARCHAR(64) NOT NULL,
+    redirect_path VARCHAR(500),
+    user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+    exchange_code_hash VARCHAR(64),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_oidc_auth_requests_exchange
+    ON oidc_auth_requests(exchange_code_hash) WHERE exchange_code_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_oidc_auth_requests_expires ON oidc_auth_requests(expires_at);
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON oidc_auth_requests TO iotistic_app;
+    END IF;
+END $$;
+
+-- Comments
+COMMENT ON COLUMN users.auth_provider IS 'local (password) or oidc (single sign-on, no password)';
+COMMENT ON COLUMN users.oidc_subject IS 'sub claim of the ID token, unique per oidc_issuer';
+COMMENT ON TABLE oidc_auth_requests IS 'OIDC logins in progress (PKCE state) and their one-time exchange codes';
+
+COMMIT;
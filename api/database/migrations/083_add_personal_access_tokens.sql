@@ -0,0 +1,41 @@
+-- Migration 083: Add Personal Access Tokens
+-- User-owned tokens for CI pipelines and scripts. A token acts as its user
+-- but only with the permissions chosen at creation (a subset of the user's
+-- permissions at that time, and never more than the user's current role).
+-- Only a SHA-256 hash is stored; the token is shown once. An optional IP
+-- allowlist (CIDRs) restricts where the token can be used from.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS personal_access_tokens (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    token_prefix VARCHAR(20) NOT NULL,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    permissions TEXT[] NOT NULL,
+    ip_allowlist CIDR[],
+    expires_at TIMESTAMP NOT NULL,
+    last_used_at TIMESTAMP,
+    last_used_ip INET,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user ON personal_access_tokens(user_id);
+
+-- Grants
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'iotistic_app') THEN
+        GRANT SELECT, INSERT, UPDATE, DELETE ON personal_access_tokens TO iotistic_app;
+        GRANT USAGE, SELECT ON SEQUENCE personal_access_tokens_id_seq TO iotistic_app;
+    END IF;
+END $$;
+
+-- Comments
+COMMENT ON TABLE personal_access_tokens IS 'User-owned API tokens with a permission subset (Authorization: Bearer iot_pat_...)';
+COMMENT ON COLUMN personal_access_tokens.token_prefix IS 'First characters of the token, to recognise it in lists';
+COMMENT ON COLUMN personal_access_tokens.ip_allowlist IS 'Client networks allowed to use the token (NULL = any)';
+
+COMMIT;
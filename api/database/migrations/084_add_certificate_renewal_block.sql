@@ -0,0 +1,18 @@
+-- Migration 084: Block Certificate Renewal After Revocation
+-- A device could undo a revocation by requesting a new certificate with its
+-- API key. Revoking a certificate now blocks renewal for the device until an
+-- administrator allows it again.
+
+BEGIN;
+
+ALTER TABLE devices
+    ADD COLUMN IF NOT EXISTS certificate_renewal_blocked BOOLEAN NOT NULL DEFAULT false;
+
+INSERT INTO event_types (event_type, aggregate_type, description, retention_tier, retention_days) VALUES
+('device.certificate_renewal_allowed', 'device', 'Certificate renewal allowed again after a revocation', 'critical', 2555)
+ON CONFLICT (event_type) DO NOTHING;
+
+-- Comments
+COMMENT ON COLUMN devices.certificate_renewal_blocked IS 'Set when a certificate is revoked; the device cannot request a new certificate until cleared by an administrator';
+
+COMMIT;
@@ -47,6 +47,11 @@ export interface Device {
   vpn_bytes_sent?: number;
   vpn_bytes_received?: number;
   vpn_config_id?: number;
+  // Device replacement
+  replaced_by_uuid?: string;
+  replaced_at?: Date;
+  // Client certificate (mTLS identity)
+  certificate_fingerprint?: string;
   created_at: Date;
   modified_at: Date;
 }
@@ -92,6 +97,40 @@ export interface DeviceMetrics {
   recorded_at: Date;
 }
 
+/**
+ * Per-service resource usage sample, as reported by devices (service_metrics)
+ */
+export interface ServiceMetricsSample {
+  appId: number;
+  serviceName: string;
+  containerId?: string;
+  timestamp: string; // ISO 8601
+  cpuPercent?: number;
+  memoryBytes?: number;
+  memoryLimitBytes?: number;
+  networkRxBytes?: number; // Since the previous sample
+  networkTxBytes?: number;
+  blockReadBytes?: number; // Since the previous sample
+  blockWriteBytes?: number;
+}
+
+/**
+ * Downsampled service metrics bucket
+ */
+export interface ServiceMetricsBucket {
+  bucket: Date;
+  samples: number;
+  cpu_avg: number | null;
+  cpu_max: number | null;
+  memory_avg: number | null;
+  memory_max: number | null;
+  memory_limit: number | null;
+  network_rx_bytes: number;
+  network_tx_bytes: number;
+  block_read_bytes: number;
+  block_write_bytes: number;
+}
+
 /**
  * Device Model
  */
@@ -523,6 +562,89 @@ export class DeviceMetricsModel {
   }
 }
 
+/**
+ * Service Metrics Model
+ * Per-container resource usage in the partitioned service_metrics table
+ */
+export class ServiceMetricsModel {
+  /**
+   * Record a batch of samples (duplicates from re-sent reports are skipped)
+   * @returns number of inserted rows
+   */
+  static async record(deviceUuid: string, samples: ServiceMetricsSample[]): Promise<number> {
+    if (samples.length === 0) return 0;
+
+    const result = await query(
+      `INSERT INTO service_metrics (
+        device_uuid, app_id, service_name, container_id, recorded_at, cpu_percent,
+        memory_bytes, memory_limit_bytes, network_rx_bytes, network_tx_bytes,
+        block_read_bytes, block_write_bytes
+      )
+      SELECT $1, * FROM unnest(
+        $2::integer[], $3::varchar[], $4::varchar[], $5::timestamp[], $6::real[],
+        $7::bigint[], $8::bigint[], $9::bigint[], $10::bigint[], $11::bigint[], $12::bigint[]
+      )
+      ON CONFLICT DO NOTHING`,
+      [
+        deviceUuid,
+        samples.map(s => s.appId),
+        samples.map(s => s.serviceName),
+        samples.map(s => s.containerId ?? null),
+        samples.map(s => s.timestamp),
+        samples.map(s => s.cpuPercent ?? null),
+        samples.map(s => s.memoryBytes ?? null),
+        samples.map(s => s.memoryLimitBytes ?? null),
+        samples.map(s => s.networkRxBytes ?? null),
+        samples.map(s => s.networkTxBytes ?? null),
+        samples.map(s => s.blockReadBytes ?? null),
+        samples.map(s => s.blockWriteBytes ?? null),
+      ]
+    );
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Get a service's metrics in a time range, downsampled into at most maxPoints
+   * equal time buckets (average and peak CPU/memory, summed network and block IO)
+   */
+  static async getDownsampled(
+    deviceUuid: string,
+    appId: number,
+    serviceName: string,
+    startTime: Date,
+    endTime: Date,
+    maxPoints: number = 60
+  ): Promise<ServiceMetricsBucket[]> {
+    const totalSeconds = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
+    const bucketSeconds = Math.max(60, Math.ceil(totalSeconds / maxPoints));
+
+    const result = await query<ServiceMetricsBucket>(
+      `SELECT
+        to_timestamp(floor(extract(epoch FROM recorded_at) / $6) * $6) AS bucket,
+        COUNT(*)::integer AS samples,
+        ROUND(AVG(cpu_percent)::numeric, 2)::float AS cpu_avg,
+        MAX(cpu_percent)::float AS cpu_max,
+        ROUND(AVG(memory_bytes))::float AS memory_avg,
+        MAX(memory_bytes)::float AS memory_max,
+        MAX(memory_limit_bytes)::float AS memory_limit,
+        COALESCE(SUM(network_rx_bytes), 0)::float AS network_rx_bytes,
+        COALESCE(SUM(network_tx_bytes), 0)::float AS network_tx_bytes,
+        COALESCE(SUM(block_read_bytes), 0)::float AS block_read_bytes,
+        COALESCE(SUM(block_write_bytes), 0)::float AS block_write_bytes
+      FROM service_metrics
+      WHERE device_uuid = $1
+        AND app_id = $2
+        AND service_name = $3
+        AND recorded_at >= $4
+        AND recorded_at <= $5
+      GROUP BY 1
+      ORDER BY 1 ASC`,
+      [deviceUuid, appId, serviceName, startTime, endTime, bucketSeconds]
+    );
+    return result.rows;
+  }
+}
+
 /**
  * Device Logs Model
  */
@@ -629,6 +751,7 @@ export default {
   DeviceTargetStateModel,
   DeviceCurrentStateModel,
   DeviceMetricsModel,
+  ServiceMetricsModel,
   DeviceLogsModel,
 };
 
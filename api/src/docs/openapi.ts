@@ -236,14 +236,15 @@ Get a token via POST /api/v1/auth/login or /api/v1/auth/register.
             additionalProperties: {
               type: 'object',
               properties: {
-                name: { type: 'string' },
-                image: { type: 'string' },
-                env: { type: 'object' },
-                networks: { type: 'array', items: { type: 'string' } },
-                volumes: { type: 'array' }
+                appId: { type: 'integer' },
+                appName: { type: 'string' },
+                services: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/TargetStateService' }
+                }
               }
             },
-            description: 'Application configurations'
+            description: 'Application configurations keyed by appId'
           },
           config: {
             type: 'object',
@@ -251,12 +252,100 @@ Get a token via POST /api/v1/auth/login or /api/v1/auth/register.
           }
         }
       },
+      TargetStateService: {
+        type: 'object',
+        properties: {
+          serviceId: { type: 'integer' },
+          serviceName: { type: 'string' },
+          imageName: { type: 'string' },
+          config: {
+            type: 'object',
+            properties: {
+              image: { type: 'string' },
+              environment: { type: 'object', additionalProperties: { type: 'string' } },
+              ports: { type: 'array', items: { type: 'string' }, example: ['8080:80'] },
+              volumes: { type: 'array', items: { type: 'string' }, example: ['data:/var/lib/app'] },
+              networks: { type: 'array', items: { type: 'string' } },
+              networkMode: { type: 'string' },
+              restart: { type: 'string', enum: ['no', 'always', 'on-failure', 'unless-stopped'] },
+              labels: { type: 'object', additionalProperties: { type: 'string' } },
+              command: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Overrides the image CMD'
+              },
+              entrypoint: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Overrides the image ENTRYPOINT'
+              },
+              workingDir: { type: 'string' },
+              user: { type: 'string', example: '1000:1000' },
+              hostname: { type: 'string' },
+              devices: {
+                type: 'array',
+                items: { type: 'string' },
+                example: ['/dev/ttyUSB0', '/dev/ttyACM0:/dev/serial:rw'],
+                description: 'Host devices as hostPath[:containerPath[:permissions]]'
+              },
+              privileged: { type: 'boolean' },
+              capAdd: { type: 'array', items: { type: 'string' }, example: ['NET_ADMIN'] },
+              capDrop: { type: 'array', items: { type: 'string' } },
+              tmpfs: {
+                type: 'array',
+                items: { type: 'string' },
+                example: ['/run:size=64m'],
+                description: 'tmpfs mounts as path[:options]'
+              },
+              extraHosts: {
+                type: 'array',
+                items: { type: 'string' },
+                example: ['broker.local:10.0.0.5'],
+                description: 'Extra /etc/hosts entries as hostname:ip'
+              },
+              logging: {
+                type: 'object',
+                properties: {
+                  driver: { type: 'string', example: 'json-file' },
+                  options: { type: 'object', additionalProperties: { type: 'string' } }
+                }
+              },
+              dependsOn: {
+                type: 'array',
+                items: {
+                  oneOf: [
+                    { type: 'string' },
+                    {
+                      type: 'object',
+                      required: ['service'],
+                      properties: {
+                        service: { type: 'string' },
+                        condition: { type: 'string', enum: ['started', 'healthy'], default: 'started' }
+                      }
+                    }
+                  ]
+                },
+                example: ['broker', { service: 'db', condition: 'healthy' }],
+                description: 'Services in the same app that must be up before this one starts (healthy waits for their readinessProbe). Cycles are rejected'
+              },
+              updateStrategy: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', enum: ['recreate', 'start-first'], default: 'recreate' },
+                  rollbackAfterFailures: { type: 'integer', minimum: 0, default: 3 }
+                },
+                description: 'How image/config changes are rolled out. The device rolls back to the previous version after this many startup/liveness probe failures (0 = never)'
+              }
+            }
+          }
+        }
+      },
       CurrentState: {
         type: 'object',
         properties: {
           apps: {
             type: 'object',
-            description: 'Currently running applications'
+            description: 'Currently running applications. An app whose target changes are deferred carries updatePending ({ reason: maintenance-window | update-lock, message, since, nextWindowAt?, lockedBy? })'
           },
           reported_at: {
             type: 'string',
@@ -265,6 +354,73 @@ Get a token via POST /api/v1/auth/login or /api/v1/auth/register.
           }
         }
       },
+      MaintenanceWindow: {
+        type: 'object',
+        description: 'Window during which devices may apply disruptive app updates. Targets one device or all devices matching tag_selector.',
+        properties: {
+          id: { type: 'integer' },
+          name: { type: 'string' },
+          device_uuid: { type: 'string', format: 'uuid', nullable: true },
+          tag_selector: {
+            type: 'object',
+            additionalProperties: { type: 'string' },
+            nullable: true,
+            example: { line: '3' }
+          },
+          schedule: { type: 'string', description: '5-field cron expression', example: '0 2 * * 6' },
+          duration_minutes: { type: 'integer', minimum: 1, maximum: 10080 },
+          timezone: { type: 'string', default: 'UTC', example: 'Europe/Berlin' },
+          enabled: { type: 'boolean', default: true }
+        }
+      },
+      ServiceMetricsBucket: {
+        type: 'object',
+        description: 'Downsampled resource usage of one service. CPU is in percent of one CPU, network and block IO are bytes transferred within the bucket.',
+        properties: {
+          bucket: { type: 'string', format: 'date-time', description: 'Bucket start' },
+          samples: { type: 'integer' },
+          cpu_avg: { type: 'number', nullable: true },
+          cpu_max: { type: 'number', nullable: true },
+          memory_avg: { type: 'number', nullable: true, description: 'Bytes, excluding page cache' },
+          memory_max: { type: 'number', nullable: true },
+          memory_limit: { type: 'number', nullable: true },
+          network_rx_bytes: { type: 'number' },
+          network_tx_bytes: { type: 'number' },
+          block_read_bytes: { type: 'number' },
+          block_write_bytes: { type: 'number' }
+        }
+      },
+      VolumeBackup: {
+        type: 'object',
+        description: 'Gzip-compressed tarball of an app volume. Restored through the volume-restore job on the same or another device.',
+        properties: {
+          id: { type: 'integer' },
+          device_uuid: { type: 'string', format: 'uuid', nullable: true, description: 'Source device (null once deleted)' },
+          source_device_name: { type: 'string', nullable: true },
+          app_id: { type: 'integer', example: 1001 },
+          volume_name: { type: 'string', example: 'historian' },
+          size_bytes: { type: 'integer' },
+          sha256: { type: 'string', description: 'Checksum of the archive' },
+          created_at: { type: 'string', format: 'date-time' }
+        }
+      },
+      DeviceCertificate: {
+        type: 'object',
+        description: 'Client certificate signed by the fleet CA from a device CSR. Authenticates the device on the HTTPS server and the Mosquitto mTLS listener.',
+        properties: {
+          id: { type: 'integer' },
+          device_uuid: { type: 'string', format: 'uuid' },
+          serial_number: { type: 'string', description: 'Hex serial number (as listed in the CRL)' },
+          fingerprint_sha256: { type: 'string', description: 'Lowercase hex SHA-256 of the DER certificate' },
+          subject: { type: 'string', example: 'device_8f2c1d1e-3b7a-4e2f-9c0d-5a6b7c8d9e0f' },
+          not_before: { type: 'string', format: 'date-time' },
+          not_after: { type: 'string', format: 'date-time' },
+          status: { type: 'string', enum: ['active', 'superseded', 'revoked'] },
+          revoked_at: { type: 'string', format: 'date-time', nullable: true },
+          revocation_reason: { type: 'string', nullable: true },
+          created_at: { type: 'string', format: 'date-time' }
+        }
+      },
       Job: {
         type: 'object',
         properties: {
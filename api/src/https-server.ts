@@ -9,6 +9,8 @@ export interface HttpsConfig {
   certPath: string;
   keyPath: string;
   caCertPath?: string;
+  /** CA that signs device client certificates (fleet CA), trusted for mTLS */
+  clientCaCertPath?: string;
   requestCert?: boolean;
   rejectUnauthorized?: boolean;
 }
@@ -44,12 +46,21 @@ export function createHttpsServer(app: Express, config: HttpsConfig): https.Serv
       logger.info(`Using CA certificate: ${config.caCertPath}`);
     }
 
+    // Optional: fleet CA for device client certificates. Devices without a
+    // certificate are still accepted and authenticate with their API key.
+    let requestCert = config.requestCert || false;
+    if (config.clientCaCertPath && fs.existsSync(config.clientCaCertPath)) {
+      ca = (ca ? `${ca}\n` : '') + fs.readFileSync(config.clientCaCertPath, 'utf8');
+      requestCert = true;
+      logger.info(`Accepting device client certificates from CA: ${config.clientCaCertPath}`);
+    }
+
     // Optional: Client certificate verification (mutual TLS)
     const httpsOptions: https.ServerOptions = {
       cert,
       key,
       ca, // CA certificate for chain verification
-      requestCert: config.requestCert || false,
+      requestCert,
       rejectUnauthorized: config.rejectUnauthorized || false,
     };
 
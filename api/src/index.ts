@@ -20,6 +20,7 @@ import adminRoutes from './routes/admin';
 import appsRoutes from './routes/apps';
 import imageRegistryRoutes from './routes/image-registry';
 import deviceJobsRoutes from './routes/device-jobs';
+import scheduledJobsRoutes from './routes/scheduled-jobs';
 import rotationRoutes from './routes/rotation';
 import digitalTwinGraphRoutes from './routes/digital-twin-graph';
 import eventsRoutes from './routes/events';
@@ -28,16 +29,26 @@ import mqttMetricsRoutes from './routes/mqtt-metrics';
 import { router as deviceSensorsRoutes } from './routes/device-sensors';
 import { router as trafficRoutes } from './routes/traffic';
 import { router as deviceTagsRoutes } from './routes/device-tags';
+import { router as maintenanceWindowsRoutes } from './routes/maintenance-windows';
 import dashboardLayoutsRoutes from './routes/dashboard-layouts';
 import mosquittoAuthRoutes from './routes/mosquitto-auth';
 import { router as noderedStorageRoutes } from './routes/nodered-storage';
+import { router as volumeBackupsRoutes } from './routes/volume-backups';
+import { router as deviceCertificatesRoutes } from './routes/device-certificates';
+import { router as oidcRoutes } from './routes/oidc';
 import { trafficLogger} from "./middleware/traffic-logger";
 import { startTrafficFlushService, stopTrafficFlushService } from './services/traffic-flush.service';
 import alertsRoutes from './routes/alerts';
+import rolloutsRoutes from './routes/rollouts';
 
 // Import jobs
 
 import { jobScheduler } from './services/job-scheduler';
+import { rolloutController } from './services/rollout-controller';
+import { jobRolloutController } from './services/job-rollout-controller';
+import { metricAlertEvaluator } from './services/metric-alert-evaluator';
+import { alertNotifier } from './services/alert-notifier';
+import { startCrlRefresh, stopCrlRefresh } from './services/device-certificates';
 import poolWrapper from './db/connection';
 import { initializeMqtt, shutdownMqtt } from './mqtt';
 import { LicenseValidator } from './services/license-validator';
@@ -129,6 +140,7 @@ import { setupApiDocs } from './docs';
 setupApiDocs(app, API_BASE);
 
 // Mount route modules - All routes now use centralized versioning via API_BASE
+app.use(`${API_BASE}/auth/oidc`, oidcRoutes);
 app.use(`${API_BASE}/auth`, authRoutes);
 app.use(`${API_BASE}/users`, usersRoutes);
 app.use(API_BASE, licenseRoutes);
@@ -144,7 +156,9 @@ app.use(API_BASE, deviceStateRoutes);
 app.use(API_BASE, deviceLogsRoutes);
 app.use(API_BASE, deviceMetricsRoutes);
 app.use(API_BASE, imageRegistryRoutes);
+app.use(API_BASE, scheduledJobsRoutes);
 app.use(API_BASE, deviceJobsRoutes);
+app.use(API_BASE, rolloutsRoutes);
 app.use(API_BASE, rotationRoutes);
 app.use(`${API_BASE}/digital-twin/graph`, digitalTwinGraphRoutes);
 app.use(`${API_BASE}/mqtt`, mqttMetricsRoutes);
@@ -191,6 +205,9 @@ app.use(`${API_BASE}/mqtt`, mqttBrokerRoutes);
 app.use(API_BASE, deviceSensorsRoutes);
 app.use(API_BASE, trafficRoutes);
 app.use(API_BASE, deviceTagsRoutes);
+app.use(API_BASE, maintenanceWindowsRoutes);
+app.use(API_BASE, volumeBackupsRoutes);
+app.use(API_BASE, deviceCertificatesRoutes);
 app.use(`${API_BASE}/dashboard-layouts`, dashboardLayoutsRoutes);
 app.use(`${API_BASE}/alerts`, alertsRoutes);
 app.use(API_BASE, noderedStorageRoutes);
@@ -321,6 +338,51 @@ async function startServer() {
   }
 
 
+  // Start rollout controller for staged fleet deployments
+  try {
+    rolloutController.start();
+  } catch (error) {
+    logger.warn('Failed to start rollout controller', { error });
+    // Don't exit - rollouts will not progress until restart
+  }
+
+
+  // Start job rollout controller (dispatch limits, abort criteria, timeouts)
+  try {
+    jobRolloutController.start();
+  } catch (error) {
+    logger.warn('Failed to start job rollout controller', { error });
+    // Don't exit - held-back job executions will not be dispatched until restart
+  }
+
+
+  // Start metric alert evaluator (threshold rules over metrics, sensors, heartbeat)
+  try {
+    metricAlertEvaluator.start();
+  } catch (error) {
+    logger.warn('Failed to start metric alert evaluator', { error });
+    // Don't exit - metric alert rules will not fire until restart
+  }
+
+
+  // Start alert notifier retry worker (email/webhook deliveries)
+  try {
+    alertNotifier.start();
+  } catch (error) {
+    logger.warn('Failed to start alert notifier', { error });
+    // Don't exit - failed notifications will not be retried until restart
+  }
+
+
+  // Write the device certificate CRL (for Mosquitto) and re-sign it daily
+  try {
+    startCrlRefresh();
+  } catch (error) {
+    logger.warn('Failed to start device CRL refresh', { error });
+    // Don't exit - the CRL is written again on the next revocation
+  }
+
+
   // Start traffic flush service (persists device traffic metrics to database)
   try {
     startTrafficFlushService();
@@ -364,6 +426,15 @@ async function startServer() {
     // Don't exit - will fall back to direct writes
   }
 
+  // Start Sensor Data Batch Worker (buffers MQTT sensor readings into multi-row inserts)
+  try {
+    const { startSensorDataBatchWorker } = await import('./workers/sensor-data-batch-worker');
+    startSensorDataBatchWorker();
+  } catch (error) {
+    logger.warn('Failed to start sensor data batch worker', { error });
+    // Don't exit - this is not critical for API operation
+  }
+
   // Initialize MQTT manager for device messages
   (async () => {
     try {
@@ -401,6 +472,7 @@ async function startServer() {
         certPath: process.env.HTTPS_CERT_PATH || './certs/server.crt',
         keyPath: process.env.HTTPS_KEY_PATH || './certs/server.key',
         caCertPath: process.env.HTTPS_CA_CERT_PATH || './certs/ca.crt',
+        clientCaCertPath: process.env.DEVICE_CA_CERT_PATH,
       });
     } catch (error) {
       logger.warn('Failed to start HTTPS server', { error });
@@ -451,6 +523,14 @@ async function startServer() {
     } catch (error) {
       // Ignore errors during shutdown
     }
+
+    // Shutdown Sensor Data Batch Worker (flushes buffered readings)
+    try {
+      const { stopSensorDataBatchWorker } = await import('./workers/sensor-data-batch-worker');
+      await stopSensorDataBatchWorker();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
     
     // Shutdown Redis
     try {
@@ -483,6 +563,41 @@ async function startServer() {
     } catch (error) {
       // Ignore errors during shutdown
     }
+
+    // Stop rollout controller
+    try {
+      rolloutController.stop();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
+
+    // Stop job rollout controller
+    try {
+      jobRolloutController.stop();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
+
+    // Stop metric alert evaluator
+    try {
+      metricAlertEvaluator.stop();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
+
+    // Stop alert notifier
+    try {
+      alertNotifier.stop();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
+
+    // Stop device CRL refresh
+    try {
+      stopCrlRefresh();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
     
     // Stop MQTT Jobs Subscriber
     try {
@@ -540,6 +655,14 @@ async function startServer() {
     } catch (error) {
       // Ignore errors during shutdown
     }
+
+    // Shutdown Sensor Data Batch Worker (flushes buffered readings)
+    try {
+      const { stopSensorDataBatchWorker } = await import('./workers/sensor-data-batch-worker');
+      await stopSensorDataBatchWorker();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
     
     // Shutdown Redis
     try {
@@ -574,6 +697,41 @@ async function startServer() {
     } catch (error) {
       // Ignore errors during shutdown
     }
+
+    // Stop rollout controller
+    try {
+      rolloutController.stop();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
+
+    // Stop job rollout controller
+    try {
+      jobRolloutController.stop();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
+
+    // Stop metric alert evaluator
+    try {
+      metricAlertEvaluator.stop();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
+
+    // Stop alert notifier
+    try {
+      alertNotifier.stop();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
+
+    // Stop device CRL refresh
+    try {
+      stopCrlRefresh();
+    } catch (error) {
+      // Ignore errors during shutdown
+    }
     
     // Stop MQTT Jobs Subscriber
     try {
@@ -3,6 +3,8 @@
  * 
  * Authenticates devices using their API key stored during provisioning.
  * Devices must send their API key in the X-Device-API-Key header.
+ * On the HTTPS server, a client certificate signed by the fleet CA may be
+ * used instead (see services/device-certificates).
  * 
  * Usage:
  *   router.get('/device/:uuid/state', deviceAuth, async (req, res) => {
@@ -11,8 +13,10 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import type { TLSSocket } from 'tls';
 import { query } from '../db/connection';
 import bcrypt from 'bcrypt';
+import { isActiveDeviceCertificate } from '../services/device-certificates';
 import logger from '../utils/logger';
 
 // Extend Express Request to include device info
@@ -31,10 +35,22 @@ declare global {
   }
 }
 
+/**
+ * SHA-256 fingerprint of the client certificate, when the request came in
+ * over mutual TLS and the certificate chains to the fleet CA
+ */
+function verifiedClientCertificate(req: Request): string | null {
+  const socket = req.socket as TLSSocket;
+  if (!socket.encrypted || !socket.authorized) {
+    return null;
+  }
+  return socket.getPeerCertificate()?.fingerprint256 || null;
+}
+
 /**
  * Device Authentication Middleware
  * 
- * Expects: X-Device-API-Key header or Authorization: Bearer <apiKey>
+ * Expects: client certificate (mTLS), X-Device-API-Key header or Authorization: Bearer <apiKey>
  * Sets: req.device with authenticated device information
  */
 export async function deviceAuth(
@@ -48,7 +64,9 @@ export async function deviceAuth(
       req.headers['x-device-api-key'] as string ||
       req.headers.authorization?.replace('Bearer ', '');
 
-    if (!apiKey) {
+    const certificateFingerprint = verifiedClientCertificate(req);
+
+    if (!apiKey && !certificateFingerprint) {
       res.status(401).json({
         error: 'Unauthorized',
         message: 'Device API key required. Send in X-Device-API-Key header or Authorization: Bearer header.'
@@ -94,27 +112,41 @@ export async function deviceAuth(
       return;
     }
 
-    // Verify API key using bcrypt
-    logger.info('Comparing API key', {
-      deviceUuid,
-      apiKeyLength: apiKey.length,
-      apiKeyPrefix: apiKey.substring(0, 16),
-      hashPrefix: device.device_api_key_hash.substring(0, 20)
-    });
-    
-    const isValidKey = await bcrypt.compare(apiKey, device.device_api_key_hash);
-    
-    logger.info('Bcrypt comparison result', {
-      deviceUuid,
-      isValid: isValidKey
-    });
+    // A certificate of this device takes precedence over the API key
+    const hasValidCertificate = !!certificateFingerprint &&
+      await isActiveDeviceCertificate(deviceUuid, certificateFingerprint);
+
+    if (!hasValidCertificate) {
+      if (!apiKey) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Client certificate is not valid for this device'
+        });
+        return;
+      }
 
-    if (!isValidKey) {
-      res.status(401).json({
-        error: 'Unauthorized',
-        message: 'Invalid device API key'
+      // Verify API key using bcrypt
+      logger.info('Comparing API key', {
+        deviceUuid,
+        apiKeyLength: apiKey.length,
+        apiKeyPrefix: apiKey.substring(0, 16),
+        hashPrefix: device.device_api_key_hash.substring(0, 20)
       });
-      return;
+      
+      const isValidKey = await bcrypt.compare(apiKey, device.device_api_key_hash);
+      
+      logger.info('Bcrypt comparison result', {
+        deviceUuid,
+        isValid: isValidKey
+      });
+
+      if (!isValidKey) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Invalid device API key'
+        });
+        return;
+      }
     }
 
     // Update last_seen timestamp (optional - can impact performance)
@@ -162,7 +194,9 @@ export async function deviceAuthFromBody(
       req.headers['x-device-api-key'] as string ||
       req.headers.authorization?.replace('Bearer ', '');
 
-    if (!apiKey) {
+    const certificateFingerprint = verifiedClientCertificate(req);
+
+    if (!apiKey && !certificateFingerprint) {
       res.status(401).json({
         error: 'Unauthorized',
         message: 'Device API key required'
@@ -225,14 +259,19 @@ export async function deviceAuthFromBody(
       return;
     }
 
-    const isValidKey = await bcrypt.compare(apiKey, device.device_api_key_hash);
+    const hasValidCertificate = !!certificateFingerprint &&
+      await isActiveDeviceCertificate(deviceUuid, certificateFingerprint);
 
-    if (!isValidKey) {
-      res.status(401).json({
-        error: 'Unauthorized',
-        message: 'Invalid device API key'
-      });
-      return;
+    if (!hasValidCertificate) {
+      const isValidKey = !!apiKey && await bcrypt.compare(apiKey, device.device_api_key_hash);
+
+      if (!isValidKey) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: apiKey ? 'Invalid device API key' : 'Client certificate is not valid for this device'
+        });
+        return;
+      }
     }
 
     req.device = {
@@ -3,6 +3,8 @@
  * 
  * Provides JWT-based authentication for dashboard users
  * Supports both access tokens (short-lived) and refresh tokens (long-lived)
+ * Also accepts personal access tokens (iot_pat_...), which act as their user
+ * with a subset of the user's permissions
  * 
  * Usage:
  *   router.get('/dashboard/devices', jwtAuth, async (req, res) => {
@@ -13,11 +15,18 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt, { Secret } from 'jsonwebtoken';
 import { query } from '../db/connection';
+import { Permission } from '../types/permissions';
+import {
+  PersonalAccessTokenError,
+  authenticatePersonalAccessToken,
+  isPersonalAccessToken,
+} from '../services/personal-access-tokens';
 
 // JWT Configuration
 const JWT_SECRET: Secret = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 const JWT_ACCESS_TOKEN_EXPIRY = (process.env.JWT_ACCESS_TOKEN_EXPIRY || '15m') as string;
 const JWT_REFRESH_TOKEN_EXPIRY = (process.env.JWT_REFRESH_TOKEN_EXPIRY || '7d') as string;
+const JWT_MFA_TOKEN_EXPIRY = '5m';
 
 // Extend Express Request to include user info
 declare global {
@@ -30,6 +39,11 @@ declare global {
         role: string;
         isActive: boolean;
       };
+      // Set when the request was authenticated with a personal access token
+      personalAccessToken?: {
+        id: number;
+        permissions: Permission[];
+      };
     }
   }
 }
@@ -39,9 +53,16 @@ export interface JWTPayload {
   username: string;
   email: string;
   role: string;
-  type: 'access' | 'refresh';
+  type: 'access' | 'refresh' | 'mfa';
+  purpose?: MfaTokenPurpose;
 }
 
+/**
+ * What an MFA token allows: completing login with a code ('verify'), or
+ * enrolling first because the user's role requires MFA ('enroll')
+ */
+export type MfaTokenPurpose = 'verify' | 'enroll';
+
 /**
  * Generate JWT access token (short-lived)
  */
@@ -90,6 +111,33 @@ export function generateRefreshToken(user: {
   });
 }
 
+/**
+ * Generate short-lived MFA token
+ * Issued after the password check; it is not accepted by jwtAuth and can only
+ * be exchanged for access and refresh tokens on the MFA login endpoints.
+ */
+export function generateMfaToken(user: {
+  id: number;
+  username: string;
+  email: string;
+  role: string;
+}, purpose: MfaTokenPurpose): string {
+  const payload: JWTPayload = {
+    userId: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    type: 'mfa',
+    purpose
+  };
+
+  return jwt.sign(payload, JWT_SECRET, {
+    expiresIn: JWT_MFA_TOKEN_EXPIRY as any,
+    issuer: 'iotistic-api',
+    audience: 'iotistic-dashboard'
+  });
+}
+
 /**
  * Verify and decode JWT token
  */
@@ -129,6 +177,11 @@ export async function jwtAuth(
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
+    if (isPersonalAccessToken(token)) {
+      await personalAccessTokenAuth(req, res, next, token);
+      return;
+    }
+
     // Verify token
     let payload: JWTPayload;
     try {
@@ -199,6 +252,52 @@ export async function jwtAuth(
   }
 }
 
+async function personalAccessTokenAuth(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  token: string
+): Promise<void> {
+  let auth;
+  try {
+    auth = await authenticatePersonalAccessToken(token, req.ip);
+  } catch (error: any) {
+    if (!(error instanceof PersonalAccessTokenError)) {
+      throw error;
+    }
+    res.status(error.status).json({
+      error: error.status === 401 ? 'Unauthorized' : 'Forbidden',
+      message: error.message
+    });
+    return;
+  }
+
+  req.user = auth.user;
+  req.personalAccessToken = {
+    id: auth.tokenId,
+    permissions: auth.permissions
+  };
+
+  next();
+}
+
+/**
+ * Rejects requests authenticated with a personal access token
+ * Use after jwtAuth on endpoints that manage the user's own credentials
+ * (password, MFA, tokens), so a leaked token cannot be used to take over
+ * the account
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction): void {
+  if (req.personalAccessToken) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: 'This endpoint cannot be used with a personal access token. Sign in to the dashboard.'
+    });
+    return;
+  }
+  next();
+}
+
 /**
  * Role-based authorization middleware
  * Use after jwtAuth middleware
@@ -3,13 +3,63 @@
  * 
  * Provides middleware functions for checking user permissions and roles
  * in Express routes.
+ *
+ * Device and data permissions can be scoped by role bindings (fleet, tag
+ * selector or device). On routes with a :uuid parameter a scoped permission
+ * is checked for that device; elsewhere it must be held globally, unless the
+ * route uses hasScopedPermission and filters its results itself.
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { Permission, Role, ROLE_PERMISSIONS, ROLES } from '../types/permissions';
+import { EffectiveAccess, Permission, Role, ROLE_PERMISSIONS, ROLES } from '../types/permissions';
+import { canAccessDevice, loadEffectiveAccess, hasPermissionInAnyScope, resolveDeviceScope } from '../services/access-scope';
 
 // Note: Request.user is already defined in jwt-auth.ts
 // We cast role to Role type where needed for type safety
+declare global {
+  namespace Express {
+    interface Request {
+      access?: EffectiveAccess; // Loaded once per request by the permission middleware
+    }
+  }
+}
+
+/**
+ * Effective access of the authenticated user (cached on the request),
+ * limited to the token's permissions for personal access tokens
+ */
+export async function getEffectiveAccess(req: Request): Promise<EffectiveAccess> {
+  if (!req.access) {
+    req.access = await loadEffectiveAccess(req.user!, req.personalAccessToken?.permissions);
+  }
+  return req.access;
+}
+
+/**
+ * Whether the user holds a permission for this request: globally, or for the
+ * device in the :uuid route parameter
+ */
+async function isGranted(req: Request, access: EffectiveAccess, permission: Permission): Promise<boolean> {
+  if (access.globalPermissions.includes(permission)) {
+    return true;
+  }
+  const deviceUuid = req.params?.uuid;
+  if (!deviceUuid || !hasPermissionInAnyScope(access, permission)) {
+    return false;
+  }
+  return canAccessDevice(req.user!.id, access, permission, deviceUuid);
+}
+
+/**
+ * Devices the user may access with a permission, for filtering list results
+ * Use after hasScopedPermission
+ *
+ * @returns device UUIDs, or null when the user can access all devices
+ */
+export async function getDeviceScope(req: Request, permission: Permission): Promise<string[] | null> {
+  const access = await getEffectiveAccess(req);
+  return resolveDeviceScope(req.user!.id, access, permission);
+}
 
 /**
  * Middleware to check if user has ALL required permissions (AND logic)
@@ -21,7 +71,7 @@ import { Permission, Role, ROLE_PERMISSIONS, ROLES } from '../types/permissions'
  * router.post('/users', hasPermission(PERMISSIONS.USER_WRITE), createUser);
  */
 export function hasPermission(...requiredPermissions: Permission[]) {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ 
         error: 'Unauthorized',
@@ -37,12 +87,20 @@ export function hasPermission(...requiredPermissions: Permission[]) {
       });
     }
 
-    const userPermissions = ROLE_PERMISSIONS[req.user.role as Role] || [];
-    
-    // Check if user has ALL required permissions
-    const missingPermissions = requiredPermissions.filter(
-      perm => !userPermissions.includes(perm)
-    );
+    let missingPermissions: Permission[];
+    try {
+      const access = await getEffectiveAccess(req);
+
+      // Check if user has ALL required permissions
+      missingPermissions = [];
+      for (const perm of requiredPermissions) {
+        if (!(await isGranted(req, access, perm))) {
+          missingPermissions.push(perm);
+        }
+      }
+    } catch (error) {
+      return next(error);
+    }
 
     if (missingPermissions.length > 0) {
       return res.status(403).json({ 
@@ -68,7 +126,7 @@ export function hasPermission(...requiredPermissions: Permission[]) {
  * router.get('/data', hasAnyPermission(PERMISSIONS.DATA_READ, PERMISSIONS.DATA_EXPORT), getData);
  */
 export function hasAnyPermission(...requiredPermissions: Permission[]) {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({ 
         error: 'Unauthorized',
@@ -83,12 +141,20 @@ export function hasAnyPermission(...requiredPermissions: Permission[]) {
       });
     }
 
-    const userPermissions = ROLE_PERMISSIONS[req.user.role as Role] || [];
-    
-    // Check if user has ANY of the required permissions
-    const hasAny = requiredPermissions.some(perm => 
-      userPermissions.includes(perm)
-    );
+    let hasAny = false;
+    try {
+      const access = await getEffectiveAccess(req);
+
+      // Check if user has ANY of the required permissions
+      for (const perm of requiredPermissions) {
+        if (await isGranted(req, access, perm)) {
+          hasAny = true;
+          break;
+        }
+      }
+    } catch (error) {
+      return next(error);
+    }
 
     if (!hasAny) {
       return res.status(403).json({ 
@@ -103,6 +169,54 @@ export function hasAnyPermission(...requiredPermissions: Permission[]) {
   };
 }
 
+/**
+ * Middleware for list endpoints that filter by device scope: passes when the
+ * user holds the permission globally or through any role binding. The handler
+ * must restrict its results with getDeviceScope.
+ * 
+ * @param permission - Permission required (globally or for some devices)
+ * @returns Express middleware function
+ * 
+ * @example
+ * router.get('/devices', jwtAuth, hasScopedPermission(PERMISSIONS.DEVICE_READ), listDevices);
+ */
+export function hasScopedPermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ 
+        error: 'Unauthorized',
+        message: 'Authentication required'
+      });
+    }
+
+    if (!req.user.isActive) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Account is disabled'
+      });
+    }
+
+    let granted: boolean;
+    try {
+      granted = hasPermissionInAnyScope(await getEffectiveAccess(req), permission);
+    } catch (error) {
+      return next(error);
+    }
+
+    if (!granted) {
+      return res.status(403).json({ 
+        error: 'Forbidden',
+        message: 'Insufficient permissions',
+        required: [permission],
+        missing: [permission],
+        userRole: req.user.role
+      });
+    }
+
+    next();
+  };
+}
+
 /**
  * Middleware to check if user has specific role(s)
  * 
@@ -167,7 +281,8 @@ export function isAdminOrOwner() {
 
 /**
  * Helper function to check permissions programmatically (not middleware)
- * Useful for conditional logic inside route handlers
+ * Useful for conditional logic inside route handlers. Checks the global role
+ * only; use getDeviceScope for device permissions of scoped users.
  * 
  * @param user - User object
  * @param permissions - Permissions to check
@@ -7,69 +7,55 @@
 import { query } from '../db/connection';
 import type { SensorData, MetricsData } from './mqtt-manager';
 import { processDeviceStateReport } from '../services/device-state-handler';
+import { EventPublisher } from '../services/event-sourcing';
+import { getSensorDataBatchWorker, SensorReading } from '../workers/sensor-data-batch-worker';
 import logger from '../utils/logger';
 
+const eventPublisher = new EventPublisher('mqtt-handler');
+
 /**
  * Handle incoming sensor data
- * Store in sensor_data table or time-series database
+ * Buffers readings for the sensor data batch worker (multi-row inserts)
  * Supports both single messages and batches
  */
 export async function handleSensorData(data: SensorData): Promise<void> {
-  try {
-    // Check if this is a batch (from Sensor Publish feature)
-    const isBatch = data.data && Array.isArray((data.data as any).messages);
-    
-    if (isBatch) {
-      // Process batch of messages
-      const batch = data.data as any;
-      const messages = batch.messages as string[];
-      
-      logger.info(`Processing sensor data batch: ${messages.length} messages from ${data.deviceUuid}/${data.sensorName}`);
-      
-      // Parse and insert all messages in batch
-      for (const messageStr of messages) {
-        try {
-          const message = JSON.parse(messageStr);
-          
-          await query(
-            `INSERT INTO sensor_data (device_uuid, sensor_name, data, timestamp, metadata)
-             VALUES ($1, $2, $3, $4, $5)
-             ON CONFLICT DO NOTHING`,
-            [
-              data.deviceUuid,
-              data.sensorName,
-              JSON.stringify(message),
-              message.timestamp || batch.timestamp || new Date().toISOString(),
-              JSON.stringify(data.metadata || {})
-            ]
-          );
-        } catch (parseError) {
-          logger.error(`Failed to parse message in batch: ${messageStr}`, parseError);
-        }
-      }
-      
-      logger.info(`Stored ${messages.length} sensor readings: ${data.deviceUuid}/${data.sensorName}`);
-    } else {
-      // Single message (legacy format)
-      await query(
-        `INSERT INTO sensor_data (device_uuid, sensor_name, data, timestamp, metadata)
-         VALUES ($1, $2, $3, $4, $5)
-         ON CONFLICT DO NOTHING`,
-        [
-          data.deviceUuid,
-          data.sensorName,
-          JSON.stringify(data.data),
-          data.timestamp,
-          JSON.stringify(data.metadata || {})
-        ]
-      );
+  const worker = getSensorDataBatchWorker();
+
+  // Check if this is a batch (from Sensor Publish feature)
+  const isBatch = data.data && Array.isArray((data.data as any).messages);
 
-      logger.info(` Stored sensor data: ${data.deviceUuid}/${data.sensorName}`);
+  if (isBatch) {
+    const batch = data.data as any;
+    const messages = batch.messages as string[];
+    const readings: SensorReading[] = [];
+
+    for (const messageStr of messages) {
+      try {
+        const message = JSON.parse(messageStr);
+        readings.push({
+          deviceUuid: data.deviceUuid,
+          sensorName: data.sensorName,
+          data: message,
+          timestamp: message.timestamp || batch.timestamp || new Date().toISOString(),
+          metadata: data.metadata || {}
+        });
+      } catch (parseError) {
+        logger.error(`Failed to parse message in batch: ${messageStr}`, parseError);
+        worker.recordInvalid();
+      }
     }
 
-  } catch (error) {
-    logger.error(' Failed to store sensor data:', error);
-    throw error;
+    worker.enqueue(readings);
+    logger.debug(`Buffered ${readings.length} sensor readings: ${data.deviceUuid}/${data.sensorName}`);
+  } else {
+    // Single message (legacy format)
+    worker.enqueue([{
+      deviceUuid: data.deviceUuid,
+      sensorName: data.sensorName,
+      data: data.data,
+      timestamp: data.timestamp,
+      metadata: data.metadata || {}
+    }]);
   }
 }
 
@@ -126,6 +112,39 @@ export async function handleDeviceState(payload: any): Promise<void> {
   }
 }
 
+/**
+ * Handle endpoint write acknowledgement from agent
+ * Result of a POST /devices/:uuid/sensors/:name/write command
+ */
+async function handleEndpointWriteAck(deviceUuid: string, message: any): Promise<void> {
+  const ack = typeof message === 'string' ? JSON.parse(message) : message;
+
+  const logData = {
+    deviceUuid,
+    commandId: ack.commandId,
+    sensor: ack.deviceName,
+    register: ack.registerName,
+    requestedValue: ack.requestedValue,
+    readBackValue: ack.readBackValue,
+    quality: ack.quality,
+    qualityCode: ack.qualityCode
+  };
+
+  if (ack.success) {
+    logger.info('Endpoint write acknowledged', logData);
+  } else {
+    logger.warn('Endpoint write failed', { ...logData, error: ack.error });
+  }
+
+  await eventPublisher.publish(
+    ack.success ? 'sensor.value_written' : 'sensor.write_failed',
+    'device',
+    deviceUuid,
+    ack,
+    { severity: ack.success ? 'info' : 'warning' }
+  );
+}
+
 /**
  * Handle agent update status messages
  * Tracks agent self-update progress and records in database
@@ -133,6 +152,12 @@ export async function handleDeviceState(payload: any): Promise<void> {
 export async function handleAgentStatus(data: any): Promise<void> {
   try {
     const { deviceUuid, subTopic, message } = data;
+
+    // Endpoint write acknowledgements (iot/device/{uuid}/agent/write-ack)
+    if (subTopic === 'write-ack') {
+      await handleEndpointWriteAck(deviceUuid, message);
+      return;
+    }
     
     // Only handle 'status' subtopic (iot/device/{uuid}/agent/status)
     if (subTopic !== 'status') {
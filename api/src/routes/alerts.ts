@@ -3,28 +3,106 @@
  * 
  * REST API endpoints for alert rule management and alert instances
  * 
+ * Rule types:
+ * - log:    pattern matches in device logs (count/rate/sequence triggers)
+ * - metric: thresholds over device metrics, sensor readings or heartbeat status,
+ *           with for_duration, hysteresis and auto-resolve
+ * 
  * Alert Rules:
  * - GET    /api/v1/alert-rules - List all alert rules
  * - POST   /api/v1/alert-rules - Create new alert rule
  * - GET    /api/v1/alert-rules/:id - Get alert rule by ID
  * - PUT    /api/v1/alert-rules/:id - Update alert rule
  * - DELETE /api/v1/alert-rules/:id - Delete alert rule
+ * - POST   /api/v1/alert-rules/:id/test-notification - Send a test alert to the rule's recipients
+ * 
+ * Notifications:
+ * - GET    /api/v1/alert-webhooks - List webhook endpoints
+ * - POST   /api/v1/alert-webhooks - Create webhook endpoint (json, slack or teams format)
+ * - PUT    /api/v1/alert-webhooks/:id - Update webhook endpoint
+ * - DELETE /api/v1/alert-webhooks/:id - Delete webhook endpoint
+ * - POST   /api/v1/alert-webhooks/:id/test - Send a test payload
+ * - GET    /api/v1/alert-deliveries - Email/webhook delivery history
  * 
  * Alerts:
  * - GET    /api/v1/alerts - List alerts with filters
  * - GET    /api/v1/alerts/:id - Get alert by ID
+ * - GET    /api/v1/alerts/:id/deliveries - Notification deliveries for an alert
  * - POST   /api/v1/alerts/:id/acknowledge - Acknowledge alert
  * - POST   /api/v1/alerts/:id/resolve - Resolve alert
  * - GET    /api/v1/alerts/stats - Get alert statistics
- * - POST   /api/v1/alerts/process/:deviceUuid - Manually trigger alert processing
+ * - POST   /api/v1/alerts/process/:deviceUuid - Manually trigger alert processing (log + metric rules)
  */
 
 import express from 'express';
 import logger from '../utils/logger';
 import * as AlertsService from '../services/alerts.service';
+import { alertNotifier } from '../services/alert-notifier';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { hasPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
+import { checkWebhookUrl } from '../utils/webhook-target';
 
 export const router = express.Router();
 
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const WEBHOOK_FORMATS = ['json', 'slack', 'teams'];
+
+/**
+ * Validate per-rule notification recipients, returns an error message or null
+ */
+function validateNotificationSettings(rule: any): string | null {
+  if (rule.notify_emails !== undefined) {
+    if (!Array.isArray(rule.notify_emails) ||
+        !rule.notify_emails.every((email: any) => typeof email === 'string' && EMAIL_PATTERN.test(email))) {
+      return 'notify_emails must be an array of email addresses';
+    }
+  }
+
+  if (rule.webhook_ids !== undefined && rule.webhook_ids !== null) {
+    if (!Array.isArray(rule.webhook_ids) || !rule.webhook_ids.every((id: any) => Number.isInteger(id))) {
+      return 'webhook_ids must be an array of webhook IDs (null = all enabled webhooks)';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate webhook endpoint fields, returns an error message or null
+ */
+function validateWebhook(webhook: any, partial: boolean): string | null {
+  if (!partial && (!webhook.name || !webhook.url)) {
+    return 'name and url are required';
+  }
+
+  if (webhook.url !== undefined) {
+    try {
+      const url = new URL(webhook.url);
+      if (!['http:', 'https:'].includes(url.protocol)) {
+        return 'url must be an http(s) URL';
+      }
+    } catch {
+      return 'url must be a valid URL';
+    }
+
+    const targetError = checkWebhookUrl(webhook.url);
+    if (targetError) {
+      return targetError;
+    }
+  }
+
+  if (webhook.format !== undefined && !WEBHOOK_FORMATS.includes(webhook.format)) {
+    return `format must be one of: ${WEBHOOK_FORMATS.join(', ')}`;
+  }
+
+  if (webhook.headers !== undefined && (typeof webhook.headers !== 'object' || Array.isArray(webhook.headers))) {
+    return 'headers must be an object';
+  }
+
+  return null;
+}
+
 // ============================================================================
 // ALERT RULES ENDPOINTS
 // ============================================================================
@@ -37,6 +115,7 @@ export const router = express.Router();
  * - device_uuid: Filter by device (use 'global' for global rules)
  * - is_enabled: Filter by enabled status (true/false)
  * - severity: Filter by severity (info/warning/critical)
+ * - rule_type: Filter by rule type (log/metric)
  */
 router.get('/alert-rules', async (req, res) => {
   try {
@@ -54,6 +133,10 @@ router.get('/alert-rules', async (req, res) => {
       filters.severity = req.query.severity;
     }
 
+    if (req.query.rule_type) {
+      filters.rule_type = req.query.rule_type;
+    }
+
     const rules = await AlertsService.getAlertRules(filters);
 
     res.json({
@@ -122,13 +205,76 @@ router.get('/alert-rules/:id', async (req, res) => {
  *   "notify_email": false,
  *   "notify_webhook": false,
  *   "notify_dashboard": true,
+ *   "notify_emails": ["ops@example.com"], // Recipients for notify_email
+ *   "webhook_ids": [1, 2],                // Webhooks for notify_webhook (null = all enabled)
  *   "is_enabled": true
  * }
+ *
+ * Metric rule body:
+ * {
+ *   "name": "High CPU",
+ *   "rule_type": "metric",
+ *   "source": "device_metric",       // device_metric | sensor | heartbeat
+ *   "metric": "cpu_usage",           // sensor: field in the reading, heartbeat: offline_minutes
+ *   "sensor_name": "bme280",         // sensor rules only
+ *   "condition": "above",            // above | below | outside_range | no_data
+ *   "threshold_value": 90,           // above/below (outside_range: range_min, range_max)
+ *   "for_duration": 600,             // seconds the condition must hold (no_data: silence period)
+ *   "hysteresis": 5,                 // clear only once below 85
+ *   "auto_resolve": true,
+ *   "severity": "warning"
+ * }
  */
 router.post('/alert-rules', async (req, res) => {
   try {
     const rule = req.body;
 
+    const notificationError = validateNotificationSettings(rule);
+    if (notificationError) {
+      return res.status(400).json({ error: notificationError });
+    }
+
+    if (rule.rule_type && !['log', 'metric'].includes(rule.rule_type)) {
+      return res.status(400).json({
+        error: 'Invalid rule_type',
+        allowed: ['log', 'metric']
+      });
+    }
+
+    if (rule.rule_type === 'metric') {
+      if (!rule.name || !rule.severity) {
+        return res.status(400).json({
+          error: 'Missing required fields',
+          required: ['name', 'source', 'condition', 'severity']
+        });
+      }
+
+      if (rule.source === 'heartbeat' && !rule.metric) {
+        rule.metric = 'offline_minutes';
+      }
+
+      const metricError = AlertsService.validateMetricRule(rule);
+      if (metricError) {
+        return res.status(400).json({ error: metricError });
+      }
+
+      if (!['info', 'warning', 'critical'].includes(rule.severity)) {
+        return res.status(400).json({
+          error: 'Invalid severity',
+          allowed: ['info', 'warning', 'critical']
+        });
+      }
+
+      const createdRule = await AlertsService.createAlertRule(rule);
+
+      logger.info('Metric alert rule created via API', {
+        id: createdRule.id,
+        name: createdRule.name
+      });
+
+      return res.status(201).json(createdRule);
+    }
+
     // Validate required fields
     if (!rule.name || !rule.pattern || !rule.pattern_type || !rule.trigger_type || !rule.severity) {
       return res.status(400).json({
@@ -218,6 +364,29 @@ router.put('/alert-rules/:id', async (req, res) => {
       });
     }
 
+    const notificationError = validateNotificationSettings(updates);
+    if (notificationError) {
+      return res.status(400).json({ error: notificationError });
+    }
+
+    if (updates.rule_type !== undefined) {
+      return res.status(400).json({ error: 'rule_type cannot be changed, create a new rule instead' });
+    }
+
+    // Metric rules are validated as a whole (existing rule + updates)
+    const existingRule = await AlertsService.getAlertRuleById(id);
+
+    if (!existingRule) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    if (existingRule.rule_type === 'metric') {
+      const metricError = AlertsService.validateMetricRule({ ...existingRule, ...updates });
+      if (metricError) {
+        return res.status(400).json({ error: metricError });
+      }
+    }
+
     const updatedRule = await AlertsService.updateAlertRule(id, updates);
 
     if (!updatedRule) {
@@ -275,6 +444,253 @@ router.delete('/alert-rules/:id', async (req, res) => {
   }
 });
 
+/**
+ * Send a test alert to the rule's email recipients and webhooks
+ * POST /api/v1/alert-rules/:id/test-notification
+ *
+ * Uses the rule's notify_email / notify_webhook flags; each delivery is
+ * attempted once and recorded in the delivery history as a test.
+ */
+router.post('/alert-rules/:id/test-notification', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_WRITE), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid rule ID' });
+    }
+
+    const rule = await AlertsService.getAlertRuleById(id);
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Alert rule not found' });
+    }
+
+    if (!rule.notify_email && !rule.notify_webhook) {
+      return res.status(400).json({ error: 'Rule has neither notify_email nor notify_webhook enabled' });
+    }
+
+    const deliveries = await alertNotifier.sendTest(rule);
+
+    res.json({
+      success: deliveries.length > 0 && deliveries.every(delivery => delivery.status === 'delivered'),
+      count: deliveries.length,
+      deliveries
+    });
+  } catch (error) {
+    logger.error('Error sending test notification', {
+      id: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({
+      error: 'Failed to send test notification',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// ============================================================================
+// NOTIFICATION ENDPOINTS
+// ============================================================================
+
+/**
+ * Get webhook endpoints
+ * GET /api/v1/alert-webhooks
+ */
+router.get('/alert-webhooks', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_READ), async (req, res) => {
+  try {
+    const webhooks = await AlertsService.getAlertWebhooks();
+
+    res.json({
+      count: webhooks.length,
+      webhooks
+    });
+  } catch (error) {
+    logger.error('Error fetching alert webhooks', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({
+      error: 'Failed to fetch alert webhooks',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Create webhook endpoint
+ * POST /api/v1/alert-webhooks
+ *
+ * Body:
+ * {
+ *   "name": "Ops Slack",
+ *   "url": "https://hooks.slack.com/services/...",
+ *   "format": "slack",        // json | slack | teams
+ *   "secret": "...",          // Optional, generated if omitted (returned only here)
+ *   "headers": {},            // Optional extra headers
+ *   "is_enabled": true
+ * }
+ */
+router.post('/alert-webhooks', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_WRITE), async (req, res) => {
+  try {
+    const validationError = validateWebhook(req.body, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const webhook = await AlertsService.createAlertWebhook(req.body);
+
+    logger.info('Alert webhook created via API', { id: webhook.id, name: webhook.name });
+
+    res.status(201).json(webhook);
+  } catch (error) {
+    logger.error('Error creating alert webhook', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({
+      error: 'Failed to create alert webhook',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Update webhook endpoint
+ * PUT /api/v1/alert-webhooks/:id
+ */
+router.put('/alert-webhooks/:id', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_WRITE), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const validationError = validateWebhook(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const webhook = await AlertsService.updateAlertWebhook(id, req.body);
+
+    if (!webhook) {
+      return res.status(404).json({ error: 'Alert webhook not found' });
+    }
+
+    res.json(webhook);
+  } catch (error) {
+    logger.error('Error updating alert webhook', {
+      id: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({
+      error: 'Failed to update alert webhook',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Delete webhook endpoint
+ * DELETE /api/v1/alert-webhooks/:id
+ */
+router.delete('/alert-webhooks/:id', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_WRITE), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const deleted = await AlertsService.deleteAlertWebhook(id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Alert webhook not found' });
+    }
+
+    res.json({ success: true, message: 'Alert webhook deleted' });
+  } catch (error) {
+    logger.error('Error deleting alert webhook', {
+      id: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({
+      error: 'Failed to delete alert webhook',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Send a test payload to a webhook endpoint
+ * POST /api/v1/alert-webhooks/:id/test
+ */
+router.post('/alert-webhooks/:id/test', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_WRITE), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid webhook ID' });
+    }
+
+    const webhook = await AlertsService.getAlertWebhookById(id);
+
+    if (!webhook) {
+      return res.status(404).json({ error: 'Alert webhook not found' });
+    }
+
+    const delivery = await alertNotifier.testWebhook(webhook);
+
+    res.json({
+      success: delivery.status === 'delivered',
+      delivery
+    });
+  } catch (error) {
+    logger.error('Error testing alert webhook', {
+      id: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({
+      error: 'Failed to test alert webhook',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * Get notification delivery history
+ * GET /api/v1/alert-deliveries
+ *
+ * Query params:
+ * - alert_id, rule_id: Filter by alert or rule
+ * - status: pending/delivered/failed
+ * - channel: email/webhook
+ * - limit (default: 100), offset
+ */
+router.get('/alert-deliveries', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_READ), async (req, res) => {
+  try {
+    const deliveries = await alertNotifier.getDeliveries({
+      alert_id: req.query.alert_id ? parseInt(req.query.alert_id as string) : undefined,
+      rule_id: req.query.rule_id ? parseInt(req.query.rule_id as string) : undefined,
+      status: req.query.status as string | undefined,
+      channel: req.query.channel as string | undefined,
+      limit: parseInt(req.query.limit as string) || 100,
+      offset: parseInt(req.query.offset as string) || 0
+    });
+
+    res.json({
+      count: deliveries.length,
+      deliveries
+    });
+  } catch (error) {
+    logger.error('Error fetching alert deliveries', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({
+      error: 'Failed to fetch alert deliveries',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // ============================================================================
 // ALERTS ENDPOINTS
 // ============================================================================
@@ -358,6 +774,36 @@ router.get('/alerts/:id', async (req, res) => {
   }
 });
 
+/**
+ * Get notification deliveries for an alert
+ * GET /api/v1/alerts/:id/deliveries
+ */
+router.get('/alerts/:id/deliveries', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_READ), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid alert ID' });
+    }
+
+    const deliveries = await alertNotifier.getDeliveries({ alert_id: id });
+
+    res.json({
+      count: deliveries.length,
+      deliveries
+    });
+  } catch (error) {
+    logger.error('Error fetching alert deliveries', {
+      id: req.params.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    res.status(500).json({
+      error: 'Failed to fetch alert deliveries',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * Acknowledge alert
  * POST /api/v1/alerts/:id/acknowledge
@@ -472,6 +918,7 @@ router.post('/alerts/process/:deviceUuid', async (req, res) => {
     logger.info('Manual alert processing triggered via API', { deviceUuid });
 
     await AlertsService.processLogAlerts(deviceUuid);
+    await AlertsService.processMetricAlerts(deviceUuid);
 
     res.json({
       success: true,
@@ -7,6 +7,7 @@
 import express from 'express';
 import { query } from '../db/connection';
 import { logger } from '../utils/logger';
+import { importCompose, slugify } from '../services/compose-converter';
 
 export const router = express.Router();
 
@@ -57,71 +58,189 @@ router.post('/applications', async (req, res) => {
       });
     }
 
-    // Check if slug already exists
-    const existingApp = await query(
-      'SELECT id, app_name FROM applications WHERE slug = $1',
-      [slug]
+    const { app, existingId } = await createApplicationTemplate(
+      appName, slug, description, defaultConfig, req.headers['x-user-id']
     );
 
-    if (existingApp.rows.length > 0) {
+    if (existingId) {
       return res.status(409).json({
         error: 'Conflict',
-        message: `Application with slug "${slug}" already exists (ID: ${existingApp.rows[0].id})`
+        message: `Application with slug "${slug}" already exists (ID: ${existingId})`
       });
     }
 
-    // Get next app ID from sequence (starts at 1000)
-    const idResult = await query<{ nextval: number }>(
-      "SELECT nextval('global_app_id_seq') as nextval"
-    );
-    const appId = idResult.rows[0].nextval;
+    logger.info(`Created application template: ${appName} (ID: ${app.id}, slug: ${slug})`);
 
-    // Insert into applications table with explicit ID
-    const result = await query(
-      `INSERT INTO applications (id, app_name, slug, description, default_config)
-       VALUES ($1, $2, $3, $4, $5)
-       RETURNING *`,
-      [
-        appId,
-        appName,
-        slug,
-        description || '',
-        JSON.stringify(defaultConfig || { services: [] })
-      ]
-    );
+    res.status(201).json({
+      appId: app.id,
+      appName: app.app_name,
+      slug: app.slug,
+      description: app.description,
+      defaultConfig: typeof app.default_config === 'string' 
+        ? JSON.parse(app.default_config) 
+        : app.default_config,
+      createdAt: app.created_at
+    });
 
-    const app = result.rows[0];
+  } catch (error: any) {
+    logger.error('Error creating application template:', error);
+    res.status(500).json({
+      error: 'Failed to create application template',
+      message: error.message
+    });
+  }
+});
 
-    // Also register in app_service_ids registry for tracking
-    await query(
-      `INSERT INTO app_service_ids (entity_type, entity_id, entity_name, metadata, created_by)
-       VALUES ($1, $2, $3, $4, $5)`,
-      [
-        'app',
-        appId,
-        appName,
-        JSON.stringify({ slug, description }),
-        req.headers['x-user-id'] || 'system'
-      ]
+/**
+ * Insert an application template and register its ID
+ * Returns existingId instead when the slug is already taken
+ */
+async function createApplicationTemplate(
+  appName: string,
+  slug: string,
+  description: string | undefined,
+  defaultConfig: any,
+  createdBy: string | string[] | undefined
+): Promise<{ app?: any; existingId?: number }> {
+  // Check if slug already exists
+  const existingApp = await query(
+    'SELECT id, app_name FROM applications WHERE slug = $1',
+    [slug]
+  );
+
+  if (existingApp.rows.length > 0) {
+    return { existingId: existingApp.rows[0].id };
+  }
+
+  // Get next app ID from sequence (starts at 1000)
+  const idResult = await query<{ nextval: number }>(
+    "SELECT nextval('global_app_id_seq') as nextval"
+  );
+  const appId = idResult.rows[0].nextval;
+
+  // Insert into applications table with explicit ID
+  const result = await query(
+    `INSERT INTO applications (id, app_name, slug, description, default_config)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [
+      appId,
+      appName,
+      slug,
+      description || '',
+      JSON.stringify(defaultConfig || { services: [] })
+    ]
+  );
+
+  // Also register in app_service_ids registry for tracking
+  await query(
+    `INSERT INTO app_service_ids (entity_type, entity_id, entity_name, metadata, created_by)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [
+      'app',
+      appId,
+      appName,
+      JSON.stringify({ slug, description }),
+      createdBy || 'system'
+    ]
+  );
+
+  return { app: result.rows[0] };
+}
+
+/**
+ * Import application template from docker-compose YAML
+ * POST /api/v1/applications/import-compose
+ *
+ * Body (application/json): {
+ *   compose: string,                     // docker-compose.yml contents
+ *   appName?: string,                    // defaults to the compose "name"
+ *   slug?: string,                       // defaults to appName slugified
+ *   description?: string,
+ *   envFiles?: { [path: string]: string } // contents of env_file entries (and .env for ${VAR})
+ * }
+ * or the raw YAML (application/yaml) with appName/slug/description as query params
+ *
+ * Query params: ?dryRun=true - return the converted template without saving it
+ *
+ * Returns the created template, or 400 with every unsupported key in details.errors
+ */
+router.post('/applications/import-compose',
+  express.text({ type: ['application/yaml', 'application/x-yaml', 'text/yaml'], limit: '1mb' }),
+  async (req, res) => {
+  try {
+    const isYamlBody = typeof req.body === 'string';
+    const params = isYamlBody ? req.query as Record<string, any> : req.body;
+    const compose = isYamlBody ? req.body : req.body.compose;
+    const envFiles = isYamlBody ? {} : req.body.envFiles || {};
+
+    if (!compose || typeof compose !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'compose is required and must be a YAML string (or send the file as application/yaml)'
+      });
+    }
+
+    if (typeof envFiles !== 'object' || Array.isArray(envFiles) ||
+        !Object.values(envFiles).every(content => typeof content === 'string')) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'envFiles must map file paths to their contents'
+      });
+    }
+
+    const result = importCompose(compose, envFiles);
+    if (result.errors) {
+      return res.status(400).json({
+        error: 'Invalid compose file',
+        message: `${result.errors.length} problem(s) found, first: ${result.errors[0]}`,
+        details: { errors: result.errors }
+      });
+    }
+
+    const { name, ...defaultConfig } = result.template;
+    const appName = params.appName || name;
+    if (!appName || typeof appName !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'appName is required when the compose file has no top-level name'
+      });
+    }
+    const slug = params.slug || slugify(appName);
+    const description = params.description;
+
+    if (params.dryRun === true || req.query.dryRun === 'true') {
+      return res.json({ appName, slug, description: description || '', defaultConfig });
+    }
+
+    const { app, existingId } = await createApplicationTemplate(
+      appName, slug, description, defaultConfig, req.headers['x-user-id']
     );
 
-    logger.info(`Created application template: ${appName} (ID: ${appId}, slug: ${slug})`);
+    if (existingId) {
+      return res.status(409).json({
+        error: 'Conflict',
+        message: `Application with slug "${slug}" already exists (ID: ${existingId})`
+      });
+    }
+
+    logger.info(`Imported application template from compose: ${appName} (ID: ${app.id}, ${defaultConfig.services.length} services)`);
 
     res.status(201).json({
       appId: app.id,
       appName: app.app_name,
       slug: app.slug,
       description: app.description,
-      defaultConfig: typeof app.default_config === 'string' 
-        ? JSON.parse(app.default_config) 
+      defaultConfig: typeof app.default_config === 'string'
+        ? JSON.parse(app.default_config)
         : app.default_config,
       createdAt: app.created_at
     });
 
   } catch (error: any) {
-    logger.error('Error creating application template:', error);
+    logger.error('Error importing compose file:', error);
     res.status(500).json({
-      error: 'Failed to create application template',
+      error: 'Failed to import compose file',
       message: error.message
     });
   }
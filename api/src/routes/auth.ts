@@ -4,9 +4,13 @@
  * Handles user registration, login, logout, token refresh, and password management
  */
 
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import * as authService from '../services/auth.service';
-import { jwtAuth } from '../middleware/jwt-auth';
+import * as mfaService from '../services/mfa.service';
+import { jwtAuth, requireSession } from '../middleware/jwt-auth';
+import { hasPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
+import { logAuditEvent, AuditEventType, AuditSeverity } from '../utils/audit-logger';
 import rateLimit from 'express-rate-limit';
 
 const router = express.Router();
@@ -32,6 +36,45 @@ const registerRateLimit = rateLimit({
   }
 });
 
+const mfaRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // 10 code attempts per window
+  message: {
+    error: 'Too Many Requests',
+    message: 'Too many verification attempts. Please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+function getClientIp(req: Request): string | undefined {
+  return (req.headers['x-forwarded-for'] as string)?.split(',')[0] ||
+         req.socket.remoteAddress;
+}
+
+/**
+ * Authenticate with an access token, or with the MFA token of a login that
+ * has to enroll first (role requires MFA). The latter sets res.locals.mfaEnrollment.
+ */
+async function jwtOrEnrollmentToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const mfaToken = req.body?.mfaToken;
+  if (!mfaToken) {
+    return jwtAuth(req, res, next);
+  }
+
+  try {
+    const user = await authService.resolveMfaToken(mfaToken, 'enroll');
+    req.user = { id: user.id, username: user.username, email: user.email, role: user.role, isActive: true };
+    res.locals.mfaEnrollment = true;
+    next();
+  } catch (error: any) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Invalid or expired MFA token'
+    });
+  }
+}
+
 /**
  * POST /auth/register
  * 
@@ -99,7 +142,8 @@ router.post('/register', registerRateLimit, async (req: Request, res: Response)
  *   - username: string (username or email)
  *   - password: string
  * 
- * Returns: { accessToken, refreshToken, user }
+ * Returns: { accessToken, refreshToken, user }, or { mfaRequired, mfaEnrollmentRequired, mfaToken }
+ * when a second factor is needed (see POST /auth/login/mfa and /auth/mfa/setup)
  */
 router.post('/login', authRateLimit, async (req: Request, res: Response) => {
   try {
@@ -149,6 +193,61 @@ router.post('/login', authRateLimit, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /auth/login/mfa
+ * 
+ * Second login step for users with MFA enabled
+ * 
+ * Body:
+ *   - mfaToken: string (from /auth/login)
+ *   - code: string (6-digit authenticator code), or
+ *   - recoveryCode: string (one-time recovery code)
+ * 
+ * Returns: { accessToken, refreshToken, user }
+ */
+router.post('/login/mfa', mfaRateLimit, async (req: Request, res: Response) => {
+  try {
+    const { mfaToken, code, recoveryCode } = req.body;
+
+    if (!mfaToken || (!code && !recoveryCode)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'MFA token and a code or recovery code are required'
+      });
+      return;
+    }
+
+    const result = await authService.completeMfaLogin(
+      mfaToken,
+      { code, recoveryCode },
+      getClientIp(req),
+      req.headers['user-agent']
+    );
+
+    res.status(200).json({
+      message: 'Login successful',
+      data: result
+    });
+
+  } catch (error: any) {
+    console.error('MFA login error:', error);
+
+    if (error.message.includes('Invalid') ||
+        error.message.includes('inactive')) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: error.message
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Login failed'
+    });
+  }
+});
+
 /**
  * POST /auth/refresh
  * 
@@ -202,7 +301,7 @@ router.post('/refresh', async (req: Request, res: Response) => {
  * 
  * Returns: { message }
  */
-router.post('/logout', jwtAuth, async (req: Request, res: Response) => {
+router.post('/logout', jwtAuth, requireSession, async (req: Request, res: Response) => {
   try {
     const { refreshToken } = req.body;
     const userId = req.user!.id;
@@ -235,7 +334,7 @@ router.post('/logout', jwtAuth, async (req: Request, res: Response) => {
  * 
  * Returns: { message }
  */
-router.post('/change-password', jwtAuth, async (req: Request, res: Response) => {
+router.post('/change-password', jwtAuth, requireSession, async (req: Request, res: Response) => {
   try {
     const { currentPassword, newPassword } = req.body;
     const userId = req.user!.id;
@@ -258,7 +357,8 @@ router.post('/change-password', jwtAuth, async (req: Request, res: Response) =>
     console.error('Password change error:', error);
     
     if (error.message.includes('incorrect') || 
-        error.message.includes('at least')) {
+        error.message.includes('at least') ||
+        error.message.includes('identity provider')) {
       res.status(400).json({
         error: 'Bad Request',
         message: error.message
@@ -322,6 +422,316 @@ router.get('/me', jwtAuth, async (req: Request, res: Response) => {
   }
 });
 
+// ============================================================================
+// MULTI-FACTOR AUTHENTICATION
+// ============================================================================
+
+/**
+ * GET /auth/mfa/status
+ * 
+ * MFA state of the current user
+ * 
+ * Returns: { enabled, enabledAt, required, recoveryCodesRemaining }
+ */
+router.get('/mfa/status', jwtAuth, async (req: Request, res: Response) => {
+  try {
+    const status = await mfaService.getMfaStatus(req.user!.id);
+    res.status(200).json({ data: status });
+  } catch (error: any) {
+    console.error('Get MFA status error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get MFA status'
+    });
+  }
+});
+
+/**
+ * POST /auth/mfa/setup
+ * 
+ * Start enrollment: generate a secret and its QR code
+ * Requires JWT authentication, or the mfaToken of a login that must enroll
+ * 
+ * Body:
+ *   - mfaToken: string (optional, instead of the Authorization header)
+ * 
+ * Returns: { secret, otpauthUrl, qrCode (data URL) }
+ */
+router.post('/mfa/setup', jwtOrEnrollmentToken, requireSession, async (req: Request, res: Response) => {
+  try {
+    const enrollment = await mfaService.startEnrollment(req.user!);
+
+    await logAuditEvent({
+      eventType: AuditEventType.MFA_ENROLLMENT_STARTED,
+      userId: String(req.user!.id),
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+      details: { username: req.user!.username }
+    });
+
+    res.status(200).json({ data: enrollment });
+  } catch (error: any) {
+    console.error('MFA setup error:', error);
+
+    if (error.message.includes('already enabled')) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: error.message
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to start MFA enrollment'
+    });
+  }
+});
+
+/**
+ * POST /auth/mfa/activate
+ * 
+ * Confirm enrollment with a code from the authenticator app
+ * Requires JWT authentication, or the mfaToken of a login that must enroll
+ * 
+ * Body:
+ *   - code: string
+ *   - mfaToken: string (optional, instead of the Authorization header)
+ * 
+ * Returns: { recoveryCodes } (shown once), plus { accessToken, refreshToken, user }
+ * when activated with an mfaToken (completes the login)
+ */
+router.post('/mfa/activate', mfaRateLimit, jwtOrEnrollmentToken, requireSession, async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Verification code is required'
+      });
+      return;
+    }
+
+    const recoveryCodes = await mfaService.activateMfa(req.user!.id, code);
+
+    await logAuditEvent({
+      eventType: AuditEventType.MFA_ENABLED,
+      userId: String(req.user!.id),
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+      details: { username: req.user!.username }
+    });
+
+    const login = res.locals.mfaEnrollment
+      ? await authService.issueLoginTokens(req.user!, getClientIp(req), req.headers['user-agent'])
+      : {};
+
+    res.status(200).json({
+      message: 'MFA enabled',
+      data: { recoveryCodes, ...login }
+    });
+  } catch (error: any) {
+    console.error('MFA activation error:', error);
+
+    if (error.message.includes('Invalid') ||
+        error.message.includes('not been started') ||
+        error.message.includes('already enabled')) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: error.message
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to enable MFA'
+    });
+  }
+});
+
+/**
+ * POST /auth/mfa/disable
+ * 
+ * Turn MFA off for the current user. Not allowed when the user's role requires MFA.
+ * Requires JWT authentication
+ * 
+ * Body:
+ *   - password: string
+ *   - code: string (authenticator code or recovery code)
+ * 
+ * Returns: { message }
+ */
+router.post('/mfa/disable', mfaRateLimit, jwtAuth, requireSession, async (req: Request, res: Response) => {
+  try {
+    const { password, code } = req.body;
+    const user = req.user!;
+
+    if (!password || !code) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Password and verification code are required'
+      });
+      return;
+    }
+
+    if (await mfaService.isMfaRequiredForRole(user.role)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `MFA is required for the ${user.role} role`
+      });
+      return;
+    }
+
+    const verified = await authService.verifyUserPassword(user.id, password)
+      && (await mfaService.verifyMfaCode(user.id, code) || await mfaService.useRecoveryCode(user.id, code));
+
+    if (!verified) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid password or verification code'
+      });
+      return;
+    }
+
+    await mfaService.disableMfa(user.id);
+
+    await logAuditEvent({
+      eventType: AuditEventType.MFA_DISABLED,
+      userId: String(user.id),
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+      details: { username: user.username },
+      severity: AuditSeverity.WARNING
+    });
+
+    res.status(200).json({
+      message: 'MFA disabled'
+    });
+  } catch (error: any) {
+    console.error('MFA disable error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to disable MFA'
+    });
+  }
+});
+
+/**
+ * POST /auth/mfa/recovery-codes
+ * 
+ * Replace the recovery codes of the current user
+ * Requires JWT authentication
+ * 
+ * Body:
+ *   - code: string (authenticator code)
+ * 
+ * Returns: { recoveryCodes } (shown once)
+ */
+router.post('/mfa/recovery-codes', mfaRateLimit, jwtAuth, requireSession, async (req: Request, res: Response) => {
+  try {
+    const { code } = req.body;
+    const user = req.user!;
+
+    if (!code) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Verification code is required'
+      });
+      return;
+    }
+
+    if (!await mfaService.verifyMfaCode(user.id, code)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Invalid verification code'
+      });
+      return;
+    }
+
+    const recoveryCodes = await mfaService.regenerateRecoveryCodes(user.id);
+
+    await logAuditEvent({
+      eventType: AuditEventType.MFA_RECOVERY_CODES_REGENERATED,
+      userId: String(user.id),
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+      details: { username: user.username }
+    });
+
+    res.status(200).json({ data: { recoveryCodes } });
+  } catch (error: any) {
+    console.error('MFA recovery codes error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to regenerate recovery codes'
+    });
+  }
+});
+
+/**
+ * GET /auth/mfa/policy
+ * 
+ * Roles that must use MFA (requires settings:read permission)
+ * 
+ * Returns: { requiredRoles }
+ */
+router.get('/mfa/policy', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_READ), async (req: Request, res: Response) => {
+  try {
+    const policy = await mfaService.getMfaPolicy();
+    res.status(200).json({ data: policy });
+  } catch (error: any) {
+    console.error('Get MFA policy error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get MFA policy'
+    });
+  }
+});
+
+/**
+ * PUT /auth/mfa/policy
+ * 
+ * Set the roles that must use MFA (requires settings:write permission).
+ * Users of these roles without MFA are asked to enroll at their next login.
+ * 
+ * Body:
+ *   - requiredRoles: string[] (e.g. ["owner", "admin"])
+ * 
+ * Returns: { requiredRoles }
+ */
+router.put('/mfa/policy', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_WRITE), async (req: Request, res: Response) => {
+  try {
+    const validationError = mfaService.validateMfaPolicyInput(req.body || {});
+    if (validationError) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: validationError
+      });
+      return;
+    }
+
+    const policy = await mfaService.setMfaPolicy(req.body.requiredRoles);
+
+    await logAuditEvent({
+      eventType: AuditEventType.MFA_POLICY_UPDATED,
+      userId: String(req.user!.id),
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+      details: { requiredRoles: policy.requiredRoles, updatedBy: req.user!.username }
+    });
+
+    res.status(200).json({ data: policy });
+  } catch (error: any) {
+    console.error('Update MFA policy error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update MFA policy'
+    });
+  }
+});
+
 // ============================================================================
 // MQTT USERS & ACL MANAGEMENT
 // ============================================================================
@@ -0,0 +1,235 @@
+/**
+ * Device Certificate Routes
+ * X.509 client certificates signed by the fleet CA (alternative to API keys)
+ *
+ * Device endpoints (X-Device-API-Key or current client certificate):
+ * - POST   /api/v1/device/:uuid/certificate - Renew: sign a new CSR, supersede the current certificate
+ *
+ * Public endpoints:
+ * - GET    /api/v1/device-ca/ca.crt - Fleet CA certificate
+ * - GET    /api/v1/device-ca/crl - Certificate revocation list
+ *
+ * Management endpoints:
+ * - GET    /api/v1/devices/:uuid/certificates - List a device's certificates
+ * - POST   /api/v1/devices/:uuid/certificates/:id/revoke - Revoke a certificate
+ * - POST   /api/v1/devices/:uuid/certificates/allow-renewal - Allow renewal after a revocation
+ */
+
+import express, { Request, Response } from 'express';
+import deviceAuth from '../middleware/device-auth';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { hasPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
+import {
+  CertificateRequestError,
+  allowCertificateRenewal,
+  buildCrl,
+  getDeviceCaCertificate,
+  isCertificateRenewalBlocked,
+  isDeviceCaConfigured,
+  issueDeviceCertificate,
+  listDeviceCertificates,
+  revokeDeviceCertificates,
+} from '../services/device-certificates';
+import logger from '../utils/logger';
+
+const moduleLogger = logger.child({ module: 'device-certificates' });
+
+export const router = express.Router();
+
+router.use('/devices/:uuid/certificates', jwtAuth);
+
+// =============================================================================
+// Device endpoints
+// =============================================================================
+
+/**
+ * POST /api/v1/device/:uuid/certificate
+ * Renew the device certificate (run by the agent before expiry). Devices
+ * registered without a CSR use this to get their first certificate.
+ * Refused after a revocation until renewal is allowed again.
+ *
+ * Body: { csr: '-----BEGIN CERTIFICATE REQUEST-----...' }
+ */
+router.post('/device/:uuid/certificate', deviceAuth, async (req: Request, res: Response) => {
+  const { uuid } = req.params;
+  const { csr } = req.body;
+
+  if (!isDeviceCaConfigured()) {
+    return res.status(404).json({
+      error: 'Not configured',
+      message: 'Device certificates are not enabled (fleet CA not configured)',
+    });
+  }
+  if (typeof csr !== 'string' || !csr.includes('CERTIFICATE REQUEST')) {
+    return res.status(400).json({ error: 'Invalid request', message: 'csr (PEM) is required' });
+  }
+
+  try {
+    if (await isCertificateRenewalBlocked(uuid)) {
+      moduleLogger.warn('Certificate renewal refused after revocation', { deviceUuid: uuid });
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Certificate renewal is blocked because a certificate of this device was revoked',
+      });
+    }
+
+    const certificate = await issueDeviceCertificate(uuid, csr, 'renewal', {
+      type: 'device',
+      id: uuid,
+      name: req.device?.deviceName,
+    });
+    return res.status(201).json(certificate);
+  } catch (error: any) {
+    if (error instanceof CertificateRequestError) {
+      return res.status(400).json({ error: 'Invalid certificate request', message: error.message });
+    }
+    moduleLogger.error('Error renewing device certificate', { error: error.message, deviceUuid: uuid });
+    return res.status(500).json({
+      error: 'Failed to renew device certificate',
+      message: error.message,
+    });
+  }
+});
+
+// =============================================================================
+// Public endpoints
+// =============================================================================
+
+/**
+ * GET /api/v1/device-ca/ca.crt
+ * Fleet CA certificate (PEM)
+ */
+router.get('/device-ca/ca.crt', (_req: Request, res: Response) => {
+  const caCertificate = getDeviceCaCertificate();
+  if (!caCertificate) {
+    return res.status(404).json({
+      error: 'Not configured',
+      message: 'Device certificates are not enabled (fleet CA not configured)',
+    });
+  }
+  res.type('application/x-pem-file').send(caCertificate);
+});
+
+/**
+ * GET /api/v1/device-ca/crl
+ * Certificate revocation list (PEM), signed by the fleet CA
+ */
+router.get('/device-ca/crl', async (_req: Request, res: Response) => {
+  try {
+    const crl = await buildCrl();
+    if (!crl) {
+      return res.status(404).json({
+        error: 'Not configured',
+        message: 'Device certificates are not enabled (fleet CA not configured)',
+      });
+    }
+    res.type('application/pkix-crl').send(crl);
+  } catch (error: any) {
+    moduleLogger.error('Error building CRL', { error: error.message });
+    return res.status(500).json({
+      error: 'Failed to build CRL',
+      message: error.message,
+    });
+  }
+});
+
+// =============================================================================
+// Management endpoints
+// =============================================================================
+
+/**
+ * GET /api/v1/devices/:uuid/certificates
+ * List a device's certificates (newest first)
+ */
+router.get('/devices/:uuid/certificates',
+  hasPermission(PERMISSIONS.DEVICE_READ),
+  async (req: Request, res: Response) => {
+  try {
+    const certificates = await listDeviceCertificates(req.params.uuid);
+    return res.json({
+      deviceUuid: req.params.uuid,
+      enabled: isDeviceCaConfigured(),
+      certificates,
+      count: certificates.length,
+    });
+  } catch (error: any) {
+    moduleLogger.error('Error listing device certificates', { error: error.message, deviceUuid: req.params.uuid });
+    return res.status(500).json({
+      error: 'Failed to list device certificates',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/v1/devices/:uuid/certificates/:id/revoke
+ * Revoke a certificate; the device falls back to its API key and cannot
+ * request a new certificate until renewal is allowed again
+ *
+ * Body: { reason?: 'Device stolen' }
+ */
+router.post('/devices/:uuid/certificates/:id/revoke',
+  hasPermission(PERMISSIONS.API_KEY_REVOKE),
+  async (req: Request, res: Response) => {
+  try {
+    const { uuid } = req.params;
+    const id = parseInt(req.params.id, 10);
+    const reason = typeof req.body?.reason === 'string' && req.body.reason ? req.body.reason : 'Revoked by administrator';
+
+    const revoked = isNaN(id)
+      ? []
+      : await revokeDeviceCertificates(uuid, reason, {
+        type: 'user',
+        id: String(req.user?.id ?? 'admin'),
+        name: req.user?.username,
+        ip_address: req.ip,
+      }, id);
+    if (revoked.length === 0) {
+      return res.status(404).json({
+        error: 'Certificate not found',
+        message: `No unrevoked certificate ${req.params.id} for device ${uuid}`,
+      });
+    }
+
+    return res.json({ certificate: revoked[0], message: 'Certificate revoked' });
+  } catch (error: any) {
+    moduleLogger.error('Error revoking device certificate', { error: error.message, deviceUuid: req.params.uuid });
+    return res.status(500).json({
+      error: 'Failed to revoke device certificate',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/v1/devices/:uuid/certificates/allow-renewal
+ * Let the device request a new certificate again after a revocation
+ */
+router.post('/devices/:uuid/certificates/allow-renewal',
+  hasPermission(PERMISSIONS.API_KEY_CREATE),
+  async (req: Request, res: Response) => {
+  try {
+    const { uuid } = req.params;
+    const allowed = await allowCertificateRenewal(uuid, {
+      type: 'user',
+      id: String(req.user!.id),
+      name: req.user!.username,
+      ip_address: req.ip,
+    });
+    if (!allowed) {
+      return res.status(404).json({
+        error: 'Not blocked',
+        message: `Certificate renewal is not blocked for device ${uuid}`,
+      });
+    }
+
+    return res.json({ message: 'Certificate renewal allowed' });
+  } catch (error: any) {
+    moduleLogger.error('Error allowing certificate renewal', { error: error.message, deviceUuid: req.params.uuid });
+    return res.status(500).json({
+      error: 'Failed to allow certificate renewal',
+      message: error.message,
+    });
+  }
+});
@@ -11,10 +11,16 @@ import poolWrapper from '../db/connection';
 import deviceAuth, { deviceAuthFromBody } from '../middleware/device-auth';
 import { validateProvisioningKey } from '../utils/provisioning-keys';
 import { getMqttJobsNotifier } from '../services/mqtt-jobs-notifier';
-import { hasPermission, hasAnyPermission } from '../middleware/permissions';
+import { hasPermission, hasAnyPermission, hasScopedPermission, getDeviceScope } from '../middleware/permissions';
 import { PERMISSIONS } from '../types/permissions';
 import { jwtAuth } from '../middleware/jwt-auth';
 import { EventPublisher } from '../services/event-sourcing';
+import { findDeviceUuidsByTargetFilter } from '../services/device-tag-query';
+import {
+  jobRolloutController,
+  validateAbortConfig,
+  validateRolloutConfig,
+} from '../services/job-rollout-controller';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
@@ -25,6 +31,7 @@ const eventPublisher = new EventPublisher('device-jobs-api');
 // Apply JWT authentication to all dashboard/cloud routes
 // Device routes use deviceAuth middleware individually
 router.use('/jobs/templates', jwtAuth);
+router.use('/jobs/execute', jwtAuth);
 router.use('/jobs/executions', jwtAuth);
 router.use('/jobs/handlers', jwtAuth);
 
@@ -248,8 +255,18 @@ router.delete('/jobs/templates/:id', async (req: Request, res: Response) => {
 /**
  * POST /api/v1/jobs/execute
  * Create and execute a job
+ *
+ * Optional rollout controls (AWS IoT Jobs style):
+ *   rollout_config: { max_concurrency, maximum_per_minute,
+ *     exponential_rate: { base_rate_per_minute, increment_factor,
+ *       rate_increase_criteria: { number_of_notified_devices | number_of_succeeded_devices } } }
+ *   abort_config: { criteria: [{ failure_type: 'FAILED' | 'TIMED_OUT' | 'REJECTED' | 'ALL',
+ *     action: 'CANCEL', threshold_percentage, min_executed_devices }] }
+ *   timeout_minutes: in-progress timeout per device, then TIMED_OUT
+ *
+ * target_type 'group' selects devices by tags (same selectors as POST /devices/query)
  */
-router.post('/jobs/execute', async (req: Request, res: Response) => {
+router.post('/jobs/execute', hasScopedPermission(PERMISSIONS.DEVICE_CONTROL), async (req: Request, res: Response) => {
   try {
     const {
       job_name,
@@ -262,6 +279,8 @@ router.post('/jobs/execute', async (req: Request, res: Response) => {
       schedule,
       max_executions,
       timeout_minutes,
+      rollout_config,
+      abort_config,
       created_by,
     } = req.body;
 
@@ -281,6 +300,24 @@ router.post('/jobs/execute', async (req: Request, res: Response) => {
       });
     }
 
+    if (target_type === 'group' &&
+        (!target_filter || typeof target_filter !== 'object' || Object.keys(target_filter).length === 0)) {
+      return res.status(400).json({
+        error: 'target_filter tag selectors are required for target_type group',
+      });
+    }
+
+    if (timeout_minutes !== undefined && (!Number.isInteger(timeout_minutes) || timeout_minutes < 1)) {
+      return res.status(400).json({ error: 'timeout_minutes must be a positive integer' });
+    }
+
+    const configError =
+      (rollout_config !== undefined ? validateRolloutConfig(rollout_config) : null) ||
+      (abort_config !== undefined ? validateAbortConfig(abort_config) : null);
+    if (configError) {
+      return res.status(400).json({ error: configError });
+    }
+
     // If using template, fetch the template
     let finalJobDocument = job_document;
     if (template_id && !job_document) {
@@ -305,17 +342,29 @@ router.post('/jobs/execute', async (req: Request, res: Response) => {
         'SELECT uuid FROM devices WHERE is_active = true'
       );
       deviceUuids = devicesResult.rows.map((row: any) => row.uuid);
-    } else if (target_type === 'group' && target_filter) {
-      // Apply filter (e.g., { "device_type": "raspberry-pi" })
-      const filterKeys = Object.keys(target_filter);
-      const filterQuery = filterKeys.map((key, idx) => `${key} = $${idx + 1}`).join(' AND ');
-      const filterValues = filterKeys.map(key => target_filter[key]);
-
-      const devicesResult = await pool.query(
-        `SELECT uuid FROM devices WHERE is_active = true AND ${filterQuery}`,
-        filterValues
-      );
-      deviceUuids = devicesResult.rows.map((row: any) => row.uuid);
+    } else if (target_type === 'group') {
+      // Tag selectors (e.g., { "environment": "production", "hardware": "pi4" }),
+      // or device columns in filters saved before tags (e.g., { "device_type": "pi4" })
+      deviceUuids = await findDeviceUuidsByTargetFilter(target_filter);
+    }
+
+    // Scoped users can only target devices they control ('all' and 'group'
+    // are limited to those devices)
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_CONTROL);
+    if (scope) {
+      const controllable = new Set(scope);
+      if (target_type === 'device') {
+        const outOfScope = deviceUuids.filter((uuid) => !controllable.has(uuid));
+        if (outOfScope.length > 0) {
+          return res.status(403).json({
+            error: 'Forbidden',
+            message: 'Insufficient permissions for some target devices',
+            devices: outOfScope,
+          });
+        }
+      } else {
+        deviceUuids = deviceUuids.filter((uuid) => controllable.has(uuid));
+      }
     }
 
     if (deviceUuids.length === 0) {
@@ -329,8 +378,8 @@ router.post('/jobs/execute', async (req: Request, res: Response) => {
       `INSERT INTO job_executions (
         job_id, template_id, job_name, job_document, target_type, target_devices,
         target_filter, execution_type, schedule, max_executions, timeout_minutes,
-        total_devices, created_by
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        rollout_config, abort_config, total_devices, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
       RETURNING *`,
       [
         jobId,
@@ -344,15 +393,18 @@ router.post('/jobs/execute', async (req: Request, res: Response) => {
         schedule ? JSON.stringify(schedule) : null,
         max_executions || null,
         timeout_minutes || 60,
+        rollout_config ? JSON.stringify(rollout_config) : null,
+        abort_config ? JSON.stringify(abort_config) : null,
         deviceUuids.length,
         created_by || 'admin',
       ]
     );
 
-    // Create device job status entries
-    const deviceStatusValues = deviceUuids.map((uuid) => `('${jobId}', '${uuid}')`).join(', ');
+    // Create device job status entries (held back until dispatched)
     await pool.query(
-      `INSERT INTO device_job_status (job_id, device_uuid) VALUES ${deviceStatusValues}`
+      `INSERT INTO device_job_status (job_id, device_uuid, notified_at)
+       SELECT $1, unnest($2::uuid[]), NULL`,
+      [jobId, deviceUuids]
     );
 
     logger.info(`Created job ${jobId} for ${deviceUuids.length} devices`);
@@ -390,28 +442,16 @@ router.post('/jobs/execute', async (req: Request, res: Response) => {
       );
     }
 
-    // Send MQTT notification for real-time job delivery
-    if (mqttNotifier.connected) {
-      try {
-        for (const deviceUuid of deviceUuids) {
-          await mqttNotifier.notifyNextJob(deviceUuid, {
-            job_id: jobId,
-            job_name,
-            job_document: finalJobDocument,
-            queued_at: new Date(),
-            timeout_seconds: (timeout_minutes || 60) * 60,
-          });
-        }
-        logger.info(`Sent MQTT notifications to ${deviceUuids.length} devices`);
-      } catch (mqttError) {
-        logger.error('Failed to send MQTT notifications (HTTP fallback will work):', mqttError);
-      }
-    } else {
+    // Notify devices (all at once, or the first batch allowed by rollout_config);
+    // the job rollout controller notifies the rest as devices finish
+    const notifiedDevices = await jobRolloutController.dispatch(jobResult.rows[0]);
+    if (!mqttNotifier.connected) {
       logger.info('MQTT not connected - devices will receive jobs via HTTP polling');
     }
 
     return res.status(201).json({
       job: jobResult.rows[0],
+      notified_devices: notifiedDevices,
       message: `Job created and queued for ${deviceUuids.length} device(s)`,
     });
   } catch (error) {
@@ -425,9 +465,9 @@ router.post('/jobs/execute', async (req: Request, res: Response) => {
 
 /**
  * GET /api/v1/jobs/executions
- * List all job executions
+ * List job executions (scoped users: jobs targeting any device they can read)
  */
-router.get('/jobs/executions', async (req: Request, res: Response) => {
+router.get('/jobs/executions', hasScopedPermission(PERMISSIONS.DEVICE_READ), async (req: Request, res: Response) => {
   try {
     const { status, limit = 50, offset = 0 } = req.query;
 
@@ -435,6 +475,13 @@ router.get('/jobs/executions', async (req: Request, res: Response) => {
     const params: any[] = [];
     let paramIndex = 1;
 
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_READ);
+    if (scope) {
+      query += ` AND target_devices && $${paramIndex}::uuid[]`;
+      params.push(scope);
+      paramIndex++;
+    }
+
     if (status) {
       query += ` AND status = $${paramIndex}`;
       params.push(status);
@@ -465,21 +512,23 @@ router.get('/jobs/executions', async (req: Request, res: Response) => {
  * GET /api/v1/jobs/executions/:jobId
  * Get details of a specific job execution
  */
-router.get('/jobs/executions/:jobId', async (req: Request, res: Response) => {
+router.get('/jobs/executions/:jobId', hasScopedPermission(PERMISSIONS.DEVICE_READ), async (req: Request, res: Response) => {
   try {
     const { jobId } = req.params;
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_READ);
 
     // Get job execution
     const jobResult = await pool.query(
-      'SELECT * FROM job_executions WHERE job_id = $1',
-      [jobId]
+      `SELECT * FROM job_executions
+       WHERE job_id = $1 AND ($2::uuid[] IS NULL OR target_devices && $2::uuid[])`,
+      [jobId, scope]
     );
 
     if (jobResult.rows.length === 0) {
       return res.status(404).json({ error: 'Job execution not found' });
     }
 
-    // Get device statuses
+    // Get device statuses (scoped users only see their devices)
     const statusResult = await pool.query(
       `SELECT 
         djs.*,
@@ -487,9 +536,9 @@ router.get('/jobs/executions/:jobId', async (req: Request, res: Response) => {
         d.ip_address
        FROM device_job_status djs
        LEFT JOIN devices d ON djs.device_uuid = d.uuid
-       WHERE djs.job_id = $1
+       WHERE djs.job_id = $1 AND ($2::uuid[] IS NULL OR djs.device_uuid = ANY($2::uuid[]))
        ORDER BY djs.updated_at DESC`,
-      [jobId]
+      [jobId, scope]
     );
 
     return res.status(200).json({
@@ -507,19 +556,21 @@ router.get('/jobs/executions/:jobId', async (req: Request, res: Response) => {
 
 /**
  * POST /api/v1/jobs/executions/:jobId/cancel
- * Cancel a job execution
+ * Cancel a job execution (scoped users: only jobs whose targets they all control)
  */
-router.post('/jobs/executions/:jobId/cancel', async (req: Request, res: Response) => {
+router.post('/jobs/executions/:jobId/cancel', hasScopedPermission(PERMISSIONS.DEVICE_CONTROL), async (req: Request, res: Response) => {
   try {
     const { jobId } = req.params;
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_CONTROL);
 
     // Update job status
     const jobResult = await pool.query(
       `UPDATE job_executions 
        SET status = 'CANCELED', completed_at = CURRENT_TIMESTAMP
        WHERE job_id = $1 AND status IN ('QUEUED', 'IN_PROGRESS')
+         AND ($2::uuid[] IS NULL OR target_devices <@ $2::uuid[])
        RETURNING *`,
-      [jobId]
+      [jobId, scope]
     );
 
     if (jobResult.rows.length === 0) {
@@ -553,7 +604,7 @@ router.post('/jobs/executions/:jobId/cancel', async (req: Request, res: Response
  * GET /api/v1/devices/:uuid/jobs
  * Get jobs for a specific device
  */
-router.get('/devices/:uuid/jobs', async (req: Request, res: Response) => {
+router.get('/devices/:uuid/jobs', jwtAuth, hasPermission(PERMISSIONS.DEVICE_READ), async (req: Request, res: Response) => {
   try {
     const { uuid } = req.params;
     const { status, limit = 20, offset = 0 } = req.query;
@@ -687,11 +738,13 @@ router.get('/devices/:uuid/jobs/next', jobsAuth, async (req: Request, res: Respo
         djs.*,
         je.job_name,
         je.job_document,
-        je.schedule
+        je.schedule,
+        je.timeout_minutes
        FROM device_job_status djs
        INNER JOIN job_executions je ON djs.job_id = je.job_id
        WHERE djs.device_uuid = $1 
          AND djs.status = 'QUEUED'
+         AND djs.notified_at IS NOT NULL
          AND (
            je.schedule IS NULL 
            OR je.schedule->>'scheduled_at' IS NULL 
@@ -719,7 +772,7 @@ router.get('/devices/:uuid/jobs/next', jobsAuth, async (req: Request, res: Respo
       job_id: result.rows[0].job_id,
       job_name: result.rows[0].job_name,
       job_document: result.rows[0].job_document,
-      timeout_seconds: 3600, // Default 1 hour timeout
+      timeout_seconds: (result.rows[0].timeout_minutes || 60) * 60,
       created_at: result.rows[0].queued_at,
     });
   } catch (error) {
@@ -790,7 +843,11 @@ router.patch('/devices/:uuid/jobs/:jobId/status', deviceAuth, async (req: Reques
     }
 
     // Update job execution statistics
-    await updateJobExecutionStats(jobId);
+    try {
+      await jobRolloutController.updateStats(jobId);
+    } catch (error) {
+      logger.error('Error updating job execution stats:', error);
+    }
 
     return res.status(200).json(result.rows[0]);
   } catch (error) {
@@ -950,47 +1007,4 @@ router.delete('/jobs/:jobId', async (req: Request, res: Response) => {
   }
 });
 
-// =============================================================================
-// Helper Functions
-// =============================================================================
-
-/**
- * Update job execution statistics based on device statuses
- */
-async function updateJobExecutionStats(jobId: string): Promise<void> {
-  try {
-    const result = await pool.query(
-      `SELECT 
-        COUNT(*) FILTER (WHERE status = 'SUCCEEDED') as succeeded,
-        COUNT(*) FILTER (WHERE status = 'FAILED') as failed,
-        COUNT(*) FILTER (WHERE status = 'IN_PROGRESS') as in_progress
-       FROM device_job_status
-       WHERE job_id = $1`,
-      [jobId]
-    );
-
-    const stats = result.rows[0];
-
-    // Determine overall job status
-    let jobStatus = 'IN_PROGRESS';
-    if (stats.in_progress === '0') {
-      jobStatus = stats.failed === '0' ? 'SUCCEEDED' : 'FAILED';
-    }
-
-    await pool.query(
-      `UPDATE job_executions
-       SET 
-        succeeded_devices = $1,
-        failed_devices = $2,
-        in_progress_devices = $3,
-        status = $4::VARCHAR,
-        completed_at = CASE WHEN $4::VARCHAR IN ('SUCCEEDED', 'FAILED') THEN CURRENT_TIMESTAMP ELSE completed_at END
-       WHERE job_id = $5`,
-      [stats.succeeded, stats.failed, stats.in_progress, jobStatus, jobId]
-    );
-  } catch (error) {
-    logger.error('Error updating job execution stats:', error);
-  }
-}
-
 export default router;
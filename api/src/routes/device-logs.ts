@@ -27,10 +27,14 @@ import {
 } from '../db/models';
 import { logger } from '../utils/logger';
 import deviceAuth, { deviceAuthFromBody } from '../middleware/device-auth';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { hasPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
 
 
 export const router = express.Router();
 
+router.use('/devices/:uuid/logs', jwtAuth);
 
 
 /**
@@ -130,7 +134,7 @@ router.post('/device/:uuid/logs', deviceAuth, express.text({ type: 'application/
  * Get device logs
  * GET /api/v1/devices/:uuid/logs
  */
-router.get('/devices/:uuid/logs', async (req, res) => {
+router.get('/devices/:uuid/logs', hasPermission(PERMISSIONS.DATA_READ), async (req, res) => {
   try {
     const { uuid } = req.params;
     const serviceName = req.query.service as string | undefined;
@@ -181,7 +185,7 @@ router.get('/devices/:uuid/logs', async (req, res) => {
  * Get list of services with logs for a device
  * GET /api/v1/devices/:uuid/logs/services
  */
-router.get('/devices/:uuid/logs/services', async (req, res) => {
+router.get('/devices/:uuid/logs/services', hasPermission(PERMISSIONS.DATA_READ), async (req, res) => {
   try {
     const { uuid } = req.params;
     
@@ -17,6 +17,7 @@
  * - DELETE /api/v1/devices/:uuid/target-state - Clear device target state
  * - GET /api/v1/devices/:uuid/logs - Get device logs
  * - GET /api/v1/devices/:uuid/metrics - Get device metrics
+ * - GET /api/v1/devices/:uuid/apps/:appId/services/:serviceName/metrics - Get service metrics
  */
 
 import express from 'express';
@@ -24,7 +25,11 @@ import { query } from '../db/connection';
 import {
   DeviceModel,
   DeviceMetricsModel,
+  ServiceMetricsModel,
 } from '../db/models';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { hasPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
 
 
 export const router = express.Router();
@@ -35,9 +40,8 @@ export const router = express.Router();
  * Query params:
  * - limit: number of recent records (default 100)
  * - period: time period (30min, 6h, 12h, 24h)
- * Note: No auth required - called by dashboard, not device
  */
-router.get('/devices/:uuid/metrics', async (req, res) => {
+router.get('/devices/:uuid/metrics', jwtAuth, hasPermission(PERMISSIONS.DATA_READ), async (req, res) => {
   try {
     const { uuid } = req.params;
     const limit = parseInt(req.query.limit as string) || 100;
@@ -89,7 +93,7 @@ router.get('/devices/:uuid/metrics', async (req, res) => {
  * Get current top processes for device
  * GET /api/v1/devices/:uuid/processes
  */
-router.get('/devices/:uuid/processes', async (req, res) => {
+router.get('/devices/:uuid/processes', jwtAuth, hasPermission(PERMISSIONS.DATA_READ), async (req, res) => {
   try {
     const { uuid } = req.params;
 
@@ -121,7 +125,7 @@ router.get('/devices/:uuid/processes', async (req, res) => {
  * Get network interfaces for device
  * GET /api/v1/devices/:uuid/network-interfaces
  */
-router.get('/devices/:uuid/network-interfaces', async (req, res) => {
+router.get('/devices/:uuid/network-interfaces', jwtAuth, hasPermission(PERMISSIONS.DATA_READ), async (req, res) => {
   try {
     const { uuid } = req.params;
 
@@ -193,7 +197,7 @@ router.get('/devices/:uuid/network-interfaces', async (req, res) => {
  * Get historical process metrics for device
  * GET /api/v1/devices/:uuid/processes/history
  */
-router.get('/devices/:uuid/processes/history', async (req, res) => {
+router.get('/devices/:uuid/processes/history', jwtAuth, hasPermission(PERMISSIONS.DATA_READ), async (req, res) => {
   try {
     const { uuid } = req.params;
     const limit = parseInt(req.query.limit as string) || 50;
@@ -233,5 +237,113 @@ router.get('/devices/:uuid/processes/history', async (req, res) => {
   }
 });
 
+// Service metrics periods (device metrics periods plus longer ones)
+const SERVICE_METRICS_PERIODS_MS: Record<string, number> = {
+  '30min': 30 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '12h': 12 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+const MAX_SERVICE_METRICS_POINTS = 500;
+
+/**
+ * Get resource usage history of one service, with its OOM kills and restarts
+ * GET /api/v1/devices/:uuid/apps/:appId/services/:serviceName/metrics
+ * Query params:
+ * - period: time period (30min, 6h, 12h, 24h, 7d, 30d; default 24h)
+ * - from, to: ISO timestamps (instead of period)
+ * - points: maximum number of downsampled points (default 60, max 500)
+ */
+router.get('/devices/:uuid/apps/:appId/services/:serviceName/metrics', jwtAuth, hasPermission(PERMISSIONS.DATA_READ), async (req, res) => {
+  try {
+    const { uuid, serviceName } = req.params;
+    const appId = parseInt(req.params.appId, 10);
+    if (isNaN(appId)) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'appId must be a number'
+      });
+    }
+
+    const period = (req.query.period as string) || '24h';
+    if (!req.query.from && !SERVICE_METRICS_PERIODS_MS[period]) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: `period must be one of ${Object.keys(SERVICE_METRICS_PERIODS_MS).join(', ')}`
+      });
+    }
+
+    const endTime = req.query.to ? new Date(req.query.to as string) : new Date();
+    const startTime = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(endTime.getTime() - SERVICE_METRICS_PERIODS_MS[period]);
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime()) || startTime >= endTime) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'from and to must be ISO timestamps with from before to'
+      });
+    }
+
+    const points = Math.min(
+      Math.max(parseInt(req.query.points as string) || 60, 1),
+      MAX_SERVICE_METRICS_POINTS
+    );
+
+    const device = await DeviceModel.getByUuid(uuid);
+    if (!device) {
+      return res.status(404).json({
+        error: 'Device not found',
+        message: `Device ${uuid} not found`
+      });
+    }
+
+    const metrics = await ServiceMetricsModel.getDownsampled(uuid, appId, serviceName, startTime, endTime, points);
+
+    // OOM kills and restarts of the service in the same range
+    const eventsResult = await query(
+      `SELECT event_type, timestamp, data
+       FROM events
+       WHERE aggregate_type = 'device'
+         AND aggregate_id = $1
+         AND event_type IN ('container.oom_killed', 'container.restarted')
+         AND (data->>'app_id')::integer = $2
+         AND data->>'service_name' = $3
+         AND timestamp >= $4
+         AND timestamp <= $5
+       ORDER BY timestamp ASC`,
+      [uuid, appId, serviceName, startTime, endTime]
+    );
+    const events = eventsResult.rows.map(row => ({
+      type: row.event_type === 'container.oom_killed' ? 'oom_killed' : 'restarted',
+      timestamp: row.data.occurred_at || row.timestamp,
+      container_id: row.data.container_id,
+      restart_count: row.data.restart_count,
+      exit_code: row.data.exit_code,
+    }));
+
+    res.json({
+      device_uuid: uuid,
+      app_id: appId,
+      service_name: serviceName,
+      from: startTime.toISOString(),
+      to: endTime.toISOString(),
+      count: metrics.length,
+      metrics,
+      oom_kills: events.filter(event => event.type === 'oom_killed').length,
+      restarts: events.filter(event => event.type === 'restarted').length,
+      events,
+    });
+  } catch (error: any) {
+    console.error('Error getting service metrics:', error);
+    res.status(500).json({
+      error: 'Failed to get service metrics',
+      message: error.message
+    });
+  }
+});
+
 
 export default router;
@@ -11,15 +11,38 @@
  * - POST /api/v1/devices/:uuid/sensors - Add new sensor
  * - PUT /api/v1/devices/:uuid/sensors/:name - Update sensor
  * - DELETE /api/v1/devices/:uuid/sensors/:name - Delete sensor
+ * - POST /api/v1/devices/:uuid/sensors/:name/write - Write setpoint (Modbus, OPC-UA)
  * 
  * Health & History Endpoints:
  * - GET /api/v1/devices/:uuid/device-health - Sensor overview and status
  * - GET /api/v1/devices/:uuid/protocol-adapters/:protocol/:deviceName/history - Protocol adapter history
+ *
+ * Sensor Data Endpoints:
+ * - GET /api/v1/devices/:uuid/sensors/:name/data - Readings for one device (raw or bucketed, JSON or CSV)
+ * - GET /api/v1/sensors/:name/data?tags[key]=value - Same query across devices selected by tag
  */
 
 import express from 'express';
+import { randomUUID } from 'crypto';
 import { query } from '../db/connection';
 import { deviceSensorSync } from '../services/device-sensor-sync';
+import { findDeviceUuidsByTags } from '../services/device-tag-query';
+import {
+  SensorAggregation,
+  SENSOR_AGGREGATIONS,
+  DEFAULT_RANGE_MS,
+  DEFAULT_LIMIT,
+  MAX_LIMIT,
+  DEFAULT_MAX_POINTS,
+  parseFields,
+  parseInterval,
+  autoInterval,
+  querySensorData,
+  toCsv
+} from '../services/sensor-data-query';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { getDeviceScope, hasPermission, hasScopedPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
 import { logger } from '../utils/logger';
 
 export const router = express.Router();
@@ -30,7 +53,7 @@ export const router = express.Router();
  * 
  * Reads from device_sensors table (faster, allows filtering/sorting)
  */
-router.get('/devices/:uuid/sensors', async (req, res) => {
+router.get('/devices/:uuid/sensors', jwtAuth, hasPermission(PERMISSIONS.DEVICE_READ), async (req, res) => {
   try {
     const { uuid } = req.params;
     const { protocol } = req.query; // Optional filter by protocol
@@ -59,7 +82,7 @@ router.get('/devices/:uuid/sensors', async (req, res) => {
  * 
  * Dual-write: table + config (sync service handles both)
  */
-router.post('/devices/:uuid/sensors', async (req, res) => {
+router.post('/devices/:uuid/sensors', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid } = req.params;
     const sensorConfig = req.body;
@@ -87,7 +110,7 @@ router.post('/devices/:uuid/sensors', async (req, res) => {
     const result = await deviceSensorSync.addSensor(
       uuid,
       completeSensorConfig,
-      (req as any).user?.id || 'system'
+      String(req.user!.id)
       // deployImmediately defaults to false (draft mode)
     );
 
@@ -124,7 +147,7 @@ router.post('/devices/:uuid/sensors', async (req, res) => {
  * 
  * Dual-write: table + config (sync service handles both)
  */
-router.put('/devices/:uuid/sensors/:name', async (req, res) => {
+router.put('/devices/:uuid/sensors/:name', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid, name } = req.params;
     const updates = req.body;
@@ -134,7 +157,7 @@ router.put('/devices/:uuid/sensors/:name', async (req, res) => {
       uuid,
       name,
       updates,
-      (req as any).user?.id || 'system'
+      String(req.user!.id)
     );
 
     res.json({
@@ -166,7 +189,7 @@ router.put('/devices/:uuid/sensors/:name', async (req, res) => {
  * 
  * Dual-write: table + config (sync service handles both)
  */
-router.delete('/devices/:uuid/sensors/:name', async (req, res) => {
+router.delete('/devices/:uuid/sensors/:name', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid, name } = req.params;
 
@@ -174,7 +197,7 @@ router.delete('/devices/:uuid/sensors/:name', async (req, res) => {
     const result = await deviceSensorSync.deleteSensor(
       uuid,
       name,
-      (req as any).user?.id || 'system'
+      String(req.user!.id)
     );
 
     res.json({
@@ -199,6 +222,98 @@ router.delete('/devices/:uuid/sensors/:name', async (req, res) => {
   }
 });
 
+/**
+ * Write a value to a sensor register / node (setpoint, coil)
+ * POST /api/v1/devices/:uuid/sensors/:name/write
+ *
+ * Body: { register?: string, nodeId?: string, value: number | boolean | string, verify?: boolean }
+ *
+ * The command is sent to the agent over MQTT (iot/device/{uuid}/endpoints/write).
+ * The agent validates writability/range, writes, reads back and acknowledges on
+ * iot/device/{uuid}/agent/write-ack with the same commandId.
+ */
+router.post('/devices/:uuid/sensors/:name/write', jwtAuth, hasPermission(PERMISSIONS.DEVICE_CONTROL), async (req, res) => {
+  try {
+    const { uuid, name } = req.params;
+    const { register, nodeId, value, verify } = req.body || {};
+
+    if (!register && !nodeId) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'register or nodeId is required'
+      });
+    }
+
+    if (value === undefined || value === null || !['number', 'boolean', 'string'].includes(typeof value)) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'value must be a number, boolean or string'
+      });
+    }
+
+    const sensors = await deviceSensorSync.getSensors(uuid);
+    const sensor = sensors.find((s: any) => s.name === name);
+    if (!sensor) {
+      return res.status(404).json({
+        error: 'Sensor not found',
+        message: `Sensor ${name} not found on device ${uuid}`
+      });
+    }
+
+    if (!['modbus', 'opcua'].includes(sensor.protocol)) {
+      return res.status(422).json({
+        error: 'Write not supported',
+        message: `Protocol ${sensor.protocol} does not support writes`
+      });
+    }
+
+    const { getMqttManager } = require('../mqtt');
+    const mqttManager = getMqttManager();
+    if (!mqttManager || !mqttManager.isConnected()) {
+      return res.status(503).json({
+        error: 'MQTT unavailable',
+        message: 'Cannot send write command to device'
+      });
+    }
+
+    const commandId = randomUUID();
+    await mqttManager.publish(
+      `iot/device/${uuid}/endpoints/write`,
+      JSON.stringify({
+        commandId,
+        deviceName: name,
+        register,
+        nodeId,
+        value,
+        verify: verify !== false,
+        requestedBy: req.user!.id,
+        timestamp: new Date().toISOString()
+      }),
+      1
+    );
+
+    logger.info('Sent sensor write command', {
+      deviceUuid: uuid,
+      sensor: name,
+      register: register || nodeId,
+      commandId,
+      requestedBy: req.user!.username
+    });
+
+    res.status(202).json({
+      status: 'accepted',
+      message: 'Write command sent to device',
+      commandId
+    });
+  } catch (error: any) {
+    logger.error('Error sending sensor write command:', error);
+    res.status(500).json({
+      error: 'Failed to send write command',
+      message: error.message
+    });
+  }
+});
+
 // ============================================================================
 // Health Monitoring & Historical Data
 // ============================================================================
@@ -208,7 +323,7 @@ router.delete('/devices/:uuid/sensors/:name', async (req, res) => {
  * Shows configured sensors with protocol breakdown
  * GET /api/v1/devices/:uuid/device-health
  */
-router.get('/devices/:uuid/device-health', async (req, res) => {
+router.get('/devices/:uuid/device-health', jwtAuth, hasPermission(PERMISSIONS.DEVICE_READ), async (req, res) => {
   try {
     const { uuid } = req.params;
     const { protocolType } = req.query;
@@ -279,7 +394,7 @@ router.get('/devices/:uuid/device-health', async (req, res) => {
  * GET /api/v1/devices/:uuid/protocol-adapters/:protocol/:deviceName/history
  * Query params: ?hours=24 (default)
  */
-router.get('/devices/:uuid/protocol-adapters/:protocol/:deviceName/history', async (req, res) => {
+router.get('/devices/:uuid/protocol-adapters/:protocol/:deviceName/history', jwtAuth, hasPermission(PERMISSIONS.DEVICE_READ), async (req, res) => {
   try {
     const { uuid, protocol, deviceName } = req.params;
     const hours = parseInt(req.query.hours as string) || 24;
@@ -320,6 +435,192 @@ router.get('/devices/:uuid/protocol-adapters/:protocol/:deviceName/history', asy
   }
 });
 
+// ============================================================================
+// Sensor Data (readings stored by the MQTT sensor handler)
+// ============================================================================
+
+/**
+ * Parse the shared sensor data query params.
+ * Returns an error message, or the options and the resolved bucket interval.
+ */
+function parseSensorDataParams(queryParams: any): { error: string } | {
+  from: Date;
+  to: Date;
+  fields?: string[];
+  aggregation?: SensorAggregation;
+  intervalSeconds?: number;
+  limit: number;
+  offset: number;
+  format: 'json' | 'csv';
+} {
+  const to = queryParams.to ? new Date(queryParams.to) : new Date();
+  const from = queryParams.from ? new Date(queryParams.from) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return { error: 'from and to must be ISO 8601 timestamps' };
+  }
+  if (from >= to) {
+    return { error: 'from must be before to' };
+  }
+
+  const { fields, error: fieldError } = parseFields(queryParams.fields);
+  if (fieldError) {
+    return { error: fieldError };
+  }
+
+  const aggregation = queryParams.agg as SensorAggregation | undefined;
+  if (aggregation && !SENSOR_AGGREGATIONS.includes(aggregation)) {
+    return { error: `agg must be one of: ${SENSOR_AGGREGATIONS.join(', ')}` };
+  }
+  if (aggregation && !fields) {
+    return { error: 'fields are required when agg is set' };
+  }
+
+  let intervalSeconds: number | undefined;
+  if (aggregation) {
+    const interval = (queryParams.interval as string) || 'auto';
+    if (interval === 'auto') {
+      const points = parseInt(queryParams.points as string) || DEFAULT_MAX_POINTS;
+      intervalSeconds = autoInterval(from, to, points);
+    } else {
+      const parsed = parseInterval(interval);
+      if (!parsed) {
+        return { error: 'interval must be auto or a duration such as 30s, 5m, 1h, 1d' };
+      }
+      intervalSeconds = parsed;
+    }
+  } else if (queryParams.interval) {
+    return { error: 'interval requires agg' };
+  }
+
+  const limit = Math.min(parseInt(queryParams.limit as string) || DEFAULT_LIMIT, MAX_LIMIT);
+  const offset = Math.max(parseInt(queryParams.offset as string) || 0, 0);
+
+  const format = queryParams.format === 'csv' ? 'csv' : 'json';
+
+  return { from, to, fields, aggregation, intervalSeconds, limit, offset, format };
+}
+
+/**
+ * Run a sensor data query and send it as JSON or CSV
+ */
+async function sendSensorData(
+  res: express.Response,
+  sensorName: string,
+  deviceUuids: string[],
+  params: Exclude<ReturnType<typeof parseSensorDataParams>, { error: string }>
+) {
+  const { rows, hasMore } = await querySensorData({
+    deviceUuids,
+    sensorName,
+    from: params.from,
+    to: params.to,
+    fields: params.fields,
+    aggregation: params.aggregation,
+    intervalSeconds: params.intervalSeconds,
+    limit: params.limit,
+    offset: params.offset
+  });
+
+  if (params.format === 'csv') {
+    const filename = `${sensorName.replace(/[^A-Za-z0-9_\-]/g, '_')}-data.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    if (hasMore) {
+      res.setHeader('X-Next-Offset', String(params.offset + params.limit));
+    }
+    return res.send(toCsv(rows, params.fields));
+  }
+
+  res.json({
+    sensorName,
+    deviceUuids,
+    from: params.from,
+    to: params.to,
+    fields: params.fields || null,
+    aggregation: params.aggregation || null,
+    intervalSeconds: params.intervalSeconds || null,
+    count: rows.length,
+    pagination: {
+      limit: params.limit,
+      offset: params.offset,
+      hasMore,
+      nextOffset: hasMore ? params.offset + params.limit : null
+    },
+    data: rows
+  });
+}
+
+/**
+ * Get sensor readings for a device
+ * GET /api/v1/devices/:uuid/sensors/:name/data
+ *
+ * Query params:
+ * - from, to: ISO 8601 range (default: last 24 hours)
+ * - fields: comma-separated dot paths into the reading (default: whole reading)
+ * - agg: avg | min | max | last | count (requires fields, omit for raw readings)
+ * - interval: auto (default) or 30s, 5m, 1h, 1d bucket size when agg is set
+ * - points: target bucket count for interval=auto (default 500)
+ * - limit (default 1000, max 10000), offset: pagination over readings or buckets
+ * - format: json (default) or csv
+ */
+router.get('/devices/:uuid/sensors/:name/data', jwtAuth, hasPermission(PERMISSIONS.DATA_READ), async (req, res) => {
+  try {
+    const { uuid, name } = req.params;
+
+    const params = parseSensorDataParams(req.query);
+    if ('error' in params) {
+      return res.status(400).json({ error: 'Invalid query', message: params.error });
+    }
+
+    await sendSensorData(res, name, [uuid], params);
+  } catch (error: any) {
+    logger.error('Error querying sensor data:', error);
+    res.status(500).json({
+      error: 'Failed to query sensor data',
+      message: error.message
+    });
+  }
+});
+
+/**
+ * Get sensor readings across devices selected by tag
+ * GET /api/v1/sensors/:name/data?tags[location]=plant-1&tags[env]=prod
+ *
+ * Same query params as the single-device endpoint. Tag selectors use AND logic.
+ * Scoped users only get readings of devices they can read data of.
+ */
+router.get('/sensors/:name/data', jwtAuth, hasScopedPermission(PERMISSIONS.DATA_READ), async (req, res) => {
+  try {
+    const { name } = req.params;
+    const tags = req.query.tags;
+
+    if (!tags || typeof tags !== 'object' || Array.isArray(tags) || Object.keys(tags).length === 0
+      || Object.values(tags).some(value => typeof value !== 'string')) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        message: 'tags selector is required, e.g. ?tags[location]=plant-1'
+      });
+    }
+
+    const params = parseSensorDataParams(req.query);
+    if ('error' in params) {
+      return res.status(400).json({ error: 'Invalid query', message: params.error });
+    }
+
+    const scope = await getDeviceScope(req, PERMISSIONS.DATA_READ);
+    const deviceUuids = (await findDeviceUuidsByTags(tags as Record<string, string>))
+      .filter((uuid) => !scope || scope.includes(uuid));
+
+    await sendSensorData(res, name, deviceUuids, params);
+  } catch (error: any) {
+    logger.error('Error querying sensor data by tags:', error);
+    res.status(500).json({
+      error: 'Failed to query sensor data',
+      message: error.message
+    });
+  }
+});
+
 // ============================================================================
 // Legacy/Commented Code (Kept for Reference)
 // ============================================================================
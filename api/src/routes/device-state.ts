@@ -14,12 +14,14 @@
  * - POST /api/v1/devices/:uuid/target-state - Set device target state
  * - PUT /api/v1/devices/:uuid/target-state - Update device target state
  * - GET /api/v1/devices/:uuid/current-state - Get device current state
+ * - GET /api/v1/devices/:uuid/compose - Export device apps as docker-compose YAML
  * - DELETE /api/v1/devices/:uuid/target-state - Clear device target state
  * - GET /api/v1/devices/:uuid/logs - Get device logs
  * - GET /api/v1/devices/:uuid/metrics - Get device metrics
  */
 
 import express from 'express';
+import crypto from 'crypto';
 import { query } from '../db/connection';
 import {
   DeviceModel,
@@ -31,7 +33,18 @@ import {
 import { EventPublisher, objectsAreEqual } from '../services/event-sourcing';
 import EventSourcingConfig from '../events/event-sourcing';
 import deviceAuth, { deviceAuthFromBody } from '../middleware/device-auth';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { hasPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
 import { resolveAppsImages } from '../services/docker-registry';
+import {
+  getRegistryCredentialsMap,
+  getRegistryCredentialsForApps,
+} from '../services/registry-credentials';
+import { buildDeviceImagePolicy } from '../services/image-signing';
+import { buildDeviceMaintenanceWindows } from '../services/maintenance-windows';
+import { validateTargetStateApps, validateTargetStateConfig } from '../services/target-state-validation';
+import { exportCompose } from '../services/compose-converter';
 import { deviceSensorSync } from '../services/device-sensor-sync';
 import { processDeviceStateReport } from '../services/device-state-handler';
 import logger from '../utils/logger';
@@ -77,8 +90,29 @@ router.get('/device/:uuid/state', deviceAuth, async (req, res) => {
       return res.set('ETag', etag).json(emptyState);
     }
 
-    // Generate ETag
-    const etag = DeviceTargetStateModel.generateETag(targetState);
+    const apps = typeof targetState.apps === 'string'
+      ? JSON.parse(targetState.apps as any)
+      : targetState.apps;
+    const config = typeof targetState.config === 'string'
+      ? JSON.parse(targetState.config as any)
+      : targetState.config || {};
+
+    // Pull credentials for the registries this device's images come from
+    // (always sent so the agent drops credentials that were removed)
+    const registries = await getRegistryCredentialsForApps(apps);
+
+    // Image signature policy (signatures for approved, digest-pinned images)
+    const imagePolicy = await buildDeviceImagePolicy(apps, config);
+
+    // Maintenance windows for this device and its tags (always sent, empty = any time)
+    const maintenanceWindows = await buildDeviceMaintenanceWindows(uuid);
+
+    // Generate ETag (delivered credentials, signatures and windows are part of it,
+    // so rotated passwords, approval and window changes reach the device)
+    const deliveredHash = crypto.createHash('sha1')
+      .update(JSON.stringify({ registries, imagePolicy, maintenanceWindows }))
+      .digest('hex');
+    const etag = `${DeviceTargetStateModel.generateETag(targetState)}.${deliveredHash.substring(0, 12)}`;
     
     logger.debug('Target state details', {
       deviceId: uuid.substring(0, 8),
@@ -93,12 +127,13 @@ router.get('/device/:uuid/state', deviceAuth, async (req, res) => {
     // Prepare response payload (we'll use this for both 200 and 304 size tracking)
     const response = {
       [uuid]: {
-        apps: typeof targetState.apps === 'string' 
-          ? JSON.parse(targetState.apps as any) 
-          : targetState.apps,
-        config: typeof targetState.config === 'string'
-          ? JSON.parse(targetState.config as any)
-          : targetState.config || {},
+        apps,
+        config: {
+          ...config,
+          registries,
+          imagePolicy,
+          maintenanceWindows,
+        },
         version: targetState.version,
         needs_deployment: targetState.needs_deployment || false,
         last_deployed_at: targetState.last_deployed_at || null
@@ -350,12 +385,28 @@ router.post('/devices/:uuid/target-state', deviceAuth, async (req, res) => {
       });
     }
 
+    const validationError = validateTargetStateApps(apps);
+    if (validationError) {
+      return res.status(400).json({
+        error: 'Invalid service configuration',
+        message: validationError
+      });
+    }
+
+    const configError = validateTargetStateConfig(config);
+    if (configError) {
+      return res.status(400).json({
+        error: 'Invalid device configuration',
+        message: configError
+      });
+    }
+
     // 🎯 RESOLVE IMAGE DIGESTS
     // Convert all :latest and floating tags to @sha256:... digests
     // This enables automatic updates when new images are pushed
     logger.debug('Resolving image digests (POST)', { deviceId: uuid.substring(0, 8) });
     try {
-      apps = await resolveAppsImages(apps);
+      apps = await resolveAppsImages(apps, await getRegistryCredentialsMap());
     } catch (error: any) {
       logger.warn('Digest resolution failed, continuing with tag-based references (POST)', {
         deviceId: uuid.substring(0, 8),
@@ -439,7 +490,7 @@ function normalizeAppsFormat(apps: any): Record<number, any> {
  * - Array: [{ appId: 1, appName: "app1", ... }, ...]
  * - Object: { 1: { appId: 1, appName: "app1", ... }, ... }
  */
-router.put('/devices/:uuid/target-state', async (req, res) => {
+router.put('/devices/:uuid/target-state', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid } = req.params;
     let { apps, config } = req.body;
@@ -461,11 +512,27 @@ router.put('/devices/:uuid/target-state', async (req, res) => {
       });
     }
 
+    const validationError = validateTargetStateApps(apps);
+    if (validationError) {
+      return res.status(400).json({
+        error: 'Invalid service configuration',
+        message: validationError
+      });
+    }
+
+    const configError = validateTargetStateConfig(config);
+    if (configError) {
+      return res.status(400).json({
+        error: 'Invalid device configuration',
+        message: configError
+      });
+    }
+
     // 🎯 RESOLVE IMAGE DIGESTS
     // Convert all :latest and floating tags to @sha256:... digests
     logger.debug('Resolving image digests (PUT)', { deviceId: uuid.substring(0, 8) });
     try {
-      apps = await resolveAppsImages(apps);
+      apps = await resolveAppsImages(apps, await getRegistryCredentialsMap());
     } catch (error: any) {
       logger.warn('Digest resolution failed, continuing with tag-based references (PUT)', {
         deviceId: uuid.substring(0, 8),
@@ -528,7 +595,7 @@ router.put('/devices/:uuid/target-state', async (req, res) => {
  * Get device current state
  * GET /api/v1/devices/:uuid/current-state
  */
-router.get('/devices/:uuid/current-state', async (req, res) => {
+router.get('/devices/:uuid/current-state', jwtAuth, hasPermission(PERMISSIONS.DEVICE_READ), async (req, res) => {
   try {
     const { uuid } = req.params;
     const currentState = await DeviceCurrentStateModel.get(uuid);
@@ -559,6 +626,75 @@ router.get('/devices/:uuid/current-state', async (req, res) => {
   }
 });
 
+/**
+ * Export device apps as docker-compose YAML (for local reproduction)
+ * GET /api/v1/devices/:uuid/compose
+ *
+ * Query params:
+ * - state: target (default) | current
+ * - appId: app to export (required when the device runs more than one app)
+ */
+router.get('/devices/:uuid/compose', jwtAuth, hasPermission(PERMISSIONS.DEVICE_READ), async (req, res) => {
+  try {
+    const { uuid } = req.params;
+    const stateType = (req.query.state as string) || 'target';
+
+    if (stateType !== 'target' && stateType !== 'current') {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'state must be target or current'
+      });
+    }
+
+    const state = stateType === 'target'
+      ? await DeviceTargetStateModel.get(uuid)
+      : await DeviceCurrentStateModel.get(uuid);
+
+    if (!state) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `Device ${uuid} has no ${stateType} state`
+      });
+    }
+
+    const apps: Record<string, any> = typeof state.apps === 'string' ? JSON.parse(state.apps as any) : state.apps || {};
+    const appIds = Object.keys(apps);
+    const appId = req.query.appId as string | undefined;
+
+    if (!appId && appIds.length !== 1) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: appIds.length === 0
+          ? `Device ${uuid} has no apps in its ${stateType} state`
+          : `Device runs ${appIds.length} apps, pass appId (one of: ${appIds.join(', ')})`
+      });
+    }
+
+    const app = apps[appId || appIds[0]];
+    if (!app) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `App ${appId} not found in ${stateType} state of device ${uuid}`
+      });
+    }
+
+    const filename = `${(app.appName || `app-${appId || appIds[0]}`).replace(/[^A-Za-z0-9_\-]/g, '_')}-docker-compose.yml`;
+    res.setHeader('Content-Type', 'application/yaml; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(exportCompose(app));
+  } catch (error: any) {
+    logger.error('Error exporting compose file', {
+      error: error.message,
+      stack: error.stack,
+      deviceId: req.params.uuid
+    });
+    res.status(500).json({
+      error: 'Failed to export compose file',
+      message: error.message
+    });
+  }
+});
+
 /**
  * Clear device target state
  * DELETE /api/v1/devices/:uuid/target-state
@@ -13,6 +13,7 @@ import {
   DeviceQueryResponse,
   DeviceTagsResponse
 } from '../types/device-tags';
+import { findDeviceUuidsByTags } from '../services/device-tag-query';
 
 const moduleLogger = logger.child({ module: 'device-tags' });
 
@@ -268,12 +269,7 @@ router.post('/devices/query', async (req, res) => {
     }
 
     // Use the database function to find devices
-    const result = await query(
-      'SELECT * FROM find_devices_by_tags($1::jsonb)',
-      [JSON.stringify(tagSelectors)]
-    );
-
-    const deviceUuids = result.rows.map(row => row.device_uuid);
+    const deviceUuids = await findDeviceUuidsByTags(tagSelectors);
 
     // If no devices found, return empty result
     if (deviceUuids.length === 0) {
@@ -24,14 +24,21 @@ import {
   AuditSeverity
 } from '../utils/audit-logger';
 import { EventPublisher } from '../services/event-sourcing';
+import { resolveAppsImages } from '../services/docker-registry';
+import { validateTargetStateApps } from '../services/target-state-validation';
+import { getRegistryCredentialsMap } from '../services/registry-credentials';
 import logger from '../utils/logger';
 import { SystemConfig } from '../config/system-config';
 import deviceAuth from '../middleware/device-auth';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { getDeviceScope, hasPermission, hasScopedPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
+import { replaceDevice } from '../services/device-replacement';
 
 export const router = express.Router();
 
 
-router.patch('/devices/:uuid', async (req, res) => {
+router.patch('/devices/:uuid', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid } = req.params;
     const { deviceName, deviceType, ipAddress, macAddress } = req.body;
@@ -106,7 +113,7 @@ router.patch('/devices/:uuid', async (req, res) => {
  * PATCH /api/v1/devices/:uuid
  * Body: { deviceName, deviceType, ipAddress, macAddress }
  */
-router.patch('/devices/:uuid', async (req, res) => {
+router.patch('/devices/:uuid', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid } = req.params;
     const { deviceName, deviceType, ipAddress, macAddress } = req.body;
@@ -180,10 +187,11 @@ const eventPublisher = new EventPublisher();
 // ============================================================================
 
 /**
- * List all devices
+ * List all devices the user can read (scoped users see only their fleets,
+ * tag selectors and devices)
  * GET /api/v1/devices
  */
-router.get('/devices', async (req, res) => {
+router.get('/devices', jwtAuth, hasScopedPermission(PERMISSIONS.DEVICE_READ), async (req, res) => {
   try {
     const isOnline = req.query.online === 'true' ? true : 
                      req.query.online === 'false' ? false : 
@@ -194,7 +202,10 @@ router.get('/devices', async (req, res) => {
     const limit = parseInt(req.query.limit as string) || 10;
     const filter = (req.query.filter as string)?.toLowerCase() || 'all';
 
-    const devices = await DeviceModel.list({ isOnline });
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_READ);
+    const visibleUuids = scope ? new Set(scope) : null;
+    const devices = (await DeviceModel.list({ isOnline }))
+      .filter(d => !visibleUuids || visibleUuids.has(d.uuid));
 
     // Apply filter based on provisioning_state or is_online
     let filteredDevices = devices;
@@ -277,7 +288,7 @@ router.get('/devices', async (req, res) => {
  * Get specific device
  * GET /api/v1/devices/:uuid
  */
-router.get('/devices/:uuid', async (req, res) => {
+router.get('/devices/:uuid', jwtAuth, hasPermission(PERMISSIONS.DEVICE_READ), async (req, res) => {
   try {
     const { uuid } = req.params;
 
@@ -348,7 +359,7 @@ router.get('/devices/:uuid', async (req, res) => {
  * - ipAddress: IP address (optional)
  * - macAddress: MAC address (optional)
  */
-router.post('/devices', async (req, res) => {
+router.post('/devices', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { deviceName, deviceType, ipAddress, macAddress } = req.body;
 
@@ -453,7 +464,7 @@ router.post('/devices', async (req, res) => {
  * Activate/deactivate device
  * PATCH /api/v1/devices/:uuid/active
  */
-router.patch('/devices/:uuid/active', async (req, res) => {
+router.patch('/devices/:uuid/active', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid } = req.params;
     const { is_active } = req.body;
@@ -507,8 +518,8 @@ router.patch('/devices/:uuid/active', async (req, res) => {
         impact: 'medium',
         actor: {
           type: 'user',
-          id: (req as any).user?.id || 'system',
-          name: (req as any).user?.email,
+          id: String(req.user!.id),
+          name: req.user!.email,
           ip_address: req.ip
         }
       }
@@ -549,6 +560,118 @@ router.patch('/devices/:uuid/active', async (req, res) => {
   }
 });
 
+/**
+ * Replace a dead device with a freshly provisioned one
+ * POST /api/v1/devices/:uuid/replace
+ * Body: { new_device_uuid }
+ *
+ * Copies target state, sensors, tags, dashboard layouts, device alert rules,
+ * broker assignment and Digital Twin space mapping to the new device, then
+ * revokes the old device's API keys and deactivates it. Needs device:write and
+ * device:delete on the old device and device:write on the new one.
+ */
+router.post('/devices/:uuid/replace', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE, PERMISSIONS.DEVICE_DELETE), async (req, res) => {
+  try {
+    const { uuid } = req.params;
+    const { new_device_uuid: newUuid } = req.body;
+
+    if (!newUuid || typeof newUuid !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'new_device_uuid is required'
+      });
+    }
+
+    if (newUuid === uuid) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'A device cannot replace itself'
+      });
+    }
+
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_WRITE);
+    if (scope && !scope.includes(newUuid)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: `Insufficient permissions for device ${newUuid}`
+      });
+    }
+
+    const [device, newDevice] = await Promise.all([
+      DeviceModel.getByUuid(uuid),
+      DeviceModel.getByUuid(newUuid),
+    ]);
+    if (!device || !newDevice) {
+      return res.status(404).json({
+        error: 'Device not found',
+        message: `Device ${!device ? uuid : newUuid} not found`
+      });
+    }
+
+    if (device.replaced_by_uuid) {
+      return res.status(409).json({
+        error: 'Device already replaced',
+        message: `Device ${uuid} was already replaced by ${device.replaced_by_uuid}`
+      });
+    }
+
+    if (!newDevice.provisioned_at) {
+      return res.status(409).json({
+        error: 'Device not provisioned',
+        message: `Device ${newUuid} must be provisioned before it can replace another device`
+      });
+    }
+
+    // Only a freshly provisioned device, so nothing configured on it is overwritten
+    const existing = await query(
+      `SELECT
+         (SELECT COUNT(*) FROM device_sensors WHERE device_uuid = $1)::int AS sensors,
+         (SELECT COALESCE((SELECT COUNT(*) FROM jsonb_object_keys(apps)), 0)
+            FROM device_target_state WHERE device_uuid = $1)::int AS apps`,
+      [newUuid]
+    );
+    if (existing.rows[0].sensors > 0 || existing.rows[0].apps > 0) {
+      return res.status(409).json({
+        error: 'Device already configured',
+        message: `Device ${newUuid} already has apps or sensors`
+      });
+    }
+
+    const summary = await replaceDevice(uuid, newUuid, newDevice.device_name || null, {
+      type: 'user',
+      id: String(req.user!.id),
+      name: req.user!.email,
+      ip_address: req.ip
+    });
+
+    await logAuditEvent({
+      eventType: AuditEventType.DEVICE_REPLACED,
+      deviceUuid: uuid,
+      userId: String(req.user!.id),
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      severity: AuditSeverity.WARNING,
+      details: { replacedBy: newUuid, warnings: summary.warnings }
+    });
+
+    res.json({
+      status: 'ok',
+      message: `Device ${device.device_name || uuid} replaced by ${newDevice.device_name || newUuid}`,
+      replacement: summary
+    });
+  } catch (error: any) {
+    logger.error('Error replacing device', {
+      error: error.message,
+      stack: error.stack,
+      deviceId: req.params.uuid
+    });
+    res.status(500).json({
+      error: 'Failed to replace device',
+      message: error.message
+    });
+  }
+});
+
 /**
  * Delete device (deprovision/factory reset)
  * DELETE /api/v1/devices/:uuid
@@ -614,7 +737,7 @@ router.delete('/devices/:uuid', deviceAuth, async (req, res) => {
  * 
  * This copies the app template and deploys with device-specific configuration
  */
-router.post('/devices/:uuid/apps', async (req, res) => {
+router.post('/devices/:uuid/apps', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid } = req.params;
     const { appId, appName, services } = req.body;
@@ -688,7 +811,7 @@ router.post('/devices/:uuid/apps', async (req, res) => {
               appName: appNameToUse,
               imageName: service.image 
             }),
-            req.headers['x-user-id'] || 'system'
+            String(req.user!.id)
           ]
         );
 
@@ -716,8 +839,16 @@ router.post('/devices/:uuid/apps', async (req, res) => {
       }
     };
 
+    const validationError = validateTargetStateApps(newApps);
+    if (validationError) {
+      return res.status(400).json({
+        error: 'Invalid service configuration',
+        message: validationError
+      });
+    }
+
     // Update target state
-    await DeviceTargetStateModel.set(uuid, newApps, currentTarget?.config || {});
+    await DeviceTargetStateModel.set(uuid, await resolveTargetApps(uuid, newApps), currentTarget?.config || {});
 
     logger.info('App deployed to device', {
       deviceId: uuid.substring(0, 8),
@@ -755,7 +886,7 @@ router.post('/devices/:uuid/apps', async (req, res) => {
  * 
  * Body: { services: [...] } - replaces services for this app
  */
-router.patch('/devices/:uuid/apps/:appId', async (req, res) => {
+router.patch('/devices/:uuid/apps/:appId', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid, appId: appIdStr } = req.params;
     const { appName, services } = req.body;
@@ -835,8 +966,16 @@ router.patch('/devices/:uuid/apps/:appId', async (req, res) => {
       currentApps[appId].appName = appName;
     }
 
+    const validationError = validateTargetStateApps(currentApps);
+    if (validationError) {
+      return res.status(400).json({
+        error: 'Invalid service configuration',
+        message: validationError
+      });
+    }
+
     // Save updated state
-    await DeviceTargetStateModel.set(uuid, currentApps, currentTarget.config || {});
+    await DeviceTargetStateModel.set(uuid, await resolveTargetApps(uuid, currentApps), currentTarget.config || {});
 
     logger.info('App updated on device', {
       deviceId: uuid.substring(0, 8),
@@ -872,7 +1011,7 @@ router.patch('/devices/:uuid/apps/:appId', async (req, res) => {
  * Remove app from device
  * DELETE /api/v1/devices/:uuid/apps/:appId
  */
-router.delete('/devices/:uuid/apps/:appId', async (req, res) => {
+router.delete('/devices/:uuid/apps/:appId', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid, appId: appIdStr } = req.params;
 
@@ -907,8 +1046,16 @@ router.delete('/devices/:uuid/apps/:appId', async (req, res) => {
     // Remove app from target state
     delete currentApps[appId];
 
+    const validationError = validateTargetStateApps(currentApps);
+    if (validationError) {
+      return res.status(400).json({
+        error: 'Invalid service configuration',
+        message: validationError
+      });
+    }
+
     // Save updated state
-    await DeviceTargetStateModel.set(uuid, currentApps, currentTarget.config || {});
+    await DeviceTargetStateModel.set(uuid, await resolveTargetApps(uuid, currentApps), currentTarget.config || {});
 
     logger.info('App removed from device', {
       deviceId: uuid.substring(0, 8),
@@ -938,13 +1085,46 @@ router.delete('/devices/:uuid/apps/:appId', async (req, res) => {
   }
 });
 
+/**
+ * Resolve image tags to digests before storing apps in the target state.
+ * Best-effort: on failure the apps are stored with their tag references.
+ */
+async function resolveTargetApps(uuid: string, apps: Record<string, any>): Promise<Record<string, any>> {
+  try {
+    return await resolveAppsImages(apps, await getRegistryCredentialsMap());
+  } catch (error: any) {
+    logger.warn('Digest resolution failed, continuing with tag-based references', {
+      deviceId: uuid.substring(0, 8),
+      error: error.message
+    });
+    return apps;
+  }
+}
+
+/**
+ * Pin every service image to the digest its tag points at right now, so the
+ * device runs exactly what was deployed even if the tag moves later.
+ * Best-effort: unresolvable images keep their current reference.
+ */
+async function pinTargetStateImages(uuid: string, targetState: any): Promise<void> {
+  try {
+    const apps = await resolveAppsImages(targetState.apps || {}, await getRegistryCredentialsMap());
+    await DeviceTargetStateModel.set(uuid, apps, targetState.config || {}, true);
+  } catch (error: any) {
+    logger.warn('Digest pinning failed, deploying tag-based references', {
+      deviceId: uuid.substring(0, 8),
+      error: error.message
+    });
+  }
+}
+
 /**
  * Deploy specific app to device
  * POST /api/v1/devices/:uuid/apps/:appId/deploy
  * 
  * Deploys a specific app by incrementing version
  */
-router.post('/devices/:uuid/apps/:appId/deploy', async (req, res) => {
+router.post('/devices/:uuid/apps/:appId/deploy', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid, appId: appIdStr } = req.params;
     const deployedBy = req.body.deployedBy || 'dashboard';
@@ -991,6 +1171,8 @@ router.post('/devices/:uuid/apps/:appId/deploy', async (req, res) => {
 
     const appName = currentApps[appId].appName;
 
+    await pinTargetStateImages(uuid, currentTarget);
+
     // Deploy target state (increments version so device picks up changes)
     const deployedState = await DeviceTargetStateModel.deploy(uuid, deployedBy);
 
@@ -1044,7 +1226,7 @@ router.post('/devices/:uuid/apps/:appId/deploy', async (req, res) => {
  * 
  * Increments version so device will pick up changes
  */
-router.post('/devices/:uuid/deploy', async (req, res) => {
+router.post('/devices/:uuid/deploy', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid } = req.params;
     const deployedBy = req.body.deployedBy || 'dashboard';
@@ -1080,6 +1262,8 @@ router.post('/devices/:uuid/deploy', async (req, res) => {
       });
     }
 
+    await pinTargetStateImages(uuid, currentTarget);
+
     // Deploy target state (increments version)
     const deployedState = await DeviceTargetStateModel.deploy(uuid, deployedBy);
 
@@ -1132,7 +1316,7 @@ router.post('/devices/:uuid/deploy', async (req, res) => {
  * Resets needs_deployment flag without changing version
  * Discards pending changes and reverts to last deployed state
  */
-router.post('/devices/:uuid/deploy/cancel', async (req, res) => {
+router.post('/devices/:uuid/deploy/cancel', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid } = req.params;
 
@@ -1241,7 +1425,7 @@ router.post('/devices/:uuid/deploy/cancel', async (req, res) => {
  * 
  * Notifies device via shadow delta to reconnect to new broker
  */
-router.put('/devices/:uuid/broker', async (req, res) => {
+router.put('/devices/:uuid/broker', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req, res) => {
   try {
     const { uuid } = req.params;
     const { brokerId } = req.body;
@@ -1439,7 +1623,7 @@ router.put('/devices/:uuid/broker', async (req, res) => {
  * POST /api/v1/devices/:uuid/update-agent
  * Body: { version, scheduled_time?, force? }
  */
-router.post('/devices/:uuid/update-agent', async (req, res) => {
+router.post('/devices/:uuid/update-agent', jwtAuth, hasPermission(PERMISSIONS.DEVICE_CONTROL), async (req, res) => {
   try {
     const { uuid } = req.params;
     const { version, scheduled_time, force = false } = req.body;
@@ -8,6 +8,15 @@
 import express, { Request, Response } from 'express';
 import poolWrapper from '../db/connection';
 import { EventPublisher } from '../services/event-sourcing';
+import {
+  listRegistryCredentials,
+  upsertRegistryCredential,
+  deleteRegistryCredential,
+} from '../services/registry-credentials';
+import { getImageSigningPublicKey, isImageSigningConfigured } from '../services/image-signing';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { hasPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
 
 const router = express.Router();
 const pool = poolWrapper.pool;
@@ -103,6 +112,33 @@ router.get('/images/categories', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/v1/images/signing-key
+ * Platform public key that image signatures are verified against
+ * (set as IMAGE_SIGNING_PUBLIC_KEY on agents to pin it)
+ */
+router.get('/images/signing-key', async (req: Request, res: Response) => {
+  if (!isImageSigningConfigured()) {
+    return res.status(404).json({
+      error: 'Not configured',
+      message: 'Image signing is not enabled (IMAGE_SIGNING_PRIVATE_KEY not set)',
+    });
+  }
+
+  try {
+    return res.status(200).json({
+      algorithm: 'ed25519',
+      publicKey: getImageSigningPublicKey(),
+    });
+  } catch (error) {
+    console.error('Error loading image signing key:', error);
+    return res.status(500).json({
+      error: 'Failed to load image signing key',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 /**
  * GET /api/v1/images/:id
  * Get image details with all tags
@@ -599,4 +635,102 @@ router.get('/images/security/summary', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/v1/registries/credentials
+ * List private registry credentials (passwords are never returned)
+ */
+router.get('/registries/credentials', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_READ), async (req: Request, res: Response) => {
+  try {
+    const credentials = await listRegistryCredentials();
+    return res.status(200).json({ credentials, count: credentials.length });
+  } catch (error) {
+    console.error('Error listing registry credentials:', error);
+    return res.status(500).json({
+      error: 'Failed to list registry credentials',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * PUT /api/v1/registries/credentials/:registry
+ * Create or replace pull credentials for a registry (e.g. docker.io, ghcr.io,
+ * registry.example.com:5000). Delivered to devices running images from it.
+ */
+router.put('/registries/credentials/:registry', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_WRITE), async (req: Request, res: Response) => {
+  try {
+    const { registry } = req.params;
+    const { username, password, description } = req.body;
+
+    if (!username || typeof username !== 'string') {
+      return res.status(400).json({ error: 'Invalid request', message: 'username is required' });
+    }
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Invalid request', message: 'password is required' });
+    }
+    if (!/^[a-z0-9.-]+(:\d+)?$/i.test(registry)) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'registry must be a host name with optional port',
+      });
+    }
+
+    const credential = await upsertRegistryCredential(
+      registry,
+      username,
+      password,
+      description ?? null,
+      String(req.user!.id)
+    );
+
+    await eventPublisher.publish(
+      'image.registry.credentials_updated',
+      'registry',
+      credential.registry,
+      { username }
+    );
+
+    return res.status(200).json(credential);
+  } catch (error) {
+    console.error('Error saving registry credentials:', error);
+    return res.status(500).json({
+      error: 'Failed to save registry credentials',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/v1/registries/credentials/:registry
+ * Remove pull credentials for a registry
+ */
+router.delete('/registries/credentials/:registry', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_WRITE), async (req: Request, res: Response) => {
+  try {
+    const { registry } = req.params;
+
+    const deleted = await deleteRegistryCredential(registry);
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `No credentials stored for registry ${registry}`,
+      });
+    }
+
+    await eventPublisher.publish(
+      'image.registry.credentials_deleted',
+      'registry',
+      registry,
+      {}
+    );
+
+    return res.status(200).json({ message: 'Registry credentials deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting registry credentials:', error);
+    return res.status(500).json({
+      error: 'Failed to delete registry credentials',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 export default router;
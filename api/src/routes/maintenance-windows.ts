@@ -0,0 +1,174 @@
+/**
+ * Maintenance Windows Routes
+ * Manage the windows during which devices may apply disruptive app updates
+ *
+ * - GET    /api/v1/maintenance-windows - List windows (?device_uuid= for a device's own)
+ * - POST   /api/v1/maintenance-windows - Create a window
+ * - PUT    /api/v1/maintenance-windows/:id - Update a window
+ * - DELETE /api/v1/maintenance-windows/:id - Delete a window
+ * - GET    /api/v1/devices/:uuid/maintenance-windows - Windows that apply to a device
+ */
+
+import express, { Request, Response } from 'express';
+import { query } from '../db/connection';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { hasPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
+import {
+  MaintenanceWindowInput,
+  createMaintenanceWindow,
+  deleteMaintenanceWindow,
+  getDeviceMaintenanceWindows,
+  listMaintenanceWindows,
+  updateMaintenanceWindow,
+  validateMaintenanceWindowInput,
+} from '../services/maintenance-windows';
+import logger from '../utils/logger';
+
+const moduleLogger = logger.child({ module: 'maintenance-windows' });
+
+export const router = express.Router();
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * GET /api/v1/maintenance-windows
+ * List maintenance windows
+ */
+router.get('/maintenance-windows', jwtAuth, hasPermission(PERMISSIONS.DEVICE_READ), async (req: Request, res: Response) => {
+  try {
+    const deviceUuid = typeof req.query.device_uuid === 'string' ? req.query.device_uuid : undefined;
+    const windows = await listMaintenanceWindows(deviceUuid);
+    return res.json({ windows, count: windows.length });
+  } catch (error: any) {
+    moduleLogger.error('Error listing maintenance windows', { error: error.message });
+    return res.status(500).json({
+      error: 'Failed to list maintenance windows',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/v1/devices/:uuid/maintenance-windows
+ * Enabled windows that apply to a device (its own and tag-matched)
+ */
+router.get('/devices/:uuid/maintenance-windows', jwtAuth, hasPermission(PERMISSIONS.DEVICE_READ), async (req: Request, res: Response) => {
+  try {
+    const { uuid } = req.params;
+
+    const deviceResult = await query('SELECT uuid FROM devices WHERE uuid = $1', [uuid]);
+    if (deviceResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Device not found',
+        message: `Device ${uuid} not found`,
+      });
+    }
+
+    const windows = await getDeviceMaintenanceWindows(uuid);
+    return res.json({ deviceUuid: uuid, windows, count: windows.length });
+  } catch (error: any) {
+    moduleLogger.error('Error fetching device maintenance windows', {
+      error: error.message,
+      deviceUuid: req.params.uuid,
+    });
+    return res.status(500).json({
+      error: 'Failed to fetch device maintenance windows',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/v1/maintenance-windows
+ * Create a maintenance window for a device or a tag selector
+ */
+router.post('/maintenance-windows', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req: Request, res: Response) => {
+  try {
+    const input = req.body as MaintenanceWindowInput;
+    const validationError = validateMaintenanceWindowInput(input);
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid request', message: validationError });
+    }
+
+    const window = await createMaintenanceWindow(input, req.user!.username);
+
+    moduleLogger.info('Maintenance window created', {
+      id: window.id,
+      deviceUuid: window.device_uuid,
+      tagSelector: window.tag_selector,
+      schedule: window.schedule,
+    });
+
+    return res.status(201).json(window);
+  } catch (error: any) {
+    moduleLogger.error('Error creating maintenance window', { error: error.message });
+    return res.status(500).json({
+      error: 'Failed to create maintenance window',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * PUT /api/v1/maintenance-windows/:id
+ * Update a maintenance window (only the given fields change)
+ */
+router.put('/maintenance-windows/:id', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid request', message: 'Invalid window id' });
+    }
+
+    const input = req.body as MaintenanceWindowInput;
+    const validationError = validateMaintenanceWindowInput(input, true);
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid request', message: validationError });
+    }
+
+    const window = await updateMaintenanceWindow(id, input);
+    if (!window) {
+      return res.status(404).json({ error: 'Not found', message: `Maintenance window ${id} not found` });
+    }
+
+    moduleLogger.info('Maintenance window updated', { id });
+    return res.json(window);
+  } catch (error: any) {
+    moduleLogger.error('Error updating maintenance window', { error: error.message, id: req.params.id });
+    return res.status(500).json({
+      error: 'Failed to update maintenance window',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * DELETE /api/v1/maintenance-windows/:id
+ * Delete a maintenance window
+ */
+router.delete('/maintenance-windows/:id', jwtAuth, hasPermission(PERMISSIONS.DEVICE_WRITE), async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid request', message: 'Invalid window id' });
+    }
+
+    const deleted = await deleteMaintenanceWindow(id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Not found', message: `Maintenance window ${id} not found` });
+    }
+
+    moduleLogger.info('Maintenance window deleted', { id });
+    return res.json({ message: 'Maintenance window deleted successfully' });
+  } catch (error: any) {
+    moduleLogger.error('Error deleting maintenance window', { error: error.message, id: req.params.id });
+    return res.status(500).json({
+      error: 'Failed to delete maintenance window',
+      message: error.message,
+    });
+  }
+});
@@ -1,10 +1,12 @@
 /**
  * MQTT Metrics Routes
- * Proxies metrics from the mqtt-exporter service
+ * Proxies metrics from the mqtt-exporter service and reports the API's own
+ * ingestion pipeline counters (buffering, backpressure, dropped messages)
  */
 
 import express, { Router } from 'express';
 import fetch from 'node-fetch';
+import { getSensorDataBatchWorker } from '../workers/sensor-data-batch-worker';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -14,6 +16,7 @@ const MQTT_EXPORTER_URL = process.env.MQTT_EXPORTER_URL || 'http://mqtt-exporter
 /**
  * GET /api/v1/mqtt/metrics
  * Get MQTT broker metrics from mqtt-exporter service
+ * plus sensor data ingestion counters (ingestion.sensorData)
  */
 router.get('/metrics', async (req, res) => {
   try {
@@ -54,6 +57,9 @@ router.get('/metrics', async (req, res) => {
       throughput: {
         inbound: 0, // Calculate from deltas if needed
         outbound: 0
+      },
+      ingestion: {
+        sensorData: getSensorDataBatchWorker().getStatus()
       }
     });
   } catch (error: any) {
@@ -61,7 +67,11 @@ router.get('/metrics', async (req, res) => {
     res.status(503).json({
       error: 'Failed to fetch MQTT metrics',
       message: error.message,
-      connected: false
+      connected: false,
+      // Ingestion counters are local and stay available without the exporter
+      ingestion: {
+        sensorData: getSensorDataBatchWorker().getStatus()
+      }
     });
   }
 });
@@ -0,0 +1,240 @@
+/**
+ * OIDC Routes
+ * Single sign-on with an OpenID Connect provider (see docs/OIDC-SSO.md)
+ *
+ * Public endpoints:
+ * - GET    /api/v1/auth/oidc/config - Whether SSO is enabled (login page button)
+ * - GET    /api/v1/auth/oidc/login - Redirect to the provider
+ * - GET    /api/v1/auth/oidc/callback - Provider redirect target, returns to the dashboard
+ * - POST   /api/v1/auth/oidc/exchange - Exchange the one-time code for the JWT pair
+ *
+ * Management endpoints:
+ * - GET    /api/v1/auth/oidc/role-mapping - Group to role mapping
+ * - PUT    /api/v1/auth/oidc/role-mapping - Replace the mapping
+ */
+
+import express, { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { hasPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
+import { completeFirstFactor } from '../services/auth.service';
+import {
+  OidcLoginError,
+  checkRoleMappingChange,
+  createAuthorizationUrl,
+  getOidcDisplayName,
+  getRoleMapping,
+  handleCallback,
+  isOidcConfigured,
+  redeemExchangeCode,
+  setRoleMapping,
+  validateRoleMappingInput,
+} from '../services/oidc.service';
+import { logAuditEvent, AuditEventType, AuditSeverity } from '../utils/audit-logger';
+import logger from '../utils/logger';
+
+const moduleLogger = logger.child({ module: 'oidc' });
+
+const DASHBOARD_URL = process.env.DASHBOARD_URL || 'http://localhost:3000';
+
+export const router = express.Router();
+
+const exchangeRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20,
+  message: {
+    error: 'Too Many Requests',
+    message: 'Too many login attempts. Please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+function getClientIp(req: Request): string | undefined {
+  return (req.headers['x-forwarded-for'] as string)?.split(',')[0] ||
+         req.socket.remoteAddress;
+}
+
+function dashboardRedirect(path: string, params: Record<string, string>): string {
+  const url = new URL(path, DASHBOARD_URL);
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+function requireOidc(req: Request, res: Response): boolean {
+  if (!isOidcConfigured()) {
+    res.status(404).json({
+      error: 'Not configured',
+      message: 'Single sign-on is not enabled'
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * GET /api/v1/auth/oidc/config
+ * Returns: { enabled, displayName }
+ */
+router.get('/config', (req: Request, res: Response) => {
+  res.json({
+    data: {
+      enabled: isOidcConfigured(),
+      displayName: getOidcDisplayName()
+    }
+  });
+});
+
+/**
+ * GET /api/v1/auth/oidc/login?redirect=/devices
+ * Start the authorization code flow; redirect is the dashboard path to return to
+ */
+router.get('/login', async (req: Request, res: Response) => {
+  if (!requireOidc(req, res)) return;
+
+  try {
+    const redirectPath = typeof req.query.redirect === 'string' ? req.query.redirect : undefined;
+    res.redirect(await createAuthorizationUrl(redirectPath));
+  } catch (error: any) {
+    moduleLogger.error('Failed to start OIDC login', { error: error.message });
+    res.redirect(dashboardRedirect('/', { oidc_error: 'Single sign-on is unavailable' }));
+  }
+});
+
+/**
+ * GET /api/v1/auth/oidc/callback?code=...&state=...
+ * Redirects to the dashboard with ?oidc_code=... (or ?oidc_error=...)
+ */
+router.get('/callback', async (req: Request, res: Response) => {
+  if (!requireOidc(req, res)) return;
+
+  const { code, state, error, error_description } = req.query;
+
+  try {
+    if (typeof error === 'string') {
+      throw new OidcLoginError(typeof error_description === 'string' ? error_description : error);
+    }
+    if (typeof code !== 'string' || typeof state !== 'string') {
+      throw new OidcLoginError('Missing code or state');
+    }
+
+    const result = await handleCallback(code, state);
+    res.redirect(dashboardRedirect(result.redirectPath, { oidc_code: result.exchangeCode }));
+  } catch (err: any) {
+    const message = err instanceof OidcLoginError ? err.message : 'Single sign-on failed';
+    moduleLogger.warn('OIDC login failed', { error: err.message });
+
+    await logAuditEvent({
+      eventType: AuditEventType.OIDC_LOGIN_FAILED,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+      details: { reason: err.message },
+      severity: AuditSeverity.WARNING
+    });
+
+    res.redirect(dashboardRedirect('/', { oidc_error: message }));
+  }
+});
+
+/**
+ * POST /api/v1/auth/oidc/exchange
+ * Body: { code } (from the callback redirect, valid once for 2 minutes)
+ * Returns: { accessToken, refreshToken, user }, or an MFA challenge like /auth/login
+ */
+router.post('/exchange', exchangeRateLimit, async (req: Request, res: Response) => {
+  const { code } = req.body;
+
+  if (typeof code !== 'string' || !code) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: 'code is required'
+    });
+  }
+
+  try {
+    const user = await redeemExchangeCode(code);
+    if (!user) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Invalid or expired login code'
+      });
+    }
+
+    const result = await completeFirstFactor(user, getClientIp(req), req.headers['user-agent']);
+    res.status(200).json({
+      message: 'Login successful',
+      data: result
+    });
+  } catch (error: any) {
+    moduleLogger.error('OIDC code exchange failed', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Login failed'
+    });
+  }
+});
+
+/**
+ * GET /api/v1/auth/oidc/role-mapping
+ * Returns: { mapping: { "<group>": "<role>" } }
+ */
+router.get('/role-mapping', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_READ), async (req: Request, res: Response) => {
+  try {
+    res.json({ data: { mapping: await getRoleMapping() } });
+  } catch (error: any) {
+    moduleLogger.error('Failed to get OIDC role mapping', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to get role mapping'
+    });
+  }
+});
+
+/**
+ * PUT /api/v1/auth/oidc/role-mapping
+ * Body: { mapping: { "iot-admins": "admin", "iot-operators": "operator" } }
+ * Applied to each user at their next SSO login. Groups mapped to a role
+ * above the caller's (owner for admins) cannot be changed.
+ */
+router.put('/role-mapping', jwtAuth, hasPermission(PERMISSIONS.SETTINGS_WRITE), async (req: Request, res: Response) => {
+  const mapping = req.body?.mapping;
+
+  const validationError = validateRoleMappingInput(mapping);
+  if (validationError) {
+    return res.status(400).json({
+      error: 'Bad Request',
+      message: validationError
+    });
+  }
+
+  try {
+    const forbidden = checkRoleMappingChange(mapping, await getRoleMapping(), req.user!.role);
+    if (forbidden) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: forbidden
+      });
+    }
+
+    const saved = await setRoleMapping(mapping);
+
+    await logAuditEvent({
+      eventType: AuditEventType.OIDC_ROLE_MAPPING_UPDATED,
+      userId: String(req.user!.id),
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'],
+      details: { mapping: saved, updatedBy: req.user!.username }
+    });
+
+    res.json({ data: { mapping: saved } });
+  } catch (error: any) {
+    moduleLogger.error('Failed to update OIDC role mapping', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to update role mapping'
+    });
+  }
+});
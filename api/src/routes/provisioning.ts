@@ -411,7 +411,7 @@ router.post('/device/register', provisioningLimiter, async (req, res) => {
 
   try {
     // Extract request data
-    const { uuid, deviceName, deviceType, deviceApiKey, applicationId, macAddress, osVersion, agentVersion } = req.body;
+    const { uuid, deviceName, deviceType, deviceApiKey, applicationId, macAddress, osVersion, agentVersion, csr } = req.body;
     const provisioningApiKey = req.headers.authorization?.replace('Bearer ', '');
 
     // Validate required fields
@@ -455,7 +455,8 @@ router.post('/device/register', provisioningLimiter, async (req, res) => {
         applicationId,
         macAddress,
         osVersion,
-        agentVersion
+        agentVersion,
+        csr: typeof csr === 'string' ? csr : undefined
       },
       ipAddress,
       userAgent
@@ -0,0 +1,357 @@
+/**
+ * Fleet Rollout Routes
+ *
+ * Staged deployment of app releases across devices selected by tags.
+ * Devices are deployed in waves; the rollout controller judges each wave from
+ * reported current state and pauses or rolls back when too many devices fail.
+ * Live progress is also published on the global WebSocket channel 'rollouts'.
+ */
+
+import express, { Request, Response } from 'express';
+import { query } from '../db/connection';
+import { hasPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { rolloutController, RolloutRequestError, RolloutStatus } from '../services/rollout-controller';
+import { findDeviceUuidsByTags } from '../services/device-tag-query';
+import { logger } from '../utils/logger';
+
+const router = express.Router();
+
+router.use('/rollouts', jwtAuth);
+
+/**
+ * Reject actions that are not valid for the rollout's current status
+ */
+async function loadRollout(res: Response, rolloutId: string, allowed: RolloutStatus[], action: string) {
+  const rollout = await rolloutController.getRollout(rolloutId);
+
+  if (!rollout) {
+    res.status(404).json({ error: 'Rollout not found' });
+    return null;
+  }
+
+  if (!allowed.includes(rollout.status)) {
+    res.status(409).json({
+      error: `Cannot ${action} rollout`,
+      message: `Rollout is ${rollout.status}`,
+    });
+    return null;
+  }
+
+  return rollout;
+}
+
+/**
+ * POST /api/v1/rollouts
+ * Create a rollout and deploy its first wave
+ *
+ * Body: {
+ *   name, description?,
+ *   tagSelectors: { environment: 'production' },   // same as POST /devices/query
+ *   apps: { "1001": { appId, appName, services } }, // validated, digest-pinned, merged into each device's target state
+ *   waves?: [1, 10, 100],           // cumulative percentages
+ *   failureThreshold?: 10,          // percent of deployed devices
+ *   onFailure?: 'pause' | 'rollback',
+ *   waveTimeoutSeconds?: 900, waveDelaySeconds?: 300
+ * }
+ */
+router.post('/rollouts',
+  hasPermission(PERMISSIONS.DEVICE_WRITE),
+  async (req: Request, res: Response) => {
+  try {
+    const {
+      name,
+      description,
+      tagSelectors,
+      apps,
+      waves,
+      failureThreshold,
+      onFailure,
+      waveTimeoutSeconds,
+      waveDelaySeconds,
+    } = req.body;
+
+    if (!name) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    if (!tagSelectors || typeof tagSelectors !== 'object' || Object.keys(tagSelectors).length === 0) {
+      return res.status(400).json({ error: 'tagSelectors object is required' });
+    }
+
+    if (!apps || typeof apps !== 'object' || Array.isArray(apps) || Object.keys(apps).length === 0) {
+      return res.status(400).json({ error: 'apps object (keyed by appId) is required' });
+    }
+
+    if (waves !== undefined) {
+      const valid = Array.isArray(waves) && waves.length > 0 && waves.every((w: any, i: number) =>
+        typeof w === 'number' && w > 0 && w <= 100 && (i === 0 || w > waves[i - 1])
+      );
+      if (!valid) {
+        return res.status(400).json({
+          error: 'waves must be increasing percentages between 0 and 100, e.g. [1, 10, 100]',
+        });
+      }
+    }
+
+    if (failureThreshold !== undefined && (typeof failureThreshold !== 'number' || failureThreshold < 0 || failureThreshold > 100)) {
+      return res.status(400).json({ error: 'failureThreshold must be a percentage between 0 and 100' });
+    }
+
+    if (onFailure !== undefined && !['pause', 'rollback'].includes(onFailure)) {
+      return res.status(400).json({ error: 'onFailure must be one of: pause, rollback' });
+    }
+
+    for (const [field, value] of Object.entries({ waveTimeoutSeconds, waveDelaySeconds })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        return res.status(400).json({ error: `${field} must be a non-negative integer` });
+      }
+    }
+
+    const matchingDevices = await findDeviceUuidsByTags(tagSelectors);
+    if (matchingDevices.length === 0) {
+      return res.status(422).json({
+        error: 'No devices match the tag selectors',
+        tagSelectors,
+      });
+    }
+
+    const rollout = await rolloutController.createRollout({
+      name,
+      description,
+      tagSelectors,
+      apps,
+      waves,
+      failureThreshold,
+      onFailure,
+      waveTimeoutSeconds,
+      waveDelaySeconds,
+      createdBy: req.user?.username || 'dashboard',
+    });
+
+    return res.status(201).json({
+      message: 'Rollout started',
+      rollout: await rolloutController.getProgress(rollout.rollout_id),
+    });
+  } catch (error) {
+    if (error instanceof RolloutRequestError) {
+      return res.status(400).json({ error: 'Invalid service configuration', message: error.message });
+    }
+    logger.error('Error creating rollout:', error);
+    return res.status(500).json({
+      error: 'Failed to create rollout',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/v1/rollouts
+ * List rollouts
+ */
+router.get('/rollouts',
+  hasPermission(PERMISSIONS.DEVICE_READ),
+  async (req: Request, res: Response) => {
+  try {
+    const { status, limit = 50, offset = 0 } = req.query;
+
+    let sql = 'SELECT * FROM fleet_rollouts WHERE 1=1';
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (status) {
+      sql += ` AND status = $${paramIndex}`;
+      params.push(status);
+      paramIndex++;
+    }
+
+    sql += ` ORDER BY created_at DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
+    params.push(parseInt(limit as string), parseInt(offset as string));
+
+    const result = await query(sql, params);
+
+    return res.status(200).json({
+      rollouts: result.rows,
+      total: result.rows.length,
+      limit: parseInt(limit as string),
+      offset: parseInt(offset as string),
+    });
+  } catch (error) {
+    logger.error('Error fetching rollouts:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch rollouts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/v1/rollouts/:rolloutId
+ * Rollout details with per-wave progress
+ */
+router.get('/rollouts/:rolloutId',
+  hasPermission(PERMISSIONS.DEVICE_READ),
+  async (req: Request, res: Response) => {
+  try {
+    const rollout = await rolloutController.getProgress(req.params.rolloutId);
+
+    if (!rollout) {
+      return res.status(404).json({ error: 'Rollout not found' });
+    }
+
+    return res.status(200).json({ rollout });
+  } catch (error) {
+    logger.error('Error fetching rollout:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch rollout',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/v1/rollouts/:rolloutId/devices
+ * Per-device rollout status (filter by ?status= and ?wave=)
+ */
+router.get('/rollouts/:rolloutId/devices',
+  hasPermission(PERMISSIONS.DEVICE_READ),
+  async (req: Request, res: Response) => {
+  try {
+    const { rolloutId } = req.params;
+    const { status, wave } = req.query;
+
+    let sql = `
+      SELECT rd.device_uuid, rd.wave, rd.status, rd.reason,
+             rd.previous_version, rd.deployed_version, rd.deployed_at, rd.completed_at,
+             d.device_name, d.is_online
+      FROM fleet_rollout_devices rd
+      LEFT JOIN devices d ON rd.device_uuid = d.uuid
+      WHERE rd.rollout_id = $1`;
+    const params: any[] = [rolloutId];
+
+    if (status) {
+      params.push(status);
+      sql += ` AND rd.status = $${params.length}`;
+    }
+
+    if (wave !== undefined) {
+      params.push(parseInt(wave as string));
+      sql += ` AND rd.wave = $${params.length}`;
+    }
+
+    sql += ' ORDER BY rd.wave, rd.device_uuid';
+
+    const result = await query(sql, params);
+
+    return res.status(200).json({
+      devices: result.rows,
+      total: result.rows.length,
+    });
+  } catch (error) {
+    logger.error('Error fetching rollout devices:', error);
+    return res.status(500).json({
+      error: 'Failed to fetch rollout devices',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/v1/rollouts/:rolloutId/pause
+ * Pause an in-progress rollout
+ */
+router.post('/rollouts/:rolloutId/pause',
+  hasPermission(PERMISSIONS.DEVICE_WRITE),
+  async (req: Request, res: Response) => {
+  try {
+    if (!await loadRollout(res, req.params.rolloutId, ['IN_PROGRESS'], 'pause')) return;
+
+    const rollout = await rolloutController.pause(
+      req.params.rolloutId,
+      req.body?.reason || `Paused by ${req.user?.username || 'user'}`
+    );
+
+    return res.status(200).json({ message: 'Rollout paused', rollout });
+  } catch (error) {
+    logger.error('Error pausing rollout:', error);
+    return res.status(500).json({
+      error: 'Failed to pause rollout',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/v1/rollouts/:rolloutId/resume
+ * Resume a paused rollout (failed devices are judged again)
+ */
+router.post('/rollouts/:rolloutId/resume',
+  hasPermission(PERMISSIONS.DEVICE_WRITE),
+  async (req: Request, res: Response) => {
+  try {
+    if (!await loadRollout(res, req.params.rolloutId, ['PAUSED'], 'resume')) return;
+
+    const rollout = await rolloutController.resume(req.params.rolloutId);
+
+    return res.status(200).json({ message: 'Rollout resumed', rollout });
+  } catch (error) {
+    logger.error('Error resuming rollout:', error);
+    return res.status(500).json({
+      error: 'Failed to resume rollout',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/v1/rollouts/:rolloutId/cancel
+ * Stop deploying further devices (deployed devices keep the new release)
+ */
+router.post('/rollouts/:rolloutId/cancel',
+  hasPermission(PERMISSIONS.DEVICE_WRITE),
+  async (req: Request, res: Response) => {
+  try {
+    if (!await loadRollout(res, req.params.rolloutId, ['IN_PROGRESS', 'PAUSED'], 'cancel')) return;
+
+    const rollout = await rolloutController.cancel(req.params.rolloutId);
+
+    return res.status(200).json({ message: 'Rollout canceled', rollout });
+  } catch (error) {
+    logger.error('Error canceling rollout:', error);
+    return res.status(500).json({
+      error: 'Failed to cancel rollout',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /api/v1/rollouts/:rolloutId/rollback
+ * Restore every deployed device to its previous target-state version
+ */
+router.post('/rollouts/:rolloutId/rollback',
+  hasPermission(PERMISSIONS.DEVICE_WRITE),
+  async (req: Request, res: Response) => {
+  try {
+    if (!await loadRollout(res, req.params.rolloutId, ['IN_PROGRESS', 'PAUSED', 'SUCCEEDED'], 'roll back')) return;
+
+    const rollout = await rolloutController.rollback(
+      req.params.rolloutId,
+      req.body?.reason || `Rolled back by ${req.user?.username || 'user'}`
+    );
+
+    return res.status(200).json({
+      message: 'Rollout rolled back',
+      rollout: await rolloutController.getProgress(rollout.rollout_id),
+    });
+  } catch (error) {
+    logger.error('Error rolling back rollout:', error);
+    return res.status(500).json({
+      error: 'Failed to roll back rollout',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
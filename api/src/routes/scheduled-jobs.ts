@@ -7,24 +7,41 @@
 import express, { Request, Response } from 'express';
 import poolWrapper from '../db/connection';
 import { jobScheduler } from '../services/job-scheduler';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { getDeviceScope, hasPermission, hasScopedPermission } from '../middleware/permissions';
+import { PERMISSIONS } from '../types/permissions';
 import * as cron from 'node-cron';
 
 const router = express.Router();
 const pool = poolWrapper.pool;
 
+router.use('/jobs/schedules', jwtAuth);
+router.use('/jobs/scheduler', jwtAuth);
+
+/**
+ * SQL condition limiting schedules to a device scope (parameter $n, null = all
+ * devices): '&&' for schedules targeting any device in scope, '<@' for
+ * schedules whose targets are all in scope. Group and all schedules resolve
+ * their devices at each run, so scoped users never see or manage them.
+ */
+function scheduleScopeCondition(param: number, operator: '&&' | '<@'): string {
+  return `($${param}::uuid[] IS NULL OR (target_type = 'device' AND target_devices ${operator} $${param}::uuid[]))`;
+}
+
 /**
  * GET /api/v1/jobs/schedules
  * List all scheduled jobs
  */
-router.get('/jobs/schedules', async (req: Request, res: Response) => {
+router.get('/jobs/schedules', hasScopedPermission(PERMISSIONS.DEVICE_READ), async (req: Request, res: Response) => {
   try {
     const { active } = req.query;
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_READ);
 
-    let query = 'SELECT * FROM scheduled_jobs WHERE 1=1';
-    const params: any[] = [];
+    let query = `SELECT * FROM scheduled_jobs WHERE ${scheduleScopeCondition(1, '&&')}`;
+    const params: any[] = [scope];
 
     if (active !== undefined) {
-      query += ' AND is_active = $1';
+      query += ' AND is_active = $2';
       params.push(active === 'true');
     }
 
@@ -49,13 +66,14 @@ router.get('/jobs/schedules', async (req: Request, res: Response) => {
  * GET /api/v1/jobs/schedules/:scheduleId
  * Get a specific scheduled job
  */
-router.get('/jobs/schedules/:scheduleId', async (req: Request, res: Response) => {
+router.get('/jobs/schedules/:scheduleId', hasScopedPermission(PERMISSIONS.DEVICE_READ), async (req: Request, res: Response) => {
   try {
     const { scheduleId } = req.params;
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_READ);
 
     const result = await pool.query(
-      'SELECT * FROM scheduled_jobs WHERE schedule_id = $1',
-      [scheduleId]
+      `SELECT * FROM scheduled_jobs WHERE schedule_id = $1 AND ${scheduleScopeCondition(2, '&&')}`,
+      [scheduleId, scope]
     );
 
     if (result.rows.length === 0) {
@@ -74,9 +92,9 @@ router.get('/jobs/schedules/:scheduleId', async (req: Request, res: Response) =>
 
 /**
  * POST /api/v1/jobs/schedules
- * Create a new scheduled job
+ * Create a new scheduled job (scoped users: device targets they all control)
  */
-router.post('/jobs/schedules', async (req: Request, res: Response) => {
+router.post('/jobs/schedules', hasScopedPermission(PERMISSIONS.DEVICE_CONTROL), async (req: Request, res: Response) => {
   try {
     const {
       job_name,
@@ -132,6 +150,27 @@ router.post('/jobs/schedules', async (req: Request, res: Response) => {
       }
     }
 
+    // Scoped users can only schedule jobs for specific devices they control;
+    // group and all targets are resolved at each run and cannot be limited
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_CONTROL);
+    if (scope) {
+      if (target_type !== 'device') {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Scoped users can only schedule jobs for specific devices',
+        });
+      }
+      const controllable = new Set(scope);
+      const outOfScope = (target_devices || []).filter((uuid: string) => !controllable.has(uuid));
+      if (outOfScope.length > 0) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'Insufficient permissions for some target devices',
+          devices: outOfScope,
+        });
+      }
+    }
+
     // Create scheduled job via scheduler service
     const scheduleId = await jobScheduler.addScheduledJob({
       job_name,
@@ -169,7 +208,7 @@ router.post('/jobs/schedules', async (req: Request, res: Response) => {
  * PATCH /api/v1/jobs/schedules/:scheduleId
  * Update a scheduled job
  */
-router.patch('/jobs/schedules/:scheduleId', async (req: Request, res: Response) => {
+router.patch('/jobs/schedules/:scheduleId', hasScopedPermission(PERMISSIONS.DEVICE_CONTROL), async (req: Request, res: Response) => {
   try {
     const { scheduleId } = req.params;
     const {
@@ -182,10 +221,11 @@ router.patch('/jobs/schedules/:scheduleId', async (req: Request, res: Response)
       is_active,
     } = req.body;
 
-    // Check if schedule exists
+    // Check if schedule exists (scoped users: only schedules for devices they control)
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_CONTROL);
     const existing = await pool.query(
-      'SELECT * FROM scheduled_jobs WHERE schedule_id = $1',
-      [scheduleId]
+      `SELECT * FROM scheduled_jobs WHERE schedule_id = $1 AND ${scheduleScopeCondition(2, '<@')}`,
+      [scheduleId, scope]
     );
 
     if (existing.rows.length === 0) {
@@ -276,9 +316,19 @@ router.patch('/jobs/schedules/:scheduleId', async (req: Request, res: Response)
  * DELETE /api/v1/jobs/schedules/:scheduleId
  * Delete a scheduled job
  */
-router.delete('/jobs/schedules/:scheduleId', async (req: Request, res: Response) => {
+router.delete('/jobs/schedules/:scheduleId', hasScopedPermission(PERMISSIONS.DEVICE_CONTROL), async (req: Request, res: Response) => {
   try {
     const { scheduleId } = req.params;
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_CONTROL);
+
+    const existing = await pool.query(
+      `SELECT 1 FROM scheduled_jobs WHERE schedule_id = $1 AND ${scheduleScopeCondition(2, '<@')}`,
+      [scheduleId, scope]
+    );
+
+    if (existing.rows.length === 0) {
+      return res.status(404).json({ error: 'Scheduled job not found' });
+    }
 
     await jobScheduler.removeScheduledJob(scheduleId);
 
@@ -299,13 +349,16 @@ router.delete('/jobs/schedules/:scheduleId', async (req: Request, res: Response)
  * POST /api/v1/jobs/schedules/:scheduleId/pause
  * Pause a scheduled job
  */
-router.post('/jobs/schedules/:scheduleId/pause', async (req: Request, res: Response) => {
+router.post('/jobs/schedules/:scheduleId/pause', hasScopedPermission(PERMISSIONS.DEVICE_CONTROL), async (req: Request, res: Response) => {
   try {
     const { scheduleId } = req.params;
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_CONTROL);
 
     const result = await pool.query(
-      `UPDATE scheduled_jobs SET is_active = false WHERE schedule_id = $1 RETURNING *`,
-      [scheduleId]
+      `UPDATE scheduled_jobs SET is_active = false
+       WHERE schedule_id = $1 AND ${scheduleScopeCondition(2, '<@')}
+       RETURNING *`,
+      [scheduleId, scope]
     );
 
     if (result.rows.length === 0) {
@@ -331,13 +384,16 @@ router.post('/jobs/schedules/:scheduleId/pause', async (req: Request, res: Respo
  * POST /api/v1/jobs/schedules/:scheduleId/resume
  * Resume a paused scheduled job
  */
-router.post('/jobs/schedules/:scheduleId/resume', async (req: Request, res: Response) => {
+router.post('/jobs/schedules/:scheduleId/resume', hasScopedPermission(PERMISSIONS.DEVICE_CONTROL), async (req: Request, res: Response) => {
   try {
     const { scheduleId } = req.params;
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_CONTROL);
 
     const result = await pool.query(
-      `UPDATE scheduled_jobs SET is_active = true WHERE schedule_id = $1 RETURNING *`,
-      [scheduleId]
+      `UPDATE scheduled_jobs SET is_active = true
+       WHERE schedule_id = $1 AND ${scheduleScopeCondition(2, '<@')}
+       RETURNING *`,
+      [scheduleId, scope]
     );
 
     if (result.rows.length === 0) {
@@ -363,15 +419,16 @@ router.post('/jobs/schedules/:scheduleId/resume', async (req: Request, res: Resp
  * GET /api/v1/jobs/schedules/:scheduleId/executions
  * Get execution history for a scheduled job
  */
-router.get('/jobs/schedules/:scheduleId/executions', async (req: Request, res: Response) => {
+router.get('/jobs/schedules/:scheduleId/executions', hasScopedPermission(PERMISSIONS.DEVICE_READ), async (req: Request, res: Response) => {
   try {
     const { scheduleId } = req.params;
     const { limit = 20 } = req.query;
+    const scope = await getDeviceScope(req, PERMISSIONS.DEVICE_READ);
 
     // Get schedule info
     const schedule = await pool.query(
-      'SELECT job_name FROM scheduled_jobs WHERE schedule_id = $1',
-      [scheduleId]
+      `SELECT job_name FROM scheduled_jobs WHERE schedule_id = $1 AND ${scheduleScopeCondition(2, '&&')}`,
+      [scheduleId, scope]
     );
 
     if (schedule.rows.length === 0) {
@@ -405,7 +462,7 @@ router.get('/jobs/schedules/:scheduleId/executions', async (req: Request, res: R
  * GET /api/v1/jobs/scheduler/status
  * Get job scheduler service status
  */
-router.get('/jobs/scheduler/status', async (req: Request, res: Response) => {
+router.get('/jobs/scheduler/status', hasPermission(PERMISSIONS.DEVICE_READ), async (req: Request, res: Response) => {
   try {
     const status = jobScheduler.getStatus();
     return res.status(200).json(status);
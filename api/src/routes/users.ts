@@ -7,12 +7,33 @@
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcrypt';
 import { query } from '../db/connection';
-import { hasPermission, isAdminOrOwner, isOwner, checkUserPermissions } from '../middleware/permissions';
-import { PERMISSIONS, ROLES, UserWithPermissions } from '../types/permissions';
+import { hasPermission, isAdminOrOwner, isOwner, checkUserPermissions, getEffectiveAccess } from '../middleware/permissions';
+import { jwtAuth, requireSession } from '../middleware/jwt-auth';
+import { PERMISSIONS, ROLES, UserWithPermissions, roleOutranks } from '../types/permissions';
+import {
+  bindingPermissions,
+  createRoleBinding,
+  deleteRoleBinding,
+  listRoleBindings,
+  validateRoleBindingInput,
+} from '../services/access-scope';
+import { disableMfa } from '../services/mfa.service';
+import {
+  MAX_TOKENS_PER_USER,
+  countActivePersonalAccessTokens,
+  createPersonalAccessToken,
+  grantablePermissions,
+  listPersonalAccessTokens,
+  revokePersonalAccessToken,
+  validatePersonalAccessTokenInput,
+} from '../services/personal-access-tokens';
 import { logger } from '../utils/logger';
+import { logAuditEvent, AuditEventType, AuditSeverity } from '../utils/audit-logger';
 
 const router = Router();
 
+router.use(jwtAuth);
+
 /**
  * GET /api/v1/users
  * List all users (requires user:read permission)
@@ -28,6 +49,8 @@ router.get('/',
           email, 
           role, 
           is_active as "isActive",
+          mfa_enabled as "mfaEnabled",
+          auth_provider as "authProvider",
           created_at as "createdAt",
           last_login_at as "lastLoginAt"
         FROM users
@@ -62,6 +85,8 @@ router.get('/:id',
           email, 
           role, 
           is_active as "isActive",
+          mfa_enabled as "mfaEnabled",
+          auth_provider as "authProvider",
           created_at as "createdAt",
           last_login_at as "lastLoginAt"
         FROM users
@@ -289,9 +314,160 @@ router.delete('/:id',
   }
 );
 
+/**
+ * GET /api/v1/users/:id/role-bindings
+ * List a user's scoped role bindings (requires user:read permission)
+ */
+router.get('/:id/role-bindings',
+  hasPermission(PERMISSIONS.USER_READ),
+  async (req: Request, res: Response) => {
+    try {
+      const bindings = await listRoleBindings(parseInt(req.params.id));
+      res.json({ bindings, count: bindings.length });
+    } catch (error) {
+      logger.error('List role bindings error:', error);
+      res.status(500).json({ 
+        error: 'Failed to fetch role bindings',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/users/:id/role-bindings
+ * Grant a role for a fleet, tag selector or device (requires admin or owner role)
+ * 
+ * Body: { role: 'operator', fleet_id?: 'site-a', tag_selector?: { site: 'a' }, device_uuid?: '...' }
+ */
+router.post('/:id/role-bindings',
+  hasPermission(PERMISSIONS.USER_WRITE),
+  isAdminOrOwner(),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const validationError = validateRoleBindingInput(req.body || {});
+      if (validationError) {
+        return res.status(400).json({ error: 'Invalid role binding', message: validationError });
+      }
+
+      const existing = await query(`SELECT role FROM users WHERE id = $1`, [id]);
+      if (existing.rows.length === 0) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      // Owners and admins always have global access
+      if (existing.rows[0].role === ROLES.OWNER || existing.rows[0].role === ROLES.ADMIN) {
+        return res.status(400).json({
+          error: 'Bad Request',
+          message: 'Owners and admins cannot be scoped'
+        });
+      }
+
+      const binding = await createRoleBinding(parseInt(id), req.body, req.user?.username || null);
+      res.status(201).json(binding);
+    } catch (error: any) {
+      logger.error('Create role binding error:', error);
+
+      if (error.code === '23503') {
+        return res.status(400).json({ error: 'Device not found' });
+      }
+
+      res.status(500).json({ 
+        error: 'Failed to create role binding',
+        message: error.message
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/users/:id/role-bindings/:bindingId
+ * Remove a role binding (requires admin or owner role)
+ */
+router.delete('/:id/role-bindings/:bindingId',
+  hasPermission(PERMISSIONS.USER_WRITE),
+  isAdminOrOwner(),
+  async (req: Request, res: Response) => {
+    try {
+      const deleted = await deleteRoleBinding(parseInt(req.params.id), parseInt(req.params.bindingId));
+      if (!deleted) {
+        return res.status(404).json({ error: 'Role binding not found' });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Delete role binding error:', error);
+      res.status(500).json({ 
+        error: 'Failed to delete role binding',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/users/:id/mfa/reset
+ * Turn off MFA for a user who lost their authenticator (requires admin or owner role;
+ * users with a higher role than the caller cannot be reset).
+ * Also signs the user out everywhere; they enroll again at the next login if their role requires MFA.
+ */
+router.post('/:id/mfa/reset',
+  hasPermission(PERMISSIONS.USER_WRITE),
+  isAdminOrOwner(),
+  async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      const existing = await query(`SELECT username, role, mfa_enabled FROM users WHERE id = $1`, [id]);
+      if (existing.rows.length === 0) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const existingUser = existing.rows[0];
+
+      if (roleOutranks(existingUser.role, req.user!.role)) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: 'You cannot reset MFA of a user with a higher role'
+        });
+      }
+
+      await disableMfa(parseInt(id));
+
+      // Revoke refresh tokens (force re-login)
+      await query(
+        `UPDATE refresh_tokens
+         SET revoked = true, revoked_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1 AND revoked = false`,
+        [id]
+      );
+
+      await logAuditEvent({
+        eventType: AuditEventType.MFA_RESET,
+        userId: id,
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+        details: { username: existingUser.username, wasEnabled: existingUser.mfa_enabled, resetBy: req.user?.username },
+        severity: AuditSeverity.WARNING
+      });
+
+      res.json({ message: 'MFA reset' });
+    } catch (error) {
+      logger.error('Reset MFA error:', error);
+      res.status(500).json({ 
+        error: 'Failed to reset MFA',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
 /**
  * GET /api/v1/users/me/permissions
- * Get current user's permissions
+ * Get current user's effective permissions: global ones, and for scoped
+ * users the permissions each role binding grants
  */
 router.get('/me/permissions',
   async (req: Request, res: Response) => {
@@ -299,14 +475,137 @@ router.get('/me/permissions',
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const { ROLE_PERMISSIONS } = await import('../types/permissions');
-    const permissions = ROLE_PERMISSIONS[req.user.role as any] || [];
+    try {
+      const access = await getEffectiveAccess(req);
+
+      res.json({
+        user: req.user,
+        permissions: access.globalPermissions,
+        role: req.user.role,
+        scoped: access.scoped,
+        scopes: access.bindings.map(binding => ({
+          role: binding.role,
+          permissions: bindingPermissions(binding)
+            .filter(perm => !access.tokenPermissions || access.tokenPermissions.includes(perm)),
+          fleetId: binding.fleetId,
+          tagSelector: binding.tagSelector,
+          deviceUuid: binding.deviceUuid
+        }))
+      });
+    } catch (error) {
+      logger.error('Get permissions error:', error);
+      res.status(500).json({ 
+        error: 'Failed to fetch permissions',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/v1/users/me/tokens
+ * List the current user's personal access tokens, and the permissions
+ * a new token can carry
+ */
+router.get('/me/tokens',
+  requireSession,
+  async (req: Request, res: Response) => {
+    try {
+      const tokens = await listPersonalAccessTokens(req.user!.id);
+      const access = await getEffectiveAccess(req);
 
-    res.json({
-      user: req.user,
-      permissions,
-      role: req.user.role
-    });
+      res.json({ tokens, count: tokens.length, grantablePermissions: grantablePermissions(access) });
+    } catch (error) {
+      logger.error('List personal access tokens error:', error);
+      res.status(500).json({ 
+        error: 'Failed to fetch personal access tokens',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/v1/users/me/tokens
+ * Create a personal access token. The token is only returned in this response.
+ * 
+ * Body: { name: 'CI deploy', permissions: ['device:read'], expires_in_days: 90, ip_allowlist?: ['203.0.113.0/24'] }
+ */
+router.post('/me/tokens',
+  requireSession,
+  async (req: Request, res: Response) => {
+    try {
+      const access = await getEffectiveAccess(req);
+
+      const validationError = validatePersonalAccessTokenInput(req.body || {}, grantablePermissions(access));
+      if (validationError) {
+        return res.status(400).json({ error: 'Invalid personal access token', message: validationError });
+      }
+
+      if (await countActivePersonalAccessTokens(req.user!.id) >= MAX_TOKENS_PER_USER) {
+        return res.status(400).json({
+          error: 'Invalid personal access token',
+          message: `You can have at most ${MAX_TOKENS_PER_USER} active tokens. Revoke one first.`
+        });
+      }
+
+      const { token, record } = await createPersonalAccessToken(req.user!.id, req.body);
+
+      await logAuditEvent({
+        eventType: AuditEventType.PERSONAL_ACCESS_TOKEN_CREATED,
+        userId: String(req.user!.id),
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+        details: {
+          tokenId: record.id,
+          name: record.name,
+          permissions: record.permissions,
+          expiresAt: record.expiresAt,
+          ipAllowlist: record.ipAllowlist
+        }
+      });
+
+      res.status(201).json({ ...record, token });
+    } catch (error) {
+      logger.error('Create personal access token error:', error);
+      res.status(500).json({ 
+        error: 'Failed to create personal access token',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/users/me/tokens/:tokenId
+ * Revoke one of the current user's personal access tokens
+ */
+router.delete('/me/tokens/:tokenId',
+  requireSession,
+  async (req: Request, res: Response) => {
+    try {
+      const tokenId = parseInt(req.params.tokenId);
+      const revoked = await revokePersonalAccessToken(req.user!.id, tokenId);
+      if (!revoked) {
+        return res.status(404).json({ error: 'Personal access token not found' });
+      }
+
+      await logAuditEvent({
+        eventType: AuditEventType.PERSONAL_ACCESS_TOKEN_REVOKED,
+        userId: String(req.user!.id),
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+        details: { tokenId }
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      logger.error('Revoke personal access token error:', error);
+      res.status(500).json({ 
+        error: 'Failed to revoke personal access token',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
   }
 );
 
@@ -0,0 +1,329 @@
+/**
+ * Volume Backup Routes
+ * Snapshots of app volumes, taken and restored by devices through jobs
+ *
+ * Device endpoints (X-Device-API-Key):
+ * - POST   /api/v1/device/:uuid/volume-backups?app_id=&volume_name= - Upload a backup (gzip tarball body)
+ * - GET    /api/v1/device/:uuid/volume-backups/:id/download - Download a backup to restore
+ *
+ * Management endpoints:
+ * - GET    /api/v1/devices/:uuid/volume-backups - List a device's backups
+ * - POST   /api/v1/devices/:uuid/volume-backups - Queue a backup job
+ * - POST   /api/v1/volume-backups/:id/restore - Queue a restore job (same or another device)
+ * - GET    /api/v1/volume-backups/:id/download - Download a backup
+ * - DELETE /api/v1/volume-backups/:id - Delete a backup
+ */
+
+import express, { Request, Response } from 'express';
+import { query } from '../db/connection';
+import deviceAuth from '../middleware/device-auth';
+import { jwtAuth } from '../middleware/jwt-auth';
+import { getDeviceScope, hasPermission, hasScopedPermission } from '../middleware/permissions';
+import { Permission, PERMISSIONS } from '../types/permissions';
+import { EventPublisher } from '../services/event-sourcing';
+import {
+  BackupTooLargeError,
+  VolumeBackupRecord,
+  canDeviceDownload,
+  deleteBackup,
+  getBackup,
+  listBackups,
+  requestBackup,
+  requestRestore,
+  resolveBackupPath,
+  storeBackup,
+  validateVolumeRef,
+} from '../services/volume-backups';
+import logger from '../utils/logger';
+
+const moduleLogger = logger.child({ module: 'volume-backups' });
+const eventPublisher = new EventPublisher('volume-backups-api');
+
+export const router = express.Router();
+
+router.use('/devices/:uuid/volume-backups', jwtAuth);
+router.use('/volume-backups', jwtAuth);
+
+function parseId(value: string): number | null {
+  const id = parseInt(value, 10);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * Whether the user may use a permission on a device (backups of deleted
+ * devices, with no device_uuid, are only available to unscoped users)
+ */
+async function canUseDevice(req: Request, permission: Permission, deviceUuid: string | null): Promise<boolean> {
+  const scope = await getDeviceScope(req, permission);
+  return scope === null || (deviceUuid !== null && scope.includes(deviceUuid));
+}
+
+function sendBackupFile(res: Response, backup: VolumeBackupRecord) {
+  res.setHeader('Content-Type', 'application/gzip');
+  res.setHeader('Content-Length', String(backup.size_bytes));
+  res.setHeader('Content-Disposition', `attachment; filename="${backup.volume_name}-${backup.id}.tar.gz"`);
+  res.setHeader('X-Backup-App-Id', String(backup.app_id));
+  res.setHeader('X-Backup-Volume-Name', backup.volume_name);
+  res.setHeader('X-Backup-Sha256', backup.sha256);
+  res.sendFile(resolveBackupPath(backup));
+}
+
+// =============================================================================
+// Device endpoints
+// =============================================================================
+
+/**
+ * POST /api/v1/device/:uuid/volume-backups?app_id=&volume_name=
+ * Upload a volume archive (run by the volume-backup job handler)
+ */
+router.post('/device/:uuid/volume-backups', deviceAuth, async (req: Request, res: Response) => {
+  const { uuid } = req.params;
+  const appId = parseInt(String(req.query.app_id), 10);
+  const volumeName = req.query.volume_name;
+
+  const validationError = validateVolumeRef(appId, volumeName);
+  if (validationError) {
+    return res.status(400).json({ error: 'Invalid backup', message: validationError });
+  }
+
+  try {
+    const backup = await storeBackup(uuid, req.device?.deviceName || null, appId, volumeName as string, req);
+
+    await eventPublisher.publish(
+      'volume.backup_created',
+      'device',
+      uuid,
+      {
+        backup_id: backup.id,
+        app_id: appId,
+        volume_name: backup.volume_name,
+        size_bytes: backup.size_bytes,
+      },
+      {
+        severity: 'info',
+        impact: 'low',
+        metadata: { endpoint: '/device/:uuid/volume-backups' },
+      }
+    );
+
+    moduleLogger.info('Stored volume backup', {
+      deviceUuid: uuid,
+      backupId: backup.id,
+      appId,
+      volumeName: backup.volume_name,
+      sizeBytes: backup.size_bytes,
+    });
+    return res.status(201).json(backup);
+  } catch (error: any) {
+    if (error instanceof BackupTooLargeError) {
+      return res.status(413).json({ error: 'Backup too large', message: error.message });
+    }
+    moduleLogger.error('Error storing volume backup', { error: error.message, deviceUuid: uuid });
+    return res.status(500).json({
+      error: 'Failed to store volume backup',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/v1/device/:uuid/volume-backups/:id/download
+ * Download a backup (run by the volume-restore job handler)
+ */
+router.get('/device/:uuid/volume-backups/:id/download', deviceAuth, async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    const backup = id !== null ? await getBackup(id) : null;
+    if (!backup || !(await canDeviceDownload(backup, req.params.uuid))) {
+      return res.status(404).json({
+        error: 'Backup not found',
+        message: `Backup ${req.params.id} not found`,
+      });
+    }
+
+    return sendBackupFile(res, backup);
+  } catch (error: any) {
+    moduleLogger.error('Error downloading volume backup', { error: error.message, deviceUuid: req.params.uuid });
+    return res.status(500).json({
+      error: 'Failed to download volume backup',
+      message: error.message,
+    });
+  }
+});
+
+// =============================================================================
+// Management endpoints
+// =============================================================================
+
+/**
+ * GET /api/v1/devices/:uuid/volume-backups
+ * List a device's backups (newest first)
+ */
+router.get('/devices/:uuid/volume-backups',
+  hasPermission(PERMISSIONS.DEVICE_READ),
+  async (req: Request, res: Response) => {
+  try {
+    const backups = await listBackups(req.params.uuid);
+    return res.json({ deviceUuid: req.params.uuid, backups, count: backups.length });
+  } catch (error: any) {
+    moduleLogger.error('Error listing volume backups', { error: error.message, deviceUuid: req.params.uuid });
+    return res.status(500).json({
+      error: 'Failed to list volume backups',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/v1/devices/:uuid/volume-backups
+ * Queue a backup job
+ *
+ * Body: { app_id: 1001, volume_name: 'historian', pause_service?: false }
+ */
+router.post('/devices/:uuid/volume-backups',
+  hasPermission(PERMISSIONS.DEVICE_CONTROL),
+  async (req: Request, res: Response) => {
+  try {
+    const { uuid } = req.params;
+    const { app_id, volume_name, pause_service } = req.body;
+
+    const validationError = validateVolumeRef(app_id, volume_name);
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid backup request', message: validationError });
+    }
+
+    const deviceResult = await query('SELECT uuid FROM devices WHERE uuid = $1', [uuid]);
+    if (deviceResult.rows.length === 0) {
+      return res.status(404).json({
+        error: 'Device not found',
+        message: `Device ${uuid} not found`,
+      });
+    }
+
+    const job = await requestBackup(uuid, app_id, volume_name, pause_service === true, req.user?.username || 'admin');
+    return res.status(202).json({ job, message: `Backup of volume ${volume_name} queued` });
+  } catch (error: any) {
+    moduleLogger.error('Error queueing volume backup', { error: error.message, deviceUuid: req.params.uuid });
+    return res.status(500).json({
+      error: 'Failed to queue volume backup',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/v1/volume-backups/:id/restore
+ * Queue a restore job. The volume is recreated on device_uuid (default: the
+ * device the backup was taken on); its services are stopped during the restore.
+ *
+ * Body: { device_uuid?: '...' }
+ */
+router.post('/volume-backups/:id/restore',
+  hasScopedPermission(PERMISSIONS.DEVICE_CONTROL),
+  async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    const backup = id !== null ? await getBackup(id) : null;
+    if (!backup || !(await canUseDevice(req, PERMISSIONS.DEVICE_CONTROL, backup.device_uuid))) {
+      return res.status(404).json({ error: 'Backup not found', message: `Backup ${req.params.id} not found` });
+    }
+
+    const targetUuid = req.body.device_uuid || backup.device_uuid;
+    if (!targetUuid) {
+      return res.status(400).json({
+        error: 'Invalid restore request',
+        message: 'device_uuid is required, the source device no longer exists',
+      });
+    }
+
+    if (!(await canUseDevice(req, PERMISSIONS.DEVICE_CONTROL, targetUuid))) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: `Insufficient permissions for device ${targetUuid}`,
+      });
+    }
+
+    const deviceResult = await query('SELECT uuid FROM devices WHERE uuid = $1', [targetUuid]);
+    if (deviceResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Device not found', message: `Device ${targetUuid} not found` });
+    }
+
+    const requestedBy = req.user?.username || 'admin';
+    const job = await requestRestore(backup, targetUuid, requestedBy);
+
+    await eventPublisher.publish(
+      'volume.restore_requested',
+      'device',
+      targetUuid,
+      {
+        backup_id: backup.id,
+        source_device_uuid: backup.device_uuid,
+        app_id: backup.app_id,
+        volume_name: backup.volume_name,
+        job_id: job.job_id,
+      },
+      {
+        severity: 'warning',
+        impact: 'medium',
+        actor: { type: 'user', id: requestedBy, ip_address: req.ip },
+        metadata: { endpoint: '/volume-backups/:id/restore' },
+      }
+    );
+
+    return res.status(202).json({ job, message: `Restore of volume ${backup.volume_name} queued` });
+  } catch (error: any) {
+    moduleLogger.error('Error queueing volume restore', { error: error.message, backupId: req.params.id });
+    return res.status(500).json({
+      error: 'Failed to queue volume restore',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * GET /api/v1/volume-backups/:id/download
+ * Download a backup
+ */
+router.get('/volume-backups/:id/download',
+  hasScopedPermission(PERMISSIONS.DATA_EXPORT),
+  async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    const backup = id !== null ? await getBackup(id) : null;
+    if (!backup || !(await canUseDevice(req, PERMISSIONS.DATA_EXPORT, backup.device_uuid))) {
+      return res.status(404).json({ error: 'Backup not found', message: `Backup ${req.params.id} not found` });
+    }
+    return sendBackupFile(res, backup);
+  } catch (error: any) {
+    moduleLogger.error('Error downloading volume backup', { error: error.message, backupId: req.params.id });
+    return res.status(500).json({
+      error: 'Failed to download volume backup',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * DELETE /api/v1/volume-backups/:id
+ * Delete a backup and its archive
+ */
+router.delete('/volume-backups/:id',
+  hasScopedPermission(PERMISSIONS.DATA_DELETE),
+  async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    const backup = id !== null ? await getBackup(id) : null;
+    if (!backup || !(await canUseDevice(req, PERMISSIONS.DATA_DELETE, backup.device_uuid))) {
+      return res.status(404).json({ error: 'Backup not found', message: `Backup ${req.params.id} not found` });
+    }
+
+    await deleteBackup(backup);
+    return res.json({ message: 'Backup deleted', id: backup.id });
+  } catch (error: any) {
+    moduleLogger.error('Error deleting volume backup', { error: error.message, backupId: req.params.id });
+    return res.status(500).json({
+      error: 'Failed to delete volume backup',
+      message: error.message,
+    });
+  }
+});
@@ -0,0 +1,216 @@
+/**
+ * Access Scope
+ * Scoped RBAC on top of the global roles. A role binding grants a role's
+ * device and data permissions for one fleet, the devices matching a tag
+ * selector, or a single device. Users with bindings get those permissions
+ * only through their bindings; users without bindings keep their global role.
+ */
+
+import { query } from '../db/connection';
+import {
+  BINDABLE_ROLES,
+  DEVICE_SCOPED_PERMISSIONS,
+  EffectiveAccess,
+  Permission,
+  Role,
+  RoleBinding,
+  ROLE_PERMISSIONS,
+  ROLES,
+} from '../types/permissions';
+import { TagSelector } from '../types/device-tags';
+
+export interface RoleBindingInput {
+  role?: string;
+  fleet_id?: string | null;
+  tag_selector?: TagSelector | null;
+  device_uuid?: string | null;
+}
+
+const COLUMNS = `id, user_id AS "userId", role, fleet_id AS "fleetId", tag_selector AS "tagSelector",
+  device_uuid AS "deviceUuid", created_by AS "createdBy", created_at AS "createdAt"`;
+
+// Devices (alias d) covered by a binding (alias b); tag selectors use the
+// same AND matching as maintenance windows
+const BINDING_MATCHES_DEVICE = `(
+  b.device_uuid = d.uuid
+  OR (b.fleet_id IS NOT NULL AND b.fleet_id = d.fleet_id)
+  OR (b.tag_selector IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM jsonb_each_text(b.tag_selector) s
+    WHERE NOT EXISTS (
+      SELECT 1 FROM device_tags t
+      WHERE t.device_uuid = d.uuid AND t.key = s.key AND t.value = s.value
+    )
+  ))
+)`;
+
+/**
+ * Validate a create request
+ * @returns error message, or null when valid
+ */
+export function validateRoleBindingInput(input: RoleBindingInput): string | null {
+  if (!BINDABLE_ROLES.includes(input.role as Role)) {
+    return `role must be one of: ${BINDABLE_ROLES.join(', ')}`;
+  }
+
+  const scopes = [input.fleet_id, input.tag_selector, input.device_uuid].filter((scope) => !!scope);
+  if (scopes.length !== 1) {
+    return 'Exactly one of fleet_id, tag_selector or device_uuid is required';
+  }
+
+  if (input.fleet_id !== undefined && input.fleet_id !== null && typeof input.fleet_id !== 'string') {
+    return 'fleet_id must be a string';
+  }
+
+  if (input.tag_selector) {
+    const selector = input.tag_selector;
+    if (typeof selector !== 'object' || Array.isArray(selector) || Object.keys(selector).length === 0
+      || !Object.values(selector).every((value) => typeof value === 'string')) {
+      return 'tag_selector must be a non-empty object of tag key/value strings';
+    }
+  }
+
+  return null;
+}
+
+export async function listRoleBindings(userId: number): Promise<RoleBinding[]> {
+  const result = await query<RoleBinding>(
+    `SELECT ${COLUMNS} FROM user_role_bindings WHERE user_id = $1 ORDER BY id`,
+    [userId]
+  );
+  return result.rows;
+}
+
+export async function createRoleBinding(
+  userId: number,
+  input: RoleBindingInput,
+  createdBy: string | null
+): Promise<RoleBinding> {
+  const result = await query<RoleBinding>(
+    `INSERT INTO user_role_bindings (user_id, role, fleet_id, tag_selector, device_uuid, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING ${COLUMNS}`,
+    [
+      userId,
+      input.role,
+      input.fleet_id || null,
+      input.tag_selector ? JSON.stringify(input.tag_selector) : null,
+      input.device_uuid || null,
+      createdBy,
+    ]
+  );
+  return result.rows[0];
+}
+
+export async function deleteRoleBinding(userId: number, bindingId: number): Promise<boolean> {
+  const result = await query(
+    'DELETE FROM user_role_bindings WHERE id = $1 AND user_id = $2',
+    [bindingId, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Global permissions and role bindings of a user. Owners and admins are
+ * never scoped.
+ * @param tokenPermissions permissions of the personal access token used, if any
+ */
+export async function loadEffectiveAccess(
+  user: { id: number; role: string },
+  tokenPermissions?: Permission[]
+): Promise<EffectiveAccess> {
+  const role = user.role as Role;
+  const rolePermissions = (ROLE_PERMISSIONS[role] || [])
+    .filter((perm) => !tokenPermissions || tokenPermissions.includes(perm));
+
+  const bindings = role === ROLES.OWNER || role === ROLES.ADMIN
+    ? []
+    : await listRoleBindings(user.id);
+
+  if (bindings.length === 0) {
+    return { role, scoped: false, globalPermissions: rolePermissions, bindings, tokenPermissions };
+  }
+
+  return {
+    role,
+    scoped: true,
+    globalPermissions: rolePermissions.filter((perm) => !DEVICE_SCOPED_PERMISSIONS.includes(perm)),
+    bindings,
+    tokenPermissions,
+  };
+}
+
+/**
+ * Permissions a binding grants within its scope
+ */
+export function bindingPermissions(binding: RoleBinding): Permission[] {
+  return (ROLE_PERMISSIONS[binding.role] || []).filter((perm) => DEVICE_SCOPED_PERMISSIONS.includes(perm));
+}
+
+/**
+ * Whether the user has the permission globally or for some devices
+ */
+export function hasPermissionInAnyScope(access: EffectiveAccess, permission: Permission): boolean {
+  if (access.tokenPermissions && !access.tokenPermissions.includes(permission)) {
+    return false;
+  }
+  return access.globalPermissions.includes(permission)
+    || access.bindings.some((binding) => bindingPermissions(binding).includes(permission));
+}
+
+function rolesGranting(permission: Permission): Role[] {
+  return BINDABLE_ROLES.filter((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+/**
+ * Devices the user holds a permission for
+ * @returns device UUIDs, or null when the permission is global (all devices)
+ */
+export async function resolveDeviceScope(
+  userId: number,
+  access: EffectiveAccess,
+  permission: Permission
+): Promise<string[] | null> {
+  if (access.globalPermissions.includes(permission)) {
+    return null;
+  }
+  if (!hasPermissionInAnyScope(access, permission)) {
+    return [];
+  }
+
+  const result = await query<{ uuid: string }>(
+    `SELECT d.uuid FROM devices d
+     WHERE EXISTS (
+       SELECT 1 FROM user_role_bindings b
+       WHERE b.user_id = $1 AND b.role = ANY($2) AND ${BINDING_MATCHES_DEVICE}
+     )`,
+    [userId, rolesGranting(permission)]
+  );
+  return result.rows.map((row) => row.uuid);
+}
+
+/**
+ * Whether the user holds a permission for one device
+ */
+export async function canAccessDevice(
+  userId: number,
+  access: EffectiveAccess,
+  permission: Permission,
+  deviceUuid: string
+): Promise<boolean> {
+  if (access.globalPermissions.includes(permission)) {
+    return true;
+  }
+  if (!hasPermissionInAnyScope(access, permission)) {
+    return false;
+  }
+
+  const result = await query(
+    `SELECT 1 FROM devices d
+     WHERE d.uuid::text = $3 AND EXISTS (
+       SELECT 1 FROM user_role_bindings b
+       WHERE b.user_id = $1 AND b.role = ANY($2) AND ${BINDING_MATCHES_DEVICE}
+     )`,
+    [userId, rolesGranting(permission), deviceUuid]
+  );
+  return result.rows.length > 0;
+}
@@ -0,0 +1,492 @@
+/**
+ * Alert Notifier
+ *
+ * Delivers alerts over the channels enabled on the rule:
+ * - notify_email:   postoffice POST /api/email/send with the AlertNotification template
+ * - notify_webhook: signed JSON POST to alert_webhooks (generic, Slack or Teams format)
+ *
+ * Each recipient gets a row in alert_notification_deliveries. Failed attempts are
+ * retried with exponential backoff by the retry worker until max attempts.
+ *
+ * Webhook requests carry:
+ *   X-Iotistic-Timestamp: unix seconds
+ *   X-Iotistic-Signature: sha256=HMAC_SHA256(secret, `${timestamp}.${body}`)
+ *
+ * Webhooks to loopback, private or link-local addresses are refused unless the
+ * host is listed in ALERT_WEBHOOK_ALLOWED_HOSTS; redirects are not followed.
+ */
+
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { query } from '../db/connection';
+import logger from '../utils/logger';
+import { checkWebhookUrl, webhookAgents } from '../utils/webhook-target';
+
+export type WebhookFormat = 'json' | 'slack' | 'teams';
+
+export interface AlertNotificationContext {
+  alertId: number | null;
+  ruleId: number | null;
+  ruleName: string;
+  severity: string;
+  message: string;
+  deviceUuid: string | null;
+  deviceName: string | null;
+  value: number | null;
+  status: string;
+  firstSeen: string;
+  alertUrl: string;
+  test?: boolean;
+}
+
+const POSTOFFICE_URL = process.env.POSTOFFICE_URL || 'http://postoffice:3300';
+const DASHBOARD_URL = process.env.DASHBOARD_URL || 'http://localhost:3000';
+const MAX_ATTEMPTS = parseInt(process.env.ALERT_NOTIFY_MAX_ATTEMPTS || '5', 10);
+const RETRY_INTERVAL_MS = parseInt(process.env.ALERT_NOTIFY_RETRY_INTERVAL_MS || '30000', 10);
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: '#d32f2f',
+  warning: '#f9a825',
+  info: '#1976d2',
+};
+
+/**
+ * Delay before the next attempt (30s, 1m, 2m, ... capped at 1h)
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_BACKOFF_MS);
+}
+
+/**
+ * Signature sent in X-Iotistic-Signature
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Build the webhook body for the endpoint's format
+ */
+export function buildWebhookPayload(format: WebhookFormat, context: AlertNotificationContext): Record<string, any> {
+  const title = `${context.test ? '[TEST] ' : ''}[${context.severity.toUpperCase()}] ${context.ruleName}`;
+  const facts = [
+    { name: 'Device', value: context.deviceName || context.deviceUuid || '-' },
+    { name: 'Severity', value: context.severity },
+    { name: 'Status', value: context.status },
+    ...(context.value !== null ? [{ name: 'Value', value: String(context.value) }] : []),
+    { name: 'First seen', value: context.firstSeen },
+  ];
+
+  if (format === 'slack') {
+    return {
+      text: `${title}: ${context.message}`,
+      attachments: [
+        {
+          color: SEVERITY_COLORS[context.severity] || SEVERITY_COLORS.info,
+          title,
+          title_link: context.alertUrl,
+          text: context.message,
+          fields: facts.map(fact => ({ title: fact.name, value: fact.value, short: true })),
+          ts: Math.floor(new Date(context.firstSeen).getTime() / 1000),
+        },
+      ],
+    };
+  }
+
+  if (format === 'teams') {
+    return {
+      '@type': 'MessageCard',
+      '@context': 'https://schema.org/extensions',
+      themeColor: (SEVERITY_COLORS[context.severity] || SEVERITY_COLORS.info).replace('#', ''),
+      summary: title,
+      sections: [
+        {
+          activityTitle: title,
+          text: context.message,
+          facts,
+        },
+      ],
+      potentialAction: [
+        {
+          '@type': 'OpenUri',
+          name: 'View alert',
+          targets: [{ os: 'default', uri: context.alertUrl }],
+        },
+      ],
+    };
+  }
+
+  return {
+    event: context.test ? 'alert.test' : 'alert.triggered',
+    alert: {
+      id: context.alertId,
+      rule_id: context.ruleId,
+      rule_name: context.ruleName,
+      severity: context.severity,
+      status: context.status,
+      message: context.message,
+      device_uuid: context.deviceUuid,
+      device_name: context.deviceName,
+      value: context.value,
+      first_seen: context.firstSeen,
+      url: context.alertUrl,
+    },
+    timestamp: new Date().toISOString(),
+  };
+}
+
+class AlertNotifier {
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  /**
+   * Start the retry worker for pending deliveries
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.processPending().catch(error => {
+        logger.error('[AlertNotifier] Retry processing failed', { error: error.message });
+      });
+    }, RETRY_INTERVAL_MS);
+
+    logger.info('[AlertNotifier] Started', { intervalMs: RETRY_INTERVAL_MS, maxAttempts: MAX_ATTEMPTS });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('[AlertNotifier] Stopped');
+    }
+  }
+
+  /**
+   * Queue and attempt deliveries for a newly created alert
+   * Never throws - notification failures must not break alert processing
+   */
+  async notify(rule: any, alertId: number): Promise<void> {
+    try {
+      const alertResult = await query(
+        `SELECT a.*, d.device_name
+         FROM log_alerts a
+         LEFT JOIN devices d ON a.device_uuid = d.uuid
+         WHERE a.id = $1`,
+        [alertId]
+      );
+
+      if (alertResult.rows.length === 0) {
+        return;
+      }
+
+      const alert = alertResult.rows[0];
+      const context: AlertNotificationContext = {
+        alertId: alert.id,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity: alert.severity,
+        message: alert.message,
+        deviceUuid: alert.device_uuid,
+        deviceName: alert.device_name || null,
+        value: alert.value !== null && alert.value !== undefined ? Number(alert.value) : null,
+        status: alert.status,
+        firstSeen: new Date(alert.first_seen).toISOString(),
+        alertUrl: `${DASHBOARD_URL}/alerts/${alert.id}`,
+      };
+
+      const deliveries = await this.queueDeliveries(rule, context, MAX_ATTEMPTS);
+      for (const delivery of deliveries) {
+        await this.attempt(delivery);
+      }
+    } catch (error) {
+      logger.error('[AlertNotifier] Failed to notify alert', {
+        alertId,
+        ruleId: rule.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Send a synthetic alert to the rule's recipients (single attempt, recorded as test)
+   */
+  async sendTest(rule: any): Promise<any[]> {
+    const context = this.testContext(rule.name, rule.severity, rule.id);
+    const deliveries = await this.queueDeliveries(rule, context, 1, true);
+
+    const results = [];
+    for (const delivery of deliveries) {
+      results.push(await this.attempt(delivery));
+    }
+    return results;
+  }
+
+  /**
+   * Send a synthetic alert to one webhook endpoint
+   */
+  async testWebhook(webhook: any): Promise<any> {
+    const context = this.testContext('Test notification', 'info', null);
+    const result = await query(
+      `INSERT INTO alert_notification_deliveries
+         (channel, webhook_id, recipient, payload, max_attempts, is_test, next_attempt_at)
+       VALUES ('webhook', $1, $2, $3, 1, true, NULL)
+       RETURNING *`,
+      [webhook.id, webhook.url, JSON.stringify(context)]
+    );
+
+    return this.attempt(result.rows[0]);
+  }
+
+  /**
+   * Delivery history
+   */
+  async getDeliveries(filters: {
+    alert_id?: number;
+    rule_id?: number;
+    status?: string;
+    channel?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<any[]> {
+    let sql = 'SELECT * FROM alert_notification_deliveries WHERE 1=1';
+    const params: any[] = [];
+
+    for (const field of ['alert_id', 'rule_id', 'status', 'channel'] as const) {
+      if (filters[field] !== undefined) {
+        params.push(filters[field]);
+        sql += ` AND ${field} = $${params.length}`;
+      }
+    }
+
+    params.push(filters.limit || 100, filters.offset || 0);
+    sql += ` ORDER BY created_at DESC LIMIT $${params.length - 1} OFFSET $${params.length}`;
+
+    const result = await query(sql, params);
+    return result.rows;
+  }
+
+  /**
+   * Retry pending deliveries whose backoff elapsed
+   */
+  async processPending(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const result = await query(
+        `SELECT * FROM alert_notification_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+         ORDER BY next_attempt_at
+         LIMIT 50`
+      );
+
+      for (const delivery of result.rows) {
+        await this.attempt(delivery);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  private testContext(ruleName: string, severity: string, ruleId: number | null): AlertNotificationContext {
+    return {
+      alertId: null,
+      ruleId,
+      ruleName,
+      severity: severity || 'info',
+      message: `Test notification for "${ruleName}" - no action required`,
+      deviceUuid: null,
+      deviceName: 'test-device',
+      value: null,
+      status: 'active',
+      firstSeen: new Date().toISOString(),
+      alertUrl: `${DASHBOARD_URL}/alerts`,
+      test: true,
+    };
+  }
+
+  /**
+   * Create delivery rows for the rule's email recipients and webhooks
+   */
+  private async queueDeliveries(
+    rule: any,
+    context: AlertNotificationContext,
+    maxAttempts: number,
+    isTest = false
+  ): Promise<any[]> {
+    const deliveries: any[] = [];
+
+    const insert = async (channel: 'email' | 'webhook', recipient: string, webhookId: number | null) => {
+      const result = await query(
+        `INSERT INTO alert_notification_deliveries
+           (alert_id, rule_id, channel, webhook_id, recipient, payload, max_attempts, is_test, next_attempt_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          context.alertId,
+          rule.id || null,
+          channel,
+          webhookId,
+          recipient,
+          JSON.stringify(context),
+          maxAttempts,
+          isTest,
+          // Attempted right away; the retry worker only picks it up if that attempt is lost
+          new Date(Date.now() + retryDelayMs(1)),
+        ]
+      );
+      deliveries.push(result.rows[0]);
+    };
+
+    if (rule.notify_email) {
+      const recipients: string[] = rule.notify_emails || [];
+      if (recipients.length === 0) {
+        logger.warn('[AlertNotifier] notify_email set but rule has no notify_emails', { ruleId: rule.id });
+      }
+      for (const email of recipients) {
+        await insert('email', email, null);
+      }
+    }
+
+    if (rule.notify_webhook) {
+      const webhooks = await query(
+        `SELECT id, url FROM alert_webhooks
+         WHERE is_enabled = true AND ($1::int[] IS NULL OR cardinality($1::int[]) = 0 OR id = ANY($1::int[]))
+         ORDER BY id`,
+        [rule.webhook_ids || null]
+      );
+      for (const webhook of webhooks.rows) {
+        await insert('webhook', webhook.url, webhook.id);
+      }
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Attempt one delivery and record the outcome
+   */
+  private async attempt(delivery: any): Promise<any> {
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+
+    try {
+      responseStatus = delivery.channel === 'email'
+        ? await this.sendEmail(delivery)
+        : await this.sendWebhook(delivery);
+
+      const result = await query(
+        `UPDATE alert_notification_deliveries
+         SET status = 'delivered', attempts = $2, response_status = $3,
+             last_error = NULL, delivered_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [delivery.id, attempts, responseStatus]
+      );
+
+      logger.info('[AlertNotifier] Notification delivered', {
+        deliveryId: delivery.id,
+        channel: delivery.channel,
+        recipient: delivery.recipient,
+        attempts,
+      });
+
+      return result.rows[0];
+    } catch (error: any) {
+      const message = error?.response
+        ? `HTTP ${error.response.status}`
+        : error instanceof Error ? error.message : String(error);
+      const exhausted = attempts >= delivery.max_attempts;
+
+      const result = await query(
+        `UPDATE alert_notification_deliveries
+         SET status = $2, attempts = $3, response_status = $4, last_error = $5,
+             next_attempt_at = $6
+         WHERE id = $1
+         RETURNING *`,
+        [
+          delivery.id,
+          exhausted ? 'failed' : 'pending',
+          attempts,
+          error?.response?.status || null,
+          message,
+          exhausted ? null : new Date(Date.now() + retryDelayMs(attempts)),
+        ]
+      );
+
+      logger.warn('[AlertNotifier] Notification delivery failed', {
+        deliveryId: delivery.id,
+        channel: delivery.channel,
+        recipient: delivery.recipient,
+        attempts,
+        willRetry: !exhausted,
+        error: message,
+      });
+
+      return result.rows[0];
+    }
+  }
+
+  private async sendEmail(delivery: any): Promise<number> {
+    const context: AlertNotificationContext = delivery.payload;
+
+    const response = await axios.post(
+      `${POSTOFFICE_URL}/api/email/send`,
+      {
+        user: { email: delivery.recipient },
+        templateName: 'AlertNotification',
+        context: { alert: context },
+      },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+
+    return response.status;
+  }
+
+  private async sendWebhook(delivery: any): Promise<number> {
+    const webhookResult = await query(
+      'SELECT * FROM alert_webhooks WHERE id = $1',
+      [delivery.webhook_id]
+    );
+
+    const webhook = webhookResult.rows[0];
+    if (!webhook) {
+      throw new Error('Webhook endpoint was deleted');
+    }
+
+    const targetError = checkWebhookUrl(webhook.url);
+    if (targetError) {
+      throw new Error(targetError);
+    }
+
+    const body = JSON.stringify(buildWebhookPayload(webhook.format, delivery.payload));
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await axios.post(webhook.url, body, {
+      timeout: REQUEST_TIMEOUT_MS,
+      maxRedirects: 0,
+      ...webhookAgents(webhook.url),
+      headers: {
+        ...(webhook.headers || {}),
+        'Content-Type': 'application/json',
+        'User-Agent': 'Iotistic-Alerts/1.0',
+        'X-Iotistic-Event': delivery.payload.test ? 'alert.test' : 'alert.triggered',
+        'X-Iotistic-Delivery': String(delivery.id),
+        'X-Iotistic-Timestamp': String(timestamp),
+        'X-Iotistic-Signature': signPayload(webhook.secret, timestamp, body),
+      },
+    });
+
+    return response.status;
+  }
+}
+
+export const alertNotifier = new AlertNotifier();
@@ -1,29 +1,66 @@
 /**
  * Alerts Service
  * 
- * Handles log alert rule management and alert instance processing
+ * Handles alert rule management and alert instance processing.
+ * Log rules match patterns in device logs; metric rules compare device metrics,
+ * sensor readings or heartbeat status against thresholds. Both create log_alerts.
  */
 
+import { randomBytes } from 'crypto';
 import { query } from '../db/connection';
+import { alertNotifier } from './alert-notifier';
 import logger from '../utils/logger';
 
+export type AlertRuleType = 'log' | 'metric';
+export type MetricSource = 'device_metric' | 'sensor' | 'heartbeat';
+export type MetricCondition = 'above' | 'below' | 'outside_range' | 'no_data';
+
 export interface AlertRule {
   id?: number;
   name: string;
   description?: string;
   device_uuid?: string;
-  pattern: string;
-  pattern_type: 'regex' | 'keyword' | 'exact';
+  rule_type?: AlertRuleType;
+
+  // Log rules
+  pattern?: string;
+  pattern_type?: 'regex' | 'keyword' | 'exact';
   service_name?: string;
   level?: string;
-  trigger_type: 'count' | 'rate' | 'sequence';
-  threshold: number;
-  time_window: number;
+  trigger_type?: 'count' | 'rate' | 'sequence';
+  threshold?: number;
+  time_window?: number;
+
+  // Metric rules
+  source?: MetricSource;
+  metric?: string;
+  sensor_name?: string;
+  condition?: MetricCondition;
+  threshold_value?: number;
+  range_min?: number;
+  range_max?: number;
+  for_duration?: number;
+  hysteresis?: number;
+  auto_resolve?: boolean;
+
   severity: 'info' | 'warning' | 'critical';
   notify_email: boolean;
   notify_webhook: boolean;
   notify_dashboard: boolean;
+  notify_emails?: string[];
+  webhook_ids?: number[] | null;
+  is_enabled: boolean;
+}
+
+export interface AlertWebhook {
+  id?: number;
+  name: string;
+  url: string;
+  secret?: string;
+  format: 'json' | 'slack' | 'teams';
+  headers?: Record<string, string>;
   is_enabled: boolean;
+  created_by?: string;
 }
 
 export interface Alert {
@@ -33,6 +70,8 @@ export interface Alert {
   matched_log_ids: number[];
   message: string;
   count: number;
+  value?: number;
+  auto_resolved?: boolean;
   status: 'active' | 'acknowledged' | 'resolved';
   severity: 'info' | 'warning' | 'critical';
   first_seen: Date;
@@ -68,6 +107,7 @@ export async function getAlertRules(filters?: {
   device_uuid?: string;
   is_enabled?: boolean;
   severity?: string;
+  rule_type?: AlertRuleType;
 }): Promise<AlertRule[]> {
   logger.info('Fetching alert rules', { filters });
 
@@ -97,6 +137,12 @@ export async function getAlertRules(filters?: {
     params.push(filters.severity);
   }
 
+  if (filters?.rule_type) {
+    paramCount++;
+    sql += ` AND rule_type = $${paramCount}`;
+    params.push(filters.rule_type);
+  }
+
   sql += ' ORDER BY created_at DESC';
 
   const result = await query(sql, params);
@@ -129,31 +175,48 @@ export async function getAlertRuleById(id: number): Promise<AlertRule | null> {
  * Create new alert rule
  */
 export async function createAlertRule(rule: Omit<AlertRule, 'id'>): Promise<AlertRule> {
-  logger.info('Creating alert rule', { name: rule.name, pattern: rule.pattern });
+  logger.info('Creating alert rule', { name: rule.name, rule_type: rule.rule_type || 'log', pattern: rule.pattern });
 
   const result = await query(
     `INSERT INTO log_alert_rules (
       name, description, device_uuid, pattern, pattern_type,
       service_name, level, trigger_type, threshold, time_window,
-      severity, notify_email, notify_webhook, notify_dashboard, is_enabled
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      severity, notify_email, notify_webhook, notify_dashboard, is_enabled,
+      rule_type, source, metric, sensor_name, condition, threshold_value,
+      range_min, range_max, for_duration, hysteresis, auto_resolve,
+      notify_emails, webhook_ids
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+              $16, $17, $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28)
     RETURNING *`,
     [
       rule.name,
       rule.description || null,
       rule.device_uuid || null,
-      rule.pattern,
-      rule.pattern_type,
+      rule.pattern || null,
+      rule.pattern_type || null,
       rule.service_name || null,
       rule.level || null,
-      rule.trigger_type,
-      rule.threshold,
-      rule.time_window,
+      rule.trigger_type || 'count',
+      rule.threshold ?? 1,
+      rule.time_window ?? 300,
       rule.severity,
       rule.notify_email,
       rule.notify_webhook,
       rule.notify_dashboard,
-      rule.is_enabled
+      rule.is_enabled,
+      rule.rule_type || 'log',
+      rule.source || null,
+      rule.metric || null,
+      rule.sensor_name || null,
+      rule.condition || null,
+      rule.threshold_value ?? null,
+      rule.range_min ?? null,
+      rule.range_max ?? null,
+      rule.for_duration ?? 0,
+      rule.hysteresis ?? 0,
+      rule.auto_resolve ?? true,
+      rule.notify_emails || [],
+      rule.webhook_ids || null
     ]
   );
 
@@ -445,6 +508,7 @@ export async function processLogAlerts(deviceUuid: string): Promise<void> {
   const rules = await query(
     `SELECT * FROM log_alert_rules 
      WHERE is_enabled = true 
+     AND rule_type = 'log'
      AND (device_uuid IS NULL OR device_uuid = $1)`,
     [deviceUuid]
   );
@@ -592,12 +656,437 @@ async function createOrUpdateAlert(rule: any, matchedLogs: any[], deviceUuid: st
       count: matchedLogs.length
     });
 
-    // TODO: Send notifications based on rule settings
     if (rule.notify_dashboard) {
       // Publish to Redis for WebSocket notification
       await publishAlertNotification(result.rows[0].id, deviceUuid);
     }
+
+    if (rule.notify_email || rule.notify_webhook) {
+      await alertNotifier.notify(rule, result.rows[0].id);
+    }
+  }
+}
+
+// ============================================================================
+// WEBHOOK ENDPOINTS
+// ============================================================================
+
+const WEBHOOK_COLUMNS = 'id, name, url, format, headers, is_enabled, created_by, created_at, updated_at';
+
+/**
+ * Get webhook endpoints (secrets are only returned on create)
+ */
+export async function getAlertWebhooks(): Promise<AlertWebhook[]> {
+  const result = await query(`SELECT ${WEBHOOK_COLUMNS} FROM alert_webhooks ORDER BY name`);
+  return result.rows;
+}
+
+/**
+ * Get webhook endpoint by ID (including secret, for signing and tests)
+ */
+export async function getAlertWebhookById(id: number): Promise<AlertWebhook | null> {
+  const result = await query('SELECT * FROM alert_webhooks WHERE id = $1', [id]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Create webhook endpoint, generating a signing secret if none is given
+ */
+export async function createAlertWebhook(webhook: Omit<AlertWebhook, 'id'>): Promise<AlertWebhook> {
+  logger.info('Creating alert webhook', { name: webhook.name, format: webhook.format });
+
+  const result = await query(
+    `INSERT INTO alert_webhooks (name, url, secret, format, headers, is_enabled, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [
+      webhook.name,
+      webhook.url,
+      webhook.secret || randomBytes(32).toString('hex'),
+      webhook.format || 'json',
+      JSON.stringify(webhook.headers || {}),
+      webhook.is_enabled ?? true,
+      webhook.created_by || null
+    ]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Update webhook endpoint
+ */
+export async function updateAlertWebhook(id: number, updates: Partial<AlertWebhook>): Promise<AlertWebhook | null> {
+  const fields: string[] = [];
+  const params: any[] = [];
+
+  for (const key of ['name', 'url', 'secret', 'format', 'headers', 'is_enabled'] as const) {
+    if (updates[key] !== undefined) {
+      params.push(key === 'headers' ? JSON.stringify(updates[key]) : updates[key]);
+      fields.push(`${key} = $${params.length}`);
+    }
   }
+
+  if (fields.length === 0) {
+    return getAlertWebhookById(id);
+  }
+
+  params.push(id);
+  const result = await query(
+    `UPDATE alert_webhooks SET ${fields.join(', ')} WHERE id = $${params.length} RETURNING ${WEBHOOK_COLUMNS}`,
+    params
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Delete webhook endpoint
+ */
+export async function deleteAlertWebhook(id: number): Promise<boolean> {
+  const result = await query('DELETE FROM alert_webhooks WHERE id = $1 RETURNING id', [id]);
+  return result.rows.length > 0;
+}
+
+// ============================================================================
+// METRIC RULES
+// ============================================================================
+
+/**
+ * Device metric columns available to metric rules (source = 'device_metric')
+ */
+const DEVICE_METRIC_EXPRESSIONS: Record<string, string> = {
+  cpu_usage: 'cpu_usage',
+  cpu_temp: 'cpu_temp',
+  memory_usage: 'memory_usage',
+  memory_percent: 'memory_usage * 100.0 / NULLIF(memory_total, 0)',
+  storage_usage: 'storage_usage',
+  storage_percent: 'storage_usage * 100.0 / NULLIF(storage_total, 0)',
+};
+
+export const DEVICE_METRICS = Object.keys(DEVICE_METRIC_EXPRESSIONS);
+
+export interface MetricSample {
+  device_uuid: string;
+  value: number | null;
+  timestamp: Date;
+}
+
+/**
+ * Validate the metric fields of a rule, returns an error message or null
+ */
+export function validateMetricRule(rule: Partial<AlertRule>): string | null {
+  if (!rule.source || !['device_metric', 'sensor', 'heartbeat'].includes(rule.source)) {
+    return 'source must be one of: device_metric, sensor, heartbeat';
+  }
+
+  if (!rule.condition || !['above', 'below', 'outside_range', 'no_data'].includes(rule.condition)) {
+    return 'condition must be one of: above, below, outside_range, no_data';
+  }
+
+  if (rule.source === 'device_metric' && !DEVICE_METRICS.includes(rule.metric || '')) {
+    return `metric must be one of: ${DEVICE_METRICS.join(', ')}`;
+  }
+
+  if (rule.source === 'sensor' && (!rule.sensor_name || !rule.metric)) {
+    return 'sensor_name and metric (field in the reading, e.g. "temperature") are required for sensor rules';
+  }
+
+  if (rule.source === 'heartbeat' && rule.condition === 'no_data') {
+    return 'no_data is not supported for heartbeat rules, use offline_minutes above a threshold';
+  }
+
+  if ((rule.condition === 'above' || rule.condition === 'below') && !isNumeric(rule.threshold_value)) {
+    return 'threshold_value is required for above/below conditions';
+  }
+
+  if (rule.condition === 'outside_range' &&
+      (!isNumeric(rule.range_min) || !isNumeric(rule.range_max) || Number(rule.range_min) >= Number(rule.range_max))) {
+    return 'range_min and range_max (range_min < range_max) are required for outside_range';
+  }
+
+  if (rule.for_duration !== undefined && (!Number.isInteger(rule.for_duration) || rule.for_duration < 0)) {
+    return 'for_duration must be a non-negative integer (seconds)';
+  }
+
+  if (rule.condition === 'no_data' && !rule.for_duration) {
+    return 'for_duration (seconds without samples) is required for no_data';
+  }
+
+  if (rule.hysteresis !== undefined && (!isNumeric(rule.hysteresis) || Number(rule.hysteresis) < 0)) {
+    return 'hysteresis must be a non-negative number';
+  }
+
+  return null;
+}
+
+function isNumeric(value: any): boolean {
+  return value !== null && value !== undefined && value !== '' && !isNaN(Number(value));
+}
+
+/**
+ * Whether a sample breaches the rule condition
+ * While the alert is firing the threshold is moved by the hysteresis so it only
+ * clears once the value is clearly back in range. Returns null when there is no
+ * usable value (keep current state).
+ */
+export function evaluateMetricCondition(
+  rule: Pick<AlertRule, 'condition' | 'threshold_value' | 'range_min' | 'range_max' | 'hysteresis' | 'for_duration'>,
+  sample: Pick<MetricSample, 'value' | 'timestamp'> | null,
+  firing: boolean,
+  now: Date = new Date()
+): boolean | null {
+  if (rule.condition === 'no_data') {
+    return !sample || now.getTime() - new Date(sample.timestamp).getTime() > (rule.for_duration || 0) * 1000;
+  }
+
+  if (!sample || sample.value === null || isNaN(sample.value)) {
+    return null;
+  }
+
+  const value = sample.value;
+  const hysteresis = firing ? Number(rule.hysteresis || 0) : 0;
+
+  switch (rule.condition) {
+    case 'above':
+      return value > Number(rule.threshold_value) - hysteresis;
+    case 'below':
+      return value < Number(rule.threshold_value) + hysteresis;
+    case 'outside_range':
+      return value < Number(rule.range_min) + hysteresis || value > Number(rule.range_max) - hysteresis;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate enabled metric rules (all devices, or one device)
+ * Called periodically by the metric alert evaluator
+ */
+export async function processMetricAlerts(deviceUuid?: string): Promise<void> {
+  const params: any[] = [];
+  let sql = `SELECT * FROM log_alert_rules WHERE is_enabled = true AND rule_type = 'metric'`;
+
+  if (deviceUuid) {
+    params.push(deviceUuid);
+    sql += ' AND (device_uuid IS NULL OR device_uuid = $1)';
+  }
+
+  const rules = await query(sql, params);
+
+  for (const rule of rules.rows) {
+    try {
+      await evaluateMetricRule(rule, deviceUuid || rule.device_uuid || undefined);
+    } catch (error) {
+      logger.error('Error evaluating metric alert rule', {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * Evaluate one metric rule against the latest sample of each device in scope
+ */
+async function evaluateMetricRule(rule: any, deviceUuid?: string): Promise<void> {
+  const samples = await getLatestMetricSamples(rule, deviceUuid);
+
+  const firingResult = await query(
+    `SELECT id, device_uuid FROM log_alerts
+     WHERE rule_id = $1 AND status IN ('active', 'acknowledged')`,
+    [rule.id]
+  );
+  const firingAlerts = new Map<string, number>(firingResult.rows.map(row => [row.device_uuid, row.id]));
+
+  const stateResult = await query(
+    'SELECT device_uuid, pending_since FROM metric_alert_state WHERE rule_id = $1',
+    [rule.id]
+  );
+  const pendingSince = new Map<string, Date>(stateResult.rows.map(row => [row.device_uuid, new Date(row.pending_since)]));
+
+  const now = new Date();
+
+  for (const sample of samples) {
+    const alertId = firingAlerts.get(sample.device_uuid);
+    const breaching = evaluateMetricCondition(rule, sample, alertId !== undefined, now);
+
+    if (breaching === null) {
+      continue;
+    }
+
+    if (!breaching) {
+      if (pendingSince.has(sample.device_uuid)) {
+        await clearPendingState(rule.id, sample.device_uuid);
+      }
+      if (alertId !== undefined && rule.auto_resolve) {
+        await autoResolveAlert(alertId, sample.value);
+      }
+      continue;
+    }
+
+    if (alertId !== undefined) {
+      await query(
+        `UPDATE log_alerts SET count = count + 1, last_seen = $2, value = $3 WHERE id = $1`,
+        [alertId, now, sample.value]
+      );
+      continue;
+    }
+
+    // no_data already waited for_duration without samples
+    const since = pendingSince.get(sample.device_uuid) || now;
+    const heldFor = (now.getTime() - since.getTime()) / 1000;
+
+    if (rule.condition === 'no_data' || heldFor >= (rule.for_duration || 0)) {
+      await clearPendingState(rule.id, sample.device_uuid);
+      await createMetricAlert(rule, sample, since);
+    } else if (!pendingSince.has(sample.device_uuid)) {
+      await query(
+        `INSERT INTO metric_alert_state (rule_id, device_uuid, pending_since, last_value)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (rule_id, device_uuid) DO UPDATE SET last_value = $4, updated_at = CURRENT_TIMESTAMP`,
+        [rule.id, sample.device_uuid, now, sample.value]
+      );
+    }
+  }
+}
+
+/**
+ * Latest sample per device for the rule's source
+ * no_data rules look back without limit so silent devices are still found;
+ * other conditions ignore samples older than time_window.
+ */
+async function getLatestMetricSamples(rule: any, deviceUuid?: string): Promise<MetricSample[]> {
+  const maxAge = rule.condition === 'no_data' ? null : rule.time_window || 300;
+  let result;
+
+  if (rule.source === 'device_metric') {
+    const expression = DEVICE_METRIC_EXPRESSIONS[rule.metric];
+    if (!expression) {
+      throw new Error(`Unknown device metric: ${rule.metric}`);
+    }
+
+    result = await query(
+      `SELECT DISTINCT ON (device_uuid) device_uuid, recorded_at AS timestamp, ${expression} AS value
+       FROM device_metrics
+       WHERE ($1::int IS NULL OR recorded_at > CURRENT_TIMESTAMP - make_interval(secs => $1))
+         AND ($2::uuid IS NULL OR device_uuid = $2)
+       ORDER BY device_uuid, recorded_at DESC`,
+      [maxAge, deviceUuid || null]
+    );
+  } else if (rule.source === 'sensor') {
+    result = await query(
+      `SELECT DISTINCT ON (device_uuid) device_uuid, timestamp, data #>> $2::text[] AS value
+       FROM sensor_data
+       WHERE sensor_name = $1
+         AND ($3::int IS NULL OR timestamp > CURRENT_TIMESTAMP - make_interval(secs => $3))
+         AND ($4::uuid IS NULL OR device_uuid = $4)
+       ORDER BY device_uuid, timestamp DESC`,
+      [rule.sensor_name, rule.metric.split('.'), maxAge, deviceUuid || null]
+    );
+  } else {
+    // heartbeat: minutes since the device went offline (0 while online)
+    result = await query(
+      `SELECT uuid AS device_uuid, CURRENT_TIMESTAMP AS timestamp,
+              CASE WHEN is_online THEN 0
+                   ELSE EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - COALESCE(last_connectivity_event, created_at))) / 60
+              END AS value
+       FROM devices
+       WHERE is_active = true
+         AND ($1::uuid IS NULL OR uuid = $1)`,
+      [deviceUuid || null]
+    );
+  }
+
+  return result.rows.map(row => ({
+    device_uuid: row.device_uuid,
+    timestamp: row.timestamp,
+    value: row.value === null || row.value === undefined || isNaN(parseFloat(row.value))
+      ? null
+      : parseFloat(row.value),
+  }));
+}
+
+async function clearPendingState(ruleId: number, deviceUuid: string): Promise<void> {
+  await query(
+    'DELETE FROM metric_alert_state WHERE rule_id = $1 AND device_uuid = $2',
+    [ruleId, deviceUuid]
+  );
+}
+
+/**
+ * Describe a firing metric condition for the alert message
+ */
+function describeMetricCondition(rule: any, value: number | null): string {
+  const subject = rule.source === 'sensor' ? `${rule.sensor_name}.${rule.metric}` : rule.metric;
+  const observed = value === null ? 'n/a' : Math.round(value * 100) / 100;
+  const forDuration = rule.for_duration ? ` for ${rule.for_duration}s` : '';
+
+  switch (rule.condition) {
+    case 'above':
+      return `${subject} ${observed} above ${Number(rule.threshold_value)}${forDuration}`;
+    case 'below':
+      return `${subject} ${observed} below ${Number(rule.threshold_value)}${forDuration}`;
+    case 'outside_range':
+      return `${subject} ${observed} outside ${Number(rule.range_min)}..${Number(rule.range_max)}${forDuration}`;
+    default:
+      return `no ${subject} data for ${rule.for_duration}s`;
+  }
+}
+
+/**
+ * Create alert instance for a metric rule
+ */
+async function createMetricAlert(rule: any, sample: MetricSample, firstSeen: Date): Promise<void> {
+  const result = await query(
+    `INSERT INTO log_alerts (
+      rule_id, device_uuid, matched_log_ids, message, count, value,
+      severity, first_seen, last_seen, status
+    ) VALUES ($1, $2, '{}', $3, 1, $4, $5, $6, CURRENT_TIMESTAMP, 'active')
+    RETURNING id`,
+    [
+      rule.id,
+      sample.device_uuid,
+      `Alert: "${rule.name}" - ${describeMetricCondition(rule, sample.value)}`,
+      sample.value,
+      rule.severity,
+      firstSeen
+    ]
+  );
+
+  logger.info('Metric alert created', {
+    alertId: result.rows[0].id,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    deviceUuid: sample.device_uuid,
+    value: sample.value
+  });
+
+  if (rule.notify_dashboard) {
+    await publishAlertNotification(result.rows[0].id, sample.device_uuid);
+  }
+
+  if (rule.notify_email || rule.notify_webhook) {
+    await alertNotifier.notify(rule, result.rows[0].id);
+  }
+}
+
+/**
+ * Resolve a metric alert whose condition cleared
+ */
+async function autoResolveAlert(alertId: number, value: number | null): Promise<void> {
+  await query(
+    `UPDATE log_alerts
+     SET status = 'resolved',
+         resolved_at = CURRENT_TIMESTAMP,
+         auto_resolved = true,
+         value = COALESCE($2, value)
+     WHERE id = $1 AND status IN ('active', 'acknowledged')`,
+    [alertId, value]
+  );
+
+  logger.info('Metric alert auto-resolved', { alertId, value });
 }
 
 /**
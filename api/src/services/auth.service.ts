@@ -7,8 +7,10 @@
 import bcrypt from 'bcrypt';
 import crypto from 'crypto';
 import { query } from '../db/connection';
-import { generateAccessToken, generateRefreshToken, verifyToken } from '../middleware/jwt-auth';
+import { generateAccessToken, generateMfaToken, generateRefreshToken, MfaTokenPurpose, verifyToken } from '../middleware/jwt-auth';
+import { AuditEventType } from '../utils/audit-logger';
 import logger from '../utils/logger';
+import { isMfaRequiredForRole, useRecoveryCode, verifyMfaCode } from './mfa.service';
 
 const BCRYPT_ROUNDS = 10;
 const REFRESH_TOKEN_EXPIRY_DAYS = 7;
@@ -25,6 +27,26 @@ export interface LoginResult {
   };
 }
 
+/**
+ * Returned instead of tokens when the password was correct but a second
+ * factor is needed. mfaToken is exchanged on /auth/login/mfa, or used to
+ * enroll first when mfaEnrollmentRequired is set.
+ */
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaEnrollmentRequired: boolean;
+  mfaToken: string;
+}
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  email: string;
+  role: string;
+  full_name?: string;
+  mfa_enabled?: boolean;
+}
+
 export interface RegisterInput {
   username: string;
   email: string;
@@ -36,7 +58,7 @@ export interface RegisterInput {
 /**
  * Register a new user
  */
-export async function registerUser(input: RegisterInput): Promise<LoginResult> {
+export async function registerUser(input: RegisterInput): Promise<LoginResult | MfaChallenge> {
   const { username, email, password, fullName, role = 'user' } = input;
 
   // Validate input
@@ -84,6 +106,11 @@ export async function registerUser(input: RegisterInput): Promise<LoginResult> {
 
   logger.info(`New user registered: ${username} (${email})`);
 
+  // Roles that require MFA have to enroll before getting tokens
+  if (await isMfaRequiredForRole(user.role)) {
+    return createMfaChallenge(user, 'enroll');
+  }
+
   // Generate tokens
   const accessToken = generateAccessToken(user);
   const refreshToken = generateRefreshToken(user);
@@ -91,17 +118,7 @@ export async function registerUser(input: RegisterInput): Promise<LoginResult> {
   // Store refresh token
   await storeRefreshToken(user.id, refreshToken, null, null);
 
-  return {
-    accessToken,
-    refreshToken,
-    user: {
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      role: user.role,
-      fullName: user.full_name
-    }
-  };
+  return toLoginResult(user, accessToken, refreshToken);
 }
 
 /**
@@ -112,10 +129,10 @@ export async function loginUser(
   password: string,
   ipAddress?: string,
   userAgent?: string
-): Promise<LoginResult> {
+): Promise<LoginResult | MfaChallenge> {
   // Find user by username or email
   const result = await query(
-    `SELECT id, username, email, password_hash, role, full_name, is_active
+    `SELECT id, username, email, password_hash, role, full_name, is_active, mfa_enabled
      FROM users
      WHERE username = $1 OR email = $1`,
     [usernameOrEmail]
@@ -140,6 +157,15 @@ export async function loginUser(
     throw new Error('Account is inactive. Contact administrator.');
   }
 
+  // Single sign-on accounts have no local password
+  if (!user.password_hash) {
+    logAuditEvent('login_failed', user.id, ipAddress, {
+      reason: 'sso_account',
+      username: user.username
+    }).catch(err => logger.warn('Failed to log audit event:', err));
+    throw new Error('Invalid username or password');
+  }
+
   // Verify password
   const isValidPassword = await bcrypt.compare(password, user.password_hash);
 
@@ -151,6 +177,98 @@ export async function loginUser(
     throw new Error('Invalid username or password');
   }
 
+  return completeFirstFactor(user, ipAddress, userAgent);
+}
+
+/**
+ * Continue a login once the user is identified (password or single sign-on):
+ * ask for the second factor when needed, otherwise issue tokens
+ */
+export async function completeFirstFactor(
+  user: AuthUser,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<LoginResult | MfaChallenge> {
+  // Second factor: verify a code, or enroll when the role requires MFA
+  if (user.mfa_enabled) {
+    return createMfaChallenge(user, 'verify');
+  }
+  if (await isMfaRequiredForRole(user.role)) {
+    return createMfaChallenge(user, 'enroll');
+  }
+
+  return issueLoginTokens(user, ipAddress, userAgent);
+}
+
+/**
+ * Complete a login with a TOTP code or a recovery code
+ */
+export async function completeMfaLogin(
+  mfaToken: string,
+  factor: { code?: string; recoveryCode?: string },
+  ipAddress?: string,
+  userAgent?: string
+): Promise<LoginResult> {
+  const user = await resolveMfaToken(mfaToken, 'verify');
+
+  let verified = false;
+  if (factor.code) {
+    verified = await verifyMfaCode(user.id, factor.code);
+  } else if (factor.recoveryCode) {
+    verified = await useRecoveryCode(user.id, factor.recoveryCode);
+  }
+
+  if (!verified) {
+    logAuditEvent(AuditEventType.MFA_VERIFICATION_FAILED, user.id, ipAddress, {
+      username: user.username,
+      method: factor.recoveryCode ? 'recovery_code' : 'totp'
+    }).catch(err => logger.warn('Failed to log audit event:', err));
+    throw new Error('Invalid verification code');
+  }
+
+  logAuditEvent(
+    factor.code ? AuditEventType.MFA_VERIFIED : AuditEventType.MFA_RECOVERY_CODE_USED,
+    user.id,
+    ipAddress,
+    { username: user.username }
+  ).catch(err => logger.warn('Failed to log audit event:', err));
+
+  return issueLoginTokens(user, ipAddress, userAgent);
+}
+
+/**
+ * Check an MFA token and load its user
+ * Throws when the token is invalid, expired, for another purpose, or the
+ * user is no longer active
+ */
+export async function resolveMfaToken(mfaToken: string, purpose: MfaTokenPurpose): Promise<AuthUser> {
+  const payload = verifyToken(mfaToken);
+
+  if (payload.type !== 'mfa' || payload.purpose !== purpose) {
+    throw new Error('Invalid token type');
+  }
+
+  const result = await query(
+    'SELECT id, username, email, role, full_name, is_active FROM users WHERE id = $1',
+    [payload.userId]
+  );
+
+  if (result.rows.length === 0 || !result.rows[0].is_active) {
+    throw new Error('Invalid or inactive user');
+  }
+
+  return result.rows[0];
+}
+
+/**
+ * Issue access and refresh tokens for an authenticated user
+ * Used once every login step (password, MFA) has passed
+ */
+export async function issueLoginTokens(
+  user: AuthUser,
+  ipAddress?: string,
+  userAgent?: string
+): Promise<LoginResult> {
   // Update last login timestamp
   await query(
     'UPDATE users SET last_login_at = CURRENT_TIMESTAMP WHERE id = $1',
@@ -172,17 +290,7 @@ export async function loginUser(
 
   logger.info(`User logged in: ${user.username} from ${ipAddress || 'unknown'}`);
 
-  return {
-    accessToken,
-    refreshToken,
-    user: {
-      id: user.id,
-      username: user.username,
-      email: user.email,
-      role: user.role,
-      fullName: user.full_name
-    }
-  };
+  return toLoginResult(user, accessToken, refreshToken);
 }
 
 /**
@@ -276,6 +384,19 @@ export async function logoutUser(userId: number, refreshToken?: string): Promise
   logger.info(`User logged out: userId=${userId}`);
 }
 
+/**
+ * Check a user's current password (re-authentication for sensitive changes)
+ */
+export async function verifyUserPassword(userId: number, password: string): Promise<boolean> {
+  const result = await query('SELECT password_hash FROM users WHERE id = $1', [userId]);
+
+  if (result.rows.length === 0 || !result.rows[0].password_hash) {
+    return false;
+  }
+
+  return bcrypt.compare(password, result.rows[0].password_hash);
+}
+
 /**
  * Change user password
  */
@@ -301,6 +422,10 @@ export async function changePassword(
 
   const user = result.rows[0];
 
+  if (!user.password_hash) {
+    throw new Error('Password is managed by the identity provider');
+  }
+
   // Verify current password
   const isValidPassword = await bcrypt.compare(currentPassword, user.password_hash);
 
@@ -335,6 +460,28 @@ export async function changePassword(
   logger.info(`Password changed for user: ${user.username}`);
 }
 
+function createMfaChallenge(user: AuthUser, purpose: MfaTokenPurpose): MfaChallenge {
+  return {
+    mfaRequired: true,
+    mfaEnrollmentRequired: purpose === 'enroll',
+    mfaToken: generateMfaToken(user, purpose)
+  };
+}
+
+function toLoginResult(user: AuthUser, accessToken: string, refreshToken: string): LoginResult {
+  return {
+    accessToken,
+    refreshToken,
+    user: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+      role: user.role,
+      fullName: user.full_name
+    }
+  };
+}
+
 /**
  * Store refresh token in database
  */
@@ -0,0 +1,1056 @@
+/**
+ * Docker Compose Converter
+ *
+ * Converts docker-compose (v3) YAML into application templates and exports
+ * device apps back to compose YAML for local reproduction.
+ *
+ * Import:
+ * - services, networks and volumes are mapped onto the internal app/service shape
+ * - env_file entries are inlined from the files sent with the request
+ * - ${VAR} / ${VAR:-default} are interpolated from the .env file, if one was sent
+ * - healthcheck becomes an exec livenessProbe, deploy.resources becomes resources
+ * - deploy.update_config (order, failure_action) becomes updateStrategy
+ * - depends_on conditions map to dependsOn conditions (service_healthy -> healthy);
+ *   a healthcheck that something waits on also becomes the readinessProbe
+ * - unsupported keys are reported with their path (e.g. "services.web.build")
+ *
+ * Export:
+ * - the reverse mapping; probes without a compose equivalent (http/tcp liveness,
+ *   readiness, startup) are kept under the x-iotistic-probes extension, which
+ *   the importer reads back
+ */
+
+import * as yaml from 'js-yaml';
+import { findDependencyCycle, normalizeDependsOn } from './target-state-validation';
+
+export interface ComposeTemplateService {
+  serviceName: string;
+  image: string;
+  config: Record<string, any>;
+}
+
+export interface ComposeTemplate {
+  name?: string;
+  services: ComposeTemplateService[];
+  networks?: Array<{
+    name: string;
+    driver?: string;
+    internal?: boolean;
+    ipam?: { driver: string; config: Array<{ subnet?: string; gateway?: string }> };
+  }>;
+  volumes?: Array<{
+    name: string;
+    driver?: string;
+    labels?: Record<string, string>;
+    driverOpts?: Record<string, string>;
+  }>;
+}
+
+export type ComposeImportResult =
+  | { template: ComposeTemplate; errors?: undefined }
+  | { template?: undefined; errors: string[] };
+
+const PROBES_EXTENSION = 'x-iotistic-probes';
+
+const TOP_LEVEL_KEYS = ['version', 'name', 'services', 'networks', 'volumes'];
+const NETWORK_KEYS = ['driver', 'internal', 'ipam', 'name'];
+const VOLUME_KEYS = ['driver', 'driver_opts', 'labels', 'name'];
+const HEALTHCHECK_KEYS = ['test', 'interval', 'timeout', 'retries', 'start_period', 'disable'];
+
+// depends_on condition <-> dependsOn condition
+const DEPENDS_ON_CONDITIONS: Record<string, string> = {
+  service_started: 'started',
+  service_healthy: 'healthy',
+};
+
+// Labels set by the agent on every container, not part of the user's compose file
+const INTERNAL_LABEL_PREFIXES = ['iotistic.', 'io.iotistic.'];
+
+/**
+ * Parse a compose file into an application template, collecting every error
+ *
+ * @param source - docker-compose YAML
+ * @param envFiles - contents of env files referenced by env_file, keyed by path
+ */
+export function importCompose(source: string, envFiles: Record<string, string> = {}): ComposeImportResult {
+  const errors: string[] = [];
+
+  let document: any;
+  try {
+    document = yaml.load(source);
+  } catch (error: any) {
+    return { errors: [`Invalid YAML: ${error.message}`] };
+  }
+
+  if (!isObject(document)) {
+    return { errors: ['Compose file must be a mapping with a services key'] };
+  }
+
+  // Interpolate ${VAR} from .env like docker compose does
+  const dotEnv = envFiles['.env'] !== undefined ? parseEnvFile(envFiles['.env'], '.env', errors) : {};
+  document = interpolate(document, dotEnv, '', errors);
+
+  for (const key of Object.keys(document)) {
+    if (!TOP_LEVEL_KEYS.includes(key) && !key.startsWith('x-')) {
+      errors.push(`${key}: unsupported top-level key`);
+    }
+  }
+
+  if (!isObject(document.services) || Object.keys(document.services).length === 0) {
+    errors.push('services: at least one service is required');
+    return { errors };
+  }
+
+  const template: ComposeTemplate = { services: [] };
+  if (document.name !== undefined) {
+    template.name = String(document.name);
+  }
+
+  for (const [serviceName, definition] of Object.entries<any>(document.services)) {
+    const service = convertService(serviceName, definition, envFiles, errors);
+    if (service) {
+      template.services.push(service);
+    }
+  }
+
+  const serviceNames = new Set(Object.keys(document.services));
+  for (const service of template.services) {
+    for (const dependency of normalizeDependsOn(service.config.dependsOn)) {
+      if (!serviceNames.has(dependency.service)) {
+        errors.push(`services.${service.serviceName}.depends_on: unknown service "${dependency.service}"`);
+        continue;
+      }
+      // Compose waits on the healthcheck for service_healthy, the agent on the readinessProbe
+      const target = template.services.find(candidate => candidate.serviceName === dependency.service);
+      if (dependency.condition === 'healthy' && target && !target.config.readinessProbe) {
+        if (target.config.livenessProbe) {
+          target.config.readinessProbe = target.config.livenessProbe;
+        } else {
+          errors.push(`services.${service.serviceName}.depends_on.${dependency.service}: service_healthy requires a healthcheck on "${dependency.service}"`);
+        }
+      }
+    }
+  }
+
+  const cycle = findDependencyCycle(
+    template.services.map(service => ({ serviceName: service.serviceName, dependsOn: service.config.dependsOn }))
+  );
+  if (cycle) {
+    errors.push(`depends_on: dependency cycle ${cycle.join(' -> ')}`);
+  }
+
+  if (document.networks !== undefined) {
+    template.networks = convertNetworks(document.networks, errors);
+  }
+  if (document.volumes !== undefined) {
+    template.volumes = convertVolumes(document.volumes, errors);
+  }
+
+  // Services may only reference declared networks (compose rejects this too)
+  const declaredNetworks = new Set((template.networks || []).map(network => network.name));
+  for (const service of template.services) {
+    for (const network of service.config.networks || []) {
+      if (!declaredNetworks.has(network)) {
+        errors.push(`services.${service.serviceName}.networks: network "${network}" is not declared in top-level networks`);
+      }
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { template };
+}
+
+/**
+ * Convert one compose service definition
+ */
+function convertService(
+  serviceName: string,
+  definition: any,
+  envFiles: Record<string, string>,
+  errors: string[]
+): ComposeTemplateService | null {
+  const path = `services.${serviceName}`;
+
+  if (!isObject(definition)) {
+    errors.push(`${path}: must be a mapping`);
+    return null;
+  }
+  if (typeof definition.image !== 'string' || !definition.image) {
+    errors.push(definition.build !== undefined
+      ? `${path}.build: unsupported key, build the image and reference it with image`
+      : `${path}.image: is required`);
+  }
+
+  const config: Record<string, any> = {};
+  const fail = (key: string, message: string) => errors.push(`${path}.${key}: ${message}`);
+
+  for (const [key, value] of Object.entries<any>(definition)) {
+    switch (key) {
+      case 'image':
+      case 'build':
+        break;
+
+      case 'command':
+      case 'entrypoint':
+        if (typeof value === 'string') {
+          config[key] = splitCommand(value);
+        } else if (isStringList(value)) {
+          config[key] = value;
+        } else {
+          fail(key, 'must be a string or a list of strings');
+        }
+        break;
+
+      case 'environment': {
+        const environment = toStringMap(value, '=', `${path}.${key}`, errors);
+        if (environment) {
+          config.environment = { ...config.environment, ...environment };
+        }
+        break;
+      }
+
+      case 'env_file': {
+        const entries = Array.isArray(value) ? value : [value];
+        const fromFiles: Record<string, string> = {};
+        for (const entry of entries) {
+          const filePath = typeof entry === 'string' ? entry : entry?.path;
+          const required = typeof entry === 'string' ? true : entry?.required !== false;
+          if (typeof filePath !== 'string') {
+            fail(key, 'entries must be a path or { path, required }');
+            continue;
+          }
+          if (envFiles[filePath] === undefined) {
+            if (required) {
+              fail(key, `file "${filePath}" was not included in envFiles`);
+            }
+            continue;
+          }
+          Object.assign(fromFiles, parseEnvFile(envFiles[filePath], filePath, errors));
+        }
+        // environment takes precedence over env_file
+        config.environment = { ...fromFiles, ...config.environment };
+        break;
+      }
+
+      case 'ports':
+        if (!Array.isArray(value)) {
+          fail(key, 'must be a list');
+          break;
+        }
+        config.ports = [];
+        for (const port of value) {
+          const converted = convertPort(port);
+          if (converted) {
+            config.ports.push(converted);
+          } else {
+            fail(key, `unsupported port ${JSON.stringify(port)}`);
+          }
+        }
+        break;
+
+      case 'volumes':
+        if (!Array.isArray(value)) {
+          fail(key, 'must be a list');
+          break;
+        }
+        config.volumes = [];
+        for (const volume of value) {
+          const converted = convertServiceVolume(volume);
+          if (typeof converted === 'string') {
+            config.volumes.push(converted);
+          } else if (converted.tmpfs) {
+            config.tmpfs = [...(config.tmpfs || []), converted.tmpfs];
+          } else {
+            fail(key, converted.error!);
+          }
+        }
+        break;
+
+      case 'networks':
+        if (isStringList(value)) {
+          config.networks = value;
+        } else if (isObject(value)) {
+          for (const [network, options] of Object.entries<any>(value)) {
+            if (options !== null && !(isObject(options) && Object.keys(options).length === 0)) {
+              fail(`${key}.${network}`, 'network options (aliases, ipv4_address, ...) are not supported');
+            }
+          }
+          config.networks = Object.keys(value);
+        } else {
+          fail(key, 'must be a list or a mapping');
+        }
+        break;
+
+      case 'network_mode':
+        if (typeof value !== 'string') {
+          fail(key, 'must be a string');
+        } else if (value.startsWith('service:') || value.startsWith('container:')) {
+          fail(key, `"${value}" is not supported, use host, bridge or none`);
+        } else {
+          config.networkMode = value;
+        }
+        break;
+
+      case 'restart':
+        if (['no', 'always', 'on-failure', 'unless-stopped'].includes(String(value))) {
+          config.restart = String(value);
+        } else {
+          fail(key, 'must be one of: no, always, on-failure, unless-stopped');
+        }
+        break;
+
+      case 'labels': {
+        const labels = toStringMap(value, '=', `${path}.${key}`, errors);
+        if (labels) {
+          config.labels = labels;
+        }
+        break;
+      }
+
+      case 'working_dir':
+      case 'user':
+      case 'hostname': {
+        const field = key === 'working_dir' ? 'workingDir' : key;
+        if (typeof value === 'string' || typeof value === 'number') {
+          config[field] = String(value);
+        } else {
+          fail(key, 'must be a string');
+        }
+        break;
+      }
+
+      case 'devices':
+      case 'cap_add':
+      case 'cap_drop':
+        if (isStringList(value)) {
+          config[camelCase(key)] = value;
+        } else {
+          fail(key, 'must be a list of strings');
+        }
+        break;
+
+      case 'privileged':
+        if (typeof value === 'boolean') {
+          config.privileged = value;
+        } else {
+          fail(key, 'must be a boolean');
+        }
+        break;
+
+      case 'tmpfs': {
+        const tmpfs = typeof value === 'string' ? [value] : value;
+        if (isStringList(tmpfs)) {
+          config.tmpfs = [...(config.tmpfs || []), ...tmpfs];
+        } else {
+          fail(key, 'must be a string or a list of strings');
+        }
+        break;
+      }
+
+      case 'extra_hosts': {
+        // Map form uses hostname: ip, list form "hostname:ip" or "hostname=ip"
+        const hosts = isObject(value)
+          ? Object.entries(value).map(([host, ip]) => `${host}:${ip}`)
+          : isStringList(value) ? value.map((host: string) => host.replace('=', ':')) : null;
+        if (hosts) {
+          config.extraHosts = hosts;
+        } else {
+          fail(key, 'must be a list or a mapping');
+        }
+        break;
+      }
+
+      case 'logging':
+        if (!isObject(value) || typeof value.driver !== 'string') {
+          fail(key, 'must be a mapping with a driver');
+          break;
+        }
+        for (const option of Object.keys(value)) {
+          if (option !== 'driver' && option !== 'options') {
+            fail(`${key}.${option}`, 'unsupported key');
+          }
+        }
+        config.logging = {
+          driver: value.driver,
+          ...(value.options && { options: toStringMap(value.options, '=', `${path}.${key}.options`, errors) || {} })
+        };
+        break;
+
+      case 'depends_on':
+        if (isStringList(value)) {
+          config.dependsOn = value;
+        } else if (isObject(value)) {
+          config.dependsOn = [];
+          for (const [dependency, options] of Object.entries<any>(value)) {
+            const condition = options?.condition === undefined ? 'started' : DEPENDS_ON_CONDITIONS[options.condition];
+            if (!condition) {
+              fail(`${key}.${dependency}.condition`, `"${options.condition}" is not supported, only service_started or service_healthy`);
+              continue;
+            }
+            config.dependsOn.push(condition === 'started' ? dependency : { service: dependency, condition });
+          }
+        } else {
+          fail(key, 'must be a list or a mapping');
+        }
+        break;
+
+      case 'healthcheck': {
+        const probe = convertHealthcheck(value, `${path}.${key}`, errors);
+        if (probe) {
+          config.livenessProbe = probe;
+        }
+        break;
+      }
+
+      case 'deploy':
+        if (!isObject(value)) {
+          fail(key, 'must be a mapping');
+          break;
+        }
+        for (const option of Object.keys(value)) {
+          if (option !== 'resources' && option !== 'update_config') {
+            fail(`${key}.${option}`, 'unsupported key, only deploy.resources and deploy.update_config are supported');
+          }
+        }
+        if (value.resources !== undefined) {
+          const resources = convertResources(value.resources, `${path}.${key}.resources`, errors);
+          if (resources) {
+            config.resources = resources;
+          }
+        }
+        if (value.update_config !== undefined) {
+          const updateStrategy = convertUpdateConfig(value.update_config, `${path}.${key}.update_config`, errors);
+          if (updateStrategy) {
+            config.updateStrategy = updateStrategy;
+          }
+        }
+        break;
+
+      case PROBES_EXTENSION:
+        if (!isObject(value)) {
+          fail(key, 'must be a mapping');
+          break;
+        }
+        for (const [probe, settings] of Object.entries<any>(value)) {
+          if (!['livenessProbe', 'readinessProbe', 'startupProbe'].includes(probe)) {
+            fail(`${key}.${probe}`, 'must be livenessProbe, readinessProbe or startupProbe');
+          } else if (!isObject(settings) || !['http', 'tcp', 'exec'].includes(settings.type)) {
+            fail(`${key}.${probe}.type`, 'must be http, tcp or exec');
+          } else {
+            config[probe] = settings;
+          }
+        }
+        break;
+
+      default:
+        if (!key.startsWith('x-')) {
+          fail(key, 'unsupported key');
+        }
+    }
+  }
+
+  // An explicit x-iotistic-probes livenessProbe wins over healthcheck
+  if (definition[PROBES_EXTENSION]?.livenessProbe && definition.healthcheck) {
+    config.livenessProbe = definition[PROBES_EXTENSION].livenessProbe;
+  }
+
+  return { serviceName, image: definition.image, config };
+}
+
+/**
+ * Top-level networks -> NetworkConfig[]
+ */
+function convertNetworks(networks: any, errors: string[]): ComposeTemplate['networks'] {
+  if (!isObject(networks)) {
+    errors.push('networks: must be a mapping');
+    return undefined;
+  }
+
+  return Object.entries<any>(networks).map(([name, definition]) => {
+    const path = `networks.${name}`;
+    const network: NonNullable<ComposeTemplate['networks']>[number] = { name };
+    if (definition === null) {
+      return network;
+    }
+    if (!isObject(definition)) {
+      errors.push(`${path}: must be a mapping`);
+      return network;
+    }
+
+    for (const key of Object.keys(definition)) {
+      if (key === 'external') {
+        errors.push(`${path}.external: external networks are not supported, devices create app networks themselves`);
+      } else if (!NETWORK_KEYS.includes(key)) {
+        errors.push(`${path}.${key}: unsupported key`);
+      }
+    }
+    if (definition.name !== undefined && definition.name !== name) {
+      errors.push(`${path}.name: custom network names are not supported`);
+    }
+    if (definition.driver !== undefined) network.driver = String(definition.driver);
+    if (definition.internal !== undefined) network.internal = definition.internal === true;
+    if (definition.ipam !== undefined) {
+      const config = Array.isArray(definition.ipam?.config) ? definition.ipam.config : [];
+      network.ipam = {
+        driver: definition.ipam?.driver || 'default',
+        config: config.map((entry: any) => ({
+          ...(entry?.subnet && { subnet: String(entry.subnet) }),
+          ...(entry?.gateway && { gateway: String(entry.gateway) })
+        }))
+      };
+    }
+    return network;
+  });
+}
+
+/**
+ * Top-level volumes -> VolumeConfig[]
+ */
+function convertVolumes(volumes: any, errors: string[]): ComposeTemplate['volumes'] {
+  if (!isObject(volumes)) {
+    errors.push('volumes: must be a mapping');
+    return undefined;
+  }
+
+  return Object.entries<any>(volumes).map(([name, definition]) => {
+    const path = `volumes.${name}`;
+    const volume: NonNullable<ComposeTemplate['volumes']>[number] = { name };
+    if (definition === null) {
+      return volume;
+    }
+    if (!isObject(definition)) {
+      errors.push(`${path}: must be a mapping`);
+      return volume;
+    }
+
+    for (const key of Object.keys(definition)) {
+      if (key === 'external') {
+        errors.push(`${path}.external: external volumes are not supported, devices create app volumes themselves`);
+      } else if (!VOLUME_KEYS.includes(key)) {
+        errors.push(`${path}.${key}: unsupported key`);
+      }
+    }
+    if (definition.name !== undefined && definition.name !== name) {
+      errors.push(`${path}.name: custom volume names are not supported`);
+    }
+    if (definition.driver !== undefined) volume.driver = String(definition.driver);
+    if (definition.driver_opts !== undefined) {
+      volume.driverOpts = toStringMap(definition.driver_opts, '=', `${path}.driver_opts`, errors) || undefined;
+    }
+    if (definition.labels !== undefined) {
+      volume.labels = toStringMap(definition.labels, '=', `${path}.labels`, errors) || undefined;
+    }
+    return volume;
+  });
+}
+
+/**
+ * Port short syntax is kept as-is, long syntax becomes "[ip:]published:target[/protocol]"
+ */
+function convertPort(port: any): string | null {
+  if (typeof port === 'number') {
+    return String(port);
+  }
+  if (typeof port === 'string') {
+    return port;
+  }
+  if (isObject(port) && port.target !== undefined) {
+    const host = port.published !== undefined
+      ? `${port.host_ip ? `${port.host_ip}:` : ''}${port.published}:`
+      : '';
+    const protocol = port.protocol && port.protocol !== 'tcp' ? `/${port.protocol}` : '';
+    return `${host}${port.target}${protocol}`;
+  }
+  return null;
+}
+
+/**
+ * Service volume -> "source:target[:ro]", or a tmpfs entry for type: tmpfs
+ * Relative bind mounts have no meaning on a device and are rejected
+ */
+function convertServiceVolume(volume: any): string | { tmpfs?: string; error?: string } {
+  if (typeof volume === 'string') {
+    if (volume.startsWith('.') || volume.startsWith('~')) {
+      return { error: `relative bind mount "${volume}" is not supported, use an absolute host path or a named volume` };
+    }
+    return volume;
+  }
+  if (!isObject(volume) || typeof volume.target !== 'string') {
+    return { error: `unsupported volume ${JSON.stringify(volume)}` };
+  }
+
+  if (volume.type === 'tmpfs') {
+    const size = volume.tmpfs?.size;
+    return { tmpfs: size !== undefined ? `${volume.target}:size=${size}` : volume.target };
+  }
+  if (volume.type !== undefined && volume.type !== 'volume' && volume.type !== 'bind') {
+    return { error: `volume type "${volume.type}" is not supported` };
+  }
+  if (typeof volume.source !== 'string' || !volume.source) {
+    return { error: `volume for ${volume.target} needs a source (anonymous volumes are not supported)` };
+  }
+  if (volume.source.startsWith('.') || volume.source.startsWith('~')) {
+    return { error: `relative bind mount "${volume.source}" is not supported, use an absolute host path or a named volume` };
+  }
+  return `${volume.source}:${volume.target}${volume.read_only ? ':ro' : ''}`;
+}
+
+/**
+ * healthcheck -> exec livenessProbe (null when disabled)
+ */
+function convertHealthcheck(healthcheck: any, path: string, errors: string[]): Record<string, any> | null {
+  if (!isObject(healthcheck)) {
+    errors.push(`${path}: must be a mapping`);
+    return null;
+  }
+  for (const key of Object.keys(healthcheck)) {
+    if (!HEALTHCHECK_KEYS.includes(key)) {
+      errors.push(`${path}.${key}: unsupported key`);
+    }
+  }
+  if (healthcheck.disable === true) {
+    return null;
+  }
+
+  const test = typeof healthcheck.test === 'string' ? ['CMD-SHELL', healthcheck.test] : healthcheck.test;
+  if (!isStringList(test) || test.length === 0) {
+    errors.push(`${path}.test: must be a string or a list of strings`);
+    return null;
+  }
+
+  let command: string[];
+  if (test[0] === 'NONE') {
+    return null;
+  } else if (test[0] === 'CMD') {
+    command = test.slice(1);
+  } else if (test[0] === 'CMD-SHELL') {
+    command = ['/bin/sh', '-c', test.slice(1).join(' ')];
+  } else {
+    errors.push(`${path}.test: must start with CMD, CMD-SHELL or NONE`);
+    return null;
+  }
+
+  const probe: Record<string, any> = { type: 'exec', command };
+  const durations: Array<[string, string]> = [
+    ['interval', 'periodSeconds'],
+    ['timeout', 'timeoutSeconds'],
+    ['start_period', 'initialDelaySeconds']
+  ];
+  for (const [key, field] of durations) {
+    if (healthcheck[key] !== undefined) {
+      const seconds = parseDuration(String(healthcheck[key]));
+      if (seconds === null) {
+        errors.push(`${path}.${key}: invalid duration "${healthcheck[key]}"`);
+      } else {
+        probe[field] = Math.max(1, Math.round(seconds));
+      }
+    }
+  }
+  if (healthcheck.retries !== undefined) {
+    if (Number.isInteger(healthcheck.retries) && healthcheck.retries >= 1) {
+      probe.failureThreshold = healthcheck.retries;
+    } else {
+      errors.push(`${path}.retries: must be a positive integer`);
+    }
+  }
+  return probe;
+}
+
+/**
+ * deploy.update_config -> updateStrategy
+ * order start-first / stop-first (= recreate); failure_action rollback (default) or continue
+ */
+function convertUpdateConfig(updateConfig: any, path: string, errors: string[]): Record<string, any> | null {
+  if (!isObject(updateConfig)) {
+    errors.push(`${path}: must be a mapping`);
+    return null;
+  }
+
+  const strategy: Record<string, any> = {};
+  for (const [key, value] of Object.entries<any>(updateConfig)) {
+    if (key === 'order') {
+      if (value !== 'start-first' && value !== 'stop-first') {
+        errors.push(`${path}.order: must be start-first or stop-first`);
+      } else {
+        strategy.type = value === 'start-first' ? 'start-first' : 'recreate';
+      }
+    } else if (key === 'failure_action') {
+      if (value !== 'rollback' && value !== 'continue') {
+        errors.push(`${path}.failure_action: "${value}" is not supported, only rollback or continue`);
+      } else if (value === 'continue') {
+        strategy.rollbackAfterFailures = 0;
+      }
+    } else {
+      errors.push(`${path}.${key}: unsupported key, only order and failure_action are supported`);
+    }
+  }
+  return strategy;
+}
+
+/**
+ * deploy.resources -> resources (limits + reservations as requests)
+ */
+function convertResources(resources: any, path: string, errors: string[]): Record<string, any> | null {
+  if (!isObject(resources)) {
+    errors.push(`${path}: must be a mapping`);
+    return null;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, field] of [['limits', 'limits'], ['reservations', 'requests']]) {
+    const section = resources[key];
+    if (section === undefined) {
+      continue;
+    }
+    if (!isObject(section)) {
+      errors.push(`${path}.${key}: must be a mapping`);
+      continue;
+    }
+    const converted: Record<string, string> = {};
+    for (const [option, value] of Object.entries<any>(section)) {
+      if (option === 'cpus') {
+        if (isNaN(parseFloat(value)) || parseFloat(value) <= 0) {
+          errors.push(`${path}.${key}.cpus: must be a positive number`);
+        } else {
+          converted.cpu = String(value);
+        }
+      } else if (option === 'memory') {
+        const memory = composeMemoryToQuantity(String(value));
+        if (memory === null) {
+          errors.push(`${path}.${key}.memory: invalid size "${value}"`);
+        } else {
+          converted.memory = memory;
+        }
+      } else {
+        errors.push(`${path}.${key}.${option}: unsupported key, only cpus and memory are supported`);
+      }
+    }
+    result[field] = converted;
+  }
+  for (const key of Object.keys(resources)) {
+    if (key !== 'limits' && key !== 'reservations') {
+      errors.push(`${path}.${key}: unsupported key`);
+    }
+  }
+  return result;
+}
+
+/**
+ * Export an app (target or current state) as compose YAML
+ */
+export function exportCompose(app: any): string {
+  const services: Record<string, any> = {};
+  const networks = new Map<string, any>();
+  const volumes = new Map<string, any>();
+
+  for (const network of Array.isArray(app.networks) ? app.networks : []) {
+    networks.set(network.name, networkToCompose(network));
+  }
+  for (const volume of Array.isArray(app.volumes) ? app.volumes : []) {
+    volumes.set(volume.name, volumeToCompose(volume));
+  }
+
+  for (const service of app.services || []) {
+    const config = service.config || {};
+    const definition: Record<string, any> = { image: config.image || service.imageName || service.image };
+
+    if (config.command) definition.command = config.command;
+    if (config.entrypoint) definition.entrypoint = config.entrypoint;
+    if (config.workingDir) definition.working_dir = config.workingDir;
+    if (config.user) definition.user = config.user;
+    if (config.hostname) definition.hostname = config.hostname;
+    if (config.environment && Object.keys(config.environment).length > 0) {
+      definition.environment = config.environment;
+    }
+    if (config.ports?.length) definition.ports = config.ports;
+    if (config.volumes?.length) {
+      definition.volumes = config.volumes;
+      for (const volume of config.volumes) {
+        const source = String(volume).split(':')[0];
+        if (source && !source.startsWith('/') && !volumes.has(source)) {
+          volumes.set(source, null);
+        }
+      }
+    }
+    if (config.networks?.length) {
+      definition.networks = config.networks;
+      for (const network of config.networks) {
+        if (!networks.has(network)) {
+          networks.set(network, null);
+        }
+      }
+    }
+    if (config.networkMode) definition.network_mode = config.networkMode;
+    if (config.restart) definition.restart = config.restart;
+
+    const labels = Object.fromEntries(
+      Object.entries(config.labels || {}).filter(([key]) =>
+        !INTERNAL_LABEL_PREFIXES.some(prefix => key.startsWith(prefix))
+      )
+    );
+    if (Object.keys(labels).length > 0) definition.labels = labels;
+
+    if (config.devices?.length) definition.devices = config.devices;
+    if (config.privileged) definition.privileged = true;
+    if (config.capAdd?.length) definition.cap_add = config.capAdd;
+    if (config.capDrop?.length) definition.cap_drop = config.capDrop;
+    if (config.tmpfs?.length) definition.tmpfs = config.tmpfs;
+    if (config.extraHosts?.length) definition.extra_hosts = config.extraHosts;
+    if (config.logging) definition.logging = config.logging;
+    if (config.dependsOn?.length) {
+      const dependencies = normalizeDependsOn(config.dependsOn);
+      // Short list syntax unless a condition other than "started" is used
+      definition.depends_on = dependencies.every(dependency => dependency.condition === 'started')
+        ? dependencies.map(dependency => dependency.service)
+        : Object.fromEntries(dependencies.map(dependency => [
+          dependency.service,
+          { condition: dependency.condition === 'healthy' ? 'service_healthy' : 'service_started' },
+        ]));
+    }
+
+    const probes: Record<string, any> = {};
+    if (config.livenessProbe?.type === 'exec') {
+      definition.healthcheck = probeToHealthcheck(config.livenessProbe);
+    } else if (config.livenessProbe) {
+      probes.livenessProbe = config.livenessProbe;
+    }
+    if (config.readinessProbe) probes.readinessProbe = config.readinessProbe;
+    if (config.startupProbe) probes.startupProbe = config.startupProbe;
+    if (Object.keys(probes).length > 0) definition[PROBES_EXTENSION] = probes;
+
+    if (config.resources) {
+      const resources: Record<string, any> = {};
+      if (config.resources.limits) resources.limits = resourcesToCompose(config.resources.limits);
+      if (config.resources.requests) resources.reservations = resourcesToCompose(config.resources.requests);
+      definition.deploy = { resources };
+    }
+    if (config.updateStrategy) {
+      definition.deploy = { ...definition.deploy, update_config: updateStrategyToCompose(config.updateStrategy) };
+    }
+
+    services[service.serviceName] = definition;
+  }
+
+  const document: Record<string, any> = {};
+  if (app.appName) {
+    document.name = slugify(app.appName);
+  }
+  document.services = services;
+  if (networks.size > 0) document.networks = Object.fromEntries(networks);
+  if (volumes.size > 0) document.volumes = Object.fromEntries(volumes);
+
+  // Compose interpolates $VAR, so literal dollars are written as $$
+  return yaml.dump(escapeDollars(document), { lineWidth: -1, noRefs: true });
+}
+
+function networkToCompose(network: any): Record<string, any> | null {
+  const definition: Record<string, any> = {};
+  if (network.driver) definition.driver = network.driver;
+  if (network.internal) definition.internal = true;
+  if (network.ipam) definition.ipam = network.ipam;
+  return Object.keys(definition).length > 0 ? definition : null;
+}
+
+function volumeToCompose(volume: any): Record<string, any> | null {
+  const definition: Record<string, any> = {};
+  if (volume.driver) definition.driver = volume.driver;
+  if (volume.driverOpts) definition.driver_opts = volume.driverOpts;
+  if (volume.labels) definition.labels = volume.labels;
+  return Object.keys(definition).length > 0 ? definition : null;
+}
+
+function probeToHealthcheck(probe: any): Record<string, any> {
+  const healthcheck: Record<string, any> = { test: ['CMD', ...(probe.command || [])] };
+  if (probe.periodSeconds) healthcheck.interval = `${probe.periodSeconds}s`;
+  if (probe.timeoutSeconds) healthcheck.timeout = `${probe.timeoutSeconds}s`;
+  if (probe.failureThreshold) healthcheck.retries = probe.failureThreshold;
+  if (probe.initialDelaySeconds) healthcheck.start_period = `${probe.initialDelaySeconds}s`;
+  return healthcheck;
+}
+
+function resourcesToCompose(resources: { cpu?: string; memory?: string }): Record<string, string> {
+  const converted: Record<string, string> = {};
+  if (resources.cpu) converted.cpus = resources.cpu;
+  if (resources.memory) converted.memory = quantityToComposeMemory(resources.memory);
+  return converted;
+}
+
+function updateStrategyToCompose(strategy: { type?: string; rollbackAfterFailures?: number }): Record<string, string> {
+  return {
+    order: strategy.type === 'start-first' ? 'start-first' : 'stop-first',
+    failure_action: strategy.rollbackAfterFailures === 0 ? 'continue' : 'rollback',
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const MEMORY_UNITS: Record<string, string> = { b: '', k: 'Ki', m: 'Mi', g: 'Gi' };
+const DECIMAL_UNITS: Record<string, number> = { K: 1e3, M: 1e6, G: 1e9, T: 1e12 };
+
+/**
+ * Compose sizes are binary ("512m", "1gb") -> agent quantity ("512Mi", "1Gi")
+ */
+function composeMemoryToQuantity(value: string): string | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([bkmg])?b?$/i);
+  if (!match) {
+    return null;
+  }
+  const unit = (match[2] || 'b').toLowerCase();
+  return `${match[1]}${MEMORY_UNITS[unit]}`;
+}
+
+/**
+ * Agent quantity -> compose size ("512Mi" -> "512m", decimal "1G" -> bytes)
+ */
+function quantityToComposeMemory(value: string): string {
+  const binary = value.match(/^(\d+(?:\.\d+)?)(Ki|Mi|Gi)$/);
+  if (binary) {
+    return `${binary[1]}${binary[2][0].toLowerCase()}`;
+  }
+  const decimal = value.match(/^(\d+(?:\.\d+)?)([KMGT])$/);
+  if (decimal) {
+    return String(Math.round(parseFloat(decimal[1]) * DECIMAL_UNITS[decimal[2]]));
+  }
+  return value;
+}
+
+/**
+ * Parse a Go-style duration ("30s", "1m30s", "500ms") into seconds
+ */
+function parseDuration(value: string): number | null {
+  const units: Record<string, number> = { h: 3600, m: 60, s: 1, ms: 0.001, us: 0.000001, ns: 0.000000001 };
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(h|ms|m|s|us|ns)/g)];
+  if (parts.length === 0 || parts.map(part => part[0]).join('') !== value) {
+    return null;
+  }
+  return parts.reduce((total, part) => total + parseFloat(part[1]) * units[part[2]], 0);
+}
+
+/**
+ * Parse an env file (KEY=value lines, # comments, optional quotes)
+ */
+function parseEnvFile(content: string, filePath: string, errors: string[]): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+    const separator = line.indexOf('=');
+    if (separator <= 0) {
+      errors.push(`${filePath}:${index + 1}: expected KEY=value`);
+      return;
+    }
+    const key = line.slice(0, separator).replace(/^export\s+/, '').trim();
+    let value = line.slice(separator + 1).trim();
+    if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value[value.length - 1] === value[0]) {
+      value = value.slice(1, -1);
+    }
+    env[key] = value;
+  });
+
+  return env;
+}
+
+/**
+ * Replace ${VAR}, ${VAR:-default}, ${VAR-default} and $VAR in all string values ($$ escapes $)
+ */
+function interpolate(value: any, env: Record<string, string>, path: string, errors: string[]): any {
+  if (typeof value === 'string') {
+    return value.replace(/\$(\$|\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?-)([^}]*))?\}|([A-Za-z_][A-Za-z0-9_]*))/g,
+      (match, escaped, braced, operator, fallback, bare) => {
+        if (escaped === '$') {
+          return '$';
+        }
+        const name = braced || bare;
+        const current = env[name];
+        if (operator === ':-' && !current) {
+          return fallback;
+        }
+        if (operator === '-' && current === undefined) {
+          return fallback;
+        }
+        if (current === undefined) {
+          errors.push(`${path || 'compose'}: variable "${name}" is not set (send it in the .env entry of envFiles)`);
+          return match;
+        }
+        return current;
+      });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolate(item, env, `${path}[${index}]`, errors));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, interpolate(item, env, path ? `${path}.${key}` : key, errors)]
+    ));
+  }
+  return value;
+}
+
+function escapeDollars(value: any): any {
+  if (typeof value === 'string') {
+    return value.replace(/\$/g, '$$$$');
+  }
+  if (Array.isArray(value)) {
+    return value.map(escapeDollars);
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, escapeDollars(item)]));
+  }
+  return value;
+}
+
+/**
+ * Mapping or "KEY=value" list -> Record<string, string>
+ */
+function toStringMap(value: any, separator: string, path: string, errors: string[]): Record<string, string> | null {
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, item === null ? '' : String(item)]));
+  }
+  if (isStringList(value)) {
+    const map: Record<string, string> = {};
+    for (const entry of value) {
+      const index = entry.indexOf(separator);
+      if (index <= 0) {
+        errors.push(`${path}: "${entry}" must be KEY${separator}value`);
+        continue;
+      }
+      map[entry.slice(0, index)] = entry.slice(index + 1);
+    }
+    return map;
+  }
+  errors.push(`${path}: must be a mapping or a list of KEY${separator}value`);
+  return null;
+}
+
+/**
+ * Split a shell-form command into arguments (handles simple quoting)
+ */
+function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  const pattern = /"((?:\\.|[^"\\])*)"|'([^']*)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(command)) !== null) {
+    args.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2] ?? match[3]);
+  }
+  return args;
+}
+
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'app';
+}
+
+function camelCase(key: string): string {
+  return key.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringList(value: any): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
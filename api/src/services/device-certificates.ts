@@ -0,0 +1,495 @@
+/**
+ * Device Certificates
+ * X.509 client certificates as an alternative to device API keys. Devices send
+ * a CSR (RSA, PEM) at registration and again before expiry; it is signed with
+ * the fleet CA (DEVICE_CA_CERT_PATH / DEVICE_CA_KEY_PATH). The subject CN is
+ * the device's MQTT username, so Mosquitto can use it as the identity
+ * (use_identity_as_username).
+ *
+ * A device has one active certificate. Renewal supersedes the previous one.
+ * Revoked and superseded certificates are listed in the CRL, which is written
+ * to DEVICE_CA_CRL_PATH for Mosquitto and served at GET /device-ca/crl.
+ * Revoking blocks renewal until an administrator allows it again, so the
+ * device cannot replace a revoked certificate using its API key.
+ */
+
+import crypto from 'crypto';
+import { promises as fs, existsSync, readFileSync } from 'fs';
+import forge from 'node-forge';
+import { query, transaction } from '../db/connection';
+import { Actor, EventPublisher } from './event-sourcing';
+import logger from '../utils/logger';
+
+const moduleLogger = logger.child({ module: 'device-certificates' });
+
+const CA_CERT_PATH = process.env.DEVICE_CA_CERT_PATH || '';
+const CA_KEY_PATH = process.env.DEVICE_CA_KEY_PATH || '';
+const CRL_PATH = process.env.DEVICE_CA_CRL_PATH || '';
+const VALIDITY_DAYS = parseInt(process.env.DEVICE_CERT_VALIDITY_DAYS || '365', 10);
+const CRL_VALIDITY_DAYS = parseInt(process.env.DEVICE_CRL_VALIDITY_DAYS || '30', 10);
+const MIN_KEY_BITS = 2048;
+
+const CRL_REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// X.509 CRL OIDs and reason codes (RFC 5280)
+const OID_CRL_NUMBER = '2.5.29.20';
+const OID_CRL_REASON = '2.5.29.21';
+const REASON_SUPERSEDED = 4;
+
+export type DeviceCertificateStatus = 'active' | 'superseded' | 'revoked';
+
+export interface DeviceCertificateRecord {
+  id: number;
+  device_uuid: string;
+  serial_number: string;
+  fingerprint_sha256: string;
+  subject: string;
+  not_before: Date;
+  not_after: Date;
+  status: DeviceCertificateStatus;
+  revoked_at: Date | null;
+  revocation_reason: string | null;
+  created_at: Date;
+}
+
+/**
+ * Issued certificate as returned to the device
+ */
+export interface IssuedDeviceCertificate {
+  certificate: string;
+  caCertificate: string;
+  serialNumber: string;
+  fingerprint: string;
+  notAfter: string;
+}
+
+const COLUMNS = `id, device_uuid, serial_number, fingerprint_sha256, subject, not_before, not_after,
+  status, revoked_at, revocation_reason, created_at`;
+
+export class CertificateRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CertificateRequestError';
+  }
+}
+
+interface FleetCa {
+  certificate: forge.pki.Certificate;
+  privateKey: forge.pki.rsa.PrivateKey;
+  pem: string;
+}
+
+let cachedCa: FleetCa | null | undefined;
+
+function loadCa(): FleetCa | null {
+  if (cachedCa === undefined) {
+    cachedCa = null;
+    if (CA_CERT_PATH && CA_KEY_PATH && existsSync(CA_CERT_PATH) && existsSync(CA_KEY_PATH)) {
+      const pem = readFileSync(CA_CERT_PATH, 'utf8');
+      cachedCa = {
+        certificate: forge.pki.certificateFromPem(pem),
+        privateKey: forge.pki.privateKeyFromPem(readFileSync(CA_KEY_PATH, 'utf8')) as forge.pki.rsa.PrivateKey,
+        pem,
+      };
+      moduleLogger.info('Fleet CA loaded', { caCertPath: CA_CERT_PATH });
+    } else if (CA_CERT_PATH || CA_KEY_PATH) {
+      moduleLogger.warn('Fleet CA not found, device certificates are disabled', { caCertPath: CA_CERT_PATH });
+    }
+  }
+  return cachedCa;
+}
+
+/**
+ * Whether CSRs are signed (fleet CA configured)
+ */
+export function isDeviceCaConfigured(): boolean {
+  return loadCa() !== null;
+}
+
+/**
+ * Fleet CA certificate (PEM), or null when not configured
+ */
+export function getDeviceCaCertificate(): string | null {
+  return loadCa()?.pem ?? null;
+}
+
+/**
+ * CN of device certificates; equals the MQTT username from provisioning
+ */
+export function certificateCommonName(deviceUuid: string): string {
+  return `device_${deviceUuid}`;
+}
+
+/**
+ * Normalize a SHA-256 fingerprint ("AB:CD:..." from Node's TLS socket) to
+ * the stored form (lowercase hex)
+ */
+export function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/:/g, '').toLowerCase();
+}
+
+function fingerprintOf(certificate: forge.pki.Certificate): string {
+  const der = forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+  return crypto.createHash('sha256').update(Buffer.from(der, 'binary')).digest('hex');
+}
+
+/**
+ * Positive 128-bit serial number (hex)
+ */
+function generateSerialNumber(): string {
+  const bytes = crypto.randomBytes(16);
+  bytes[0] &= 0x7f;
+  bytes[0] |= 0x01;
+  return bytes.toString('hex');
+}
+
+function parseCsr(csrPem: string): forge.pki.CertificateSigningRequest {
+  let csr: forge.pki.CertificateSigningRequest;
+  try {
+    csr = forge.pki.certificationRequestFromPem(csrPem);
+  } catch (error: any) {
+    throw new CertificateRequestError(`CSR could not be parsed (PEM, RSA key required): ${error.message}`);
+  }
+  if (!csr.verify()) {
+    throw new CertificateRequestError('CSR signature is invalid');
+  }
+  const publicKey = csr.publicKey as forge.pki.rsa.PublicKey | null;
+  if (!publicKey?.n || publicKey.n.bitLength() < MIN_KEY_BITS) {
+    throw new CertificateRequestError(`CSR key must be RSA with at least ${MIN_KEY_BITS} bits`);
+  }
+  return csr;
+}
+
+/**
+ * Sign a device CSR with the fleet CA. The subject of the CSR is ignored;
+ * CN and SAN are set from the device UUID.
+ */
+function signCsr(ca: FleetCa, deviceUuid: string, csr: forge.pki.CertificateSigningRequest): forge.pki.Certificate {
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = csr.publicKey as forge.pki.PublicKey;
+  cert.serialNumber = generateSerialNumber();
+  cert.validity.notBefore = new Date(Date.now() - 5 * 60 * 1000); // tolerate device clock skew
+  cert.validity.notAfter = new Date(Date.now() + VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+  cert.setSubject([
+    { name: 'commonName', value: certificateCommonName(deviceUuid) },
+    { name: 'organizationName', value: 'Iotistic' },
+    { name: 'organizationalUnitName', value: 'IoT-Device' },
+  ]);
+  cert.setIssuer(ca.certificate.subject.attributes);
+  cert.setExtensions([
+    { name: 'basicConstraints', cA: false },
+    { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+    { name: 'extKeyUsage', clientAuth: true },
+    { name: 'subjectAltName', altNames: [{ type: 6, value: `urn:iotistic:device:${deviceUuid}` }] },
+    { name: 'subjectKeyIdentifier' },
+  ]);
+  cert.sign(ca.privateKey, forge.md.sha256.create());
+  return cert;
+}
+
+/**
+ * Issue a certificate for a device from its CSR. The device's previous
+ * active certificate (if any) is superseded and added to the CRL.
+ */
+export async function issueDeviceCertificate(
+  deviceUuid: string,
+  csrPem: string,
+  trigger: 'registration' | 'renewal',
+  actor?: Actor,
+): Promise<IssuedDeviceCertificate> {
+  const ca = loadCa();
+  if (!ca) {
+    throw new CertificateRequestError('Device certificates are not enabled (fleet CA not configured)');
+  }
+
+  const cert = signCsr(ca, deviceUuid, parseCsr(csrPem));
+  const certificatePem = forge.pki.certificateToPem(cert);
+  const fingerprint = fingerprintOf(cert);
+
+  const superseded = await transaction(async (client) => {
+    const previous = await client.query(
+      `UPDATE device_certificates
+       SET status = 'superseded', revoked_at = CURRENT_TIMESTAMP, revocation_reason = 'superseded'
+       WHERE device_uuid = $1 AND status = 'active'
+       RETURNING serial_number`,
+      [deviceUuid]
+    );
+    await client.query(
+      `INSERT INTO device_certificates (
+        device_uuid, serial_number, fingerprint_sha256, subject, certificate_pem, not_before, not_after
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        deviceUuid, cert.serialNumber, fingerprint, certificateCommonName(deviceUuid), certificatePem,
+        cert.validity.notBefore, cert.validity.notAfter,
+      ]
+    );
+    await client.query(
+      'UPDATE devices SET certificate_fingerprint = $2, modified_at = CURRENT_TIMESTAMP WHERE uuid = $1',
+      [deviceUuid, fingerprint]
+    );
+    return previous.rows.map((row) => row.serial_number as string);
+  });
+
+  if (superseded.length > 0) {
+    await writeCrl().catch((error) => moduleLogger.error('Failed to write CRL', { error: error.message }));
+  }
+
+  await new EventPublisher('device-certificates', undefined, actor).publish(
+    'device.certificate_issued',
+    'device',
+    deviceUuid,
+    {
+      serial_number: cert.serialNumber,
+      fingerprint,
+      not_after: cert.validity.notAfter.toISOString(),
+      trigger,
+      superseded,
+    },
+    { severity: 'info', impact: 'medium' }
+  );
+
+  moduleLogger.info('Issued device certificate', {
+    deviceUuid,
+    serialNumber: cert.serialNumber,
+    trigger,
+    superseded: superseded.length,
+  });
+
+  return {
+    certificate: certificatePem,
+    caCertificate: ca.pem,
+    serialNumber: cert.serialNumber,
+    fingerprint,
+    notAfter: cert.validity.notAfter.toISOString(),
+  };
+}
+
+/**
+ * Whether a verified client certificate (by fingerprint) is the active,
+ * unexpired certificate of the device
+ */
+export async function isActiveDeviceCertificate(deviceUuid: string, fingerprint: string): Promise<boolean> {
+  const result = await query(
+    `SELECT 1 FROM device_certificates
+     WHERE device_uuid = $1 AND fingerprint_sha256 = $2 AND status = 'active' AND not_after > CURRENT_TIMESTAMP`,
+    [deviceUuid, normalizeFingerprint(fingerprint)]
+  );
+  return result.rows.length > 0;
+}
+
+export async function listDeviceCertificates(deviceUuid: string): Promise<DeviceCertificateRecord[]> {
+  const result = await query<DeviceCertificateRecord>(
+    `SELECT ${COLUMNS} FROM device_certificates WHERE device_uuid = $1 ORDER BY created_at DESC`,
+    [deviceUuid]
+  );
+  return result.rows;
+}
+
+/**
+ * Revoke one certificate of a device, or all of its unrevoked certificates
+ * when certificateId is omitted (e.g. when the device is replaced)
+ *
+ * @returns revoked certificates (empty when none matched)
+ */
+export async function revokeDeviceCertificates(
+  deviceUuid: string,
+  reason: string,
+  actor?: Actor,
+  certificateId?: number,
+): Promise<DeviceCertificateRecord[]> {
+  const result = await query<DeviceCertificateRecord>(
+    `UPDATE device_certificates
+     SET status = 'revoked', revoked_at = CURRENT_TIMESTAMP, revocation_reason = $2
+     WHERE device_uuid = $1 AND status <> 'revoked' AND ($3::int IS NULL OR id = $3)
+     RETURNING ${COLUMNS}`,
+    [deviceUuid, reason, certificateId ?? null]
+  );
+  if (result.rows.length === 0) {
+    return [];
+  }
+
+  await query(
+    `UPDATE devices
+     SET certificate_fingerprint = CASE WHEN certificate_fingerprint = ANY($2) THEN NULL ELSE certificate_fingerprint END,
+         certificate_renewal_blocked = true, modified_at = CURRENT_TIMESTAMP
+     WHERE uuid = $1`,
+    [deviceUuid, result.rows.map((row) => row.fingerprint_sha256)]
+  );
+
+  await writeCrl().catch((error) => moduleLogger.error('Failed to write CRL', { error: error.message }));
+
+  await new EventPublisher('device-certificates', undefined, actor).publish(
+    'device.certificate_revoked',
+    'device',
+    deviceUuid,
+    {
+      serial_numbers: result.rows.map((row) => row.serial_number),
+      reason,
+    },
+    { severity: 'warning', impact: 'high' }
+  );
+
+  moduleLogger.info('Revoked device certificates', { deviceUuid, count: result.rows.length, reason });
+  return result.rows;
+}
+
+/**
+ * Whether the device may not renew its certificate (set by a revocation)
+ */
+export async function isCertificateRenewalBlocked(deviceUuid: string): Promise<boolean> {
+  const result = await query(
+    'SELECT certificate_renewal_blocked FROM devices WHERE uuid = $1',
+    [deviceUuid]
+  );
+  return result.rows[0]?.certificate_renewal_blocked === true;
+}
+
+/**
+ * Let a device renew its certificate again after a revocation
+ *
+ * @returns false when renewal was not blocked
+ */
+export async function allowCertificateRenewal(deviceUuid: string, actor?: Actor): Promise<boolean> {
+  const result = await query(
+    `UPDATE devices SET certificate_renewal_blocked = false, modified_at = CURRENT_TIMESTAMP
+     WHERE uuid = $1 AND certificate_renewal_blocked`,
+    [deviceUuid]
+  );
+  if ((result.rowCount ?? 0) === 0) {
+    return false;
+  }
+
+  await new EventPublisher('device-certificates', undefined, actor).publish(
+    'device.certificate_renewal_allowed',
+    'device',
+    deviceUuid,
+    {},
+    { severity: 'warning', impact: 'medium' }
+  );
+
+  moduleLogger.info('Allowed device certificate renewal', { deviceUuid });
+  return true;
+}
+
+function algorithmIdentifier(): forge.asn1.Asn1 {
+  const { asn1 } = forge;
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(forge.pki.oids.sha256WithRSAEncryption).getBytes()),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, ''),
+  ]);
+}
+
+function extension(oid: string, value: forge.asn1.Asn1): forge.asn1.Asn1 {
+  const { asn1 } = forge;
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(oid).getBytes()),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, asn1.toDer(value).getBytes()),
+  ]);
+}
+
+/**
+ * Build an X.509 v2 CRL (node-forge has no CRL support, so the ASN.1 is
+ * assembled here) listing revoked and superseded certificates that have
+ * not expired yet
+ */
+export async function buildCrl(): Promise<string | null> {
+  const ca = loadCa();
+  if (!ca) {
+    return null;
+  }
+  const { asn1 } = forge;
+  const { UNIVERSAL, CONTEXT_SPECIFIC } = asn1.Class;
+
+  const revoked = await query<{ serial_number: string; status: DeviceCertificateStatus; revoked_at: Date }>(
+    `SELECT serial_number, status, revoked_at FROM device_certificates
+     WHERE status IN ('revoked', 'superseded') AND not_after > CURRENT_TIMESTAMP
+     ORDER BY id`
+  );
+
+  const now = new Date();
+  const nextUpdate = new Date(now.getTime() + CRL_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+
+  const entries = revoked.rows.map((row) => {
+    const fields = [
+      asn1.create(UNIVERSAL, asn1.Type.INTEGER, false, forge.util.hexToBytes(row.serial_number)),
+      asn1.create(UNIVERSAL, asn1.Type.UTCTIME, false, asn1.dateToUtcTime(row.revoked_at)),
+    ];
+    if (row.status === 'superseded') {
+      fields.push(asn1.create(UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        extension(OID_CRL_REASON, asn1.create(UNIVERSAL, asn1.Type.ENUMERATED, false, String.fromCharCode(REASON_SUPERSEDED))),
+      ]));
+    }
+    return asn1.create(UNIVERSAL, asn1.Type.SEQUENCE, true, fields);
+  });
+
+  const tbsFields = [
+    asn1.create(UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(1).getBytes()), // v2
+    algorithmIdentifier(),
+    forge.pki.distinguishedNameToAsn1(ca.certificate.subject),
+    asn1.create(UNIVERSAL, asn1.Type.UTCTIME, false, asn1.dateToUtcTime(now)),
+    asn1.create(UNIVERSAL, asn1.Type.UTCTIME, false, asn1.dateToUtcTime(nextUpdate)),
+  ];
+  if (entries.length > 0) {
+    tbsFields.push(asn1.create(UNIVERSAL, asn1.Type.SEQUENCE, true, entries));
+  }
+  // CRL number must increase with every CRL; seconds since epoch do
+  tbsFields.push(asn1.create(CONTEXT_SPECIFIC, 0, true, [
+    asn1.create(UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      extension(OID_CRL_NUMBER, asn1.create(UNIVERSAL, asn1.Type.INTEGER, false,
+        asn1.integerToDer(Math.floor(now.getTime() / 1000)).getBytes())),
+    ]),
+  ]));
+  const tbsCertList = asn1.create(UNIVERSAL, asn1.Type.SEQUENCE, true, tbsFields);
+
+  const md = forge.md.sha256.create();
+  md.update(asn1.toDer(tbsCertList).getBytes());
+  const signature = ca.privateKey.sign(md);
+
+  const crl = asn1.create(UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    tbsCertList,
+    algorithmIdentifier(),
+    asn1.create(UNIVERSAL, asn1.Type.BITSTRING, false, String.fromCharCode(0) + signature),
+  ]);
+
+  return forge.pem.encode({ type: 'X509 CRL', body: asn1.toDer(crl).getBytes() });
+}
+
+/**
+ * Write the CRL to DEVICE_CA_CRL_PATH (read by Mosquitto's crlfile)
+ */
+export async function writeCrl(): Promise<void> {
+  if (!CRL_PATH) {
+    return;
+  }
+  const crl = await buildCrl();
+  if (!crl) {
+    return;
+  }
+  const tempPath = `${CRL_PATH}.tmp`;
+  await fs.writeFile(tempPath, crl);
+  await fs.rename(tempPath, CRL_PATH);
+  moduleLogger.debug('CRL written', { crlPath: CRL_PATH });
+}
+
+let crlRefreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Write the CRL now and daily, so it is re-signed well before nextUpdate
+ * (a CRL past nextUpdate makes Mosquitto reject every certificate)
+ */
+export function startCrlRefresh(): void {
+  if (crlRefreshTimer || !isDeviceCaConfigured() || !CRL_PATH) {
+    return;
+  }
+  const refresh = () => writeCrl().catch((error) => moduleLogger.error('Failed to write CRL', { error: error.message }));
+  refresh();
+  crlRefreshTimer = setInterval(refresh, CRL_REFRESH_INTERVAL_MS);
+  crlRefreshTimer.unref();
+}
+
+export function stopCrlRefresh(): void {
+  if (crlRefreshTimer) {
+    clearInterval(crlRefreshTimer);
+    crlRefreshTimer = null;
+  }
+}
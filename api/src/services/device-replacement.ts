@@ -0,0 +1,259 @@
+/**
+ * Device Replacement
+ * Moves the configuration of a dead device onto a freshly provisioned one:
+ * target state, device sensors, tags, dashboard layouts, device-scoped alert
+ * rules, MQTT broker assignment and the Digital Twin space mapping. The old
+ * device's API keys and certificates are revoked and the replacement is recorded on both
+ * devices' event streams under one correlation id.
+ */
+
+import { randomUUID } from 'crypto';
+import { PoolClient } from 'pg';
+import { transaction } from '../db/connection';
+import { emergencyRevokeApiKey } from './api-key-rotation';
+import { revokeDeviceCertificates } from './device-certificates';
+import { Actor, EventPublisher } from './event-sourcing';
+import { neo4jService } from './neo4j.service';
+import logger from '../utils/logger';
+
+const moduleLogger = logger.child({ module: 'device-replacement' });
+
+export interface DeviceReplacementSummary {
+  oldDeviceUuid: string;
+  newDeviceUuid: string;
+  targetStateVersion: number | null;
+  sensors: number;
+  tags: number;
+  dashboardLayouts: number;
+  alertRules: number;
+  brokerId: number | null;
+  spaces: number[];
+  warnings: string[];
+}
+
+const ALERT_RULE_COLUMNS = `name, description, pattern, pattern_type, service_name, level,
+  trigger_type, threshold, time_window, severity, notify_email, notify_webhook, notify_dashboard,
+  is_enabled, rule_type, source, metric, sensor_name, condition, threshold_value, range_min,
+  range_max, for_duration, hysteresis, auto_resolve, notify_emails, webhook_ids`;
+
+/**
+ * Copy sensors with new sensor UUIDs (they are unique across devices) and
+ * point config.sensors of the copied target state at them
+ */
+async function copySensors(client: PoolClient, oldUuid: string, newUuid: string, config: any, deployedBy: string) {
+  const sensors = await client.query(
+    `SELECT uuid, name, protocol, enabled, poll_interval, connection, data_points, metadata
+     FROM device_sensors WHERE device_uuid = $1`,
+    [oldUuid]
+  );
+
+  const uuidMap = new Map<string, string>();
+  for (const sensor of sensors.rows) {
+    const sensorUuid = randomUUID();
+    uuidMap.set(sensor.uuid, sensorUuid);
+    await client.query(
+      `INSERT INTO device_sensors (
+        device_uuid, uuid, name, protocol, enabled, poll_interval, connection, data_points, metadata,
+        created_by, updated_by, deployment_status
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $10, 'pending')`,
+      [
+        newUuid, sensorUuid, sensor.name, sensor.protocol, sensor.enabled, sensor.poll_interval,
+        JSON.stringify(sensor.connection), JSON.stringify(sensor.data_points), JSON.stringify(sensor.metadata),
+        deployedBy,
+      ]
+    );
+  }
+
+  if (Array.isArray(config?.sensors)) {
+    config.sensors = config.sensors.map((sensor: any) => ({
+      ...sensor,
+      uuid: (sensor.uuid && uuidMap.get(sensor.uuid)) || randomUUID(),
+    }));
+  }
+
+  return sensors.rows.length;
+}
+
+async function copyConfiguration(
+  client: PoolClient,
+  oldUuid: string,
+  newUuid: string,
+  deployedBy: string,
+): Promise<Omit<DeviceReplacementSummary, 'oldDeviceUuid' | 'newDeviceUuid' | 'spaces' | 'warnings'>> {
+  const targetState = await client.query(
+    'SELECT apps, config FROM device_target_state WHERE device_uuid = $1',
+    [oldUuid]
+  );
+  const config = targetState.rows[0]?.config ?? {};
+
+  const sensors = await copySensors(client, oldUuid, newUuid, config, deployedBy);
+
+  // Deployed straight away, the new device is waiting for its first target state
+  let targetStateVersion: number | null = null;
+  if (targetState.rows.length > 0) {
+    const result = await client.query(
+      `INSERT INTO device_target_state (device_uuid, apps, config, version, needs_deployment, last_deployed_at, deployed_by, updated_at)
+       VALUES ($1, $2, $3, 1, false, CURRENT_TIMESTAMP, $4, CURRENT_TIMESTAMP)
+       ON CONFLICT (device_uuid) DO UPDATE SET
+         apps = EXCLUDED.apps,
+         config = EXCLUDED.config,
+         version = device_target_state.version + 1,
+         needs_deployment = false,
+         last_deployed_at = CURRENT_TIMESTAMP,
+         deployed_by = EXCLUDED.deployed_by,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING version`,
+      [newUuid, JSON.stringify(targetState.rows[0].apps), JSON.stringify(config), deployedBy]
+    );
+    targetStateVersion = result.rows[0].version;
+    await client.query(
+      'UPDATE device_sensors SET config_version = $1, synced_to_config = true WHERE device_uuid = $2',
+      [targetStateVersion, newUuid]
+    );
+  }
+
+  const tags = await client.query(
+    `INSERT INTO device_tags (device_uuid, key, value, created_by)
+     SELECT $2, key, value, created_by FROM device_tags WHERE device_uuid = $1
+     ON CONFLICT (device_uuid, key) DO UPDATE SET value = EXCLUDED.value, updated_at = CURRENT_TIMESTAMP`,
+    [oldUuid, newUuid]
+  );
+
+  // Widgets may refer to the device by UUID
+  const layouts = await client.query(
+    `INSERT INTO dashboard_layouts (user_id, device_uuid, layout_name, widgets, is_default)
+     SELECT user_id, $2, layout_name, replace(widgets::text, $1::text, $2::text)::jsonb, is_default
+     FROM dashboard_layouts WHERE device_uuid = $1
+     ON CONFLICT DO NOTHING`,
+    [oldUuid, newUuid]
+  );
+
+  const alertRules = await client.query(
+    `INSERT INTO log_alert_rules (device_uuid, ${ALERT_RULE_COLUMNS})
+     SELECT $2, ${ALERT_RULE_COLUMNS} FROM log_alert_rules WHERE device_uuid = $1`,
+    [oldUuid, newUuid]
+  );
+
+  // Broker assignment; the agent picks up desired.mqtt on its next shadow sync
+  const broker = await client.query(
+    `UPDATE devices SET mqtt_broker_id = old.mqtt_broker_id, modified_at = CURRENT_TIMESTAMP
+     FROM devices old
+     WHERE devices.uuid = $2 AND old.uuid = $1 AND old.mqtt_broker_id IS NOT NULL
+     RETURNING devices.mqtt_broker_id`,
+    [oldUuid, newUuid]
+  );
+  await client.query(
+    `INSERT INTO device_shadows (device_uuid, desired, version)
+     SELECT $2, jsonb_build_object('mqtt', desired->'mqtt'), 1
+     FROM device_shadows WHERE device_uuid = $1 AND desired ? 'mqtt'
+     ON CONFLICT (device_uuid) DO UPDATE SET
+       desired = jsonb_set(COALESCE(device_shadows.desired, '{}'::jsonb), '{mqtt}', EXCLUDED.desired->'mqtt'),
+       version = device_shadows.version + 1,
+       updated_at = CURRENT_TIMESTAMP`,
+    [oldUuid, newUuid]
+  );
+
+  await client.query(
+    `UPDATE devices SET replaced_by_uuid = $2, replaced_at = CURRENT_TIMESTAMP, is_active = false, modified_at = CURRENT_TIMESTAMP
+     WHERE uuid = $1`,
+    [oldUuid, newUuid]
+  );
+
+  return {
+    targetStateVersion,
+    sensors,
+    tags: tags.rowCount ?? 0,
+    dashboardLayouts: layouts.rowCount ?? 0,
+    alertRules: alertRules.rowCount ?? 0,
+    brokerId: broker.rows[0]?.mqtt_broker_id ?? null,
+  };
+}
+
+/**
+ * Move the space mapping in the Digital Twin graph to the new device
+ */
+async function moveSpaceMapping(oldUuid: string, newUuid: string, newDeviceName: string | null): Promise<number[]> {
+  const mappings = await neo4jService.getDeviceMappings();
+  const spaces = mappings.filter((mapping) => mapping.deviceUuid === oldUuid).map((mapping) => mapping.spaceId);
+
+  for (const spaceId of spaces) {
+    await neo4jService.mapDeviceToSpace(newUuid, spaceId, newDeviceName || undefined);
+  }
+  if (spaces.length > 0) {
+    await neo4jService.unmapDeviceFromSpace(oldUuid);
+  }
+  return spaces;
+}
+
+/**
+ * Replace oldUuid with newUuid. Both devices must exist; the caller checks
+ * that the new device is freshly provisioned.
+ */
+export async function replaceDevice(
+  oldUuid: string,
+  newUuid: string,
+  newDeviceName: string | null,
+  actor: Actor,
+): Promise<DeviceReplacementSummary> {
+  const deployedBy = `replacement:${actor.id}`;
+  const copied = await transaction((client) => copyConfiguration(client, oldUuid, newUuid, deployedBy));
+
+  const warnings: string[] = [];
+
+  let spaces: number[] = [];
+  try {
+    spaces = await moveSpaceMapping(oldUuid, newUuid, newDeviceName);
+  } catch (error: any) {
+    moduleLogger.warn('Could not move Digital Twin space mapping', { oldUuid, newUuid, error: error.message });
+    warnings.push(`Digital Twin space mapping not moved: ${error.message}`);
+  }
+
+  try {
+    await emergencyRevokeApiKey(oldUuid, `Replaced by device ${newUuid}`);
+  } catch (error: any) {
+    moduleLogger.error('Could not revoke keys of replaced device', { oldUuid, error: error.message });
+    warnings.push(`Keys of the old device not revoked: ${error.message}`);
+  }
+
+  try {
+    await revokeDeviceCertificates(oldUuid, `Replaced by device ${newUuid}`, actor);
+  } catch (error: any) {
+    moduleLogger.error('Could not revoke certificates of replaced device', { oldUuid, error: error.message });
+    warnings.push(`Certificates of the old device not revoked: ${error.message}`);
+  }
+
+  // One correlation id links both devices' histories
+  const eventPublisher = new EventPublisher('device-replacement', undefined, actor);
+  const replacedEventId = await eventPublisher.publish(
+    'device.replaced',
+    'device',
+    oldUuid,
+    { replaced_by: newUuid, replaced_at: new Date().toISOString() },
+    { severity: 'warning', impact: 'high', metadata: { endpoint: '/devices/:uuid/replace' } }
+  );
+  await eventPublisher.publish(
+    'device.replacement',
+    'device',
+    newUuid,
+    {
+      replaces: oldUuid,
+      target_state_version: copied.targetStateVersion,
+      sensors: copied.sensors,
+      tags: copied.tags,
+      dashboard_layouts: copied.dashboardLayouts,
+      alert_rules: copied.alertRules,
+      broker_id: copied.brokerId,
+      spaces,
+    },
+    {
+      causationId: replacedEventId || undefined,
+      severity: 'info',
+      impact: 'high',
+      metadata: { endpoint: '/devices/:uuid/replace' },
+    }
+  );
+
+  moduleLogger.info('Device replaced', { oldUuid, newUuid, ...copied, spaces, warnings: warnings.length });
+
+  return { oldDeviceUuid: oldUuid, newDeviceUuid: newUuid, ...copied, spaces, warnings };
+}
@@ -16,6 +16,8 @@ import {
   DeviceModel,
   DeviceCurrentStateModel,
   DeviceMetricsModel,
+  ServiceMetricsModel,
+  ServiceMetricsSample,
 } from '../db/models';
 import { EventPublisher, objectsAreEqual } from './event-sourcing';
 import EventSourcingConfig from '../events/event-sourcing';
@@ -45,9 +47,24 @@ export interface DeviceStateReport {
     network_interfaces?: any;
     sensor_health?: any;
     protocol_adapters_health?: any;
+    service_metrics?: ServiceMetricsSample[];
+    service_events?: ServiceLifecycleEvent[];
   };
 }
 
+/**
+ * OOM kill or restart of a service container, as reported by devices
+ */
+export interface ServiceLifecycleEvent {
+  type: 'oom_killed' | 'restarted';
+  appId: number;
+  serviceName: string;
+  containerId: string;
+  timestamp: string;
+  restartCount?: number;
+  exitCode?: number;
+}
+
 export interface ProcessingOptions {
   source: 'http' | 'mqtt';
   ipAddress?: string;
@@ -55,6 +72,52 @@ export interface ProcessingOptions {
   topic?: string;
 }
 
+/**
+ * Services whose reported rollback is not in the previous report
+ */
+function findNewRollbacks(previousApps: any, apps: any): Array<Record<string, any>> {
+  const rollbacks: Array<Record<string, any>> = [];
+  for (const [appId, app] of Object.entries<any>(apps || {})) {
+    for (const service of app?.services || []) {
+      if (!service?.rollback) {
+        continue;
+      }
+      const previous = (previousApps?.[appId]?.services || [])
+        .find((candidate: any) => candidate?.serviceId === service.serviceId);
+      if (previous?.rollback?.timestamp === service.rollback.timestamp) {
+        continue;
+      }
+      rollbacks.push({
+        app_id: Number(appId),
+        service_id: service.serviceId,
+        service_name: service.serviceName,
+        from_image: service.rollback.fromImage,
+        to_image: service.rollback.toImage,
+        reason: service.rollback.reason,
+        rolled_back_at: service.rollback.timestamp,
+      });
+    }
+  }
+  return rollbacks;
+}
+
+/**
+ * Samples that can be stored: identify a service and have a timestamp no more
+ * than a day ahead (a device with a wrong clock would have no partition to go to)
+ */
+function validServiceSamples(samples: any): ServiceMetricsSample[] {
+  if (!Array.isArray(samples)) {
+    return [];
+  }
+  const latest = Date.now() + 24 * 60 * 60 * 1000;
+  return samples.filter((sample) => {
+    const time = Date.parse(sample?.timestamp);
+    return Number.isInteger(sample?.appId)
+      && typeof sample.serviceName === 'string' && sample.serviceName.length > 0
+      && !isNaN(time) && time <= latest;
+  });
+}
+
 /**
  * Process device state report
  * Can be called from both HTTP endpoint and MQTT handler
@@ -83,6 +146,9 @@ export async function processDeviceStateReport(
     // Ensure device exists and mark as online
     await DeviceModel.getOrCreate(uuid);
 
+    // Previous report, to detect service rollbacks that are new in this one
+    const previousState = await DeviceCurrentStateModel.get(uuid);
+
     // Update current state (including version from agent report)
     await DeviceCurrentStateModel.update(
       uuid,
@@ -149,6 +215,51 @@ export async function processDeviceStateReport(
       );
     }
 
+    // EVENT SOURCING: Service updates the device rolled back
+    for (const rollback of findNewRollbacks(previousState?.apps, deviceState.apps)) {
+      await eventPublisher.publish(
+        'container.rolled_back',
+        'device',
+        uuid,
+        rollback,
+        {
+          severity: 'warning',
+          impact: 'medium',
+          metadata: {
+            endpoint: options.source === 'http' ? '/device/state' : 'mqtt'
+          }
+        }
+      );
+    }
+
+    // EVENT SOURCING: Service containers OOM-killed or restarted on the device
+    for (const event of Array.isArray(deviceState.service_events) ? deviceState.service_events : []) {
+      const oomKilled = event?.type === 'oom_killed';
+      if (!oomKilled && event?.type !== 'restarted') {
+        continue;
+      }
+      await eventPublisher.publish(
+        oomKilled ? 'container.oom_killed' : 'container.restarted',
+        'device',
+        uuid,
+        {
+          app_id: event.appId,
+          service_name: event.serviceName,
+          container_id: event.containerId,
+          restart_count: event.restartCount,
+          exit_code: event.exitCode,
+          occurred_at: event.timestamp,
+        },
+        {
+          severity: oomKilled ? 'warning' : 'info',
+          impact: oomKilled ? 'medium' : 'low',
+          metadata: {
+            endpoint: options.source === 'http' ? '/device/state' : 'mqtt'
+          }
+        }
+      );
+    }
+
     // Update device table with IP address and system info
     const updateFields: any = {};
     if (deviceState.ip_address) updateFields.ip_address = deviceState.ip_address;
@@ -227,6 +338,17 @@ export async function processDeviceStateReport(
       }
     }
 
+    // Per-service resource usage
+    const serviceSamples = validServiceSamples(deviceState.service_metrics);
+    if (serviceSamples.length > 0) {
+      try {
+        await ServiceMetricsModel.record(uuid, serviceSamples);
+      } catch (error) {
+        logger.error(`Failed to store service metrics for device ${uuid.substring(0, 8)}:`, error);
+        // Don't fail the entire state report if the samples can't be stored
+      }
+    }
+
     logger.info(`Processed state report for device ${uuid.substring(0, 8)}... (${options.source})`);
   }
 }
@@ -0,0 +1,62 @@
+/**
+ * Device Tag Query
+ * Resolves tag selectors to device UUIDs (shared by device query, rollouts and jobs)
+ */
+
+import { query } from '../db/connection';
+import { TagSelector } from '../types/device-tags';
+
+/**
+ * Find devices matching all tag selectors (AND logic)
+ */
+export async function findDeviceUuidsByTags(tagSelectors: TagSelector): Promise<string[]> {
+  const result = await query(
+    'SELECT * FROM find_devices_by_tags($1::jsonb)',
+    [JSON.stringify(tagSelectors)]
+  );
+
+  return result.rows.map(row => row.device_uuid);
+}
+
+// Device columns that job target filters matched before they used tags
+const DEVICE_FILTER_COLUMNS = [
+  'device_name',
+  'device_type',
+  'fleet_id',
+  'os_version',
+  'supervisor_version',
+  'status',
+  'provisioning_state',
+  'is_online',
+];
+
+/**
+ * Find active devices matching a job target filter (AND logic). Keys naming
+ * a device column (e.g. device_type) match that column, so filters saved
+ * before jobs used tags keep working; all other keys are tag selectors.
+ */
+export async function findDeviceUuidsByTargetFilter(filter: Record<string, unknown>): Promise<string[]> {
+  const conditions = ['d.is_active = true'];
+  const params: unknown[] = [];
+  const tagSelectors: TagSelector = {};
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (DEVICE_FILTER_COLUMNS.includes(key)) {
+      params.push(String(value));
+      conditions.push(`d.${key}::text = $${params.length}`);
+    } else {
+      tagSelectors[key] = String(value);
+    }
+  }
+
+  if (Object.keys(tagSelectors).length > 0) {
+    params.push(JSON.stringify(tagSelectors));
+    conditions.push(`d.uuid IN (SELECT device_uuid FROM find_devices_by_tags($${params.length}::jsonb))`);
+  }
+
+  const result = await query(
+    `SELECT d.uuid FROM devices d WHERE ${conditions.join(' AND ')}`,
+    params
+  );
+  return result.rows.map(row => row.uuid);
+}
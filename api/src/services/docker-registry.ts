@@ -18,9 +18,15 @@ interface ImageReference {
   registry: string;
   repository: string;
   tag: string;
+  digest?: string;        // sha256:... when the reference is pinned
   original: string;
 }
 
+export interface RegistryCredentials {
+  username?: string;
+  password?: string;
+}
+
 interface ResolvedImage {
   imageName: string;      // Original tag-based reference
   digest: string;         // Resolved digest (sha256:...)
@@ -34,14 +40,18 @@ interface ResolvedImage {
  *   nginx:latest -> { registry: 'docker.io', repository: 'library/nginx', tag: 'latest' }
  *   ghcr.io/owner/repo:v1.0 -> { registry: 'ghcr.io', repository: 'owner/repo', tag: 'v1.0' }
  *   myregistry.com:5000/app:dev -> { registry: 'myregistry.com:5000', repository: 'app', tag: 'dev' }
+ *   nginx:1.25@sha256:abc... -> { ..., tag: '1.25', digest: 'sha256:abc...' }
  */
-function parseImageReference(imageName: string): ImageReference {
+export function parseImageReference(imageName: string): ImageReference {
   const original = imageName;
   
+  // Digest (pinned reference) comes after '@'
+  const [name, digest] = imageName.split('@');
+
   // Check if contains registry (has domain or port)
-  const parts = imageName.split('/');
+  const parts = name.split('/');
   let registry = 'docker.io';
-  let remainder = imageName;
+  let remainder = name;
   
   // First part contains '.' or ':' or is known registry -> it's a registry
   if (parts.length > 1 && (parts[0].includes('.') || parts[0].includes(':') || 
@@ -50,7 +60,7 @@ function parseImageReference(imageName: string): ImageReference {
     remainder = parts.slice(1).join('/');
   }
   
-  // Split repository and tag
+  // Split repository and tag (registry ports were removed above)
   const tagSplit = remainder.split(':');
   let repository = tagSplit[0];
   let tag = tagSplit[1] || 'latest';
@@ -60,7 +70,7 @@ function parseImageReference(imageName: string): ImageReference {
     repository = `library/${repository}`;
   }
   
-  return { registry, repository, tag, original };
+  return { registry, repository, tag, digest, original };
 }
 
 /**
@@ -75,7 +85,7 @@ function parseImageReference(imageName: string): ImageReference {
  */
 export async function resolveImageDigest(
   imageName: string,
-  credentials?: { username?: string; password?: string }
+  credentials?: RegistryCredentials
 ): Promise<ResolvedImage> {
   const ref = parseImageReference(imageName);
   
@@ -99,24 +109,28 @@ export async function resolveImageDigest(
       'Accept': 'application/vnd.docker.distribution.manifest.v2+json, application/vnd.oci.image.manifest.v1+json'
     };
     
-    // Add authentication if provided
-    if (credentials?.username && credentials?.password) {
-      const auth = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
-      headers['Authorization'] = `Basic ${auth}`;
-    }
-    
-    // Docker Hub requires token-based auth for public images
-    if (ref.registry === 'docker.io' && !credentials) {
-      const token = await getDockerHubToken(ref.repository);
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-    
     // Fetch manifest (HEAD request to get digest from header)
-    const response = await fetch(manifestUrl, {
+    let response = await fetch(manifestUrl, {
       method: 'HEAD',
       headers
     });
     
+    // Token auth (Docker Hub, ghcr.io, most private registries): follow the
+    // WWW-Authenticate challenge, using credentials for the token if we have them
+    if (response.status === 401) {
+      const challenge = response.headers.get('WWW-Authenticate') || '';
+      if (challenge.toLowerCase().startsWith('bearer')) {
+        const token = await getRegistryToken(challenge, ref.repository, credentials);
+        headers['Authorization'] = `Bearer ${token}`;
+      } else if (credentials?.username && credentials?.password) {
+        const auth = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+        headers['Authorization'] = `Basic ${auth}`;
+      }
+      if (headers['Authorization']) {
+        response = await fetch(manifestUrl, { method: 'HEAD', headers });
+      }
+    }
+    
     if (!response.ok) {
       throw new Error(`Registry returned ${response.status}: ${response.statusText}`);
     }
@@ -151,34 +165,81 @@ export async function resolveImageDigest(
 }
 
 /**
- * Get Docker Hub authentication token for public images
- * Docker Hub requires token-based auth even for public images
+ * Get a pull token from the registry's token service
+ * Parses the WWW-Authenticate Bearer challenge (realm, service, scope).
+ * Docker Hub requires token-based auth even for public images.
  */
-async function getDockerHubToken(repository: string): Promise<string> {
-  const authUrl = `https://auth.docker.io/token?service=registry.docker.io&scope=repository:${repository}:pull`;
+async function getRegistryToken(
+  challenge: string,
+  repository: string,
+  credentials?: RegistryCredentials
+): Promise<string> {
+  const params: Record<string, string> = {};
+  for (const match of challenge.matchAll(/(\w+)="([^"]*)"/g)) {
+    params[match[1]] = match[2];
+  }
+  if (!params.realm) {
+    throw new Error('Registry auth challenge has no realm');
+  }
   
-  const response = await fetch(authUrl);
+  const authUrl = new URL(params.realm);
+  if (params.service) {
+    authUrl.searchParams.set('service', params.service);
+  }
+  authUrl.searchParams.set('scope', params.scope || `repository:${repository}:pull`);
+  
+  const headers: Record<string, string> = {};
+  if (credentials?.username && credentials?.password) {
+    const auth = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+    headers['Authorization'] = `Basic ${auth}`;
+  }
+  
+  const response = await fetch(authUrl.toString(), { headers });
   if (!response.ok) {
-    throw new Error(`Failed to get Docker Hub token: ${response.status}`);
+    throw new Error(`Failed to get registry token: ${response.status}`);
   }
   
-  const data = await response.json() as { token: string };
-  return data.token;
+  const data = await response.json() as { token?: string; access_token?: string };
+  const token = data.token || data.access_token;
+  if (!token) {
+    throw new Error('Registry token service returned no token');
+  }
+  return token;
+}
+
+/**
+ * Registry host for credential lookup (Docker Hub aliases collapse to docker.io)
+ */
+export function normalizeRegistry(registry: string): string {
+  const host = registry.replace(/^https?:\/\//, '').replace(/\/+$/, '').toLowerCase();
+  return ['index.docker.io', 'registry-1.docker.io', 'registry.hub.docker.com'].includes(host)
+    ? 'docker.io'
+    : host;
+}
+
+/**
+ * Strip the digest from an image reference, keeping registry, repository and tag
+ */
+export function stripDigest(imageName: string): string {
+  return imageName.split('@')[0];
 }
 
 /**
  * Resolve digests for all images in an app configuration
  * 
  * Walks through the apps object and resolves each service's image to a digest.
- * Updates the imageName field to include @sha256:... digest.
+ * Pins the imageName to repository:tag@sha256:... so the device pulls exactly
+ * that image while the tag stays visible. References that already carry a tag
+ * and digest are re-resolved (the tag may have moved since the last deploy);
+ * bare repository@sha256 references are left alone.
  * 
  * @param apps - Apps object from target state
- * @param credentials - Optional registry credentials
+ * @param credentials - Registry credentials keyed by registry host
  * @returns Apps object with resolved digests
  */
 export async function resolveAppsImages(
   apps: Record<number, any>,
-  credentials?: { username?: string; password?: string }
+  credentials: Record<string, RegistryCredentials> = {}
 ): Promise<Record<number, any>> {
   const resolvedApps = { ...apps };
   
@@ -190,36 +251,38 @@ export async function resolveAppsImages(
     }
     
     for (const service of app.services) {
-      const imageName = service.imageName || service.image;
+      const imageName = service.imageName || service.config?.image || service.image;
       
       if (!imageName) {
         continue;
       }
       
-      // Skip if already using digest (@sha256:...)
-      if (imageName.includes('@sha256:')) {
+      const ref = parseImageReference(imageName);
+      const taggedName = stripDigest(imageName);
+      
+      // Pinned by digest only, there is no tag to follow
+      if (ref.digest && !/:[^/]+$/.test(taggedName)) {
         console.log(`   ✓ ${imageName} (already digest-based)`);
         continue;
       }
       
       // Resolve tag to digest
-      console.log(`   🔍 Resolving ${imageName}...`);
-      const resolved = await resolveImageDigest(imageName, credentials);
+      console.log(`   🔍 Resolving ${taggedName}...`);
+      const resolved = await resolveImageDigest(taggedName, credentials[normalizeRegistry(ref.registry)]);
       
       if (resolved.digest) {
-        // Update service to use digest reference
-        // Format: repository@sha256:abc123...
-        const imageWithoutTag = imageName.split(':')[0];
-        const digestReference = `${imageWithoutTag}@${resolved.digest}`;
+        // Format: [registry/]repository:tag@sha256:abc123...
+        const tagReference = /:[^/]+$/.test(taggedName) ? taggedName : `${taggedName}:latest`;
+        const digestReference = `${tagReference}@${resolved.digest}`;
         
         service.imageName = digestReference;
         if (service.config?.image) {
           service.config.image = digestReference;
         }
         
-        console.log(`   ✓ ${imageName} -> ${resolved.digest.substring(0, 19)}...`);
+        console.log(`   ✓ ${taggedName} -> ${resolved.digest.substring(0, 19)}...`);
       } else {
-        console.log(`   ⚠️  ${imageName} (digest resolution failed, using tag)`);
+        console.log(`   ⚠️  ${imageName} (digest resolution failed, using ${ref.digest ? 'previous digest' : 'tag'})`);
       }
     }
   }
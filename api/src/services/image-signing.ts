@@ -0,0 +1,156 @@
+/**
+ * Image Signing
+ * Signs approved image digests with the platform key (Ed25519) so the agent can
+ * refuse images that were not approved in the image registry.
+ *
+ * Signed payload: "iotistic-image-v1\n<registry>/<repository>@<digest>"
+ * Delivered to devices in config.imagePolicy.signatures of their target state.
+ * Disabled unless IMAGE_SIGNING_PRIVATE_KEY is set; devices then get mode 'off'.
+ */
+
+import crypto from 'crypto';
+import { query } from '../db/connection';
+import { normalizeRegistry, parseImageReference } from './docker-registry';
+import logger from '../utils/logger';
+
+export type ImagePolicyMode = 'enforce' | 'warn' | 'off';
+
+export const IMAGE_POLICY_MODES: ImagePolicyMode[] = ['enforce', 'warn', 'off'];
+
+export interface ImageSignature {
+  image: string;      // <registry>/<repository>
+  digest: string;     // sha256:...
+  signature: string;  // base64 Ed25519 signature
+}
+
+/**
+ * Image policy as delivered to devices in config.imagePolicy
+ */
+export interface DeviceImagePolicy {
+  mode: ImagePolicyMode;
+  signatures?: ImageSignature[];
+}
+
+const SIGNATURE_VERSION = 'iotistic-image-v1';
+
+let cachedPrivateKey: crypto.KeyObject | null | undefined;
+let warnedNotConfigured = false;
+
+function loadPrivateKey(): crypto.KeyObject | null {
+  if (cachedPrivateKey === undefined) {
+    const pem = (process.env.IMAGE_SIGNING_PRIVATE_KEY || '').replace(/\\n/g, '\n');
+    cachedPrivateKey = pem ? crypto.createPrivateKey(pem) : null;
+  }
+  return cachedPrivateKey;
+}
+
+function getPrivateKey(): crypto.KeyObject {
+  const key = loadPrivateKey();
+  if (!key) {
+    throw new Error('Image signing is not enabled (IMAGE_SIGNING_PRIVATE_KEY not set)');
+  }
+  return key;
+}
+
+/**
+ * Whether image digests are signed (IMAGE_SIGNING_PRIVATE_KEY set)
+ */
+export function isImageSigningConfigured(): boolean {
+  return loadPrivateKey() !== null;
+}
+
+/**
+ * Platform public key (PEM), pinned on agents as IMAGE_SIGNING_PUBLIC_KEY
+ */
+export function getImageSigningPublicKey(): string {
+  return crypto.createPublicKey(getPrivateKey()).export({ type: 'spki', format: 'pem' }).toString();
+}
+
+/**
+ * Canonical signed payload for an image digest
+ */
+export function imageSignaturePayload(image: string, digest: string): string {
+  return `${SIGNATURE_VERSION}\n${image}@${digest}`;
+}
+
+/**
+ * Sign an image digest with the platform key
+ */
+export function signImageDigest(image: string, digest: string): string {
+  return crypto.sign(null, Buffer.from(imageSignaturePayload(image, digest)), getPrivateKey()).toString('base64');
+}
+
+/**
+ * Whether a pinned image is approved in the image registry
+ * The image must be approved, and if the tag has a recorded digest it must match.
+ */
+async function isImageApproved(registry: string, repository: string, tag: string, digest: string): Promise<boolean> {
+  // Docker Hub official images are stored without the library/ prefix
+  const names = repository.startsWith('library/') ? [repository, repository.slice('library/'.length)] : [repository];
+
+  const result = await query<{ id: number; tag_digest: string | null }>(
+    `SELECT i.id, t.digest AS tag_digest
+     FROM images i
+     LEFT JOIN image_tags t ON t.image_id = i.id AND t.tag = $3 AND t.digest IS NOT NULL
+     WHERE i.registry = $1 AND i.image_name = ANY($2) AND i.approval_status = 'approved'`,
+    [registry, names, tag]
+  );
+
+  return result.rows.some(row => !row.tag_digest || row.tag_digest === digest);
+}
+
+/**
+ * Signatures for every approved, digest-pinned image in a set of apps
+ * Unpinned or unapproved images get no signature (the agent decides what to do).
+ */
+export async function getImageSignaturesForApps(apps: Record<string, any>): Promise<ImageSignature[]> {
+  const signatures = new Map<string, ImageSignature>();
+
+  for (const app of Object.values(apps || {})) {
+    for (const service of app?.services || []) {
+      const imageName = service.imageName || service.config?.image;
+      if (!imageName) {
+        continue;
+      }
+      const ref = parseImageReference(imageName);
+      if (!ref.digest) {
+        continue;
+      }
+      const registry = normalizeRegistry(ref.registry);
+      const image = `${registry}/${ref.repository}`;
+      const key = `${image}@${ref.digest}`;
+      if (signatures.has(key)) {
+        continue;
+      }
+      if (await isImageApproved(registry, ref.repository, ref.tag, ref.digest)) {
+        signatures.set(key, { image, digest: ref.digest, signature: signImageDigest(image, ref.digest) });
+      }
+    }
+  }
+
+  return [...signatures.values()];
+}
+
+/**
+ * Image policy for a device: mode from its config, plus signatures when enabled
+ */
+export async function buildDeviceImagePolicy(
+  apps: Record<string, any>,
+  config: Record<string, any>
+): Promise<DeviceImagePolicy> {
+  const mode: ImagePolicyMode = config?.imagePolicy?.mode || 'off';
+  if (mode === 'off') {
+    return { mode };
+  }
+  if (!isImageSigningConfigured()) {
+    if (!warnedNotConfigured) {
+      warnedNotConfigured = true;
+      logger.warn('Device image policies are ignored: IMAGE_SIGNING_PRIVATE_KEY is not set');
+    }
+    return { mode: 'off' };
+  }
+  return {
+    mode,
+    signatures: await getImageSignaturesForApps(apps),
+  };
+}
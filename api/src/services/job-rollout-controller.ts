@@ -0,0 +1,470 @@
+/**
+ * Job Rollout Controller
+ *
+ * Rollout controls for device job executions (modeled on AWS IoT Jobs job
+ * executions rollout/abort configuration). Each tick, for every active job:
+ * 1. Moves device executions IN_PROGRESS longer than timeout_minutes to TIMED_OUT
+ * 2. Cancels the job when an abort criterion matches (e.g. >5% FAILED after 20 devices)
+ * 3. Notifies more queued devices within max_concurrency and the (ramping) rate per minute
+ * 4. Recomputes job statistics and overall status
+ *
+ * Device executions with notified_at = NULL are held back and not offered by
+ * GET /devices/:uuid/jobs/next until the controller dispatches them.
+ */
+
+import { query } from '../db/connection';
+import { EventPublisher } from './event-sourcing';
+import { getMqttJobsNotifier } from './mqtt-jobs-notifier';
+import logger from '../utils/logger';
+
+export interface JobExponentialRate {
+  base_rate_per_minute: number;
+  increment_factor: number;
+  rate_increase_criteria: {
+    number_of_notified_devices?: number;
+    number_of_succeeded_devices?: number;
+  };
+}
+
+export interface JobRolloutConfig {
+  max_concurrency?: number;      // Max devices notified but not finished
+  maximum_per_minute?: number;   // Fixed rate, or cap for exponential_rate
+  exponential_rate?: JobExponentialRate;
+}
+
+export type JobFailureType = 'FAILED' | 'TIMED_OUT' | 'REJECTED' | 'ALL';
+
+export interface JobAbortCriteria {
+  failure_type: JobFailureType;
+  action: 'CANCEL';
+  threshold_percentage: number;
+  min_executed_devices: number;
+}
+
+export interface JobAbortConfig {
+  criteria: JobAbortCriteria[];
+}
+
+export interface JobExecutionCounts {
+  pending: number;               // QUEUED, not yet notified
+  notified: number;
+  in_flight: number;             // Notified and QUEUED or IN_PROGRESS
+  notified_last_minute: number;
+  queued: number;
+  in_progress: number;
+  succeeded: number;
+  failed: number;
+  timed_out: number;
+  rejected: number;
+  canceled: number;
+}
+
+const FAILURE_TYPES: JobFailureType[] = ['FAILED', 'TIMED_OUT', 'REJECTED', 'ALL'];
+const CHECK_INTERVAL_MS = parseInt(process.env.JOB_ROLLOUT_CHECK_INTERVAL_MS || '15000', 10);
+
+const isPositiveInteger = (value: any) => Number.isInteger(value) && value >= 1;
+
+/**
+ * Validate rollout_config from POST /jobs/execute, returns an error message or null
+ */
+export function validateRolloutConfig(config: any): string | null {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'rollout_config must be an object';
+  }
+
+  for (const field of ['max_concurrency', 'maximum_per_minute']) {
+    if (config[field] !== undefined && !isPositiveInteger(config[field])) {
+      return `rollout_config.${field} must be a positive integer`;
+    }
+  }
+
+  const rate = config.exponential_rate;
+  if (rate !== undefined) {
+    if (!rate || typeof rate !== 'object') {
+      return 'rollout_config.exponential_rate must be an object';
+    }
+    if (!isPositiveInteger(rate.base_rate_per_minute)) {
+      return 'exponential_rate.base_rate_per_minute must be a positive integer';
+    }
+    if (typeof rate.increment_factor !== 'number' || rate.increment_factor <= 1) {
+      return 'exponential_rate.increment_factor must be a number greater than 1';
+    }
+
+    const criteria = rate.rate_increase_criteria || {};
+    const notified = criteria.number_of_notified_devices;
+    const succeeded = criteria.number_of_succeeded_devices;
+    if ((notified === undefined) === (succeeded === undefined)) {
+      return 'exponential_rate.rate_increase_criteria needs one of number_of_notified_devices, number_of_succeeded_devices';
+    }
+    if (!isPositiveInteger(notified ?? succeeded)) {
+      return 'exponential_rate.rate_increase_criteria value must be a positive integer';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate abort_config from POST /jobs/execute, returns an error message or null
+ */
+export function validateAbortConfig(config: any): string | null {
+  if (!config || !Array.isArray(config.criteria) || config.criteria.length === 0) {
+    return 'abort_config.criteria must be a non-empty array';
+  }
+
+  for (const criterion of config.criteria) {
+    if (!FAILURE_TYPES.includes(criterion?.failure_type)) {
+      return `abort_config failure_type must be one of: ${FAILURE_TYPES.join(', ')}`;
+    }
+    if (criterion.action !== undefined && criterion.action !== 'CANCEL') {
+      return 'abort_config action must be CANCEL';
+    }
+    if (typeof criterion.threshold_percentage !== 'number' ||
+        criterion.threshold_percentage <= 0 || criterion.threshold_percentage > 100) {
+      return 'abort_config threshold_percentage must be a percentage between 0 and 100';
+    }
+    if (criterion.min_executed_devices !== undefined && !isPositiveInteger(criterion.min_executed_devices)) {
+      return 'abort_config min_executed_devices must be a positive integer';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Current notification rate; exponential_rate multiplies the base rate by
+ * increment_factor every time another N devices were notified (or succeeded)
+ */
+export function currentRatePerMinute(config: JobRolloutConfig, counts: JobExecutionCounts): number {
+  let rate = Infinity;
+
+  if (config.exponential_rate) {
+    const { base_rate_per_minute, increment_factor, rate_increase_criteria } = config.exponential_rate;
+    const step = rate_increase_criteria.number_of_notified_devices ?? rate_increase_criteria.number_of_succeeded_devices!;
+    const progress = rate_increase_criteria.number_of_notified_devices !== undefined
+      ? counts.notified
+      : counts.succeeded;
+
+    rate = Math.floor(base_rate_per_minute * Math.pow(increment_factor, Math.floor(progress / step)));
+  }
+
+  if (config.maximum_per_minute) {
+    rate = Math.min(rate, config.maximum_per_minute);
+  }
+
+  return rate;
+}
+
+/**
+ * Number of pending device executions that may be notified now
+ */
+export function dispatchLimit(config: JobRolloutConfig | null | undefined, counts: JobExecutionCounts): number {
+  let limit = counts.pending;
+
+  if (!config) {
+    return limit;
+  }
+
+  if (config.max_concurrency) {
+    limit = Math.min(limit, config.max_concurrency - counts.in_flight);
+  }
+
+  const rate = currentRatePerMinute(config, counts);
+  if (Number.isFinite(rate)) {
+    limit = Math.min(limit, rate - counts.notified_last_minute);
+  }
+
+  return Math.max(0, limit);
+}
+
+/**
+ * First abort criterion matched by the executed devices, with a human readable reason
+ */
+export function evaluateAbortCriteria(
+  config: JobAbortConfig | null | undefined,
+  counts: JobExecutionCounts
+): { criterion: JobAbortCriteria; reason: string } | null {
+  const executed = counts.succeeded + counts.failed + counts.timed_out + counts.rejected;
+
+  for (const criterion of config?.criteria || []) {
+    if (executed === 0 || executed < (criterion.min_executed_devices || 1)) {
+      continue;
+    }
+
+    const failures = {
+      FAILED: counts.failed,
+      TIMED_OUT: counts.timed_out,
+      REJECTED: counts.rejected,
+      ALL: counts.failed + counts.timed_out + counts.rejected,
+    }[criterion.failure_type];
+
+    const percentage = (failures / executed) * 100;
+    if (percentage >= criterion.threshold_percentage) {
+      return {
+        criterion,
+        reason: `${failures} of ${executed} executed devices ${criterion.failure_type} ` +
+          `(${percentage.toFixed(1)}% >= ${criterion.threshold_percentage}%)`,
+      };
+    }
+  }
+
+  return null;
+}
+
+class JobRolloutController {
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private eventPublisher = new EventPublisher('job-rollout-controller');
+  private mqttNotifier = getMqttJobsNotifier();
+
+  /**
+   * Start periodic processing of active job executions
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.processJobs().catch(error => {
+        logger.error('[JobRolloutController] Processing failed', { error: error.message });
+      });
+    }, CHECK_INTERVAL_MS);
+
+    logger.info('[JobRolloutController] Started', { intervalMs: CHECK_INTERVAL_MS });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('[JobRolloutController] Stopped');
+    }
+  }
+
+  /**
+   * One controller tick over all active job executions
+   */
+  async processJobs(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const result = await query(
+        `SELECT * FROM job_executions WHERE status IN ('QUEUED', 'IN_PROGRESS') ORDER BY created_at`
+      );
+
+      for (const job of result.rows) {
+        try {
+          await this.processJob(job);
+        } catch (error: any) {
+          logger.error(`[JobRolloutController] Failed to process job ${job.job_id}`, { error: error.message });
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Per-device execution counts for a job
+   */
+  async getCounts(jobId: string): Promise<JobExecutionCounts> {
+    const result = await query(
+      `SELECT
+        COUNT(*) FILTER (WHERE status = 'QUEUED' AND notified_at IS NULL)::int AS pending,
+        COUNT(*) FILTER (WHERE notified_at IS NOT NULL)::int AS notified,
+        COUNT(*) FILTER (WHERE notified_at IS NOT NULL AND status IN ('QUEUED', 'IN_PROGRESS'))::int AS in_flight,
+        COUNT(*) FILTER (WHERE notified_at > CURRENT_TIMESTAMP - INTERVAL '1 minute')::int AS notified_last_minute,
+        COUNT(*) FILTER (WHERE status = 'QUEUED')::int AS queued,
+        COUNT(*) FILTER (WHERE status = 'IN_PROGRESS')::int AS in_progress,
+        COUNT(*) FILTER (WHERE status = 'SUCCEEDED')::int AS succeeded,
+        COUNT(*) FILTER (WHERE status = 'FAILED')::int AS failed,
+        COUNT(*) FILTER (WHERE status = 'TIMED_OUT')::int AS timed_out,
+        COUNT(*) FILTER (WHERE status = 'REJECTED')::int AS rejected,
+        COUNT(*) FILTER (WHERE status = 'CANCELED')::int AS canceled
+       FROM device_job_status
+       WHERE job_id = $1`,
+      [jobId]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Notify pending device executions allowed by the job's rollout_config
+   * Without rollout_config every pending device is notified at once
+   */
+  async dispatch(job: any): Promise<number> {
+    const counts = await this.getCounts(job.job_id);
+    const limit = dispatchLimit(job.rollout_config, counts);
+
+    if (limit === 0) {
+      return 0;
+    }
+
+    const result = await query(
+      `UPDATE device_job_status
+       SET notified_at = CURRENT_TIMESTAMP
+       WHERE id IN (
+         SELECT id FROM device_job_status
+         WHERE job_id = $1 AND status = 'QUEUED' AND notified_at IS NULL
+         ORDER BY id
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING device_uuid, queued_at`,
+      [job.job_id, limit]
+    );
+
+    if (this.mqttNotifier.connected) {
+      try {
+        for (const row of result.rows) {
+          await this.mqttNotifier.notifyNextJob(row.device_uuid, {
+            job_id: job.job_id,
+            job_name: job.job_name,
+            job_document: job.job_document,
+            queued_at: row.queued_at,
+            timeout_seconds: (job.timeout_minutes || 60) * 60,
+          });
+        }
+      } catch (mqttError) {
+        logger.error('[JobRolloutController] Failed to send MQTT notifications (HTTP fallback will work):', mqttError);
+      }
+    }
+
+    if (result.rows.length > 0) {
+      logger.info(`[JobRolloutController] Notified ${result.rows.length} device(s) for job ${job.job_id}`, {
+        pending: counts.pending - result.rows.length,
+      });
+    }
+
+    return result.rows.length;
+  }
+
+  /**
+   * Move device executions that exceeded the in-progress timeout to TIMED_OUT
+   */
+  async timeoutExecutions(job: any): Promise<number> {
+    const timeoutMinutes = job.timeout_minutes || 60;
+
+    const result = await query(
+      `UPDATE device_job_status
+       SET status = 'TIMED_OUT',
+           reason = $3,
+           last_updated_at = CURRENT_TIMESTAMP,
+           completed_at = CURRENT_TIMESTAMP
+       WHERE job_id = $1
+         AND status = 'IN_PROGRESS'
+         AND started_at < CURRENT_TIMESTAMP - make_interval(mins => $2)
+       RETURNING device_uuid, queued_at, started_at`,
+      [job.job_id, timeoutMinutes, `No completion reported within ${timeoutMinutes} minute(s)`]
+    );
+
+    for (const row of result.rows) {
+      await this.eventPublisher.publish(
+        'job.timeout',
+        'device',
+        row.device_uuid,
+        {
+          job_id: job.job_id,
+          status: 'TIMED_OUT',
+          previous_status: 'IN_PROGRESS',
+          timeout_minutes: timeoutMinutes,
+          queued_at: row.queued_at,
+          started_at: row.started_at,
+          completed_at: new Date().toISOString(),
+        },
+        { severity: 'warning', impact: 'medium' }
+      );
+    }
+
+    if (result.rows.length > 0) {
+      logger.warn(`[JobRolloutController] ${result.rows.length} device execution(s) of job ${job.job_id} timed out`);
+    }
+
+    return result.rows.length;
+  }
+
+  /**
+   * Cancel a job whose abort criteria matched
+   */
+  async abort(job: any, reason: string, criterion: JobAbortCriteria): Promise<void> {
+    const result = await query(
+      `UPDATE job_executions
+       SET status = 'CANCELED', status_reason = $2, completed_at = CURRENT_TIMESTAMP
+       WHERE job_id = $1 AND status IN ('QUEUED', 'IN_PROGRESS')
+       RETURNING job_id`,
+      [job.job_id, `Aborted: ${reason}`]
+    );
+
+    if (result.rows.length === 0) {
+      return;
+    }
+
+    await query(
+      `UPDATE device_job_status
+       SET status = 'CANCELED', reason = $2, completed_at = CURRENT_TIMESTAMP
+       WHERE job_id = $1 AND status IN ('QUEUED', 'IN_PROGRESS')`,
+      [job.job_id, 'Job aborted']
+    );
+
+    logger.warn(`[JobRolloutController] Job ${job.job_id} aborted: ${reason}`);
+
+    await this.eventPublisher.publish(
+      'job.aborted',
+      'job',
+      job.job_id,
+      { job_id: job.job_id, job_name: job.job_name, reason, criterion },
+      { severity: 'warning', impact: 'medium' }
+    );
+  }
+
+  /**
+   * Recompute job statistics from device executions
+   * The job stays open while any device is QUEUED or IN_PROGRESS
+   */
+  async updateStats(jobId: string): Promise<void> {
+    const counts = await this.getCounts(jobId);
+    const failures = counts.failed + counts.timed_out + counts.rejected;
+    const open = counts.queued + counts.in_progress;
+
+    let jobStatus = 'IN_PROGRESS';
+    if (open === 0) {
+      jobStatus = failures === 0 ? 'SUCCEEDED' : 'FAILED';
+    } else if (counts.in_progress + counts.succeeded + failures === 0) {
+      jobStatus = 'QUEUED';
+    }
+
+    await query(
+      `UPDATE job_executions
+       SET
+        succeeded_devices = $1,
+        failed_devices = $2,
+        timed_out_devices = $3,
+        in_progress_devices = $4,
+        status = CASE WHEN status IN ('QUEUED', 'IN_PROGRESS') THEN $5::VARCHAR ELSE status END,
+        completed_at = CASE WHEN status IN ('QUEUED', 'IN_PROGRESS') AND $5::VARCHAR IN ('SUCCEEDED', 'FAILED')
+                            THEN CURRENT_TIMESTAMP ELSE completed_at END
+       WHERE job_id = $6`,
+      [counts.succeeded, counts.failed + counts.rejected, counts.timed_out, counts.in_progress, jobStatus, jobId]
+    );
+  }
+
+  private async processJob(job: any): Promise<void> {
+    await this.timeoutExecutions(job);
+
+    const match = evaluateAbortCriteria(job.abort_config, await this.getCounts(job.job_id));
+    if (match) {
+      await this.abort(job, match.reason, match.criterion);
+    } else {
+      await this.dispatch(job);
+    }
+
+    await this.updateStats(job.job_id);
+  }
+}
+
+export const jobRolloutController = new JobRolloutController();
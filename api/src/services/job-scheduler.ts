@@ -8,6 +8,8 @@
 import * as cron from 'node-cron';
 import { randomUUID } from 'crypto';
 import poolWrapper from '../db/connection';
+import { TagSelector } from '../types/device-tags';
+import { findDeviceUuidsByTargetFilter } from './device-tag-query';
 import logger from '../utils/logger';
 const pool = poolWrapper.pool;
 
@@ -17,7 +19,7 @@ interface ScheduledJobConfig {
   job_document: any;
   target_type: 'device' | 'group' | 'all';
   target_devices?: string[];
-  target_filter?: any;
+  target_filter?: TagSelector;
   schedule_type: 'cron' | 'interval';
   cron_expression?: string;
   interval_minutes?: number;
@@ -189,9 +191,10 @@ class JobSchedulerService {
       );
 
       // Create device job status entries
-      const deviceStatusValues = deviceUuids.map((uuid) => `('${jobId}', '${uuid}')`).join(', ');
       await pool.query(
-        `INSERT INTO device_job_status (job_id, device_uuid) VALUES ${deviceStatusValues}`
+        `INSERT INTO device_job_status (job_id, device_uuid)
+         SELECT $1, unnest($2::uuid[])`,
+        [jobId, deviceUuids]
       );
 
       // Update execution count
@@ -228,16 +231,9 @@ class JobSchedulerService {
     }
 
     if (target_type === 'group' && target_filter) {
-      // Apply filter (e.g., { "device_type": "raspberry-pi" })
-      const filterKeys = Object.keys(target_filter);
-      const filterQuery = filterKeys.map((key, idx) => `${key} = $${idx + 1}`).join(' AND ');
-      const filterValues = filterKeys.map(key => target_filter[key]);
-
-      const result = await pool.query(
-        `SELECT uuid FROM devices WHERE is_active = true AND ${filterQuery}`,
-        filterValues
-      );
-      return result.rows.map((row: any) => row.uuid);
+      // Tag selectors (e.g., { "environment": "production" }); device column
+      // keys of older schedules (e.g., { "device_type": "pi4" }) still match the column
+      return findDeviceUuidsByTargetFilter(target_filter);
     }
 
     return [];
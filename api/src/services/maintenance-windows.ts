@@ -0,0 +1,226 @@
+/**
+ * Maintenance Windows
+ * Cron-style windows during which devices may apply disruptive app updates.
+ * Windows target a single device or all devices matching a tag selector, and
+ * are delivered to devices in their target state (config.maintenanceWindows).
+ */
+
+import * as cron from 'node-cron';
+import { query } from '../db/connection';
+import { TagSelector } from '../types/device-tags';
+
+export interface MaintenanceWindowRecord {
+  id: number;
+  name: string;
+  device_uuid: string | null;
+  tag_selector: TagSelector | null;
+  schedule: string;
+  duration_minutes: number;
+  timezone: string;
+  enabled: boolean;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface MaintenanceWindowInput {
+  name?: string;
+  device_uuid?: string | null;
+  tag_selector?: TagSelector | null;
+  schedule?: string;
+  duration_minutes?: number;
+  timezone?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Window as delivered to devices in config.maintenanceWindows
+ */
+export interface DeviceMaintenanceWindow {
+  schedule: string;
+  durationMinutes: number;
+  timezone: string;
+}
+
+// One week, matches the maintenance_windows_duration constraint
+const MAX_DURATION_MINUTES = 10080;
+
+const COLUMNS = `id, name, device_uuid, tag_selector, schedule, duration_minutes, timezone,
+  enabled, created_by, created_at, updated_at`;
+
+/**
+ * Validate a create (or, with partial = true, update) request
+ * @returns error message, or null when valid
+ */
+export function validateMaintenanceWindowInput(input: MaintenanceWindowInput, partial = false): string | null {
+  if (!partial || input.name !== undefined) {
+    if (!input.name || typeof input.name !== 'string') {
+      return 'name is required';
+    }
+  }
+
+  if (!partial || input.schedule !== undefined) {
+    // Agents evaluate 5-field cron (no seconds field)
+    if (typeof input.schedule !== 'string' || input.schedule.trim().split(/\s+/).length !== 5 || !cron.validate(input.schedule)) {
+      return 'schedule must be a 5-field cron expression (minute hour day-of-month month day-of-week)';
+    }
+  }
+
+  if (!partial || input.duration_minutes !== undefined) {
+    const duration = input.duration_minutes;
+    if (!Number.isInteger(duration) || duration! <= 0 || duration! > MAX_DURATION_MINUTES) {
+      return `duration_minutes must be an integer between 1 and ${MAX_DURATION_MINUTES}`;
+    }
+  }
+
+  if (input.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: input.timezone });
+    } catch {
+      return `Unknown timezone: ${input.timezone}`;
+    }
+  }
+
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  if (!partial || input.device_uuid !== undefined || input.tag_selector !== undefined) {
+    const hasDevice = !!input.device_uuid;
+    const hasSelector = !!input.tag_selector;
+    if (hasDevice === hasSelector) {
+      return 'Exactly one of device_uuid or tag_selector is required';
+    }
+    if (hasSelector) {
+      const selector = input.tag_selector!;
+      if (typeof selector !== 'object' || Array.isArray(selector) || Object.keys(selector).length === 0
+        || !Object.values(selector).every((value) => typeof value === 'string')) {
+        return 'tag_selector must be a non-empty object of tag key/value strings';
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * List windows, optionally only those targeting a device directly
+ */
+export async function listMaintenanceWindows(deviceUuid?: string): Promise<MaintenanceWindowRecord[]> {
+  const result = deviceUuid
+    ? await query<MaintenanceWindowRecord>(
+      `SELECT ${COLUMNS} FROM maintenance_windows WHERE device_uuid = $1 ORDER BY id`,
+      [deviceUuid]
+    )
+    : await query<MaintenanceWindowRecord>(`SELECT ${COLUMNS} FROM maintenance_windows ORDER BY id`);
+  return result.rows;
+}
+
+export async function getMaintenanceWindow(id: number): Promise<MaintenanceWindowRecord | null> {
+  const result = await query<MaintenanceWindowRecord>(
+    `SELECT ${COLUMNS} FROM maintenance_windows WHERE id = $1`,
+    [id]
+  );
+  return result.rows[0] || null;
+}
+
+export async function createMaintenanceWindow(
+  input: MaintenanceWindowInput,
+  createdBy: string | null
+): Promise<MaintenanceWindowRecord> {
+  const result = await query<MaintenanceWindowRecord>(
+    `INSERT INTO maintenance_windows
+       (name, device_uuid, tag_selector, schedule, duration_minutes, timezone, enabled, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING ${COLUMNS}`,
+    [
+      input.name,
+      input.device_uuid || null,
+      input.tag_selector ? JSON.stringify(input.tag_selector) : null,
+      input.schedule!.trim(),
+      input.duration_minutes,
+      input.timezone || 'UTC',
+      input.enabled ?? true,
+      createdBy,
+    ]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Update the given fields of a window
+ * @returns the updated window, or null if it does not exist
+ */
+export async function updateMaintenanceWindow(
+  id: number,
+  input: MaintenanceWindowInput
+): Promise<MaintenanceWindowRecord | null> {
+  const existing = await getMaintenanceWindow(id);
+  if (!existing) {
+    return null;
+  }
+
+  // Switching between device and tag targeting replaces the other one
+  const targetChanged = input.device_uuid !== undefined || input.tag_selector !== undefined;
+  const result = await query<MaintenanceWindowRecord>(
+    `UPDATE maintenance_windows SET
+       name = $2, device_uuid = $3, tag_selector = $4, schedule = $5,
+       duration_minutes = $6, timezone = $7, enabled = $8, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1
+     RETURNING ${COLUMNS}`,
+    [
+      id,
+      input.name ?? existing.name,
+      targetChanged ? input.device_uuid || null : existing.device_uuid,
+      targetChanged
+        ? (input.tag_selector ? JSON.stringify(input.tag_selector) : null)
+        : (existing.tag_selector ? JSON.stringify(existing.tag_selector) : null),
+      input.schedule?.trim() ?? existing.schedule,
+      input.duration_minutes ?? existing.duration_minutes,
+      input.timezone ?? existing.timezone,
+      input.enabled ?? existing.enabled,
+    ]
+  );
+  return result.rows[0];
+}
+
+export async function deleteMaintenanceWindow(id: number): Promise<boolean> {
+  const result = await query('DELETE FROM maintenance_windows WHERE id = $1', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Enabled windows that apply to a device: its own, plus tag-targeted windows
+ * whose selector tags all match the device's tags
+ */
+export async function getDeviceMaintenanceWindows(deviceUuid: string): Promise<MaintenanceWindowRecord[]> {
+  const result = await query<MaintenanceWindowRecord>(
+    `SELECT ${COLUMNS} FROM maintenance_windows w
+     WHERE w.enabled
+       AND (
+         w.device_uuid = $1
+         OR (w.tag_selector IS NOT NULL AND NOT EXISTS (
+           SELECT 1 FROM jsonb_each_text(w.tag_selector) s
+           WHERE NOT EXISTS (
+             SELECT 1 FROM device_tags t
+             WHERE t.device_uuid = $1 AND t.key = s.key AND t.value = s.value
+           )
+         ))
+       )
+     ORDER BY w.id`,
+    [deviceUuid]
+  );
+  return result.rows;
+}
+
+/**
+ * Windows in the form delivered to a device
+ */
+export async function buildDeviceMaintenanceWindows(deviceUuid: string): Promise<DeviceMaintenanceWindow[]> {
+  const windows = await getDeviceMaintenanceWindows(deviceUuid);
+  return windows.map((window) => ({
+    schedule: window.schedule,
+    durationMinutes: window.duration_minutes,
+    timezone: window.timezone,
+  }));
+}
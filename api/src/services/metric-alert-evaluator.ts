@@ -0,0 +1,57 @@
+/**
+ * Metric Alert Evaluator
+ *
+ * Periodically evaluates metric-threshold alert rules (device metrics, sensor
+ * readings, heartbeat status). Log-pattern rules are still processed on demand
+ * by processLogAlerts().
+ */
+
+import { processMetricAlerts } from './alerts.service';
+import logger from '../utils/logger';
+
+const EVALUATION_INTERVAL_MS = parseInt(process.env.METRIC_ALERT_INTERVAL_MS || '60000', 10);
+
+class MetricAlertEvaluator {
+  private timer: NodeJS.Timeout | null = null;
+  private isEvaluating = false;
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.evaluate().catch(error => {
+        logger.error('[MetricAlertEvaluator] Evaluation failed', { error: error.message });
+      });
+    }, EVALUATION_INTERVAL_MS);
+
+    logger.info('[MetricAlertEvaluator] Started', { intervalMs: EVALUATION_INTERVAL_MS });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('[MetricAlertEvaluator] Stopped');
+    }
+  }
+
+  /**
+   * Evaluate all enabled metric rules (skipped if the previous run is still going)
+   */
+  async evaluate(): Promise<void> {
+    if (this.isEvaluating) {
+      return;
+    }
+
+    this.isEvaluating = true;
+    try {
+      await processMetricAlerts();
+    } finally {
+      this.isEvaluating = false;
+    }
+  }
+}
+
+export const metricAlertEvaluator = new MetricAlertEvaluator();
@@ -0,0 +1,237 @@
+/**
+ * MFA Service
+ * TOTP multi-factor authentication for dashboard users: enrollment with a QR
+ * code, one-time recovery codes, and the roles that must use MFA.
+ *
+ * A secret is first stored as pending and only becomes active once the user
+ * confirms it with a code, so a half-finished enrollment never locks anyone out.
+ */
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { query } from '../db/connection';
+import { SystemConfig } from '../config/system-config';
+import { Role, ROLES } from '../types/permissions';
+import { decryptSecret, encryptSecret } from '../utils/secret-encryption';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+const POLICY_KEY = 'auth.mfa.requiredRoles';
+const ISSUER = process.env.MFA_ISSUER || 'Iotistic';
+const RECOVERY_CODE_COUNT = 10;
+
+export interface MfaPolicy {
+  requiredRoles: Role[];
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+function generateRecoveryCode(): string {
+  const hex = crypto.randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+}
+
+/**
+ * Roles that must use MFA. Stored in system_config, MFA_REQUIRED_ROLES
+ * (comma separated) is the default until the policy is saved.
+ */
+export async function getMfaPolicy(): Promise<MfaPolicy> {
+  const defaultRoles = (process.env.MFA_REQUIRED_ROLES || '')
+    .split(',')
+    .map((role) => role.trim())
+    .filter((role) => role.length > 0);
+
+  const requiredRoles = await SystemConfig.get<string[]>(POLICY_KEY, defaultRoles);
+  return { requiredRoles: (requiredRoles || []) as Role[] };
+}
+
+/**
+ * Validate a policy update
+ * @returns error message, or null when valid
+ */
+export function validateMfaPolicyInput(input: { requiredRoles?: unknown }): string | null {
+  const roles = Object.values(ROLES) as string[];
+  if (!Array.isArray(input.requiredRoles)
+    || !input.requiredRoles.every((role) => typeof role === 'string' && roles.includes(role))) {
+    return `requiredRoles must be an array of: ${roles.join(', ')}`;
+  }
+  return null;
+}
+
+export async function setMfaPolicy(requiredRoles: Role[]): Promise<MfaPolicy> {
+  const unique = Array.from(new Set(requiredRoles));
+  await SystemConfig.set(POLICY_KEY, unique);
+  return { requiredRoles: unique };
+}
+
+export async function isMfaRequiredForRole(role: string): Promise<boolean> {
+  const policy = await getMfaPolicy();
+  return policy.requiredRoles.includes(role as Role);
+}
+
+export async function getMfaStatus(userId: number): Promise<MfaStatus> {
+  const result = await query(
+    `SELECT u.role, u.mfa_enabled, u.mfa_enabled_at,
+       (SELECT COUNT(*) FROM user_mfa_recovery_codes c WHERE c.user_id = u.id AND c.used_at IS NULL) AS remaining
+     FROM users u WHERE u.id = $1`,
+    [userId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('User not found');
+  }
+
+  const row = result.rows[0];
+  return {
+    enabled: row.mfa_enabled,
+    enabledAt: row.mfa_enabled_at,
+    required: await isMfaRequiredForRole(row.role),
+    recoveryCodesRemaining: parseInt(row.remaining),
+  };
+}
+
+/**
+ * Generate a pending secret and the QR code to scan it
+ */
+export async function startEnrollment(user: { id: number; username: string }): Promise<MfaEnrollment> {
+  const existing = await query('SELECT mfa_enabled FROM users WHERE id = $1', [user.id]);
+  if (existing.rows.length === 0) {
+    throw new Error('User not found');
+  }
+  if (existing.rows[0].mfa_enabled) {
+    throw new Error('MFA is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+  await query(
+    'UPDATE users SET mfa_pending_secret = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+    [user.id, encryptSecret(secret)]
+  );
+
+  const otpauthUrl = buildOtpauthUrl(secret, user.username, ISSUER);
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+  return { secret, otpauthUrl, qrCode };
+}
+
+/**
+ * Confirm the pending secret with a code and enable MFA
+ * @returns recovery codes (only ever shown here)
+ */
+export async function activateMfa(userId: number, code: string): Promise<string[]> {
+  const result = await query(
+    'SELECT mfa_enabled, mfa_pending_secret FROM users WHERE id = $1',
+    [userId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error('User not found');
+  }
+
+  const user = result.rows[0];
+  if (user.mfa_enabled) {
+    throw new Error('MFA is already enabled');
+  }
+  if (!user.mfa_pending_secret) {
+    throw new Error('MFA enrollment has not been started');
+  }
+
+  const step = verifyTotp(decryptSecret(user.mfa_pending_secret), code);
+  if (step === null) {
+    throw new Error('Invalid verification code');
+  }
+
+  await query(
+    `UPDATE users
+     SET mfa_enabled = true, mfa_secret = mfa_pending_secret, mfa_pending_secret = NULL,
+         mfa_enabled_at = CURRENT_TIMESTAMP, mfa_last_used_step = $2, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [userId, step]
+  );
+
+  return regenerateRecoveryCodes(userId);
+}
+
+/**
+ * Check a TOTP code for a user with MFA enabled. A code is accepted only once.
+ */
+export async function verifyMfaCode(userId: number, code: string): Promise<boolean> {
+  const result = await query(
+    'SELECT mfa_secret FROM users WHERE id = $1 AND mfa_enabled = true',
+    [userId]
+  );
+
+  if (result.rows.length === 0 || !result.rows[0].mfa_secret) {
+    return false;
+  }
+
+  const step = verifyTotp(decryptSecret(result.rows[0].mfa_secret), code);
+  if (step === null) {
+    return false;
+  }
+
+  const updated = await query(
+    `UPDATE users SET mfa_last_used_step = $2
+     WHERE id = $1 AND (mfa_last_used_step IS NULL OR mfa_last_used_step < $2)`,
+    [userId, step]
+  );
+  return (updated.rowCount ?? 0) > 0;
+}
+
+/**
+ * Consume a recovery code
+ */
+export async function useRecoveryCode(userId: number, code: string): Promise<boolean> {
+  const result = await query(
+    `UPDATE user_mfa_recovery_codes SET used_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+    [userId, hashRecoveryCode(code)]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Replace all recovery codes of a user
+ * @returns the new codes in plain text
+ */
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await query('DELETE FROM user_mfa_recovery_codes WHERE user_id = $1', [userId]);
+  await query(
+    `INSERT INTO user_mfa_recovery_codes (user_id, code_hash)
+     SELECT $1, unnest($2::text[])`,
+    [userId, codes.map(hashRecoveryCode)]
+  );
+
+  return codes;
+}
+
+/**
+ * Turn MFA off and drop the secret and recovery codes
+ */
+export async function disableMfa(userId: number): Promise<void> {
+  await query(
+    `UPDATE users
+     SET mfa_enabled = false, mfa_secret = NULL, mfa_pending_secret = NULL,
+         mfa_enabled_at = NULL, mfa_last_used_step = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [userId]
+  );
+  await query('DELETE FROM user_mfa_recovery_codes WHERE user_id = $1', [userId]);
+}
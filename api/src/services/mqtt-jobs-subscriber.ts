@@ -8,6 +8,7 @@
 import { getMqttJobsNotifier } from './mqtt-jobs-notifier';
 import { pool } from '../db/connection';
 import { EventPublisher } from './event-sourcing';
+import { jobRolloutController } from './job-rollout-controller';
 import logger from '../utils/logger';
 
 export class MqttJobsSubscriber {
@@ -125,6 +126,9 @@ export class MqttJobsSubscriber {
 
         // Publish job lifecycle events
         await this.publishJobEvent(deviceUuid, jobId, status, existing.rows[0], statusDetails);
+
+        // Keep job statistics (and rollout concurrency) in sync
+        await jobRolloutController.updateStats(jobId);
       } else {
         // Insert new record (should already exist from job creation, but handle just in case)
         logger.warn(`[MqttJobsSubscriber] Job status record not found, creating new one for ${jobId}`);
@@ -0,0 +1,448 @@
+/**
+ * OIDC Service
+ * Single sign-on through an OpenID Connect provider, authorization code flow
+ * with PKCE (S256). The provider is configured with OIDC_ISSUER_URL,
+ * OIDC_CLIENT_ID and OIDC_REDIRECT_URI (the API callback); OIDC_CLIENT_SECRET
+ * is only needed for confidential clients.
+ *
+ * Users are created on their first login and identified by issuer + subject.
+ * Their role is set from the groups claim on every login, using the group to
+ * role mapping (system_config auth.oidc.roleMapping, OIDC_ROLE_MAPPING until
+ * saved). After the callback the dashboard gets a one-time code that it
+ * exchanges for the usual access/refresh token pair.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { query } from '../db/connection';
+import { SystemConfig } from '../config/system-config';
+import { Role, ROLES, roleOutranks } from '../types/permissions';
+import logger from '../utils/logger';
+import type { AuthUser } from './auth.service';
+
+const moduleLogger = logger.child({ module: 'oidc' });
+
+const ISSUER_URL = (process.env.OIDC_ISSUER_URL || '').replace(/\/+$/, '');
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || '';
+const CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET || '';
+const REDIRECT_URI = process.env.OIDC_REDIRECT_URI || '';
+const SCOPES = process.env.OIDC_SCOPES || 'openid profile email';
+const GROUPS_CLAIM = process.env.OIDC_GROUPS_CLAIM || 'groups';
+const DEFAULT_ROLE = process.env.OIDC_DEFAULT_ROLE || '';
+const DISPLAY_NAME = process.env.OIDC_DISPLAY_NAME || 'SSO';
+
+const ROLE_MAPPING_KEY = 'auth.oidc.roleMapping';
+const REQUEST_TTL_MINUTES = 10;
+const EXCHANGE_TTL_MINUTES = 2;
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+// Highest privilege first: a user in several mapped groups gets the highest role
+const ROLE_PRIORITY: Role[] = [ROLES.OWNER, ROLES.ADMIN, ROLES.MANAGER, ROLES.OPERATOR, ROLES.VIEWER];
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+}
+
+export type RoleMapping = Record<string, Role>;
+
+export interface OidcCallbackResult {
+  exchangeCode: string;
+  redirectPath: string;
+}
+
+/**
+ * Login failures shown to the user (unmapped groups, inactive account,
+ * rejected ID token, ...)
+ */
+export class OidcLoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcLoginError';
+  }
+}
+
+let metadataCache: { metadata: ProviderMetadata; fetchedAt: number } | null = null;
+let jwksCache: Jwk[] = [];
+
+export function isOidcConfigured(): boolean {
+  return !!(ISSUER_URL && CLIENT_ID && REDIRECT_URI);
+}
+
+export function getOidcDisplayName(): string {
+  return DISPLAY_NAME;
+}
+
+function base64Url(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+function sha256(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`${url} returned ${response.status}: ${body.slice(0, 200)}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+async function getProviderMetadata(): Promise<ProviderMetadata> {
+  if (metadataCache && Date.now() - metadataCache.fetchedAt < METADATA_TTL_MS) {
+    return metadataCache.metadata;
+  }
+
+  const metadata = await fetchJson<ProviderMetadata>(`${ISSUER_URL}/.well-known/openid-configuration`);
+  if (metadata.issuer.replace(/\/+$/, '') !== ISSUER_URL) {
+    throw new Error(`Discovery issuer ${metadata.issuer} does not match OIDC_ISSUER_URL`);
+  }
+
+  metadataCache = { metadata, fetchedAt: Date.now() };
+  jwksCache = [];
+  return metadata;
+}
+
+/**
+ * Signing key for a kid. The key set is fetched again once when the kid is
+ * unknown (key rotation at the provider).
+ */
+async function getSigningKey(metadata: ProviderMetadata, kid?: string): Promise<crypto.KeyObject> {
+  const find = () => jwksCache.find((key) => (kid ? key.kid === kid : true) && key.kty !== 'oct');
+
+  let jwk = find();
+  if (!jwk) {
+    const jwks = await fetchJson<{ keys: Jwk[] }>(metadata.jwks_uri);
+    jwksCache = jwks.keys || [];
+    jwk = find();
+  }
+  if (!jwk) {
+    throw new OidcLoginError('ID token signing key not found');
+  }
+
+  return crypto.createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+// =============================================================================
+// Role mapping
+// =============================================================================
+
+function parseRoleMappingEnv(): RoleMapping {
+  const mapping: RoleMapping = {};
+  for (const entry of (process.env.OIDC_ROLE_MAPPING || '').split(',')) {
+    const [group, role] = entry.split('=').map((part) => part?.trim());
+    if (group && role) {
+      mapping[group] = role as Role;
+    }
+  }
+  return mapping;
+}
+
+export async function getRoleMapping(): Promise<RoleMapping> {
+  const mapping = await SystemConfig.get<RoleMapping>(ROLE_MAPPING_KEY, parseRoleMappingEnv());
+  return mapping || {};
+}
+
+/**
+ * Validate a mapping update ({ "group": "role" })
+ * @returns error message, or null when valid
+ */
+export function validateRoleMappingInput(input: unknown): string | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return 'mapping must be an object of group names to roles';
+  }
+  const invalid = Object.entries(input).find(([, role]) => !ROLE_PRIORITY.includes(role as Role));
+  if (invalid) {
+    return `Invalid role for group ${invalid[0]}: must be one of ${ROLE_PRIORITY.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Check that a caller may make a mapping change: groups mapped to a role
+ * above the caller's (e.g. owner for an admin) can only be changed by a
+ * caller with that role, so SSO cannot be used to grant a higher role
+ * @param mapping validated new mapping
+ * @param current mapping in effect
+ * @returns error message, or null when allowed
+ */
+export function checkRoleMappingChange(mapping: RoleMapping, current: RoleMapping, callerRole: string): string | null {
+  const groups = new Set([...Object.keys(mapping), ...Object.keys(current)]);
+  for (const group of groups) {
+    if (mapping[group] === current[group]) {
+      continue;
+    }
+    const outranking = [mapping[group], current[group]].find((role) => role && roleOutranks(role, callerRole));
+    if (outranking) {
+      return `Only a user with the ${outranking} role can change the mapping of group ${group}`;
+    }
+  }
+  return null;
+}
+
+export async function setRoleMapping(mapping: RoleMapping): Promise<RoleMapping> {
+  await SystemConfig.set(ROLE_MAPPING_KEY, mapping);
+  return mapping;
+}
+
+/**
+ * Role for a set of groups: the highest mapped role, OIDC_DEFAULT_ROLE when
+ * no group is mapped, or null (login denied)
+ */
+export function resolveRole(groups: string[], mapping: RoleMapping): Role | null {
+  const roles = groups.map((group) => mapping[group]).filter((role) => !!role);
+  const role = ROLE_PRIORITY.find((candidate) => roles.includes(candidate));
+  if (role) {
+    return role;
+  }
+  return ROLE_PRIORITY.includes(DEFAULT_ROLE as Role) ? DEFAULT_ROLE as Role : null;
+}
+
+function claimGroups(claims: Record<string, any>): string[] {
+  const value = claims[GROUPS_CLAIM];
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  return typeof value === 'string' ? [value] : [];
+}
+
+// =============================================================================
+// Login flow
+// =============================================================================
+
+/**
+ * Start a login: store the PKCE verifier and nonce, return the provider URL
+ * @param redirectPath dashboard path to return to after login
+ */
+export async function createAuthorizationUrl(redirectPath?: string): Promise<string> {
+  const metadata = await getProviderMetadata();
+
+  const state = base64Url(crypto.randomBytes(24));
+  const nonce = base64Url(crypto.randomBytes(24));
+  const codeVerifier = base64Url(crypto.randomBytes(48));
+
+  // Only same-site paths, never an absolute URL (open redirect)
+  const safePath = redirectPath && /^\/(?![/\\])/.test(redirectPath) ? redirectPath : '/';
+
+  await query('DELETE FROM oidc_auth_requests WHERE expires_at < CURRENT_TIMESTAMP');
+  await query(
+    `INSERT INTO oidc_auth_requests (state, code_verifier, nonce, redirect_path, expires_at)
+     VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + make_interval(mins => $5))`,
+    [state, codeVerifier, nonce, safePath, REQUEST_TTL_MINUTES]
+  );
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: CLIENT_ID,
+    redirect_uri: REDIRECT_URI,
+    scope: SCOPES,
+    state,
+    nonce,
+    code_challenge: base64Url(sha256(codeVerifier)),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return url.toString();
+}
+
+async function exchangeAuthorizationCode(
+  metadata: ProviderMetadata,
+  code: string,
+  codeVerifier: string
+): Promise<{ id_token?: string; access_token?: string }> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (CLIENT_SECRET) {
+    const credentials = `${encodeURIComponent(CLIENT_ID)}:${encodeURIComponent(CLIENT_SECRET)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  return fetchJson(metadata.token_endpoint, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: REDIRECT_URI,
+      client_id: CLIENT_ID,
+      code_verifier: codeVerifier,
+    }).toString(),
+  });
+}
+
+async function verifyIdToken(metadata: ProviderMetadata, idToken: string, nonce: string): Promise<jwt.JwtPayload> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcLoginError('Malformed ID token');
+  }
+
+  const key = await getSigningKey(metadata, decoded.header.kid);
+
+  let claims: jwt.JwtPayload;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: metadata.issuer,
+      audience: CLIENT_ID,
+    }) as jwt.JwtPayload;
+  } catch (error: any) {
+    throw new OidcLoginError(`ID token rejected: ${error.message}`);
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new OidcLoginError('ID token nonce mismatch');
+  }
+  if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== CLIENT_ID) {
+    throw new OidcLoginError('ID token authorized party mismatch');
+  }
+  if (!claims.sub) {
+    throw new OidcLoginError('ID token has no subject');
+  }
+
+  return claims;
+}
+
+async function fetchUserInfo(metadata: ProviderMetadata, accessToken?: string): Promise<Record<string, any>> {
+  if (!metadata.userinfo_endpoint || !accessToken) {
+    return {};
+  }
+  try {
+    return await fetchJson(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+  } catch (error: any) {
+    moduleLogger.warn('OIDC userinfo request failed', { error: error.message });
+    return {};
+  }
+}
+
+async function uniqueUsername(preferred: string, subject: string): Promise<string> {
+  const base = preferred.replace(/[^a-zA-Z0-9._@-]/g, '').slice(0, 200) || 'user';
+  const taken = await query('SELECT 1 FROM users WHERE username = $1', [base]);
+  if (taken.rows.length === 0) {
+    return base;
+  }
+  return `${base}-${sha256(subject).toString('hex').slice(0, 8)}`;
+}
+
+/**
+ * Create or update the user for a verified identity
+ */
+async function provisionUser(issuer: string, claims: Record<string, any>, role: Role): Promise<AuthUser> {
+  const email: string | undefined = claims.email;
+  const fullName: string | null = claims.name || null;
+
+  const existing = await query(
+    'SELECT id, is_active FROM users WHERE oidc_issuer = $1 AND oidc_subject = $2',
+    [issuer, claims.sub]
+  );
+
+  if (existing.rows.length > 0) {
+    if (!existing.rows[0].is_active) {
+      throw new OidcLoginError('Account is inactive. Contact administrator.');
+    }
+    const updated = await query(
+      `UPDATE users
+       SET role = $2, full_name = COALESCE($3, full_name), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING id, username, email, role, full_name`,
+      [existing.rows[0].id, role, fullName]
+    );
+    return updated.rows[0];
+  }
+
+  if (!email) {
+    throw new OidcLoginError('The identity provider did not return an email address');
+  }
+
+  // A local account with the same email is not taken over: it would let the
+  // provider sign in as any local user
+  const emailTaken = await query('SELECT 1 FROM users WHERE email = $1', [email]);
+  if (emailTaken.rows.length > 0) {
+    throw new OidcLoginError('A local account with this email already exists. Contact administrator.');
+  }
+
+  const username = await uniqueUsername(claims.preferred_username || email.split('@')[0], claims.sub);
+  const created = await query(
+    `INSERT INTO users (username, email, password_hash, full_name, role, is_active, email_verified,
+                        auth_provider, oidc_issuer, oidc_subject)
+     VALUES ($1, $2, NULL, $3, $4, true, $5, 'oidc', $6, $7)
+     RETURNING id, username, email, role, full_name`,
+    [username, email, fullName, role, claims.email_verified === true, issuer, claims.sub]
+  );
+
+  moduleLogger.info('Provisioned OIDC user', { username, role });
+  return created.rows[0];
+}
+
+/**
+ * Handle the provider callback: check state, redeem the code, verify the ID
+ * token, provision the user and create the one-time exchange code
+ */
+export async function handleCallback(code: string, state: string): Promise<OidcCallbackResult> {
+  const pending = await query(
+    `DELETE FROM oidc_auth_requests
+     WHERE state = $1 AND user_id IS NULL AND expires_at > CURRENT_TIMESTAMP
+     RETURNING code_verifier, nonce, redirect_path`,
+    [state]
+  );
+  if (pending.rows.length === 0) {
+    throw new OidcLoginError('Login request expired or unknown. Please try again.');
+  }
+
+  const { code_verifier: codeVerifier, nonce, redirect_path: redirectPath } = pending.rows[0];
+  const metadata = await getProviderMetadata();
+
+  const tokens = await exchangeAuthorizationCode(metadata, code, codeVerifier);
+  if (!tokens.id_token) {
+    throw new OidcLoginError('The identity provider did not return an ID token');
+  }
+
+  const idClaims = await verifyIdToken(metadata, tokens.id_token, nonce);
+  const userInfo = await fetchUserInfo(metadata, tokens.access_token);
+  // userinfo must describe the same subject, ID token claims take precedence
+  const claims = userInfo.sub === idClaims.sub ? { ...userInfo, ...idClaims } : idClaims;
+
+  const groups = claimGroups(claims);
+  const role = resolveRole(groups, await getRoleMapping());
+  if (!role) {
+    throw new OidcLoginError('None of your groups is allowed to sign in. Contact administrator.');
+  }
+
+  const user = await provisionUser(metadata.issuer, claims, role);
+
+  const exchangeCode = base64Url(crypto.randomBytes(32));
+  await query(
+    `INSERT INTO oidc_auth_requests (state, code_verifier, nonce, redirect_path, user_id, exchange_code_hash, expires_at)
+     VALUES ($1, '', '', $2, $3, $4, CURRENT_TIMESTAMP + make_interval(mins => $5))`,
+    [state, redirectPath, user.id, sha256(exchangeCode).toString('hex'), EXCHANGE_TTL_MINUTES]
+  );
+
+  return { exchangeCode, redirectPath: redirectPath || '/' };
+}
+
+/**
+ * Redeem a one-time exchange code
+ * @returns the signed-in user, or null when the code is unknown or expired
+ */
+export async function redeemExchangeCode(exchangeCode: string): Promise<AuthUser | null> {
+  const result = await query(
+    `DELETE FROM oidc_auth_requests r
+     USING users u
+     WHERE r.exchange_code_hash = $1 AND r.expires_at > CURRENT_TIMESTAMP
+       AND u.id = r.user_id AND u.is_active = true
+     RETURNING u.id, u.username, u.email, u.role, u.full_name, u.mfa_enabled`,
+    [sha256(exchangeCode).toString('hex')]
+  );
+  return result.rows[0] || null;
+}
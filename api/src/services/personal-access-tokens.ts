@@ -0,0 +1,272 @@
+/**
+ * Personal Access Tokens
+ * User-owned tokens for scripts and CI pipelines. A token authenticates as its
+ * user through jwtAuth, but only with the permissions chosen at creation. It
+ * has a mandatory expiry and an optional IP allowlist. Only a hash is stored,
+ * the token itself is returned once.
+ */
+
+import crypto from 'crypto';
+import net from 'net';
+import { query } from '../db/connection';
+import { EffectiveAccess, Permission, PERMISSIONS } from '../types/permissions';
+import { bindingPermissions } from './access-scope';
+import logger from '../utils/logger';
+
+export const TOKEN_PREFIX = 'iot_pat_';
+const MAX_EXPIRY_DAYS = 365;
+export const MAX_TOKENS_PER_USER = 50;
+const MAX_ALLOWLIST_ENTRIES = 20;
+
+export interface PersonalAccessToken {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  permissions: Permission[];
+  ipAllowlist: string[] | null;
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface PersonalAccessTokenInput {
+  name?: unknown;
+  permissions?: unknown;
+  expires_in_days?: unknown;
+  ip_allowlist?: unknown;
+}
+
+export interface PersonalAccessTokenAuth {
+  tokenId: number;
+  permissions: Permission[];
+  user: {
+    id: number;
+    username: string;
+    email: string;
+    role: string;
+    isActive: boolean;
+  };
+}
+
+/** Why a token was refused; the message is safe to return to the client */
+export class PersonalAccessTokenError extends Error {
+  constructor(message: string, public readonly status: 401 | 403 = 401) {
+    super(message);
+    this.name = 'PersonalAccessTokenError';
+  }
+}
+
+const COLUMNS = `id, name, token_prefix AS "tokenPrefix", permissions,
+  ip_allowlist::text[] AS "ipAllowlist", expires_at AS "expiresAt",
+  last_used_at AS "lastUsedAt", host(last_used_ip) AS "lastUsedIp",
+  revoked_at AS "revokedAt", created_at AS "createdAt"`;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// IPv4 clients on a dual-stack socket show up as ::ffff:a.b.c.d
+function normalizeIp(ip: string | undefined): string | null {
+  if (!ip) return null;
+  const address = ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+  return net.isIP(address) ? address : null;
+}
+
+function isValidCidr(value: string): boolean {
+  const [address, prefix, ...rest] = value.split('/');
+  const family = net.isIP(address);
+  if (!family || rest.length > 0) return false;
+  if (prefix === undefined) return true;
+  if (!/^\d{1,3}$/.test(prefix)) return false;
+  return Number(prefix) <= (family === 4 ? 32 : 128);
+}
+
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(TOKEN_PREFIX);
+}
+
+/**
+ * Permissions the user holds in any scope; a token can carry only these
+ */
+export function grantablePermissions(access: EffectiveAccess): Permission[] {
+  const granted = new Set<Permission>(access.globalPermissions);
+  for (const binding of access.bindings) {
+    bindingPermissions(binding).forEach((perm) => granted.add(perm));
+  }
+  return (Object.values(PERMISSIONS) as Permission[]).filter((perm) => granted.has(perm));
+}
+
+/**
+ * Validate a create request
+ * @param grantable permissions of the creating user (see grantablePermissions)
+ * @returns error message, or null when valid
+ */
+export function validatePersonalAccessTokenInput(
+  input: PersonalAccessTokenInput,
+  grantable: Permission[]
+): string | null {
+  if (typeof input.name !== 'string' || !input.name.trim() || input.name.trim().length > 100) {
+    return 'name is required (max 100 characters)';
+  }
+
+  if (!Array.isArray(input.permissions) || input.permissions.length === 0) {
+    return 'permissions must be a non-empty array';
+  }
+  const notGrantable = input.permissions.filter((perm) => !grantable.includes(perm as Permission));
+  if (notGrantable.length > 0) {
+    return `You cannot grant permissions you do not have: ${notGrantable.join(', ')}`;
+  }
+
+  const days = input.expires_in_days;
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS) {
+    return `expires_in_days must be a whole number from 1 to ${MAX_EXPIRY_DAYS}`;
+  }
+
+  if (input.ip_allowlist !== undefined && input.ip_allowlist !== null) {
+    if (!Array.isArray(input.ip_allowlist) || input.ip_allowlist.length > MAX_ALLOWLIST_ENTRIES) {
+      return `ip_allowlist must be an array of up to ${MAX_ALLOWLIST_ENTRIES} addresses or CIDR ranges`;
+    }
+    const invalid = input.ip_allowlist.filter((entry) => typeof entry !== 'string' || !isValidCidr(entry.trim()));
+    if (invalid.length > 0) {
+      return `Invalid IP address or CIDR range: ${invalid.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+export async function listPersonalAccessTokens(userId: number): Promise<PersonalAccessToken[]> {
+  const result = await query(
+    `SELECT ${COLUMNS} FROM personal_access_tokens
+     WHERE user_id = $1
+     ORDER BY revoked_at IS NOT NULL, created_at DESC`,
+    [userId]
+  );
+  return result.rows;
+}
+
+/**
+ * Number of tokens that are neither revoked nor expired
+ */
+export async function countActivePersonalAccessTokens(userId: number): Promise<number> {
+  const result = await query(
+    `SELECT COUNT(*)::int AS count FROM personal_access_tokens
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+    [userId]
+  );
+  return result.rows[0].count;
+}
+
+/**
+ * Create a token. Input must have passed validatePersonalAccessTokenInput.
+ * @returns the stored token and the token value, which cannot be retrieved again
+ */
+export async function createPersonalAccessToken(
+  userId: number,
+  input: PersonalAccessTokenInput
+): Promise<{ token: string; record: PersonalAccessToken }> {
+  const token = TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const permissions = Array.from(new Set(input.permissions as Permission[]));
+  // Host bits are dropped (10.0.0.7/24 is stored as 10.0.0.0/24)
+  const allowlist = Array.isArray(input.ip_allowlist) && input.ip_allowlist.length > 0
+    ? (input.ip_allowlist as string[]).map((entry) => entry.trim())
+    : null;
+
+  const result = await query(
+    `INSERT INTO personal_access_tokens
+       (user_id, name, token_prefix, token_hash, permissions, ip_allowlist, expires_at)
+     VALUES ($1, $2, $3, $4, $5,
+       CASE WHEN $6::text[] IS NULL THEN NULL ELSE ARRAY(SELECT network(entry::inet) FROM unnest($6::text[]) entry) END,
+       NOW() + make_interval(days => $7))
+     RETURNING ${COLUMNS}`,
+    [
+      userId,
+      (input.name as string).trim(),
+      token.slice(0, TOKEN_PREFIX.length + 6),
+      hashToken(token),
+      permissions,
+      allowlist,
+      input.expires_in_days,
+    ]
+  );
+
+  return { token, record: result.rows[0] };
+}
+
+/**
+ * Revoke one of the user's tokens
+ * @returns false when the user has no such active token
+ */
+export async function revokePersonalAccessToken(userId: number, tokenId: number): Promise<boolean> {
+  const result = await query(
+    `UPDATE personal_access_tokens SET revoked_at = NOW()
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+    [tokenId, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Resolve a presented token to its user and permissions and record its use
+ * @throws PersonalAccessTokenError when the token is not accepted
+ */
+export async function authenticatePersonalAccessToken(
+  token: string,
+  clientIp: string | undefined
+): Promise<PersonalAccessTokenAuth> {
+  const ip = normalizeIp(clientIp);
+
+  const result = await query(
+    `SELECT t.id, t.permissions, t.revoked_at, t.expires_at < NOW() AS expired,
+            (t.ip_allowlist IS NULL OR ($2::inet IS NOT NULL AND $2::inet <<= ANY(t.ip_allowlist))) AS ip_allowed,
+            u.id AS user_id, u.username, u.email, u.role, u.is_active
+     FROM personal_access_tokens t
+     JOIN users u ON u.id = t.user_id
+     WHERE t.token_hash = $1`,
+    [hashToken(token), ip]
+  );
+
+  if (result.rows.length === 0) {
+    throw new PersonalAccessTokenError('Invalid personal access token');
+  }
+
+  const row = result.rows[0];
+  if (row.revoked_at) {
+    throw new PersonalAccessTokenError('Personal access token has been revoked');
+  }
+  if (row.expired) {
+    throw new PersonalAccessTokenError('Personal access token has expired');
+  }
+  if (!row.is_active) {
+    throw new PersonalAccessTokenError('User account is inactive. Contact administrator.', 403);
+  }
+  if (!row.ip_allowed) {
+    logger.warn('Personal access token used from a disallowed address', { tokenId: row.id, ip });
+    throw new PersonalAccessTokenError('Personal access token is not allowed from this address', 403);
+  }
+
+  // Update last use (async, don't wait)
+  query(
+    `UPDATE personal_access_tokens SET last_used_at = NOW(), last_used_ip = $2 WHERE id = $1`,
+    [row.id, ip]
+  ).catch((err) => {
+    logger.error('Failed to update personal access token last_used_at', {
+      error: err.message,
+      tokenId: row.id
+    });
+  });
+
+  return {
+    tokenId: row.id,
+    permissions: row.permissions,
+    user: {
+      id: row.user_id,
+      username: row.username,
+      email: row.email,
+      role: row.role,
+      isActive: row.is_active,
+    },
+  };
+}
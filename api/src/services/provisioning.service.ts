@@ -36,6 +36,12 @@ import {
 } from '../utils/mqtt-broker-config';
 
 import { generateDefaultTargetState } from './default-target-state-generator';
+import {
+  CertificateRequestError,
+  IssuedDeviceCertificate,
+  isDeviceCaConfigured,
+  issueDeviceCertificate,
+} from './device-certificates';
 import logger from '../utils/logger';
 import { configService }  from './config.service';
 
@@ -52,6 +58,7 @@ export interface RegistrationRequest {
   macAddress?: string;
   osVersion?: string;
   agentVersion?: string;
+  csr?: string;              // PEM CSR; signed with the fleet CA when configured
 }
 
 export interface KeyExchangeRequest {
@@ -96,6 +103,7 @@ export interface ProvisioningResponse {
     };
     config: string;
   };
+  certificate?: IssuedDeviceCertificate;
 }
 
 export class ProvisioningService {
@@ -167,6 +175,8 @@ export class ProvisioningService {
     });
 
 
+    const certificate = await this.issueCertificate(uuid, data.csr, ipAddress);
+
     // Create default target state
     this.createDefaultTargetState(uuid).catch(err => console.error('Failed to create default target state', err));
 
@@ -221,10 +231,45 @@ export class ProvisioningService {
       data,
       keyRecord,
       mqttCredentials,
-      vpnCredentials
+      vpnCredentials,
+      certificate
     );
   }
 
+  /**
+   * Sign the device CSR, if one was sent and the fleet CA is configured.
+   * An unusable CSR does not fail registration; the device keeps using its
+   * API key and can request a certificate later.
+   */
+  private async issueCertificate(
+    deviceUuid: string,
+    csr?: string,
+    ipAddress?: string
+  ): Promise<IssuedDeviceCertificate | undefined> {
+    if (!csr || !isDeviceCaConfigured()) return undefined;
+
+    try {
+      return await issueDeviceCertificate(deviceUuid, csr, 'registration', {
+        type: 'device',
+        id: deviceUuid,
+        ip_address: ipAddress,
+      });
+    } catch (error: any) {
+      if (!(error instanceof CertificateRequestError)) throw error;
+      logger.warn(`Device certificate not issued for ${deviceUuid.substring(0, 8)}...: ${error.message}`);
+
+      logAuditEvent({
+        eventType: AuditEventType.PROVISIONING_FAILED,
+        deviceUuid,
+        ipAddress,
+        severity: AuditSeverity.WARNING,
+        details: { reason: 'CSR rejected', error: error.message }
+      }).catch(err => logger.error('Failed to log CSR rejection', err));
+
+      return undefined;
+    }
+  }
+
   /**
    * Generate MQTT credentials for device
    */
@@ -304,7 +349,8 @@ export class ProvisioningService {
     data: RegistrationRequest,
     provisioningKeyRecord: any,
     mqttCredentials: { username: string; password: string },
-    vpnCredentials?: { peerId: string; ipAddress: string; config: string }
+    vpnCredentials?: { peerId: string; ipAddress: string; config: string },
+    certificate?: IssuedDeviceCertificate
   ): Promise<ProvisioningResponse> {
     const { uuid, deviceName, deviceType, applicationId } = data;
 
@@ -377,6 +423,10 @@ export class ProvisioningService {
       logger.info(`WireGuard VPN configuration added to provisioning response (IP: ${vpnCredentials.ipAddress})`);
     }
 
+    if (certificate) {
+      response.certificate = certificate;
+    }
+
     return response;
   }
 }
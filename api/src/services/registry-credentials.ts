@@ -0,0 +1,131 @@
+/**
+ * Registry Credentials
+ * Per-registry pull credentials, stored encrypted. Decrypted only to resolve
+ * digests at deploy time and to deliver them in device target state.
+ */
+
+import { query } from '../db/connection';
+import { encryptSecret, decryptSecret } from '../utils/secret-encryption';
+import { normalizeRegistry, parseImageReference, RegistryCredentials } from './docker-registry';
+import logger from '../utils/logger';
+
+export interface RegistryCredentialSummary {
+  id: number;
+  registry: string;
+  username: string;
+  description: string | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Credentials as delivered to devices in config.registries
+ */
+export interface DeviceRegistryCredential {
+  registry: string;
+  username: string;
+  password: string;
+}
+
+/**
+ * List credentials without passwords
+ */
+export async function listRegistryCredentials(): Promise<RegistryCredentialSummary[]> {
+  const result = await query<RegistryCredentialSummary>(
+    `SELECT id, registry, username, description, created_by, created_at, updated_at
+     FROM registry_credentials
+     ORDER BY registry`
+  );
+  return result.rows;
+}
+
+/**
+ * Create or replace credentials for a registry
+ */
+export async function upsertRegistryCredential(
+  registry: string,
+  username: string,
+  password: string,
+  description: string | null,
+  createdBy: string | null
+): Promise<RegistryCredentialSummary> {
+  const result = await query<RegistryCredentialSummary>(
+    `INSERT INTO registry_credentials (registry, username, password_encrypted, description, created_by)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (registry) DO UPDATE SET
+       username = EXCLUDED.username,
+       password_encrypted = EXCLUDED.password_encrypted,
+       description = EXCLUDED.description,
+       updated_at = CURRENT_TIMESTAMP
+     RETURNING id, registry, username, description, created_by, created_at, updated_at`,
+    [normalizeRegistry(registry), username, encryptSecret(password), description, createdBy]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Delete credentials for a registry
+ * @returns true if a row was deleted
+ */
+export async function deleteRegistryCredential(registry: string): Promise<boolean> {
+  const result = await query(
+    'DELETE FROM registry_credentials WHERE registry = $1',
+    [normalizeRegistry(registry)]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Decrypted credentials keyed by registry host
+ * Entries that fail to decrypt (key rotated) are skipped with a warning.
+ */
+export async function getRegistryCredentialsMap(): Promise<Record<string, RegistryCredentials>> {
+  const result = await query<{ registry: string; username: string; password_encrypted: string }>(
+    'SELECT registry, username, password_encrypted FROM registry_credentials'
+  );
+
+  const credentials: Record<string, RegistryCredentials> = {};
+  for (const row of result.rows) {
+    try {
+      credentials[row.registry] = {
+        username: row.username,
+        password: decryptSecret(row.password_encrypted),
+      };
+    } catch (error: any) {
+      logger.warn(`Could not decrypt credentials for registry ${row.registry}: ${error.message}`);
+    }
+  }
+  return credentials;
+}
+
+/**
+ * Credentials for the registries referenced by a set of apps
+ * Devices only receive credentials for images they actually run.
+ */
+export async function getRegistryCredentialsForApps(
+  apps: Record<string, any>
+): Promise<DeviceRegistryCredential[]> {
+  const registries = new Set<string>();
+  for (const app of Object.values(apps || {})) {
+    for (const service of app?.services || []) {
+      const imageName = service.imageName || service.config?.image;
+      if (imageName) {
+        registries.add(normalizeRegistry(parseImageReference(imageName).registry));
+      }
+    }
+  }
+  if (registries.size === 0) {
+    return [];
+  }
+
+  const credentials = await getRegistryCredentialsMap();
+  return [...registries]
+    .filter(registry => credentials[registry])
+    .sort()
+    .map(registry => ({
+      registry,
+      username: credentials[registry].username!,
+      password: credentials[registry].password!,
+    }));
+}
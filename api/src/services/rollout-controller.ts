@@ -0,0 +1,719 @@
+/**
+ * Fleet Rollout Controller
+ *
+ * Deploys target-state changes (app releases) to a tag-selected device set in
+ * waves, e.g. 1% canary, then 10%, then the rest. Each tick:
+ * 1. Deploys queued devices of the current wave (merge apps + version bump)
+ * 2. Judges deployed devices from reported current state (version, serviceStatus, error)
+ * 3. Pauses or rolls back when the failure rate crosses the threshold
+ * 4. Advances to the next wave after the wave succeeded and the soak delay passed
+ *
+ * Progress is published on the 'rollouts' WebSocket channel and as events.
+ */
+
+import { randomUUID } from 'crypto';
+import { query } from '../db/connection';
+import { DeviceTargetStateModel, DeviceCurrentStateModel, DeviceCurrentState } from '../db/models';
+import { EventPublisher } from './event-sourcing';
+import { findDeviceUuidsByTags } from './device-tag-query';
+import { resolveAppsImages } from './docker-registry';
+import { getRegistryCredentialsMap } from './registry-credentials';
+import { validateTargetStateApps } from './target-state-validation';
+import { websocketManager } from './websocket-manager';
+import { TagSelector } from '../types/device-tags';
+import logger from '../utils/logger';
+
+export type RolloutStatus = 'IN_PROGRESS' | 'PAUSED' | 'SUCCEEDED' | 'ROLLED_BACK' | 'CANCELED';
+export type RolloutDeviceStatus = 'QUEUED' | 'IN_PROGRESS' | 'SUCCEEDED' | 'FAILED' | 'SKIPPED' | 'ROLLED_BACK';
+
+export interface Rollout {
+  rollout_id: string;
+  name: string;
+  description?: string;
+  tag_selectors: TagSelector;
+  target_apps: Record<string, any>;
+  waves: number[];
+  current_wave: number;
+  failure_threshold: string | number; // NUMERIC comes back as string
+  on_failure: 'pause' | 'rollback';
+  wave_timeout_seconds: number;
+  wave_delay_seconds: number;
+  status: RolloutStatus;
+  status_reason?: string;
+  wave_completed_at?: Date;
+  started_at: Date;
+  completed_at?: Date;
+  total_devices: number;
+  succeeded_devices: number;
+  failed_devices: number;
+  in_progress_devices: number;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RolloutDevice {
+  rollout_id: string;
+  device_uuid: string;
+  wave: number;
+  status: RolloutDeviceStatus;
+  reason?: string;
+  previous_version?: number;
+  deployed_version?: number;
+  previous_apps?: any;
+  previous_config?: any;
+  deployed_at?: Date;
+  completed_at?: Date;
+}
+
+export interface CreateRolloutOptions {
+  name: string;
+  description?: string;
+  tagSelectors: TagSelector;
+  apps: Record<string, any>;
+  waves?: number[];
+  failureThreshold?: number;
+  onFailure?: 'pause' | 'rollback';
+  waveTimeoutSeconds?: number;
+  waveDelaySeconds?: number;
+  createdBy?: string;
+}
+
+/** Rollout input that cannot be deployed; the message is safe to return to the client */
+export class RolloutRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RolloutRequestError';
+  }
+}
+
+const DEFAULT_WAVES = [1, 10, 100];
+const CHECK_INTERVAL_MS = parseInt(process.env.ROLLOUT_CHECK_INTERVAL_MS || '15000', 10);
+
+/**
+ * Number of devices deployed once each wave is complete (cumulative)
+ * Every wave gets at least one more device than the previous one while devices remain
+ */
+export function planWaveSizes(deviceCount: number, waves: number[]): number[] {
+  const sizes: number[] = [];
+  let previous = 0;
+
+  for (const percentage of waves) {
+    let size = Math.ceil((deviceCount * percentage) / 100);
+    size = Math.min(deviceCount, Math.max(size, previous + 1));
+    sizes.push(size);
+    previous = size;
+  }
+
+  return sizes;
+}
+
+/**
+ * Judge a deployed device from its reported current state
+ * Succeeded once it reports the deployed version with all rollout services running
+ */
+export function evaluateDeviceState(
+  currentState: Pick<DeviceCurrentState, 'apps' | 'version'> | null,
+  targetApps: Record<string, any>,
+  deployedVersion: number
+): { status: 'IN_PROGRESS' | 'SUCCEEDED' | 'FAILED'; reason?: string } {
+  if (!currentState || (currentState.version || 0) < deployedVersion) {
+    return { status: 'IN_PROGRESS' };
+  }
+
+  let pending = false;
+
+  for (const [appId, app] of Object.entries(targetApps)) {
+    const reportedApp = currentState.apps?.[appId];
+
+    for (const service of app.services || []) {
+      const reported = reportedApp?.services?.find((s: any) => s.serviceName === service.serviceName);
+
+      if (reported?.serviceStatus === 'error' || reported?.error) {
+        const detail = reported.error?.message || reported.error?.type || 'error';
+        return { status: 'FAILED', reason: `${service.serviceName}: ${detail}` };
+      }
+
+      const running = reported?.serviceStatus
+        ? reported.serviceStatus === 'running'
+        : reported?.status === 'running';
+
+      if (!reported || (service.state !== 'stopped' && !running)) {
+        pending = true;
+      }
+    }
+  }
+
+  return pending ? { status: 'IN_PROGRESS' } : { status: 'SUCCEEDED' };
+}
+
+class RolloutController {
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  // Rollouts being processed, so a tick and an API call never deploy the same wave twice
+  private processing = new Set<string>();
+  private eventPublisher = new EventPublisher('rollout-controller');
+
+  /**
+   * Start periodic processing of active rollouts
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.processRollouts().catch(error => {
+        logger.error('[RolloutController] Processing failed', { error: error.message });
+      });
+    }, CHECK_INTERVAL_MS);
+
+    logger.info('[RolloutController] Started', { intervalMs: CHECK_INTERVAL_MS });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('[RolloutController] Stopped');
+    }
+  }
+
+  /**
+   * Create a rollout and assign matching devices to waves
+   * The apps are validated and their images pinned to digests once here, so
+   * every device gets the same release
+   * @throws RolloutRequestError when the apps are invalid
+   */
+  async createRollout(options: CreateRolloutOptions): Promise<Rollout> {
+    const validationError = validateTargetStateApps(options.apps);
+    if (validationError) {
+      throw new RolloutRequestError(validationError);
+    }
+
+    let apps = options.apps;
+    try {
+      apps = await resolveAppsImages(apps, await getRegistryCredentialsMap());
+    } catch (error: any) {
+      // Digest resolution is best-effort, as for target-state updates
+      logger.warn('[RolloutController] Digest resolution failed, continuing with tag-based references', {
+        name: options.name,
+        error: error.message,
+      });
+    }
+
+    const waves = options.waves?.length ? [...options.waves] : [...DEFAULT_WAVES];
+    if (waves[waves.length - 1] !== 100) {
+      waves.push(100);
+    }
+
+    const deviceUuids = (await findDeviceUuidsByTags(options.tagSelectors)).sort();
+    if (deviceUuids.length === 0) {
+      throw new Error('No devices match the tag selectors');
+    }
+
+    const rolloutId = randomUUID();
+    const waveSizes = planWaveSizes(deviceUuids.length, waves);
+
+    await query(
+      `INSERT INTO fleet_rollouts (
+        rollout_id, name, description, tag_selectors, target_apps, waves,
+        failure_threshold, on_failure, wave_timeout_seconds, wave_delay_seconds,
+        total_devices, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        rolloutId,
+        options.name,
+        options.description || null,
+        JSON.stringify(options.tagSelectors),
+        JSON.stringify(apps),
+        JSON.stringify(waves),
+        options.failureThreshold ?? 10,
+        options.onFailure || 'pause',
+        options.waveTimeoutSeconds ?? 900,
+        options.waveDelaySeconds ?? 300,
+        deviceUuids.length,
+        options.createdBy || null,
+      ]
+    );
+
+    const deviceWaves = deviceUuids.map((_, index) => waveSizes.findIndex(size => index < size));
+    await query(
+      `INSERT INTO fleet_rollout_devices (rollout_id, device_uuid, wave)
+       SELECT $1, device_uuid, wave FROM unnest($2::uuid[], $3::int[]) AS t(device_uuid, wave)`,
+      [rolloutId, deviceUuids, deviceWaves]
+    );
+
+    await this.eventPublisher.publish('rollout.started', 'rollout', rolloutId, {
+      name: options.name,
+      totalDevices: deviceUuids.length,
+      waves,
+      waveSizes,
+      createdBy: options.createdBy,
+    });
+
+    logger.info('[RolloutController] Rollout created', {
+      rolloutId,
+      name: options.name,
+      totalDevices: deviceUuids.length,
+      waveSizes,
+    });
+
+    // Deploy the first wave right away instead of waiting for the next tick
+    const rollout = (await this.getRollout(rolloutId))!;
+    await this.processRolloutExclusive(rollout);
+
+    return (await this.getRollout(rolloutId))!;
+  }
+
+  async getRollout(rolloutId: string): Promise<Rollout | null> {
+    const result = await query<Rollout>('SELECT * FROM fleet_rollouts WHERE rollout_id = $1', [rolloutId]);
+    return result.rows[0] || null;
+  }
+
+  async getRolloutDevices(rolloutId: string): Promise<RolloutDevice[]> {
+    const result = await query<RolloutDevice>(
+      `SELECT * FROM fleet_rollout_devices WHERE rollout_id = $1 ORDER BY wave, device_uuid`,
+      [rolloutId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Rollout with per-wave device counts (REST and WebSocket payload)
+   */
+  async getProgress(rolloutId: string): Promise<any | null> {
+    const rollout = await this.getRollout(rolloutId);
+    if (!rollout) {
+      return null;
+    }
+
+    const result = await query(
+      `SELECT wave, status, COUNT(*)::int AS count
+       FROM fleet_rollout_devices WHERE rollout_id = $1
+       GROUP BY wave, status`,
+      [rolloutId]
+    );
+
+    const waves = rollout.waves.map((percentage, index) => {
+      const counts: Record<string, number> = {};
+      for (const row of result.rows.filter(r => r.wave === index)) {
+        counts[row.status] = row.count;
+      }
+      return {
+        wave: index,
+        percentage,
+        devices: Object.values(counts).reduce((sum, count) => sum + count, 0),
+        counts,
+      };
+    });
+
+    return { ...rollout, failure_threshold: Number(rollout.failure_threshold), waveProgress: waves };
+  }
+
+  /**
+   * Pause an in-progress rollout (deployed devices keep their new version)
+   */
+  async pause(rolloutId: string, reason: string = 'Paused by user'): Promise<Rollout> {
+    const rollout = await this.transition(rolloutId, ['IN_PROGRESS'], 'PAUSED', reason);
+    await this.eventPublisher.publish('rollout.paused', 'rollout', rolloutId, { reason }, { severity: 'warning' });
+    await this.publishProgress(rolloutId);
+    return rollout;
+  }
+
+  /**
+   * Resume a paused rollout
+   * Failed devices of deployed waves are judged again (e.g. after fixing registry access)
+   */
+  async resume(rolloutId: string): Promise<Rollout> {
+    const rollout = await this.transition(rolloutId, ['PAUSED'], 'IN_PROGRESS', null);
+
+    await query(
+      `UPDATE fleet_rollout_devices
+       SET status = 'IN_PROGRESS', reason = NULL, deployed_at = CURRENT_TIMESTAMP,
+           completed_at = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE rollout_id = $1 AND status = 'FAILED' AND deployed_version IS NOT NULL`,
+      [rolloutId]
+    );
+
+    await this.eventPublisher.publish('rollout.resumed', 'rollout', rolloutId, {});
+    await this.processRolloutExclusive(rollout);
+    return (await this.getRollout(rolloutId))!;
+  }
+
+  /**
+   * Cancel a rollout; queued devices are skipped, deployed devices keep their new version
+   */
+  async cancel(rolloutId: string): Promise<Rollout> {
+    const rollout = await this.transition(rolloutId, ['IN_PROGRESS', 'PAUSED'], 'CANCELED', 'Canceled by user');
+
+    await query(
+      `UPDATE fleet_rollout_devices
+       SET status = 'SKIPPED', reason = 'Rollout canceled', updated_at = CURRENT_TIMESTAMP
+       WHERE rollout_id = $1 AND status = 'QUEUED'`,
+      [rolloutId]
+    );
+
+    await this.updateStats(rolloutId);
+    await this.eventPublisher.publish('rollout.canceled', 'rollout', rolloutId, {});
+    await this.publishProgress(rolloutId);
+    return rollout;
+  }
+
+  /**
+   * Roll every deployed device back to its previous target-state version
+   */
+  async rollback(rolloutId: string, reason: string = 'Rolled back by user'): Promise<Rollout> {
+    const rollout = await this.transition(rolloutId, ['IN_PROGRESS', 'PAUSED', 'SUCCEEDED'], 'ROLLED_BACK', reason);
+
+    const devices = await this.getRolloutDevices(rolloutId);
+    let rolledBack = 0;
+    let failed = 0;
+
+    for (const device of devices) {
+      if (device.status === 'QUEUED') {
+        await this.updateDevice(rolloutId, device.device_uuid, { status: 'SKIPPED', reason: 'Rollout rolled back' });
+        continue;
+      }
+      if (device.deployed_version == null || device.status === 'SKIPPED' || device.status === 'ROLLED_BACK') {
+        continue;
+      }
+
+      try {
+        if (await this.rollbackDevice(rolloutId, device)) {
+          rolledBack++;
+        }
+      } catch (error: any) {
+        failed++;
+        logger.error('[RolloutController] Device rollback failed', {
+          rolloutId,
+          deviceUuid: device.device_uuid,
+          error: error.message,
+        });
+        await this.updateDevice(rolloutId, device.device_uuid, { reason: `Rollback failed: ${error.message}` });
+      }
+    }
+
+    await query(
+      `UPDATE fleet_rollouts SET completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE rollout_id = $1`,
+      [rolloutId]
+    );
+    await this.updateStats(rolloutId);
+
+    await this.eventPublisher.publish('rollout.rolled_back', 'rollout', rolloutId, {
+      reason,
+      devicesRolledBack: rolledBack,
+      rollbackFailures: failed,
+    }, { severity: 'warning', impact: 'high' });
+
+    logger.warn('[RolloutController] Rollout rolled back', { rolloutId, reason, rolledBack, failed });
+    await this.publishProgress(rolloutId);
+    return rollout;
+  }
+
+  /**
+   * Process all in-progress rollouts (one tick)
+   */
+  async processRollouts(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+
+    this.isProcessing = true;
+    try {
+      const result = await query<Rollout>(
+        `SELECT * FROM fleet_rollouts WHERE status = 'IN_PROGRESS' ORDER BY created_at`
+      );
+
+      for (const rollout of result.rows) {
+        try {
+          await this.processRolloutExclusive(rollout);
+        } catch (error: any) {
+          logger.error('[RolloutController] Failed to process rollout', {
+            rolloutId: rollout.rollout_id,
+            error: error.message,
+          });
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Process a rollout unless it is already being processed (the running pass
+   * picks up the same work)
+   */
+  private async processRolloutExclusive(rollout: Rollout): Promise<void> {
+    if (this.processing.has(rollout.rollout_id)) {
+      return;
+    }
+
+    this.processing.add(rollout.rollout_id);
+    try {
+      await this.processRollout(rollout);
+    } finally {
+      this.processing.delete(rollout.rollout_id);
+    }
+  }
+
+  private async processRollout(rollout: Rollout): Promise<void> {
+    const rolloutId = rollout.rollout_id;
+    const currentWave = rollout.current_wave;
+    let devices = await this.getRolloutDevices(rolloutId);
+
+    // 1. Deploy queued devices of the current (and any earlier) wave
+    for (const device of devices.filter(d => d.wave <= currentWave && d.status === 'QUEUED')) {
+      await this.deployDevice(rollout, device);
+    }
+
+    // 2. Judge deployed devices
+    const timeoutMs = rollout.wave_timeout_seconds * 1000;
+    for (const device of devices.filter(d => d.status === 'IN_PROGRESS')) {
+      const currentState = await DeviceCurrentStateModel.get(device.device_uuid);
+      const verdict = evaluateDeviceState(currentState, rollout.target_apps, device.deployed_version!);
+
+      if (verdict.status !== 'IN_PROGRESS') {
+        await this.updateDevice(rolloutId, device.device_uuid, { ...verdict, completed: true });
+      } else if (device.deployed_at && Date.now() - new Date(device.deployed_at).getTime() > timeoutMs) {
+        await this.updateDevice(rolloutId, device.device_uuid, {
+          status: 'FAILED',
+          reason: `Timed out waiting for version ${device.deployed_version} (reported ${currentState?.version ?? 'none'})`,
+          completed: true,
+        });
+      }
+    }
+
+    devices = await this.getRolloutDevices(rolloutId);
+    await this.updateStats(rolloutId);
+
+    // 3. Failure threshold across all deployed waves
+    const deployed = devices.filter(d => d.wave <= currentWave && d.status !== 'SKIPPED');
+    const failedCount = deployed.filter(d => d.status === 'FAILED').length;
+    const failureRate = deployed.length > 0 ? (failedCount / deployed.length) * 100 : 0;
+
+    if (failedCount > 0 && failureRate > Number(rollout.failure_threshold)) {
+      const reason = `Failure rate ${failureRate.toFixed(1)}% (${failedCount}/${deployed.length}) exceeded threshold of ${Number(rollout.failure_threshold)}% in wave ${currentWave + 1}`;
+
+      if (rollout.on_failure === 'rollback') {
+        await this.rollback(rolloutId, reason);
+      } else {
+        await this.pause(rolloutId, reason);
+      }
+      return;
+    }
+
+    // 4. Advance when the current wave is done
+    const waveDone = devices
+      .filter(d => d.wave <= currentWave)
+      .every(d => d.status !== 'QUEUED' && d.status !== 'IN_PROGRESS');
+
+    if (!waveDone) {
+      await this.publishProgress(rolloutId);
+      return;
+    }
+
+    const lastWave = Math.max(...devices.map(d => d.wave));
+    if (currentWave >= lastWave) {
+      await query(
+        `UPDATE fleet_rollouts
+         SET status = 'SUCCEEDED', completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE rollout_id = $1 AND status = 'IN_PROGRESS'`,
+        [rolloutId]
+      );
+      await this.eventPublisher.publish('rollout.succeeded', 'rollout', rolloutId, {
+        totalDevices: devices.length,
+        failedDevices: failedCount,
+      });
+      logger.info('[RolloutController] Rollout succeeded', { rolloutId });
+    } else if (!rollout.wave_completed_at) {
+      await query(
+        `UPDATE fleet_rollouts SET wave_completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE rollout_id = $1`,
+        [rolloutId]
+      );
+    } else if (Date.now() - new Date(rollout.wave_completed_at).getTime() >= rollout.wave_delay_seconds * 1000) {
+      const nextWave = currentWave + 1;
+      await query(
+        `UPDATE fleet_rollouts
+         SET current_wave = $2, wave_completed_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE rollout_id = $1 AND status = 'IN_PROGRESS'`,
+        [rolloutId, nextWave]
+      );
+      await this.eventPublisher.publish('rollout.wave_started', 'rollout', rolloutId, {
+        wave: nextWave,
+        percentage: rollout.waves[nextWave],
+      });
+      logger.info('[RolloutController] Advancing to next wave', { rolloutId, wave: nextWave });
+    }
+
+    await this.publishProgress(rolloutId);
+  }
+
+  /**
+   * Merge rollout apps into the device's target state and deploy (version bump)
+   */
+  private async deployDevice(rollout: Rollout, device: RolloutDevice): Promise<void> {
+    const deviceUuid = device.device_uuid;
+
+    try {
+      const target = await DeviceTargetStateModel.get(deviceUuid);
+
+      // Don't ship someone else's pending edits along with the rollout
+      if (target?.needs_deployment) {
+        await this.updateDevice(rollout.rollout_id, deviceUuid, {
+          status: 'SKIPPED',
+          reason: 'Device has undeployed target state changes',
+          completed: true,
+        });
+        return;
+      }
+
+      const apps = { ...(target?.apps || {}), ...rollout.target_apps };
+      await DeviceTargetStateModel.set(deviceUuid, apps, target?.config || {}, true);
+      const deployed = await DeviceTargetStateModel.deploy(deviceUuid, `rollout:${rollout.rollout_id}`);
+
+      await query(
+        `UPDATE fleet_rollout_devices
+         SET status = 'IN_PROGRESS', previous_version = $3, deployed_version = $4,
+             previous_apps = $5, previous_config = $6,
+             deployed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE rollout_id = $1 AND device_uuid = $2`,
+        [
+          rollout.rollout_id,
+          deviceUuid,
+          target?.version ?? null,
+          deployed.version,
+          JSON.stringify(target?.apps || {}),
+          JSON.stringify(target?.config || {}),
+        ]
+      );
+    } catch (error: any) {
+      logger.error('[RolloutController] Failed to deploy device', {
+        rolloutId: rollout.rollout_id,
+        deviceUuid,
+        error: error.message,
+      });
+      await this.updateDevice(rollout.rollout_id, deviceUuid, {
+        status: 'FAILED',
+        reason: `Deploy failed: ${error.message}`,
+        completed: true,
+      });
+    }
+  }
+
+  /**
+   * Restore the device's previous target-state version
+   * Returns false when the device was deployed again after the rollout (left untouched)
+   */
+  private async rollbackDevice(rolloutId: string, device: RolloutDevice): Promise<boolean> {
+    const deviceUuid = device.device_uuid;
+    const target = await DeviceTargetStateModel.get(deviceUuid);
+
+    if (target && target.version !== device.deployed_version) {
+      await this.updateDevice(rolloutId, deviceUuid, {
+        reason: `Not rolled back: target state changed since rollout (version ${target.version})`,
+      });
+      return false;
+    }
+
+    const history = device.previous_version != null
+      ? await query(
+          `SELECT apps, config FROM device_target_state_history WHERE device_uuid = $1 AND version = $2`,
+          [deviceUuid, device.previous_version]
+        )
+      : { rows: [] as any[] };
+    const previous = history.rows[0] || { apps: device.previous_apps || {}, config: device.previous_config || {} };
+
+    await DeviceTargetStateModel.set(deviceUuid, previous.apps, previous.config, true);
+    const deployed = await DeviceTargetStateModel.deploy(deviceUuid, `rollout:${rolloutId}:rollback`);
+
+    await query(
+      `UPDATE device_target_state_history
+       SET is_rollback = true, rollback_from_version = $3,
+           changes_summary = $4
+       WHERE device_uuid = $1 AND version = $2`,
+      [
+        deviceUuid,
+        deployed.version,
+        device.deployed_version,
+        `Rollback of rollout ${rolloutId} to version ${device.previous_version ?? 'initial'}`,
+      ]
+    );
+
+    await this.updateDevice(rolloutId, deviceUuid, { status: 'ROLLED_BACK', completed: true });
+    return true;
+  }
+
+  /**
+   * Conditional status change (guards against concurrent ticks and API calls)
+   */
+  private async transition(
+    rolloutId: string,
+    from: RolloutStatus[],
+    to: RolloutStatus,
+    reason: string | null
+  ): Promise<Rollout> {
+    const result = await query<Rollout>(
+      `UPDATE fleet_rollouts
+       SET status = $3, status_reason = $4, updated_at = CURRENT_TIMESTAMP
+       WHERE rollout_id = $1 AND status = ANY($2)
+       RETURNING *`,
+      [rolloutId, from, to, reason]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error(`Rollout ${rolloutId} cannot change to ${to} (expected status ${from.join(' or ')})`);
+    }
+
+    return result.rows[0];
+  }
+
+  private async updateDevice(
+    rolloutId: string,
+    deviceUuid: string,
+    update: { status?: RolloutDeviceStatus; reason?: string; completed?: boolean }
+  ): Promise<void> {
+    await query(
+      `UPDATE fleet_rollout_devices
+       SET status = COALESCE($3, status),
+           reason = COALESCE($4, reason),
+           completed_at = CASE WHEN $5 THEN CURRENT_TIMESTAMP ELSE completed_at END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE rollout_id = $1 AND device_uuid = $2`,
+      [rolloutId, deviceUuid, update.status || null, update.reason || null, update.completed || false]
+    );
+  }
+
+  private async updateStats(rolloutId: string): Promise<void> {
+    await query(
+      `UPDATE fleet_rollouts r SET
+         succeeded_devices = s.succeeded,
+         failed_devices = s.failed,
+         in_progress_devices = s.in_progress,
+         updated_at = CURRENT_TIMESTAMP
+       FROM (
+         SELECT
+           COUNT(*) FILTER (WHERE status = 'SUCCEEDED')::int AS succeeded,
+           COUNT(*) FILTER (WHERE status = 'FAILED')::int AS failed,
+           COUNT(*) FILTER (WHERE status = 'IN_PROGRESS')::int AS in_progress
+         FROM fleet_rollout_devices WHERE rollout_id = $1
+       ) s
+       WHERE r.rollout_id = $1`,
+      [rolloutId]
+    );
+  }
+
+  private async publishProgress(rolloutId: string): Promise<void> {
+    try {
+      const progress = await this.getProgress(rolloutId);
+      if (progress) {
+        websocketManager.publishRolloutProgress(progress);
+      }
+    } catch (error: any) {
+      logger.warn('[RolloutController] Failed to publish progress', { rolloutId, error: error.message });
+    }
+  }
+}
+
+export const rolloutController = new RolloutController();
@@ -0,0 +1,227 @@
+/**
+ * Sensor Data Query
+ * Reads sensor readings back out of sensor_data (written by handleSensorData)
+ * for charts and exports: time range, field selection out of the JSON payload,
+ * time bucketing with aggregation, pagination and CSV output.
+ */
+
+import { query } from '../db/connection';
+
+export type SensorAggregation = 'avg' | 'min' | 'max' | 'last' | 'count';
+
+export const SENSOR_AGGREGATIONS: SensorAggregation[] = ['avg', 'min', 'max', 'last', 'count'];
+
+export const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_LIMIT = 1000;
+export const MAX_LIMIT = 10000;
+export const DEFAULT_MAX_POINTS = 500;
+export const MAX_FIELDS = 20;
+
+/** Bucket sizes (seconds) picked by interval=auto */
+const AUTO_INTERVALS = [
+  1, 5, 10, 15, 30,
+  60, 120, 300, 600, 900, 1800,
+  3600, 7200, 10800, 21600, 43200,
+  86400, 604800
+];
+
+const FIELD_PATTERN = /^[A-Za-z0-9_\-]+(\.[A-Za-z0-9_\-]+)*$/;
+
+export interface SensorDataQuery {
+  deviceUuids: string[];
+  sensorName: string;
+  from: Date;
+  to: Date;
+  fields?: string[];             // Dot paths into sensor_data.data (all data when omitted)
+  aggregation?: SensorAggregation;
+  intervalSeconds?: number;      // Bucket size (required with aggregation)
+  limit: number;
+  offset: number;
+}
+
+export interface SensorDataRow {
+  deviceUuid: string;
+  timestamp: Date;               // Reading time, or bucket start when aggregated
+  values: Record<string, any>;
+}
+
+export interface SensorDataResult {
+  rows: SensorDataRow[];
+  hasMore: boolean;
+}
+
+/**
+ * Parse a comma-separated field list, returns an error message or the fields
+ */
+export function parseFields(value: string | undefined): { fields?: string[]; error?: string } {
+  if (!value) {
+    return {};
+  }
+
+  const fields = Array.from(new Set(value.split(',').map(f => f.trim()).filter(Boolean)));
+  if (fields.length > MAX_FIELDS) {
+    return { error: `At most ${MAX_FIELDS} fields can be selected` };
+  }
+
+  const invalid = fields.find(f => !FIELD_PATTERN.test(f));
+  if (invalid) {
+    return { error: `Invalid field "${invalid}" (use dot paths such as temperature or values.rpm)` };
+  }
+
+  return { fields };
+}
+
+/**
+ * Parse a bucket interval ("30", "30s", "5m", "1h", "1d") into seconds
+ */
+export function parseInterval(value: string): number | null {
+  const match = /^(\d+)(s|m|h|d)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const multipliers: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+  const seconds = parseInt(match[1], 10) * multipliers[match[2] || 's'];
+  return seconds > 0 ? seconds : null;
+}
+
+/**
+ * Smallest standard bucket that keeps the range within maxPoints buckets
+ */
+export function autoInterval(from: Date, to: Date, maxPoints: number = DEFAULT_MAX_POINTS): number {
+  const rangeSeconds = Math.max(1, (to.getTime() - from.getTime()) / 1000);
+  const target = rangeSeconds / Math.max(1, maxPoints);
+  return AUTO_INTERVALS.find(interval => interval >= target) ?? AUTO_INTERVALS[AUTO_INTERVALS.length - 1];
+}
+
+/**
+ * Aggregate expression for one field. Non-numeric values are ignored by
+ * avg/min/max; last and count work on any JSON value.
+ */
+function aggregateExpression(aggregation: SensorAggregation, pathParam: string): string {
+  const numeric = `CASE WHEN jsonb_typeof(data #> ${pathParam}) = 'number' THEN (data #>> ${pathParam})::double precision END`;
+
+  switch (aggregation) {
+    case 'avg':
+      return `avg(${numeric})`;
+    case 'min':
+      return `min(${numeric})`;
+    case 'max':
+      return `max(${numeric})`;
+    case 'count':
+      return `count(data #> ${pathParam})`;
+    case 'last':
+      return `(array_agg(data #> ${pathParam} ORDER BY timestamp DESC) FILTER (WHERE data #> ${pathParam} IS NOT NULL))[1]`;
+  }
+}
+
+/**
+ * Query sensor readings, raw or bucketed
+ */
+export async function querySensorData(options: SensorDataQuery): Promise<SensorDataResult> {
+  if (options.deviceUuids.length === 0) {
+    return { rows: [], hasMore: false };
+  }
+
+  const params: any[] = [options.deviceUuids, options.sensorName, options.from, options.to];
+  const fields = options.fields || [];
+  const fieldColumns = fields.map((field, i) => {
+    params.push(field.split('.'));
+    return { field, alias: `f${i}`, pathParam: `$${params.length}::text[]` };
+  });
+
+  const where = `device_uuid = ANY($1::uuid[])
+         AND sensor_name = $2
+         AND timestamp >= $3
+         AND timestamp < $4`;
+
+  let sql: string;
+  if (options.aggregation) {
+    if (fieldColumns.length === 0) {
+      throw new Error('fields are required for aggregation');
+    }
+
+    params.push(options.intervalSeconds);
+    const intervalParam = `$${params.length}::double precision`;
+    const selects = fieldColumns
+      .map(c => `${aggregateExpression(options.aggregation!, c.pathParam)} AS ${c.alias}`)
+      .join(',\n              ');
+
+    sql = `SELECT device_uuid,
+              to_timestamp(floor(extract(epoch FROM timestamp) / ${intervalParam}) * ${intervalParam}) AT TIME ZONE 'UTC' AS ts,
+              ${selects}
+       FROM sensor_data
+       WHERE ${where}
+       GROUP BY device_uuid, ts
+       ORDER BY ts, device_uuid`;
+  } else {
+    const selects = fieldColumns.length > 0
+      ? fieldColumns.map(c => `data #> ${c.pathParam} AS ${c.alias}`).join(', ')
+      : 'data';
+
+    sql = `SELECT device_uuid, timestamp AS ts, ${selects}
+       FROM sensor_data
+       WHERE ${where}
+       ORDER BY timestamp, device_uuid`;
+  }
+
+  // Fetch one extra row to know whether another page exists
+  params.push(options.limit + 1, options.offset);
+  sql += `\n       LIMIT $${params.length - 1} OFFSET $${params.length}`;
+
+  const result = await query(sql, params);
+  const hasMore = result.rows.length > options.limit;
+
+  const rows = result.rows.slice(0, options.limit).map((row: any) => {
+    let values: Record<string, any>;
+    if (fieldColumns.length === 0) {
+      values = row.data || {};
+    } else {
+      values = {};
+      for (const c of fieldColumns) {
+        values[c.field] = row[c.alias] ?? null;
+      }
+    }
+
+    return {
+      deviceUuid: row.device_uuid,
+      timestamp: row.ts,
+      values
+    };
+  });
+
+  return { rows, hasMore };
+}
+
+function csvCell(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV (device_uuid, timestamp, one column per field).
+ * Without a field selection the columns are the top-level keys seen in the data.
+ */
+export function toCsv(rows: SensorDataRow[], fields?: string[]): string {
+  const columns = fields && fields.length > 0
+    ? fields
+    : Array.from(new Set(rows.flatMap(row => Object.keys(row.values))));
+
+  const lines = [['device_uuid', 'timestamp', ...columns].map(csvCell).join(',')];
+  for (const row of rows) {
+    lines.push([
+      row.deviceUuid,
+      row.timestamp instanceof Date ? row.timestamp : new Date(row.timestamp),
+      ...columns.map(column => row.values[column])
+    ].map(csvCell).join(','));
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,230 @@
+/**
+ * Target State Validation
+ *
+ * Checks the docker-compose style service fields in a target state before it is
+ * stored, so a malformed value is rejected with 400 instead of failing later
+ * on the device when the agent creates the container.
+ *
+ * Service fields may be given inside service.config or flat on the service
+ * (the agent accepts both).
+ */
+
+import { IMAGE_POLICY_MODES, isImageSigningConfigured } from './image-signing';
+
+const STRING_FIELDS = ['workingDir', 'user', 'hostname'];
+const STRING_LIST_FIELDS = ['devices', 'capAdd', 'capDrop', 'tmpfs', 'extraHosts'];
+const COMMAND_FIELDS = ['command', 'entrypoint'];
+
+export const DEPENDENCY_CONDITIONS = ['started', 'healthy'];
+export const UPDATE_STRATEGY_TYPES = ['recreate', 'start-first'];
+
+const isStringArray = (value: any) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Normalize dependsOn entries ("name" or { service, condition }) to { service, condition }
+ */
+export function normalizeDependsOn(dependsOn: any[] | undefined): Array<{ service: string; condition: string }> {
+  return (dependsOn || []).map(entry => typeof entry === 'string'
+    ? { service: entry, condition: 'started' }
+    : { service: entry.service, condition: entry.condition || 'started' });
+}
+
+/**
+ * Find a dependsOn cycle among services, returns its path (["a", "b", "a"]) or null
+ */
+export function findDependencyCycle(services: Array<{ serviceName: string; dependsOn?: any[] }>): string[] | null {
+  const dependencies = new Map(services.map(service => [
+    service.serviceName,
+    normalizeDependsOn(service.dependsOn).map(dependency => dependency.service),
+  ]));
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (name: string): string[] | null => {
+    const index = path.indexOf(name);
+    if (index !== -1) {
+      return [...path.slice(index), name];
+    }
+    if (visited.has(name) || !dependencies.has(name)) {
+      return null;
+    }
+    path.push(name);
+    for (const dependency of dependencies.get(name)!) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    visited.add(name);
+    return null;
+  };
+
+  for (const service of services) {
+    const cycle = visit(service.serviceName);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate the config of a single service, returns an error message or null
+ */
+export function validateServiceConfig(config: any, label: string): string | null {
+  for (const field of COMMAND_FIELDS) {
+    if (config[field] !== undefined && !isStringArray(config[field])) {
+      return `${label}.${field} must be an array of strings`;
+    }
+  }
+
+  for (const field of STRING_FIELDS) {
+    if (config[field] !== undefined && typeof config[field] !== 'string') {
+      return `${label}.${field} must be a string`;
+    }
+  }
+
+  for (const field of STRING_LIST_FIELDS) {
+    if (config[field] !== undefined && !isStringArray(config[field])) {
+      return `${label}.${field} must be an array of strings`;
+    }
+  }
+
+  if (config.dependsOn !== undefined) {
+    const valid = Array.isArray(config.dependsOn) && config.dependsOn.every((entry: any) =>
+      typeof entry === 'string' || (
+        entry && typeof entry === 'object' && typeof entry.service === 'string' &&
+        (entry.condition === undefined || DEPENDENCY_CONDITIONS.includes(entry.condition))
+      )
+    );
+    if (!valid) {
+      return `${label}.dependsOn must be an array of service names or { service, condition } with condition ${DEPENDENCY_CONDITIONS.join(' or ')}`;
+    }
+  }
+
+  const updateStrategy = config.updateStrategy;
+  if (updateStrategy !== undefined) {
+    if (!updateStrategy || typeof updateStrategy !== 'object') {
+      return `${label}.updateStrategy must be an object`;
+    }
+    if (updateStrategy.type !== undefined && !UPDATE_STRATEGY_TYPES.includes(updateStrategy.type)) {
+      return `${label}.updateStrategy.type must be one of ${UPDATE_STRATEGY_TYPES.join(', ')}`;
+    }
+    if (updateStrategy.rollbackAfterFailures !== undefined && (
+      !Number.isInteger(updateStrategy.rollbackAfterFailures) || updateStrategy.rollbackAfterFailures < 0
+    )) {
+      return `${label}.updateStrategy.rollbackAfterFailures must be a non-negative integer`;
+    }
+  }
+
+  if (config.privileged !== undefined && typeof config.privileged !== 'boolean') {
+    return `${label}.privileged must be a boolean`;
+  }
+
+  for (const device of config.devices || []) {
+    if (!device.startsWith('/') || device.split(':').length > 3) {
+      return `${label}.devices entry "${device}" must be "hostPath[:containerPath[:permissions]]"`;
+    }
+  }
+
+  for (const entry of config.tmpfs || []) {
+    if (!entry.startsWith('/')) {
+      return `${label}.tmpfs entry "${entry}" must be an absolute path with optional ":options"`;
+    }
+  }
+
+  for (const host of config.extraHosts || []) {
+    const index = host.indexOf(':');
+    if (index <= 0 || index === host.length - 1) {
+      return `${label}.extraHosts entry "${host}" must be "hostname:ip"`;
+    }
+  }
+
+  const logging = config.logging;
+  if (logging !== undefined) {
+    if (!logging || typeof logging !== 'object' || typeof logging.driver !== 'string' || !logging.driver) {
+      return `${label}.logging must be an object with a driver`;
+    }
+    if (logging.options !== undefined && (
+      !logging.options || typeof logging.options !== 'object' ||
+      !Object.values(logging.options).every(value => typeof value === 'string')
+    )) {
+      return `${label}.logging.options must be an object of string values`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate the apps of a target state (Record<appId, App>), returns an error message or null
+ */
+export function validateTargetStateApps(apps: Record<string, any>): string | null {
+  for (const [appId, app] of Object.entries(apps)) {
+    if (!app || typeof app !== 'object') {
+      return `apps.${appId} must be an object`;
+    }
+    if (app.services === undefined) {
+      continue;
+    }
+    if (!Array.isArray(app.services)) {
+      return `apps.${appId}.services must be an array`;
+    }
+
+    const configs = new Map<string, any>(app.services.map((service: any) =>
+      [service?.serviceName, { ...service, ...(service?.config || {}) }]
+    ));
+
+    for (const [index, service] of app.services.entries()) {
+      if (!service || typeof service !== 'object') {
+        return `apps.${appId}.services[${index}] must be an object`;
+      }
+      const label = `apps.${appId}.services[${index}]`;
+      const config = configs.get(service.serviceName);
+
+      const error = validateServiceConfig(config, label);
+      if (error) {
+        return error;
+      }
+
+      for (const dependency of normalizeDependsOn(config.dependsOn)) {
+        if (!configs.has(dependency.service)) {
+          return `${label}.dependsOn references unknown service "${dependency.service}"`;
+        }
+        if (dependency.condition === 'healthy' && !configs.get(dependency.service).readinessProbe) {
+          return `${label}.dependsOn: "${dependency.service}" has no readinessProbe, so it cannot be waited on with condition healthy`;
+        }
+      }
+    }
+
+    const cycle = findDependencyCycle(
+      [...configs.entries()].map(([serviceName, config]) => ({ serviceName, dependsOn: config.dependsOn }))
+    );
+    if (cycle) {
+      return `apps.${appId} has a dependsOn cycle: ${cycle.join(' -> ')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate the device config of a target state, returns an error message or null
+ */
+export function validateTargetStateConfig(config: Record<string, any> | undefined): string | null {
+  const imagePolicy = config?.imagePolicy;
+  if (imagePolicy !== undefined) {
+    if (!imagePolicy || typeof imagePolicy !== 'object') {
+      return 'config.imagePolicy must be an object';
+    }
+    if (!IMAGE_POLICY_MODES.includes(imagePolicy.mode)) {
+      return `config.imagePolicy.mode must be one of ${IMAGE_POLICY_MODES.join(', ')}`;
+    }
+    if (imagePolicy.mode !== 'off' && !isImageSigningConfigured()) {
+      return 'config.imagePolicy requires image signing (IMAGE_SIGNING_PRIVATE_KEY is not set on the API)';
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,234 @@
+/**
+ * Volume Backups
+ * Backup store for app volume snapshots uploaded by devices. Archives are
+ * kept as gzip tarballs under VOLUME_BACKUP_DIR; the newest
+ * VOLUME_BACKUP_RETENTION backups of each device volume are kept.
+ * Backups and restores are queued as jobs for the agent's built-in
+ * volume-backup and volume-restore handlers (templates from migration 077).
+ */
+
+import { randomUUID, createHash } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { query } from '../db/connection';
+import { jobRolloutController } from './job-rollout-controller';
+import logger from '../utils/logger';
+
+const moduleLogger = logger.child({ module: 'volume-backups' });
+
+export const VOLUME_BACKUP_DIR = process.env.VOLUME_BACKUP_DIR || path.join(process.cwd(), 'data', 'volume-backups');
+const RETENTION = parseInt(process.env.VOLUME_BACKUP_RETENTION || '7', 10);
+const MAX_BYTES = parseInt(process.env.VOLUME_BACKUP_MAX_BYTES || String(5 * 1024 * 1024 * 1024), 10);
+
+// Docker volume names as used in compose files
+const VOLUME_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+export interface VolumeBackupRecord {
+  id: number;
+  device_uuid: string | null;
+  source_device_name: string | null;
+  app_id: number;
+  volume_name: string;
+  size_bytes: number;
+  sha256: string;
+  storage_path: string;
+  created_at: Date;
+}
+
+const COLUMNS = 'id, device_uuid, source_device_name, app_id, volume_name, size_bytes, sha256, storage_path, created_at';
+
+export class BackupTooLargeError extends Error {
+  constructor() {
+    super(`Backup exceeds the maximum size of ${MAX_BYTES} bytes`);
+    this.name = 'BackupTooLargeError';
+  }
+}
+
+/**
+ * @returns error message, or null when valid
+ */
+export function validateVolumeRef(appId: unknown, volumeName: unknown): string | null {
+  if (!Number.isInteger(appId) || (appId as number) <= 0) {
+    return 'app_id must be a positive integer';
+  }
+  if (typeof volumeName !== 'string' || !VOLUME_NAME_PATTERN.test(volumeName)) {
+    return 'volume_name must be a valid volume name';
+  }
+  return null;
+}
+
+export function resolveBackupPath(backup: VolumeBackupRecord): string {
+  return path.join(VOLUME_BACKUP_DIR, backup.storage_path);
+}
+
+/**
+ * Store an uploaded archive and prune the volume's older backups
+ */
+export async function storeBackup(
+  deviceUuid: string,
+  deviceName: string | null,
+  appId: number,
+  volumeName: string,
+  upload: Readable,
+): Promise<VolumeBackupRecord> {
+  const storagePath = path.join(deviceUuid, `${randomUUID()}.tar.gz`);
+  const filePath = path.join(VOLUME_BACKUP_DIR, storagePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const hash = createHash('sha256');
+  let sizeBytes = 0;
+  try {
+    await pipeline(
+      upload,
+      new Transform({
+        transform(chunk, _encoding, callback) {
+          sizeBytes += chunk.length;
+          if (sizeBytes > MAX_BYTES) {
+            callback(new BackupTooLargeError());
+            return;
+          }
+          hash.update(chunk);
+          callback(null, chunk);
+        },
+      }),
+      createWriteStream(filePath),
+    );
+  } catch (error) {
+    await fs.rm(filePath, { force: true });
+    throw error;
+  }
+
+  const result = await query(
+    `INSERT INTO volume_backups (device_uuid, source_device_name, app_id, volume_name, size_bytes, sha256, storage_path)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING ${COLUMNS}`,
+    [deviceUuid, deviceName, appId, volumeName, sizeBytes, hash.digest('hex'), storagePath]
+  );
+
+  await pruneBackups(deviceUuid, appId, volumeName);
+  return result.rows[0];
+}
+
+/**
+ * Delete all but the newest RETENTION backups of a device volume
+ */
+async function pruneBackups(deviceUuid: string, appId: number, volumeName: string): Promise<void> {
+  const result = await query(
+    `SELECT ${COLUMNS} FROM volume_backups
+     WHERE device_uuid = $1 AND app_id = $2 AND volume_name = $3
+     ORDER BY created_at DESC, id DESC
+     OFFSET $4`,
+    [deviceUuid, appId, volumeName, RETENTION]
+  );
+
+  for (const backup of result.rows) {
+    await deleteBackup(backup);
+  }
+  if (result.rows.length > 0) {
+    moduleLogger.info('Pruned volume backups', { deviceUuid, appId, volumeName, count: result.rows.length });
+  }
+}
+
+export async function listBackups(deviceUuid: string): Promise<VolumeBackupRecord[]> {
+  const result = await query(
+    `SELECT ${COLUMNS} FROM volume_backups WHERE device_uuid = $1 ORDER BY created_at DESC, id DESC`,
+    [deviceUuid]
+  );
+  return result.rows;
+}
+
+export async function getBackup(id: number): Promise<VolumeBackupRecord | null> {
+  const result = await query(`SELECT ${COLUMNS} FROM volume_backups WHERE id = $1`, [id]);
+  return result.rows[0] || null;
+}
+
+export async function deleteBackup(backup: VolumeBackupRecord): Promise<void> {
+  await query('DELETE FROM volume_backups WHERE id = $1', [backup.id]);
+  await fs.rm(resolveBackupPath(backup), { force: true });
+}
+
+/**
+ * Devices may download their own backups and backups restored onto them
+ */
+export async function canDeviceDownload(backup: VolumeBackupRecord, deviceUuid: string): Promise<boolean> {
+  if (backup.device_uuid === deviceUuid) {
+    return true;
+  }
+  const result = await query(
+    'SELECT 1 FROM volume_backup_restores WHERE backup_id = $1 AND device_uuid = $2',
+    [backup.id, deviceUuid]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * Build a job document from a job template, substituting {{VAR}} placeholders
+ */
+async function renderTemplate(templateName: string, variables: Record<string, string>): Promise<any> {
+  const result = await query('SELECT job_document FROM job_templates WHERE name = $1', [templateName]);
+  if (result.rows.length === 0) {
+    throw new Error(`Job template ${templateName} not found`);
+  }
+
+  let document = JSON.stringify(result.rows[0].job_document);
+  for (const [name, value] of Object.entries(variables)) {
+    document = document.split(`{{${name}}}`).join(JSON.stringify(value).slice(1, -1));
+  }
+  return JSON.parse(document);
+}
+
+/**
+ * Queue a one-time job for a single device, like POST /jobs/execute
+ */
+async function queueDeviceJob(deviceUuid: string, jobName: string, jobDocument: any, createdBy: string): Promise<any> {
+  const jobId = randomUUID();
+  const jobResult = await query(
+    `INSERT INTO job_executions (
+      job_id, job_name, job_document, target_type, target_devices,
+      execution_type, timeout_minutes, total_devices, created_by
+    ) VALUES ($1, $2, $3, 'device', $4, 'oneTime', 60, 1, $5)
+    RETURNING *`,
+    [jobId, jobName, JSON.stringify(jobDocument), [deviceUuid], createdBy]
+  );
+
+  await query(
+    `INSERT INTO device_job_status (job_id, device_uuid, notified_at) VALUES ($1, $2, NULL)`,
+    [jobId, deviceUuid]
+  );
+
+  await jobRolloutController.dispatch(jobResult.rows[0]);
+  return jobResult.rows[0];
+}
+
+export async function requestBackup(
+  deviceUuid: string,
+  appId: number,
+  volumeName: string,
+  pauseService: boolean,
+  createdBy: string,
+): Promise<any> {
+  const jobDocument = await renderTemplate('volume-backup', {
+    APP_ID: String(appId),
+    VOLUME_NAME: volumeName,
+    PAUSE_SERVICE: String(pauseService),
+  });
+  return queueDeviceJob(deviceUuid, `Back up volume ${volumeName}`, jobDocument, createdBy);
+}
+
+/**
+ * Queue a restore of a backup onto a device (the source device or another one)
+ */
+export async function requestRestore(backup: VolumeBackupRecord, deviceUuid: string, createdBy: string): Promise<any> {
+  const jobDocument = await renderTemplate('volume-restore', { BACKUP_ID: String(backup.id) });
+
+  // Grant access before the job is dispatched, the device downloads right away
+  const grant = await query(
+    `INSERT INTO volume_backup_restores (backup_id, device_uuid, requested_by) VALUES ($1, $2, $3) RETURNING id`,
+    [backup.id, deviceUuid, createdBy]
+  );
+  const job = await queueDeviceJob(deviceUuid, `Restore volume ${backup.volume_name}`, jobDocument, createdBy);
+  await query('UPDATE volume_backup_restores SET job_id = $1 WHERE id = $2', [job.job_id, grant.rows[0].id]);
+  return job;
+}
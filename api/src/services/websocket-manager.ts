@@ -1,6 +1,7 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { Server as HTTPServer } from 'http';
 import { DeviceModel, DeviceMetricsModel, DeviceLogsModel } from '../db/models';
+import { query } from '../db/connection';
 import logger from '../utils/logger';
 import fetch from 'node-fetch';
 
@@ -609,6 +610,8 @@ export class WebSocketManager {
       case 'mqtt-topics':
         intervalTime = 10000; // 10 seconds
         break;
+      case 'rollouts':
+        return; // Push-based (rollout controller publishes progress)
       default:
         logger.warn(` Unknown global channel: ${channel}`);
         return;
@@ -641,6 +644,9 @@ export class WebSocketManager {
         case 'mqtt-topics':
           data = await this.fetchMqttTopics();
           break;
+        case 'rollouts':
+          data = await this.fetchActiveRollouts();
+          break;
         default:
           logger.warn(` Unknown global channel: ${channel}`);
           return;
@@ -690,6 +696,32 @@ export class WebSocketManager {
     }
   }
 
+  private async fetchActiveRollouts(): Promise<any> {
+    try {
+      // Dynamic import: rollout controller imports this module
+      const { rolloutController } = await import('./rollout-controller');
+      const result = await query(
+        `SELECT rollout_id FROM fleet_rollouts WHERE status IN ('IN_PROGRESS', 'PAUSED') ORDER BY created_at`
+      );
+      const rollouts = await Promise.all(result.rows.map(row => rolloutController.getProgress(row.rollout_id)));
+      return { rollouts: rollouts.filter(Boolean) };
+    } catch (error) {
+      logger.error(' Error fetching active rollouts:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Push rollout progress to clients subscribed to the global 'rollouts' channel
+   */
+  publishRolloutProgress(rollout: any): void {
+    this.broadcastGlobal({
+      type: 'rollouts',
+      data: { rollouts: [rollout] },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   private broadcastGlobal(message: WebSocketMessage): void {
     this.globalClients.forEach(ws => {
       const client = this.clients.get(ws);
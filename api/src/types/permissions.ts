@@ -133,6 +133,20 @@ export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
   ],
 };
 
+// Permissions that role bindings can limit to a fleet, tag selector or device
+export const DEVICE_SCOPED_PERMISSIONS: Permission[] = [
+  PERMISSIONS.DEVICE_READ,
+  PERMISSIONS.DEVICE_WRITE,
+  PERMISSIONS.DEVICE_DELETE,
+  PERMISSIONS.DEVICE_CONTROL,
+  PERMISSIONS.DATA_READ,
+  PERMISSIONS.DATA_EXPORT,
+  PERMISSIONS.DATA_DELETE,
+];
+
+// Roles that can be granted through a role binding (owner/admin are always global)
+export const BINDABLE_ROLES: Role[] = [ROLES.MANAGER, ROLES.OPERATOR, ROLES.VIEWER];
+
 // Helper function to check if a role has a permission
 export function roleHasPermission(role: Role, permission: Permission): boolean {
   return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
@@ -143,6 +157,14 @@ export function getPermissionsForRole(role: Role): Permission[] {
   return ROLE_PERMISSIONS[role] ?? [];
 }
 
+// Roles from least to most privileged
+const ROLE_ORDER: Role[] = [ROLES.VIEWER, ROLES.OPERATOR, ROLES.MANAGER, ROLES.ADMIN, ROLES.OWNER];
+
+// Helper function to check if a role ranks above another (unknown roles rank lowest)
+export function roleOutranks(role: string, other: string): boolean {
+  return ROLE_ORDER.indexOf(role as Role) > ROLE_ORDER.indexOf(other as Role);
+}
+
 // User type with permissions
 export interface UserWithPermissions {
   id: number;
@@ -150,6 +172,31 @@ export interface UserWithPermissions {
   email: string;
   role: Role;
   is_active: boolean;
+  mfa_enabled?: boolean;
+  auth_provider?: 'local' | 'oidc';
   created_at: string;
   last_login_at?: string;
 }
+
+// Role granted for a fleet, the devices matching a tag selector, or one device
+// (exactly one of fleetId, tagSelector, deviceUuid is set)
+export interface RoleBinding {
+  id: number;
+  userId: number;
+  role: Role;
+  fleetId: string | null;
+  tagSelector: Record<string, string> | null;
+  deviceUuid: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+// Permissions of a user: global ones from users.role, scoped ones from bindings
+export interface EffectiveAccess {
+  role: Role;
+  scoped: boolean;
+  globalPermissions: Permission[];
+  bindings: RoleBinding[];
+  // Set for personal access tokens: nothing outside these permissions is granted
+  tokenPermissions?: Permission[];
+}
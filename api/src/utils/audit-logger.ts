@@ -69,11 +69,31 @@ export enum AuditEventType {
   DEVICE_ONLINE = 'device_online',
   DEVICE_OFFLINE = 'device_offline',
   DEVICE_CONFIG_UPDATE = 'device_config_update',
+  DEVICE_REPLACED = 'device_replaced',
   
   // Key management
   API_KEY_CREATED = 'api_key_created',
   API_KEY_ROTATED = 'api_key_rotated',
   API_KEY_REVOKED = 'api_key_revoked',
+
+  // User MFA
+  MFA_ENROLLMENT_STARTED = 'mfa_enrollment_started',
+  MFA_ENABLED = 'mfa_enabled',
+  MFA_DISABLED = 'mfa_disabled',
+  MFA_VERIFIED = 'mfa_verified',
+  MFA_VERIFICATION_FAILED = 'mfa_verification_failed',
+  MFA_RECOVERY_CODE_USED = 'mfa_recovery_code_used',
+  MFA_RECOVERY_CODES_REGENERATED = 'mfa_recovery_codes_regenerated',
+  MFA_RESET = 'mfa_reset',
+  MFA_POLICY_UPDATED = 'mfa_policy_updated',
+
+  // Single sign-on
+  OIDC_LOGIN_FAILED = 'oidc_login_failed',
+  OIDC_ROLE_MAPPING_UPDATED = 'oidc_role_mapping_updated',
+
+  // Personal access tokens
+  PERSONAL_ACCESS_TOKEN_CREATED = 'personal_access_token_created',
+  PERSONAL_ACCESS_TOKEN_REVOKED = 'personal_access_token_revoked',
   
   // Security events
   RATE_LIMIT_EXCEEDED = 'rate_limit_exceeded',
@@ -0,0 +1,52 @@
+/**
+ * Secret Encryption
+ * Reversible encryption for secrets the API has to hand out again later
+ * (registry passwords), unlike user passwords which are only hashed.
+ *
+ * AES-256-GCM with a key derived from SECRETS_ENCRYPTION_KEY.
+ * Format: base64(iv):base64(authTag):base64(ciphertext)
+ */
+
+import crypto from 'crypto';
+import logger from './logger';
+
+const ALGORITHM = 'aes-256-gcm';
+const DEV_FALLBACK_KEY = 'dev-secrets-key-change-in-production';
+
+let cachedKey: Buffer | null = null;
+
+function getKey(): Buffer {
+  if (!cachedKey) {
+    const secret = process.env.SECRETS_ENCRYPTION_KEY;
+    if (!secret) {
+      logger.warn('SECRETS_ENCRYPTION_KEY is not set, using development fallback key');
+    }
+    cachedKey = crypto.createHash('sha256').update(secret || DEV_FALLBACK_KEY).digest();
+  }
+  return cachedKey;
+}
+
+/**
+ * Encrypt a secret for storage
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ * Throws if the payload was tampered with or the key changed
+ */
+export function decryptSecret(payload: string): string {
+  const [iv, tag, ciphertext] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Invalid encrypted secret format');
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,108 @@
+/**
+ * Webhook Target Checks
+ * Outgoing webhooks must not reach loopback, private or link-local addresses,
+ * so a webhook URL cannot be used to call services next to the API. Hosts in
+ * ALERT_WEBHOOK_ALLOWED_HOSTS (comma separated) are exempt, for receivers on
+ * the internal network.
+ */
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+const ALLOWED_HOSTS = (process.env.ALERT_WEBHOOK_ALLOWED_HOSTS || '')
+  .split(',')
+  .map((host) => host.trim().toLowerCase())
+  .filter((host) => host.length > 0);
+
+const INTERNAL_RANGES = new net.BlockList();
+INTERNAL_RANGES.addSubnet('0.0.0.0', 8, 'ipv4');
+INTERNAL_RANGES.addSubnet('10.0.0.0', 8, 'ipv4');
+INTERNAL_RANGES.addSubnet('100.64.0.0', 10, 'ipv4');
+INTERNAL_RANGES.addSubnet('127.0.0.0', 8, 'ipv4');
+INTERNAL_RANGES.addSubnet('169.254.0.0', 16, 'ipv4');
+INTERNAL_RANGES.addSubnet('172.16.0.0', 12, 'ipv4');
+INTERNAL_RANGES.addSubnet('192.168.0.0', 16, 'ipv4');
+INTERNAL_RANGES.addSubnet('224.0.0.0', 3, 'ipv4');
+INTERNAL_RANGES.addSubnet('::', 127, 'ipv6');
+INTERNAL_RANGES.addSubnet('fc00::', 7, 'ipv6');
+INTERNAL_RANGES.addSubnet('fe80::', 10, 'ipv6');
+INTERNAL_RANGES.addSubnet('ff00::', 8, 'ipv6');
+
+function isAllowedHost(hostname: string): boolean {
+  return ALLOWED_HOSTS.includes(hostname.toLowerCase());
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not public
+ */
+export function isInternalAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1)
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return INTERNAL_RANGES.check(mapped[1], 'ipv4');
+  }
+
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return INTERNAL_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check the host of a webhook URL without resolving it: literal internal
+ * addresses and localhost names are refused
+ * @returns error message, or null when the URL may be used
+ */
+export function checkWebhookUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'url must be a valid URL';
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isAllowedHost(hostname)) {
+    return null;
+  }
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')
+    || (net.isIP(hostname) && isInternalAddress(hostname))) {
+    return 'url must not point to a loopback, private or link-local address';
+  }
+  return null;
+}
+
+// Resolves like dns.lookup, but fails for internal addresses. Used as the
+// agents' lookup so the check applies to the address actually connected to.
+function publicOnlyLookup(hostname: string, options: any, callback: any): void {
+  dns.lookup(hostname, options, (err: NodeJS.ErrnoException | null, address: any, family?: number) => {
+    if (err) {
+      return callback(err, address, family);
+    }
+
+    const addresses: string[] = Array.isArray(address) ? address.map((entry) => entry.address) : [address];
+    const internal = addresses.find((entry) => isInternalAddress(entry));
+    if (internal) {
+      return callback(new Error(`Webhook host ${hostname} resolves to internal address ${internal}`));
+    }
+    callback(null, address, family);
+  });
+}
+
+const publicHttpAgent = new http.Agent({ lookup: publicOnlyLookup as any });
+const publicHttpsAgent = new https.Agent({ lookup: publicOnlyLookup as any });
+
+/**
+ * HTTP agents for a webhook request: they refuse internal addresses unless
+ * the host is in ALERT_WEBHOOK_ALLOWED_HOSTS
+ */
+export function webhookAgents(value: string): { httpAgent?: http.Agent; httpsAgent?: https.Agent } {
+  if (isAllowedHost(new URL(value).hostname.replace(/^\[|\]$/g, ''))) {
+    return {};
+  }
+  return { httpAgent: publicHttpAgent, httpsAgent: publicHttpsAgent };
+}
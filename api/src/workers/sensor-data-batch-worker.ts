@@ -0,0 +1,349 @@
+/**
+ * Sensor Data Batch Worker
+ *
+ * Buffers sensor readings received over MQTT and batch writes them to the
+ * partitioned sensor_data table, instead of one INSERT per reading.
+ *
+ * Architecture:
+ * - handleSensorData() enqueues readings into an in-memory buffer
+ * - Buffer is flushed every flush interval, or as soon as it holds a full batch
+ * - Each flush writes up to batchSize rows per multi-row INSERT (unnest arrays)
+ * - Failed batches are retried; on the last attempt rows are written one by one
+ *   so a single bad reading (e.g. no partition for its timestamp) is dropped alone
+ * - When the buffer reaches maxBufferSize new readings are dropped and counted
+ * - Readings timestamped outside the partitioned range (older than maxAgeDays
+ *   or more than a day ahead, e.g. a device without RTC at 1970) are dropped as
+ *   invalid, so they cannot fail the batch they are in
+ *
+ * Counters are exposed on GET /api/v1/mqtt/metrics (ingestion.sensorData).
+ */
+
+import { query } from '../db/connection';
+import logger from '../utils/logger';
+
+export interface SensorReading {
+  deviceUuid: string;
+  sensorName: string;
+  data: any;
+  timestamp: string;   // ISO 8601
+  metadata: any;
+}
+
+interface BufferedReading extends SensorReading {
+  attempts: number;
+}
+
+export type SensorDropReason = 'bufferFull' | 'invalid' | 'insertFailed';
+
+const MAX_ATTEMPTS = 3;
+const MAX_FUTURE_MS = 24 * 60 * 60 * 1000;
+
+export class SensorDataBatchWorker {
+  private isRunning: boolean = false;
+  private flushInProgress: Promise<void> | null = null;
+  private intervalId: NodeJS.Timeout | null = null;
+  private buffer: BufferedReading[] = [];
+  private readonly flushInterval: number; // ms between flushes
+  private readonly batchSize: number; // max rows per INSERT
+  private readonly maxBufferSize: number; // readings held before dropping
+  private readonly maxAgeDays: number; // oldest accepted reading (partitions kept back)
+
+  // Counters (since start)
+  private received = 0;
+  private inserted = 0;
+  private duplicates = 0;
+  private dropped: Record<SensorDropReason, number> = { bufferFull: 0, invalid: 0, insertFailed: 0 };
+  private backpressureActive = false;
+  private backpressureEvents = 0;
+  private flushes = 0;
+  private failedFlushes = 0;
+  private lastFlushAt: Date | null = null;
+  private lastFlushDurationMs = 0;
+
+  constructor(
+    flushInterval: number = 1000, // 1 second
+    batchSize: number = 500, // 500 readings per INSERT
+    maxBufferSize: number = 50000, // ~50 batches
+    maxAgeDays: number = 7 // partitions pre-created back from today
+  ) {
+    this.flushInterval = flushInterval;
+    this.batchSize = batchSize;
+    this.maxBufferSize = maxBufferSize;
+    this.maxAgeDays = maxAgeDays;
+  }
+
+  /**
+   * Start the worker
+   */
+  public start(): void {
+    if (this.isRunning) {
+      logger.warn('Sensor data batch worker already running');
+      return;
+    }
+
+    this.isRunning = true;
+    this.intervalId = setInterval(() => {
+      this.flush().catch(error => {
+        logger.error('Sensor data flush failed', { error: error.message });
+      });
+    }, this.flushInterval);
+
+    logger.info('Sensor data batch worker started', {
+      flushInterval: this.flushInterval,
+      batchSize: this.batchSize,
+      maxBufferSize: this.maxBufferSize,
+      maxAgeDays: this.maxAgeDays
+    });
+  }
+
+  /**
+   * Stop the worker, flushing what is still buffered. Waits for a flush in
+   * progress, then drains the buffer; gives up after MAX_ATTEMPTS failed
+   * flushes (database unavailable).
+   */
+  public async stop(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    const failedBefore = this.failedFlushes;
+    await this.flush();
+    while (this.buffer.length > 0 && this.failedFlushes - failedBefore < MAX_ATTEMPTS) {
+      await this.flush();
+    }
+
+    logger.info('Sensor data batch worker stopped', { unflushed: this.buffer.length });
+  }
+
+  /**
+   * Buffer readings for the next flush. Never blocks the MQTT handler.
+   */
+  public enqueue(readings: SensorReading[]): void {
+    const now = Date.now();
+    const earliest = now - this.maxAgeDays * 24 * 60 * 60 * 1000;
+    const latest = now + MAX_FUTURE_MS;
+
+    for (const reading of readings) {
+      this.received++;
+
+      const time = new Date(reading.timestamp);
+      const ms = time.getTime();
+      if (!reading.deviceUuid || !reading.sensorName || isNaN(ms) || ms < earliest || ms > latest) {
+        this.dropped.invalid++;
+        continue;
+      }
+
+      if (this.buffer.length >= this.maxBufferSize) {
+        this.dropped.bufferFull++;
+        continue;
+      }
+
+      this.buffer.push({ ...reading, timestamp: time.toISOString(), attempts: 0 });
+    }
+
+    this.updateBackpressure();
+
+    if (this.isRunning && this.buffer.length >= this.batchSize) {
+      this.flush().catch(error => {
+        logger.error('Sensor data flush failed', { error: error.message });
+      });
+    }
+  }
+
+  /**
+   * Count a reading that could not be parsed before reaching the buffer
+   */
+  public recordInvalid(count: number = 1): void {
+    this.received += count;
+    this.dropped.invalid += count;
+  }
+
+  /**
+   * Write buffered readings in batches. While a flush is running, callers
+   * wait for that flush instead of starting another.
+   */
+  public flush(): Promise<void> {
+    if (this.flushInProgress) {
+      return this.flushInProgress;
+    }
+    if (this.buffer.length === 0) {
+      return Promise.resolve();
+    }
+
+    this.flushInProgress = this.writeBuffer().finally(() => {
+      this.flushInProgress = null;
+    });
+    return this.flushInProgress;
+  }
+
+  private async writeBuffer(): Promise<void> {
+    const startTime = Date.now();
+    const retry: BufferedReading[] = [];
+
+    try {
+      while (this.buffer.length > 0) {
+        const batch = this.buffer.splice(0, this.batchSize);
+
+        try {
+          if (batch.some(reading => reading.attempts >= MAX_ATTEMPTS - 1)) {
+            await this.insertIndividually(batch);
+          } else {
+            await this.insertBatch(batch);
+          }
+        } catch (error: any) {
+          this.failedFlushes++;
+          logger.warn('Sensor data batch insert failed, will retry', {
+            rows: batch.length,
+            error: error.message
+          });
+          batch.forEach(reading => reading.attempts++);
+          retry.push(...batch);
+          // Stop for now; the database is likely unavailable
+          break;
+        }
+      }
+    } finally {
+      // Failed rows go back in front of anything that arrived meanwhile
+      this.buffer.unshift(...retry);
+      if (this.buffer.length > this.maxBufferSize) {
+        const overflow = this.buffer.splice(this.maxBufferSize);
+        this.dropped.bufferFull += overflow.length;
+      }
+
+      this.flushes++;
+      this.lastFlushAt = new Date();
+      this.lastFlushDurationMs = Date.now() - startTime;
+      this.updateBackpressure();
+    }
+  }
+
+  /**
+   * Multi-row insert of one batch
+   */
+  private async insertBatch(batch: BufferedReading[]): Promise<void> {
+    const result = await query(
+      `INSERT INTO sensor_data (device_uuid, sensor_name, data, timestamp, metadata)
+       SELECT * FROM unnest($1::uuid[], $2::varchar[], $3::jsonb[], $4::timestamp[], $5::jsonb[])
+       ON CONFLICT DO NOTHING`,
+      [
+        batch.map(r => r.deviceUuid),
+        batch.map(r => r.sensorName),
+        batch.map(r => JSON.stringify(r.data)),
+        batch.map(r => r.timestamp),
+        batch.map(r => JSON.stringify(r.metadata || {}))
+      ]
+    );
+
+    const insertedRows = result.rowCount || 0;
+    this.inserted += insertedRows;
+    this.duplicates += batch.length - insertedRows;
+  }
+
+  /**
+   * Last attempt: write rows one at a time and drop the ones that still fail
+   */
+  private async insertIndividually(batch: BufferedReading[]): Promise<void> {
+    for (const reading of batch) {
+      try {
+        await this.insertBatch([reading]);
+      } catch (error: any) {
+        this.dropped.insertFailed++;
+        logger.error('Dropped sensor reading after retries', {
+          deviceUuid: reading.deviceUuid.substring(0, 8),
+          sensorName: reading.sensorName,
+          timestamp: reading.timestamp,
+          error: error.message
+        });
+      }
+    }
+  }
+
+  /**
+   * Backpressure is on while the buffer is above 80% of its capacity
+   */
+  private updateBackpressure(): void {
+    const active = this.buffer.length >= this.maxBufferSize * 0.8;
+
+    if (active && !this.backpressureActive) {
+      this.backpressureEvents++;
+      logger.warn('Sensor data ingestion backpressure', {
+        buffered: this.buffer.length,
+        maxBufferSize: this.maxBufferSize
+      });
+    } else if (!active && this.backpressureActive) {
+      logger.info('Sensor data ingestion backpressure cleared', { buffered: this.buffer.length });
+    }
+
+    this.backpressureActive = active;
+  }
+
+  /**
+   * Get worker status and counters
+   */
+  public getStatus() {
+    return {
+      running: this.isRunning,
+      flushInterval: this.flushInterval,
+      batchSize: this.batchSize,
+      maxBufferSize: this.maxBufferSize,
+      maxAgeDays: this.maxAgeDays,
+      buffered: this.buffer.length,
+      backpressure: {
+        active: this.backpressureActive,
+        events: this.backpressureEvents,
+        bufferUtilization: this.buffer.length / this.maxBufferSize
+      },
+      received: this.received,
+      inserted: this.inserted,
+      duplicates: this.duplicates,
+      dropped: {
+        ...this.dropped,
+        total: this.dropped.bufferFull + this.dropped.invalid + this.dropped.insertFailed
+      },
+      flushes: this.flushes,
+      failedFlushes: this.failedFlushes,
+      lastFlushAt: this.lastFlushAt,
+      lastFlushDurationMs: this.lastFlushDurationMs
+    };
+  }
+}
+
+// Singleton instance
+let workerInstance: SensorDataBatchWorker | null = null;
+
+/**
+ * Get or create worker instance
+ */
+export function getSensorDataBatchWorker(): SensorDataBatchWorker {
+  if (!workerInstance) {
+    workerInstance = new SensorDataBatchWorker(
+      parseInt(process.env.SENSOR_BATCH_INTERVAL || '1000', 10),
+      parseInt(process.env.SENSOR_BATCH_SIZE || '500', 10),
+      parseInt(process.env.SENSOR_BUFFER_MAX || '50000', 10),
+      parseInt(process.env.SENSOR_MAX_AGE_DAYS || '7', 10)
+    );
+  }
+  return workerInstance;
+}
+
+/**
+ * Start worker (called from index.ts)
+ */
+export function startSensorDataBatchWorker(): void {
+  getSensorDataBatchWorker().start();
+}
+
+/**
+ * Stop worker (called from shutdown handlers)
+ */
+export async function stopSensorDataBatchWorker(): Promise<void> {
+  if (workerInstance) {
+    await workerInstance.stop();
+  }
+}
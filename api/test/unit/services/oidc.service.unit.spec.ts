@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+
+jest.mock('../../../src/db/connection', () => ({ query: jest.fn() }));
+jest.mock('../../../src/config/system-config', () => ({
+  SystemConfig: {
+    get: jest.fn(async (_key: string, defaultValue: unknown) => defaultValue),
+    set: jest.fn(),
+  },
+}));
+jest.mock('../../../src/utils/logger', () => {
+  const logger: any = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+  logger.child = () => logger;
+  return { __esModule: true, default: logger, logger };
+});
+
+import { query } from '../../../src/db/connection';
+
+type OidcService = typeof import('../../../src/services/oidc.service');
+
+const CLIENT_ID = 'iotistic-dashboard';
+const NONCE = 'test-nonce';
+const KID = 'test-key';
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+/**
+ * Mock OIDC issuer: discovery document, JWKS and a token endpoint that
+ * returns whatever ID token the test sets
+ */
+class MockIssuer {
+  readonly keys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  url = '';
+  idToken = '';
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  sign(claims: Record<string, any>, options: jwt.SignOptions = {}): string {
+    return jwt.sign(
+      { nonce: NONCE, email: 'jane@example.com', groups: ['iot-operators'], ...claims },
+      this.keys.privateKey,
+      { algorithm: 'RS256', keyid: KID, issuer: this.url, audience: CLIENT_ID, subject: 'user-1', expiresIn: '5m', ...options }
+    );
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const send = (body: unknown) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+      return send({
+        issuer: this.url,
+        authorization_endpoint: `${this.url}/authorize`,
+        token_endpoint: `${this.url}/token`,
+        jwks_uri: `${this.url}/jwks`,
+      });
+    }
+    if (req.url === '/jwks') {
+      return send({ keys: [{ ...this.keys.publicKey.export({ format: 'jwk' }), kid: KID, alg: 'RS256', use: 'sig' }] });
+    }
+    if (req.url === '/token' && req.method === 'POST') {
+      return send({ id_token: this.idToken });
+    }
+    res.statusCode = 404;
+    res.end();
+  }
+}
+
+// Database of a fresh install: the login request exists, no users yet
+function mockDatabase(): { createdUsers: any[][] } {
+  const createdUsers: any[][] = [];
+  mockQuery.mockImplementation((async (sql: string, params?: any[]) => {
+    if (sql.includes('DELETE FROM oidc_auth_requests')) {
+      return { rows: [{ code_verifier: 'verifier', nonce: NONCE, redirect_path: '/devices' }] };
+    }
+    if (sql.includes('INSERT INTO users')) {
+      createdUsers.push(params!);
+      return { rows: [{ id: 1, username: params![0], email: params![1], role: params![3] }] };
+    }
+    return { rows: [] };
+  }) as any);
+  return { createdUsers };
+}
+
+describe('OIDC service', () => {
+  const issuer = new MockIssuer();
+  let oidc: OidcService;
+
+  beforeAll(async () => {
+    await issuer.start();
+    process.env.OIDC_ISSUER_URL = issuer.url;
+    process.env.OIDC_CLIENT_ID = CLIENT_ID;
+    process.env.OIDC_REDIRECT_URI = 'http://localhost:3002/api/v1/auth/oidc/callback';
+    process.env.OIDC_ROLE_MAPPING = 'iot-admins=admin,iot-operators=operator';
+    delete process.env.OIDC_DEFAULT_ROLE;
+    oidc = await import('../../../src/services/oidc.service');
+  });
+
+  afterAll(async () => {
+    await issuer.stop();
+  });
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  describe('resolveRole', () => {
+    const mapping = { 'iot-admins': 'admin', 'iot-operators': 'operator', 'iot-viewers': 'viewer' } as const;
+
+    it('returns the highest mapped role', () => {
+      expect(oidc.resolveRole(['iot-viewers', 'iot-admins', 'iot-operators'], mapping)).toBe('admin');
+    });
+
+    it('ignores groups that are not mapped', () => {
+      expect(oidc.resolveRole(['everyone', 'iot-viewers'], mapping)).toBe('viewer');
+    });
+
+    it('denies login when no group is mapped and there is no default role', () => {
+      expect(oidc.resolveRole(['everyone'], mapping)).toBeNull();
+      expect(oidc.resolveRole([], mapping)).toBeNull();
+    });
+
+    it('falls back to OIDC_DEFAULT_ROLE when no group is mapped', () => {
+      process.env.OIDC_DEFAULT_ROLE = 'viewer';
+      jest.isolateModules(() => {
+        const { resolveRole } = require('../../../src/services/oidc.service') as OidcService;
+        expect(resolveRole(['everyone'], mapping)).toBe('viewer');
+        expect(resolveRole(['iot-operators'], mapping)).toBe('operator');
+      });
+      delete process.env.OIDC_DEFAULT_ROLE;
+    });
+  });
+
+  describe('checkRoleMappingChange', () => {
+    const current = { 'iot-owners': 'owner', 'iot-admins': 'admin' } as const;
+
+    it('lets admins change groups below owner and keep owner entries', () => {
+      expect(oidc.checkRoleMappingChange({ ...current, 'iot-viewers': 'viewer' }, current, 'admin')).toBeNull();
+    });
+
+    it('refuses admins adding, changing or removing owner entries', () => {
+      expect(oidc.checkRoleMappingChange({ ...current, 'iot-admins': 'owner' }, current, 'admin')).toMatch(/owner role/);
+      expect(oidc.checkRoleMappingChange({ ...current, 'iot-owners': 'viewer' }, current, 'admin')).toMatch(/owner role/);
+      expect(oidc.checkRoleMappingChange({ 'iot-admins': 'admin' }, current, 'admin')).toMatch(/owner role/);
+    });
+
+    it('lets owners change owner entries', () => {
+      expect(oidc.checkRoleMappingChange({ 'iot-admins': 'owner' }, current, 'owner')).toBeNull();
+    });
+  });
+
+  describe('handleCallback', () => {
+    it('provisions the user with the mapped role from a valid ID token', async () => {
+      const { createdUsers } = mockDatabase();
+      issuer.idToken = issuer.sign({});
+
+      const result = await oidc.handleCallback('code', 'state');
+
+      expect(result.redirectPath).toBe('/devices');
+      expect(result.exchangeCode).toBeTruthy();
+      expect(createdUsers).toHaveLength(1);
+      expect(createdUsers[0][1]).toBe('jane@example.com');
+      expect(createdUsers[0][3]).toBe('operator');
+      expect(createdUsers[0][5]).toBe(issuer.url);
+      expect(createdUsers[0][6]).toBe('user-1');
+    });
+
+    it('rejects an ID token with another nonce', async () => {
+      mockDatabase();
+      issuer.idToken = issuer.sign({ nonce: 'replayed' });
+
+      await expect(oidc.handleCallback('code', 'state')).rejects.toThrow('ID token nonce mismatch');
+    });
+
+    it('rejects an ID token for another client', async () => {
+      mockDatabase();
+      issuer.idToken = issuer.sign({}, { audience: 'other-client' });
+
+      await expect(oidc.handleCallback('code', 'state')).rejects.toThrow(/ID token rejected: jwt audience invalid/);
+    });
+
+    it('rejects an ID token from another issuer', async () => {
+      mockDatabase();
+      issuer.idToken = issuer.sign({}, { issuer: 'https://evil.example.com' });
+
+      await expect(oidc.handleCallback('code', 'state')).rejects.toThrow(/ID token rejected: jwt issuer invalid/);
+    });
+
+    it('rejects an expired ID token', async () => {
+      mockDatabase();
+      issuer.idToken = issuer.sign({}, { expiresIn: -60 });
+
+      await expect(oidc.handleCallback('code', 'state')).rejects.toThrow(/ID token rejected: jwt expired/);
+    });
+
+    it('rejects an ID token signed with a key the issuer does not publish', async () => {
+      mockDatabase();
+      const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      issuer.idToken = jwt.sign({ nonce: NONCE, groups: ['iot-operators'] }, privateKey, {
+        algorithm: 'RS256', keyid: KID, issuer: issuer.url, audience: CLIENT_ID, subject: 'user-1', expiresIn: '5m',
+      });
+
+      await expect(oidc.handleCallback('code', 'state')).rejects.toThrow(/ID token rejected: invalid signature/);
+    });
+
+    it('rejects an ID token with an unknown key id', async () => {
+      mockDatabase();
+      issuer.idToken = issuer.sign({}, { keyid: 'rotated-away' });
+
+      await expect(oidc.handleCallback('code', 'state')).rejects.toThrow('ID token signing key not found');
+    });
+
+    it('rejects an HMAC-signed ID token', async () => {
+      mockDatabase();
+      issuer.idToken = jwt.sign({ nonce: NONCE, groups: ['iot-operators'] }, 'shared-secret', {
+        algorithm: 'HS256', keyid: KID, issuer: issuer.url, audience: CLIENT_ID, subject: 'user-1', expiresIn: '5m',
+      });
+
+      await expect(oidc.handleCallback('code', 'state')).rejects.toThrow(/ID token rejected/);
+    });
+
+    it('denies login when none of the groups is mapped', async () => {
+      const { createdUsers } = mockDatabase();
+      issuer.idToken = issuer.sign({ groups: ['everyone'] });
+
+      await expect(oidc.handleCallback('code', 'state')).rejects.toThrow(/None of your groups is allowed/);
+      expect(createdUsers).toHaveLength(0);
+    });
+  });
+});
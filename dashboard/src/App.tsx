@@ -111,6 +111,7 @@ export default function App() {
             : (apiDevice.is_online ? 'online' : 'offline'),
           ipAddress: apiDevice.ip_address || 'N/A',
           macAddress: apiDevice.mac_address || 'N/A',
+          certificateFingerprint: apiDevice.certificate_fingerprint || undefined,
           lastSeen: formatLastSeen(apiDevice.last_connectivity_event),
           lastConnectivity: apiDevice.last_connectivity_event,
           cpu: Math.round(parseFloat(apiDevice.cpu_usage) || 0),
@@ -3,7 +3,7 @@ import { Plus, CheckCircle2, XCircle, Clock, Play, Pause, MoreVertical, Pen,  Tr
 import { Card } from "./ui/card";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
-import { useDeviceState } from "@/contexts/DeviceStateContext";
+import { useDeviceState, type UpdatePending } from "@/contexts/DeviceStateContext";
 import {
   Dialog,
   DialogContent,
@@ -65,6 +65,7 @@ export interface Application {
   image: string;
   status: "running" | "stopped" | "syncing";
   syncStatus: "synced" | "syncing" | "error" | "pending";
+  updatePending?: UpdatePending; // Device is deferring this app's update
   port?: string;
   uptime?: string;
   services: Service[];
@@ -78,6 +79,18 @@ const statusColors = {
   pending: "bg-yellow-100 text-yellow-700 border-yellow-200",
 };
 
+const updatePendingLabels: Record<UpdatePending["reason"], string> = {
+  "maintenance-window": "pending (waiting for window)",
+  "update-lock": "pending (update locked)",
+};
+
+function updatePendingTitle(pending: UpdatePending): string {
+  if (pending.nextWindowAt) {
+    return `${pending.message}, next window ${new Date(pending.nextWindowAt).toLocaleString()}`;
+  }
+  return pending.message;
+}
+
 const syncStatusIcons = {
   synced: CheckCircle2,
   syncing: Clock,
@@ -98,6 +111,7 @@ export function ApplicationsCard({
   const {
     getPendingApps,
     getTargetApps,
+    getCurrentApps,
     updatePendingService,
     addPendingApp,
     updatePendingApp,
@@ -109,6 +123,7 @@ export function ApplicationsCard({
   // Get apps from context (pending if exists, otherwise target)
   const pendingApps = getPendingApps(deviceUuid);
   const targetApps = getTargetApps(deviceUuid);
+  const currentApps = getCurrentApps(deviceUuid);
   const apps = Object.keys(pendingApps).length > 0 ? pendingApps : targetApps;
   const hasUnsavedChanges = hasPendingChanges(deviceUuid);
   
@@ -124,6 +139,7 @@ export function ApplicationsCard({
     image: app.services[0]?.imageName || "",
     status: app.services.some(s => s.state === "running") ? "running" as const : "stopped" as const,
     syncStatus: syncStatus, // Use centralized sync status
+    updatePending: currentApps[appId]?.updatePending,
     services: app.services.map(s => ({
       ...s,
       appId: app.appId,
@@ -475,7 +491,13 @@ export function ApplicationsCard({
         ) : (
           <div className="space-y-3">
             {applications.map((app) => {
-              const SyncIcon = syncStatusIcons[app.syncStatus];
+              // A deferred update shows as pending even though the device has the new target
+              const SyncIcon = app.updatePending ? syncStatusIcons.pending : syncStatusIcons[app.syncStatus];
+              const syncColor = app.updatePending ? "text-yellow-600" :
+                app.syncStatus === "synced" ? "text-green-600" :
+                app.syncStatus === "error" ? "text-red-600" :
+                app.syncStatus === "syncing" ? "text-blue-600" :
+                "text-yellow-600";
               return (
                 <div
                   key={app.id}
@@ -488,20 +510,13 @@ export function ApplicationsCard({
                       <div className="flex-1 min-w-0">
                         <h4 className="text-foreground font-medium mb-1">{app.appName || app.name}</h4>
                         <div className="flex items-center gap-2 flex-wrap">
-                          <div className="flex items-center gap-1">
-                            <SyncIcon className={`w-3 h-3 ${
-                              app.syncStatus === "synced" ? "text-green-600" :
-                              app.syncStatus === "error" ? "text-red-600" :
-                              app.syncStatus === "syncing" ? "text-blue-600" :
-                              "text-yellow-600"
-                            }`} />
-                            <span className={`text-xs ${
-                              app.syncStatus === "synced" ? "text-green-600" :
-                              app.syncStatus === "error" ? "text-red-600" :
-                              app.syncStatus === "syncing" ? "text-blue-600" :
-                              "text-yellow-600"
-                            }`}>
-                              {app.syncStatus}
+                          <div
+                            className="flex items-center gap-1"
+                            title={app.updatePending ? updatePendingTitle(app.updatePending) : undefined}
+                          >
+                            <SyncIcon className={`w-3 h-3 ${syncColor}`} />
+                            <span className={`text-xs ${syncColor}`}>
+                              {app.updatePending ? updatePendingLabels[app.updatePending.reason] : app.syncStatus}
                             </span>
                           </div>
                           {app.services && app.services.length > 0 && (
@@ -74,7 +74,10 @@ export const DeviceMappingPanel: React.FC<DeviceMappingPanelProps> = ({
 
       // Load devices and mappings in parallel
       const [devicesRes, mappingsRes] = await Promise.all([
-        axios.get<{ devices: Device[] }>(`${API_BASE_URL}/api/v1/devices`),
+        // Device list is filtered to the user's device scope, so it needs the JWT
+        axios.get<{ devices: Device[] }>(`${API_BASE_URL}/api/v1/devices`, {
+          headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
+        }),
         axios.get<{ success: boolean; data: DeviceMapping[] }>(
           `${API_BASE_URL}/api/v1/digital-twin/graph/device-mappings`
         ),
@@ -29,6 +29,7 @@ export interface Device {
   status: "online" | "offline" | "warning" | "pending";
   ipAddress: string;
   macAddress?: string;
+  certificateFingerprint?: string; // SHA-256 of the active client certificate (hex)
   lastSeen: string;
   lastConnectivity?: string; // Store raw timestamp
   cpu: number;
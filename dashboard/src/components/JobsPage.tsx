@@ -7,6 +7,7 @@ import { MetricCard } from "./ui/metric-card";
 import { Badge } from "./ui/badge";
 import { Device } from "./DeviceSidebar";
 import JobsCard from "./JobsCard";
+import VolumeBackupsCard from "./VolumeBackupsCard";
 import { CheckCircle2, XCircle, Clock, PlayCircle, Activity, AlertTriangle } from "lucide-react";
 import { buildApiUrl } from "@/config/api";
 
@@ -138,6 +139,9 @@ export function JobsPage({ device }: JobsPageProps) {
 
         {/* Jobs Card */}
         <JobsCard deviceUuid={device.deviceUuid} deviceStatus={device.status} />
+
+        {/* Volume Backups */}
+        <VolumeBackupsCard deviceUuid={device.deviceUuid} deviceStatus={device.status} />
       </div>
     </div>
   );
@@ -0,0 +1,185 @@
+/**
+ * MFA Enrollment - Scan the QR code, confirm a code, save the recovery codes.
+ * Used from the profile page, and at login when the user's role requires MFA.
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Alert, AlertDescription } from './ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+import { AlertCircle, Copy, Loader2 } from 'lucide-react';
+import { buildApiUrl } from '@/config/api';
+
+export interface MfaActivationResult {
+  recoveryCodes: string[];
+  accessToken?: string;
+  refreshToken?: string;
+  user?: any;
+}
+
+interface MfaEnrollmentProps {
+  // MFA token from the login response; without it the stored access token is used
+  mfaToken?: string;
+  onComplete: (result: MfaActivationResult) => void;
+  onCancel?: () => void;
+}
+
+function authHeaders(mfaToken?: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (!mfaToken) {
+    headers.Authorization = `Bearer ${localStorage.getItem('accessToken')}`;
+  }
+  return headers;
+}
+
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each code can be used once to sign in
+        if you lose your authenticator. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => navigator.clipboard.writeText(codes.join('\n'))}
+      >
+        <Copy className="h-4 w-4 mr-2" />
+        Copy codes
+      </Button>
+    </div>
+  );
+}
+
+export function MfaEnrollment({ mfaToken, onComplete, onCancel }: MfaEnrollmentProps) {
+  const [qrCode, setQrCode] = useState('');
+  const [secret, setSecret] = useState('');
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<MfaActivationResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const startSetup = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(buildApiUrl('/api/v1/auth/mfa/setup'), {
+          method: 'POST',
+          headers: authHeaders(mfaToken),
+          body: JSON.stringify(mfaToken ? { mfaToken } : {}),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || data.error || 'Failed to start MFA setup');
+        }
+
+        setQrCode(data.data.qrCode);
+        setSecret(data.data.secret);
+      } catch (err: any) {
+        setError(err.message || 'Failed to start MFA setup');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    startSetup();
+  }, [mfaToken]);
+
+  const handleActivate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(buildApiUrl('/api/v1/auth/mfa/activate'), {
+        method: 'POST',
+        headers: authHeaders(mfaToken),
+        body: JSON.stringify(mfaToken ? { mfaToken, code } : { code }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to enable MFA');
+      }
+
+      setResult(data.data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to enable MFA');
+      setCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={result.recoveryCodes} />
+        <Button type="button" className="w-full" onClick={() => onComplete(result)}>
+          I have saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleActivate} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        Scan the QR code with an authenticator app (Google Authenticator, 1Password, Authy, ...),
+        then enter the 6-digit code it shows.
+      </p>
+
+      <div className="flex justify-center">
+        {qrCode ? (
+          <img src={qrCode} alt="MFA QR code" className="h-48 w-48" />
+        ) : (
+          <div className="flex h-48 w-48 items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        )}
+      </div>
+
+      {secret && (
+        <p className="text-center text-xs text-muted-foreground">
+          Or enter this key manually: <span className="font-mono break-all">{secret}</span>
+        </p>
+      )}
+
+      <div className="flex justify-center">
+        <InputOTP maxLength={6} value={code} onChange={setCode} disabled={isLoading || !secret}>
+          <InputOTPGroup>
+            {[0, 1, 2, 3, 4, 5].map((index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      <div className="flex gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" className="flex-1" onClick={onCancel} disabled={isLoading}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" className="flex-1" disabled={isLoading || code.length !== 6}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Enable MFA
+        </Button>
+      </div>
+    </form>
+  );
+}
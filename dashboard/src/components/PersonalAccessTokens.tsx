@@ -0,0 +1,318 @@
+/**
+ * Personal Access Tokens - Create, list and revoke the user's API tokens.
+ * A new token is shown once; only its prefix is listed afterwards.
+ */
+
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Checkbox } from './ui/checkbox';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { AlertCircle, Copy, KeyRound, Loader2, Plus } from 'lucide-react';
+import { buildApiUrl } from '@/config/api';
+
+interface PersonalAccessToken {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  permissions: string[];
+  ipAllowlist: string[] | null;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: '7', label: '7 days' },
+  { days: '30', label: '30 days' },
+  { days: '90', label: '90 days' },
+  { days: '365', label: '1 year' },
+];
+
+async function tokenRequest(path: string, init: RequestInit = {}) {
+  const response = await fetch(buildApiUrl(`/api/v1/users/me/tokens${path}`), {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
+    },
+  });
+  const data = response.status === 204 ? null : await response.json();
+
+  if (!response.ok) {
+    throw new Error(data?.message || data?.error || 'Request failed');
+  }
+  return data;
+}
+
+function tokenStatus(token: PersonalAccessToken): { label: string; variant: 'default' | 'secondary' | 'destructive' } {
+  if (token.revokedAt) return { label: 'Revoked', variant: 'secondary' };
+  if (new Date(token.expiresAt) < new Date()) return { label: 'Expired', variant: 'secondary' };
+  return { label: 'Active', variant: 'default' };
+}
+
+export function PersonalAccessTokens() {
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([]);
+  const [grantable, setGrantable] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState('30');
+  const [ipAllowlist, setIpAllowlist] = useState('');
+  const [newToken, setNewToken] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadTokens = async () => {
+    try {
+      const data = await tokenRequest('');
+      setTokens(data.tokens);
+      setGrantable(data.grantablePermissions);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load tokens');
+    }
+  };
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName('');
+    setPermissions([]);
+    setExpiresInDays('30');
+    setIpAllowlist('');
+  };
+
+  const togglePermission = (permission: string, checked: boolean) => {
+    setPermissions((current) =>
+      checked ? [...current, permission] : current.filter((perm) => perm !== permission)
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const allowlist = ipAllowlist.split(/[\s,]+/).filter((entry) => entry.length > 0);
+      const data = await tokenRequest('', {
+        method: 'POST',
+        body: JSON.stringify({
+          name,
+          permissions,
+          expires_in_days: parseInt(expiresInDays),
+          ip_allowlist: allowlist.length > 0 ? allowlist : null,
+        }),
+      });
+      setNewToken(data.token);
+      resetForm();
+      await loadTokens();
+    } catch (err: any) {
+      setError(err.message || 'Failed to create token');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (token: PersonalAccessToken) => {
+    if (!confirm(`Revoke token "${token.name}"? Scripts using it will stop working.`)) return;
+    setError('');
+
+    try {
+      await tokenRequest(`/${token.id}`, { method: 'DELETE' });
+      await loadTokens();
+    } catch (err: any) {
+      setError(err.message || 'Failed to revoke token');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Personal Access Tokens
+        </CardTitle>
+        <CardDescription>
+          Tokens for scripts and CI pipelines. Send them as <code>Authorization: Bearer &lt;token&gt;</code>.
+          A token acts as you, limited to the permissions you select.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {newToken && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Copy your new token now. It will not be shown again.
+            </p>
+            <div className="rounded-md border bg-muted p-3 font-mono text-sm break-all">{newToken}</div>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => navigator.clipboard.writeText(newToken)}
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Copy token
+              </Button>
+              <Button type="button" size="sm" onClick={() => setNewToken('')}>
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isCreating ? (
+          <form onSubmit={handleCreate} className="space-y-4 rounded-md border p-4">
+            <div className="space-y-2">
+              <Label htmlFor="tokenName">Name</Label>
+              <Input
+                id="tokenName"
+                placeholder="CI deploy"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Expires in</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays} disabled={isLoading}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.days} value={option.days}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              <div className="grid grid-cols-2 gap-2 md:grid-cols-3">
+                {grantable.map((permission) => (
+                  <label key={permission} className="flex items-center gap-2 text-sm font-mono">
+                    <Checkbox
+                      checked={permissions.includes(permission)}
+                      onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                      disabled={isLoading}
+                    />
+                    {permission}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tokenIpAllowlist">IP allowlist (optional)</Label>
+              <Textarea
+                id="tokenIpAllowlist"
+                placeholder={'203.0.113.0/24\n2001:db8::/32'}
+                value={ipAllowlist}
+                onChange={(e) => setIpAllowlist(e.target.value)}
+                disabled={isLoading}
+                rows={3}
+              />
+              <p className="text-xs text-muted-foreground">
+                Addresses or CIDR ranges, one per line. Leave empty to allow any address.
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={resetForm} disabled={isLoading}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading || !name.trim() || permissions.length === 0}>
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Token
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button onClick={() => setIsCreating(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Token
+          </Button>
+        )}
+
+        {tokens.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Permissions</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokens.map((token) => {
+                const status = tokenStatus(token);
+                return (
+                  <TableRow key={token.id}>
+                    <TableCell>
+                      <div className="font-medium">{token.name}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{token.tokenPrefix}…</div>
+                      {token.ipAllowlist && (
+                        <div className="text-xs text-muted-foreground">{token.ipAllowlist.join(', ')}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs font-mono">{token.permissions.join(', ')}</TableCell>
+                    <TableCell className="text-sm">{new Date(token.expiresAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-sm">
+                      {token.lastUsedAt ? (
+                        <>
+                          {new Date(token.lastUsedAt).toLocaleString()}
+                          {token.lastUsedIp && (
+                            <div className="text-xs text-muted-foreground">{token.lastUsedIp}</div>
+                          )}
+                        </>
+                      ) : (
+                        'Never'
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {status.label === 'Active' && (
+                        <Button variant="outline" size="sm" onClick={() => handleRevoke(token)}>
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -42,6 +42,12 @@ const chartDataCache = new Map<string, {
   network: Array<{ time: string; download: number; upload: number }>;
 }>();
 
+// SHA-256 fingerprint as AB:CD:... (first 8 bytes), or the auth method without one
+function formatFingerprint(fingerprint?: string): string {
+  if (!fingerprint) return "None (API key)";
+  return `${fingerprint.slice(0, 16).toUpperCase().match(/../g)!.join(":")}…`;
+}
+
 interface SystemMetricsProps {
   device: Device;
   networkInterfaces?: NetworkInterface[];
@@ -183,6 +189,7 @@ export function SystemMetrics({
     { label: "Hostname", value: device.name },
     { label: "IP Address", value: device.ipAddress },
     { label: "MAC Address", value: "Unknown" },
+    { label: "Client Certificate", value: formatFingerprint(device.certificateFingerprint) },
   ]);
 
   const [processes, setProcesses] = useState<Array<{
@@ -219,8 +226,9 @@ export function SystemMetrics({
       { label: "Hostname", value: data.hostname || device.name },
       { label: "IP Address", value: device.ipAddress },
       { label: "MAC Address", value: data.macAddress || device.macAddress || "Unknown" },
+      { label: "Client Certificate", value: formatFingerprint(device.certificateFingerprint) },
     ]);
-  }, [device.name, device.ipAddress, device.macAddress, formatUptime]);
+  }, [device.name, device.ipAddress, device.macAddress, device.certificateFingerprint, formatUptime]);
 
   // Handle processes updates via WebSocket
   const handleProcesses = useCallback((data: { top_processes: ProcessData[] }) => {
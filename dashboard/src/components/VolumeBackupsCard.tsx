@@ -0,0 +1,351 @@
+/**
+ * Volume Backups Card - Back up app volumes and restore them on this or another device
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Archive, Download, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { buildApiUrl } from '@/config/api';
+import { Device } from './DeviceSidebar';
+import { canPerformDeviceActions, getDisabledActionMessage } from '@/utils/devicePermissions';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface VolumeBackup {
+  id: number;
+  device_uuid: string | null;
+  app_id: number;
+  volume_name: string;
+  size_bytes: number;
+  sha256: string;
+  created_at: string;
+}
+
+interface VolumeBackupsCardProps {
+  deviceUuid: string;
+  deviceStatus?: Device['status'];
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export const VolumeBackupsCard: React.FC<VolumeBackupsCardProps> = ({ deviceUuid, deviceStatus }) => {
+  const [backups, setBackups] = useState<VolumeBackup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showBackupDialog, setShowBackupDialog] = useState(false);
+  const [appId, setAppId] = useState('');
+  const [volumeName, setVolumeName] = useState('');
+  const [pauseService, setPauseService] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [backupToRestore, setBackupToRestore] = useState<VolumeBackup | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState('');
+  const [backupToDelete, setBackupToDelete] = useState<VolumeBackup | null>(null);
+
+  const canRunActions = canPerformDeviceActions(deviceStatus);
+  const disabledMessage = getDisabledActionMessage(deviceStatus);
+
+  const fetchBackups = async () => {
+    if (!deviceUuid) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(buildApiUrl(`/api/v1/devices/${deviceUuid}/volume-backups`));
+      if (!response.ok) {
+        throw new Error('Failed to fetch volume backups');
+      }
+      const data = await response.json();
+      setBackups(data.backups || []);
+    } catch (err) {
+      console.error('Error fetching volume backups:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load volume backups');
+      setBackups([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBackups();
+  }, [deviceUuid]);
+
+  const handleBackup = async () => {
+    setSubmitting(true);
+    try {
+      const response = await fetch(buildApiUrl(`/api/v1/devices/${deviceUuid}/volume-backups`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          app_id: parseInt(appId, 10),
+          volume_name: volumeName.trim(),
+          pause_service: pauseService,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || 'Failed to queue backup');
+      }
+      setShowBackupDialog(false);
+      setAppId('');
+      setVolumeName('');
+      setPauseService(false);
+    } catch (err) {
+      console.error('Error queueing volume backup:', err);
+      alert(err instanceof Error ? err.message : 'Failed to queue backup');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backupToRestore) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(buildApiUrl(`/api/v1/volume-backups/${backupToRestore.id}/restore`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ device_uuid: restoreTarget.trim() || deviceUuid }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || 'Failed to queue restore');
+      }
+      setBackupToRestore(null);
+    } catch (err) {
+      console.error('Error queueing volume restore:', err);
+      alert(err instanceof Error ? err.message : 'Failed to queue restore');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!backupToDelete) return;
+
+    try {
+      const response = await fetch(buildApiUrl(`/api/v1/volume-backups/${backupToDelete.id}`), {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to delete backup');
+      }
+      setBackupToDelete(null);
+      await fetchBackups();
+    } catch (err) {
+      console.error('Error deleting volume backup:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete backup');
+    }
+  };
+
+  const handleDownload = async (backup: VolumeBackup) => {
+    try {
+      const response = await fetch(buildApiUrl(`/api/v1/volume-backups/${backup.id}/download`));
+      if (!response.ok) {
+        throw new Error('Failed to download backup');
+      }
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${backup.volume_name}-${backup.id}.tar.gz`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading volume backup:', err);
+      alert(err instanceof Error ? err.message : 'Failed to download backup');
+    }
+  };
+
+  return (
+    <>
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight text-foreground">Volume Backups</h1>
+          <p className="text-sm text-muted-foreground">
+            Snapshots of app volumes. Schedule them with the volume-backup job template.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={fetchBackups} disabled={loading} title="Refresh backups">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button
+            onClick={() => setShowBackupDialog(true)}
+            disabled={!canRunActions}
+            title={!canRunActions ? disabledMessage : undefined}
+            className="flex items-center gap-2"
+          >
+            <Archive className="w-4 h-4" /> Back Up Volume
+          </Button>
+        </div>
+      </div>
+
+      <Card className="p-4 md:p-6">
+        {loading && backups.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">Loading backups...</div>
+        ) : error ? (
+          <div className="text-center py-8 text-red-600">{error}</div>
+        ) : backups.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">No volume backups yet.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-3 px-4 font-semibold text-sm text-foreground">Volume</th>
+                  <th className="text-left py-3 px-4 font-semibold text-sm text-foreground hidden md:table-cell">App</th>
+                  <th className="text-left py-3 px-4 font-semibold text-sm text-foreground">Size</th>
+                  <th className="text-left py-3 px-4 font-semibold text-sm text-foreground">Date</th>
+                  <th className="text-right py-3 px-4 font-semibold text-sm text-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {backups.map((backup) => (
+                  <tr key={backup.id} className="border-b border-border last:border-0 hover:bg-muted">
+                    <td className="py-3 px-4 text-foreground font-medium">{backup.volume_name}</td>
+                    <td className="py-3 px-4 text-muted-foreground hidden md:table-cell">{backup.app_id}</td>
+                    <td className="py-3 px-4 text-muted-foreground">{formatBytes(Number(backup.size_bytes))}</td>
+                    <td className="py-3 px-4 text-muted-foreground">{new Date(backup.created_at).toLocaleString()}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setRestoreTarget('');
+                            setBackupToRestore(backup);
+                          }}
+                          title="Restore"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDownload(backup)} title="Download">
+                          <Download className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setBackupToDelete(backup)}
+                          title="Delete"
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      {/* Back up dialog */}
+      <Dialog open={showBackupDialog} onOpenChange={setShowBackupDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Back Up Volume</DialogTitle>
+            <DialogDescription>
+              Queues a job that archives the volume on the device and uploads it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="backup-app-id">App ID</Label>
+              <Input id="backup-app-id" type="number" value={appId} onChange={(e) => setAppId(e.target.value)} placeholder="1001" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backup-volume-name">Volume name</Label>
+              <Input id="backup-volume-name" value={volumeName} onChange={(e) => setVolumeName(e.target.value)} placeholder="historian" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="backup-pause" checked={pauseService} onCheckedChange={(checked) => setPauseService(checked === true)} />
+              <Label htmlFor="backup-pause">Pause the services using the volume while it is archived</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowBackupDialog(false)}>Cancel</Button>
+            <Button onClick={handleBackup} disabled={submitting || !appId || !volumeName.trim()}>
+              {submitting ? 'Queueing...' : 'Back Up'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Restore dialog */}
+      <Dialog open={!!backupToRestore} onOpenChange={(open) => !open && setBackupToRestore(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Restore Volume</DialogTitle>
+            <DialogDescription>
+              Replaces the contents of volume {backupToRestore?.volume_name} with this backup. Services using the
+              volume are stopped during the restore.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="restore-target">Target device UUID</Label>
+            <Input
+              id="restore-target"
+              value={restoreTarget}
+              onChange={(e) => setRestoreTarget(e.target.value)}
+              placeholder={`${deviceUuid} (this device)`}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBackupToRestore(null)}>Cancel</Button>
+            <Button onClick={handleRestore} disabled={submitting}>
+              {submitting ? 'Queueing...' : 'Restore'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!backupToDelete} onOpenChange={(open) => !open && setBackupToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Backup</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete backup #{backupToDelete?.id} of volume {backupToDelete?.volume_name}? This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default VolumeBackupsCard;
@@ -38,10 +38,20 @@ interface ServiceConfig {
   };
 }
 
+// Reported by the agent while target changes for an app are deferred
+interface UpdatePending {
+  reason: 'maintenance-window' | 'update-lock';
+  message: string;
+  since: string;
+  nextWindowAt?: string;
+  lockedBy?: string;
+}
+
 interface AppState {
   appId: number;
   appName: string;
   services: ServiceConfig[];
+  updatePending?: UpdatePending; // Current state only
 }
 
 interface DeviceConfig {
@@ -740,4 +750,4 @@ export function useDeviceState() {
 }
 
 // Export types
-export type { DeviceState, AppState, ServiceConfig, DeviceConfig };
+export type { DeviceState, AppState, ServiceConfig, DeviceConfig, UpdatePending };
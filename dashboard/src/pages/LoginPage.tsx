@@ -1,9 +1,11 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Alert, AlertDescription } from '../components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '../components/ui/input-otp';
+import { MfaEnrollment } from '../components/MfaEnrollment';
 import { AlertCircle, Loader2 } from 'lucide-react';
 import { buildApiUrl } from '../config/api';
 
@@ -20,6 +22,133 @@ export function LoginPage({ onLogin }: LoginPageProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
+  // Second factor step (after the password was accepted)
+  const [mfaToken, setMfaToken] = useState('');
+  const [mfaEnrollmentRequired, setMfaEnrollmentRequired] = useState(false);
+  const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
+
+  // Single sign-on (shown when the API has an OIDC provider configured)
+  const [sso, setSso] = useState<{ enabled: boolean; displayName: string } | null>(null);
+
+  const completeLogin = (result: { accessToken: string; refreshToken: string; user: any }) => {
+    // Store tokens in localStorage
+    localStorage.setItem('accessToken', result.accessToken);
+    localStorage.setItem('refreshToken', result.refreshToken);
+
+    // Call parent handler
+    onLogin(result.accessToken, result.refreshToken, result.user);
+  };
+
+  const resetMfa = () => {
+    setMfaToken('');
+    setMfaEnrollmentRequired(false);
+    setMfaCode('');
+    setUseRecoveryCode(false);
+    setRecoveryCode('');
+    setError('');
+  };
+
+  // Handle the single sign-on result: the API redirects back with a one-time
+  // code (or an error) in the query string
+  const handleLoginResponse = (data: any) => {
+    if (data.data.mfaRequired) {
+      setMfaToken(data.data.mfaToken);
+      setMfaEnrollmentRequired(data.data.mfaEnrollmentRequired);
+      return;
+    }
+
+    completeLogin(data.data);
+  };
+
+  useEffect(() => {
+    fetch(buildApiUrl('/api/v1/auth/oidc/config'))
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setSso(data?.data || null))
+      .catch(() => setSso(null));
+
+    const params = new URLSearchParams(window.location.search);
+    const oidcCode = params.get('oidc_code');
+    const oidcError = params.get('oidc_error');
+    if (!oidcCode && !oidcError) return;
+
+    params.delete('oidc_code');
+    params.delete('oidc_error');
+    const query = params.toString();
+    window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : ''));
+
+    if (oidcError) {
+      setError(oidcError);
+      return;
+    }
+
+    const exchange = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(buildApiUrl('/api/v1/auth/oidc/exchange'), {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ code: oidcCode }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || data.error || 'Single sign-on failed');
+        }
+
+        handleLoginResponse(data);
+      } catch (err: any) {
+        console.error('SSO login error:', err);
+        setError(err.message || 'Single sign-on failed');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    exchange();
+  }, []);
+
+  const handleSsoLogin = () => {
+    const redirect = encodeURIComponent(window.location.pathname);
+    window.location.href = buildApiUrl(`/api/v1/auth/oidc/login?redirect=${redirect}`);
+  };
+
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(buildApiUrl('/api/v1/auth/login/mfa'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(
+          useRecoveryCode ? { mfaToken, recoveryCode } : { mfaToken, code: mfaCode }
+        ),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Verification failed');
+      }
+
+      completeLogin(data.data);
+    } catch (err: any) {
+      console.error('MFA verification error:', err);
+      setError(err.message || 'Verification failed');
+      setMfaCode('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -45,12 +174,7 @@ export function LoginPage({ onLogin }: LoginPageProps) {
         throw new Error(data.message || data.error || 'Authentication failed');
       }
 
-      // Store tokens in localStorage
-      localStorage.setItem('accessToken', data.data.accessToken);
-      localStorage.setItem('refreshToken', data.data.refreshToken);
-
-      // Call parent handler
-      onLogin(data.data.accessToken, data.data.refreshToken, data.data.user);
+      handleLoginResponse(data);
     } catch (err: any) {
       console.error('Authentication error:', err);
       setError(err.message || 'An error occurred during authentication');
@@ -59,6 +183,108 @@ export function LoginPage({ onLogin }: LoginPageProps) {
     }
   };
 
+  if (mfaToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-bold text-center">
+              {mfaEnrollmentRequired ? 'Set Up Two-Factor Authentication' : 'Two-Factor Authentication'}
+            </CardTitle>
+            <CardDescription className="text-center">
+              {mfaEnrollmentRequired
+                ? 'Your role requires two-factor authentication'
+                : useRecoveryCode
+                  ? 'Enter one of your recovery codes'
+                  : 'Enter the code from your authenticator app'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {mfaEnrollmentRequired ? (
+              <MfaEnrollment
+                mfaToken={mfaToken}
+                onComplete={(result) => completeLogin(result as any)}
+                onCancel={resetMfa}
+              />
+            ) : (
+              <form onSubmit={handleMfaSubmit} className="space-y-4">
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                {useRecoveryCode ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="recoveryCode">Recovery Code</Label>
+                    <Input
+                      id="recoveryCode"
+                      type="text"
+                      placeholder="xxxxx-xxxxx"
+                      value={recoveryCode}
+                      onChange={(e) => setRecoveryCode(e.target.value)}
+                      required
+                      disabled={isLoading}
+                      autoComplete="off"
+                    />
+                  </div>
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={6} value={mfaCode} onChange={setMfaCode} disabled={isLoading} autoFocus>
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading || (useRecoveryCode ? !recoveryCode : mfaCode.length !== 6)}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    'Verify'
+                  )}
+                </Button>
+
+                <div className="flex justify-between">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setError('');
+                    }}
+                    className="text-sm text-blue-600 hover:underline"
+                    disabled={isLoading}
+                  >
+                    {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={resetMfa}
+                    className="text-sm text-muted-foreground hover:underline"
+                    disabled={isLoading}
+                  >
+                    Back to sign in
+                  </button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4">
       <Card className="w-full max-w-md">
@@ -154,6 +380,28 @@ export function LoginPage({ onLogin }: LoginPageProps) {
             </Button>
           </form>
 
+          {isLogin && sso?.enabled && (
+            <div className="mt-4 space-y-4">
+              <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                  <span className="w-full border-t" />
+                </div>
+                <div className="relative flex justify-center text-xs uppercase">
+                  <span className="bg-card px-2 text-muted-foreground">or</span>
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handleSsoLogin}
+                disabled={isLoading}
+              >
+                Sign in with {sso.displayName}
+              </Button>
+            </div>
+          )}
+
           <div className="mt-4 text-center">
             <button
               type="button"
@@ -5,10 +5,20 @@ import { Label } from '../components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Alert, AlertDescription } from '../components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
-import { AlertCircle, CheckCircle2, Loader2, User, Lock } from 'lucide-react';
+import { Badge } from '../components/ui/badge';
+import { MfaEnrollment, RecoveryCodes } from '../components/MfaEnrollment';
+import { PersonalAccessTokens } from '../components/PersonalAccessTokens';
+import { AlertCircle, CheckCircle2, Loader2, User, Lock, ShieldCheck, KeyRound } from 'lucide-react';
 import { buildApiUrl } from '../config/api';
 import { useAuth } from '../contexts/AuthContext';
 
+interface MfaStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
 export function ProfilePage() {
   const { user } = useAuth();
   
@@ -27,6 +37,15 @@ export function ProfilePage() {
   const [passwordError, setPasswordError] = useState('');
   const [passwordSuccess, setPasswordSuccess] = useState('');
 
+  // MFA state
+  const [mfaStatus, setMfaStatus] = useState<MfaStatus | null>(null);
+  const [isEnrollingMfa, setIsEnrollingMfa] = useState(false);
+  const [mfaPassword, setMfaPassword] = useState('');
+  const [mfaCode, setMfaCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [isLoadingMfa, setIsLoadingMfa] = useState(false);
+  const [mfaError, setMfaError] = useState('');
+
   // Load user data
   useEffect(() => {
     if (user) {
@@ -35,6 +54,80 @@ export function ProfilePage() {
     }
   }, [user]);
 
+  const loadMfaStatus = async () => {
+    try {
+      const accessToken = localStorage.getItem('accessToken');
+      const response = await fetch(buildApiUrl('/api/v1/auth/mfa/status'), {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setMfaStatus(data.data);
+      }
+    } catch (err) {
+      console.error('MFA status error:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadMfaStatus();
+  }, []);
+
+  const postMfa = async (path: string, body: Record<string, string>) => {
+    const accessToken = localStorage.getItem('accessToken');
+    const response = await fetch(buildApiUrl(`/api/v1/auth/mfa/${path}`), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const handleDisableMfa = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMfaError('');
+    setIsLoadingMfa(true);
+
+    try {
+      await postMfa('disable', { password: mfaPassword, code: mfaCode });
+      setMfaPassword('');
+      setMfaCode('');
+      setRecoveryCodes([]);
+      await loadMfaStatus();
+    } catch (err: any) {
+      setMfaError(err.message || 'Failed to disable MFA');
+    } finally {
+      setIsLoadingMfa(false);
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    setMfaError('');
+    setIsLoadingMfa(true);
+
+    try {
+      const data = await postMfa('recovery-codes', { code: mfaCode });
+      setRecoveryCodes(data.data.recoveryCodes);
+      setMfaCode('');
+      await loadMfaStatus();
+    } catch (err: any) {
+      setMfaError(err.message || 'Failed to regenerate recovery codes');
+    } finally {
+      setIsLoadingMfa(false);
+    }
+  };
+
   const handleProfileUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     setProfileError('');
@@ -142,7 +235,7 @@ export function ProfilePage() {
       </div>
 
       <Tabs defaultValue="profile" className="w-full">
-        <TabsList className="grid w-full grid-cols-2 max-w-[400px]">
+        <TabsList className="grid w-full grid-cols-3 max-w-[600px]">
           <TabsTrigger value="profile">
             <User className="h-4 w-4 mr-2" />
             Profile
@@ -151,6 +244,10 @@ export function ProfilePage() {
             <Lock className="h-4 w-4 mr-2" />
             Security
           </TabsTrigger>
+          <TabsTrigger value="tokens">
+            <KeyRound className="h-4 w-4 mr-2" />
+            API Tokens
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="profile">
@@ -318,6 +415,112 @@ export function ProfilePage() {
               </form>
             </CardContent>
           </Card>
+
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Two-Factor Authentication
+                {mfaStatus && (
+                  <Badge variant={mfaStatus.enabled ? 'default' : 'secondary'}>
+                    {mfaStatus.enabled ? 'Enabled' : 'Disabled'}
+                  </Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                Require a code from an authenticator app when signing in
+                {mfaStatus?.required && ' (required for your role)'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {mfaError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{mfaError}</AlertDescription>
+                </Alert>
+              )}
+
+              {recoveryCodes.length > 0 && <RecoveryCodes codes={recoveryCodes} />}
+
+              {mfaStatus && !mfaStatus.enabled && (
+                isEnrollingMfa ? (
+                  <MfaEnrollment
+                    onComplete={() => {
+                      setIsEnrollingMfa(false);
+                      loadMfaStatus();
+                    }}
+                    onCancel={() => setIsEnrollingMfa(false)}
+                  />
+                ) : (
+                  <Button onClick={() => setIsEnrollingMfa(true)}>
+                    Enable Two-Factor Authentication
+                  </Button>
+                )
+              )}
+
+              {mfaStatus?.enabled && (
+                <form onSubmit={handleDisableMfa} className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    {mfaStatus.recoveryCodesRemaining} recovery codes remaining
+                  </p>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="mfaCode">Authenticator Code</Label>
+                    <Input
+                      id="mfaCode"
+                      type="text"
+                      inputMode="numeric"
+                      placeholder="123456"
+                      value={mfaCode}
+                      onChange={(e) => setMfaCode(e.target.value)}
+                      disabled={isLoadingMfa}
+                      autoComplete="one-time-code"
+                    />
+                  </div>
+
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleRegenerateCodes}
+                    disabled={isLoadingMfa || !mfaCode}
+                  >
+                    New Recovery Codes
+                  </Button>
+
+                  {!mfaStatus.required && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="mfaPassword">Current Password</Label>
+                        <Input
+                          id="mfaPassword"
+                          type="password"
+                          placeholder="Required to disable two-factor authentication"
+                          value={mfaPassword}
+                          onChange={(e) => setMfaPassword(e.target.value)}
+                          disabled={isLoadingMfa}
+                        />
+                      </div>
+
+                      <Button
+                        type="submit"
+                        variant="destructive"
+                        disabled={isLoadingMfa || !mfaCode || !mfaPassword}
+                      >
+                        {isLoadingMfa && (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Disable Two-Factor Authentication
+                      </Button>
+                    </>
+                  )}
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="tokens">
+          <PersonalAccessTokens />
         </TabsContent>
       </Tabs>
     </div>
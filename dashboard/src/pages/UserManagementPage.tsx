@@ -39,6 +39,7 @@ import {
   Edit,
   Trash2,
   Shield,
+  ShieldOff,
   Users,
   AlertCircle,
   CheckCircle,
@@ -53,6 +54,8 @@ interface User {
   email: string;
   role: string;
   isActive: boolean;
+  mfaEnabled?: boolean;
+  authProvider?: 'local' | 'oidc';
   createdAt: string;
   lastLoginAt?: string;
 }
@@ -229,6 +232,35 @@ export function UserManagementPage() {
     }
   };
 
+  // Reset MFA (user lost their authenticator)
+  const handleResetMfa = async (user: User) => {
+    if (!confirm(`Reset two-factor authentication for ${user.username}? They will be signed out.`)) return;
+
+    try {
+      const accessToken = localStorage.getItem('accessToken');
+      const response = await fetch(
+        buildApiUrl(`/api/v1/users/${user.id}/mfa/reset`),
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to reset MFA');
+      }
+
+      toast.success('MFA reset successfully');
+      fetchUsers();
+    } catch (error: any) {
+      console.error('Error resetting MFA:', error);
+      toast.error(error.message || 'Failed to reset MFA');
+    }
+  };
+
   // Format date
   const formatDate = (date: string) => {
     return new Date(date).toLocaleDateString('en-US', {
@@ -317,6 +349,16 @@ export function UserManagementPage() {
                           Inactive
                         </Badge>
                       )}
+                      {user.mfaEnabled && (
+                        <Badge variant="outline" className="ml-1">
+                          MFA
+                        </Badge>
+                      )}
+                      {user.authProvider === 'oidc' && (
+                        <Badge variant="outline" className="ml-1">
+                          SSO
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
                       {user.lastLoginAt
@@ -332,6 +374,16 @@ export function UserManagementPage() {
                         >
                           <Edit className="w-4 h-4" />
                         </Button>
+                        {user.mfaEnabled && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Reset MFA"
+                            onClick={() => handleResetMfa(user)}
+                          >
+                            <ShieldOff className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
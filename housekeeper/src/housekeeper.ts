@@ -338,6 +338,8 @@ export function createHousekeeper(config: HousekeeperConfig = {}) {
       await import('./tasks/device-logs-partition-maintenance'),
       await import('./tasks/device-metrics-partition-maintenance'),
       await import('./tasks/events-partition-maintenance'),
+      await import('./tasks/sensor-data-partition-maintenance'),
+      await import('./tasks/service-metrics-partition-maintenance'),
       await import('./tasks/security-scan-images'),
       // Add more tasks here
     ];
@@ -0,0 +1,83 @@
+/**
+ * Service Metrics Partition Maintenance Task
+ *
+ * Creates future service_metrics partitions and drops old ones to ensure:
+ * 1. Per-service samples from device state reports are never rejected due to missing partitions
+ * 2. Old samples are cleaned up according to retention policy
+ *
+ * Runs daily at 1am to maintain partition coverage
+ */
+
+import { HousekeeperTask } from '../housekeeper';
+import { pool } from '../db/connection';
+import logger from '../utils/logger';
+
+// Retention period in days (configurable via environment variable)
+const RETENTION_DAYS = parseInt(process.env.SERVICE_METRICS_RETENTION_DAYS || '30');
+
+// Days of partitions kept ready ahead of today
+const DAYS_AHEAD = parseInt(process.env.SERVICE_METRICS_PARTITION_DAYS_AHEAD || '30');
+
+const task: HousekeeperTask = {
+  name: 'service-metrics-partition-maintenance',
+  // Run daily at 1am
+  schedule: '0 1 * * *',
+  // Also run on startup to ensure partitions exist immediately
+  startup: true,
+
+  run: async () => {
+    logger.info('Running service metrics partition maintenance...');
+    logger.info(`   Retention period: ${RETENTION_DAYS} days, days ahead: ${DAYS_AHEAD}\n`);
+
+    try {
+      // 1. Create today's and future partitions
+      logger.info('Creating future partitions...');
+      const createResult = await pool.query(`
+        SELECT create_service_metrics_partition((CURRENT_DATE + i)::DATE) as result
+        FROM generate_series(0, $1::int) AS i
+      `, [DAYS_AHEAD]);
+
+      const created = createResult.rows.filter((r: any) => r.result?.startsWith('CREATED:')).length;
+      const existing = createResult.rows.filter((r: any) => r.result?.startsWith('EXISTS:')).length;
+
+      logger.info(`  ✓ Created: ${created} partitions`);
+      logger.info(`  ℹ Already exists: ${existing} partitions`);
+
+      // 2. Drop old partitions
+      logger.info(`\nDropping partitions older than ${RETENTION_DAYS} days...`);
+      const dropResult = await pool.query(`
+        SELECT drop_old_service_metrics_partitions($1) as result
+      `, [RETENTION_DAYS]);
+
+      const dropped = dropResult.rows.filter((r: any) => r.result?.startsWith('DROPPED:'));
+      const failed = dropResult.rows.filter((r: any) => r.result?.startsWith('ERROR:'));
+
+      logger.info(`  Dropped: ${dropped.length} old partitions`);
+      dropped.forEach((r: any) => logger.info(`    - ${r.result}`));
+      failed.forEach((r: any) => logger.warn(`    - ${r.result}`));
+
+      // 3. Show statistics
+      const stats = await pool.query(`
+        SELECT * FROM get_service_metrics_partition_stats()
+      `);
+
+      if (stats.rows.length > 0) {
+        const totalRows = stats.rows.reduce((sum: number, row: any) => sum + Number(row.row_count), 0);
+        const oldest = stats.rows[stats.rows.length - 1];
+
+        logger.info('\nCurrent Partition Statistics:');
+        logger.info(`  Total partitions: ${stats.rows.length}`);
+        logger.info(`  Oldest partition: ${oldest.partition_name} (${oldest.age_days} days old)`);
+        logger.info(`  Estimated samples: ${totalRows}`);
+      }
+
+      logger.info('\nService metrics partition maintenance completed successfully!');
+
+    } catch (error: any) {
+      logger.error('Failed to maintain service metrics partitions:', error.message);
+      throw error;
+    }
+  }
+};
+
+export default task;
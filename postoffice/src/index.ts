@@ -32,6 +32,7 @@ export class PostOffice {
     // Register built-in templates
     this.registerTemplate('VerifyEmail', templates.VerifyEmail);
     this.registerTemplate('UserSuspended', templates.UserSuspended);
+    this.registerTemplate('AlertNotification', templates.AlertNotification);
     
     // Initialize if configured
     if (this.isConfigured()) {
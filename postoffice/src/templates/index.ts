@@ -32,4 +32,33 @@ Please contact support for more information.
 <p>Your account has been suspended.</p>
 <p>Please contact support for more information.</p>
 `
-};
\ No newline at end of file
+};
+export const AlertNotification: EmailTemplate = {
+  subject: '{{#if alert.test}}[TEST] {{/if}}[{{alert.severity}}] {{alert.ruleName}}{{#if alert.deviceName}} on {{alert.deviceName}}{{/if}}',
+  text: `Hello,
+
+An alert was triggered:
+
+{{alert.message}}
+
+Rule: {{alert.ruleName}}
+Severity: {{alert.severity}}
+Device: {{#if alert.deviceName}}{{alert.deviceName}}{{else}}{{alert.deviceUuid}}{{/if}}
+{{#if alert.value}}Value: {{alert.value}}
+{{/if}}First seen: {{alert.firstSeen}}
+
+View the alert: {{alert.alertUrl}}
+`,
+  html: `<p>Hello,</p>
+<p>An alert was triggered:</p>
+<p><b>{{alert.message}}</b></p>
+<table>
+<tr><td>Rule</td><td>{{alert.ruleName}}</td></tr>
+<tr><td>Severity</td><td>{{alert.severity}}</td></tr>
+<tr><td>Device</td><td>{{#if alert.deviceName}}{{alert.deviceName}}{{else}}{{alert.deviceUuid}}{{/if}}</td></tr>
+{{#if alert.value}}<tr><td>Value</td><td>{{alert.value}}</td></tr>{{/if}}
+<tr><td>First seen</td><td>{{alert.firstSeen}}</td></tr>
+</table>
+<p><a href="{{alert.alertUrl}}">View the alert</a></p>
+`
+};
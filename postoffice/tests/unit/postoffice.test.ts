@@ -233,6 +233,27 @@ describe('PostOffice Service', () => {
         postOffice.send(user, 'UserSuspended', {})
       ).resolves.not.toThrow();
     });
+
+    test('should have AlertNotification template pre-registered', async () => {
+      const user: User = {
+        email: 'ops@example.com',
+      };
+
+      // Should not throw - AlertNotification is built-in
+      await expect(
+        postOffice.send(user, 'AlertNotification', {
+          alert: {
+            ruleName: 'High CPU',
+            severity: 'warning',
+            message: 'Alert: "High CPU" - cpu_usage 93.5 above 90 for 600s',
+            deviceName: 'gateway-01',
+            value: 93.5,
+            firstSeen: '2025-01-01T00:00:00.000Z',
+            alertUrl: 'http://localhost:3000/alerts/1',
+          },
+        })
+      ).resolves.not.toThrow();
+    });
   });
 
   describe('Email Sending', () => {